@@ -9,6 +9,9 @@ import { PatchesController } from './patches.controller';
 import { HealthController } from './health.controller';
 import { AuthController } from './auth.controller';
 import { WebhooksController } from './webhooks.controller';
+import { WebhookEventsService } from './webhook-events.service';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+import { WebhookDeliveriesProcessor } from './webhook-deliveries.processor';
 import { LoggingMiddleware } from './logging.middleware';
 
 @Module({
@@ -18,10 +21,15 @@ import { LoggingMiddleware } from './logging.middleware';
     }),
     BullModule.registerQueue({ name: 'workflow' }),
     BullModule.registerQueue({ name: 'orchestrate' }),
-    BullModule.registerQueue({ name: 'refresh_context' })
+    BullModule.registerQueue({ name: 'refresh_context' }),
+    BullModule.registerQueue({ name: 'repo_index' }),
+    BullModule.registerQueue({ name: 'comments' }),
+    BullModule.registerQueue({ name: 'issues' }),
+    BullModule.registerQueue({ name: 'webhooks' }),
+    BullModule.registerQueue({ name: 'ci_results' })
   ],
   controllers: [WorkflowsController, PatchesController, HealthController, AuthController, WebhooksController, ReposController],
-  providers: [WorkflowsService, ReposService]
+  providers: [WorkflowsService, ReposService, WebhookEventsService, WebhookDeliveriesService, WebhookDeliveriesProcessor]
 })
 export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
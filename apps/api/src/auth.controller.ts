@@ -7,7 +7,7 @@ import { getPrisma } from '@arch-orchestrator/db';
 
 const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID || '';
 const GITHUB_CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET || '';
-const GITHUB_OAUTH_SCOPES = process.env.GITHUB_OAUTH_SCOPES || 'read:user repo';
+const GITHUB_OAUTH_SCOPES = process.env.GITHUB_OAUTH_SCOPES || 'read:user read:org repo';
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-jwt-secret-change-in-production';
 const ALLOWED_USERS = (process.env.ALLOWED_GITHUB_USERS || '').split(',').map(u => u.trim().toLowerCase()).filter(Boolean);
 const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
@@ -3,6 +3,7 @@ import { Request } from 'express';
 import * as jwt from 'jsonwebtoken';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-jwt-secret-change-in-production';
+const ADMIN_USERS = (process.env.ADMIN_GITHUB_USERS || '').split(',').map(u => u.trim().toLowerCase()).filter(Boolean);
 
 export interface AuthUser {
   id: string;
@@ -90,3 +91,23 @@ export class AuthGuard implements CanActivate {
     };
   }
 }
+
+/**
+ * Authenticated users listed in ADMIN_GITHUB_USERS only. Without the
+ * variable, admin endpoints are closed to everyone.
+ */
+@Injectable()
+export class AdminGuard extends AuthGuard {
+  canActivate(context: ExecutionContext): boolean {
+    super.canActivate(context);
+
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!ADMIN_USERS.includes(user.username.toLowerCase())) {
+      throw new HttpException(
+        { errorCode: 'ADMIN_REQUIRED', message: 'Administrator access required' },
+        HttpStatus.FORBIDDEN
+      );
+    }
+    return true;
+  }
+}
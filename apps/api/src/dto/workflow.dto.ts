@@ -27,6 +27,29 @@ export class RepoInput {
     enum: ['primary', 'secondary'],
   })
   role?: 'primary' | 'secondary';
+
+  @ApiPropertyOptional({
+    description: 'Source control provider hosting the repository',
+    example: 'github',
+    default: 'github',
+    enum: ['github', 'gitlab'],
+  })
+  provider?: 'github' | 'gitlab';
+
+  @ApiPropertyOptional({
+    description: 'How PRs are merged once CI passes and the merge is approved; omit to merge by hand',
+    example: 'auto_merge',
+    enum: ['auto_merge', 'merge_queue'],
+  })
+  mergeMode?: 'auto_merge' | 'merge_queue';
+
+  @ApiPropertyOptional({
+    description: 'Merge method used for auto-merge (GitLab: squash or not)',
+    example: 'squash',
+    default: 'squash',
+    enum: ['squash', 'merge', 'rebase'],
+  })
+  mergeMethod?: 'squash' | 'merge' | 'rebase';
 }
 
 export class CreateWorkflowDto {
@@ -123,6 +146,32 @@ export class RequestChangesDto {
   comment!: string;
 }
 
+export class SelectHunkDto {
+  @ApiProperty({
+    description: 'ID of the merged patch set',
+    example: 'ps_abc123',
+  })
+  patchSetId!: string;
+
+  @ApiProperty({
+    description: 'Path of the file with the overlapping hunk',
+    example: 'src/api/users.ts',
+  })
+  path!: string;
+
+  @ApiProperty({
+    description: 'Index of the hunk in the merged file',
+    example: 2,
+  })
+  hunk!: number;
+
+  @ApiProperty({
+    description: 'Agent whose variant to keep',
+    example: 'test-agent',
+  })
+  agentId!: string;
+}
+
 export class WorkflowResponseDto {
   @ApiProperty({ example: 'wf_abc123' })
   id!: string;
@@ -258,3 +307,67 @@ export class StageDecisionResponseDto {
   @ApiPropertyOptional({ example: 'Stage not ready for approval' })
   error?: string;
 }
+
+// Policy waiver DTOs
+export class CreatePolicyWaiverDto {
+  @ApiProperty({
+    description: 'ID of the BLOCK policy violation to waive',
+    example: 'pv_abc123',
+  })
+  violationId!: string;
+
+  @ApiProperty({
+    description: 'Why the violation is acceptable',
+    example: 'Test fixture key, not a real credential',
+  })
+  justification!: string;
+
+  @ApiProperty({
+    description: 'When the waiver stops applying (ISO timestamp, must be in the future)',
+    example: '2026-03-01T00:00:00.000Z',
+  })
+  expiresAt!: string;
+}
+
+export class PolicyWaiverResponseDto {
+  @ApiProperty({ example: 'pw_abc123' })
+  id!: string;
+
+  @ApiProperty({ example: 'wf_abc123' })
+  workflowId!: string;
+
+  @ApiProperty({ example: 'secret_detected' })
+  rule!: string;
+
+  @ApiProperty({ example: 'test/fixtures/keys.ts' })
+  file!: string;
+
+  @ApiProperty({ example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08' })
+  evidenceHash!: string;
+
+  @ApiProperty({ example: 'Test fixture key, not a real credential' })
+  justification!: string;
+
+  @ApiProperty({ example: '2026-03-01T00:00:00.000Z' })
+  expiresAt!: string;
+
+  @ApiProperty({ example: 'user_abc123' })
+  approvedBy!: string;
+
+  @ApiPropertyOptional({ example: 'octocat' })
+  approvedByName?: string;
+
+  @ApiProperty({ example: '2026-02-07T10:00:00.000Z' })
+  createdAt!: string;
+
+  @ApiPropertyOptional({ example: '2026-02-08T10:00:00.000Z' })
+  revokedAt?: string;
+}
+
+export class ApproveCodeownersDto {
+  @ApiProperty({
+    description: 'CODEOWNERS owner to approve for (a protected owner named by the policy)',
+    example: '@acme/security',
+  })
+  owner!: string;
+}
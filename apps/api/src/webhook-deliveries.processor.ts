@@ -0,0 +1,21 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import type { Job } from 'bullmq';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+
+/**
+ * Processes queued GitHub and GitLab webhook deliveries and runs the periodic sweep
+ * for deliveries whose processing job was lost.
+ */
+@Processor('webhooks')
+export class WebhookDeliveriesProcessor extends WorkerHost {
+  constructor(private readonly deliveries: WebhookDeliveriesService) {
+    super();
+  }
+
+  async process(job: Job<{ deliveryId?: string }>) {
+    if (job.name === 'sweep_webhooks') {
+      return this.deliveries.sweep();
+    }
+    return this.deliveries.process(job.data.deliveryId!);
+  }
+}
@@ -0,0 +1,274 @@
+import { Injectable, Logger, OnModuleInit, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import type { Queue } from 'bullmq';
+import { getPrisma } from '@arch-orchestrator/db';
+import {
+  DEFAULT_WEBHOOK_MAX_ATTEMPTS,
+  DEFAULT_WEBHOOK_RETRY_DELAY_MS,
+  createWebhookEvent,
+  extractHeadSha,
+  parseEventType,
+  webhookFailureStatus,
+  type ScmProvider
+} from '@arch-orchestrator/core';
+import { WebhookEventsService } from './webhook-events.service';
+
+export const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || DEFAULT_WEBHOOK_MAX_ATTEMPTS;
+const WEBHOOK_SWEEP_INTERVAL_MS = Number(process.env.WEBHOOK_SWEEP_INTERVAL_MS) || 60_000;
+const WEBHOOK_STALE_AFTER_MS = Number(process.env.WEBHOOK_STALE_AFTER_MS) || 10 * 60_000;
+
+// Events whose handlers skip work already recorded for the delivery (PR
+// closes, CI results, re-index jobs keyed by SHA). Reviews, ChatOps commands
+// and issue intake would act a second time.
+const REPLAYABLE_EVENTS = [
+  'pull_request', 'check_run', 'check_suite', 'status', 'push',
+  // GitLab
+  'Pipeline Hook', 'Merge Request Hook'
+];
+
+export interface ReceiveDeliveryInput {
+  deliveryId: string;
+  event: string;
+  payload: any;
+  signature: string | undefined;
+  provider?: ScmProvider; // default: github
+}
+
+/**
+ * Repository and head commit of a GitLab delivery ("group/sub/project" ->
+ * owner "group/sub").
+ */
+function gitLabDeliveryFields(payload: any) {
+  const projectPath: string = payload?.project?.path_with_namespace ?? '';
+  const split = projectPath.lastIndexOf('/');
+  const attributes = payload?.object_attributes;
+  return {
+    action: attributes?.action ?? null,
+    repoOwner: split > 0 ? projectPath.slice(0, split) : '',
+    repoName: projectPath.slice(split + 1),
+    headSha: attributes?.sha ?? attributes?.last_commit?.id ?? payload?.checkout_sha ?? null
+  };
+}
+
+/**
+ * GitHub and GitLab webhook deliveries: persisted as GitHubWebhook rows on
+ * receipt and processed on the `webhooks` queue with bounded retries.
+ * Deliveries that keep failing are dead-lettered with the last error; a
+ * periodic sweep re-queues deliveries whose processing job was lost, and
+ * deliveries can be replayed by deliveryId. The deliveryId is the processing
+ * job's ID, so a delivery is never queued twice at once.
+ */
+@Injectable()
+export class WebhookDeliveriesService implements OnModuleInit {
+  private readonly logger = new Logger(WebhookDeliveriesService.name);
+  private prisma = getPrisma();
+
+  constructor(
+    @InjectQueue('webhooks') private readonly webhooksQueue: Queue,
+    private readonly events: WebhookEventsService
+  ) {}
+
+  async onModuleInit() {
+    // A fixed jobId keeps a single repeatable sweep across API instances
+    await this.webhooksQueue.add('sweep_webhooks', {}, {
+      repeat: { every: WEBHOOK_SWEEP_INTERVAL_MS },
+      jobId: 'sweep_webhooks'
+    });
+  }
+
+  /**
+   * Persist a verified delivery and queue it. Redeliveries of a processed
+   * delivery are acknowledged without processing it again.
+   */
+  async receive(input: ReceiveDeliveryInput): Promise<{ deliveryId: string; duplicate: boolean }> {
+    const { deliveryId, event, payload, signature, provider = 'github' } = input;
+
+    const existing = await this.prisma.gitHubWebhook.findUnique({ where: { deliveryId } });
+    if (existing?.processed) {
+      this.logger.log(`Delivery ${deliveryId} already processed`);
+      return { deliveryId, duplicate: true };
+    }
+
+    if (!existing) {
+      await this.prisma.gitHubWebhook.create({
+        data: {
+          deliveryId,
+          provider,
+          eventType: event,
+          ...(provider === 'gitlab'
+            ? gitLabDeliveryFields(payload)
+            : {
+                action: payload?.action ?? null,
+                repoOwner: payload?.repository?.owner?.login ?? '',
+                repoName: payload?.repository?.name ?? '',
+                headSha: extractHeadSha(createWebhookEvent(parseEventType(event), payload, deliveryId, signature ?? ''))
+              }),
+          payload,
+          signature: signature ?? ''
+        }
+      });
+    }
+
+    await this.enqueue(deliveryId);
+    return { deliveryId, duplicate: !!existing };
+  }
+
+  /**
+   * Process a queued delivery. Failures are rethrown so the queue retries
+   * them with backoff, until the delivery is dead-lettered.
+   */
+  async process(deliveryId: string) {
+    const webhook = await this.prisma.gitHubWebhook.findUnique({ where: { deliveryId } });
+    if (!webhook || webhook.processed || webhook.status === 'dead_letter') {
+      return { deliveryId, skipped: true };
+    }
+
+    const attempts = webhook.attempts + 1;
+    try {
+      if (webhook.provider === 'gitlab') {
+        await this.events.handleGitLabEvent(webhook.eventType, webhook.payload, deliveryId);
+      } else {
+        await this.events.handleGitHubEvent(webhook.eventType, webhook.payload, deliveryId);
+      }
+    } catch (err: any) {
+      const error = String(err?.message ?? err);
+      const status = webhookFailureStatus(attempts, WEBHOOK_MAX_ATTEMPTS);
+      const deadLettered = status === 'dead_letter';
+      await this.prisma.gitHubWebhook.update({
+        where: { id: webhook.id },
+        data: {
+          status,
+          attempts,
+          lastAttemptAt: new Date(),
+          lastError: error,
+          deadLetteredAt: deadLettered ? new Date() : null
+        }
+      });
+
+      if (deadLettered) {
+        this.logger.error(`Delivery ${deliveryId} dead-lettered after ${attempts} attempt(s): ${error}`);
+        return { deliveryId, deadLettered };
+      }
+      this.logger.warn(`Delivery ${deliveryId} failed (attempt ${attempts}/${WEBHOOK_MAX_ATTEMPTS}): ${error}`);
+      throw err;
+    }
+
+    await this.prisma.gitHubWebhook.update({
+      where: { id: webhook.id },
+      data: {
+        processed: true,
+        processedAt: new Date(),
+        status: 'processed',
+        attempts,
+        lastAttemptAt: new Date(),
+        lastError: null
+      }
+    });
+    return { deliveryId, processed: true };
+  }
+
+  /**
+   * Re-queue deliveries that are still unprocessed with no attempt since
+   * WEBHOOK_STALE_AFTER_MS. Dead letters wait for a manual replay.
+   */
+  async sweep() {
+    const staleBefore = new Date(Date.now() - WEBHOOK_STALE_AFTER_MS);
+    const stale = await this.prisma.gitHubWebhook.findMany({
+      where: {
+        status: { in: ['pending', 'failed'] },
+        createdAt: { lt: staleBefore },
+        OR: [
+          { lastAttemptAt: null },
+          { lastAttemptAt: { lt: staleBefore } }
+        ]
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+      select: { deliveryId: true }
+    });
+
+    for (const { deliveryId } of stale) {
+      await this.enqueue(deliveryId);
+    }
+    if (stale.length > 0) {
+      this.logger.log(`Re-queued ${stale.length} stale webhook deliveries`);
+    }
+    return { requeued: stale.length };
+  }
+
+  async list(params: { status?: string; limit: number }) {
+    const deliveries = await this.prisma.gitHubWebhook.findMany({
+      where: params.status ? { status: params.status } : {},
+      orderBy: { createdAt: 'desc' },
+      take: params.limit,
+      select: {
+        deliveryId: true,
+        provider: true,
+        eventType: true,
+        action: true,
+        repoOwner: true,
+        repoName: true,
+        status: true,
+        attempts: true,
+        lastError: true,
+        lastAttemptAt: true,
+        processedAt: true,
+        deadLetteredAt: true,
+        createdAt: true
+      }
+    });
+    return { items: deliveries };
+  }
+
+  async get(deliveryId: string) {
+    const webhook = await this.prisma.gitHubWebhook.findUnique({ where: { deliveryId } });
+    if (!webhook) {
+      throw new HttpException(
+        { errorCode: 'NOT_FOUND', message: `Webhook delivery ${deliveryId} not found` },
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return webhook;
+  }
+
+  /**
+   * Queue a delivery again. Unprocessed and dead-lettered deliveries can
+   * always be replayed; processed ones only for REPLAYABLE_EVENTS.
+   */
+  async replay(deliveryId: string) {
+    const webhook = await this.get(deliveryId);
+    if (webhook.processed && !REPLAYABLE_EVENTS.includes(webhook.eventType)) {
+      throw new HttpException(
+        { errorCode: 'REPLAY_NOT_IDEMPOTENT', message: `Processed ${webhook.eventType} deliveries cannot be replayed` },
+        HttpStatus.CONFLICT
+      );
+    }
+
+    await this.prisma.gitHubWebhook.update({
+      where: { id: webhook.id },
+      data: { processed: false, status: 'pending', attempts: 0, deadLetteredAt: null }
+    });
+    await this.enqueue(deliveryId);
+
+    this.logger.log(`Replaying delivery ${deliveryId} (${webhook.eventType})`);
+    return { ok: true, deliveryId, status: 'pending' };
+  }
+
+  private async enqueue(deliveryId: string) {
+    // A finished job keeps its ID until removed; a waiting or active one
+    // already covers this request
+    const existing = await this.webhooksQueue.getJob(deliveryId);
+    if (existing && (await existing.isCompleted() || await existing.isFailed())) {
+      await existing.remove();
+    }
+
+    await this.webhooksQueue.add('process_webhook', { deliveryId }, {
+      jobId: deliveryId,
+      attempts: WEBHOOK_MAX_ATTEMPTS,
+      // 5s, then 10s, 20s, ... (webhookRetryDelay)
+      backoff: { type: 'exponential', delay: DEFAULT_WEBHOOK_RETRY_DELAY_MS },
+      removeOnComplete: 100,
+      removeOnFail: 50
+    });
+  }
+}
@@ -0,0 +1,755 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import type { Queue } from 'bullmq';
+import { getPrisma } from '@arch-orchestrator/db';
+import {
+  SETTLED_STATES,
+  createWebhookEvent,
+  extractMergeFailure,
+  formatChatOpsReply,
+  formatReviewFeedback,
+  formatWorkflowStatus,
+  mapGitLabPipelineToCIEvent,
+  mapWebhookToCIEvent,
+  parseChatOpsCommand,
+  type CIEventInput,
+  type WorkflowState
+} from '@arch-orchestrator/core';
+import { WorkflowsService } from './workflows.service';
+
+const ZERO_SHA = /^0+$/;
+
+/**
+ * Applies GitHub and GitLab webhook events to workflows: PR and MR status,
+ * reviews, ChatOps comments, issue intake, CI results and base branch pushes.
+ * CI results go to the worker (ci_results queue), which evaluates the Gate3
+ * quality gates before emitting E_CI_COMPLETED.
+ * Handlers may run more than once for a delivery (retries and replays), so
+ * PR closes and CI results already recorded for it are skipped.
+ */
+@Injectable()
+export class WebhookEventsService {
+  private readonly logger = new Logger(WebhookEventsService.name);
+  private prisma = getPrisma();
+
+  constructor(
+    @InjectQueue('orchestrate') private readonly orchestrateQueue: Queue,
+    @InjectQueue('comments') private readonly commentsQueue: Queue,
+    @InjectQueue('issues') private readonly issuesQueue: Queue,
+    @InjectQueue('repo_index') private readonly repoIndexQueue: Queue,
+    @InjectQueue('ci_results') private readonly ciResultsQueue: Queue,
+    private readonly workflows: WorkflowsService
+  ) {}
+
+  async handleGitHubEvent(event: string, payload: any, deliveryId: string) {
+    switch (event) {
+      case 'pull_request':
+        await this.handlePullRequestEvent(payload);
+        break;
+      case 'pull_request_review':
+        await this.handlePullRequestReviewEvent(payload);
+        break;
+      case 'pull_request_review_comment':
+        await this.handlePullRequestReviewCommentEvent(payload);
+        break;
+      case 'issues':
+        await this.handleIssuesEvent(payload);
+        break;
+      case 'issue_comment':
+        await this.handleIssueCommentEvent(payload);
+        break;
+      case 'check_run':
+        await this.handleCheckRunEvent(payload, deliveryId);
+        break;
+      case 'check_suite':
+        await this.handleCheckSuiteEvent(payload, deliveryId);
+        break;
+      case 'status':
+        await this.handleStatusEvent(payload, deliveryId);
+        break;
+      case 'push':
+        await this.handlePushEvent(payload);
+        break;
+      default:
+        this.logger.log(`Ignoring event type: ${event}`);
+    }
+  }
+
+  async handleGitLabEvent(event: string | undefined, payload: any, deliveryId: string | undefined) {
+    switch (event) {
+      case 'Pipeline Hook':
+        await this.handlePipelineEvent(payload, deliveryId);
+        break;
+      case 'Merge Request Hook':
+        await this.handleMergeRequestEvent(payload);
+        break;
+      default:
+        this.logger.log(`Ignoring event type: ${event}`);
+    }
+  }
+
+  private async handlePullRequestEvent(payload: any) {
+    const action = payload.action;
+    const prNumber = payload.pull_request?.number;
+    const prUrl = payload.pull_request?.html_url;
+    const merged = payload.pull_request?.merged;
+    const headBranch = payload.pull_request?.head?.ref;
+
+    this.logger.log(`PR #${prNumber} action: ${action}, merged: ${merged}`);
+
+    // Find workflow by PR number or branch
+    const pr = await this.prisma.pullRequest.findFirst({
+      where: {
+        OR: [
+          { number: prNumber },
+          { branch: headBranch }
+        ]
+      }
+    });
+
+    if (!pr) {
+      this.logger.log(`No workflow found for PR #${prNumber}`);
+      return;
+    }
+
+    // A closed or merged PR was already handled (redelivery or replay)
+    if (action === 'closed' && (pr.status === 'merged' || pr.status === 'closed')) {
+      this.logger.log(`PR #${prNumber} already ${pr.status}`);
+      return;
+    }
+
+    // Update PR status
+    let newStatus = pr.status;
+    if (action === 'closed') {
+      newStatus = merged ? 'merged' : 'closed';
+    }
+
+    await this.prisma.pullRequest.update({
+      where: { id: pr.id },
+      data: { status: newStatus }
+    });
+
+    // Record event
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId: pr.workflowId,
+        type: `webhook.pull_request.${action}`,
+        payload: {
+          prNumber,
+          prUrl,
+          action,
+          merged,
+          headBranch
+        }
+      }
+    });
+
+    // Emit to orchestrator if merged or closed
+    if (action === 'closed') {
+      await this.orchestrateQueue.add('orchestrate', {
+        workflowId: pr.workflowId,
+        event: {
+          type: merged ? 'E_PR_MERGED' : 'E_PR_CLOSED',
+          prNumber,
+          merged
+        }
+      });
+    }
+
+    // Auto-merge disabled or dequeued before merging: the merge stage failed
+    const mergeFailure = pr.status === 'open'
+      ? extractMergeFailure(createWebhookEvent('pull_request', payload, '', ''))
+      : null;
+    if (mergeFailure) {
+      await this.orchestrateQueue.add('orchestrate', {
+        workflowId: pr.workflowId,
+        event: {
+          type: 'E_MERGE_FAILED',
+          prNumber,
+          reason: mergeFailure.reason
+        }
+      });
+    }
+  }
+
+  /**
+   * A submitted review on the orchestrator's PR. Changes requested sends the
+   * workflow back to the patches stage with the review (and the inline
+   * comments recorded for it) as feedback for the next patch generation;
+   * an approval is stored for the review_approved quality gate.
+   */
+  private async handlePullRequestReviewEvent(payload: any) {
+    const review = payload.review;
+    const prNumber = payload.pull_request?.number;
+    if (payload.action !== 'submitted' || !review || !prNumber) {
+      return;
+    }
+
+    const state = String(review.state).toLowerCase();
+    const reviewer = review.user?.login;
+    this.logger.log(`PR #${prNumber} review ${review.id}: ${state}`);
+
+    const pr = await this.findOrchestratorPullRequest(payload);
+    if (!pr) {
+      this.logger.log(`No workflow found for PR #${prNumber}`);
+      return;
+    }
+
+    await this.prisma.pullRequest.update({
+      where: { id: pr.id },
+      data: { reviewState: state }
+    });
+
+    const comments = state === 'changes_requested'
+      ? await this.collectReviewComments(pr.workflowId, prNumber, review.id)
+      : [];
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId: pr.workflowId,
+        type: `webhook.pull_request_review.${state}`,
+        payload: { prNumber, reviewId: review.id, reviewer, body: review.body, comments }
+      }
+    });
+
+    if (state === 'approved') {
+      await this.orchestrateQueue.add('orchestrate', {
+        workflowId: pr.workflowId,
+        event: { type: 'E_PR_APPROVED', prNumber, reviewer }
+      });
+      return;
+    }
+
+    if (state !== 'changes_requested') {
+      return;
+    }
+
+    // A finished or merging workflow keeps its stage; the review is only recorded
+    const workflow = await this.prisma.workflow.findUnique({ where: { id: pr.workflowId } });
+    if (!workflow || SETTLED_STATES.includes(workflow.state as WorkflowState) || workflow.state === 'MERGING') {
+      this.logger.log(`Workflow ${pr.workflowId} is ${workflow?.state ?? 'missing'}, not re-generating patches`);
+      return;
+    }
+
+    // Back to the patches stage (gated pipeline), feedback for the LLM
+    const feedback = formatReviewFeedback({ prNumber, reviewer, body: review.body ?? undefined }, comments);
+
+    await this.prisma.workflow.update({
+      where: { id: pr.workflowId },
+      data: {
+        feedback,
+        ...(workflow.stage ? { stage: 'patches', stageStatus: 'needs_changes', stageUpdatedAt: new Date() } : {})
+      }
+    });
+
+    await this.orchestrateQueue.add('orchestrate', {
+      workflowId: pr.workflowId,
+      event: { type: 'E_PR_CHANGES_REQUESTED', prNumber, reviewer, body: review.body ?? undefined, comments }
+    });
+  }
+
+  /**
+   * An inline review comment. GitHub delivers these alongside the review
+   * they belong to; they are recorded and attached when the review arrives.
+   */
+  private async handlePullRequestReviewCommentEvent(payload: any) {
+    const comment = payload.comment;
+    const prNumber = payload.pull_request?.number;
+    if (payload.action !== 'created' || !comment || !prNumber) {
+      return;
+    }
+
+    const pr = await this.findOrchestratorPullRequest(payload);
+    if (!pr) {
+      return;
+    }
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId: pr.workflowId,
+        type: 'webhook.pull_request_review_comment.created',
+        payload: {
+          prNumber,
+          reviewId: comment.pull_request_review_id ?? null,
+          path: comment.path,
+          line: comment.line ?? comment.original_line ?? null,
+          body: comment.body,
+          author: comment.user?.login
+        }
+      }
+    });
+  }
+
+  /**
+   * An issue labeled for the orchestrator (ORCHESTRATOR_ISSUE_LABEL) becomes
+   * a workflow. The worker creates it (createWorkflowFromIssue in
+   * @arch-orchestrator/core), since it reads the issue's comments and
+   * repository through the SCM client.
+   */
+  private async handleIssuesEvent(payload: any) {
+    const { issue, repository, label } = payload;
+    const issueLabel = process.env.ORCHESTRATOR_ISSUE_LABEL || 'orchestrator';
+    if (payload.action !== 'labeled' || !issue || !repository || issue.pull_request || label?.name !== issueLabel) {
+      return;
+    }
+
+    const owner = repository.owner?.login;
+    const repo = repository.name;
+    this.logger.log(`Issue ${owner}/${repo}#${issue.number} labeled "${issueLabel}", queueing intake`);
+
+    await this.issuesQueue.add('issue_intake', {
+      owner,
+      repo,
+      number: issue.number,
+      title: issue.title,
+      body: issue.body ?? null,
+      url: issue.html_url
+    });
+  }
+
+  /**
+   * `/orchestrator` commands on an orchestrator PR or a workflow's linked
+   * issue. The commenter must have signed in (GitHubAuth); commands use the
+   * same WorkflowsService paths as the dashboard, and the worker posts the
+   * reply comment.
+   */
+  private async handleIssueCommentEvent(payload: any) {
+    const { issue, comment, sender, repository } = payload;
+    if (payload.action !== 'created' || !issue || !comment || !sender || !repository || sender.type === 'Bot') {
+      return;
+    }
+
+    const parsed = parseChatOpsCommand(comment.body);
+    if (!parsed) {
+      return;
+    }
+
+    const owner = repository.owner?.login;
+    const repo = repository.name;
+    const isPullRequest = !!issue.pull_request;
+    const workflowId = await this.findWorkflowForIssue(owner, repo, issue.number, isPullRequest);
+    if (!workflowId) {
+      this.logger.log(`No workflow found for ${owner}/${repo}#${issue.number}`);
+      return;
+    }
+
+    const auth = await this.prisma.gitHubAuth.findUnique({
+      where: { githubUserId: String(sender.id) }
+    });
+
+    let outcome: string;
+    let reply: string;
+    let ok = false;
+    if (!auth) {
+      outcome = 'unauthorized';
+      reply = `@${sender.login} is not authorized to run orchestrator commands. Sign in to the dashboard with GitHub first.`;
+    } else if (!parsed.ok) {
+      outcome = 'invalid';
+      reply = `@${sender.login} ${parsed.error}`;
+    } else {
+      const { command } = parsed;
+      outcome = command.name;
+
+      const workflow = await this.prisma.workflow.findUnique({
+        where: { id: workflowId },
+        include: { pullRequests: { orderBy: { createdAt: 'asc' } } }
+      });
+      if (!workflow) {
+        return;
+      }
+
+      if (command.name === 'status') {
+        ok = true;
+        reply = formatWorkflowStatus(workflow);
+      } else {
+        const stage = command.name === 'request-changes' ? workflow.stage : command.stage ?? workflow.stage;
+        const via = `via comment ${comment.html_url ?? `#${comment.id}`}`;
+        const result = command.name === 'approve'
+          ? await this.workflows.approveStage(workflowId, stage, `Approved ${via}`, auth.githubUserId, auth.username)
+          : command.name === 'retry'
+            ? await this.workflows.retryStage(workflowId, stage, auth.githubUserId, auth.username)
+            : await this.workflows.requestStageChanges(workflowId, stage, command.reason, auth.githubUserId, auth.username);
+        ok = result.ok;
+        reply = formatChatOpsReply(command, stage, result, sender.login);
+      }
+    }
+
+    this.logger.log(`ChatOps ${outcome} by ${sender.login} on ${owner}/${repo}#${issue.number} (ok: ${ok})`);
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId,
+        type: `chatops.${outcome}`,
+        payload: { commentId: comment.id, actor: sender.login, ok }
+      }
+    });
+
+    await this.commentsQueue.add('post_comment', {
+      workflowId,
+      owner,
+      repo,
+      issueNumber: issue.number,
+      pullRequest: isPullRequest,
+      body: reply
+    });
+  }
+
+  /**
+   * A PR the orchestrator opened in the repository, or a workflow's linked issue.
+   */
+  private async findWorkflowForIssue(owner: string, repo: string, issueNumber: number, isPullRequest: boolean) {
+    if (isPullRequest) {
+      const pr = await this.prisma.pullRequest.findFirst({
+        where: {
+          number: issueNumber,
+          workflow: {
+            OR: [
+              { repoOwner: owner, repoName: repo },
+              { repos: { some: { owner, repo } } }
+            ]
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+      return pr?.workflowId ?? null;
+    }
+
+    const workflow = await this.prisma.workflow.findFirst({
+      where: { issueOwner: owner, issueRepo: repo, issueNumber },
+      orderBy: { createdAt: 'desc' }
+    });
+    return workflow?.id ?? null;
+  }
+
+  /**
+   * Reviews only count on PRs the orchestrator opened: repository, number
+   * and head branch must all match (PRs recorded without a repo fall back
+   * to their workflow's repo).
+   */
+  private async findOrchestratorPullRequest(payload: any) {
+    const prNumber = payload.pull_request?.number;
+    const headBranch = payload.pull_request?.head?.ref;
+    const owner = payload.repository?.owner?.login;
+    const repo = payload.repository?.name;
+    if (!headBranch || !owner || !repo) {
+      return null;
+    }
+    return this.prisma.pullRequest.findFirst({
+      where: {
+        number: prNumber,
+        branch: headBranch,
+        OR: [
+          { repoOwner: owner, repoName: repo },
+          { repoOwner: null, workflow: { repoOwner: owner, repoName: repo } }
+        ]
+      }
+    });
+  }
+
+  private async collectReviewComments(workflowId: string, prNumber: number, reviewId: number) {
+    const events = await this.prisma.workflowEvent.findMany({
+      where: { workflowId, type: 'webhook.pull_request_review_comment.created' },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return events
+      .map(e => e.payload as any)
+      .filter(p => p?.prNumber === prNumber && p?.reviewId === reviewId)
+      .map(p => ({ path: p.path ?? undefined, line: p.line ?? undefined, body: String(p.body ?? ''), author: p.author ?? undefined }));
+  }
+
+  /**
+   * A push to a tracked base branch (one with a RepoContext or an in-flight
+   * workflow) queues an incremental re-index; the worker moves the
+   * RepoContext, marks it stale when its context document changed and
+   * records base drift (refreshRepoIndexOnPush in @arch-orchestrator/core).
+   * Tag pushes and branch deletions are ignored.
+   */
+  private async handlePushEvent(payload: any) {
+    const { ref, before, after, repository } = payload;
+    const baseBranch = typeof ref === 'string' && ref.startsWith('refs/heads/') ? ref.slice('refs/heads/'.length) : null;
+    if (!baseBranch || !repository || payload.deleted || !before || !after || ZERO_SHA.test(before) || ZERO_SHA.test(after)) {
+      return;
+    }
+
+    const repoOwner = repository.owner?.login ?? repository.owner?.name;
+    const repoName = repository.name;
+
+    const tracked = await this.prisma.repoContext.count({
+      where: { repoOwner, repoName, baseBranch }
+    });
+    const inFlight = await this.prisma.workflow.count({
+      where: {
+        state: { notIn: SETTLED_STATES },
+        OR: [
+          { repos: { some: { owner: repoOwner, repo: repoName, baseBranch } } },
+          { repoOwner, repoName, baseBranch }
+        ]
+      }
+    });
+    if (tracked === 0 && inFlight === 0) {
+      return;
+    }
+
+    this.logger.log(`Push to ${repoOwner}/${repoName}@${baseBranch} (${String(after).slice(0, 7)}), queueing re-index`);
+    await this.repoIndexQueue.add('repo_index', {
+      repoOwner,
+      repoName,
+      baseBranch,
+      beforeSha: before,
+      afterSha: after
+    }, { jobId: `push-${repoOwner}-${repoName}-${baseBranch}-${after}` });
+  }
+
+  private async handleCheckRunEvent(payload: any, deliveryId: string) {
+    const action = payload.action;
+    const checkRun = payload.check_run;
+    const conclusion = checkRun?.conclusion;
+    const headSha = checkRun?.head_sha;
+    const name = checkRun?.name;
+
+    if (action !== 'completed') {
+      return; // Only care about completed checks
+    }
+
+    this.logger.log(`Check run "${name}" completed: ${conclusion}`);
+
+    // Find workflow by commit SHA
+    const workflow = await this.prisma.workflow.findFirst({
+      where: { baseSha: headSha },
+      include: { pullRequests: true }
+    });
+
+    if (!workflow) {
+      // Try finding by PR branch
+      const prHeadBranch = payload.check_run?.check_suite?.head_branch;
+      if (prHeadBranch) {
+        const pr = await this.prisma.pullRequest.findFirst({
+          where: { branch: prHeadBranch }
+        });
+        if (pr) {
+          await this.recordCIEvent(pr.workflowId, payload, deliveryId);
+        }
+      }
+      return;
+    }
+
+    await this.recordCIEvent(workflow.id, payload, deliveryId);
+  }
+
+  private async handleCheckSuiteEvent(payload: any, deliveryId: string) {
+    const action = payload.action;
+    const conclusion = payload.check_suite?.conclusion;
+    const headSha = payload.check_suite?.head_sha;
+    const headBranch = payload.check_suite?.head_branch;
+
+    if (action !== 'completed') {
+      return;
+    }
+
+    this.logger.log(`Check suite completed: ${conclusion}`);
+
+    // Find PR by branch
+    const pr = await this.prisma.pullRequest.findFirst({
+      where: { branch: headBranch }
+    });
+
+    if (!pr || await this.isDeliveryRecorded(pr.workflowId, 'webhook.check_suite.completed', deliveryId)) {
+      return;
+    }
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId: pr.workflowId,
+        type: 'webhook.check_suite.completed',
+        payload: {
+          conclusion,
+          headSha,
+          headBranch,
+          webhookId: deliveryId
+        }
+      }
+    });
+
+    await this.enqueueCIResult(pr.workflowId, mapWebhookToCIEvent(deliveryId, 'check_suite', payload));
+  }
+
+  private async handleStatusEvent(payload: any, deliveryId: string) {
+    const state = payload.state; // pending, success, failure, error
+    const context = payload.context;
+    const sha = payload.sha;
+    const targetUrl = payload.target_url;
+
+    this.logger.log(`Status "${context}": ${state}`);
+
+    // Find workflow by SHA
+    const workflow = await this.prisma.workflow.findFirst({
+      where: { baseSha: sha }
+    });
+
+    if (!workflow || await this.isDeliveryRecorded(workflow.id, `webhook.status.${state}`, deliveryId)) {
+      return;
+    }
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId: workflow.id,
+        type: `webhook.status.${state}`,
+        payload: {
+          context,
+          state,
+          sha,
+          targetUrl,
+          webhookId: deliveryId
+        }
+      }
+    });
+  }
+
+  /**
+   * Record a finished GitLab pipeline in the CIEventInput shape Gate3 consumes.
+   */
+  private async handlePipelineEvent(payload: any, deliveryId: string | undefined) {
+    const ciEvent = mapGitLabPipelineToCIEvent(deliveryId ?? '', payload);
+    if (!ciEvent) {
+      return; // Only care about finished pipelines
+    }
+
+    this.logger.log(`Pipeline #${ciEvent.workflowRunId} on ${payload.object_attributes.ref} finished: ${ciEvent.conclusion}`);
+
+    const pr = await this.prisma.pullRequest.findFirst({
+      where: {
+        branch: payload.object_attributes.ref,
+        repoOwner: ciEvent.owner,
+        repoName: ciEvent.repo
+      }
+    });
+
+    if (!pr || await this.isDeliveryRecorded(pr.workflowId, 'webhook.pipeline.completed', deliveryId)) {
+      return;
+    }
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId: pr.workflowId,
+        type: 'webhook.pipeline.completed',
+        payload: JSON.parse(JSON.stringify({ ...ciEvent, webhookId: deliveryId }))
+      }
+    });
+
+    await this.enqueueCIResult(pr.workflowId, ciEvent);
+  }
+
+  private async handleMergeRequestEvent(payload: any) {
+    const mergeRequest = payload.object_attributes;
+    const action = mergeRequest?.action; // open, update, close, reopen, merge, ...
+    const prNumber = mergeRequest?.iid;
+    const headBranch = mergeRequest?.source_branch;
+    const projectPath: string = payload.project?.path_with_namespace ?? '';
+    const split = projectPath.lastIndexOf('/');
+
+    this.logger.log(`MR !${prNumber} action: ${action}`);
+
+    if (split <= 0) {
+      return;
+    }
+
+    const pr = await this.prisma.pullRequest.findFirst({
+      where: {
+        number: prNumber,
+        branch: headBranch,
+        repoOwner: projectPath.slice(0, split),
+        repoName: projectPath.slice(split + 1)
+      }
+    });
+
+    if (!pr) {
+      this.logger.log(`No workflow found for MR !${prNumber}`);
+      return;
+    }
+
+    const merged = action === 'merge';
+    if ((merged || action === 'close') && (pr.status === 'merged' || pr.status === 'closed')) {
+      this.logger.log(`MR !${prNumber} already ${pr.status}`);
+      return;
+    }
+
+    if (merged || action === 'close') {
+      await this.prisma.pullRequest.update({
+        where: { id: pr.id },
+        data: { status: merged ? 'merged' : 'closed' }
+      });
+    }
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId: pr.workflowId,
+        type: `webhook.merge_request.${action}`,
+        payload: {
+          prNumber,
+          prUrl: mergeRequest.url,
+          action,
+          merged,
+          headBranch
+        }
+      }
+    });
+
+    if (merged || action === 'close') {
+      await this.orchestrateQueue.add('orchestrate', {
+        workflowId: pr.workflowId,
+        event: {
+          type: merged ? 'E_PR_MERGED' : 'E_PR_CLOSED',
+          prNumber,
+          merged
+        }
+      });
+    }
+  }
+
+  private async recordCIEvent(workflowId: string, payload: any, deliveryId: string) {
+    if (await this.isDeliveryRecorded(workflowId, 'webhook.check_run.completed', deliveryId)) {
+      return;
+    }
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId,
+        type: 'webhook.check_run.completed',
+        payload: {
+          name: payload.check_run.name,
+          conclusion: payload.check_run.conclusion,
+          headSha: payload.check_run.head_sha,
+          webhookId: deliveryId
+        }
+      }
+    });
+
+    await this.enqueueCIResult(workflowId, mapWebhookToCIEvent(deliveryId, 'check_run', payload));
+  }
+
+  /**
+   * Hand a finished CI run to the worker's Gate3 evaluation; its quality
+   * gates decide the E_CI_COMPLETED conclusion the orchestrator receives.
+   */
+  private async enqueueCIResult(workflowId: string, input: CIEventInput | null) {
+    if (!input) {
+      return;
+    }
+    await this.ciResultsQueue.add('ci_result', { input: { ...input, workflowId } });
+  }
+
+  /**
+   * Whether a CI result from this delivery was already recorded on the
+   * workflow (the same delivery is never emitted to the orchestrator twice).
+   */
+  private async isDeliveryRecorded(workflowId: string, type: string, deliveryId: string | undefined) {
+    if (!deliveryId) {
+      return false;
+    }
+    const recorded = await this.prisma.workflowEvent.findFirst({
+      where: { workflowId, type, payload: { path: ['webhookId'], equals: deliveryId } }
+    });
+    return !!recorded;
+  }
+}
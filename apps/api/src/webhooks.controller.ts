@@ -1,19 +1,20 @@
-import { Controller, Post, Headers, Body, RawBodyRequest, Req, HttpCode, Logger } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
-import { InjectQueue } from '@nestjs/bullmq';
-import type { Queue } from 'bullmq';
+import { Controller, Get, Post, Headers, Body, Param, Query, RawBodyRequest, Req, HttpCode, Logger, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader, ApiParam, ApiQuery, ApiCookieAuth } from '@nestjs/swagger';
 import { createHmac, timingSafeEqual } from 'crypto';
-import { getPrisma } from '@arch-orchestrator/db';
 import type { Request } from 'express';
+import { AdminGuard } from './auth.guard';
+import { ErrorResponseDto } from './dto';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+import { WebhookEventsService } from './webhook-events.service';
 
 @ApiTags('webhooks')
 @Controller('webhooks')
 export class WebhooksController {
   private readonly logger = new Logger(WebhooksController.name);
-  private prisma = getPrisma();
 
   constructor(
-    @InjectQueue('orchestrate') private readonly orchestrateQueue: Queue
+    private readonly deliveries: WebhookDeliveriesService,
+    private readonly events: WebhookEventsService
   ) {}
 
   @Post('github')
@@ -53,247 +54,132 @@ export class WebhooksController {
 
     this.logger.log(`Received GitHub webhook: ${event} (${deliveryId})`);
 
-    try {
-      switch (event) {
-        case 'pull_request':
-          await this.handlePullRequestEvent(body);
-          break;
-        case 'check_run':
-          await this.handleCheckRunEvent(body);
-          break;
-        case 'check_suite':
-          await this.handleCheckSuiteEvent(body);
-          break;
-        case 'status':
-          await this.handleStatusEvent(body);
-          break;
-        case 'ping':
-          this.logger.log('Received ping event');
-          return { ok: true, message: 'pong' };
-        default:
-          this.logger.log(`Ignoring event type: ${event}`);
-      }
-
-      return { ok: true };
-    } catch (err) {
-      this.logger.error(`Error processing webhook: ${err}`);
-      return { ok: false, error: String(err) };
+    if (event === 'ping') {
+      this.logger.log('Received ping event');
+      return { ok: true, message: 'pong' };
     }
-  }
 
-  private verifySignature(payload: Buffer, signature: string, secret: string): boolean {
-    const expectedSignature = 'sha256=' + createHmac('sha256', secret)
-      .update(payload)
-      .digest('hex');
+    if (!event || !deliveryId) {
+      return { ok: false, error: 'Missing event or delivery ID' };
+    }
 
+    // Processed on the webhooks queue, with retries
     try {
-      return timingSafeEqual(
-        Buffer.from(signature),
-        Buffer.from(expectedSignature)
-      );
-    } catch {
-      return false;
+      const result = await this.deliveries.receive({ deliveryId, event, payload: body, signature });
+      return { ok: true, ...result };
+    } catch (err) {
+      this.logger.error(`Error queueing webhook: ${err}`);
+      return { ok: false, error: String(err) };
     }
   }
 
-  private async handlePullRequestEvent(payload: any) {
-    const action = payload.action;
-    const prNumber = payload.pull_request?.number;
-    const prUrl = payload.pull_request?.html_url;
-    const merged = payload.pull_request?.merged;
-    const headBranch = payload.pull_request?.head?.ref;
-
-    this.logger.log(`PR #${prNumber} action: ${action}, merged: ${merged}`);
-
-    // Find workflow by PR number or branch
-    const pr = await this.prisma.pullRequest.findFirst({
-      where: {
-        OR: [
-          { number: prNumber },
-          { branch: headBranch }
-        ]
+  @Post('gitlab')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'GitLab webhook', description: 'Receives GitLab webhook events' })
+  @ApiHeader({ name: 'X-Gitlab-Token', description: 'Shared webhook secret' })
+  @ApiHeader({ name: 'X-Gitlab-Event', description: 'Event type' })
+  @ApiHeader({ name: 'X-Gitlab-Event-UUID', description: 'Delivery ID' })
+  @ApiResponse({ status: 200, description: 'Webhook processed' })
+  @ApiResponse({ status: 401, description: 'Invalid token' })
+  async handleGitLabWebhook(
+    @Headers('x-gitlab-token') token: string | undefined,
+    @Headers('x-gitlab-event') event: string | undefined,
+    @Headers('x-gitlab-event-uuid') deliveryId: string | undefined,
+    @Body() body: any
+  ) {
+    // GitLab sends the secret itself rather than a signature
+    const webhookSecret = process.env.GITLAB_WEBHOOK_SECRET;
+    if (webhookSecret) {
+      if (!token) {
+        this.logger.warn(`Missing token for delivery ${deliveryId}`);
+        return { ok: false, error: 'Missing token' };
       }
-    });
-
-    if (!pr) {
-      this.logger.log(`No workflow found for PR #${prNumber}`);
-      return;
-    }
 
-    // Update PR status
-    let newStatus = pr.status;
-    if (action === 'closed') {
-      newStatus = merged ? 'merged' : 'closed';
-    }
-
-    await this.prisma.pullRequest.update({
-      where: { id: pr.id },
-      data: { status: newStatus }
-    });
-
-    // Record event
-    await this.prisma.workflowEvent.create({
-      data: {
-        workflowId: pr.workflowId,
-        type: `webhook.pull_request.${action}`,
-        payload: {
-          prNumber,
-          prUrl,
-          action,
-          merged,
-          headBranch
-        }
+      if (!this.verifyToken(token, webhookSecret)) {
+        this.logger.warn(`Invalid token for delivery ${deliveryId}`);
+        return { ok: false, error: 'Invalid token' };
       }
-    });
-
-    // Emit to orchestrator if merged or closed
-    if (action === 'closed') {
-      await this.orchestrateQueue.add('orchestrate', {
-        workflowId: pr.workflowId,
-        event: {
-          type: merged ? 'E_PR_MERGED' : 'E_PR_CLOSED',
-          prNumber,
-          merged
-        }
-      });
     }
-  }
 
-  private async handleCheckRunEvent(payload: any) {
-    const action = payload.action;
-    const checkRun = payload.check_run;
-    const conclusion = checkRun?.conclusion;
-    const headSha = checkRun?.head_sha;
-    const name = checkRun?.name;
+    this.logger.log(`Received GitLab webhook: ${event} (${deliveryId})`);
 
-    if (action !== 'completed') {
-      return; // Only care about completed checks
+    if (!event || !deliveryId) {
+      return { ok: false, error: 'Missing event or delivery ID' };
     }
 
-    this.logger.log(`Check run "${name}" completed: ${conclusion}`);
-
-    // Find workflow by commit SHA
-    const workflow = await this.prisma.workflow.findFirst({
-      where: { baseSha: headSha },
-      include: { pullRequests: true }
-    });
-
-    if (!workflow) {
-      // Try finding by PR branch
-      const prHeadBranch = payload.check_run?.check_suite?.head_branch;
-      if (prHeadBranch) {
-        const pr = await this.prisma.pullRequest.findFirst({
-          where: { branch: prHeadBranch }
-        });
-        if (pr) {
-          await this.recordCIEvent(pr.workflowId, name, conclusion, headSha);
-        }
-      }
-      return;
+    // Processed on the webhooks queue, with retries, like GitHub deliveries
+    try {
+      const result = await this.deliveries.receive({ deliveryId, event, payload: body, signature: undefined, provider: 'gitlab' });
+      return { ok: true, ...result };
+    } catch (err) {
+      this.logger.error(`Error queueing webhook: ${err}`);
+      return { ok: false, error: String(err) };
     }
-
-    await this.recordCIEvent(workflow.id, name, conclusion, headSha);
   }
 
-  private async handleCheckSuiteEvent(payload: any) {
-    const action = payload.action;
-    const conclusion = payload.check_suite?.conclusion;
-    const headSha = payload.check_suite?.head_sha;
-    const headBranch = payload.check_suite?.head_branch;
-
-    if (action !== 'completed') {
-      return;
-    }
-
-    this.logger.log(`Check suite completed: ${conclusion}`);
-
-    // Find PR by branch
-    const pr = await this.prisma.pullRequest.findFirst({
-      where: { branch: headBranch }
-    });
-
-    if (!pr) {
-      return;
-    }
-
-    await this.prisma.workflowEvent.create({
-      data: {
-        workflowId: pr.workflowId,
-        type: 'webhook.check_suite.completed',
-        payload: {
-          conclusion,
-          headSha,
-          headBranch
-        }
-      }
-    });
-
-    // Emit CI completed event
-    await this.orchestrateQueue.add('orchestrate', {
-      workflowId: pr.workflowId,
-      event: {
-        type: 'E_CI_COMPLETED',
-        result: { conclusion }
-      }
-    });
+  @Get('deliveries')
+  @UseGuards(AdminGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'List webhook deliveries', description: 'Recent GitHub and GitLab webhook deliveries with their processing status' })
+  @ApiQuery({ name: 'status', required: false, type: String, description: 'pending | processed | failed | dead_letter', example: 'dead_letter' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Max items to return (1-100)', example: 50 })
+  @ApiResponse({ status: 200, description: 'Webhook deliveries' })
+  @ApiResponse({ status: 401, description: 'Not authenticated', type: ErrorResponseDto })
+  @ApiResponse({ status: 403, description: 'Not an administrator (ADMIN_GITHUB_USERS)', type: ErrorResponseDto })
+  async listDeliveries(
+    @Query('status') status?: string,
+    @Query('limit') limit?: string
+  ) {
+    const parsedLimit = limit ? parseInt(limit, 10) : 50;
+    const safeLimit = Math.min(Math.max(1, parsedLimit || 50), 100);
+    return this.deliveries.list({ status, limit: safeLimit });
   }
 
-  private async handleStatusEvent(payload: any) {
-    const state = payload.state; // pending, success, failure, error
-    const context = payload.context;
-    const sha = payload.sha;
-    const targetUrl = payload.target_url;
-
-    this.logger.log(`Status "${context}": ${state}`);
+  @Get('deliveries/:deliveryId')
+  @UseGuards(AdminGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Get webhook delivery', description: 'A delivery with its payload, attempts and last error' })
+  @ApiParam({ name: 'deliveryId', description: 'X-GitHub-Delivery or X-Gitlab-Event-UUID ID' })
+  @ApiResponse({ status: 200, description: 'Webhook delivery' })
+  @ApiResponse({ status: 403, description: 'Not an administrator (ADMIN_GITHUB_USERS)', type: ErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Delivery not found', type: ErrorResponseDto })
+  async getDelivery(@Param('deliveryId') deliveryId: string) {
+    return this.deliveries.get(deliveryId);
+  }
 
-    // Find workflow by SHA
-    const workflow = await this.prisma.workflow.findFirst({
-      where: { baseSha: sha }
-    });
+  @Post('deliveries/:deliveryId/replay')
+  @UseGuards(AdminGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Replay webhook delivery', description: 'Process a delivery again, including dead-lettered ones. Processed deliveries can be replayed only for events whose handlers skip work already recorded (PR status, CI results, pushes)' })
+  @ApiParam({ name: 'deliveryId', description: 'X-GitHub-Delivery or X-Gitlab-Event-UUID ID' })
+  @ApiResponse({ status: 201, description: 'Delivery queued' })
+  @ApiResponse({ status: 403, description: 'Not an administrator (ADMIN_GITHUB_USERS)', type: ErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Delivery not found', type: ErrorResponseDto })
+  @ApiResponse({ status: 409, description: 'Processed delivery of an event that is not safe to replay', type: ErrorResponseDto })
+  async replayDelivery(@Param('deliveryId') deliveryId: string) {
+    return this.deliveries.replay(deliveryId);
+  }
 
-    if (!workflow) {
-      return;
+  private verifyToken(token: string, secret: string): boolean {
+    try {
+      return timingSafeEqual(Buffer.from(token), Buffer.from(secret));
+    } catch {
+      return false;
     }
-
-    await this.prisma.workflowEvent.create({
-      data: {
-        workflowId: workflow.id,
-        type: `webhook.status.${state}`,
-        payload: {
-          context,
-          state,
-          sha,
-          targetUrl
-        }
-      }
-    });
   }
 
-  private async recordCIEvent(
-    workflowId: string,
-    name: string,
-    conclusion: string,
-    headSha: string
-  ) {
-    await this.prisma.workflowEvent.create({
-      data: {
-        workflowId,
-        type: 'webhook.check_run.completed',
-        payload: {
-          name,
-          conclusion,
-          headSha
-        }
-      }
-    });
+  private verifySignature(payload: Buffer, signature: string, secret: string): boolean {
+    const expectedSignature = 'sha256=' + createHmac('sha256', secret)
+      .update(payload)
+      .digest('hex');
 
-    // Emit CI result to orchestrator
-    await this.orchestrateQueue.add('orchestrate', {
-      workflowId,
-      event: {
-        type: 'E_CI_COMPLETED',
-        result: { conclusion, checkName: name }
-      }
-    });
+    try {
+      return timingSafeEqual(
+        Buffer.from(signature),
+        Buffer.from(expectedSignature)
+      );
+    } catch {
+      return false;
+    }
   }
 }
@@ -7,12 +7,16 @@ import {
   ApproveWorkflowDto,
   RejectWorkflowDto,
   RequestChangesDto,
+  SelectHunkDto,
   WorkflowResponseDto,
   PaginatedWorkflowsResponseDto,
   ApprovalResponseDto,
   ErrorResponseDto,
   StageActionDto,
   StageDecisionResponseDto,
+  CreatePolicyWaiverDto,
+  PolicyWaiverResponseDto,
+  ApproveCodeownersDto,
 } from './dto';
 
 @ApiTags('workflows')
@@ -117,6 +121,22 @@ export class WorkflowsController {
     return this.workflows.reject(id, body?.patchSetId, body.reason, req.user.username);
   }
 
+  @Post(':id/actions/select_hunk')
+  @UseGuards(AuthGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Select hunk variant', description: 'Pick which agent variant of an overlapping hunk a merged patch set keeps' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({ status: 200, description: 'Variant selected', type: ApprovalResponseDto })
+  @ApiResponse({ status: 400, description: 'Unknown hunk or variant', type: ErrorResponseDto })
+  @ApiResponse({ status: 401, description: 'Not authenticated', type: ErrorResponseDto })
+  async selectHunk(
+    @Param('id') id: string,
+    @Body() body: SelectHunkDto,
+    @Req() req: AuthenticatedRequest
+  ) {
+    return this.workflows.selectHunk(id, body, req.user.username);
+  }
+
   @Post(':id/actions/cancel')
   @UseGuards(AuthGuard)
   @ApiCookieAuth()
@@ -132,6 +152,21 @@ export class WorkflowsController {
     return this.workflows.cancel(id, req.user.username);
   }
 
+  @Post(':id/actions/approve_merge')
+  @UseGuards(AuthGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Approve merge', description: 'Approve merging the workflow PRs once CI passes (repos with a merge mode only)' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({ status: 200, description: 'Merge approval recorded', type: ApprovalResponseDto })
+  @ApiResponse({ status: 401, description: 'Not authenticated', type: ErrorResponseDto })
+  @ApiResponse({ status: 404, description: 'Workflow not found', type: ErrorResponseDto })
+  async approveMerge(
+    @Param('id') id: string,
+    @Req() req: AuthenticatedRequest
+  ) {
+    return this.workflows.approveMerge(id, req.user.username);
+  }
+
   // ============================================================================
   // Stage Actions (Gated Pipeline)
   // ============================================================================
@@ -252,4 +287,69 @@ export class WorkflowsController {
   async getCosts(@Param('id') id: string) {
     return this.workflows.getCostSummary(id);
   }
+
+  // ============================================================================
+  // Policy Waivers
+  // ============================================================================
+
+  @Get(':id/policy/waivers')
+  @ApiOperation({ summary: 'List policy waivers', description: 'Get all policy waivers for a workflow, including expired and revoked ones' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({ status: 200, description: 'List of waivers', type: [PolicyWaiverResponseDto] })
+  async listPolicyWaivers(@Param('id') id: string) {
+    return this.workflows.listPolicyWaivers(id);
+  }
+
+  @Post(':id/policy/waivers')
+  @UseGuards(AuthGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Waive policy violation', description: 'Waive a BLOCK violation with a justification and expiry; Gate2 downgrades matching violations to WARN' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({ status: 201, description: 'Waiver created' })
+  @ApiResponse({ status: 400, description: 'Missing justification or invalid expiry', type: ErrorResponseDto })
+  @ApiResponse({ status: 401, description: 'Not authenticated', type: ErrorResponseDto })
+  async createPolicyWaiver(
+    @Param('id') id: string,
+    @Body() body: CreatePolicyWaiverDto,
+    @Req() req: AuthenticatedRequest
+  ) {
+    return this.workflows.createPolicyWaiver(id, body ?? {}, req.user.id, req.user.username);
+  }
+
+  @Delete(':id/policy/waivers/:waiverId')
+  @UseGuards(AuthGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Revoke policy waiver', description: 'Revoke a waiver; violations it downgraded are blocking again' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiParam({ name: 'waiverId', description: 'Waiver ID' })
+  @ApiResponse({ status: 200, description: 'Waiver revoked' })
+  @ApiResponse({ status: 401, description: 'Not authenticated', type: ErrorResponseDto })
+  async revokePolicyWaiver(
+    @Param('id') id: string,
+    @Param('waiverId') waiverId: string,
+    @Req() req: AuthenticatedRequest
+  ) {
+    return this.workflows.revokePolicyWaiver(id, waiverId, req.user.id, req.user.username);
+  }
+
+  // ============================================================================
+  // CODEOWNERS Approvals
+  // ============================================================================
+
+  @Post(':id/policy/codeowners-approvals')
+  @UseGuards(AuthGuard)
+  @ApiCookieAuth()
+  @ApiOperation({ summary: 'Approve for code owner', description: 'Record an explicit approval for a CODEOWNERS-protected owner; their codeowners_approval violations stop blocking Gate2. The caller must be the owner or a member of the owning team' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({ status: 201, description: 'Approval recorded' })
+  @ApiResponse({ status: 400, description: 'Missing owner', type: ErrorResponseDto })
+  @ApiResponse({ status: 401, description: 'Not authenticated', type: ErrorResponseDto })
+  @ApiResponse({ status: 403, description: 'Caller is not the owner or a member of the owning team', type: ErrorResponseDto })
+  async approveCodeowners(
+    @Param('id') id: string,
+    @Body() body: ApproveCodeownersDto,
+    @Req() req: AuthenticatedRequest
+  ) {
+    return this.workflows.approveCodeowners(id, body ?? {}, req.user.id, req.user.username);
+  }
 }
@@ -1,7 +1,9 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
+import { Injectable, BadRequestException, ForbiddenException } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
 import type { Queue } from 'bullmq';
 import { getPrisma } from '@arch-orchestrator/db';
+import { canApproveForOwner, codeownersApprovalKind, violationEvidenceHash } from '@arch-orchestrator/core';
+import { createHash } from 'crypto';
 
 interface ListParams {
   limit: number;
@@ -26,14 +28,110 @@ interface WorkflowListItem {
     repo: string;
     baseBranch: string;
     role: string;
+    provider: string;
+    mergeMode: string | null;
+    mergeMethod: string;
   }>;
 }
 
+// Source control providers a WorkflowRepo can use (SCM_PROVIDERS in @arch-orchestrator/core)
+const SCM_PROVIDERS = ['github', 'gitlab'];
+
+// Post-Gate3 merge settings of a WorkflowRepo (MERGE_MODES / MERGE_METHODS in @arch-orchestrator/core)
+const MERGE_MODES = ['auto_merge', 'merge_queue'];
+const MERGE_METHODS = ['squash', 'merge', 'rebase'];
+
 export interface ListResult {
   items: WorkflowListItem[];
   nextCursor: string | null;
 }
 
+// Overlapping hunks of a merged PatchSet (PatchConflictsV1 in @arch-orchestrator/core)
+const PATCH_CONFLICTS_KIND = 'PatchConflictsV1';
+
+interface MergeSegment {
+  oldStart: number;
+  before: string[];
+  removed: string[];
+  added: string[];
+  after: string[];
+  overlap?: { variants: Array<{ agentId: string; lines: string[] }>; selected: string };
+}
+
+interface PatchConflictsFile {
+  path: string;
+  taskId: string;
+  resolution: string;
+  header: string[];
+  segments: MergeSegment[];
+}
+
+/**
+ * Render a merged file as a unified diff, one hunk per segment
+ * (renderMergedFileDiff in @arch-orchestrator/core).
+ */
+function renderMergedFileDiff(file: PatchConflictsFile) {
+  const lines = [...file.header];
+  let offset = 0;
+  let additions = 0;
+  let deletions = 0;
+
+  for (const segment of file.segments) {
+    const oldStart = segment.oldStart - segment.before.length;
+    const context = segment.before.length + segment.after.length;
+    const oldCount = context + segment.removed.length;
+    const newCount = context + segment.added.length;
+    const oldLine = oldCount === 0 ? oldStart - 1 : oldStart;
+    const newLine = newCount === 0 ? oldStart + offset - 1 : oldStart + offset;
+
+    lines.push(
+      `@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`,
+      ...segment.before.map(l => ` ${l}`),
+      ...segment.removed.map(l => `-${l}`),
+      ...segment.added.map(l => `+${l}`),
+      ...segment.after.map(l => ` ${l}`)
+    );
+    offset += segment.added.length - segment.removed.length;
+    additions += segment.added.length;
+    deletions += segment.removed.length;
+  }
+
+  return { diff: lines.join('\n'), additions, deletions };
+}
+
+/**
+ * Replace one file's section of a multi-file diff (splitDiffByFile in @arch-orchestrator/core).
+ */
+function replaceFileDiff(diff: string, path: string, replacement: string): string {
+  const lines = diff.split('\n');
+  const sections: Array<{ path: string; lines: string[] }> = [];
+  let inGitHeader = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const gitMatch = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+    if (gitMatch) {
+      sections.push({ path: gitMatch[2], lines: [line] });
+      inGitHeader = true;
+      continue;
+    }
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ') && !inGitHeader) {
+      const plus = lines[i + 1].match(/^\+\+\+ (?:b\/)?(.+)$/)?.[1];
+      const sectionPath = plus && plus !== '/dev/null' ? plus : line.match(/^--- (?:a\/)?(.+)$/)?.[1] ?? '';
+      sections.push({ path: sectionPath, lines: [line] });
+      continue;
+    }
+    if (line.startsWith('@@') || (line.startsWith('+++ ') && inGitHeader)) {
+      inGitHeader = false;
+    }
+    sections[sections.length - 1]?.lines.push(line);
+  }
+
+  return sections
+    .map(section => (section.path === path ? replacement : section.lines.join('\n')))
+    .join('\n');
+}
+
 @Injectable()
 export class WorkflowsService {
   private prisma = getPrisma();
@@ -91,6 +189,9 @@ export class WorkflowsService {
             repo: true,
             baseBranch: true,
             role: true,
+            provider: true,
+            mergeMode: true,
+            mergeMethod: true,
           },
           orderBy: { createdAt: 'asc' }
         }
@@ -112,7 +213,15 @@ export class WorkflowsService {
     goal?: string;  // Legacy
     context?: string;
     title?: string;
-    repos?: Array<{ owner: string; repo: string; baseBranch?: string; role?: string }>;
+    repos?: Array<{
+      owner: string;
+      repo: string;
+      baseBranch?: string;
+      role?: string;
+      provider?: string;
+      mergeMode?: string;
+      mergeMethod?: string;
+    }>;
     repoOwner?: string;
     repoName?: string;
     baseBranch?: string;
@@ -139,6 +248,22 @@ export class WorkflowsService {
       throw new BadRequestException('At least one repository is required (use repos array or repoOwner/repoName)');
     }
 
+    // Validate providers (GitHub unless stated)
+    const unknownProvider = repoList.find(r => r.provider && !SCM_PROVIDERS.includes(r.provider));
+    if (unknownProvider) {
+      throw new BadRequestException(`Unknown provider "${unknownProvider.provider}" for ${unknownProvider.owner}/${unknownProvider.repo} (expected one of: ${SCM_PROVIDERS.join(', ')})`);
+    }
+
+    // Validate merge settings (no merge mode = PRs are merged by hand)
+    const unknownMergeMode = repoList.find(r => r.mergeMode && !MERGE_MODES.includes(r.mergeMode));
+    if (unknownMergeMode) {
+      throw new BadRequestException(`Unknown mergeMode "${unknownMergeMode.mergeMode}" for ${unknownMergeMode.owner}/${unknownMergeMode.repo} (expected one of: ${MERGE_MODES.join(', ')})`);
+    }
+    const unknownMergeMethod = repoList.find(r => r.mergeMethod && !MERGE_METHODS.includes(r.mergeMethod));
+    if (unknownMergeMethod) {
+      throw new BadRequestException(`Unknown mergeMethod "${unknownMergeMethod.mergeMethod}" for ${unknownMergeMethod.owner}/${unknownMergeMethod.repo} (expected one of: ${MERGE_METHODS.join(', ')})`);
+    }
+
     // Validate exactly one primary repo
     const primaryRepos = repoList.filter(r => (r.role || 'primary') === 'primary');
     if (primaryRepos.length === 0) {
@@ -181,6 +306,9 @@ export class WorkflowsService {
           repo: repo.repo,
           baseBranch: repo.baseBranch || 'main',
           role: repo.role || 'primary',
+          provider: repo.provider || 'github',
+          mergeMode: repo.mergeMode || null,
+          mergeMethod: repo.mergeMethod || 'squash',
         }
       });
     }
@@ -231,6 +359,7 @@ export class WorkflowsService {
         pullRequests: { orderBy: { createdAt: 'desc' } },
         runs: { orderBy: { startedAt: 'desc' } },
         policyViolations: { orderBy: { createdAt: 'asc' } },
+        policyWaivers: { orderBy: { createdAt: 'asc' } },
         stageDecisions: { orderBy: { createdAt: 'asc' } },
         tasks: { orderBy: { taskId: 'asc' } }
       }
@@ -389,6 +518,46 @@ export class WorkflowsService {
     return { ok: true, workflowId, patchSetId: patchSet.id };
   }
 
+  /**
+   * Approve merging the workflow's PRs. Kept apart from the apply_patches
+   * approval: the merge stage starts once CI has passed and this approval
+   * exists (MERGE_APPROVAL_KIND in @arch-orchestrator/core).
+   */
+  async approveMerge(workflowId: string, approvedBy: string = 'me') {
+    const workflow = await this.prisma.workflow.findUnique({
+      where: { id: workflowId },
+      include: { repos: true }
+    });
+
+    if (!workflow) {
+      return { ok: false, error: 'WORKFLOW_NOT_FOUND' };
+    }
+
+    if (!workflow.repos.some(r => r.mergeMode)) {
+      return { ok: false, error: 'MERGE_NOT_ENABLED' };
+    }
+
+    const existing = await this.prisma.approval.findFirst({ where: { workflowId, kind: 'merge' } });
+    if (!existing) {
+      await this.prisma.approval.create({ data: { workflowId, kind: 'merge' } });
+    }
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId,
+        type: 'ui.approve_merge',
+        payload: { approvedBy }
+      }
+    });
+
+    await this.orchestrateQueue.add('orchestrate', {
+      workflowId,
+      event: { type: 'E_APPROVAL_RECORDED' }
+    });
+
+    return { ok: true, workflowId };
+  }
+
   async requestChanges(workflowId: string, patchSetId?: string, comment: string = '', requestedBy: string = 'me') {
     // Pick latest patch set if not provided
     const patchSet =
@@ -465,6 +634,87 @@ export class WorkflowsService {
     return { ok: true, workflowId, patchSetId: patchSet.id };
   }
 
+  /**
+   * Pick an agent's variant for an overlapping hunk of a merged PatchSet.
+   * The patch carrying the file gets the re-rendered diff, and the pick is
+   * recorded as a new version of the PatchConflictsV1 artifact.
+   */
+  async selectHunk(
+    workflowId: string,
+    params: { patchSetId: string; path: string; hunk: number; agentId: string },
+    selectedBy: string = 'me'
+  ) {
+    const patchSet = await this.prisma.patchSet.findUnique({
+      where: { id: params.patchSetId },
+      include: { patches: true }
+    });
+    if (!patchSet || patchSet.workflowId !== workflowId) {
+      return { ok: false, error: 'NO_PATCH_SET_FOUND' };
+    }
+    if (patchSet.status !== 'proposed') {
+      return { ok: false, error: 'PATCH_SET_NOT_PROPOSED' };
+    }
+
+    const artifacts = await this.prisma.artifact.findMany({
+      where: { workflowId, kind: PATCH_CONFLICTS_KIND },
+      orderBy: { artifactVersion: 'desc' }
+    });
+    const artifact = artifacts.find(a => JSON.parse(a.content).patchSetId === patchSet.id);
+    if (!artifact) {
+      return { ok: false, error: 'NO_PATCH_CONFLICTS_FOUND' };
+    }
+
+    const report = JSON.parse(artifact.content) as { files: PatchConflictsFile[] };
+    const file = report.files.find(f => f.path === params.path);
+    const segment = file?.segments[params.hunk];
+    const variant = segment?.overlap?.variants.find(v => v.agentId === params.agentId);
+    if (!file || !segment?.overlap || !variant) {
+      throw new BadRequestException(`No variant from ${params.agentId} for hunk ${params.hunk} of ${params.path}`);
+    }
+    if (file.resolution !== 'merged') {
+      return { ok: false, error: 'HUNK_PICK_NOT_ALLOWED' };
+    }
+
+    segment.added = variant.lines;
+    segment.overlap.selected = variant.agentId;
+    const rendered = renderMergedFileDiff(file);
+
+    const patch = patchSet.patches.find(p => p.taskId === file.taskId);
+    if (!patch) {
+      return { ok: false, error: 'PATCH_NOT_FOUND' };
+    }
+    const files = (patch.files as Array<{ path: string; additions: number; deletions: number }>).map(f =>
+      f.path === file.path ? { ...f, additions: rendered.additions, deletions: rendered.deletions } : f
+    );
+    await this.prisma.patch.update({
+      where: { id: patch.id },
+      data: { diff: replaceFileDiff(patch.diff, file.path, rendered.diff), files }
+    });
+
+    const content = JSON.stringify(report, null, 2);
+    await this.prisma.artifact.create({
+      data: {
+        workflowId,
+        kind: PATCH_CONFLICTS_KIND,
+        path: artifact.path,
+        content,
+        contentSha: createHash('sha256').update(content, 'utf8').digest('hex'),
+        artifactVersion: artifacts[0].artifactVersion + 1,
+        supersedesArtifactId: artifacts[0].id
+      }
+    });
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId,
+        type: 'ui.select_hunk',
+        payload: { patchSetId: patchSet.id, path: file.path, hunk: params.hunk, agentId: variant.agentId, selectedBy }
+      }
+    });
+
+    return { ok: true, workflowId, patchSetId: patchSet.id, patchId: patch.id };
+  }
+
   async cancel(workflowId: string, cancelledBy: string = 'user') {
     const workflow = await this.prisma.workflow.findUnique({
       where: { id: workflowId }
@@ -475,7 +725,7 @@ export class WorkflowsService {
     }
 
     // Only allow cancelling workflows that are in-progress
-    const cancellableStates = ['INGESTED', 'PATCHES_PROPOSED', 'WAITING_USER_APPROVAL', 'APPLYING_PATCHES', 'PR_OPEN', 'VERIFYING_CI'];
+    const cancellableStates = ['INGESTED', 'PATCHES_PROPOSED', 'WAITING_USER_APPROVAL', 'APPLYING_PATCHES', 'PR_OPEN', 'VERIFYING_CI', 'MERGING'];
     if (!cancellableStates.includes(workflow.state)) {
       return { ok: false, error: 'WORKFLOW_NOT_CANCELLABLE', state: workflow.state };
     }
@@ -923,4 +1173,270 @@ export class WorkflowsService {
 
     return { ok: true, workflowId, stage: 'patches', newStatus: 'pending', decisionId: decision.id };
   }
+
+  // ============================================================================
+  // Policy Waivers
+  // ============================================================================
+
+  async listPolicyWaivers(workflowId: string) {
+    return this.prisma.policyWaiver.findMany({
+      where: { workflowId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Waive a BLOCK violation. Matching violations are downgraded to WARN right
+   * away; later Gate2 runs apply the waiver until it expires or is revoked.
+   */
+  async createPolicyWaiver(
+    workflowId: string,
+    params: { violationId?: string; justification?: string; expiresAt?: string },
+    actorId: string,
+    actorName: string
+  ) {
+    const justification = params.justification?.trim();
+    if (!params.violationId) {
+      throw new BadRequestException('violationId is required');
+    }
+    if (!justification) {
+      throw new BadRequestException('justification is required');
+    }
+
+    const expiresAt = params.expiresAt ? new Date(params.expiresAt) : null;
+    if (!expiresAt || Number.isNaN(expiresAt.getTime())) {
+      throw new BadRequestException('expiresAt must be a valid ISO timestamp');
+    }
+    if (expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const workflow = await this.prisma.workflow.findUnique({ where: { id: workflowId } });
+    if (!workflow) {
+      return { ok: false, error: 'WORKFLOW_NOT_FOUND' };
+    }
+
+    const violation = await this.prisma.policyViolation.findUnique({ where: { id: params.violationId } });
+    if (!violation || violation.workflowId !== workflowId) {
+      return { ok: false, error: 'VIOLATION_NOT_FOUND' };
+    }
+    if (violation.severity !== 'BLOCK') {
+      return { ok: false, error: 'VIOLATION_NOT_BLOCKING' };
+    }
+
+    const evidenceHash = violationEvidenceHash(violation);
+
+    const waiver = await this.prisma.policyWaiver.create({
+      data: {
+        workflowId,
+        rule: violation.rule,
+        file: violation.file,
+        evidenceHash,
+        justification,
+        expiresAt,
+        approvedBy: actorId,
+        approvedByName: actorName || null
+      }
+    });
+
+    // Downgrade every current BLOCK violation the waiver covers
+    const candidates = await this.prisma.policyViolation.findMany({
+      where: { workflowId, rule: violation.rule, file: violation.file, severity: 'BLOCK' }
+    });
+    const waivedIds = candidates
+      .filter(v => violationEvidenceHash(v) === evidenceHash)
+      .map(v => v.id);
+
+    await this.prisma.policyViolation.updateMany({
+      where: { id: { in: waivedIds } },
+      data: { severity: 'WARN', waiverId: waiver.id }
+    });
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId,
+        type: 'ui.policy.waiver_created',
+        payload: {
+          waiverId: waiver.id,
+          rule: waiver.rule,
+          file: waiver.file,
+          justification,
+          expiresAt: expiresAt.toISOString(),
+          violationIds: waivedIds,
+          actorId,
+          actorName
+        }
+      }
+    });
+
+    await this.syncPolicyStageStatus(workflowId);
+
+    return { ok: true, workflowId, waiver, violationIds: waivedIds };
+  }
+
+  /**
+   * Revoke a waiver. Violations it downgraded go back to BLOCK.
+   */
+  async revokePolicyWaiver(workflowId: string, waiverId: string, actorId: string, actorName: string) {
+    const waiver = await this.prisma.policyWaiver.findUnique({ where: { id: waiverId } });
+    if (!waiver || waiver.workflowId !== workflowId) {
+      return { ok: false, error: 'WAIVER_NOT_FOUND' };
+    }
+    if (waiver.revokedAt) {
+      return { ok: false, error: 'WAIVER_ALREADY_REVOKED' };
+    }
+
+    const revoked = await this.prisma.policyWaiver.update({
+      where: { id: waiverId },
+      data: { revokedAt: new Date(), revokedBy: actorId }
+    });
+
+    await this.prisma.policyViolation.updateMany({
+      where: { workflowId, waiverId },
+      data: { severity: 'BLOCK', waiverId: null }
+    });
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId,
+        type: 'ui.policy.waiver_revoked',
+        payload: { waiverId, rule: waiver.rule, file: waiver.file, actorId, actorName }
+      }
+    });
+
+    await this.syncPolicyStageStatus(workflowId);
+
+    return { ok: true, workflowId, waiver: revoked };
+  }
+
+  // ============================================================================
+  // CODEOWNERS Approvals
+  // ============================================================================
+
+  /**
+   * Record an explicit approval on behalf of a CODEOWNERS-protected owner.
+   * Uses the Approval kind Gate2 reads ("codeowners:<owner>"), so later
+   * Gate2 runs keep treating the owner's files as approved. Only the owner
+   * themselves, or a member of the owning team, may approve; membership is
+   * checked on GitHub with the approver's OAuth token (read:org).
+   */
+  async approveCodeowners(
+    workflowId: string,
+    params: { owner?: string },
+    actorId: string,
+    actorName: string
+  ) {
+    const owner = params.owner?.trim();
+    if (!owner) {
+      throw new BadRequestException('owner is required');
+    }
+
+    const workflow = await this.prisma.workflow.findUnique({ where: { id: workflowId } });
+    if (!workflow) {
+      return { ok: false, error: 'WORKFLOW_NOT_FOUND' };
+    }
+
+    // Evidence holds the space-separated protected owners of the file
+    const pending = await this.prisma.policyViolation.findMany({
+      where: { workflowId, rule: 'codeowners_approval', severity: 'BLOCK' }
+    });
+    const covered = pending.filter(v =>
+      (v.evidence ?? '').split(' ').some(o => o.toLowerCase() === owner.toLowerCase())
+    );
+    if (covered.length === 0) {
+      return { ok: false, error: 'NO_PENDING_CODEOWNERS_APPROVAL' };
+    }
+
+    const allowed = await canApproveForOwner(owner, actorName, (org, team, username) =>
+      this.isGitHubTeamMember(actorId, org, team, username)
+    );
+    if (!allowed) {
+      throw new ForbiddenException(`${actorName} is not ${owner} or a member of it`);
+    }
+
+    const kind = codeownersApprovalKind(owner);
+    const existing = await this.prisma.approval.findFirst({ where: { workflowId, kind } });
+    if (!existing) {
+      await this.prisma.approval.create({ data: { workflowId, kind, actorId, actorName } });
+    }
+
+    for (const violation of covered) {
+      await this.prisma.policyViolation.update({
+        where: { id: violation.id },
+        data: { severity: 'WARN', message: `${violation.message} (approved for ${owner})` }
+      });
+    }
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId,
+        type: 'ui.policy.codeowners_approved',
+        payload: {
+          owner,
+          files: covered.map(v => v.file),
+          violationIds: covered.map(v => v.id),
+          actorId,
+          actorName
+        }
+      }
+    });
+
+    await this.syncPolicyStageStatus(workflowId);
+
+    return { ok: true, workflowId, owner, violationIds: covered.map(v => v.id) };
+  }
+
+  /**
+   * Active membership of a GitHub team, as seen by the user's OAuth token.
+   * Users who signed in without read:org are not treated as members.
+   */
+  private async isGitHubTeamMember(actorId: string, org: string, team: string, username: string) {
+    const auth = await this.prisma.gitHubAuth.findUnique({ where: { githubUserId: actorId } });
+    if (!auth) {
+      return false;
+    }
+
+    const response = await fetch(
+      `https://api.github.com/orgs/${encodeURIComponent(org)}/teams/${encodeURIComponent(team)}/memberships/${encodeURIComponent(username)}`,
+      {
+        headers: {
+          Authorization: `Bearer ${auth.accessToken}`,
+          Accept: 'application/vnd.github+json',
+          'User-Agent': 'arch-orchestrator'
+        }
+      }
+    );
+    if (!response.ok) {
+      return false;
+    }
+
+    const membership = (await response.json()) as { state?: string };
+    return membership.state === 'active';
+  }
+
+  /**
+   * Keep the policy stage's blocked/ready status in line with the
+   * current violations after a waiver or approval changes their severity.
+   */
+  private async syncPolicyStageStatus(workflowId: string) {
+    const workflow = await this.prisma.workflow.findUnique({ where: { id: workflowId } });
+    if (!workflow || workflow.stage !== 'policy') {
+      return;
+    }
+    if (workflow.stageStatus !== 'blocked' && workflow.stageStatus !== 'ready') {
+      return;
+    }
+
+    const blocking = await this.prisma.policyViolation.findFirst({
+      where: { workflowId, severity: 'BLOCK' }
+    });
+    const stageStatus = blocking ? 'blocked' : 'ready';
+
+    if (stageStatus !== workflow.stageStatus) {
+      await this.prisma.workflow.update({
+        where: { id: workflowId },
+        data: { stageStatus, stageUpdatedAt: new Date() }
+      });
+    }
+  }
 }
@@ -1,4 +1,4 @@
-import type { Workflow, PatchSet, Patch, PaginatedResponse, ApiError } from '../types';
+import type { Workflow, PatchSet, Patch, PolicyWaiver, PaginatedResponse, ApiError } from '../types';
 
 const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000';
 const DEFAULT_TIMEOUT = 10000; // 10 seconds
@@ -157,6 +157,12 @@ export const api = {
         body: JSON.stringify({ patchSetId, comment }),
       }),
 
+    selectHunk: (id: string, params: { patchSetId: string; path: string; hunk: number; agentId: string }) =>
+      fetchJson<{ ok: boolean; workflowId: string; patchSetId?: string; patchId?: string; error?: string }>(`/api/workflows/${id}/actions/select_hunk`, {
+        method: 'POST',
+        body: JSON.stringify(params),
+      }),
+
     cancel: (id: string) =>
       fetchJson<{ ok: boolean; workflowId: string }>(`/api/workflows/${id}/actions/cancel`, {
         method: 'POST',
@@ -198,6 +204,29 @@ export const api = {
         { method: 'POST', body: JSON.stringify({ reason }) }
       ),
 
+    // Policy waivers
+    getPolicyWaivers: (id: string) =>
+      fetchJson<PolicyWaiver[]>(`/api/workflows/${id}/policy/waivers`),
+
+    createPolicyWaiver: (id: string, violationId: string, justification: string, expiresAt: string) =>
+      fetchJson<{ ok: boolean; workflowId?: string; waiver?: PolicyWaiver; violationIds?: string[]; error?: string }>(
+        `/api/workflows/${id}/policy/waivers`,
+        { method: 'POST', body: JSON.stringify({ violationId, justification, expiresAt }) }
+      ),
+
+    revokePolicyWaiver: (id: string, waiverId: string) =>
+      fetchJson<{ ok: boolean; workflowId?: string; waiver?: PolicyWaiver; error?: string }>(
+        `/api/workflows/${id}/policy/waivers/${waiverId}`,
+        { method: 'DELETE' }
+      ),
+
+    // CODEOWNERS approvals
+    approveCodeowners: (id: string, owner: string) =>
+      fetchJson<{ ok: boolean; workflowId?: string; owner?: string; violationIds?: string[]; error?: string }>(
+        `/api/workflows/${id}/policy/codeowners-approvals`,
+        { method: 'POST', body: JSON.stringify({ owner }) }
+      ),
+
     getPatchSets: (id: string) =>
       fetchJson<PatchSet[]>(`/api/workflows/${id}/patch_sets`),
 
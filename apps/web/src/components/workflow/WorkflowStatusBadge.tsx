@@ -12,6 +12,7 @@ const statusConfig: Record<string, { color: string; bgColor: string; label: stri
   WAITING_USER_APPROVAL: { color: 'text-yellow-700', bgColor: 'bg-yellow-100', label: 'Awaiting Approval' },
   APPLYING_PATCHES: { color: 'text-blue-700', bgColor: 'bg-blue-100', label: 'Applying...' },
   PR_OPEN: { color: 'text-purple-700', bgColor: 'bg-purple-100', label: 'PR Open' },
+  MERGING: { color: 'text-purple-700', bgColor: 'bg-purple-100', label: 'Merging...' },
   DONE: { color: 'text-green-700', bgColor: 'bg-green-100', label: 'Done' },
   BLOCKED_POLICY: { color: 'text-red-700', bgColor: 'bg-red-100', label: 'Blocked' },
   NEEDS_HUMAN: { color: 'text-orange-700', bgColor: 'bg-orange-100', label: 'Needs Input' },
@@ -18,6 +18,7 @@ import {
   ShieldCheck,
   GitPullRequest,
   User,
+  UserCheck,
   Timer,
   FolderTree,
   Layers,
@@ -48,6 +49,10 @@ import type {
   PatchSet,
   Patch,
   PolicyViolation,
+  PolicyWaiver,
+  DependencyChange,
+  CIReport,
+  PatchConflicts,
   PullRequest,
   WorkflowRun,
   WorkflowRepo,
@@ -96,7 +101,7 @@ export function WorkflowDetailPage() {
   const [showSandboxRegenerateModal, setShowSandboxRegenerateModal] = useState(false);
   const [sandboxRegenerateReason, setSandboxRegenerateReason] = useState('');
 
-  const canCancel = workflow && ['INGESTED', 'PATCHES_PROPOSED', 'WAITING_USER_APPROVAL', 'APPLYING_PATCHES', 'PR_OPEN', 'VERIFYING_CI'].includes(workflow.state);
+  const canCancel = workflow && ['INGESTED', 'PATCHES_PROPOSED', 'WAITING_USER_APPROVAL', 'APPLYING_PATCHES', 'PR_OPEN', 'VERIFYING_CI', 'MERGING'].includes(workflow.state);
 
   const repoKeySignature = (workflow?.repos || []).map(repoKey).join('|');
 
@@ -877,7 +882,15 @@ export function WorkflowDetailPage() {
         {activeTab === 'timeline' && <TimelineTab workflow={workflow} />}
         {activeTab === 'summary' && <SummaryTab workflow={workflow} />}
         {activeTab === 'artifacts' && <ArtifactsTab artifacts={workflow.artifacts || []} />}
-        {activeTab === 'policy' && <PolicyTab violations={workflow.policyViolations || []} />}
+        {activeTab === 'policy' && (
+          <PolicyTab
+            workflowId={workflow.id}
+            violations={workflow.policyViolations || []}
+            waivers={workflow.policyWaivers || []}
+            artifacts={workflow.artifacts || []}
+            onRefetch={refetch}
+          />
+        )}
         {activeTab === 'sandbox' && (
           <SandboxTab
             workflow={workflow}
@@ -895,7 +908,9 @@ export function WorkflowDetailPage() {
             onRefetch={refetch}
           />
         )}
-        {activeTab === 'runs' && <RunsTab workflowId={workflow.id} runs={workflow.runs || []} />}
+        {activeTab === 'runs' && (
+          <RunsTab workflowId={workflow.id} runs={workflow.runs || []} artifacts={workflow.artifacts || []} />
+        )}
         {activeTab === 'activity' && <ActivityTab workflow={workflow} />}
       </div>
     </div>
@@ -1744,19 +1759,224 @@ function SandboxTab({
   );
 }
 
-function PolicyTab({ violations }: { violations: PolicyViolation[] }) {
+function defaultWaiverExpiry(): string {
+  const expiry = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  return expiry.toISOString().slice(0, 10);
+}
+
+function getWaiverStatus(waiver: PolicyWaiver): 'active' | 'expired' | 'revoked' {
+  if (waiver.revokedAt) return 'revoked';
+  if (new Date(waiver.expiresAt).getTime() <= Date.now()) return 'expired';
+  return 'active';
+}
+
+const DEPENDENCY_CHANGE_STYLES: Record<DependencyChange['kind'], string> = {
+  added: 'bg-blue-100 text-blue-700',
+  removed: 'bg-gray-100 text-gray-700',
+  upgraded: 'bg-green-100 text-green-700',
+  downgraded: 'bg-red-100 text-red-700',
+  changed: 'bg-yellow-100 text-yellow-700',
+  script: 'bg-purple-100 text-purple-700',
+  metadata: 'bg-gray-100 text-gray-500',
+};
+
+function getLatestDependencyChanges(artifacts: Artifact[]): DependencyChange[] {
+  const policyArtifact = artifacts.filter(a => a.kind === 'PolicyV1').pop();
+  if (!policyArtifact) return [];
+  try {
+    const data = JSON.parse(policyArtifact.content);
+    return Array.isArray(data?.dependencyChanges) ? data.dependencyChanges : [];
+  } catch {
+    return [];
+  }
+}
+
+function PolicyTab({
+  workflowId,
+  violations,
+  waivers,
+  artifacts,
+  onRefetch
+}: {
+  workflowId: string;
+  violations: PolicyViolation[];
+  waivers: PolicyWaiver[];
+  artifacts: Artifact[];
+  onRefetch: () => Promise<void>;
+}) {
+  const [waiveViolation, setWaiveViolation] = useState<PolicyViolation | null>(null);
+  const [justification, setJustification] = useState('');
+  const [expiresOn, setExpiresOn] = useState(defaultWaiverExpiry);
+  const [actionInProgress, setActionInProgress] = useState<string | null>(null);
+  const [waiverError, setWaiverError] = useState<string | null>(null);
+
+  const waiversById = new Map(waivers.map(w => [w.id, w]));
+
+  const closeWaiveModal = () => {
+    setWaiveViolation(null);
+    setJustification('');
+    setExpiresOn(defaultWaiverExpiry());
+    setWaiverError(null);
+  };
+
+  const handleWaive = async () => {
+    if (!waiveViolation || !justification.trim() || !expiresOn) return;
+    setActionInProgress(waiveViolation.id);
+    setWaiverError(null);
+    try {
+      // Expire at the end of the chosen day
+      const expiresAt = new Date(`${expiresOn}T23:59:59`).toISOString();
+      const result = await api.workflows.createPolicyWaiver(workflowId, waiveViolation.id, justification.trim(), expiresAt);
+      if (!result.ok) {
+        setWaiverError(result.error || 'Failed to create waiver');
+        return;
+      }
+      closeWaiveModal();
+      await onRefetch();
+    } catch (err) {
+      setWaiverError(err instanceof Error ? err.message : 'Failed to create waiver');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleRevoke = async (waiverId: string) => {
+    setActionInProgress(waiverId);
+    try {
+      await api.workflows.revokePolicyWaiver(workflowId, waiverId);
+      await onRefetch();
+    } catch (err) {
+      console.error('Failed to revoke waiver:', err);
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleApproveOwner = async (violationId: string, owner: string) => {
+    setActionInProgress(`${violationId}:${owner}`);
+    try {
+      const result = await api.workflows.approveCodeowners(workflowId, owner);
+      if (!result.ok) {
+        console.error('Failed to approve for code owner:', result.error);
+      }
+      await onRefetch();
+    } catch (err) {
+      console.error('Failed to approve for code owner:', err);
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const dependencyChanges = getLatestDependencyChanges(artifacts);
+
+  const dependencySection = dependencyChanges.length > 0 && (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200">
+        <h4 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <Package className="h-4 w-4" />
+          Dependency Changes
+        </h4>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+            <th className="px-4 py-2 font-medium">Change</th>
+            <th className="px-4 py-2 font-medium">Name</th>
+            <th className="px-4 py-2 font-medium">Version</th>
+            <th className="px-4 py-2 font-medium">File</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {dependencyChanges.map((change, index) => (
+            <tr key={`${change.file}:${change.name}:${index}`}>
+              <td className="px-4 py-2">
+                <span className={`px-2 py-0.5 text-xs rounded-full ${DEPENDENCY_CHANGE_STYLES[change.kind] || 'bg-gray-100 text-gray-600'}`}>
+                  {change.kind}{change.bump ? ` (${change.bump})` : ''}
+                </span>
+              </td>
+              <td className="px-4 py-2 font-mono text-xs">{change.name}</td>
+              <td className="px-4 py-2 font-mono text-xs text-gray-600">
+                {change.from && change.to
+                  ? `${change.from} → ${change.to}`
+                  : change.to || change.from || ''}
+              </td>
+              <td className="px-4 py-2 font-mono text-xs text-gray-500">{change.file}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const waiversSection = waivers.length > 0 && (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200">
+        <h4 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <Shield className="h-4 w-4" />
+          Waivers
+        </h4>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {waivers.map(waiver => {
+          const status = getWaiverStatus(waiver);
+          return (
+            <li key={waiver.id} className="p-4">
+              <div className="flex items-start gap-3">
+                <div className="flex-1">
+                  <p className="text-sm text-gray-900">{waiver.justification}</p>
+                  <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-500">
+                    <span className="font-mono bg-gray-100 px-1.5 py-0.5 rounded">{waiver.rule}</span>
+                    <span className="font-mono">{waiver.file}</span>
+                    <span className="flex items-center gap-1">
+                      <User className="h-3 w-3" />
+                      {waiver.approvedByName || waiver.approvedBy}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {status === 'expired' ? 'Expired' : 'Expires'} {new Date(waiver.expiresAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+                <span className={`px-2 py-0.5 text-xs rounded-full ${
+                  status === 'active'
+                    ? 'bg-green-100 text-green-700'
+                    : 'bg-gray-100 text-gray-600'
+                }`}>
+                  {status}
+                </span>
+                {status === 'active' && (
+                  <button
+                    onClick={() => handleRevoke(waiver.id)}
+                    disabled={!!actionInProgress}
+                    className="px-2 py-1 text-xs border border-gray-200 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {actionInProgress === waiver.id ? 'Revoking...' : 'Revoke'}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+
   if (violations.length === 0) {
     return (
-      <div className="bg-green-50 border border-green-200 rounded-lg p-6">
-        <div className="flex items-center gap-3">
-          <ShieldCheck className="h-6 w-6 text-green-500" />
-          <div>
-            <h3 className="text-sm font-medium text-green-800">No Policy Violations</h3>
-            <p className="text-sm text-green-700 mt-1">
-              All proposed patches passed policy evaluation.
-            </p>
+      <div className="space-y-4">
+        <div className="bg-green-50 border border-green-200 rounded-lg p-6">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="h-6 w-6 text-green-500" />
+            <div>
+              <h3 className="text-sm font-medium text-green-800">No Policy Violations</h3>
+              <p className="text-sm text-green-700 mt-1">
+                All proposed patches passed policy evaluation.
+              </p>
+            </div>
           </div>
         </div>
+        {dependencySection}
+        {waiversSection}
       </div>
     );
   }
@@ -1766,6 +1986,59 @@ function PolicyTab({ violations }: { violations: PolicyViolation[] }) {
 
   return (
     <div className="space-y-4">
+      {/* Waive Modal */}
+      <Modal
+        isOpen={!!waiveViolation}
+        onClose={closeWaiveModal}
+        title="Waive Policy Violation"
+      >
+        <div className="space-y-4">
+          {waiveViolation && (
+            <div className="text-xs text-gray-500 space-y-1">
+              <p className="text-sm text-gray-900">{waiveViolation.message}</p>
+              <div className="flex items-center gap-3">
+                <span className="font-mono bg-gray-100 px-1.5 py-0.5 rounded">{waiveViolation.rule}</span>
+                <span className="font-mono">{waiveViolation.file}</span>
+              </div>
+            </div>
+          )}
+          <textarea
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            placeholder="Why is this violation acceptable?"
+            className="w-full px-3 py-2 border border-gray-200 rounded-md text-sm min-h-[100px]"
+          />
+          <label className="block text-sm text-gray-700">
+            Expires on
+            <input
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-200 rounded-md text-sm"
+            />
+          </label>
+          {waiverError && (
+            <p className="text-sm text-red-600">{waiverError}</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={closeWaiveModal}
+              className="px-4 py-2 text-sm border border-gray-200 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleWaive}
+              disabled={!justification.trim() || !expiresOn || !!actionInProgress}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-yellow-600 text-white rounded-md hover:bg-yellow-700 disabled:opacity-50"
+            >
+              {actionInProgress ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Shield className="h-4 w-4" />}
+              Waive
+            </button>
+          </div>
+        </div>
+      </Modal>
+
       {/* Summary */}
       <div className={`rounded-lg p-4 ${
         blockingViolations.length > 0
@@ -1788,7 +2061,7 @@ function PolicyTab({ violations }: { violations: PolicyViolation[] }) {
               blockingViolations.length > 0 ? 'text-red-700' : 'text-yellow-700'
             }`}>
               {blockingViolations.length > 0
-                ? 'These violations must be resolved before the patch can be applied.'
+                ? 'These violations must be resolved or waived before the patch can be applied.'
                 : 'Review these warnings before approving.'}
             </p>
           </div>
@@ -1821,6 +2094,24 @@ function PolicyTab({ violations }: { violations: PolicyViolation[] }) {
                       </pre>
                     )}
                   </div>
+                  {violation.rule === 'codeowners_approval' && violation.evidence?.split(' ').map(owner => (
+                    <button
+                      key={owner}
+                      onClick={() => handleApproveOwner(violation.id, owner)}
+                      disabled={!!actionInProgress}
+                      className="flex items-center gap-1 px-2 py-1 text-xs border border-green-200 text-green-700 rounded-md hover:bg-green-50 disabled:opacity-50"
+                    >
+                      <UserCheck className="h-3 w-3" />
+                      {actionInProgress === `${violation.id}:${owner}` ? 'Approving...' : `Approve for ${owner}`}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => setWaiveViolation(violation)}
+                    disabled={!!actionInProgress}
+                    className="px-2 py-1 text-xs border border-gray-200 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Waive
+                  </button>
                 </div>
               </li>
             ))}
@@ -1838,28 +2129,39 @@ function PolicyTab({ violations }: { violations: PolicyViolation[] }) {
             </h4>
           </div>
           <ul className="divide-y divide-gray-100">
-            {warnings.map(violation => (
-              <li key={violation.id} className="p-4">
-                <div className="flex items-start gap-3">
-                  <div className="flex-1">
-                    <p className="text-sm font-medium text-gray-900">{violation.message}</p>
-                    <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
-                      <span className="font-mono bg-gray-100 px-1.5 py-0.5 rounded">{violation.rule}</span>
-                      {violation.file && <span className="font-mono">{violation.file}</span>}
-                      {violation.line && <span>Line {violation.line}</span>}
+            {warnings.map(violation => {
+              const waiver = violation.waiverId ? waiversById.get(violation.waiverId) : undefined;
+              return (
+                <li key={violation.id} className="p-4">
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-gray-900">{violation.message}</p>
+                      <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+                        <span className="font-mono bg-gray-100 px-1.5 py-0.5 rounded">{violation.rule}</span>
+                        {violation.file && <span className="font-mono">{violation.file}</span>}
+                        {violation.line && <span>Line {violation.line}</span>}
+                        {violation.waiverId && (
+                          <span className="px-1.5 py-0.5 rounded bg-green-100 text-green-700">
+                            Waived{waiver ? ` by ${waiver.approvedByName || waiver.approvedBy}` : ''}
+                          </span>
+                        )}
+                      </div>
+                      {violation.evidence && (
+                        <pre className="mt-2 text-xs bg-gray-50 p-2 rounded overflow-x-auto">
+                          {violation.evidence}
+                        </pre>
+                      )}
                     </div>
-                    {violation.evidence && (
-                      <pre className="mt-2 text-xs bg-gray-50 p-2 rounded overflow-x-auto">
-                        {violation.evidence}
-                      </pre>
-                    )}
                   </div>
-                </div>
-              </li>
-            ))}
+                </li>
+              );
+            })}
           </ul>
         </div>
       )}
+
+      {dependencySection}
+      {waiversSection}
     </div>
   );
 }
@@ -1925,6 +2227,18 @@ function PatchSetsTab({
     }
   };
 
+  const handleSelectHunk = async (patchSetId: string, path: string, hunk: number, agentId: string) => {
+    setActionInProgress(patchSetId);
+    try {
+      await api.workflows.selectHunk(workflowId, { patchSetId, path, hunk, agentId });
+      await onRefetch();
+    } catch (err) {
+      console.error('Failed to select hunk variant:', err);
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
   const handleRequestChanges = async (patchSetId: string) => {
     if (!changesComment.trim()) return;
     setActionInProgress(patchSetId);
@@ -2178,6 +2492,14 @@ function PatchSetsTab({
                         </div>
                       </div>
 
+                      {isExpanded && getPatchConflicts(artifacts, patchSet.id) && (
+                        <PatchConflictsPanel
+                          report={getPatchConflicts(artifacts, patchSet.id)!}
+                          canPick={canApprove && isProposed && !isLoading}
+                          onSelect={(path, hunk, agentId) => handleSelectHunk(patchSet.id, path, hunk, agentId)}
+                        />
+                      )}
+
                       {isExpanded && patchSet.patches && patchSet.patches.length > 0 && (
                         <div className="border-t border-gray-200">
                           <ul className="divide-y divide-gray-100">
@@ -2235,13 +2557,210 @@ function PatchSetsTab({
   );
 }
 
-function RunsTab({ workflowId, runs }: { workflowId: string; runs: WorkflowRun[] }) {
+function getPatchConflicts(artifacts: Artifact[], patchSetId: string): PatchConflicts | null {
+  const reports = artifacts
+    .filter(a => a.kind === 'PatchConflictsV1')
+    .map(a => {
+      try {
+        return JSON.parse(a.content) as PatchConflicts;
+      } catch {
+        return null;
+      }
+    })
+    .filter((r): r is PatchConflicts => r?.patchSetId === patchSetId);
+  return reports.pop() ?? null;
+}
+
+/**
+ * Overlapping hunks of a merged PatchSet, each agent's variant side by side.
+ * With the 'merged' resolution the user picks the variant per hunk.
+ */
+function PatchConflictsPanel({
+  report,
+  canPick,
+  onSelect
+}: {
+  report: PatchConflicts;
+  canPick: boolean;
+  onSelect: (path: string, hunk: number, agentId: string) => void;
+}) {
+  return (
+    <div className="border-t border-gray-200 p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="h-4 w-4 text-yellow-500" />
+        <h4 className="text-sm font-medium text-gray-900">Overlapping Hunks</h4>
+      </div>
+      {report.files.map(file => (
+        <div key={file.path} className="space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="font-mono text-xs text-gray-700">{file.path}</span>
+            <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">{file.resolution}</span>
+          </div>
+          {file.segments.map((segment, index) => segment.overlap && (
+            <div key={index} className="rounded-md border border-gray-100">
+              <div className="px-3 py-1.5 bg-gray-50 text-xs text-gray-500">
+                Line {segment.oldStart}
+                {segment.removed.length > 0 && ` (replaces ${segment.removed.length} line${segment.removed.length !== 1 ? 's' : ''})`}
+              </div>
+              <div
+                className="grid divide-x divide-gray-100"
+                style={{ gridTemplateColumns: `repeat(${segment.overlap.variants.length}, minmax(0, 1fr))` }}
+              >
+                {segment.overlap.variants.map(variant => {
+                  const isSelected = segment.overlap!.selected === variant.agentId;
+                  return (
+                    <div key={variant.agentId} className={isSelected ? 'bg-green-50' : ''}>
+                      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-100">
+                        <span className="text-xs font-medium text-gray-700">{variant.agentId}</span>
+                        {isSelected ? (
+                          <span className="flex items-center gap-1 text-xs text-green-700">
+                            <CheckCircle className="h-3 w-3" />
+                            Selected
+                          </span>
+                        ) : file.resolution === 'merged' && canPick && (
+                          <button
+                            onClick={() => onSelect(file.path, index, variant.agentId)}
+                            className="px-2 py-0.5 text-xs border border-gray-200 rounded hover:bg-gray-50"
+                          >
+                            Use this
+                          </button>
+                        )}
+                      </div>
+                      <pre className="px-3 py-2 text-xs font-mono overflow-x-auto whitespace-pre">
+                        {variant.lines.length > 0 ? variant.lines.join('\n') : <span className="text-gray-400">(lines removed)</span>}
+                      </pre>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function getLatestCIReport(artifacts: Artifact[]): CIReport | null {
+  const reportArtifact = artifacts.filter(a => a.kind === 'CIReportV1').pop();
+  if (!reportArtifact) return null;
+  try {
+    return JSON.parse(reportArtifact.content) as CIReport;
+  } catch {
+    return null;
+  }
+}
+
+function CIReportPanel({ report }: { report: CIReport }) {
+  const delta = report.coverage?.deltaPct;
+  const failures = report.tests?.failures ?? [];
+  const newFindings = report.findings?.newFindings ?? [];
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">CI Reports</h3>
+        <span className="text-xs text-gray-500">
+          Run {report.runId}
+          {report.baselineRunId ? ` vs. run ${report.baselineRunId}` : ''}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-xs text-gray-500 uppercase">Tests</p>
+          {report.tests ? (
+            <p className={report.tests.failed > 0 ? 'text-red-600 font-medium' : 'text-green-600 font-medium'}>
+              {report.tests.failed} failed / {report.tests.total}
+              {report.tests.skipped > 0 && <span className="text-gray-500"> ({report.tests.skipped} skipped)</span>}
+            </p>
+          ) : (
+            <p className="text-gray-400">No test report</p>
+          )}
+        </div>
+        <div>
+          <p className="text-xs text-gray-500 uppercase">Line Coverage</p>
+          {report.coverage ? (
+            <p className="text-gray-900 font-medium">
+              {report.coverage.lines.pct}%
+              {delta !== null && delta !== undefined && (
+                <span className={`ml-2 text-xs ${delta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {delta >= 0 ? '+' : ''}{delta}%
+                </span>
+              )}
+            </p>
+          ) : (
+            <p className="text-gray-400">No coverage report</p>
+          )}
+        </div>
+        <div>
+          <p className="text-xs text-gray-500 uppercase">Static Analysis</p>
+          {report.findings ? (
+            <p className="text-gray-900 font-medium">
+              {report.findings.errors} errors, {report.findings.warnings} warnings
+              <span className="ml-2 text-xs text-orange-600">{report.findings.newCount} new</span>
+            </p>
+          ) : (
+            <p className="text-gray-400">No SARIF report</p>
+          )}
+        </div>
+      </div>
+
+      {failures.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase mb-1">Failed Tests</p>
+          <ul className="space-y-1 text-sm">
+            {failures.map((test, idx) => (
+              <li key={`${test.suite}-${test.name}-${idx}`} className="flex items-start gap-2">
+                <XCircle className="h-4 w-4 mt-0.5 text-red-500 flex-shrink-0" />
+                <span className="text-gray-800">
+                  {test.suite && <span className="text-gray-500">{test.suite} › </span>}
+                  {test.name}
+                  {test.message && <span className="block text-xs text-gray-500 font-mono">{test.message}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {newFindings.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase mb-1">New Findings</p>
+          <ul className="space-y-1 text-sm">
+            {newFindings.map((finding, idx) => (
+              <li key={`${finding.ruleId}-${idx}`} className="flex items-start gap-2">
+                <AlertTriangle className={`h-4 w-4 mt-0.5 flex-shrink-0 ${
+                  finding.level === 'error' ? 'text-red-500' : 'text-yellow-500'
+                }`} />
+                <span className="text-gray-800">
+                  <span className="font-medium">{finding.ruleId}</span>: {finding.message}
+                  {finding.file && (
+                    <span className="block text-xs text-gray-500 font-mono">
+                      {finding.file}{finding.line ? `:${finding.line}` : ''}
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RunsTab({ workflowId, runs, artifacts }: { workflowId: string; runs: WorkflowRun[]; artifacts: Artifact[] }) {
   const [expandedRun, setExpandedRun] = useState<string | null>(null);
+  const ciReport = getLatestCIReport(artifacts);
 
   if (runs.length === 0) {
     return (
-      <div className="bg-white rounded-lg border border-gray-200 p-6 text-center text-gray-500">
-        No workflow runs recorded yet
+      <div className="space-y-4">
+        {ciReport && <CIReportPanel report={ciReport} />}
+        <div className="bg-white rounded-lg border border-gray-200 p-6 text-center text-gray-500">
+          No workflow runs recorded yet
+        </div>
       </div>
     );
   }
@@ -2258,6 +2777,8 @@ function RunsTab({ workflowId, runs }: { workflowId: string; runs: WorkflowRun[]
       {/* Cost Summary */}
       <CostSummary workflowId={workflowId} />
 
+      {ciReport && <CIReportPanel report={ciReport} />}
+
       {/* Summary stats */}
       <div className="grid grid-cols-4 gap-4">
         <div className="bg-white rounded-lg border border-gray-200 p-4">
@@ -2456,7 +2977,7 @@ function ActivityTab({ workflow }: { workflow: Workflow }) {
     const event = item.data as WorkflowEvent;
     if (event.type.includes('completed') || event.type.includes('approved') || event.type.includes('done')) return 'bg-green-500';
     if (event.type.includes('failed') || event.type.includes('rejected') || event.type.includes('error')) return 'bg-red-500';
-    if (event.type.includes('blocked')) return 'bg-yellow-500';
+    if (event.type.includes('blocked') || event.type.includes('drift')) return 'bg-yellow-500';
     return 'bg-blue-500';
   };
 
@@ -360,6 +360,7 @@ export function WorkflowsPage() {
               <option value="PATCHES_PROPOSED">Patches Proposed</option>
               <option value="WAITING_USER_APPROVAL">Awaiting Approval</option>
               <option value="PR_OPEN">PR Open</option>
+              <option value="MERGING">Merging</option>
               <option value="DONE">Done</option>
               <option value="FAILED">Failed</option>
             </select>
@@ -7,6 +7,7 @@ export type WorkflowState =
   | 'APPLYING_PATCHES'
   | 'PR_OPEN'
   | 'VERIFYING_CI'
+  | 'MERGING'
   | 'DONE'
   | 'BLOCKED_POLICY'
   | 'NEEDS_HUMAN'
@@ -36,6 +37,7 @@ export interface PullRequest {
   url: string;
   branch: string;
   status: 'open' | 'merged' | 'closed';
+  reviewState?: 'approved' | 'changes_requested' | 'commented' | 'dismissed' | null;
   repoOwner?: string;
   repoName?: string;
   createdAt: string;
@@ -74,6 +76,7 @@ export interface WorkflowRepo {
   baseBranch: string;
   baseSha?: string;
   role: 'primary' | 'secondary';
+  provider: 'github' | 'gitlab';
   createdAt: string;
 }
 
@@ -108,6 +111,7 @@ export interface Workflow {
   approvals?: Approval[];
   runs?: WorkflowRun[];
   policyViolations?: PolicyViolation[];
+  policyWaivers?: PolicyWaiver[];
 }
 
 export interface PatchSet {
@@ -167,9 +171,101 @@ export interface PolicyViolation {
   message: string;
   line?: number;
   evidence?: string;
+  waiverId?: string;
   createdAt: string;
 }
 
+export interface DependencyChange {
+  file: string;
+  ecosystem: 'npm' | 'pypi' | 'go' | 'cargo';
+  kind: 'added' | 'removed' | 'upgraded' | 'downgraded' | 'changed' | 'script' | 'metadata';
+  name: string;
+  section?: string;
+  from?: string;
+  to?: string;
+  bump?: 'major' | 'minor' | 'patch';
+  line?: number;
+}
+
+export interface CIReportFailedTest {
+  suite: string;
+  name: string;
+  file?: string;
+  kind: 'failure' | 'error';
+  message?: string;
+}
+
+export interface CIReportFinding {
+  tool: string;
+  ruleId: string;
+  level: 'error' | 'warning' | 'note';
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+export interface CIReport {
+  kind: 'CIReportV1';
+  runId: number;
+  headSha?: string;
+  createdAt: string;
+  baselineRunId: number | null;
+  tests: { total: number; failed: number; skipped: number; failures: CIReportFailedTest[] } | null;
+  coverage: {
+    lines: { covered: number; total: number; pct: number };
+    branches: { covered: number; total: number; pct: number } | null;
+    deltaPct: number | null;
+  } | null;
+  findings: {
+    total: number;
+    errors: number;
+    warnings: number;
+    notes: number;
+    newFindings: CIReportFinding[];
+    newCount: number;
+  } | null;
+}
+
+export interface PatchConflictSegment {
+  oldStart: number;
+  before: string[];
+  removed: string[];
+  added: string[];
+  after: string[];
+  overlap?: {
+    variants: Array<{ agentId: string; lines: string[] }>;
+    selected: string;
+  };
+}
+
+export interface PatchConflicts {
+  kind: 'PatchConflictsV1';
+  patchSetId: string;
+  createdAt: string;
+  files: Array<{
+    path: string;
+    taskId: string;
+    agents: string[];
+    resolution: 'first-wins' | 'last-wins' | 'manual' | 'merged';
+    segments: PatchConflictSegment[];
+  }>;
+}
+
+export interface PolicyWaiver {
+  id: string;
+  workflowId: string;
+  rule: string;
+  file: string;
+  evidenceHash: string;
+  justification: string;
+  expiresAt: string;
+  approvedBy: string;
+  approvedByName?: string;
+  createdAt: string;
+  revokedAt?: string;
+  revokedBy?: string;
+}
+
 export interface ApiError {
   errorCode: string;
   message: string;
@@ -1 +1,3 @@
 export const GITHUB_CLIENT_TOKEN = 'GITHUB_CLIENT';
+export const SCM_CLIENTS_TOKEN = 'SCM_CLIENTS';
+export const POLICY_RULES_TOKEN = 'POLICY_RULES';
@@ -1,13 +1,15 @@
 import type { PrismaClient } from '@prisma/client';
-import type { TransitionContext } from '@arch-orchestrator/core';
+import { MERGE_APPROVAL_KIND, type TransitionContext } from '@arch-orchestrator/core';
 
 /**
  * Loads all data needed to make a transition decision.
- * This is the only place that reads DB for orchestration.
+ * This is the only place that reads DB for orchestration; `checksPassed`
+ * reads the combined CI status of the workflow's PRs from the SCM.
  */
 export async function loadTransitionContext(
   prisma: PrismaClient,
-  workflowId: string
+  workflowId: string,
+  checksPassed?: (workflowId: string) => Promise<boolean>
 ): Promise<TransitionContext> {
   const workflow = await prisma.workflow.findUnique({
     where: { id: workflowId },
@@ -16,9 +18,11 @@ export async function loadTransitionContext(
         orderBy: { createdAt: 'asc' }
       },
       approvals: {
-        where: { kind: 'apply_patches' },
+        where: { kind: { in: ['apply_patches', MERGE_APPROVAL_KIND] } },
         orderBy: { createdAt: 'desc' }
-      }
+      },
+      repos: true,
+      pullRequests: true
     }
   });
 
@@ -39,7 +43,7 @@ export async function loadTransitionContext(
   const latestPatchSetId = latestPatchSet?.id;
 
   // Check if there's at least one approval recorded
-  const hasApproval = workflow.approvals.length > 0;
+  const hasApproval = workflow.approvals.some(a => a.kind === 'apply_patches');
 
   // Get PatchSets that need approval (proposed and passed policy)
   const patchSetsNeedingApproval: string[] = [];
@@ -97,6 +101,14 @@ export async function loadTransitionContext(
     }
   }
 
+  // Merge stage: the combined CI status of the PRs' head commits decides
+  // whether an approved merge can start (one green check run is not enough)
+  const mergeEnabled = workflow.repos.some(r => r.mergeMode);
+  let ciPassed = false;
+  if (mergeEnabled && checksPassed && (workflow.state === 'PR_OPEN' || workflow.state === 'VERIFYING_CI')) {
+    ciPassed = await checksPassed(workflowId);
+  }
+
   // For re-runs, we need all proposed patch set IDs
   const allProposedPatchSetIds = proposedPatchSets.map(ps => ps.id);
 
@@ -122,6 +134,12 @@ export async function loadTransitionContext(
     approvedPatchSetIds: approvedPatchSets.map(ps => ps.id),
     allPatchSetsApplied: hasPatchSets && appliedPatchSets.length === patchSets.length,
 
+    // Merge stage
+    mergeEnabled,
+    hasMergeApproval: workflow.approvals.some(a => a.kind === MERGE_APPROVAL_KIND),
+    ciPassed,
+    allPullRequestsMerged: workflow.pullRequests.length > 0 && workflow.pullRequests.every(pr => pr.status === 'merged'),
+
     // Gated pipeline context
     currentStage: workflow.stage as any,
     stageStatus: workflow.stageStatus
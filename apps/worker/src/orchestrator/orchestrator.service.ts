@@ -1,17 +1,33 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
 import type { Queue } from 'bullmq';
 import { getPrisma } from '@arch-orchestrator/db';
-import { transition, type TransitionContext, type WorkflowState, type TransitionEvent, type EnqueueJob } from '@arch-orchestrator/core';
+import {
+  transition,
+  formatIssueProgress,
+  issueProgressKey,
+  VectorStore,
+  createEmbeddingProvider,
+  PullRequestMerger,
+  type ScmClientRegistry,
+  type TransitionContext,
+  type WorkflowState,
+  type TransitionEvent,
+  type EnqueueJob
+} from '@arch-orchestrator/core';
 import { loadTransitionContext } from './context-loader';
 import { writeTransitionResult } from './state-writer';
+import { SCM_CLIENTS_TOKEN } from '../constants';
 
 @Injectable()
 export class OrchestratorService {
   private prisma = getPrisma();
+  private vectorStore = new VectorStore(this.prisma, createEmbeddingProvider());
   private readonly logger = new Logger(OrchestratorService.name);
+  private readonly merger: PullRequestMerger;
 
   constructor(
+    @Inject(SCM_CLIENTS_TOKEN) scm: ScmClientRegistry,
     @InjectQueue('workflow') private readonly workflowQueue: Queue,
     @InjectQueue('orchestrate') private readonly orchestrateQueue: Queue,
     @InjectQueue('ingest_context') private readonly ingestContextQueue: Queue,
@@ -21,8 +37,12 @@ export class OrchestratorService {
     @InjectQueue('architecture') private readonly architectureQueue: Queue,
     @InjectQueue('timeline') private readonly timelineQueue: Queue,
     @InjectQueue('summary') private readonly summaryQueue: Queue,
-    @InjectQueue('sandbox') private readonly sandboxQueue: Queue
-  ) {}
+    @InjectQueue('sandbox') private readonly sandboxQueue: Queue,
+    @InjectQueue('merge') private readonly mergeQueue: Queue,
+    @InjectQueue('comments') private readonly commentsQueue: Queue
+  ) {
+    this.merger = new PullRequestMerger(this.prisma, scm);
+  }
 
   /**
    * Main orchestration entry point.
@@ -47,7 +67,7 @@ export class OrchestratorService {
     const currentState = workflow.state as WorkflowState;
 
     // 2. Load context for decision making
-    const ctx = await loadTransitionContext(this.prisma, workflowId);
+    const ctx = await loadTransitionContext(this.prisma, workflowId, id => this.merger.checksPassed(id));
 
     // 3. Compute transition (pure function)
     const result = transition(currentState, event, ctx);
@@ -60,6 +80,14 @@ export class OrchestratorService {
       await this.enqueueJob(job);
     }
 
+    // 6. Report stage progress on the workflow's linked issue
+    await this.reportIssueProgress(workflowId);
+
+    // 7. Index finished workflows for semantic retrieval by later ones
+    if (result.nextState === 'DONE' && currentState !== 'DONE') {
+      await this.indexWorkflowMemory(workflowId);
+    }
+
     // Return result for audit
     return {
       previousState: currentState,
@@ -95,12 +123,66 @@ export class OrchestratorService {
       await this.summaryQueue.add(jobName, payload);
     } else if (jobName === 'sandbox_validation') {
       await this.sandboxQueue.add(jobName, payload);
+    } else if (jobName === 'merge_pull_request') {
+      await this.mergeQueue.add(jobName, payload);
     } else {
       // Fallback to workflow queue for unknown job types
       await this.workflowQueue.add(jobName, payload);
     }
   }
 
+  /**
+   * Embed a finished workflow's artifacts, decisions and patches.
+   * Best-effort: indexing failures never block the transition.
+   */
+  private async indexWorkflowMemory(workflowId: string): Promise<void> {
+    try {
+      const indexed = await this.vectorStore.indexWorkflow(workflowId);
+      this.logger.log(`Indexed ${indexed} memory vectors for workflow ${workflowId}`);
+    } catch (err) {
+      this.logger.warn(`Failed to index memory vectors for workflow ${workflowId}: ${err}`);
+    }
+  }
+
+  /**
+   * Post a comment on the linked issue when the workflow reaches a stage
+   * status worth reporting. Each progress key is reported once.
+   */
+  private async reportIssueProgress(workflowId: string): Promise<void> {
+    const workflow = await this.prisma.workflow.findUnique({
+      where: { id: workflowId },
+      include: { pullRequests: { orderBy: { createdAt: 'asc' } } }
+    });
+    if (!workflow?.issueOwner || !workflow.issueRepo || !workflow.issueNumber) {
+      return;
+    }
+
+    const body = formatIssueProgress(workflow);
+    if (!body) {
+      return;
+    }
+
+    const key = issueProgressKey(workflow);
+    const last = await this.prisma.workflowEvent.findFirst({
+      where: { workflowId, type: 'issue.progress' },
+      orderBy: { createdAt: 'desc' }
+    });
+    if ((last?.payload as { key?: string } | null)?.key === key) {
+      return;
+    }
+
+    await this.prisma.workflowEvent.create({
+      data: { workflowId, type: 'issue.progress', payload: { key } }
+    });
+    await this.commentsQueue.add('post_comment', {
+      workflowId,
+      owner: workflow.issueOwner,
+      repo: workflow.issueRepo,
+      issueNumber: workflow.issueNumber,
+      body
+    });
+  }
+
   /**
    * Helper to get current workflow state.
    */
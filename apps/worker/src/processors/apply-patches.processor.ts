@@ -3,8 +3,9 @@ import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { InjectQueue } from '@nestjs/bullmq';
 import type { Job, Queue } from 'bullmq';
 import { getPrisma } from '@arch-orchestrator/db';
-import { WriteGate, RunRecorder, PatchApplicator, type GitHubClient } from '@arch-orchestrator/core';
-import { GITHUB_CLIENT_TOKEN } from '../constants';
+import { WriteGate, RunRecorder, PatchApplicator, loadRepoPolicy, type PolicyRuleRegistry, type ScmClientRegistry } from '@arch-orchestrator/core';
+import { POLICY_RULES_TOKEN, SCM_CLIENTS_TOKEN } from '../constants';
+import { ORG_POLICY_DEFAULTS } from './evaluate-policy.processor';
 
 @Processor('apply_patches')
 export class ApplyPatchesProcessor extends WorkerHost {
@@ -13,7 +14,8 @@ export class ApplyPatchesProcessor extends WorkerHost {
   private readonly logger = new Logger(ApplyPatchesProcessor.name);
 
   constructor(
-    @Inject(GITHUB_CLIENT_TOKEN) private readonly github: GitHubClient,
+    @Inject(SCM_CLIENTS_TOKEN) private readonly scm: ScmClientRegistry,
+    @Inject(POLICY_RULES_TOKEN) private readonly policyRules: PolicyRuleRegistry,
     @InjectQueue('orchestrate') private readonly orchestrateQueue: Queue
   ) {
     super();
@@ -113,10 +115,15 @@ export class ApplyPatchesProcessor extends WorkerHost {
       inputs: { workflowId, patchSetId }
     });
 
-    const writeGate = new WriteGate(this.prisma, this.github);
-    const patchApplicator = new PatchApplicator(this.prisma, writeGate);
-
     try {
+      const github = this.scm.forProvider(matchingRepo?.provider);
+      const writeGate = new WriteGate(this.prisma, github);
+      const patchApplicator = new PatchApplicator(this.prisma, writeGate, {
+        commitStrategy: process.env.PATCH_COMMIT_STRATEGY === 'per_patchset' ? 'per_patchset' : 'per_patch',
+        loadPolicy: ref => loadRepoPolicy(github, { owner: repoOwner, repo: repoName, ref }, ORG_POLICY_DEFAULTS),
+        policyRules: this.policyRules
+      });
+
       // Use PatchApplicator which handles:
       // - Unique branch naming
       // - WriteGate enforcement for all operations
@@ -134,6 +141,17 @@ export class ApplyPatchesProcessor extends WorkerHost {
         throw new Error(result.error || 'Failed to apply patches');
       }
 
+      if (result.rebase) {
+        this.logger.log(`Rebased PatchSet ${patchSetId} from ${result.rebase.fromSha} onto ${result.rebase.toSha}`);
+        await this.prisma.workflowEvent.create({
+          data: {
+            workflowId,
+            type: 'worker.apply_patches.rebased',
+            payload: { patchSetId, ...result.rebase }
+          }
+        });
+      }
+
       this.logger.log(`Created PR #${result.prNumber}: ${result.prUrl}`);
 
       await this.prisma.workflowEvent.create({
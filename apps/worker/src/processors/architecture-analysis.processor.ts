@@ -14,6 +14,8 @@ import {
   extractJson,
   buildRetryPrompt,
   SCHEMA_DESCRIPTIONS,
+  formatCodeIndexOverview,
+  type CodeIndex,
 } from '@arch-orchestrator/core';
 
 interface ArchitectureJobData {
@@ -95,6 +97,7 @@ export class ArchitectureAnalysisProcessor extends WorkerHost {
 
       // Gather repo context summaries
       const repoSummaries: Record<string, string> = {};
+      const codeIndexes: Record<string, CodeIndex> = {};
       for (const repo of workflow.repos) {
         const context = await this.prisma.repoContext.findUnique({
           where: {
@@ -108,6 +111,9 @@ export class ArchitectureAnalysisProcessor extends WorkerHost {
         if (context?.summary) {
           repoSummaries[`${repo.owner}/${repo.repo}`] = context.summary;
         }
+        if (context?.codeIndex) {
+          codeIndexes[`${repo.owner}/${repo.repo}`] = context.codeIndex as unknown as CodeIndex;
+        }
       }
 
       const llmProvider = createProviderWithFallback('architecture');
@@ -135,6 +141,13 @@ export class ArchitectureAnalysisProcessor extends WorkerHost {
           }
         }
 
+        if (Object.keys(codeIndexes).length > 0) {
+          promptParts.push(`## Module Structure`);
+          for (const [repo, index] of Object.entries(codeIndexes)) {
+            promptParts.push(`### ${repo}`, formatCodeIndexOverview(index), ``);
+          }
+        }
+
         if (workflow.feedback) {
           promptParts.push(`## Previous Feedback (address these concerns)`, workflow.feedback, ``);
         }
@@ -0,0 +1,69 @@
+import { Inject, Logger, OnModuleInit } from '@nestjs/common';
+import { Processor, WorkerHost, InjectQueue } from '@nestjs/bullmq';
+import type { Job, Queue } from 'bullmq';
+import { getPrisma } from '@arch-orchestrator/db';
+import { CIPoller, DEFAULT_CI_POLLING_CONFIG, type ScmClientRegistry } from '@arch-orchestrator/core';
+import { SCM_CLIENTS_TOKEN } from '../constants';
+
+const CI_POLL_TICK_MS = Number(process.env.CI_POLL_TICK_MS) || 15_000;
+
+/**
+ * Polls CI for workflows waiting on it, for setups that cannot receive
+ * webhooks. A repeatable tick runs the CIPoller; results it records through
+ * Gate3 are emitted to the orchestrator like webhook-delivered ones.
+ */
+@Processor('ci_poll')
+export class CIPollProcessor extends WorkerHost implements OnModuleInit {
+  private readonly logger = new Logger(CIPollProcessor.name);
+  private readonly poller: CIPoller;
+
+  constructor(
+    @Inject(SCM_CLIENTS_TOKEN) scm: ScmClientRegistry,
+    @InjectQueue('ci_poll') private readonly ciPollQueue: Queue,
+    @InjectQueue('orchestrate') private readonly orchestrateQueue: Queue
+  ) {
+    super();
+    this.poller = new CIPoller(getPrisma(), scm, {
+      defaults: {
+        enabled: process.env.CI_POLL_ENABLED === 'true',
+        intervalSeconds: Number(process.env.CI_POLL_INTERVAL_SECONDS) || DEFAULT_CI_POLLING_CONFIG.intervalSeconds,
+        maxIntervalSeconds: Number(process.env.CI_POLL_MAX_INTERVAL_SECONDS) || DEFAULT_CI_POLLING_CONFIG.maxIntervalSeconds,
+        backoffFactor: Number(process.env.CI_POLL_BACKOFF_FACTOR) || DEFAULT_CI_POLLING_CONFIG.backoffFactor
+      }
+    });
+  }
+
+  async onModuleInit() {
+    // A fixed jobId keeps a single repeatable tick across worker instances
+    await this.ciPollQueue.add('poll_ci', {}, {
+      repeat: { every: CI_POLL_TICK_MS },
+      jobId: 'poll_ci'
+    });
+  }
+
+  async process(_job: Job) {
+    const results = await this.poller.poll();
+
+    for (const polled of results) {
+      if (polled.status === 'error') {
+        this.logger.warn(`CI poll failed for workflow ${polled.workflowId} PR #${polled.prNumber}: ${polled.error}`);
+      }
+      if (polled.status !== 'completed' || !polled.result) {
+        continue;
+      }
+
+      this.logger.log(
+        `Polled CI for workflow ${polled.workflowId} PR #${polled.prNumber} at ${polled.headSha}: ${polled.result.ciConclusion}`
+      );
+      await this.orchestrateQueue.add('orchestrate', {
+        workflowId: polled.workflowId,
+        event: polled.result.transitionEvent
+      });
+    }
+
+    return {
+      polled: results.filter(r => r.status !== 'disabled' && r.status !== 'waiting').length,
+      completed: results.filter(r => r.status === 'completed').length
+    };
+  }
+}
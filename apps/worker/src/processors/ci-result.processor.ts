@@ -0,0 +1,65 @@
+import { Inject, Logger } from '@nestjs/common';
+import { Processor, WorkerHost, InjectQueue } from '@nestjs/bullmq';
+import type { Job, Queue } from 'bullmq';
+import { getPrisma } from '@arch-orchestrator/db';
+import { Gate3Service, type CIEventInput, type ScmClientRegistry } from '@arch-orchestrator/core';
+import { SCM_CLIENTS_TOKEN } from '../constants';
+
+export type CIResultJobPayload = {
+  input: CIEventInput;
+};
+
+/**
+ * Runs CI results delivered by webhook through Gate3. The workflow's
+ * quality gates (QUALITY_GATES artifact) decide the E_CI_COMPLETED
+ * conclusion emitted to the orchestrator, as for polled CI results, so a
+ * green run that misses a required gate cannot finish the workflow.
+ */
+@Processor('ci_results')
+export class CIResultProcessor extends WorkerHost {
+  private prisma = getPrisma();
+  private readonly logger = new Logger(CIResultProcessor.name);
+
+  constructor(
+    @Inject(SCM_CLIENTS_TOKEN) private readonly scm: ScmClientRegistry,
+    @InjectQueue('orchestrate') private readonly orchestrateQueue: Queue
+  ) {
+    super();
+  }
+
+  async process(job: Job<CIResultJobPayload>) {
+    // Dates arrive as strings from the queue
+    const { startedAt, completedAt, ...rest } = job.data.input;
+    const input: CIEventInput = {
+      ...rest,
+      startedAt: startedAt ? new Date(startedAt) : undefined,
+      completedAt: completedAt ? new Date(completedAt) : undefined
+    };
+
+    const workflowRepo = input.workflowId
+      ? await this.prisma.workflowRepo.findFirst({
+        where: { workflowId: input.workflowId, owner: input.owner, repo: input.repo }
+      })
+      : null;
+    const provider = workflowRepo?.provider ?? (input.source === 'pipeline' ? 'gitlab' : 'github');
+
+    const gate3 = new Gate3Service(this.prisma, undefined, this.scm.forProvider(provider));
+    const result = await gate3.processCIEvent(input);
+    if (!result) {
+      return { ok: true, skipped: true };
+    }
+
+    const failed = result.gateResults.filter(gate => gate.required && !gate.passed).map(gate => gate.name);
+    this.logger.log(
+      `CI ${result.ciConclusion} for workflow ${result.workflowId} at ${input.headSha}` +
+      (failed.length > 0 ? `, failed gates: ${failed.join(', ')}` : '')
+    );
+
+    await this.orchestrateQueue.add('orchestrate', {
+      workflowId: result.workflowId,
+      event: result.transitionEvent
+    });
+
+    return { ok: true, passed: result.passed };
+  }
+}
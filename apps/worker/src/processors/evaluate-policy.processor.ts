@@ -1,10 +1,113 @@
-import { Logger } from '@nestjs/common';
+import { Inject, Logger } from '@nestjs/common';
 import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { InjectQueue } from '@nestjs/bullmq';
 import type { Job, Queue } from 'bullmq';
 import { getPrisma } from '@arch-orchestrator/db';
-import { RunRecorder } from '@arch-orchestrator/core';
+import {
+  RunRecorder,
+  CODEOWNERS_APPROVAL_KIND_PREFIX,
+  DEFAULT_POLICY_CONFIG,
+  POLICY_FILE_PATH,
+  approvedOwnersFromKinds,
+  createPolicyConfig,
+  evaluateGate2,
+  loadRepoPolicy,
+  riskLevelRank,
+  snapshotPolicyConfig,
+  type BlastRadius,
+  type DependencyChange,
+  type EffectivePolicy,
+  type GitHubClient,
+  type ImportGraph,
+  type PolicyRuleRegistry
+} from '@arch-orchestrator/core';
 import { createHash } from 'crypto';
+import { GITHUB_CLIENT_TOKEN, POLICY_RULES_TOKEN } from '../constants';
+
+/**
+ * Glob fragment matching a word in any case ("key" -> "[Kk][Ee][Yy]").
+ */
+function anyCase(word: string): string {
+  return word.replace(/[a-z]/gi, ch => `[${ch.toUpperCase()}${ch.toLowerCase()}]`);
+}
+
+/**
+ * Globs matching any path with a file or directory name containing `fragment`.
+ */
+function pathsContaining(fragment: string): string[] {
+  return [`**/*${anyCase(fragment)}*`, `**/*${anyCase(fragment)}*/**`];
+}
+
+/**
+ * Globs matching any path whose file name ends with `suffix`, in any case.
+ */
+function pathsEndingWith(suffix: string): string[] {
+  return [`**/*${anyCase(suffix)}`];
+}
+
+/**
+ * Org-wide policy defaults. Repo policy files (.orchestrator/policy.yml)
+ * are merged on top of these and can only tighten them; the policy file
+ * itself is frozen so a patch cannot change the rules it is checked against.
+ */
+export const ORG_POLICY_DEFAULTS = createPolicyConfig({
+  // Matched by file name at any depth
+  frozenFiles: [
+    ...DEFAULT_POLICY_CONFIG.frozenFiles,
+    POLICY_FILE_PATH,
+    ...[
+      'LICENSE',
+      'LICENSE.md',
+      'LICENSE.txt',
+      'LICENCE',
+      'package-lock.json',
+      'yarn.lock',
+      'pnpm-lock.yaml',
+      'Cargo.lock',
+      'poetry.lock',
+      'Gemfile.lock',
+      'composer.lock',
+      '.gitignore',
+      '.gitattributes',
+    ].map(name => `**/${name}`),
+  ],
+  denyGlobs: [
+    ...DEFAULT_POLICY_CONFIG.denyGlobs,
+    // Sensitive files: env files, keys, secrets, credentials and passwords
+    '**/.env*',
+    ...pathsEndingWith('.env'),
+    ...pathsContaining('.env.'),
+    ...pathsEndingWith('.pem'),
+    ...pathsEndingWith('.key'),
+    ...pathsContaining('secret.'),
+    ...pathsContaining('secrets.'),
+    ...pathsContaining('credential.'),
+    ...pathsContaining('credentials.'),
+    ...pathsContaining('privatekey'),
+    ...pathsContaining('private_key'),
+    ...pathsContaining('private-key'),
+    ...pathsContaining('password'),
+    // CI and build configuration
+    '.github/workflows/**',
+    ...pathsContaining('dockerfile'),
+    ...pathsContaining('docker-compose'),
+    '.dockerignore',
+    'Makefile',
+    '.gitlab-ci.yml',
+    '.travis.yml',
+    'Jenkinsfile',
+  ],
+  dependencyFiles: [
+    ...DEFAULT_POLICY_CONFIG.dependencyFiles,
+    'poetry.lock',
+    'composer.lock',
+  ],
+  // Slack, Stripe and JWT tokens are covered by the secret scanner's detectors
+  secretPatterns: [
+    ...DEFAULT_POLICY_CONFIG.secretPatterns,
+    /pk_live_[0-9a-zA-Z]{24,}/,
+  ],
+});
 
 @Processor('evaluate_policy')
 export class EvaluatePolicyProcessor extends WorkerHost {
@@ -13,6 +116,8 @@ export class EvaluatePolicyProcessor extends WorkerHost {
   private readonly logger = new Logger(EvaluatePolicyProcessor.name);
 
   constructor(
+    @Inject(GITHUB_CLIENT_TOKEN) private readonly github: GitHubClient,
+    @Inject(POLICY_RULES_TOKEN) private readonly policyRules: PolicyRuleRegistry,
     @InjectQueue('orchestrate') private readonly orchestrateQueue: Queue
   ) {
     super();
@@ -32,7 +137,8 @@ export class EvaluatePolicyProcessor extends WorkerHost {
 
     try {
       const workflow = await this.prisma.workflow.findUnique({
-        where: { id: workflowId }
+        where: { id: workflowId },
+        include: { repos: true }
       });
 
       if (!workflow) {
@@ -60,62 +166,118 @@ export class EvaluatePolicyProcessor extends WorkerHost {
         throw new Error(`PatchSet ${patchSetId} does not belong to workflow ${workflowId}`);
       }
 
+      // Resolve the effective policy: org defaults + repo policy file at baseSha
+      const repoOwner = patchSet.repoOwner ||
+        workflow.repos.find(r => r.role === 'primary')?.owner ||
+        workflow.repoOwner;
+      const repoName = patchSet.repoName ||
+        workflow.repos.find(r => r.role === 'primary')?.repo ||
+        workflow.repoName;
+      const workflowRepo = workflow.repos.find(r => r.owner === repoOwner && r.repo === repoName);
+      const policyRef = workflowRepo?.baseSha || patchSet.baseSha;
+
       // Policy evaluation rules
-      const violations: { rule: string; message: string; blocking: boolean; file: string; evidence?: string }[] = [];
+      const violations: { rule: string; message: string; blocking: boolean; file: string; line?: number; evidence?: string; evidenceHash?: string; waiverId?: string }[] = [];
+
+      let policy: EffectivePolicy = { config: ORG_POLICY_DEFAULTS, source: null };
+      if (repoOwner && repoName) {
+        try {
+          policy = await loadRepoPolicy(
+            this.github,
+            { owner: repoOwner, repo: repoName, ref: policyRef },
+            ORG_POLICY_DEFAULTS
+          );
+        } catch (err: any) {
+          // A broken policy file must not silently loosen the rules
+          violations.push({
+            rule: 'policy_file_invalid',
+            message: String(err?.message ?? err),
+            blocking: true,
+            file: POLICY_FILE_PATH
+          });
+        }
+      }
 
-      for (const patch of patchSet.patches) {
-        const files = Array.isArray(patch.files)
-          ? (patch.files as { path: string }[])
-          : [];
-        const diff = patch.diff as string || '';
+      if (policy.source) {
+        this.logger.log(
+          `Using policy file ${policy.source.path} from ${repoOwner}/${repoName}@${policy.source.ref}`
+        );
+      }
 
-        for (const file of files) {
-          // Rule 1: Sensitive files (blocking)
-          if (this.isSensitiveFile(file.path)) {
-            violations.push({
-              rule: 'NO_SENSITIVE_FILES',
-              message: `Patch modifies sensitive file: ${file.path}`,
-              blocking: true,
-              file: file.path
-            });
-          }
+      // Active waivers downgrade matching BLOCK violations to WARN
+      const evaluatedAt = new Date();
+      const waivers = await this.prisma.policyWaiver.findMany({
+        where: { workflowId, revokedAt: null, expiresAt: { gt: evaluatedAt } }
+      });
 
-          // Rule 2: Frozen files (blocking)
-          if (this.isFrozenFile(file.path)) {
-            violations.push({
-              rule: 'FROZEN_FILE',
-              message: `File is frozen and should not be modified: ${file.path}`,
-              blocking: true,
-              file: file.path
-            });
-          }
+      // Explicit approvals on behalf of CODEOWNERS-protected owners
+      const ownerApprovals = await this.prisma.approval.findMany({
+        where: { workflowId, kind: { startsWith: CODEOWNERS_APPROVAL_KIND_PREFIX } }
+      });
+      const approvedOwners = approvedOwnersFromKinds(ownerApprovals.map(a => a.kind));
 
-          // Rule 3: Deny-glob patterns (blocking)
-          const denyMatch = this.matchesDenyGlob(file.path);
-          if (denyMatch) {
-            violations.push({
-              rule: 'DENY_GLOB',
-              message: `File matches denied pattern "${denyMatch}": ${file.path}`,
-              blocking: true,
-              file: file.path
-            });
-          }
-        }
+      // Import graph from the repo context, when indexed, for blast-radius dependents
+      const repoContext = repoOwner && repoName
+        ? await this.prisma.repoContext.findUnique({
+            where: {
+              repoOwner_repoName_baseBranch: {
+                repoOwner,
+                repoName,
+                baseBranch: workflowRepo?.baseBranch ?? workflow.baseBranch
+              }
+            }
+          })
+        : null;
+      const importGraph = (repoContext?.importGraph ?? null) as ImportGraph | null;
 
-        // Rule 4: Secret scanning in diff content (blocking)
-        const secrets = this.scanForSecrets(diff);
-        for (const secret of secrets) {
+      const dependencyChanges: DependencyChange[] = [];
+      const blastRadius: { patchId: string; title: string; riskLevel: string; radius: BlastRadius }[] = [];
+
+      for (const patch of patchSet.patches) {
+        const diff = patch.diff as string || '';
+
+        // Rules 1-4: frozen files, deny globs, CODEOWNERS, dependency changes, secrets (Gate2)
+        const gate2 = evaluateGate2(diff, policy.config, {
+          rules: this.policyRules,
+          policySource: policy.source,
+          waivers,
+          now: evaluatedAt,
+          approvedOwners,
+          importGraph
+        });
+        for (const v of gate2.violations) {
           violations.push({
-            rule: 'SECRET_DETECTED',
-            message: `Potential ${secret.type} detected in patch`,
-            blocking: true,
-            file: patch.title || 'unknown',
-            evidence: secret.match.substring(0, 50) + (secret.match.length > 50 ? '...' : '')
+            rule: v.rule,
+            message: v.message,
+            blocking: v.severity === 'BLOCK',
+            file: v.file,
+            line: v.line,
+            evidence: v.evidence,
+            evidenceHash: v.evidenceHash,
+            waiverId: v.waiverId
+          });
+        }
+        dependencyChanges.push(...(gate2.evidence.dependencyChanges ?? []));
+
+        // The computed blast radius replaces the proposed risk level when higher
+        let riskLevel = patch.riskLevel;
+        const radius = gate2.evidence.blastRadius;
+        if (radius && riskLevelRank(radius.level) > riskLevelRank(riskLevel)) {
+          this.logger.log(
+            `Raising risk level of patch "${patch.title}" from ${riskLevel} to ${radius.level} (blast radius ${radius.score})`
+          );
+          riskLevel = radius.level;
+          await this.prisma.patch.update({
+            where: { id: patch.id },
+            data: { riskLevel }
           });
         }
+        if (radius) {
+          blastRadius.push({ patchId: patch.id, title: patch.title, riskLevel, radius });
+        }
 
         // Rule 5: High risk level (warning)
-        if (patch.riskLevel === 'high') {
+        if (riskLevel === 'high') {
           violations.push({
             rule: 'HIGH_RISK_WARNING',
             message: `Patch "${patch.title}" has high risk level`,
@@ -157,8 +319,10 @@ export class EvaluatePolicyProcessor extends WorkerHost {
             severity: v.blocking ? 'BLOCK' : 'WARN',
             file: v.file,
             message: v.message,
-            line: null,
-            evidence: v.evidence || null
+            line: v.line ?? null,
+            evidence: v.evidence || null,
+            evidenceHash: v.evidenceHash ?? null,
+            waiverId: v.waiverId ?? null
           }))
         });
       }
@@ -167,7 +331,7 @@ export class EvaluatePolicyProcessor extends WorkerHost {
       const policyArtifact = {
         kind: 'PolicyV1' as const,
         patchSetId,
-        evaluatedAt: new Date().toISOString(),
+        evaluatedAt: evaluatedAt.toISOString(),
         result: hasBlockingViolations ? 'blocked' : 'passed',
         summary: hasBlockingViolations
           ? `Policy evaluation failed: ${violations.filter(v => v.blocking).length} blocking violations`
@@ -179,12 +343,19 @@ export class EvaluatePolicyProcessor extends WorkerHost {
           severity: v.blocking ? 'BLOCK' : 'WARN',
           file: v.file,
           message: v.message,
-          evidence: v.evidence || null
+          line: v.line ?? null,
+          evidence: v.evidence || null,
+          waiverId: v.waiverId ?? null
         })),
+        dependencyChanges,
+        blastRadius,
+        policySource: policy.source,
+        configSnapshot: snapshotPolicyConfig(policy.config, policy.source),
         stats: {
           totalViolations: violations.length,
           blockingViolations: violations.filter(v => v.blocking).length,
           warnings: warningCount,
+          waived: violations.filter(v => v.waiverId).length,
           filesScanned: patchSet.patches.reduce((sum, p) => {
             const files = Array.isArray(p.files) ? (p.files as { path: string }[]) : [];
             return sum + files.length;
@@ -222,7 +393,8 @@ export class EvaluatePolicyProcessor extends WorkerHost {
             patchSetId,
             violations,
             hasBlockingViolations,
-            warningCount
+            warningCount,
+            policySource: policy.source ? { ...policy.source } : null
           }
         }
       });
@@ -318,123 +490,4 @@ export class EvaluatePolicyProcessor extends WorkerHost {
       return { ok: false, error: errorMsg };
     }
   }
-
-  private isSensitiveFile(path: string): boolean {
-    const sensitivePatterns = [
-      /\.env$/i,
-      /\.env\./i,
-      /secrets?\./i,
-      /credentials?\./i,
-      /private[_-]?key/i,
-      /\.pem$/i,
-      /\.key$/i,
-      /password/i,
-    ];
-
-    return sensitivePatterns.some(pattern => pattern.test(path));
-  }
-
-  private isFrozenFile(path: string): boolean {
-    const frozenFiles = [
-      'LICENSE',
-      'LICENSE.md',
-      'LICENSE.txt',
-      'LICENCE',
-      'package-lock.json',
-      'yarn.lock',
-      'pnpm-lock.yaml',
-      'Cargo.lock',
-      'poetry.lock',
-      'Gemfile.lock',
-      'composer.lock',
-      '.gitignore',
-      '.gitattributes',
-    ];
-
-    const fileName = path.split('/').pop() || '';
-    return frozenFiles.includes(fileName);
-  }
-
-  private matchesDenyGlob(path: string): string | null {
-    // Patterns that should never be modified by automated tools
-    const denyPatterns = [
-      { pattern: /^\.github\/workflows\//, name: '.github/workflows/*' },
-      { pattern: /^\.github\/CODEOWNERS$/, name: 'CODEOWNERS' },
-      { pattern: /dockerfile/i, name: 'Dockerfile' },
-      { pattern: /docker-compose/i, name: 'docker-compose' },
-      { pattern: /^\.dockerignore$/, name: '.dockerignore' },
-      { pattern: /^Makefile$/, name: 'Makefile' },
-      { pattern: /^\.gitlab-ci\.yml$/, name: '.gitlab-ci.yml' },
-      { pattern: /^\.travis\.yml$/, name: '.travis.yml' },
-      { pattern: /^Jenkinsfile$/, name: 'Jenkinsfile' },
-    ];
-
-    for (const { pattern, name } of denyPatterns) {
-      if (pattern.test(path)) {
-        return name;
-      }
-    }
-    return null;
-  }
-
-  private scanForSecrets(content: string): { type: string; match: string }[] {
-    const secrets: { type: string; match: string }[] = [];
-
-    const secretPatterns = [
-      // API Keys
-      { type: 'AWS Access Key', pattern: /AKIA[0-9A-Z]{16}/g },
-      { type: 'AWS Secret Key', pattern: /[A-Za-z0-9/+=]{40}(?=\s|$|"|')/g },
-      { type: 'GitHub Token', pattern: /gh[pousr]_[A-Za-z0-9_]{36,}/g },
-      { type: 'Slack Token', pattern: /xox[baprs]-[0-9a-zA-Z-]+/g },
-      { type: 'Stripe Key', pattern: /sk_live_[0-9a-zA-Z]{24,}/g },
-      { type: 'Stripe Key', pattern: /pk_live_[0-9a-zA-Z]{24,}/g },
-
-      // Generic patterns
-      { type: 'Private Key', pattern: /-----BEGIN (RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/g },
-      { type: 'API Key', pattern: /api[_-]?key['":\s]*[=:]\s*['"]?[A-Za-z0-9_-]{20,}['"]?/gi },
-      { type: 'Secret', pattern: /secret['":\s]*[=:]\s*['"]?[A-Za-z0-9_-]{20,}['"]?/gi },
-      { type: 'Password', pattern: /password['":\s]*[=:]\s*['"]?[^\s'"]{8,}['"]?/gi },
-      { type: 'Bearer Token', pattern: /bearer\s+[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/gi },
-
-      // Database URLs with passwords
-      { type: 'Database URL', pattern: /(postgres|mysql|mongodb):\/\/[^:]+:[^@]+@/gi },
-    ];
-
-    // Only scan added lines (lines starting with +)
-    const addedLines = content.split('\n')
-      .filter(line => line.startsWith('+') && !line.startsWith('+++'))
-      .join('\n');
-
-    for (const { type, pattern } of secretPatterns) {
-      const matches = addedLines.match(pattern);
-      if (matches) {
-        for (const match of matches) {
-          // Avoid false positives for common placeholders
-          if (!this.isPlaceholder(match)) {
-            secrets.push({ type, match });
-          }
-        }
-      }
-    }
-
-    return secrets;
-  }
-
-  private isPlaceholder(value: string): boolean {
-    const placeholders = [
-      /^your[_-]?/i,
-      /^my[_-]?/i,
-      /^xxx+$/i,
-      /^placeholder$/i,
-      /^example$/i,
-      /^test$/i,
-      /^fake$/i,
-      /^dummy$/i,
-      /^<[^>]+>$/,
-      /^\$\{[^}]+\}$/,
-      /^\{\{[^}]+\}\}$/,
-    ];
-
-    return placeholders.some(p => p.test(value));
-  }
 }
@@ -6,6 +6,9 @@ import { getPrisma } from '@arch-orchestrator/db';
 import { createHash } from 'crypto';
 import {
   RunRecorder,
+  RepoIndexer,
+  VectorStore,
+  createEmbeddingProvider,
   type GitHubClient,
   LLMRunner,
   createProviderWithFallback,
@@ -17,6 +20,20 @@ import {
   buildRetryPrompt,
   generateUnifiedDiff,
   generateReplaceActionDiff,
+  formatCodeIndexOverview,
+  formatFileRelations,
+  findImports,
+  findImporters,
+  type CodeIndex,
+  DEFAULT_TOKEN_BUDGET,
+  type TokenBudget,
+  contextTokenBudget,
+  estimateTokens,
+  packContext,
+  packManifest,
+  type ContextPackManifest,
+  type FileOutliner,
+  type PackedFile,
 } from '@arch-orchestrator/core';
 import { GITHUB_CLIENT_TOKEN } from '../constants';
 
@@ -40,6 +57,8 @@ interface RepoContext {
   // Context audit trail
   storedContextId?: string;
   storedContextSha?: string;
+  // Symbol table and import graph at baseSha
+  codeIndex?: CodeIndex;
 }
 
 interface FileChange {
@@ -64,12 +83,19 @@ interface PatchResult {
   patchDiff: string;
   files: Array<{ path: string; additions: number; deletions: number }>;
   addsTests: boolean;
+  contextPack?: ContextPackManifest; // which files pass 2 saw in full, outlined or not at all
 }
 
+/** Import neighbours of the planned files offered to the context packer */
+const MAX_RELATED_FILES = 8;
+/** System prompt, per-file headers and estimation slack on top of the measured pass-2 prompt */
+const PASS2_PROMPT_OVERHEAD_TOKENS = 2000;
+
 @Processor('ingest_context')
 export class IngestContextProcessor extends WorkerHost {
   private prisma = getPrisma();
   private runRecorder = new RunRecorder(this.prisma);
+  private vectorStore = new VectorStore(this.prisma, createEmbeddingProvider());
   private readonly logger = new Logger(IngestContextProcessor.name);
 
   constructor(
@@ -134,6 +160,7 @@ export class IngestContextProcessor extends WorkerHost {
     });
 
     const patchSetIds: string[] = [];
+    const contextPacks: Record<string, ContextPackManifest> = {};
     const llmProvider = createProviderWithFallback('patches');
 
     try {
@@ -152,7 +179,7 @@ export class IngestContextProcessor extends WorkerHost {
         });
 
         // Generate patch for this repo (multi-file support)
-        const { patchTitle, patchSummary, patchDiff, files, addsTests } = await this.generatePatch(
+        const { patchTitle, patchSummary, patchDiff, files, addsTests, contextPack } = await this.generatePatch(
           workflowId,
           workflow,
           repoConfig,
@@ -160,6 +187,15 @@ export class IngestContextProcessor extends WorkerHost {
           llmProvider
         );
 
+        // Record what the model saw for this repo
+        if (contextPack) {
+          contextPacks[`${repoOwner}/${repoName}`] = contextPack;
+          await this.runRecorder.recordInputs({
+            runId,
+            inputs: { contextPacks: JSON.parse(JSON.stringify(contextPacks)) }
+          });
+        }
+
         // Create PatchSet for this repo (with context audit trail)
         const patchSet = await this.prisma.patchSet.create({
           data: {
@@ -326,6 +362,17 @@ export class IngestContextProcessor extends WorkerHost {
       this.logger.warn(`${owner}/${repo}: Failed to fetch tree: ${err}`);
     }
 
+    // Index symbols and imports; only files whose blobs changed are fetched
+    let codeIndex: CodeIndex | undefined;
+    try {
+      const indexer = new RepoIndexer(this.prisma, this.github);
+      const result = await indexer.indexRepo({ repoOwner: owner, repoName: repo, baseBranch, baseSha });
+      codeIndex = result.index;
+      this.logger.log(`${owner}/${repo}: Code index has ${Object.keys(codeIndex.files).length} modules (${result.parsedFiles} parsed, ${result.reusedFiles} reused)`);
+    } catch (err) {
+      this.logger.warn(`${owner}/${repo}: Failed to index code: ${err}`);
+    }
+
     // Check for stored project context first
     let storedContextSummary: string | undefined;
     let storedContextContent: string | undefined;
@@ -383,7 +430,8 @@ export class IngestContextProcessor extends WorkerHost {
       storedContextContent,
       storedContextPath,
       storedContextId,
-      storedContextSha
+      storedContextSha,
+      codeIndex
     };
   }
 
@@ -395,13 +443,14 @@ export class IngestContextProcessor extends WorkerHost {
     llmProvider: ReturnType<typeof createProviderWithFallback>
   ): Promise<PatchResult> {
     const { owner: repoOwner, repo: repoName } = repoConfig;
-    const { readmeContent, packageJson, tree, storedContextSummary, storedContextPath, baseSha } = repoContext;
+    const { readmeContent, packageJson, tree, storedContextSummary, storedContextPath, baseSha, codeIndex } = repoContext;
 
     let patchTitle = workflow.goal?.substring(0, 50) || 'Code change';
     let patchSummary = workflow.goal || 'Implement requested changes';
     let patchDiff = '';
     let files: Array<{ path: string; additions: number; deletions: number }> = [];
     let addsTests = false;
+    let contextPack: ContextPackManifest | undefined;
 
     if (process.env.NODE_ENV === 'test' && workflow.context?.includes('[FORCE_PATCH_ERROR]')) {
       throw new Error(`Forced patch validation error for ${repoOwner}/${repoName}`);
@@ -424,7 +473,8 @@ export class IngestContextProcessor extends WorkerHost {
       tree,
       storedContextSummary,
       storedContextPath,
-      approvedArtifacts
+      approvedArtifacts,
+      codeIndex
     );
 
     const pass1Response = await llmRunner.run('coder', pass1Prompt, {
@@ -483,18 +533,59 @@ export class IngestContextProcessor extends WorkerHost {
       // Fetch content for all selected files
       const fileContents = await this.fetchSelectedFiles(patchPlan.files, repoOwner, repoName, baseSha, readmeContent, packageJson);
 
-      // Build Pass 2 prompt with actual file contents
+      // Index fetched files for semantic retrieval (best-effort)
+      try {
+        await this.vectorStore.indexRepoFiles(repoOwner, repoName, fileContents);
+      } catch (err) {
+        this.logger.warn(`Failed to index files for ${repoOwner}/${repoName}: ${err}`);
+      }
+
+      // Pack planned files and their import neighbours into the pass-2 budget
+      const relatedContents = codeIndex
+        ? await this.fetchRelatedFiles(codeIndex, patchPlan.files.map(f => f.path), repoOwner, repoName, baseSha)
+        : new Map<string, string>();
+      const pass2Budget = this.pass2Budget();
+      const skeleton = this.buildPass2Prompt(
+        workflow,
+        repoConfig,
+        patchPlan,
+        [],
+        storedContextSummary,
+        storedContextPath,
+        approvedArtifacts,
+        codeIndex
+      );
+      const packed = await packContext(
+        [
+          ...[...fileContents].map(([path, content]) => ({ path, content, pinned: true })),
+          ...[...relatedContents].map(([path, content]) => ({ path, content }))
+        ],
+        {
+          budgetTokens: contextTokenBudget(pass2Budget, estimateTokens(skeleton) + PASS2_PROMPT_OVERHEAD_TOKENS),
+          query: [workflow.goal, patchPlan.summary, ...patchPlan.files.map(f => f.description)].filter(Boolean).join('\n'),
+          outliner: process.env.CONTEXT_OUTLINER === 'llm' ? this.llmOutliner(llmRunner, workflowId) : undefined
+        }
+      );
+      contextPack = packManifest(packed);
+      this.logger.log(
+        `Pass 2 context for ${repoOwner}/${repoName}: ${contextPack.full.length} full, ${contextPack.outlined.length} outlined, ` +
+        `${contextPack.dropped.length} dropped (${contextPack.usedTokens}/${contextPack.budgetTokens} tokens)`
+      );
+
+      // Build Pass 2 prompt with the packed file contents
       const pass2Prompt = this.buildPass2Prompt(
         workflow,
         repoConfig,
         patchPlan,
-        fileContents,
+        packed.files,
         storedContextSummary,
         storedContextPath,
-        approvedArtifacts
+        approvedArtifacts,
+        codeIndex
       );
 
       const pass2Response = await llmRunner.run('coder', pass2Prompt, {
+        budget: pass2Budget,
         context: { workflowId }
       });
 
@@ -518,6 +609,8 @@ export class IngestContextProcessor extends WorkerHost {
           if (parsed.files && parsed.files.length > 0) {
             const diffs: string[] = [];
             const replaceErrors: string[] = [];
+            // Files pass 2 did not see in full: edits to them would be made blind
+            const notShown = new Map(packed.files.filter(f => f.mode !== 'full').map(f => [f.path, f.mode]));
 
             for (const fileChange of parsed.files) {
               const action = fileChange.action || 'modify';
@@ -526,9 +619,17 @@ export class IngestContextProcessor extends WorkerHost {
 
               // Get file content from our pre-fetched map
               const getFileContent = (path: string): string | null => {
-                return fileContents.get(path) ?? null;
+                return fileContents.get(path) ?? relatedContents.get(path) ?? null;
               };
 
+              // "modify" rewrites the whole file and "replace" needs its exact text
+              const mode = notShown.get(fileChange.path);
+              if (mode && (action === 'modify' || action === 'replace')) {
+                replaceErrors.push(`File '${fileChange.path}' was ${mode} in the prompt, so "${action}" cannot be applied to it`);
+                this.logger.warn(`Rejected ${action} on ${mode} file ${fileChange.path}`);
+                continue;
+              }
+
               // Handle REPLACE action (preferred for existing files)
               if (action === 'replace') {
                 if (!fileChange.find || fileChange.replace === undefined) {
@@ -703,7 +804,7 @@ export class IngestContextProcessor extends WorkerHost {
       }
     }
 
-    return { patchTitle, patchSummary, patchDiff, files, addsTests };
+    return { patchTitle, patchSummary, patchDiff, files, addsTests, contextPack };
   }
 
   /**
@@ -716,7 +817,8 @@ export class IngestContextProcessor extends WorkerHost {
     tree: Array<{ path: string; type: 'blob' | 'tree'; size?: number }>,
     storedContextSummary: string | undefined,
     storedContextPath: string | undefined,
-    approvedArtifacts: { summary: string | null; architecture: string | null; timeline: string | null }
+    approvedArtifacts: { summary: string | null; architecture: string | null; timeline: string | null },
+    codeIndex?: CodeIndex
   ): string {
     const { owner: repoOwner, repo: repoName } = repoConfig;
     const promptParts = [
@@ -803,6 +905,10 @@ export class IngestContextProcessor extends WorkerHost {
       );
     }
 
+    if (codeIndex) {
+      promptParts.push(`## Code Index`, formatCodeIndexOverview(codeIndex), ``);
+    }
+
     promptParts.push(
       `## Instructions`,
       `Identify which files need to be created, modified, or deleted to achieve the goal.`,
@@ -871,16 +977,78 @@ export class IngestContextProcessor extends WorkerHost {
   }
 
   /**
-   * Build Pass 2 prompt with actual file contents.
+   * Fetch modules the planned files import or are imported by, for context.
+   */
+  private async fetchRelatedFiles(
+    codeIndex: CodeIndex,
+    plannedPaths: string[],
+    repoOwner: string,
+    repoName: string,
+    baseSha: string
+  ): Promise<Map<string, string>> {
+    const planned = new Set(plannedPaths);
+    const related = new Set<string>();
+    for (const path of plannedPaths) {
+      for (const neighbour of [...findImports(codeIndex, path), ...findImporters(codeIndex, path)]) {
+        if (!planned.has(neighbour)) related.add(neighbour);
+      }
+    }
+
+    const fileContents = new Map<string, string>();
+    for (const path of [...related].slice(0, MAX_RELATED_FILES)) {
+      try {
+        const content = await this.github.getFileContents({ owner: repoOwner, repo: repoName, path, ref: baseSha });
+        fileContents.set(path, content.content);
+      } catch (err) {
+        this.logger.warn(`Could not fetch related file ${path}: ${err}`);
+      }
+    }
+    return fileContents;
+  }
+
+  /**
+   * Token budget of the Pass 2 call (CONTEXT_MAX_INPUT_TOKENS overrides the input limit).
+   */
+  private pass2Budget(): TokenBudget {
+    const maxInputTokens = parseInt(process.env.CONTEXT_MAX_INPUT_TOKENS || '', 10);
+    return maxInputTokens > 0 ? { ...DEFAULT_TOKEN_BUDGET, maxInputTokens } : DEFAULT_TOKEN_BUDGET;
+  }
+
+  /**
+   * Outlines files with the LLM; falls back to heuristic outlines on failure.
+   */
+  private llmOutliner(llmRunner: LLMRunner, workflowId: string): FileOutliner {
+    return async (path, content) => {
+      const response = await llmRunner.run('documenter', [
+        `Outline the file below for an engineer who will edit related code.`,
+        `List its exported and public declarations with their full signatures, each followed by a one-line description.`,
+        `Do not include function bodies. Respond with the outline only.`,
+        ``,
+        `### ${path}`,
+        '```',
+        content,
+        '```'
+      ].join('\n'), {
+        context: { workflowId }
+      });
+      return response.success && response.rawContent ? response.rawContent.trim() : null;
+    };
+  }
+
+  /**
+   * Build Pass 2 prompt with the packed file contents: full files first,
+   * then signature outlines of files that did not fit and the paths of
+   * dropped files.
    */
   private buildPass2Prompt(
     workflow: { goal: string | null; context: string | null; feedback: string | null },
     repoConfig: RepoConfig,
     patchPlan: PatchPlan,
-    fileContents: Map<string, string>,
+    packedFiles: PackedFile[],
     storedContextSummary: string | undefined,
     storedContextPath: string | undefined,
-    approvedArtifacts: { summary: string | null; architecture: string | null; timeline: string | null }
+    approvedArtifacts: { summary: string | null; architecture: string | null; timeline: string | null },
+    codeIndex?: CodeIndex
   ): string {
     const { owner: repoOwner, repo: repoName } = repoConfig;
     const promptParts = [
@@ -895,6 +1063,11 @@ export class IngestContextProcessor extends WorkerHost {
       ``
     );
 
+    // Feedback (e.g. PR review comments with file and line) applies to the edits too
+    if (workflow.feedback) {
+      promptParts.push(`## Previous Feedback (address these issues)`, workflow.feedback, ``);
+    }
+
     // Include architecture for reference
     if (approvedArtifacts.architecture) {
       promptParts.push(
@@ -919,11 +1092,43 @@ export class IngestContextProcessor extends WorkerHost {
     }
     promptParts.push(``);
 
+    // Callers and dependencies of the planned files, so edits keep them working
+    const relations = codeIndex ? formatFileRelations(codeIndex, patchPlan.files.map(f => f.path)) : '';
+    if (relations) {
+      promptParts.push(`## Module Relations`, relations, ``);
+    }
+
     // Include actual file contents
     promptParts.push(`## File Contents (current state)`, ``);
-    for (const [path, content] of fileContents) {
-      const ext = path.split('.').pop() || 'txt';
-      promptParts.push(`### ${path}`, '```' + ext, content, '```', ``);
+    for (const file of packedFiles.filter(f => f.mode === 'full')) {
+      const ext = file.path.split('.').pop() || 'txt';
+      const label = file.pinned ? '' : ' (related, for reference)';
+      promptParts.push(`### ${file.path}${label}`, '```' + ext, file.content, '```', ``);
+    }
+
+    // Files that did not fit in full; "replace" and "modify" on them are rejected
+    const outlined = packedFiles.filter(f => f.mode === 'outline');
+    if (outlined.length > 0) {
+      promptParts.push(
+        `## File Outlines (signatures only, bodies omitted to fit the context budget)`,
+        `Do not use "replace" or "modify" on these files; their exact contents are not shown.`,
+        ``
+      );
+      for (const file of outlined) {
+        const ext = file.path.split('.').pop() || 'txt';
+        const label = file.pinned ? '' : ' (related, for reference)';
+        promptParts.push(`### ${file.path}${label}`, '```' + ext, file.content, '```', ``);
+      }
+    }
+
+    const dropped = packedFiles.filter(f => f.mode === 'dropped');
+    if (dropped.length > 0) {
+      promptParts.push(
+        `## Files Not Shown (over the context budget)`,
+        `Do not use "replace" or "modify" on these files:`,
+        ...dropped.map(f => `- ${f.path}`),
+        ``
+      );
     }
 
     promptParts.push(
@@ -0,0 +1,54 @@
+import { Inject, Logger } from '@nestjs/common';
+import { Processor, WorkerHost, InjectQueue } from '@nestjs/bullmq';
+import type { Job, Queue } from 'bullmq';
+import { getPrisma } from '@arch-orchestrator/db';
+import { createWorkflowFromIssue, type ScmClientRegistry, type IssueIntakeInput } from '@arch-orchestrator/core';
+import { SCM_CLIENTS_TOKEN } from '../constants';
+
+/**
+ * Creates workflows for issues labeled for the orchestrator.
+ * The API enqueues the labeled issue; this processor reads its comments,
+ * creates the workflow, starts it and acknowledges on the issue.
+ */
+@Processor('issues')
+export class IssueIntakeProcessor extends WorkerHost {
+  private prisma = getPrisma();
+  private readonly logger = new Logger(IssueIntakeProcessor.name);
+
+  constructor(
+    @Inject(SCM_CLIENTS_TOKEN) private readonly scm: ScmClientRegistry,
+    @InjectQueue('orchestrate') private readonly orchestrateQueue: Queue,
+    @InjectQueue('comments') private readonly commentsQueue: Queue
+  ) {
+    super();
+  }
+
+  async process(job: Job<IssueIntakeInput>) {
+    const issue = job.data;
+    const client = this.scm.forProvider(issue.provider);
+
+    const { workflowId, created } = await createWorkflowFromIssue(this.prisma, client, issue);
+    if (!created) {
+      this.logger.log(`Issue ${issue.owner}/${issue.repo}#${issue.number} already has workflow ${workflowId}`);
+      return { workflowId, created };
+    }
+
+    this.logger.log(`Created workflow ${workflowId} from issue ${issue.owner}/${issue.repo}#${issue.number}`);
+
+    // Emit event to orchestrator to start feasibility analysis
+    await this.orchestrateQueue.add('orchestrate', {
+      workflowId,
+      event: { type: 'E_WORKFLOW_CREATED' }
+    });
+
+    await this.commentsQueue.add('post_comment', {
+      workflowId,
+      owner: issue.owner,
+      repo: issue.repo,
+      issueNumber: issue.number,
+      body: `Started orchestrator workflow \`${workflowId}\`. Progress will be posted here; comment \`/orchestrator status\` at any time.`
+    });
+
+    return { workflowId, created };
+  }
+}
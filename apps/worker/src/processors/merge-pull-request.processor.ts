@@ -0,0 +1,70 @@
+import { Inject, Logger } from '@nestjs/common';
+import { Processor, WorkerHost, InjectQueue } from '@nestjs/bullmq';
+import type { Job, Queue } from 'bullmq';
+import { getPrisma } from '@arch-orchestrator/db';
+import { PullRequestMerger, type ScmClientRegistry } from '@arch-orchestrator/core';
+import { SCM_CLIENTS_TOKEN } from '../constants';
+
+/**
+ * Post-Gate3 merge stage: enables auto-merge on, or enqueues, the workflow's
+ * PRs through WriteGate. The merge result usually arrives later through
+ * pull_request webhooks.
+ */
+@Processor('merge')
+export class MergePullRequestProcessor extends WorkerHost {
+  private prisma = getPrisma();
+  private readonly logger = new Logger(MergePullRequestProcessor.name);
+  private readonly merger: PullRequestMerger;
+
+  constructor(
+    @Inject(SCM_CLIENTS_TOKEN) scm: ScmClientRegistry,
+    @InjectQueue('orchestrate') private readonly orchestrateQueue: Queue
+  ) {
+    super();
+    this.merger = new PullRequestMerger(this.prisma, scm);
+  }
+
+  async process(job: Job<{ workflowId: string }>) {
+    const { workflowId } = job.data;
+
+    try {
+      const result = await this.merger.merge(workflowId);
+      for (const pr of result.prs) {
+        this.logger.log(`PR #${pr.prNumber} in ${pr.owner}/${pr.repo}: ${pr.status} (${pr.mode}, ${pr.mergeMethod})`);
+      }
+
+      await this.orchestrateQueue.add('orchestrate', {
+        workflowId,
+        event: {
+          type: 'E_JOB_COMPLETED',
+          stage: 'merge',
+          result: { merged: result.merged, prs: result.prs }
+        }
+      });
+
+      return { ok: true, merged: result.merged };
+    } catch (err: any) {
+      const errorMsg = String(err?.message ?? err);
+      this.logger.error(`Failed to merge PRs for workflow ${workflowId}: ${errorMsg}`);
+
+      await this.prisma.workflowEvent.create({
+        data: {
+          workflowId,
+          type: 'worker.merge.failed',
+          payload: { error: errorMsg }
+        }
+      });
+
+      await this.orchestrateQueue.add('orchestrate', {
+        workflowId,
+        event: {
+          type: 'E_JOB_FAILED',
+          stage: 'merge',
+          error: errorMsg
+        }
+      });
+
+      return { ok: false, error: errorMsg };
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { Inject, Logger } from '@nestjs/common';
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import type { Job } from 'bullmq';
+import { getPrisma } from '@arch-orchestrator/db';
+import type { ScmClientRegistry } from '@arch-orchestrator/core';
+import { SCM_CLIENTS_TOKEN } from '../constants';
+
+interface PostCommentJobData {
+  workflowId: string;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  pullRequest?: boolean;
+  body: string;
+}
+
+/**
+ * Posts status comments (ChatOps replies) on issues and pull requests.
+ * The API has no SCM client, so it enqueues the comment here.
+ */
+@Processor('comments')
+export class PostCommentProcessor extends WorkerHost {
+  private prisma = getPrisma();
+  private readonly logger = new Logger(PostCommentProcessor.name);
+
+  constructor(
+    @Inject(SCM_CLIENTS_TOKEN) private readonly scm: ScmClientRegistry
+  ) {
+    super();
+  }
+
+  async process(job: Job<PostCommentJobData>) {
+    const { workflowId, owner, repo, issueNumber, pullRequest, body } = job.data;
+
+    // The repository's provider selects the client (GitHub by default)
+    const workflowRepo = await this.prisma.workflowRepo.findFirst({
+      where: { workflowId, owner, repo }
+    });
+    const client = this.scm.forProvider(workflowRepo?.provider);
+
+    const comment = await client.createIssueComment({ owner, repo, issueNumber, body, pullRequest });
+    this.logger.log(`Posted comment ${comment.id} on ${owner}/${repo}#${issueNumber}`);
+
+    await this.prisma.workflowEvent.create({
+      data: {
+        workflowId,
+        type: 'comment.posted',
+        payload: { owner, repo, issueNumber, commentId: comment.id, url: comment.url ?? null }
+      }
+    });
+
+    return { commentId: comment.id, url: comment.url };
+  }
+}
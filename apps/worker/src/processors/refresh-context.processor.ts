@@ -5,6 +5,7 @@ import { getPrisma } from '@arch-orchestrator/db';
 import {
   type GitHubClient,
   LLMRunner,
+  RepoIndexer,
   createProviderWithFallback,
 } from '@arch-orchestrator/core';
 import { GITHUB_CLIENT_TOKEN } from '../constants';
@@ -236,6 +237,17 @@ Format it as a proper markdown document. Be specific and accurate based on the f
 
       this.logger.log(`Context refreshed for ${repoOwner}/${repoName}: ${contextPath ? 'found' : 'no context file'}`);
 
+      // Rebuild the code index (symbols and import graph); best-effort
+      let indexedModules: number | null = null;
+      try {
+        const indexer = new RepoIndexer(this.prisma, this.github);
+        const result = await indexer.indexRepo({ repoOwner, repoName, baseBranch, baseSha });
+        indexedModules = Object.keys(result.index.files).length;
+        this.logger.log(`${repoOwner}/${repoName}: Indexed ${indexedModules} modules (${result.parsedFiles} parsed, ${result.reusedFiles} reused)`);
+      } catch (err) {
+        this.logger.warn(`${repoOwner}/${repoName}: Failed to index code: ${err}`);
+      }
+
       if (workflowId) {
         await this.prisma.workflowEvent.create({
           data: {
@@ -248,7 +260,8 @@ Format it as a proper markdown document. Be specific and accurate based on the f
               contextPath,
               baseSha,
               hasContent: !!content,
-              hasSummary: !!summary
+              hasSummary: !!summary,
+              indexedModules
             }
           }
         });
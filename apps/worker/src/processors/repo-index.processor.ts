@@ -0,0 +1,56 @@
+import { Inject, Logger } from '@nestjs/common';
+import { Processor, WorkerHost, InjectQueue } from '@nestjs/bullmq';
+import type { Job, Queue } from 'bullmq';
+import { getPrisma } from '@arch-orchestrator/db';
+import { refreshRepoIndexOnPush, type BasePush, type GitHubClient } from '@arch-orchestrator/core';
+import { GITHUB_CLIENT_TOKEN } from '../constants';
+
+/**
+ * Re-indexes a tracked base branch after a push.
+ * The API marks the RepoContext stale and enqueues the push; this processor
+ * re-indexes the changed files, records base drift on in-flight workflows
+ * and, when the context document itself changed, queues a context refresh.
+ */
+@Processor('repo_index')
+export class RepoIndexProcessor extends WorkerHost {
+  private prisma = getPrisma();
+  private readonly logger = new Logger(RepoIndexProcessor.name);
+
+  constructor(
+    @Inject(GITHUB_CLIENT_TOKEN) private readonly github: GitHubClient,
+    @InjectQueue('refresh_context') private readonly refreshContextQueue: Queue
+  ) {
+    super();
+  }
+
+  async process(job: Job<BasePush>) {
+    const push = job.data;
+    const repo = `${push.repoOwner}/${push.repoName}@${push.baseBranch}`;
+
+    const result = await refreshRepoIndexOnPush(this.prisma, this.github, push);
+    if (!result.applied) {
+      this.logger.log(`${repo}: skipped push ${push.beforeSha.slice(0, 7)}..${push.afterSha.slice(0, 7)}, the context is at another commit`);
+      return { skipped: true };
+    }
+    const changed = result.changes.added.length + result.changes.modified.length + result.changes.removed.length;
+    this.logger.log(
+      `${repo}: ${changed} files changed ${push.beforeSha.slice(0, 7)}..${push.afterSha.slice(0, 7)}, ` +
+      `${result.parsedFiles} re-indexed, drift on ${result.drift.length} workflow(s)`
+    );
+
+    if (result.contextChanged) {
+      await this.refreshContextQueue.add('refresh_context', {
+        repoOwner: push.repoOwner,
+        repoName: push.repoName,
+        baseBranch: push.baseBranch
+      });
+    }
+
+    return {
+      changedFiles: changed,
+      parsedFiles: result.parsedFiles,
+      contextChanged: result.contextChanged,
+      driftedWorkflows: result.drift.map(d => d.workflowId)
+    };
+  }
+}
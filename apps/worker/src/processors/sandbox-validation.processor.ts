@@ -4,8 +4,21 @@ import { InjectQueue } from '@nestjs/bullmq';
 import type { Job, Queue } from 'bullmq';
 import { getPrisma } from '@arch-orchestrator/db';
 import { createHash } from 'crypto';
-import { WriteGate, RunRecorder, PatchApplicator, type GitHubClient } from '@arch-orchestrator/core';
-import { GITHUB_CLIENT_TOKEN } from '../constants';
+import {
+  WriteGate,
+  RunRecorder,
+  PatchApplicator,
+  CIReportService,
+  formatFailedTest,
+  formatFinding,
+  loadRepoPolicy,
+  type CIReportV1,
+  type GitHubClient,
+  type PolicyRuleRegistry,
+  type ScmClientRegistry
+} from '@arch-orchestrator/core';
+import { POLICY_RULES_TOKEN, SCM_CLIENTS_TOKEN } from '../constants';
+import { ORG_POLICY_DEFAULTS } from './evaluate-policy.processor';
 
 interface SandboxJobData {
   workflowId: string;
@@ -29,6 +42,9 @@ type SandboxResult = {
   failedJobs?: FailedJobSummary[];
   failedSteps?: FailedStepSummary[];
   errorSummary?: string;
+  failedTests?: string[];
+  coverageDeltaPct?: number | null;
+  newFindings?: string[];
 };
 
 type FailedStepSummary = {
@@ -54,7 +70,8 @@ export class SandboxValidationProcessor extends WorkerHost {
   private readonly logger = new Logger(SandboxValidationProcessor.name);
 
   constructor(
-    @Inject(GITHUB_CLIENT_TOKEN) private readonly github: GitHubClient,
+    @Inject(SCM_CLIENTS_TOKEN) private readonly scm: ScmClientRegistry,
+    @Inject(POLICY_RULES_TOKEN) private readonly policyRules: PolicyRuleRegistry,
     @InjectQueue('orchestrate') private readonly orchestrateQueue: Queue
   ) {
     super();
@@ -160,10 +177,15 @@ export class SandboxValidationProcessor extends WorkerHost {
       }
     });
 
-    const writeGate = new WriteGate(this.prisma, this.github);
-    const patchApplicator = new PatchApplicator(this.prisma, writeGate);
-
     try {
+      const github = this.scm.forProvider(matchingRepo?.provider);
+      const writeGate = new WriteGate(this.prisma, github);
+      const patchApplicator = new PatchApplicator(this.prisma, writeGate, {
+        commitStrategy: process.env.PATCH_COMMIT_STRATEGY === 'per_patchset' ? 'per_patchset' : 'per_patch',
+        loadPolicy: ref => loadRepoPolicy(github, { owner: repoOwner, repo: repoName, ref }, ORG_POLICY_DEFAULTS),
+        policyRules: this.policyRules
+      });
+
       // Validate patches BEFORE applying (equivalent to git apply --check)
       this.logger.log(`Validating patches for ${repoOwner}/${repoName} against ${patchSet.baseSha}...`);
 
@@ -218,9 +240,19 @@ export class SandboxValidationProcessor extends WorkerHost {
         throw new Error(applyResult.error || 'Failed to apply patches to sandbox branch');
       }
 
+      if (applyResult.rebase) {
+        await this.prisma.workflowEvent.create({
+          data: {
+            workflowId,
+            type: 'worker.sandbox.rebased',
+            payload: { patchSetId, ...applyResult.rebase }
+          }
+        });
+      }
+
       this.logger.log(`Dispatching workflow ${sandboxWorkflowId} for ${repoOwner}/${repoName} on ${branchName}`);
 
-      await this.github.dispatchWorkflow({
+      await github.dispatchWorkflow({
         owner: repoOwner,
         repo: repoName,
         workflowId: sandboxWorkflowId,
@@ -232,6 +264,7 @@ export class SandboxValidationProcessor extends WorkerHost {
       });
 
       const run = await this.waitForRun({
+        github,
         owner: repoOwner,
         repo: repoName,
         workflowId: sandboxWorkflowId,
@@ -248,12 +281,27 @@ export class SandboxValidationProcessor extends WorkerHost {
 
       const failureDetails = run.id
         ? await this.collectJobFailures({
+            github,
             owner: repoOwner,
             repo: repoName,
             runId: run.id
           })
         : null;
 
+      const ciReport = run.id
+        ? await this.ingestCIReport({
+            github,
+            workflowId,
+            owner: repoOwner,
+            repo: repoName,
+            runId: run.id,
+            headSha: run.headSha,
+            path: `.ai/CI-REPORT-${patchSetId}.json`
+          })
+        : null;
+      const failedTests = ciReport?.tests?.failures.map(formatFailedTest);
+      const newFindings = ciReport?.findings?.newFindings.map(formatFinding);
+
       const artifact: SandboxResult = {
         kind: 'SandboxResultV1',
         status,
@@ -270,7 +318,10 @@ export class SandboxValidationProcessor extends WorkerHost {
         commitShas: applyResult.commitShas,
         failedJobs: failureDetails?.failedJobs,
         failedSteps: failureDetails?.failedSteps,
-        errorSummary: failureDetails?.errorSummary
+        errorSummary: failureDetails?.errorSummary,
+        failedTests,
+        coverageDeltaPct: ciReport?.coverage?.deltaPct,
+        newFindings
       };
 
       const artifactContent = JSON.stringify(artifact, null, 2);
@@ -305,7 +356,10 @@ export class SandboxValidationProcessor extends WorkerHost {
           logsUrl: run.logsUrl,
           errorSummary: failureDetails?.errorSummary,
           failedJobs: failureDetails?.failedJobs,
-          failedSteps: failureDetails?.failedSteps
+          failedSteps: failureDetails?.failedSteps,
+          failedTests,
+          coverageDeltaPct: ciReport?.coverage?.deltaPct,
+          newFindings
         });
       }
 
@@ -404,6 +458,7 @@ export class SandboxValidationProcessor extends WorkerHost {
   }
 
   private async waitForRun(params: {
+    github: GitHubClient;
     owner: string;
     repo: string;
     workflowId: string;
@@ -414,7 +469,7 @@ export class SandboxValidationProcessor extends WorkerHost {
     const deadline = Date.now() + params.timeoutMs;
 
     while (Date.now() < deadline) {
-      const list = await this.github.listWorkflowRuns({
+      const list = await params.github.listWorkflowRuns({
         owner: params.owner,
         repo: params.repo,
         workflowId: params.workflowId,
@@ -430,7 +485,7 @@ export class SandboxValidationProcessor extends WorkerHost {
         }
 
         if (run.id) {
-          const detail = await this.github.getWorkflowRun({
+          const detail = await params.github.getWorkflowRun({
             owner: params.owner,
             repo: params.repo,
             runId: run.id
@@ -448,9 +503,9 @@ export class SandboxValidationProcessor extends WorkerHost {
     throw new Error('Sandbox validation timed out');
   }
 
-  private async collectJobFailures(params: { owner: string; repo: string; runId: number }) {
+  private async collectJobFailures(params: { github: GitHubClient; owner: string; repo: string; runId: number }) {
     try {
-      const jobsList = await this.github.getWorkflowRunJobs({
+      const jobsList = await params.github.getWorkflowRunJobs({
         owner: params.owner,
         repo: params.repo,
         runId: params.runId,
@@ -511,6 +566,24 @@ export class SandboxValidationProcessor extends WorkerHost {
     }
   }
 
+  private async ingestCIReport(params: {
+    github: GitHubClient;
+    workflowId: string;
+    owner: string;
+    repo: string;
+    runId: number;
+    headSha?: string;
+    path: string;
+  }): Promise<CIReportV1 | null> {
+    try {
+      const { github, ...input } = params;
+      return await new CIReportService(this.prisma, github).ingest(input);
+    } catch (error: any) {
+      this.logger.warn(`Failed to ingest CI reports: ${error?.message ?? error}`);
+      return null;
+    }
+  }
+
   private async appendSandboxFeedbackToDecision(params: {
     workflowId: string;
     patchSetId: string;
@@ -523,6 +596,9 @@ export class SandboxValidationProcessor extends WorkerHost {
     errorSummary?: string;
     failedJobs?: FailedJobSummary[];
     failedSteps?: FailedStepSummary[];
+    failedTests?: string[];
+    coverageDeltaPct?: number | null;
+    newFindings?: string[];
   }) {
     const existingDecision = await this.prisma.artifact.findFirst({
       where: { workflowId: params.workflowId, kind: 'DecisionV1' },
@@ -576,6 +652,30 @@ export class SandboxValidationProcessor extends WorkerHost {
       }
     }
 
+    if (params.failedTests && params.failedTests.length > 0) {
+      lines.push('', '### Failed Tests');
+      for (const test of params.failedTests.slice(0, 10)) {
+        lines.push(`- ${test}`);
+      }
+      if (params.failedTests.length > 10) {
+        lines.push(`- ...and ${params.failedTests.length - 10} more`);
+      }
+    }
+
+    if (params.coverageDeltaPct !== undefined && params.coverageDeltaPct !== null) {
+      lines.push('', `- Coverage change: ${params.coverageDeltaPct >= 0 ? '+' : ''}${params.coverageDeltaPct}%`);
+    }
+
+    if (params.newFindings && params.newFindings.length > 0) {
+      lines.push('', '### New Static-Analysis Findings');
+      for (const finding of params.newFindings.slice(0, 10)) {
+        lines.push(`- ${finding}`);
+      }
+      if (params.newFindings.length > 10) {
+        lines.push(`- ...and ${params.newFindings.length - 10} more`);
+      }
+    }
+
     lines.push('', `- Generated: ${new Date().toISOString()}`);
 
     const newContent = `${existingDecision.content.trim()}\n\n${lines.join('\n')}\n`;
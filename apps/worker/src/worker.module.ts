@@ -8,24 +8,50 @@ import { SummaryAnalysisProcessor } from './processors/summary-analysis.processo
 import { SandboxValidationProcessor } from './processors/sandbox-validation.processor';
 import { OrchestrateProcessor } from './processors/orchestrate.processor';
 import { RefreshContextProcessor } from './processors/refresh-context.processor';
+import { RepoIndexProcessor } from './processors/repo-index.processor';
+import { PostCommentProcessor } from './processors/post-comment.processor';
+import { IssueIntakeProcessor } from './processors/issue-intake.processor';
+import { CIPollProcessor } from './processors/ci-poll.processor';
+import { CIResultProcessor } from './processors/ci-result.processor';
+import { MergePullRequestProcessor } from './processors/merge-pull-request.processor';
 import { FeasibilityAnalysisProcessor } from './processors/feasibility-analysis.processor';
 import { ArchitectureAnalysisProcessor } from './processors/architecture-analysis.processor';
 import { TimelineAnalysisProcessor } from './processors/timeline-analysis.processor';
 import { OrchestratorService } from './orchestrator/orchestrator.service';
 import {
   StubGitHubClient,
+  LocalGitClient,
+  GitLabScmClient,
+  ScmClientRegistry,
+  PolicyRuleRegistry,
+  DependencyAdvisoryRule,
+  loadAdvisoryDatabase,
   type GitHubClient,
   type WorkflowRunInfo,
   type WorkflowRunList,
   type WorkflowRunJobsList,
   type WorkflowRunJob,
-  type WorkflowRunJobStep
+  type WorkflowRunJobStep,
+  type CheckRunList,
+  type CheckRunInfo,
+  type WorkflowRunArtifact,
+  type WorkflowRunArtifactList,
+  type CommitInfo,
+  type CreateBlobParams,
+  type CreateTreeParams,
+  type CreateCommitParams,
+  type UpdateRefParams,
+  type MergePullRequestParams,
+  type MergePullRequestResult,
+  DEFAULT_ARTIFACT_MAX_FILE_BYTES,
+  readZipEntries
 } from '@arch-orchestrator/core';
 import { Octokit } from '@octokit/rest';
-import { GITHUB_CLIENT_TOKEN } from './constants';
+import { GITHUB_CLIENT_TOKEN, POLICY_RULES_TOKEN, SCM_CLIENTS_TOKEN } from './constants';
 
 // Simple inline implementation to avoid ESM import issues
 class TokenGitHubClient implements GitHubClient {
+  readonly provider = 'github' as const;
   private readonly octokit: Octokit;
 
   constructor(token: string) {
@@ -91,6 +117,21 @@ class TokenGitHubClient implements GitHubClient {
     };
   }
 
+  async getCommit(params: { owner: string; repo: string; sha: string }): Promise<CommitInfo> {
+    const { data } = await this.octokit.git.getCommit({
+      owner: params.owner,
+      repo: params.repo,
+      commit_sha: params.sha
+    });
+
+    return {
+      sha: data.sha,
+      treeSha: data.tree.sha,
+      parents: data.parents.map(parent => parent.sha),
+      message: data.message
+    };
+  }
+
   async dispatchWorkflow(params: { owner: string; repo: string; workflowId: string; ref: string; inputs?: Record<string, string> }) {
     await this.octokit.request('POST /repos/{owner}/{repo}/actions/workflows/{workflow_id}/dispatches', {
       owner: params.owner,
@@ -199,6 +240,123 @@ class TokenGitHubClient implements GitHubClient {
     };
   }
 
+  async listCheckRuns(params: { owner: string; repo: string; ref: string; perPage?: number }): Promise<CheckRunList> {
+    const { data } = await this.octokit.request('GET /repos/{owner}/{repo}/commits/{ref}/check-runs', {
+      owner: params.owner,
+      repo: params.repo,
+      ref: params.ref,
+      per_page: params.perPage ?? 100
+    });
+
+    const checkRuns = data.check_runs.map((run: any): CheckRunInfo => ({
+      id: run.id,
+      name: run.name,
+      status: run.status as CheckRunInfo['status'],
+      conclusion: run.conclusion as CheckRunInfo['conclusion'],
+      htmlUrl: run.html_url,
+      appSlug: run.app?.slug,
+      startedAt: run.started_at ?? undefined,
+      completedAt: run.completed_at ?? undefined
+    }));
+
+    return {
+      totalCount: data.total_count ?? checkRuns.length,
+      checkRuns
+    };
+  }
+
+  async downloadWorkflowRunArtifacts(params: { owner: string; repo: string; runId: number; names?: string[]; maxFileBytes?: number }): Promise<WorkflowRunArtifactList> {
+    const { data } = await this.octokit.request('GET /repos/{owner}/{repo}/actions/runs/{run_id}/artifacts', {
+      owner: params.owner,
+      repo: params.repo,
+      run_id: params.runId,
+      per_page: 100
+    });
+
+    const maxFileBytes = params.maxFileBytes ?? DEFAULT_ARTIFACT_MAX_FILE_BYTES;
+    const listed = data.artifacts.filter((artifact: any) =>
+      !artifact.expired && (!params.names || params.names.includes(artifact.name))
+    );
+
+    const artifacts: WorkflowRunArtifact[] = [];
+    for (const artifact of listed) {
+      // Served as a ZIP archive
+      const { data: archive } = await this.octokit.request(
+        'GET /repos/{owner}/{repo}/actions/artifacts/{artifact_id}/{archive_format}',
+        { owner: params.owner, repo: params.repo, artifact_id: artifact.id, archive_format: 'zip' }
+      );
+      artifacts.push({
+        id: artifact.id,
+        name: artifact.name,
+        sizeInBytes: artifact.size_in_bytes,
+        files: readZipEntries(Buffer.from(archive as ArrayBuffer), maxFileBytes).map(entry => ({
+          path: entry.path,
+          content: entry.data.toString('utf8')
+        }))
+      });
+    }
+
+    return { totalCount: artifacts.length, artifacts };
+  }
+
+  async createBlob(params: CreateBlobParams) {
+    const { data } = await this.octokit.git.createBlob({
+      owner: params.owner,
+      repo: params.repo,
+      content: params.content,
+      encoding: params.encoding
+    });
+
+    return { sha: data.sha };
+  }
+
+  async createTree(params: CreateTreeParams) {
+    const { data } = await this.octokit.git.createTree({
+      owner: params.owner,
+      repo: params.repo,
+      base_tree: params.baseTree,
+      tree: params.entries.map(entry => ({
+        path: entry.path,
+        mode: entry.mode,
+        type: 'blob' as const,
+        sha: entry.sha
+      }))
+    });
+
+    return { sha: data.sha };
+  }
+
+  async createCommit(params: CreateCommitParams) {
+    const { data } = await this.octokit.git.createCommit({
+      owner: params.owner,
+      repo: params.repo,
+      message: params.message,
+      tree: params.tree,
+      parents: params.parents
+    });
+
+    return {
+      sha: data.sha,
+      message: data.message,
+      url: data.html_url
+    };
+  }
+
+  async updateRef(params: UpdateRefParams) {
+    const { data } = await this.octokit.git.updateRef({
+      owner: params.owner,
+      repo: params.repo,
+      ref: `heads/${params.branch}`,
+      sha: params.sha,
+      force: params.force ?? false
+    });
+
+    return {
+      ref: data.ref,
+      sha: data.object.sha
+    };
+  }
+
   async createBranch(params: { owner: string; repo: string; branch: string; sha: string }) {
     const { data } = await this.octokit.git.createRef({
       owner: params.owner,
@@ -240,15 +398,100 @@ class TokenGitHubClient implements GitHubClient {
     };
   }
 
+  async listIssueComments(params: { owner: string; repo: string; issueNumber: number }) {
+    const { data } = await this.octokit.issues.listComments({
+      owner: params.owner,
+      repo: params.repo,
+      issue_number: params.issueNumber,
+      per_page: 100
+    });
+    return data.map(comment => ({
+      id: comment.id,
+      body: comment.body ?? '',
+      author: comment.user?.login,
+      bot: comment.user?.type === 'Bot',
+      createdAt: comment.created_at
+    }));
+  }
+
+  async createIssueComment(params: { owner: string; repo: string; issueNumber: number; body: string }) {
+    const { data } = await this.octokit.issues.createComment({
+      owner: params.owner,
+      repo: params.repo,
+      issue_number: params.issueNumber,
+      body: params.body
+    });
+    return { id: data.id, url: data.html_url };
+  }
+
   async openPullRequest(params: { owner: string; repo: string; head: string; base: string; title: string; body?: string }) {
     const { data } = await this.octokit.pulls.create(params);
     return { url: data.html_url, number: data.number };
   }
+
+  async mergePullRequest(params: MergePullRequestParams): Promise<MergePullRequestResult> {
+    const { data: pr } = await this.octokit.pulls.get({
+      owner: params.owner,
+      repo: params.repo,
+      pull_number: params.pullNumber
+    });
+    if (pr.merged) {
+      return { status: 'merged', sha: pr.merge_commit_sha ?? undefined };
+    }
+
+    const expectedHeadOid = params.expectedHeadSha ?? pr.head.sha;
+
+    if (params.mode === 'merge_queue') {
+      await this.octokit.graphql(
+        `mutation($pullRequestId: ID!, $expectedHeadOid: GitObjectID) {
+          enqueuePullRequest(input: { pullRequestId: $pullRequestId, expectedHeadOid: $expectedHeadOid }) { mergeQueueEntry { position } }
+        }`,
+        { pullRequestId: pr.node_id, expectedHeadOid }
+      );
+      return { status: 'queued' };
+    }
+
+    try {
+      await this.octokit.graphql(
+        `mutation($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!, $expectedHeadOid: GitObjectID) {
+          enablePullRequestAutoMerge(input: { pullRequestId: $pullRequestId, mergeMethod: $mergeMethod, expectedHeadOid: $expectedHeadOid }) { pullRequest { number } }
+        }`,
+        { pullRequestId: pr.node_id, mergeMethod: params.mergeMethod.toUpperCase(), expectedHeadOid }
+      );
+      return { status: 'auto_merge_enabled' };
+    } catch (err) {
+      // Auto-merge is rejected for PRs that can merge now
+      if (!/clean status/i.test(err instanceof Error ? err.message : String(err))) {
+        throw err;
+      }
+    }
+
+    const { data } = await this.octokit.pulls.merge({
+      owner: params.owner,
+      repo: params.repo,
+      pull_number: params.pullNumber,
+      merge_method: params.mergeMethod,
+      sha: expectedHeadOid
+    });
+    return { status: 'merged', sha: data.sha };
+  }
 }
 
 function createGitHubClient(): GitHubClient {
   const logger = new Logger('GitHubClientFactory');
   const token = process.env.GITHUB_TOKEN;
+  const localReposDir = process.env.GITHUB_LOCAL_REPOS_DIR;
+
+  if (localReposDir) {
+    logger.log(`Using LocalGitClient with repositories in ${localReposDir}`);
+    const conclusion = process.env.GITHUB_LOCAL_RUN_CONCLUSION;
+    return new LocalGitClient({
+      reposDir: localReposDir,
+      remoteUrl: process.env.GITHUB_LOCAL_REMOTE_URL,
+      dispatchConclusion: conclusion === 'success' || conclusion === 'failure' ? conclusion : undefined,
+      runArtifactsDir: process.env.GITHUB_STUB_ARTIFACTS_DIR
+    });
+  }
 
   if (token) {
     logger.log('Using TokenGitHubClient with PAT authentication');
@@ -256,7 +499,52 @@ function createGitHubClient(): GitHubClient {
   }
 
   logger.warn('GITHUB_TOKEN not set, using StubGitHubClient');
-  return new StubGitHubClient();
+  return new StubGitHubClient({ runArtifactsDir: process.env.GITHUB_STUB_ARTIFACTS_DIR });
+}
+
+/**
+ * Clients by WorkflowRepo.provider: the GitHub client above, plus GitLab
+ * when GITLAB_TOKEN is set.
+ */
+function createScmClients(github: GitHubClient): ScmClientRegistry {
+  const logger = new Logger('GitHubClientFactory');
+  const gitlabToken = process.env.GITLAB_TOKEN;
+
+  if (!gitlabToken) {
+    return new ScmClientRegistry({ github });
+  }
+
+  logger.log(`Using GitLabScmClient for GitLab repositories (${process.env.GITLAB_BASE_URL || 'gitlab.com'})`);
+  return new ScmClientRegistry({
+    github,
+    gitlab: new GitLabScmClient({ token: gitlabToken, baseUrl: process.env.GITLAB_BASE_URL || undefined })
+  });
+}
+
+/**
+ * Policy rules every Gate2 evaluation in the worker runs: the license/advisory
+ * rule when ADVISORY_DB_PATH points at a snapshot. Loaded before any
+ * processor starts, so policy evaluation and post-rebase checks agree.
+ */
+async function createPolicyRules(): Promise<PolicyRuleRegistry> {
+  const logger = new Logger('PolicyRulesFactory');
+  const rules = new PolicyRuleRegistry();
+  const snapshotPath = process.env.ADVISORY_DB_PATH;
+
+  if (!snapshotPath) {
+    return rules;
+  }
+
+  try {
+    const db = await loadAdvisoryDatabase(snapshotPath);
+    rules.register(new DependencyAdvisoryRule(db));
+    logger.log(
+      `Loaded advisory snapshot ${snapshotPath} (${db.size} packages, generated ${db.snapshot.generatedAt ?? 'unknown'})`
+    );
+  } catch (err: any) {
+    logger.error(`Failed to load advisory snapshot ${snapshotPath}: ${err?.message ?? err}`);
+  }
+  return rules;
 }
 
 // Default job options for retry with exponential backoff
@@ -301,11 +589,17 @@ const ORCHESTRATE_JOB_OPTIONS = {
     BullModule.registerQueue({ name: 'apply_patches', defaultJobOptions: DEFAULT_JOB_OPTIONS }),
     BullModule.registerQueue({ name: 'evaluate_policy', defaultJobOptions: LLM_JOB_OPTIONS }),
     BullModule.registerQueue({ name: 'refresh_context', defaultJobOptions: LLM_JOB_OPTIONS }),
+    BullModule.registerQueue({ name: 'repo_index', defaultJobOptions: DEFAULT_JOB_OPTIONS }),
     BullModule.registerQueue({ name: 'feasibility', defaultJobOptions: LLM_JOB_OPTIONS }),
     BullModule.registerQueue({ name: 'architecture', defaultJobOptions: LLM_JOB_OPTIONS }),
     BullModule.registerQueue({ name: 'timeline', defaultJobOptions: LLM_JOB_OPTIONS }),
     BullModule.registerQueue({ name: 'summary', defaultJobOptions: LLM_JOB_OPTIONS }),
-    BullModule.registerQueue({ name: 'sandbox', defaultJobOptions: DEFAULT_JOB_OPTIONS })
+    BullModule.registerQueue({ name: 'sandbox', defaultJobOptions: DEFAULT_JOB_OPTIONS }),
+    BullModule.registerQueue({ name: 'merge', defaultJobOptions: DEFAULT_JOB_OPTIONS }),
+    BullModule.registerQueue({ name: 'comments', defaultJobOptions: DEFAULT_JOB_OPTIONS }),
+    BullModule.registerQueue({ name: 'issues', defaultJobOptions: DEFAULT_JOB_OPTIONS }),
+    BullModule.registerQueue({ name: 'ci_poll', defaultJobOptions: DEFAULT_JOB_OPTIONS }),
+    BullModule.registerQueue({ name: 'ci_results', defaultJobOptions: DEFAULT_JOB_OPTIONS })
   ],
   providers: [
     // Orchestrator (Phase 3)
@@ -321,14 +615,31 @@ const ORCHESTRATE_JOB_OPTIONS = {
     ApplyPatchesProcessor,
     EvaluatePolicyProcessor,
     RefreshContextProcessor,
+    RepoIndexProcessor,
     SandboxValidationProcessor,
+    MergePullRequestProcessor,
+    PostCommentProcessor,
+    IssueIntakeProcessor,
+    CIPollProcessor,
+    CIResultProcessor,
 
     // GitHub client - real when GITHUB_TOKEN is set, stub otherwise
     {
       provide: GITHUB_CLIENT_TOKEN,
       useFactory: createGitHubClient
+    },
+    {
+      provide: SCM_CLIENTS_TOKEN,
+      useFactory: createScmClients,
+      inject: [GITHUB_CLIENT_TOKEN]
+    },
+
+    // Gate2 policy rules, including the advisory rule when configured
+    {
+      provide: POLICY_RULES_TOKEN,
+      useFactory: createPolicyRules
     }
   ],
-  exports: [GITHUB_CLIENT_TOKEN]
+  exports: [GITHUB_CLIENT_TOKEN, SCM_CLIENTS_TOKEN]
 })
 export class WorkerModule {}
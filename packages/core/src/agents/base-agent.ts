@@ -19,6 +19,7 @@ import {
   ProposalMetadata,
 } from './types';
 import type { LLMRunner } from '../llm';
+import { matchesAnyGlob } from '../policy/glob';
 
 // ============================================================================
 // Base Agent Class
@@ -218,14 +219,7 @@ export abstract class BaseAgent implements Agent {
    * Check if agent can handle file based on patterns.
    */
   protected canHandleFile(path: string): boolean {
-    return this.capabilities.filePatterns.some(pattern => {
-      const regex = pattern
-        .replace(/\*\*/g, '{{GLOBSTAR}}')
-        .replace(/\*/g, '[^/]*')
-        .replace(/{{GLOBSTAR}}/g, '.*')
-        .replace(/\./g, '\\.');
-      return new RegExp(`^${regex}$`).test(path);
-    });
+    return matchesAnyGlob(path, this.capabilities.filePatterns) !== null;
   }
 
   /**
@@ -0,0 +1,364 @@
+/**
+ * Hunk Merge
+ *
+ * Hunk-level merge of several agents' diffs to the same file. Each agent's
+ * diff is split into changes to base line ranges; changes to disjoint ranges
+ * are combined into one diff, identical changes are taken once, and only
+ * changes whose base ranges genuinely overlap (or two insertions at the same
+ * position) become overlap segments carrying every agent's variant.
+ *
+ * Works from the diffs alone: the base lines an overlap covers are the lines
+ * the agents removed, and context lines come from the agents' hunks.
+ */
+
+import { extractLineChanges } from '../policy/diff-parser';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FileDiffSection {
+  path: string;
+  text: string; // the file's header and hunks
+}
+
+/**
+ * One agent's section of a diff for the file being merged.
+ */
+export interface FileProposal {
+  agentId: string;
+  diff: string;
+}
+
+export interface HunkVariant {
+  agentId: string;
+  lines: string[]; // the agent's version of the segment's removed base lines
+}
+
+/**
+ * A change to the base lines [oldStart, oldStart + removed.length).
+ * Overlap segments list each agent's variant; `added` is the selected one.
+ */
+export interface MergeSegment {
+  oldStart: number; // 1-indexed base line
+  before: string[]; // context lines preceding the change
+  removed: string[];
+  added: string[];
+  after: string[];  // context lines following the change
+  overlap?: {
+    variants: HunkVariant[];
+    selected: string; // agentId of the variant in the merged diff
+  };
+}
+
+export interface MergedFileDiff {
+  path: string;
+  agents: string[];
+  header: string[]; // file header lines of the first proposal
+  segments: MergeSegment[];
+}
+
+export interface RenderedFileDiff {
+  diff: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface MergeFileHunksOptions {
+  prefer?: 'first' | 'last'; // variant selected for overlaps
+  contextLines?: number;
+}
+
+/**
+ * A change to base lines [start, end); an insertion has start === end.
+ */
+interface Change {
+  agentId: string;
+  start: number;
+  end: number;
+  added: string[];
+}
+
+// ============================================================================
+// Diff Sections
+// ============================================================================
+
+/**
+ * Split a multi-file diff into per-file sections. Sections start at a
+ * `diff --git` line, or at a `---`/`+++` header pair outside a git header.
+ */
+export function splitDiffByFile(diff: string): FileDiffSection[] {
+  const lines = diff.split('\n');
+  const sections: FileDiffSection[] = [];
+  let start = -1;
+  let path = '';
+  let inGitHeader = false;
+
+  const flush = (end: number) => {
+    if (start >= 0 && path) {
+      sections.push({ path, text: lines.slice(start, end).join('\n') });
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const gitMatch = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+    if (gitMatch) {
+      flush(i);
+      start = i;
+      path = gitMatch[2];
+      inGitHeader = true;
+      continue;
+    }
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      if (!inGitHeader) {
+        flush(i);
+        start = i;
+        const plus = lines[i + 1].match(/^\+\+\+ (?:b\/)?(.+)$/)?.[1];
+        path = plus && plus !== '/dev/null' ? plus : line.match(/^--- (?:a\/)?(.+)$/)?.[1] ?? '';
+      }
+      inGitHeader = false;
+      i++;
+      continue;
+    }
+    if (line.startsWith('@@')) {
+      inGitHeader = false;
+    }
+  }
+  flush(lines.length);
+
+  return sections;
+}
+
+// ============================================================================
+// Merge
+// ============================================================================
+
+/**
+ * Read one agent's changes and the base lines its hunks show.
+ */
+function readChanges(proposal: FileProposal, path: string, baseLines: Map<number, string>): Change[] {
+  const changes: Change[] = [];
+  const file = extractLineChanges(proposal.diff).get(path);
+
+  for (const hunk of file?.hunks ?? []) {
+    // A hunk of only added lines inserts after its old start line
+    let oldLine = hunk.lines.every(l => l.type === 'added') ? hunk.oldStart + 1 : hunk.oldStart;
+    let current: Change | null = null;
+
+    for (const line of hunk.lines) {
+      if (line.type === 'context') {
+        baseLines.set(oldLine, line.content);
+        oldLine++;
+        current = null;
+        continue;
+      }
+      if (!current) {
+        current = { agentId: proposal.agentId, start: oldLine, end: oldLine, added: [] };
+        changes.push(current);
+      }
+      if (line.type === 'removed') {
+        baseLines.set(oldLine, line.content);
+        oldLine++;
+        current.end = oldLine;
+      } else {
+        current.added.push(line.content);
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The lines one agent's changes produce for base [start, end).
+ */
+function applyChanges(baseLines: Map<number, string>, start: number, end: number, changes: Change[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const change of changes) {
+    for (; position < change.start; position++) {
+      lines.push(baseLines.get(position) ?? '');
+    }
+    lines.push(...change.added);
+    position = change.end;
+  }
+  for (; position < end; position++) {
+    lines.push(baseLines.get(position) ?? '');
+  }
+  return lines;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function baseRange(baseLines: Map<number, string>, start: number, end: number): string[] {
+  const lines: string[] = [];
+  for (let line = start; line < end; line++) {
+    lines.push(baseLines.get(line) ?? '');
+  }
+  return lines;
+}
+
+/**
+ * Known base lines right after `from`, up to `limit` lines.
+ */
+function contextAfter(baseLines: Map<number, string>, from: number, limit: number): string[] {
+  const lines: string[] = [];
+  for (let line = from; lines.length < limit && baseLines.has(line); line++) {
+    lines.push(baseLines.get(line)!);
+  }
+  return lines;
+}
+
+/**
+ * Known base lines right before `to`, down to `floor`, up to `limit` lines.
+ */
+function contextBefore(baseLines: Map<number, string>, to: number, floor: number, limit: number): string[] {
+  const lines: string[] = [];
+  for (let line = to - 1; line >= floor && lines.length < limit && baseLines.has(line); line--) {
+    lines.unshift(baseLines.get(line)!);
+  }
+  return lines;
+}
+
+/**
+ * Merge several agents' diffs to one file, in proposal order.
+ * Overlapping changes select the first (or last) agent's variant.
+ */
+export function mergeFileHunks(
+  path: string,
+  proposals: FileProposal[],
+  options: MergeFileHunksOptions = {}
+): MergedFileDiff {
+  const contextLines = options.contextLines ?? 3;
+  const baseLines = new Map<number, string>();
+  const changes = proposals
+    .flatMap(p => readChanges(p, path, baseLines))
+    .sort((a, b) => a.start - b.start || (a.end - a.start) - (b.end - b.start));
+
+  // Group changes whose base ranges overlap; two insertions at the same
+  // position overlap too, since their order is ambiguous
+  const clusters: { start: number; end: number; changes: Change[] }[] = [];
+  for (const change of changes) {
+    const last = clusters[clusters.length - 1];
+    const overlaps = last && (
+      change.start < last.end ||
+      (change.start === last.end && change.start === change.end && last.start === last.end)
+    );
+    if (overlaps) {
+      last.end = Math.max(last.end, change.end);
+      last.changes.push(change);
+    } else {
+      clusters.push({ start: change.start, end: change.end, changes: [change] });
+    }
+  }
+
+  const segments: MergeSegment[] = [];
+  for (const cluster of clusters) {
+    const removed = baseRange(baseLines, cluster.start, cluster.end);
+    const variants: HunkVariant[] = [];
+    for (const agentId of new Set(cluster.changes.map(c => c.agentId))) {
+      const lines = applyChanges(baseLines, cluster.start, cluster.end, cluster.changes.filter(c => c.agentId === agentId));
+      // Identical changes are taken once
+      if (!variants.some(v => sameLines(v.lines, lines))) {
+        variants.push({ agentId, lines });
+      }
+    }
+
+    const selected = options.prefer === 'last' ? variants[variants.length - 1] : variants[0];
+    segments.push({
+      oldStart: cluster.start,
+      before: [],
+      removed,
+      added: selected.lines,
+      after: [],
+      ...(variants.length > 1 ? { overlap: { variants, selected: selected.agentId } } : {})
+    });
+  }
+
+  // Context never reaches into a neighbouring change, so hunks stay disjoint
+  segments.forEach((segment, i) => {
+    const end = segment.oldStart + segment.removed.length;
+    const next = segments[i + 1]?.oldStart ?? Infinity;
+    segment.after = contextAfter(baseLines, end, Math.min(contextLines, next - end));
+    const previous = segments[i - 1];
+    const floor = previous
+      ? previous.oldStart + previous.removed.length + previous.after.length
+      : 1;
+    segment.before = contextBefore(baseLines, segment.oldStart, floor, contextLines);
+  });
+
+  const firstLines = proposals[0]?.diff.split('\n') ?? [];
+  const hunkStart = firstLines.findIndex(line => line.startsWith('@@'));
+  const header = hunkStart >= 0 ? firstLines.slice(0, hunkStart) : firstLines;
+
+  return {
+    path,
+    agents: proposals.map(p => p.agentId),
+    header,
+    segments,
+  };
+}
+
+/**
+ * Overlap segments of a merged file, with their segment index.
+ */
+export function overlapSegments(file: MergedFileDiff): Array<MergeSegment & { index: number }> {
+  return file.segments
+    .map((segment, index) => ({ ...segment, index }))
+    .filter(segment => segment.overlap);
+}
+
+/**
+ * Select an agent's variant for an overlap segment.
+ */
+export function selectHunkVariant(file: MergedFileDiff, segmentIndex: number, agentId: string): MergedFileDiff {
+  const segment = file.segments[segmentIndex];
+  const variant = segment?.overlap?.variants.find(v => v.agentId === agentId);
+  if (!segment?.overlap || !variant) {
+    throw new Error(`No variant from ${agentId} for hunk ${segmentIndex} of ${file.path}`);
+  }
+
+  const segments = [...file.segments];
+  segments[segmentIndex] = {
+    ...segment,
+    added: variant.lines,
+    overlap: { ...segment.overlap, selected: agentId },
+  };
+  return { ...file, segments };
+}
+
+/**
+ * Render a merged file as a unified diff, one hunk per segment.
+ */
+export function renderMergedFileDiff(file: MergedFileDiff): RenderedFileDiff {
+  const lines = [...file.header];
+  let offset = 0;
+  let additions = 0;
+  let deletions = 0;
+
+  for (const segment of file.segments) {
+    const oldStart = segment.oldStart - segment.before.length;
+    const context = segment.before.length + segment.after.length;
+    const oldCount = context + segment.removed.length;
+    const newCount = context + segment.added.length;
+    // Empty ranges point at the line before them
+    const oldLine = oldCount === 0 ? oldStart - 1 : oldStart;
+    const newLine = newCount === 0 ? oldStart + offset - 1 : oldStart + offset;
+
+    lines.push(
+      `@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`,
+      ...segment.before.map(l => ` ${l}`),
+      ...segment.removed.map(l => `-${l}`),
+      ...segment.added.map(l => `+${l}`),
+      ...segment.after.map(l => ` ${l}`)
+    );
+    offset += segment.added.length - segment.removed.length;
+    additions += segment.added.length;
+    deletions += segment.removed.length;
+  }
+
+  return { diff: lines.join('\n'), additions, deletions };
+}
@@ -7,5 +7,6 @@
 export * from './types';
 export * from './registry';
 export * from './base-agent';
+export * from './hunk-merge';
 export * from './proposal-service';
 export * from './specialists';
@@ -5,6 +5,7 @@
  * All agent output must go through this service for policy enforcement.
  */
 
+import { createHash } from 'crypto';
 import { PrismaClient } from '@prisma/client';
 import {
   Agent,
@@ -14,8 +15,20 @@ import {
   AgentPatchProposal,
 } from './types';
 import { AgentRegistry, AgentSelector } from './registry';
+import {
+  mergeFileHunks,
+  overlapSegments,
+  renderMergedFileDiff,
+  splitDiffByFile,
+  type FileProposal,
+  type HunkVariant,
+  type MergedFileDiff,
+  type RenderedFileDiff,
+} from './hunk-merge';
 import { Gate2Service, Gate2Result, evaluateGate2 } from '../policy/gate2';
-import type { PolicyConfig } from '../policy/policy-engine';
+import { createPolicyConfig, type PolicyConfig } from '../policy/policy-engine';
+import type { PolicySource } from '../policy/policy-file';
+import { globalPolicyRuleRegistry, type PolicyRuleRegistry } from '../policy/policy-rules';
 
 // ============================================================================
 // Types
@@ -42,16 +55,49 @@ export interface MultiAgentResult {
   gate2Result?: Gate2Result;
   requiresApproval: boolean;
   conflicts?: PatchConflict[];
+  /** Files several agents changed, combined hunk by hunk */
+  mergedFiles?: MergedFileDiff[];
 }
 
 /**
  * Patch conflict information.
+ * Overlap conflicts list the overlapping hunks of a hunk-merged file.
  */
 export interface PatchConflict {
   file: string;
   agents: string[];
   type: 'overlap' | 'modification' | 'deletion';
   resolution: 'first-wins' | 'last-wins' | 'manual' | 'merged';
+  hunks?: ConflictHunk[];
+}
+
+/**
+ * An overlapping hunk: the base lines it replaces and each agent's variant.
+ */
+export interface ConflictHunk {
+  index: number;    // segment index in the merged file
+  oldStart: number; // 1-indexed base line
+  base: string[];
+  variants: HunkVariant[];
+  selected: string; // agentId of the variant in the merged diff
+}
+
+export type ConflictResolutionStrategy = 'first-wins' | 'last-wins' | 'highest-confidence' | 'merged';
+
+export const PATCH_CONFLICTS_KIND = 'PatchConflictsV1';
+
+/**
+ * Overlapping hunks of a persisted merged PatchSet, for per-hunk picks.
+ * Files keep every segment so the patch diff can be re-rendered.
+ */
+export interface PatchConflictsV1 {
+  kind: 'PatchConflictsV1';
+  patchSetId: string;
+  createdAt: string;
+  files: Array<MergedFileDiff & {
+    taskId: string; // the patch carrying the merged file
+    resolution: PatchConflict['resolution'];
+  }>;
 }
 
 /**
@@ -70,10 +116,17 @@ export interface ProposalServiceConfig {
   prisma: PrismaClient;
   registry: AgentRegistry;
   policyConfig?: Partial<PolicyConfig>;
+  /** Repo policy file the config was loaded from (recorded in Gate2 evidence) */
+  policySource?: PolicySource | null;
+  /** Custom policy rules evaluated by Gate2 (defaults to the global registry) */
+  policyRules?: PolicyRuleRegistry;
   coordinationStrategy?: CoordinationStrategy;
-  conflictResolution?: 'first-wins' | 'last-wins' | 'highest-confidence';
+  /** Variant kept for overlapping hunks; 'merged' leaves the pick to the user */
+  conflictResolution?: ConflictResolutionStrategy;
 }
 
+const RISK_LEVELS: AgentPatchProposal['riskLevel'][] = ['low', 'medium', 'high'];
+
 // ============================================================================
 // Proposal Service
 // ============================================================================
@@ -84,17 +137,21 @@ export class ProposalService {
   private readonly selector: AgentSelector;
   private readonly gate2: Gate2Service;
   private readonly policyConfig?: Partial<PolicyConfig>;
+  private readonly policySource?: PolicySource | null;
+  private readonly policyRules: PolicyRuleRegistry;
   private readonly coordinationStrategy: CoordinationStrategy;
-  private readonly conflictResolution: 'first-wins' | 'last-wins' | 'highest-confidence';
+  private readonly conflictResolution: ConflictResolutionStrategy;
 
   constructor(config: ProposalServiceConfig) {
     this.prisma = config.prisma;
     this.registry = config.registry;
     this.selector = new AgentSelector(config.registry);
-    this.gate2 = new Gate2Service(config.prisma);
+    this.policyRules = config.policyRules ?? globalPolicyRuleRegistry;
+    this.gate2 = new Gate2Service(config.prisma, this.policyRules);
     this.policyConfig = config.policyConfig;
+    this.policySource = config.policySource;
     this.coordinationStrategy = config.coordinationStrategy || 'parallel';
-    this.conflictResolution = config.conflictResolution || 'highest-confidence';
+    this.conflictResolution = config.conflictResolution || 'merged';
   }
 
   // --------------------------------------------------------------------------
@@ -206,6 +263,11 @@ export class ProposalService {
     // Persist PatchSet
     const patchSetId = await this.persistPatchSet(workflowId, result.mergedPatchSet);
 
+    // Keep overlapping hunks for per-hunk picks
+    if (result.conflicts?.some(c => c.hunks)) {
+      await this.storePatchConflicts(workflowId, patchSetId, result);
+    }
+
     // Record event
     await this.recordProposalEvent(workflowId, patchSetId, result.proposals.length);
 
@@ -357,14 +419,16 @@ export class ProposalService {
       return { proposals, requiresApproval: false };
     }
 
-    // Detect conflicts
-    const conflicts = this.detectConflicts(successfulProposals);
+    // Combine shared files hunk by hunk, then detect conflicts
+    const mergedFiles = this.mergeSharedFiles(successfulProposals);
+    const conflicts = this.detectConflicts(successfulProposals, mergedFiles);
 
     // Merge with conflict resolution
     const mergedPatchSet = this.mergePatchSetsWithResolution(
       successfulProposals.map(p => p.patchSet!),
       context.repo.baseSha,
-      conflicts
+      conflicts,
+      mergedFiles
     );
 
     const gate2Result = this.evaluateProposalGate2(mergedPatchSet);
@@ -375,13 +439,47 @@ export class ProposalService {
       gate2Result,
       requiresApproval: true,
       conflicts: conflicts.length > 0 ? conflicts : undefined,
+      mergedFiles: mergedFiles.length > 0 ? mergedFiles : undefined,
     };
   }
 
   /**
-   * Detect conflicts between proposals.
+   * Merge the hunks of files several patches modify (or all create).
+   * Files also deleted, or created by one and modified by another, are
+   * left to file-level resolution.
+   */
+  private mergeSharedFiles(proposals: ProposalResult[]): MergedFileDiff[] {
+    const shared = new Map<string, { sections: (FileProposal | null)[]; actions: Set<string> }>();
+
+    for (const proposal of proposals) {
+      for (const patch of proposal.patchSet?.patches ?? []) {
+        const sections = splitDiffByFile(patch.diff);
+        for (const file of patch.files) {
+          const section = sections.find(s => s.path === file.path);
+          const entry = shared.get(file.path) ?? { sections: [], actions: new Set<string>() };
+          entry.sections.push(section ? { agentId: proposal.metadata.agentId, diff: section.text } : null);
+          entry.actions.add(file.action);
+          shared.set(file.path, entry);
+        }
+      }
+    }
+
+    const prefer = this.conflictResolution === 'last-wins' ? 'last' : 'first';
+    return Array.from(shared.entries())
+      .filter(([, entry]) =>
+        entry.sections.length > 1 &&
+        entry.actions.size === 1 &&
+        !entry.actions.has('delete') &&
+        entry.sections.every(Boolean)
+      )
+      .map(([path, entry]) => mergeFileHunks(path, entry.sections as FileProposal[], { prefer }));
+  }
+
+  /**
+   * Detect conflicts between proposals. Hunk-merged files only conflict
+   * where their hunks overlap.
    */
-  private detectConflicts(proposals: ProposalResult[]): PatchConflict[] {
+  private detectConflicts(proposals: ProposalResult[], mergedFiles: MergedFileDiff[]): PatchConflict[] {
     const conflicts: PatchConflict[] = [];
     const fileAgentMap = new Map<string, { agents: string[]; actions: string[] }>();
 
@@ -404,19 +502,40 @@ export class ProposalService {
       }
     }
 
+    const resolution = this.conflictResolution === 'highest-confidence' ? 'first-wins' : this.conflictResolution;
+
     // Find files touched by multiple agents
     for (const [file, info] of fileAgentMap.entries()) {
-      if (info.agents.length > 1) {
-        const hasDelete = info.actions.includes('delete');
-        const hasModify = info.actions.includes('modify');
-
-        conflicts.push({
-          file,
-          agents: info.agents,
-          type: hasDelete ? 'deletion' : hasModify ? 'modification' : 'overlap',
-          resolution: this.conflictResolution === 'highest-confidence' ? 'first-wins' : this.conflictResolution,
-        });
+      if (info.agents.length <= 1) continue;
+
+      const merged = mergedFiles.find(f => f.path === file);
+      if (merged) {
+        const hunks = overlapSegments(merged);
+        if (hunks.length > 0) {
+          conflicts.push({
+            file,
+            agents: info.agents,
+            type: 'overlap',
+            resolution,
+            hunks: hunks.map(h => ({
+              index: h.index,
+              oldStart: h.oldStart,
+              base: h.removed,
+              variants: h.overlap!.variants,
+              selected: h.overlap!.selected,
+            })),
+          });
+        }
+        continue;
       }
+
+      // Whole files cannot be merged; one version is kept
+      conflicts.push({
+        file,
+        agents: info.agents,
+        type: info.actions.includes('delete') ? 'deletion' : 'modification',
+        resolution: resolution === 'merged' ? 'first-wins' : resolution,
+      });
     }
 
     return conflicts;
@@ -479,45 +598,70 @@ export class ProposalService {
 
   /**
    * Merge patch sets with conflict resolution.
+   * Hunk-merged files go to the first patch touching them; files with a
+   * file-level conflict keep the first (or last) patch's version. A later
+   * patch for an already merged task is folded into it.
    */
   private mergePatchSetsWithResolution(
     patchSets: PatchSetProposal[],
     baseSha: string,
-    conflicts: PatchConflict[]
+    conflicts: PatchConflict[],
+    mergedFiles: MergedFileDiff[]
   ): PatchSetProposal {
-    const conflictFiles = new Set(conflicts.map(c => c.file));
-    const allPatches: AgentPatchProposal[] = [];
-    const titles: string[] = [];
-    const handledTasks = new Set<string>();
+    const patches = patchSets.flatMap(ps => ps.patches);
+    const rendered = new Map<string, RenderedFileDiff>(
+      mergedFiles.map(f => [f.path, renderMergedFileDiff(f)])
+    );
 
-    for (const ps of patchSets) {
-      titles.push(ps.title);
+    // Patch index each shared file is kept in
+    const owners = new Map<string, number>();
+    const touching = (path: string) =>
+      patches.map((p, i) => (p.files.some(f => f.path === path) ? i : -1)).filter(i => i >= 0);
+    for (const file of mergedFiles) {
+      owners.set(file.path, touching(file.path)[0]);
+    }
+    for (const conflict of conflicts.filter(c => !rendered.has(c.file))) {
+      const indexes = touching(conflict.file);
+      owners.set(conflict.file, conflict.resolution === 'last-wins' ? indexes[indexes.length - 1] : indexes[0]);
+    }
 
-      for (const patch of ps.patches) {
-        // Skip if task already handled
-        if (handledTasks.has(patch.taskId)) continue;
-
-        // For conflicting files, apply resolution strategy
-        const patchFiles = patch.files.filter(f => {
-          if (conflictFiles.has(f.path)) {
-            // First-wins: only include if this is the first patch with this file
-            return !allPatches.some(p =>
-              p.files.some(pf => pf.path === f.path)
-            );
-          }
-          return true;
+    const allPatches: AgentPatchProposal[] = [];
+    patches.forEach((patch, i) => {
+      const keep = (path: string) => !owners.has(path) || owners.get(path) === i;
+      const files = patch.files
+        .filter(f => keep(f.path))
+        .map(f => {
+          const merged = rendered.get(f.path);
+          return merged ? { ...f, additions: merged.additions, deletions: merged.deletions } : f;
         });
-
-        if (patchFiles.length > 0) {
-          allPatches.push({
-            ...patch,
-            files: patchFiles,
-          });
-          handledTasks.add(patch.taskId);
-        }
+      const existing = allPatches.find(p => p.taskId === patch.taskId);
+      if (files.length === 0 && !existing) return;
+
+      // Diffs without file headers cannot be split and are kept whole
+      const sections = splitDiffByFile(patch.diff);
+      const diff = sections.length === 0
+        ? patch.diff
+        : sections
+          .filter(s => keep(s.path))
+          .map(s => rendered.get(s.path)?.diff ?? s.text)
+          .join('\n');
+
+      if (!existing) {
+        allPatches.push({ ...patch, diff, files });
+        return;
       }
-    }
+      existing.diff = [existing.diff, diff].filter(Boolean).join('\n');
+      existing.files = [...existing.files, ...files];
+      existing.addsTests = existing.addsTests || patch.addsTests;
+      existing.riskLevel = RISK_LEVELS.indexOf(patch.riskLevel) > RISK_LEVELS.indexOf(existing.riskLevel)
+        ? patch.riskLevel
+        : existing.riskLevel;
+      if (patch.commands?.length) {
+        existing.commands = Array.from(new Set([...(existing.commands ?? []), ...patch.commands]));
+      }
+    });
 
+    const titles = patchSets.map(ps => ps.title);
     return {
       title: `Merged: ${titles.join(' + ')}`,
       description: `Combined proposals from ${patchSets.length} agents${conflicts.length > 0 ? ` (${conflicts.length} conflicts resolved)` : ''}`,
@@ -570,7 +714,8 @@ export class ProposalService {
         workflowId,
         patchSetId,
         diff: this.combineDiffs(proposal.patchSet.patches),
-        config: this.policyConfig as any,
+        config: this.policyConfig,
+        policySource: this.policySource,
       });
     }
 
@@ -590,7 +735,11 @@ export class ProposalService {
    */
   private evaluateProposalGate2(patchSet: PatchSetProposal): Gate2Result {
     const combinedDiff = this.combineDiffs(patchSet.patches);
-    return evaluateGate2(combinedDiff, this.policyConfig as any);
+    return evaluateGate2(
+      combinedDiff,
+      this.policyConfig ? createPolicyConfig(this.policyConfig) : undefined,
+      { policySource: this.policySource, rules: this.policyRules }
+    );
   }
 
   // --------------------------------------------------------------------------
@@ -628,6 +777,46 @@ export class ProposalService {
     return result.id;
   }
 
+  /**
+   * Store the overlapping hunks of a merged PatchSet as a new version of
+   * the workflow's PatchConflictsV1 artifact.
+   */
+  private async storePatchConflicts(
+    workflowId: string,
+    patchSetId: string,
+    result: MultiAgentResult
+  ): Promise<void> {
+    const report: PatchConflictsV1 = {
+      kind: 'PatchConflictsV1',
+      patchSetId,
+      createdAt: new Date().toISOString(),
+      files: (result.conflicts ?? [])
+        .filter(c => c.hunks)
+        .map(conflict => ({
+          ...result.mergedFiles!.find(f => f.path === conflict.file)!,
+          taskId: result.mergedPatchSet!.patches.find(p => p.files.some(f => f.path === conflict.file))!.taskId,
+          resolution: conflict.resolution,
+        })),
+    };
+    const content = JSON.stringify(report, null, 2);
+    const existing = await this.prisma.artifact.findFirst({
+      where: { workflowId, kind: PATCH_CONFLICTS_KIND },
+      orderBy: { artifactVersion: 'desc' },
+    });
+
+    await this.prisma.artifact.create({
+      data: {
+        workflowId,
+        kind: PATCH_CONFLICTS_KIND,
+        path: `.ai/PATCH-CONFLICTS-${patchSetId}.json`,
+        content,
+        contentSha: createHash('sha256').update(content, 'utf8').digest('hex'),
+        artifactVersion: existing ? existing.artifactVersion + 1 : 1,
+        supersedesArtifactId: existing?.id ?? null,
+      },
+    });
+  }
+
   /**
    * Record a proposal event.
    */
@@ -725,11 +914,13 @@ export class ProposalService {
 export function createProposalService(
   prisma: PrismaClient,
   registry: AgentRegistry,
-  policyConfig?: Partial<PolicyConfig>
+  policyConfig?: Partial<PolicyConfig>,
+  policySource?: PolicySource | null
 ): ProposalService {
   return new ProposalService({
     prisma,
     registry,
     policyConfig,
+    policySource,
   });
 }
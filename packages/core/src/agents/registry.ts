@@ -15,6 +15,7 @@ import {
   AgentValidationResult,
 } from './types';
 import type { PlanTask } from '../llm/artifact-generator';
+import { matchesAnyGlob } from '../policy/glob';
 
 // ============================================================================
 // Agent Registry
@@ -237,9 +238,7 @@ export class AgentSelector {
 
         // Boost confidence if agent handles target file patterns
         const patternMatch = context.task.targetFiles.some(file =>
-          agent.capabilities.filePatterns.some(pattern =>
-            this.matchesPattern(file, pattern)
-          )
+          matchesAnyGlob(file, agent.capabilities.filePatterns) !== null
         );
         if (patternMatch) {
           confidence = Math.min(1, confidence * 1.1);
@@ -274,20 +273,6 @@ export class AgentSelector {
     return Array.from(languages);
   }
 
-  /**
-   * Match a file path against a glob pattern (simplified).
-   */
-  private matchesPattern(file: string, pattern: string): boolean {
-    // Simple glob matching (supports * and **)
-    const regexPattern = pattern
-      .replace(/\*\*/g, '{{GLOBSTAR}}')
-      .replace(/\*/g, '[^/]*')
-      .replace(/{{GLOBSTAR}}/g, '.*')
-      .replace(/\./g, '\\.');
-
-    return new RegExp(`^${regexPattern}$`).test(file);
-  }
-
   /**
    * Select based on criteria (simpler method).
    */
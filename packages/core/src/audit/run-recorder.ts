@@ -17,6 +17,11 @@ export type CompleteRunParams = {
   outputs: JsonValue;
 };
 
+export type RecordInputsParams = {
+  runId: string;
+  inputs: Record<string, JsonValue>;
+};
+
 export type FailRunParams = {
   runId: string;
   errorMsg: string;
@@ -82,6 +87,32 @@ export class RunRecorder {
     });
   }
 
+  /**
+   * Add inputs determined while the run executes (e.g. what context the
+   * model was shown). Merged into the recorded inputs; the input hash keeps
+   * describing the inputs the run started with.
+   */
+  async recordInputs(params: RecordInputsParams): Promise<void> {
+    const run = await this.prisma.workflowRun.findUnique({
+      where: { id: params.runId }
+    });
+
+    if (!run) {
+      throw new Error(`Run not found: ${params.runId}`);
+    }
+
+    const existing = run.inputs && typeof run.inputs === 'object' && !Array.isArray(run.inputs)
+      ? run.inputs as Record<string, JsonValue>
+      : {};
+
+    await this.prisma.workflowRun.update({
+      where: { id: params.runId },
+      data: {
+        inputs: { ...existing, ...params.inputs }
+      }
+    });
+  }
+
   /**
    * Mark a run as failed.
    */
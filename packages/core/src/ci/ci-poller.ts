@@ -0,0 +1,377 @@
+/**
+ * CI Poller
+ *
+ * Fallback CI observer for setups that cannot receive webhooks (local and
+ * air-gapped installs). For each open PR of a workflow in PR_OPEN or
+ * VERIFYING_CI it reads the workflow runs of the PR head commit and, once
+ * they have all completed, synthesizes a CIEventInput and runs it through
+ * Gate3Service.processCIEvent - the same path webhook-delivered CI results
+ * take.
+ *
+ * - A result already recorded for the head commit after its runs completed
+ *   (webhook delivery or an earlier poll) is not processed again.
+ * - Each PR is polled every `intervalSeconds`, backing off by
+ *   `backoffFactor` per poll up to `maxIntervalSeconds`; a new head commit
+ *   resets the interval. The schedule is kept in memory, so a restarted
+ *   worker polls every PR once right away.
+ * - Polling is off unless enabled by the defaults (CI_POLL_ENABLED) or the
+ *   repo's `.orchestrator/policy.yml` (`ciPolling`), which can also tune
+ *   the interval and backoff per repo. Settings are cached per repo and
+ *   ref while a polled PR uses them.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { isNotFoundError, type GitHubClient, type WorkflowRunInfo } from '../github/github-client';
+import { Gate3Service, type CIEventInput, type Gate3Result } from '../policy/gate3';
+import { parsePolicyFile, POLICY_FILE_PATH, type PolicyFile } from '../policy/policy-file';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CIPollingConfig {
+  enabled: boolean;
+  intervalSeconds: number;
+  maxIntervalSeconds: number;
+  backoffFactor: number;
+}
+
+export const DEFAULT_CI_POLLING_CONFIG: CIPollingConfig = {
+  enabled: false,
+  intervalSeconds: 60,
+  maxIntervalSeconds: 900,
+  backoffFactor: 2,
+};
+
+export const CI_POLLED_STATES = ['PR_OPEN', 'VERIFYING_CI'];
+
+// Workflow events that record a CI result for a head commit
+export const CI_RESULT_EVENT_TYPES = [
+  'E_CI_COMPLETED',
+  'webhook.check_suite.completed',
+  'webhook.check_run.completed',
+  'webhook.pipeline.completed',
+];
+
+type RunConclusion = NonNullable<WorkflowRunInfo['conclusion']>;
+
+// The first conclusion present among a commit's runs wins
+const CONCLUSION_PRECEDENCE: RunConclusion[] = [
+  'failure',
+  'timed_out',
+  'action_required',
+  'cancelled',
+  'success',
+  'skipped',
+];
+
+export interface WorkflowRunsSummary {
+  status: 'none' | 'pending' | 'completed';
+  conclusion?: RunConclusion;
+  run?: WorkflowRunInfo; // the run that decided the conclusion
+  completedAt?: Date;    // when the last run finished
+}
+
+export type CIPollStatus = 'disabled' | 'waiting' | 'pending' | 'duplicate' | 'completed' | 'error';
+
+export interface CIPollResult {
+  workflowId: string;
+  prNumber: number;
+  status: CIPollStatus;
+  headSha?: string;
+  nextPollAt?: Date;
+  result?: Gate3Result;
+  error?: string;
+}
+
+export interface CIPollerOptions {
+  defaults?: CIPollingConfig;
+}
+
+type ScmClients = { forProvider(provider?: string | null): GitHubClient };
+
+interface PollSchedule {
+  headSha: string;
+  polls: number;
+  nextPollAt: Date;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Apply a policy file's `ciPolling` section over the defaults.
+ */
+export function mergeCIPollingConfig(
+  defaults: CIPollingConfig,
+  file: PolicyFile['ciPolling'] | undefined
+): CIPollingConfig {
+  if (!file) {
+    return { ...defaults };
+  }
+
+  const intervalSeconds = file.intervalSeconds ?? defaults.intervalSeconds;
+  return {
+    enabled: file.enabled ?? defaults.enabled,
+    intervalSeconds,
+    maxIntervalSeconds: Math.max(file.maxIntervalSeconds ?? defaults.maxIntervalSeconds, intervalSeconds),
+    backoffFactor: file.backoffFactor ?? defaults.backoffFactor,
+  };
+}
+
+/**
+ * Load a repo's CI polling settings from its policy file at a ref.
+ * A missing file yields the defaults; an invalid or unreadable one throws.
+ */
+export async function loadCIPollingConfig(
+  github: Pick<GitHubClient, 'getFileContents'>,
+  params: { owner: string; repo: string; ref: string },
+  defaults: CIPollingConfig = DEFAULT_CI_POLLING_CONFIG
+): Promise<CIPollingConfig> {
+  let content: string | null = null;
+  try {
+    content = (await github.getFileContents({ ...params, path: POLICY_FILE_PATH })).content;
+  } catch (err) {
+    if (!isNotFoundError(err)) {
+      throw err;
+    }
+    // No policy file in this repo - defaults apply
+  }
+
+  return mergeCIPollingConfig(defaults, content ? parsePolicyFile(content).ciPolling : undefined);
+}
+
+/**
+ * Delay before the next poll, after `polls` polls of the same head commit.
+ */
+export function ciPollDelaySeconds(config: CIPollingConfig, polls: number): number {
+  const delay = config.intervalSeconds * Math.pow(config.backoffFactor, Math.max(polls - 1, 0));
+  return Math.min(delay, config.maxIntervalSeconds);
+}
+
+// ============================================================================
+// Run Summaries
+// ============================================================================
+
+/**
+ * Summarize the workflow runs of one head commit. The commit is pending
+ * until every run has completed; its conclusion is the most severe one.
+ */
+export function summarizeWorkflowRuns(runs: WorkflowRunInfo[]): WorkflowRunsSummary {
+  if (runs.length === 0) {
+    return { status: 'none' };
+  }
+  if (runs.some(run => run.status !== 'completed' || !run.conclusion)) {
+    return { status: 'pending' };
+  }
+
+  const conclusion = CONCLUSION_PRECEDENCE.find(c => runs.some(run => run.conclusion === c));
+  const completedAt = runs
+    .map(run => new Date(run.updatedAt ?? run.createdAt ?? 0))
+    .reduce((latest, date) => (date > latest ? date : latest));
+
+  return {
+    status: 'completed',
+    conclusion,
+    run: runs.find(run => run.conclusion === conclusion),
+    completedAt,
+  };
+}
+
+// ============================================================================
+// Poller
+// ============================================================================
+
+export class CIPoller {
+  private readonly defaults: CIPollingConfig;
+  private readonly schedules = new Map<string, PollSchedule>();
+  private readonly configs = new Map<string, CIPollingConfig>();
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly clients: ScmClients,
+    options: CIPollerOptions = {}
+  ) {
+    this.defaults = options.defaults ?? DEFAULT_CI_POLLING_CONFIG;
+  }
+
+  /**
+   * Poll every open PR of the workflows waiting on CI.
+   * PRs that are not due yet are reported as 'waiting'.
+   */
+  async poll(now: Date = new Date()): Promise<CIPollResult[]> {
+    const pullRequests = await this.prisma.pullRequest.findMany({
+      where: {
+        status: 'open',
+        workflow: { state: { in: CI_POLLED_STATES } }
+      },
+      include: { workflow: { include: { repos: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    // Forget schedules of PRs that no longer wait on CI
+    const polled = new Set(pullRequests.map(pr => pr.id));
+    for (const id of this.schedules.keys()) {
+      if (!polled.has(id)) {
+        this.schedules.delete(id);
+      }
+    }
+
+    const results: CIPollResult[] = [];
+    const configKeys = new Set<string>();
+    for (const pr of pullRequests) {
+      try {
+        results.push(await this.pollPullRequest(pr, now, configKeys));
+      } catch (err) {
+        results.push({
+          workflowId: pr.workflowId,
+          prNumber: pr.number,
+          status: 'error',
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    // Forget policy settings no polled PR uses (settled workflows, moved bases)
+    for (const key of this.configs.keys()) {
+      if (!configKeys.has(key)) {
+        this.configs.delete(key);
+      }
+    }
+    return results;
+  }
+
+  private async pollPullRequest(
+    pr: {
+      id: string;
+      workflowId: string;
+      number: number;
+      branch: string;
+      repoOwner: string | null;
+      repoName: string | null;
+      workflow: {
+        repoOwner: string | null;
+        repoName: string | null;
+        baseBranch: string;
+        baseSha: string | null;
+        repos: { owner: string; repo: string; baseBranch: string; baseSha: string | null; provider: string }[];
+      };
+    },
+    now: Date,
+    configKeys: Set<string>
+  ): Promise<CIPollResult> {
+    const owner = pr.repoOwner ?? pr.workflow.repoOwner ?? '';
+    const repo = pr.repoName ?? pr.workflow.repoName ?? '';
+    const workflowRepo = pr.workflow.repos.find(r => r.owner === owner && r.repo === repo);
+    const client = this.clients.forProvider(workflowRepo?.provider);
+    const base = { workflowId: pr.workflowId, prNumber: pr.number };
+
+    const config = await this.configFor(client, {
+      owner,
+      repo,
+      ref: workflowRepo?.baseSha ?? pr.workflow.baseSha ?? workflowRepo?.baseBranch ?? pr.workflow.baseBranch
+    }, configKeys);
+    if (!config.enabled) {
+      return { ...base, status: 'disabled' };
+    }
+
+    const schedule = this.schedules.get(pr.id);
+    if (schedule && now < schedule.nextPollAt) {
+      return { ...base, status: 'waiting', headSha: schedule.headSha, nextPollAt: schedule.nextPollAt };
+    }
+
+    const { sha: headSha } = await client.getBranch({ owner, repo, branch: pr.branch });
+    const polls = schedule?.headSha === headSha ? schedule.polls + 1 : 1;
+    const nextPollAt = new Date(now.getTime() + ciPollDelaySeconds(config, polls) * 1000);
+    this.schedules.set(pr.id, { headSha, polls, nextPollAt });
+
+    const { runs } = await client.listWorkflowRuns({ owner, repo, branch: pr.branch, perPage: 50 });
+    const summary = summarizeWorkflowRuns(
+      await this.withJobConclusions(client, owner, repo, runs.filter(run => run.headSha === headSha))
+    );
+    if (summary.status !== 'completed') {
+      return { ...base, status: 'pending', headSha, nextPollAt };
+    }
+
+    if (await this.isResultRecorded(pr.workflowId, headSha, summary.completedAt!)) {
+      return { ...base, status: 'duplicate', headSha, nextPollAt };
+    }
+
+    const input: CIEventInput = {
+      source: 'workflow_run',
+      conclusion: summary.conclusion!,
+      headSha,
+      owner,
+      repo,
+      workflowId: pr.workflowId,
+      webhookId: `ci-poll:${headSha}:${summary.completedAt!.getTime()}`,
+      workflowRunId: summary.run?.id,
+      url: summary.run?.htmlUrl,
+      completedAt: summary.completedAt
+    };
+
+    const gate3 = new Gate3Service(this.prisma, undefined, client);
+    const result = await gate3.processCIEvent(input);
+    return result
+      ? { ...base, status: 'completed', headSha, nextPollAt, result }
+      : { ...base, status: 'duplicate', headSha, nextPollAt };
+  }
+
+  /**
+   * Completed runs without a conclusion take the most severe conclusion of
+   * their jobs.
+   */
+  private async withJobConclusions(
+    client: GitHubClient,
+    owner: string,
+    repo: string,
+    runs: WorkflowRunInfo[]
+  ): Promise<WorkflowRunInfo[]> {
+    return Promise.all(runs.map(async run => {
+      if (run.status !== 'completed' || run.conclusion) {
+        return run;
+      }
+      const { jobs } = await client.getWorkflowRunJobs({ owner, repo, runId: run.id });
+      const completed = jobs.length > 0 && jobs.every(job => job.status === 'completed');
+      return {
+        ...run,
+        conclusion: completed ? summarizeWorkflowRuns(jobs).conclusion ?? null : null
+      };
+    }));
+  }
+
+  /**
+   * Whether a CI result for the head commit was recorded after its runs
+   * completed, by a webhook delivery or an earlier poll.
+   */
+  private async isResultRecorded(workflowId: string, headSha: string, completedAt: Date): Promise<boolean> {
+    const recorded = await this.prisma.workflowEvent.findFirst({
+      where: {
+        workflowId,
+        type: { in: CI_RESULT_EVENT_TYPES },
+        createdAt: { gte: completedAt },
+        payload: { path: ['headSha'], equals: headSha }
+      }
+    });
+    return !!recorded;
+  }
+
+  /**
+   * Policy settings per repo and ref, loaded once while PRs use them.
+   */
+  private async configFor(
+    client: GitHubClient,
+    params: { owner: string; repo: string; ref: string },
+    configKeys: Set<string>
+  ): Promise<CIPollingConfig> {
+    const key = `${params.owner}/${params.repo}@${params.ref}`;
+    configKeys.add(key);
+    let config = this.configs.get(key);
+    if (!config) {
+      config = await loadCIPollingConfig(client, params, this.defaults);
+      this.configs.set(key, config);
+    }
+    return config;
+  }
+}
@@ -0,0 +1,333 @@
+/**
+ * CI Report Ingestion
+ *
+ * Downloads the report files a CI run uploaded as artifacts, parses them
+ * (see report-parsers) and normalizes the results into a CIReportV1
+ * artifact. Each report is compared with the workflow's previous one to
+ * derive a coverage delta and the static-analysis findings that are new.
+ *
+ * Consumers: Gate3 (quality gate evidence), the Diagnoser (failed tests)
+ * and the Runs tab.
+ */
+
+import { createHash } from 'crypto';
+import type { PrismaClient } from '@prisma/client';
+import type { GitHubClient, WorkflowRunArtifact } from '../github/github-client';
+import type { CIReportSummary } from '../policy/gate3';
+import {
+  coveragePercent,
+  detectReportFormat,
+  parseCobertura,
+  parseJUnit,
+  parseLcov,
+  parseSarif,
+  type CIReportFormat,
+  type CoverageCounts,
+  type CoverageResults,
+  type FailedTest,
+  type StaticFinding,
+  type TestResults,
+} from './report-parsers';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const CI_REPORT_KIND = 'CIReportV1';
+
+// Caps keep the artifact readable for large suites
+export const MAX_REPORTED_FAILURES = 50;
+export const MAX_REPORTED_FINDINGS = 100;
+
+export interface CoverageSummary extends CoverageCounts {
+  pct: number;
+}
+
+export interface CIReportV1 {
+  kind: 'CIReportV1';
+  runId: number;
+  headSha?: string;
+  createdAt: string;
+  baselineRunId: number | null;
+  sources: { artifact: string; path: string; format: CIReportFormat }[];
+  errors: { artifact: string; path: string; message: string }[];
+  tests: {
+    total: number;
+    failed: number;
+    skipped: number;
+    failures: FailedTest[];
+  } | null;
+  coverage: {
+    lines: CoverageSummary;
+    branches: CoverageSummary | null;
+    deltaPct: number | null; // line coverage change since the baseline
+  } | null;
+  findings: {
+    total: number;
+    errors: number;
+    warnings: number;
+    notes: number;
+    items: StaticFinding[];
+    newFindings: StaticFinding[]; // not in the baseline; all findings without one
+    newCount: number;
+    fingerprints: string[];
+  } | null;
+}
+
+export interface BuildCIReportInput {
+  runId: number;
+  headSha?: string;
+  artifacts: WorkflowRunArtifact[];
+  baseline?: CIReportV1 | null;
+}
+
+export interface IngestCIReportParams {
+  workflowId: string;
+  owner: string;
+  repo: string;
+  runId: number;
+  headSha?: string;
+  path?: string;
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+function summarizeCoverage(counts: CoverageCounts): CoverageSummary {
+  return { ...counts, pct: coveragePercent(counts) };
+}
+
+/**
+ * Parse every report file of a run's artifacts into a CIReportV1.
+ * Files that are not reports are ignored; reports that fail to parse are
+ * listed in errors. Multiple reports of one kind are combined.
+ */
+export function buildCIReport(input: BuildCIReportInput): CIReportV1 {
+  const report: CIReportV1 = {
+    kind: 'CIReportV1',
+    runId: input.runId,
+    headSha: input.headSha,
+    createdAt: new Date().toISOString(),
+    baselineRunId: input.baseline?.runId ?? null,
+    sources: [],
+    errors: [],
+    tests: null,
+    coverage: null,
+    findings: null,
+  };
+
+  const tests: TestResults[] = [];
+  const coverage: CoverageResults[] = [];
+  const findings: StaticFinding[] = [];
+
+  for (const artifact of input.artifacts) {
+    for (const file of artifact.files) {
+      const format = detectReportFormat(file.path, file.content);
+      if (!format) continue;
+
+      try {
+        switch (format) {
+          case 'junit':
+            tests.push(parseJUnit(file.content));
+            break;
+          case 'lcov':
+            coverage.push(parseLcov(file.content));
+            break;
+          case 'cobertura':
+            coverage.push(parseCobertura(file.content));
+            break;
+          case 'sarif':
+            findings.push(...parseSarif(file.content));
+            break;
+        }
+        report.sources.push({ artifact: artifact.name, path: file.path, format });
+      } catch (err) {
+        report.errors.push({
+          artifact: artifact.name,
+          path: file.path,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
+  if (tests.length > 0) {
+    const failures = tests.flatMap(t => t.failures);
+    report.tests = {
+      total: tests.reduce((sum, t) => sum + t.total, 0),
+      failed: tests.reduce((sum, t) => sum + t.failed, 0),
+      skipped: tests.reduce((sum, t) => sum + t.skipped, 0),
+      failures: failures.slice(0, MAX_REPORTED_FAILURES),
+    };
+  }
+
+  if (coverage.length > 0) {
+    const sum = (counts: CoverageCounts[]) => counts.reduce(
+      (total, c) => ({ covered: total.covered + c.covered, total: total.total + c.total }),
+      { covered: 0, total: 0 }
+    );
+    const branches = coverage.flatMap(c => (c.branches ? [c.branches] : []));
+    const lines = summarizeCoverage(sum(coverage.map(c => c.lines)));
+    const baselinePct = input.baseline?.coverage?.lines.pct;
+
+    report.coverage = {
+      lines,
+      branches: branches.length > 0 ? summarizeCoverage(sum(branches)) : null,
+      deltaPct: baselinePct === undefined ? null : Math.round((lines.pct - baselinePct) * 100) / 100,
+    };
+  }
+
+  if (findings.length > 0) {
+    // Without a baseline every finding is new
+    const known = new Set(input.baseline?.findings?.fingerprints ?? []);
+    const newFindings = findings.filter(f => !known.has(f.fingerprint));
+    const count = (level: StaticFinding['level']) => findings.filter(f => f.level === level).length;
+
+    report.findings = {
+      total: findings.length,
+      errors: count('error'),
+      warnings: count('warning'),
+      notes: count('note'),
+      items: findings.slice(0, MAX_REPORTED_FINDINGS),
+      newFindings: newFindings.slice(0, MAX_REPORTED_FINDINGS),
+      newCount: newFindings.length,
+      fingerprints: Array.from(new Set(findings.map(f => f.fingerprint))),
+    };
+  }
+
+  return report;
+}
+
+/**
+ * Reduce a CIReportV1 to the evidence Gate3 quality gates read.
+ */
+export function summarizeCIReport(report: CIReportV1): CIReportSummary {
+  const summary: CIReportSummary = {};
+
+  if (report.tests) {
+    summary.tests = {
+      total: report.tests.total,
+      failed: report.tests.failed,
+      skipped: report.tests.skipped,
+      failedTests: report.tests.failures.map(formatFailedTest),
+    };
+  }
+
+  if (report.coverage) {
+    summary.coverage = {
+      lines: report.coverage.lines.pct,
+      deltaPct: report.coverage.deltaPct ?? undefined,
+    };
+  }
+
+  if (report.findings) {
+    summary.staticAnalysis = {
+      errors: report.findings.errors,
+      warnings: report.findings.warnings,
+      notes: report.findings.notes,
+      newFindings: report.findings.newCount,
+    };
+  }
+
+  return summary;
+}
+
+/**
+ * Human-readable test name: "Suite › name".
+ */
+export function formatFailedTest(test: FailedTest): string {
+  return test.suite && test.suite !== test.name ? `${test.suite} › ${test.name}` : test.name;
+}
+
+/**
+ * Human-readable finding: "[error] rule at file:line: message".
+ */
+export function formatFinding(finding: StaticFinding): string {
+  const location = finding.file ? ` at ${finding.file}${finding.line ? `:${finding.line}` : ''}` : '';
+  return `[${finding.level}] ${finding.ruleId}${location}: ${finding.message}`;
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+export class CIReportService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly github: Pick<GitHubClient, 'downloadWorkflowRunArtifacts'>
+  ) {}
+
+  /**
+   * Download a run's artifacts and store their reports as a CIReportV1
+   * artifact. Returns null when the run uploaded no report files.
+   */
+  async ingest(params: IngestCIReportParams): Promise<CIReportV1 | null> {
+    const { artifacts } = await this.github.downloadWorkflowRunArtifacts({
+      owner: params.owner,
+      repo: params.repo,
+      runId: params.runId,
+    });
+
+    const hasReports = artifacts.some(a => a.files.some(f => detectReportFormat(f.path, f.content)));
+    if (!hasReports) {
+      return null;
+    }
+
+    const previous = await this.getLatest(params.workflowId);
+    // A re-ingested run keeps comparing against its original baseline
+    const baseline = previous?.runId === params.runId
+      ? await this.getByRunId(params.workflowId, previous.baselineRunId)
+      : previous;
+
+    const report = buildCIReport({
+      runId: params.runId,
+      headSha: params.headSha,
+      artifacts,
+      baseline,
+    });
+
+    const content = JSON.stringify(report, null, 2);
+    const existing = await this.prisma.artifact.findFirst({
+      where: { workflowId: params.workflowId, kind: CI_REPORT_KIND },
+      orderBy: { artifactVersion: 'desc' },
+    });
+
+    await this.prisma.artifact.create({
+      data: {
+        workflowId: params.workflowId,
+        kind: CI_REPORT_KIND,
+        path: params.path ?? `.ai/CI-REPORT-${params.runId}.json`,
+        content,
+        contentSha: createHash('sha256').update(content, 'utf8').digest('hex'),
+        artifactVersion: existing ? existing.artifactVersion + 1 : 1,
+        supersedesArtifactId: existing?.id ?? null,
+      },
+    });
+
+    return report;
+  }
+
+  /**
+   * The workflow's most recent CI report, if any.
+   */
+  async getLatest(workflowId: string): Promise<CIReportV1 | null> {
+    const artifact = await this.prisma.artifact.findFirst({
+      where: { workflowId, kind: CI_REPORT_KIND },
+      orderBy: { createdAt: 'desc' },
+    });
+    return artifact ? (JSON.parse(artifact.content) as CIReportV1) : null;
+  }
+
+  private async getByRunId(workflowId: string, runId: number | null): Promise<CIReportV1 | null> {
+    if (runId === null) {
+      return null;
+    }
+    const artifacts = await this.prisma.artifact.findMany({
+      where: { workflowId, kind: CI_REPORT_KIND },
+      orderBy: { createdAt: 'desc' },
+    });
+    const reports = artifacts.map(a => JSON.parse(a.content) as CIReportV1);
+    return reports.find(r => r.runId === runId) ?? null;
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * CI Module
+ *
+ * Parsing and normalization of CI report artifacts, and the CI poller for
+ * setups without webhooks.
+ */
+
+export * from './report-parsers';
+export * from './ci-report';
+export * from './ci-poller';
@@ -0,0 +1,386 @@
+/**
+ * CI Report Parsers
+ *
+ * Parse the report files CI jobs upload as workflow run artifacts:
+ * - JUnit XML (test results; Jest, pytest, Go, Maven, ...)
+ * - lcov and Cobertura XML (coverage)
+ * - SARIF (static-analysis findings; CodeQL, Semgrep, ESLint, ...)
+ *
+ * Parsers are tolerant of missing optional fields but throw on content
+ * that is not the expected format.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CIReportFormat = 'junit' | 'lcov' | 'cobertura' | 'sarif';
+
+export interface FailedTest {
+  suite: string;
+  name: string;
+  classname?: string;
+  file?: string;
+  kind: 'failure' | 'error';
+  message?: string;
+}
+
+export interface TestResults {
+  total: number;
+  failed: number;   // failures and errors
+  skipped: number;
+  failures: FailedTest[];
+}
+
+export interface CoverageCounts {
+  covered: number;
+  total: number;
+}
+
+export interface CoverageResults {
+  lines: CoverageCounts;
+  branches: CoverageCounts | null;
+  files: { path: string; lines: CoverageCounts }[];
+}
+
+export type FindingLevel = 'error' | 'warning' | 'note';
+
+export interface StaticFinding {
+  tool: string;
+  ruleId: string;
+  level: FindingLevel;
+  message: string;
+  file?: string;
+  line?: number;
+  fingerprint: string; // stable across runs; used to find new findings
+}
+
+// ============================================================================
+// XML
+// ============================================================================
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    return entity[1].toLowerCase() === 'x'
+      ? String.fromCodePoint(parseInt(entity.slice(2), 16))
+      : String.fromCodePoint(parseInt(entity.slice(1), 10));
+  });
+}
+
+/**
+ * Parse an XML document into an element tree. Supports the subset report
+ * files use: elements, attributes, text, CDATA, comments and declarations.
+ */
+export function parseXml(content: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const tagPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const attrPattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(content)) !== null) {
+    const current = stack[stack.length - 1];
+    current.text += decodeEntities(content.slice(last, match.index));
+    last = tagPattern.lastIndex;
+
+    const [, cdata, closing, opening, attrs, selfClosing] = match;
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closing) {
+      if (current.name !== closing) {
+        throw new Error(`Invalid XML: unexpected </${closing}>`);
+      }
+      stack.pop();
+    } else if (opening) {
+      const element: XmlElement = { name: opening, attributes: {}, children: [], text: '' };
+      let attr: RegExpExecArray | null;
+      attrPattern.lastIndex = 0;
+      while ((attr = attrPattern.exec(attrs)) !== null) {
+        element.attributes[attr[1]] = decodeEntities(attr[2] ?? attr[3]);
+      }
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Invalid XML: unclosed <${stack[stack.length - 1].name}>`);
+  }
+  const [element] = root.children;
+  if (!element) {
+    throw new Error('Invalid XML: no root element');
+  }
+  return element;
+}
+
+function descendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of element.children) {
+    if (child.name === name) {
+      found.push(child);
+    }
+    found.push(...descendants(child, name));
+  }
+  return found;
+}
+
+// ============================================================================
+// JUnit
+// ============================================================================
+
+/**
+ * Parse JUnit XML (a <testsuites> or single <testsuite> root).
+ */
+export function parseJUnit(content: string): TestResults {
+  const root = parseXml(content);
+  if (root.name !== 'testsuites' && root.name !== 'testsuite') {
+    throw new Error(`Not a JUnit report: root element <${root.name}>`);
+  }
+
+  const suites = root.name === 'testsuite' ? [root] : descendants(root, 'testsuite');
+  const results: TestResults = { total: 0, failed: 0, skipped: 0, failures: [] };
+
+  for (const suite of suites) {
+    // Nested suites are visited separately
+    const cases = suite.children.filter(c => c.name === 'testcase');
+    for (const testCase of cases) {
+      results.total++;
+      const problem = testCase.children.find(c => c.name === 'failure' || c.name === 'error');
+      if (problem) {
+        results.failed++;
+        const message = problem.attributes.message || problem.text.trim().split('\n')[0];
+        results.failures.push({
+          suite: suite.attributes.name ?? '',
+          name: testCase.attributes.name ?? '',
+          classname: testCase.attributes.classname || undefined,
+          file: testCase.attributes.file || suite.attributes.file || undefined,
+          kind: problem.name as FailedTest['kind'],
+          message: message ? message.slice(0, 500) : undefined,
+        });
+      } else if (testCase.children.some(c => c.name === 'skipped')) {
+        results.skipped++;
+      }
+    }
+  }
+
+  return results;
+}
+
+// ============================================================================
+// Coverage
+// ============================================================================
+
+/**
+ * Parse an lcov tracefile.
+ */
+export function parseLcov(content: string): CoverageResults {
+  const files: CoverageResults['files'] = [];
+  const branches: CoverageCounts = { covered: 0, total: 0 };
+  let file: { path: string; found?: number; hit?: number; daFound: number; daHit: number } | null = null;
+
+  for (const raw of content.split('\n')) {
+    const line = raw.trim();
+    const colon = line.indexOf(':');
+    const key = colon === -1 ? line : line.slice(0, colon);
+    const value = line.slice(colon + 1);
+
+    if (key === 'SF') {
+      file = { path: value, daFound: 0, daHit: 0 };
+    } else if (!file) {
+      continue;
+    } else if (key === 'DA') {
+      file.daFound++;
+      if (Number(value.split(',')[1]) > 0) {
+        file.daHit++;
+      }
+    } else if (key === 'LF') {
+      file.found = Number(value);
+    } else if (key === 'LH') {
+      file.hit = Number(value);
+    } else if (key === 'BRF') {
+      branches.total += Number(value);
+    } else if (key === 'BRH') {
+      branches.covered += Number(value);
+    } else if (key === 'end_of_record') {
+      files.push({
+        path: file.path,
+        lines: { covered: file.hit ?? file.daHit, total: file.found ?? file.daFound },
+      });
+      file = null;
+    }
+  }
+
+  if (files.length === 0) {
+    throw new Error('Not an lcov report: no SF records');
+  }
+
+  return {
+    lines: sumCounts(files.map(f => f.lines)),
+    branches: branches.total > 0 ? branches : null,
+    files,
+  };
+}
+
+/**
+ * Parse a Cobertura XML coverage report.
+ */
+export function parseCobertura(content: string): CoverageResults {
+  const root = parseXml(content);
+  if (root.name !== 'coverage') {
+    throw new Error(`Not a Cobertura report: root element <${root.name}>`);
+  }
+
+  const byFile = new Map<string, { covered: Set<string>; total: Set<string> }>();
+  for (const cls of descendants(root, 'class')) {
+    const path = cls.attributes.filename;
+    if (!path) continue;
+    const entry = byFile.get(path) ?? { covered: new Set<string>(), total: new Set<string>() };
+    // Methods repeat their lines; count each line number once per file
+    for (const line of descendants(cls, 'line')) {
+      const number = line.attributes.number;
+      entry.total.add(number);
+      if (Number(line.attributes.hits) > 0) {
+        entry.covered.add(number);
+      }
+    }
+    byFile.set(path, entry);
+  }
+
+  const files = Array.from(byFile, ([path, entry]) => ({
+    path,
+    lines: { covered: entry.covered.size, total: entry.total.size },
+  }));
+
+  const attr = (name: string) =>
+    root.attributes[name] !== undefined ? Number(root.attributes[name]) : undefined;
+  const linesValid = attr('lines-valid');
+  const branchesValid = attr('branches-valid');
+
+  return {
+    lines: linesValid !== undefined
+      ? { covered: attr('lines-covered') ?? 0, total: linesValid }
+      : sumCounts(files.map(f => f.lines)),
+    branches: branchesValid
+      ? { covered: attr('branches-covered') ?? 0, total: branchesValid }
+      : null,
+    files,
+  };
+}
+
+function sumCounts(counts: CoverageCounts[]): CoverageCounts {
+  return counts.reduce(
+    (sum, c) => ({ covered: sum.covered + c.covered, total: sum.total + c.total }),
+    { covered: 0, total: 0 }
+  );
+}
+
+/**
+ * Percentage covered, rounded to two decimals (100 when nothing to cover).
+ */
+export function coveragePercent(counts: CoverageCounts): number {
+  return counts.total === 0 ? 100 : Math.round((counts.covered / counts.total) * 10000) / 100;
+}
+
+// ============================================================================
+// SARIF
+// ============================================================================
+
+const SARIF_LEVELS: Record<string, FindingLevel | null> = {
+  error: 'error',
+  warning: 'warning',
+  note: 'note',
+  none: null,
+};
+
+/**
+ * Parse a SARIF 2.1 log into findings. Results with level "none" are skipped.
+ */
+export function parseSarif(content: string): StaticFinding[] {
+  let log: any;
+  try {
+    log = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid SARIF: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!Array.isArray(log?.runs)) {
+    throw new Error('Invalid SARIF: missing runs');
+  }
+
+  const findings: StaticFinding[] = [];
+  for (const run of log.runs) {
+    const tool = run.tool?.driver?.name ?? 'unknown';
+    const rules: any[] = run.tool?.driver?.rules ?? [];
+
+    for (const result of run.results ?? []) {
+      const rule = typeof result.ruleIndex === 'number'
+        ? rules[result.ruleIndex]
+        : rules.find(r => r.id === result.ruleId);
+      const ruleId = result.ruleId ?? rule?.id ?? 'unknown';
+      const level = SARIF_LEVELS[result.level ?? rule?.defaultConfiguration?.level ?? 'warning'];
+      if (!level) continue;
+
+      const location = result.locations?.[0]?.physicalLocation;
+      const file: string | undefined = location?.artifactLocation?.uri?.replace(/^file:\/\//, '');
+      const message: string = result.message?.text ?? rule?.shortDescription?.text ?? ruleId;
+      const fingerprints = { ...result.partialFingerprints, ...result.fingerprints };
+      const fingerprint = Object.keys(fingerprints).length > 0
+        ? `${tool}:${ruleId}:${Object.keys(fingerprints).sort().map(k => fingerprints[k]).join(',')}`
+        : `${tool}:${ruleId}:${file ?? ''}:${message}`;
+
+      findings.push({
+        tool,
+        ruleId,
+        level,
+        message: message.slice(0, 500),
+        file,
+        line: location?.region?.startLine,
+        fingerprint,
+      });
+    }
+  }
+
+  return findings;
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Guess a report's format from its path and content. Returns null for
+ * files that are not reports.
+ */
+export function detectReportFormat(path: string, content: string): CIReportFormat | null {
+  const lower = path.toLowerCase();
+  const head = content.slice(0, 2000);
+
+  if (lower.endsWith('.sarif') || lower.endsWith('.sarif.json') ||
+      (lower.endsWith('.json') && /"\$schema"\s*:\s*"[^"]*sarif/i.test(head))) {
+    return 'sarif';
+  }
+  if (lower.endsWith('.info') || lower.endsWith('.lcov') || /^(TN:|SF:)/m.test(head.slice(0, 200))) {
+    return /^SF:/m.test(content) ? 'lcov' : null;
+  }
+  if (lower.endsWith('.xml')) {
+    if (/<testsuites?[\s>]/.test(head)) return 'junit';
+    if (/<coverage[\s>]/.test(head)) return 'cobertura';
+  }
+  return null;
+}
@@ -148,7 +148,8 @@ export const WORKFLOW_STAGES: WorkflowStage[] = [
   { index: 3, name: 'applying', state: 'APPLYING_PATCHES', description: 'Applying approved patches' },
   { index: 4, name: 'pr_open', state: 'PR_OPEN', description: 'Pull request opened' },
   { index: 5, name: 'verifying', state: 'VERIFYING_CI', description: 'Verifying CI checks' },
-  { index: 6, name: 'done', state: 'DONE', description: 'Workflow completed successfully' },
+  { index: 6, name: 'merging', state: 'MERGING', description: 'Merging pull requests' },
+  { index: 7, name: 'done', state: 'DONE', description: 'Workflow completed successfully' },
 ];
 
 /**
@@ -5,7 +5,9 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import { CI_REPORT_KIND, formatFailedTest, formatFinding, type CIReportV1 } from '../ci/ci-report';
 import {
+  CIReportInfo,
   FailureContext,
   FailureEvent,
   PolicyViolationInfo,
@@ -56,6 +58,9 @@ export class ContextCollector {
     // Get policy violations
     const policyViolations = await this.collectPolicyViolations(workflowId);
 
+    // Get failed tests and new findings from CI reports
+    const ciReport = await this.collectCIReport(workflowId);
+
     // Extract involved files from inputs/outputs
     const involvedFiles = this.extractInvolvedFiles(
       run.inputs as Record<string, unknown>,
@@ -77,6 +82,7 @@ export class ContextCollector {
       recentEvents,
       policyViolations: policyViolations.length > 0 ? policyViolations : undefined,
       involvedFiles: involvedFiles.length > 0 ? involvedFiles : undefined,
+      ciReport: ciReport ?? undefined,
       failedAt: run.completedAt || run.startedAt,
       durationMs: run.durationMs ?? undefined,
     };
@@ -147,6 +153,28 @@ export class ContextCollector {
     }));
   }
 
+  /**
+   * Collect results from the latest CI report artifact.
+   */
+  private async collectCIReport(workflowId: string): Promise<CIReportInfo | null> {
+    const artifact = await this.prisma.artifact.findFirst({
+      where: { workflowId, kind: CI_REPORT_KIND },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!artifact) {
+      return null;
+    }
+
+    const report = JSON.parse(artifact.content) as CIReportV1;
+    return {
+      runId: report.runId,
+      failedTests: (report.tests?.failures ?? []).map(formatFailedTest),
+      coverageDeltaPct: report.coverage?.deltaPct ?? null,
+      newFindings: (report.findings?.newFindings ?? []).map(formatFinding),
+    };
+  }
+
   /**
    * Extract file paths from inputs/outputs.
    */
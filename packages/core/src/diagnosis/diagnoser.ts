@@ -98,6 +98,12 @@ ${context.policyViolations ? `## Policy Violations\n${context.policyViolations.m
 
 ${context.involvedFiles ? `## Involved Files\n${context.involvedFiles.map(f => `- ${f}`).join('\n')}\n` : ''}
 
+${context.ciReport?.failedTests.length ? `## Failed Tests\n${context.ciReport.failedTests.map(t => `- ${t}`).join('\n')}\n` : ''}
+
+${context.ciReport?.newFindings.length ? `## New Static-Analysis Findings\n${context.ciReport.newFindings.map(f => `- ${f}`).join('\n')}\n` : ''}
+
+${context.ciReport?.coverageDeltaPct != null ? `## Coverage Change\n${context.ciReport.coverageDeltaPct}%\n` : ''}
+
 ## Recent Events (last ${context.recentEvents.length})
 ${context.recentEvents.slice(-10).map(e => `- ${e.type} at ${e.timestamp.toISOString()}`).join('\n')}
 
@@ -143,6 +149,11 @@ Provide your analysis in structured format with root_cause, summary, analysis, a
       return { category: 'policy_violation', confidence: 0.95 };
     }
 
+    // Failed tests reported by CI
+    if (context.ciReport && context.ciReport.failedTests.length > 0) {
+      return { category: 'test_failure', confidence: 0.95 };
+    }
+
     // Test failure patterns
     if (jobName.includes('test') || errorLower.includes('assertion') ||
         errorLower.includes('expect') || errorLower.includes('test failed')) {
@@ -419,6 +430,22 @@ Provide your analysis in structured format with root_cause, summary, analysis, a
       }
     }
 
+    if (context.ciReport && context.ciReport.failedTests.length > 0) {
+      lines.push('');
+      lines.push(`## Failed Tests`);
+      for (const test of context.ciReport.failedTests.slice(0, 10)) {
+        lines.push(`- ${test}`);
+      }
+    }
+
+    if (context.ciReport && context.ciReport.newFindings.length > 0) {
+      lines.push('');
+      lines.push(`## New Static-Analysis Findings`);
+      for (const finding of context.ciReport.newFindings.slice(0, 10)) {
+        lines.push(`- ${finding}`);
+      }
+    }
+
     return lines.join('\n');
   }
 
@@ -435,7 +462,9 @@ Provide your analysis in structured format with root_cause, summary, analysis, a
       case 'policy_violation':
         return `Policy violation in ${context.policyViolations?.[0]?.file || 'unknown file'}`;
       case 'test_failure':
-        return `Test failure in ${context.jobName}`;
+        return context.ciReport?.failedTests.length
+          ? `${context.ciReport.failedTests.length} failing test(s), first: ${context.ciReport.failedTests[0]}`
+          : `Test failure in ${context.jobName}`;
       case 'build_error':
         return `Build/compilation error`;
       case 'dependency_issue':
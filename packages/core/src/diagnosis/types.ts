@@ -45,6 +45,9 @@ export interface FailureContext {
   /** Files involved in the failure */
   involvedFiles?: string[];
 
+  /** Results from the latest CI report artifact if any */
+  ciReport?: CIReportInfo;
+
   /** Timestamp of failure */
   failedAt: Date;
 
@@ -52,6 +55,16 @@ export interface FailureContext {
   durationMs?: number;
 }
 
+/**
+ * Test, coverage and static-analysis results from a CIReportV1 artifact.
+ */
+export interface CIReportInfo {
+  runId: number;
+  failedTests: string[];
+  coverageDeltaPct: number | null;
+  newFindings: string[];
+}
+
 /**
  * Event in the failure timeline.
  */
@@ -0,0 +1,166 @@
+/**
+ * ChatOps Commands
+ *
+ * `/orchestrator` comments on an orchestrator PR or a workflow's linked
+ * issue drive the gated pipeline without the dashboard:
+ * - approve [stage]               approve the current (or named) stage
+ * - retry [stage]                 re-run the current (or named) stage
+ * - request-changes <feedback>    request changes on the current stage
+ * - status                        reply with the workflow's stage and PRs
+ *
+ * Commands act as the commenter, who must have signed in to the dashboard
+ * (GitHubAuth). Replies are posted as a comment on the same issue or PR.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const CHATOPS_COMMAND_PREFIX = '/orchestrator';
+
+export const CHATOPS_USAGE = [
+  'Usage:',
+  '- `/orchestrator approve [stage]`',
+  '- `/orchestrator retry [stage]`',
+  '- `/orchestrator request-changes <feedback>`',
+  '- `/orchestrator status`'
+].join('\n');
+
+export type ChatOpsCommand =
+  | { name: 'approve'; stage?: string }
+  | { name: 'retry'; stage?: string }
+  | { name: 'request-changes'; reason: string }
+  | { name: 'status' };
+
+export type ChatOpsParseResult =
+  | { ok: true; command: ChatOpsCommand }
+  | { ok: false; error: string };
+
+/**
+ * Result of a stage operation, as returned by the API's WorkflowsService.
+ */
+export interface StageActionResult {
+  ok: boolean;
+  error?: string;
+  newStatus?: string | null;
+  currentStage?: string | null;
+}
+
+/**
+ * The stage operations commands run: the same service paths the
+ * dashboard uses (WorkflowsService.approveStage / requestStageChanges /
+ * retryStage in the API).
+ */
+export interface ChatOpsActions {
+  approveStage(workflowId: string, stage: string, reason?: string, actorId?: string, actorName?: string): Promise<StageActionResult>;
+  requestStageChanges(workflowId: string, stage: string, reason: string, actorId?: string, actorName?: string): Promise<StageActionResult>;
+  retryStage(workflowId: string, stage: string, actorId?: string, actorName?: string): Promise<StageActionResult>;
+}
+
+export interface ChatOpsWorkflowStatus {
+  id: string;
+  title: string | null;
+  state: string;
+  stage: string;
+  stageStatus: string;
+  pullRequests: Array<{ number: number; url: string; status: string }>;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a `/orchestrator` command from a comment body.
+ * The command must start a line; quoted lines are ignored. Feedback for
+ * request-changes continues to the end of the comment.
+ * Returns null when the comment holds no command.
+ */
+export function parseChatOpsCommand(body: string | null | undefined): ChatOpsParseResult | null {
+  const lines = (body ?? '').split(/\r?\n/);
+  const index = lines.findIndex(line => {
+    const trimmed = line.trim();
+    return trimmed === CHATOPS_COMMAND_PREFIX || trimmed.startsWith(`${CHATOPS_COMMAND_PREFIX} `);
+  });
+  if (index === -1) {
+    return null;
+  }
+
+  const text = [lines[index].trim().slice(CHATOPS_COMMAND_PREFIX.length), ...lines.slice(index + 1)].join('\n').trim();
+  const [name = '', ...args] = text.split(/\s+/);
+
+  switch (name.toLowerCase()) {
+    case 'approve':
+    case 'retry': {
+      if (args.length > 1) {
+        return { ok: false, error: `\`${name}\` takes at most one stage name\n\n${CHATOPS_USAGE}` };
+      }
+      const stage = args[0]?.toLowerCase();
+      return { ok: true, command: { name: name.toLowerCase() as 'approve' | 'retry', stage } };
+    }
+
+    case 'request-changes': {
+      const reason = text.slice(name.length).trim();
+      if (!reason) {
+        return { ok: false, error: `\`request-changes\` needs feedback text\n\n${CHATOPS_USAGE}` };
+      }
+      return { ok: true, command: { name: 'request-changes', reason } };
+    }
+
+    case 'status':
+      return { ok: true, command: { name: 'status' } };
+
+    case '':
+      return { ok: false, error: CHATOPS_USAGE };
+
+    default:
+      return { ok: false, error: `Unknown command \`${name}\`\n\n${CHATOPS_USAGE}` };
+  }
+}
+
+// ============================================================================
+// Replies
+// ============================================================================
+
+/**
+ * Reply for a stage command.
+ */
+export function formatChatOpsReply(
+  command: Exclude<ChatOpsCommand, { name: 'status' }>,
+  stage: string,
+  result: StageActionResult,
+  actor: string
+): string {
+  const verb = command.name === 'approve'
+    ? 'approved'
+    : command.name === 'retry'
+      ? 'restarted'
+      : 'requested changes on';
+
+  if (result.ok) {
+    return `@${actor} ${verb} the \`${stage}\` stage (now \`${result.newStatus}\`).`;
+  }
+
+  const detail = result.error === 'WRONG_STAGE' && result.currentStage
+    ? ` (the workflow is at \`${result.currentStage}\`)`
+    : result.newStatus
+      ? ` (stage status: \`${result.newStatus}\`)`
+      : '';
+  return `@${actor} could not ${command.name} the \`${stage}\` stage: \`${result.error}\`${detail}.`;
+}
+
+/**
+ * Reply for `/orchestrator status`.
+ */
+export function formatWorkflowStatus(status: ChatOpsWorkflowStatus): string {
+  const lines = [
+    `**${status.title || 'Workflow'}** (\`${status.id}\`)`,
+    '',
+    `- Stage: \`${status.stage}\` (\`${status.stageStatus}\`)`,
+    `- State: \`${status.state}\``
+  ];
+  for (const pr of status.pullRequests) {
+    lines.push(`- PR #${pr.number} (${pr.status}): ${pr.url}`);
+  }
+  return lines.join('\n');
+}
@@ -4,9 +4,15 @@
  * This module defines the interface for GitHub operations.
  * The interface is implemented by:
  * - StubGitHubClient: For testing (no real API calls)
+ * - LocalGitClient: Against bare repositories on disk (no network)
  * - OctokitGitHubClient: For production (real GitHub API via Octokit)
  */
 
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { ScmClient } from '../scm/scm-client';
+
 // ============================================================================
 // Types for Pull Request Operations
 // ============================================================================
@@ -25,6 +31,59 @@ export type OpenPullRequestResult = {
   number: number;
 };
 
+export type MergeMethod = 'merge' | 'squash' | 'rebase';
+
+// auto_merge: merge once required checks pass; merge_queue: add to the
+// base branch's merge queue (a merge train on GitLab)
+export type MergeMode = 'auto_merge' | 'merge_queue';
+
+export type MergePullRequestParams = {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  mode: MergeMode;
+  mergeMethod: MergeMethod;
+  expectedHeadSha?: string; // refuse to merge if the head moved
+};
+
+export type MergePullRequestResult = {
+  // merged: the provider merged right away (checks had already passed)
+  status: 'auto_merge_enabled' | 'queued' | 'merged';
+  sha?: string; // merge commit, when merged
+};
+
+// ============================================================================
+// Types for Issue Comment Operations
+// ============================================================================
+
+export type CreateIssueCommentParams = {
+  owner: string;
+  repo: string;
+  issueNumber: number; // issue or pull request number
+  body: string;
+  pullRequest?: boolean; // GitLab: comment on the merge request with this IID
+};
+
+export type CreateIssueCommentResult = {
+  id: number;
+  url?: string;
+};
+
+export type ListIssueCommentsParams = {
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  pullRequest?: boolean; // GitLab: the merge request with this IID
+};
+
+export type IssueCommentInfo = {
+  id: number;
+  body: string;
+  author?: string;
+  bot?: boolean;
+  createdAt?: string;
+};
+
 // ============================================================================
 // Types for Repository Operations
 // ============================================================================
@@ -171,6 +230,56 @@ export type WorkflowRunJobsList = {
   jobs: WorkflowRunJob[];
 };
 
+export type DownloadWorkflowRunArtifactsParams = {
+  owner: string;
+  repo: string;
+  runId: number;
+  names?: string[]; // only these artifacts (default: all)
+  maxFileBytes?: number; // skip larger files (default: 10MB)
+};
+
+export type WorkflowRunArtifactFile = {
+  path: string; // path inside the artifact
+  content: string; // UTF-8 text
+};
+
+export type WorkflowRunArtifact = {
+  id: number;
+  name: string;
+  sizeInBytes: number;
+  files: WorkflowRunArtifactFile[];
+};
+
+export type WorkflowRunArtifactList = {
+  totalCount: number;
+  artifacts: WorkflowRunArtifact[];
+};
+
+export const DEFAULT_ARTIFACT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+export type ListCheckRunsParams = {
+  owner: string;
+  repo: string;
+  ref: string; // commit SHA, branch or tag
+  perPage?: number;
+};
+
+export type CheckRunInfo = {
+  id: number;
+  name: string;
+  status: 'queued' | 'in_progress' | 'completed';
+  conclusion?: 'success' | 'failure' | 'cancelled' | 'skipped' | 'neutral' | 'timed_out' | 'action_required' | 'stale' | null;
+  htmlUrl?: string;
+  appSlug?: string; // e.g. "github-actions", "codeql"
+  startedAt?: string;
+  completedAt?: string;
+};
+
+export type CheckRunList = {
+  totalCount: number;
+  checkRuns: CheckRunInfo[];
+};
+
 // ============================================================================
 // Types for Branch/Commit Operations
 // ============================================================================
@@ -201,6 +310,60 @@ export type CreateCommitResult = {
   url: string;
 };
 
+export type GetCommitParams = {
+  owner: string;
+  repo: string;
+  sha: string;
+};
+
+export type CommitInfo = {
+  sha: string;
+  treeSha: string;
+  parents: string[];
+  message: string;
+};
+
+export type CreateBlobParams = {
+  owner: string;
+  repo: string;
+  content: string;
+  encoding: 'utf-8' | 'base64';
+};
+
+export type CreateBlobResult = {
+  sha: string;
+};
+
+export type TreeEntryInput = {
+  path: string;
+  mode: '100644' | '100755' | '120000';
+  sha: string | null; // null removes the path from the base tree
+};
+
+export type CreateTreeParams = {
+  owner: string;
+  repo: string;
+  baseTree?: string; // tree SHA the entries are applied to
+  entries: TreeEntryInput[];
+};
+
+export type CreateTreeResult = {
+  sha: string;
+};
+
+export type UpdateRefParams = {
+  owner: string;
+  repo: string;
+  branch: string;
+  sha: string; // commit SHA to move the branch to
+  force?: boolean;
+};
+
+export type UpdateRefResult = {
+  ref: string;
+  sha: string;
+};
+
 export type UpdateFileParams = {
   owner: string;
   repo: string;
@@ -244,18 +407,45 @@ export interface GitHubClient {
   getFileContents(params: GetFileContentsParams): Promise<FileContents>;
   getBranch(params: GetBranchParams): Promise<BranchInfo>;
   getTree(params: GetTreeParams): Promise<TreeInfo>;
+  getCommit(params: GetCommitParams): Promise<CommitInfo>;
 
   // Actions operations (no approval needed)
   dispatchWorkflow(params: DispatchWorkflowParams): Promise<void>;
   listWorkflowRuns(params: ListWorkflowRunsParams): Promise<WorkflowRunList>;
   getWorkflowRun(params: GetWorkflowRunParams): Promise<WorkflowRunInfo>;
   getWorkflowRunJobs(params: GetWorkflowRunJobsParams): Promise<WorkflowRunJobsList>;
+  listCheckRuns(params: ListCheckRunsParams): Promise<CheckRunList>;
+  downloadWorkflowRunArtifacts(params: DownloadWorkflowRunArtifactsParams): Promise<WorkflowRunArtifactList>;
+
+  // Comment operations (no approval needed; status replies on issues and PRs)
+  listIssueComments(params: ListIssueCommentsParams): Promise<IssueCommentInfo[]>;
+  createIssueComment(params: CreateIssueCommentParams): Promise<CreateIssueCommentResult>;
 
   // Write operations (require approval via WriteGate)
   createBranch(params: CreateBranchParams): Promise<CreateBranchResult>;
   updateFile(params: UpdateFileParams): Promise<UpdateFileResult>;
   deleteFile(params: DeleteFileParams): Promise<DeleteFileResult>;
   openPullRequest(params: OpenPullRequestParams): Promise<OpenPullRequestResult>;
+  mergePullRequest(params: MergePullRequestParams): Promise<MergePullRequestResult>;
+
+  // Git Data operations (require approval; used for atomic multi-file commits)
+  createBlob(params: CreateBlobParams): Promise<CreateBlobResult>;
+  createTree(params: CreateTreeParams): Promise<CreateTreeResult>;
+  createCommit(params: CreateCommitParams): Promise<CreateCommitResult>;
+  updateRef(params: UpdateRefParams): Promise<UpdateRefResult>;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Whether a read failed because the path or ref does not exist: a 404 from
+ * the GitHub or GitLab API, "Not Found" from the local git client.
+ */
+export function isNotFoundError(err: unknown): boolean {
+  const { status, message } = (err ?? {}) as { status?: number; message?: unknown };
+  return status === 404 || (typeof message === 'string' && /^not found\b/i.test(message));
 }
 
 // ============================================================================
@@ -273,14 +463,80 @@ export interface GitHubAppConfig {
 // Stub Implementation (for testing)
 // ============================================================================
 
+/**
+ * Serve a directory of fixture files as run artifacts: each subdirectory
+ * is one artifact named after it. A missing directory has no artifacts.
+ */
+export function readRunArtifactsDir(
+  dir: string | undefined,
+  params: Pick<DownloadWorkflowRunArtifactsParams, 'names' | 'maxFileBytes'>
+): WorkflowRunArtifactList {
+  if (!dir || !existsSync(dir)) {
+    return { totalCount: 0, artifacts: [] };
+  }
+
+  const maxFileBytes = params.maxFileBytes ?? DEFAULT_ARTIFACT_MAX_FILE_BYTES;
+  const listFiles = (root: string, prefix = ''): WorkflowRunArtifactFile[] =>
+    readdirSync(join(root, prefix), { withFileTypes: true }).flatMap(entry => {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        return listFiles(root, path);
+      }
+      const content = readFileSync(join(root, path));
+      return content.length > maxFileBytes ? [] : [{ path, content: content.toString('utf8') }];
+    });
+
+  const artifacts = readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .filter(entry => !params.names || params.names.includes(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((entry, index): WorkflowRunArtifact => {
+      const files = listFiles(join(dir, entry.name));
+      return {
+        id: 3001 + index,
+        name: entry.name,
+        sizeInBytes: files.reduce((sum, f) => sum + Buffer.byteLength(f.content), 0),
+        files
+      };
+    });
+
+  return { totalCount: artifacts.length, artifacts };
+}
+
 /**
  * Stub implementation of GitHubClient for testing.
  * Returns mock data without making real API calls.
  */
-export class StubGitHubClient implements GitHubClient {
+export type StubGitHubClientOptions = {
+  /**
+   * Directory of fixture files served as run artifacts: each
+   * subdirectory is one artifact named after it.
+   */
+  runArtifactsDir?: string;
+};
+
+// Files every stub repository has
+const STUB_TREE: TreeInfo['tree'] = [
+  { path: 'README.md', mode: '100644', type: 'blob', sha: 'stub-blob-1', size: 100 },
+  { path: 'package.json', mode: '100644', type: 'blob', sha: 'stub-blob-2', size: 500 },
+  { path: 'src', mode: '040000', type: 'tree', sha: 'stub-tree-1' },
+  { path: 'src/index.ts', mode: '100644', type: 'blob', sha: 'stub-blob-3', size: 200 },
+];
+
+export class StubGitHubClient implements ScmClient {
+  readonly provider = 'github' as const;
   private nextPrNumber = 1;
   private readonly createdBranches: Map<string, CreateBranchResult> = new Map();
   private readonly createdFiles: Map<string, UpdateFileResult> = new Map();
+  private readonly comments: Array<CreateIssueCommentParams & { id: number }> = [];
+
+  // Git Data objects, keyed by SHA; trees map full paths to blob SHAs
+  private readonly blobs: Map<string, string> = new Map();
+  private readonly trees: Map<string, Map<string, string>> = new Map();
+  private readonly commits: Map<string, CommitInfo> = new Map();
+  private readonly refs: Map<string, string> = new Map();
+
+  constructor(private readonly options: StubGitHubClientOptions = {}) {}
 
   async getRepository(params: GetRepositoryParams): Promise<RepositoryInfo> {
     return {
@@ -296,7 +552,26 @@ export class StubGitHubClient implements GitHubClient {
     };
   }
 
+  /**
+   * Content committed through the Git Data API at `ref` (a branch or commit
+   * SHA), else placeholder content for the files getTree lists. Any other
+   * path is Not Found, like a file missing from the repository.
+   */
   async getFileContents(params: GetFileContentsParams): Promise<FileContents> {
+    const commitSha = params.ref ? this.refs.get(params.ref) ?? params.ref : undefined;
+    const committed = commitSha ? this.getCommitFiles(commitSha).get(params.path) : undefined;
+    if (committed !== undefined) {
+      return {
+        path: params.path,
+        content: committed,
+        sha: createHash('sha1').update(`blob ${Buffer.byteLength(committed)}\0`).update(committed).digest('hex'),
+        size: Buffer.byteLength(committed)
+      };
+    }
+
+    if (!STUB_TREE.some(entry => entry.type === 'blob' && entry.path === params.path)) {
+      throw new Error(`Not Found: ${params.path}`);
+    }
     return {
       path: params.path,
       content: '// stub file content',
@@ -316,16 +591,20 @@ export class StubGitHubClient implements GitHubClient {
   async getTree(params: GetTreeParams): Promise<TreeInfo> {
     return {
       sha: params.sha,
-      tree: [
-        { path: 'README.md', mode: '100644', type: 'blob', sha: 'stub-blob-1', size: 100 },
-        { path: 'package.json', mode: '100644', type: 'blob', sha: 'stub-blob-2', size: 500 },
-        { path: 'src', mode: '040000', type: 'tree', sha: 'stub-tree-1' },
-        { path: 'src/index.ts', mode: '100644', type: 'blob', sha: 'stub-blob-3', size: 200 },
-      ],
+      tree: STUB_TREE.map(entry => ({ ...entry })),
       truncated: false
     };
   }
 
+  async getCommit(params: GetCommitParams): Promise<CommitInfo> {
+    return this.commits.get(params.sha) ?? {
+      sha: params.sha,
+      treeSha: `stub-tree-${params.sha}`,
+      parents: [],
+      message: 'Stub commit'
+    };
+  }
+
   async dispatchWorkflow(_params: DispatchWorkflowParams): Promise<void> {
     return;
   }
@@ -394,12 +673,50 @@ export class StubGitHubClient implements GitHubClient {
     };
   }
 
+  async listCheckRuns(_params: ListCheckRunsParams): Promise<CheckRunList> {
+    return {
+      totalCount: 1,
+      checkRuns: [
+        {
+          id: 2001,
+          name: 'test',
+          status: 'completed',
+          conclusion: 'success',
+          htmlUrl: 'https://github.com/example/repo/runs/2001',
+          appSlug: 'github-actions',
+          startedAt: new Date().toISOString(),
+          completedAt: new Date().toISOString()
+        }
+      ]
+    };
+  }
+
+  async downloadWorkflowRunArtifacts(params: DownloadWorkflowRunArtifactsParams): Promise<WorkflowRunArtifactList> {
+    return readRunArtifactsDir(this.options.runArtifactsDir, params);
+  }
+
+  async listIssueComments(params: ListIssueCommentsParams): Promise<IssueCommentInfo[]> {
+    return this.comments
+      .filter(c => c.owner === params.owner && c.repo === params.repo && c.issueNumber === params.issueNumber)
+      .map(c => ({ id: c.id, body: c.body, author: 'arch-orchestrator[bot]', bot: true }));
+  }
+
+  async createIssueComment(params: CreateIssueCommentParams): Promise<CreateIssueCommentResult> {
+    const id = this.comments.length + 1;
+    this.comments.push({ ...params, id });
+    return {
+      id,
+      url: `https://github.com/${params.owner}/${params.repo}/issues/${params.issueNumber}#issuecomment-${id}`
+    };
+  }
+
   async createBranch(params: CreateBranchParams): Promise<CreateBranchResult> {
     const result: CreateBranchResult = {
       ref: `refs/heads/${params.branch}`,
       sha: params.sha
     };
     this.createdBranches.set(params.branch, result);
+    this.refs.set(params.branch, params.sha);
     return result;
   }
 
@@ -428,7 +745,75 @@ export class StubGitHubClient implements GitHubClient {
     };
   }
 
+  async mergePullRequest(params: MergePullRequestParams): Promise<MergePullRequestResult> {
+    return { status: params.mode === 'merge_queue' ? 'queued' : 'auto_merge_enabled' };
+  }
+
+  async createBlob(params: CreateBlobParams): Promise<CreateBlobResult> {
+    const content = Buffer.from(params.content, params.encoding === 'base64' ? 'base64' : 'utf8');
+    // Same SHA as git hash-object
+    const sha = createHash('sha1')
+      .update(`blob ${content.length}\0`)
+      .update(content)
+      .digest('hex');
+    this.blobs.set(sha, content.toString('utf8'));
+    return { sha };
+  }
+
+  async createTree(params: CreateTreeParams): Promise<CreateTreeResult> {
+    const entries = new Map(params.baseTree ? this.trees.get(params.baseTree) : undefined);
+    for (const entry of params.entries) {
+      if (entry.sha === null) {
+        entries.delete(entry.path);
+      } else {
+        entries.set(entry.path, entry.sha);
+      }
+    }
+
+    const listing = Array.from(entries).sort(([a], [b]) => a.localeCompare(b));
+    const sha = createHash('sha1')
+      .update(`${params.baseTree ?? ''}\0${JSON.stringify(listing)}`)
+      .digest('hex');
+    this.trees.set(sha, entries);
+    return { sha };
+  }
+
+  async createCommit(params: CreateCommitParams): Promise<CreateCommitResult> {
+    const sha = createHash('sha1')
+      .update(`${params.tree}\0${params.parents.join(',')}\0${params.message}`)
+      .digest('hex');
+    this.commits.set(sha, {
+      sha,
+      treeSha: params.tree,
+      parents: params.parents,
+      message: params.message
+    });
+    return {
+      sha,
+      message: params.message,
+      url: `https://github.com/${params.owner}/${params.repo}/commit/${sha}`
+    };
+  }
+
+  async updateRef(params: UpdateRefParams): Promise<UpdateRefResult> {
+    if (!this.refs.has(params.branch)) {
+      throw new Error(`Reference does not exist: heads/${params.branch}`);
+    }
+    this.refs.set(params.branch, params.sha);
+    return { ref: `refs/heads/${params.branch}`, sha: params.sha };
+  }
+
   // Test helpers
+  getRef(branch: string): string | undefined {
+    return this.refs.get(branch);
+  }
+
+  getCommitFiles(sha: string): Map<string, string> {
+    const commit = this.commits.get(sha);
+    const tree = commit ? this.trees.get(commit.treeSha) : undefined;
+    return new Map(Array.from(tree ?? [], ([path, blobSha]) => [path, this.blobs.get(blobSha) ?? '']));
+  }
+
   getCreatedBranches(): Map<string, CreateBranchResult> {
     return new Map(this.createdBranches);
   }
@@ -437,9 +822,18 @@ export class StubGitHubClient implements GitHubClient {
     return new Map(this.createdFiles);
   }
 
+  getComments(): Array<CreateIssueCommentParams & { id: number }> {
+    return [...this.comments];
+  }
+
   reset(): void {
     this.nextPrNumber = 1;
     this.createdBranches.clear();
     this.createdFiles.clear();
+    this.comments.length = 0;
+    this.blobs.clear();
+    this.trees.clear();
+    this.commits.clear();
+    this.refs.clear();
   }
 }
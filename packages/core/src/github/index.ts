@@ -1,9 +1,15 @@
 // Re-export interface and stub (safe for unit tests)
 export * from './github-client';
+export * from './local-git-client';
+export * from './zip';
 export * from './patch-applicator';
 export * from './diff-generator';
+export * from './three-way-merge';
 export * from './webhook';
 export * from './webhook-service';
+export * from './chatops';
+export * from './issue-intake';
+export * from './pull-request-merger';
 
 // Note: octokit-client is not re-exported here because it uses ESM imports
 // that don't work well with Jest's CommonJS transform.
@@ -0,0 +1,201 @@
+/**
+ * Issue Intake
+ *
+ * Labeling an issue (ORCHESTRATOR_ISSUE_LABEL, default `orchestrator`)
+ * creates a gated-pipeline workflow for it:
+ * - featureGoal and title from the issue title
+ * - context from the issue body and its discussion (bot comments and
+ *   ChatOps commands are left out)
+ * - the issue's repository as the primary WorkflowRepo, on its default branch
+ *
+ * The workflow keeps the issue reference. Stage progress is posted back as
+ * issue comments, and the PR body closes the issue when the PR merges.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { GitHubClient, IssueCommentInfo } from './github-client';
+import { CHATOPS_COMMAND_PREFIX } from './chatops';
+import { DEFAULT_SCM_PROVIDER, type ScmProvider } from '../scm/scm-client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DEFAULT_ISSUE_LABEL = 'orchestrator';
+
+export interface IssueReference {
+  owner: string;
+  repo: string;
+  number: number;
+}
+
+export interface IssueIntakeInput extends IssueReference {
+  title: string;
+  body?: string | null;
+  url?: string;
+  provider?: ScmProvider;
+}
+
+export interface IssueIntakeResult {
+  workflowId: string;
+  created: boolean;
+}
+
+/**
+ * The workflow fields progress comments are built from.
+ */
+export interface IssueProgressState {
+  id: string;
+  state: string;
+  stage: string;
+  stageStatus: string;
+  pullRequests?: Array<{ number: number; url: string; status: string }>;
+}
+
+const TERMINAL_STATES = ['DONE', 'FAILED', 'BLOCKED_POLICY', 'NEEDS_HUMAN', 'REJECTED'];
+
+// ============================================================================
+// Intake
+// ============================================================================
+
+/**
+ * Build workflow context from the issue body and its discussion.
+ */
+export function buildIssueContext(issue: IssueIntakeInput, comments: IssueCommentInfo[]): string {
+  const lines = [`Issue: ${issue.owner}/${issue.repo}#${issue.number}${issue.url ? ` (${issue.url})` : ''}`];
+
+  if (issue.body?.trim()) {
+    lines.push('', issue.body.trim());
+  }
+
+  const discussion = comments.filter(c =>
+    !c.bot && c.body.trim() && !c.body.trim().startsWith(CHATOPS_COMMAND_PREFIX)
+  );
+  if (discussion.length > 0) {
+    lines.push('', '## Issue comments');
+    for (const comment of discussion) {
+      lines.push('', `**@${comment.author ?? 'unknown'}:**`, comment.body.trim());
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Create a workflow for a labeled issue. An issue that already has a
+ * workflow keeps it (relabeling does not start another one).
+ * The caller emits E_WORKFLOW_CREATED for new workflows.
+ */
+export async function createWorkflowFromIssue(
+  prisma: PrismaClient,
+  client: GitHubClient,
+  issue: IssueIntakeInput
+): Promise<IssueIntakeResult> {
+  const existing = await prisma.workflow.findFirst({
+    where: { issueOwner: issue.owner, issueRepo: issue.repo, issueNumber: issue.number },
+    orderBy: { createdAt: 'desc' }
+  });
+  if (existing) {
+    return { workflowId: existing.id, created: false };
+  }
+
+  const repository = await client.getRepository({ owner: issue.owner, repo: issue.repo });
+  const comments = await client.listIssueComments({ owner: issue.owner, repo: issue.repo, issueNumber: issue.number });
+  const baseBranch = repository.defaultBranch || 'main';
+
+  const workflow = await prisma.workflow.create({
+    data: {
+      state: 'INTAKE',
+      featureGoal: issue.title,
+      stage: 'feasibility',
+      stageStatus: 'pending',
+      stageUpdatedAt: new Date(),
+      goal: issue.title,
+      context: buildIssueContext(issue, comments),
+      title: issue.title.substring(0, 100),
+      repoOwner: issue.owner,
+      repoName: issue.repo,
+      baseBranch,
+      issueOwner: issue.owner,
+      issueRepo: issue.repo,
+      issueNumber: issue.number,
+      repos: {
+        create: [{
+          owner: issue.owner,
+          repo: issue.repo,
+          baseBranch,
+          role: 'primary',
+          provider: issue.provider ?? DEFAULT_SCM_PROVIDER
+        }]
+      }
+    }
+  });
+
+  await prisma.workflowEvent.create({
+    data: {
+      workflowId: workflow.id,
+      type: 'issue.create',
+      payload: {
+        owner: issue.owner,
+        repo: issue.repo,
+        number: issue.number,
+        url: issue.url ?? null,
+        title: issue.title,
+        comments: comments.length
+      }
+    }
+  });
+
+  return { workflowId: workflow.id, created: true };
+}
+
+// ============================================================================
+// Progress and Linking
+// ============================================================================
+
+/**
+ * Closing keyword for the PR body; GitHub closes the issue when the PR
+ * merges into the default branch.
+ */
+export function issueClosingReference(issue: IssueReference, prRepo: { owner: string; repo: string }): string {
+  const sameRepo = issue.owner === prRepo.owner && issue.repo === prRepo.repo;
+  return `Closes ${sameRepo ? '' : `${issue.owner}/${issue.repo}`}#${issue.number}`;
+}
+
+/**
+ * Key of the progress a comment reports; one comment is posted per key.
+ */
+export function issueProgressKey(workflow: IssueProgressState): string {
+  return TERMINAL_STATES.includes(workflow.state)
+    ? `state:${workflow.state}`
+    : `${workflow.stage}:${workflow.stageStatus}`;
+}
+
+/**
+ * Progress comment for the workflow's current stage, or null when there is
+ * nothing to report (work in progress, stage just started).
+ */
+export function formatIssueProgress(workflow: IssueProgressState): string | null {
+  const prs = (workflow.pullRequests ?? []).map(pr => `- PR #${pr.number} (${pr.status}): ${pr.url}`);
+
+  if (workflow.state === 'DONE') {
+    return ['Workflow complete.', ...prs].join('\n');
+  }
+  if (TERMINAL_STATES.includes(workflow.state)) {
+    return `Workflow stopped (\`${workflow.state}\`) at the \`${workflow.stage}\` stage.`;
+  }
+
+  switch (workflow.stageStatus) {
+    case 'ready':
+      return [
+        `The \`${workflow.stage}\` stage is ready for review. Comment \`/orchestrator approve\` to continue.`,
+        ...prs
+      ].join('\n');
+    case 'blocked':
+      return `The \`${workflow.stage}\` stage is blocked. Comment \`/orchestrator retry\` or \`/orchestrator status\` for details.`;
+    case 'needs_changes':
+      return `Changes were requested on the \`${workflow.stage}\` stage; it will be re-run.`;
+    default:
+      return null;
+  }
+}
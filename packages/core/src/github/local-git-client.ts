@@ -0,0 +1,690 @@
+/**
+ * Local Git Client
+ *
+ * GitHubClient backed by bare repositories on disk instead of the REST
+ * API. Trees, blobs and commits are read and written with git plumbing
+ * commands; pull requests, comments and dispatched workflow runs are
+ * recorded in a JSON sidecar inside each repository. There are no required
+ * checks locally, so enabling auto-merge or queueing a pull request merges
+ * it right away.
+ *
+ * Repositories live at `<reposDir>/<owner>/<repo>.git`. With a remote URL
+ * they are cloned on first use and their branches fetched once per client
+ * instance, so the client also works as a mirror cache for ingest. Without
+ * one, the repositories must already exist (e.g. fixture repositories).
+ */
+
+import { spawn } from 'child_process';
+import { createHash, randomBytes } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import {
+  readRunArtifactsDir,
+  type BranchInfo,
+  type CheckRunList,
+  type CommitInfo,
+  type CreateBlobParams,
+  type CreateBlobResult,
+  type CreateBranchParams,
+  type CreateBranchResult,
+  type CreateCommitParams,
+  type CreateCommitResult,
+  type CreateIssueCommentParams,
+  type CreateIssueCommentResult,
+  type IssueCommentInfo,
+  type ListIssueCommentsParams,
+  type CreateTreeParams,
+  type CreateTreeResult,
+  type DeleteFileParams,
+  type DeleteFileResult,
+  type DispatchWorkflowParams,
+  type DownloadWorkflowRunArtifactsParams,
+  type FileContents,
+  type GetBranchParams,
+  type GetCommitParams,
+  type GetFileContentsParams,
+  type GetRepositoryParams,
+  type GetTreeParams,
+  type GetWorkflowRunJobsParams,
+  type GetWorkflowRunParams,
+  type ListCheckRunsParams,
+  type ListWorkflowRunsParams,
+  type MergePullRequestParams,
+  type MergePullRequestResult,
+  type OpenPullRequestParams,
+  type OpenPullRequestResult,
+  type RepositoryInfo,
+  type TreeEntryInput,
+  type TreeInfo,
+  type TreeItem,
+  type UpdateFileParams,
+  type UpdateFileResult,
+  type UpdateRefParams,
+  type UpdateRefResult,
+  type WorkflowRunArtifactList,
+  type WorkflowRunInfo,
+  type WorkflowRunJobsList,
+  type WorkflowRunList
+} from './github-client';
+import type { ScmClient } from '../scm/scm-client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LocalGitClientOptions = {
+  /** Directory holding the bare repositories */
+  reposDir: string;
+  /** Clone/fetch source with {owner} and {repo} placeholders, e.g. https://github.com/{owner}/{repo}.git */
+  remoteUrl?: string;
+  /** Author and committer of commits created by the client */
+  author?: { name: string; email: string };
+  /** Conclusion recorded for dispatched workflows; without it dispatching fails */
+  dispatchConclusion?: WorkflowRunInfo['conclusion'];
+  /** Fixture files served as run artifacts (see readRunArtifactsDir) */
+  runArtifactsDir?: string;
+};
+
+export type LocalPullRequest = {
+  number: number;
+  title: string;
+  body?: string;
+  head: string;
+  base: string;
+  headSha: string;
+  state: 'open' | 'merged';
+  createdAt: string;
+  mergedAt?: string;
+  mergeCommitSha?: string;
+};
+
+export type LocalComment = {
+  id: number;
+  issueNumber: number;
+  body: string;
+  createdAt: string;
+};
+
+type LocalWorkflowRun = WorkflowRunInfo & { workflowId: string };
+
+type Sidecar = {
+  pullRequests: LocalPullRequest[];
+  workflowRuns: LocalWorkflowRun[];
+  comments?: LocalComment[];
+};
+
+export const LOCAL_GIT_SIDECAR_FILE = 'orchestrator.json';
+
+const DEFAULT_AUTHOR = { name: 'arch-orchestrator', email: 'arch-orchestrator@localhost' };
+const NULL_SHA = '0'.repeat(40);
+
+// ============================================================================
+// Git Process
+// ============================================================================
+
+type GitOptions = {
+  gitDir?: string;
+  input?: Buffer | string;
+  env?: Record<string, string>;
+};
+
+/**
+ * Run a git command and return its stdout. Rejects with git's stderr on a
+ * non-zero exit.
+ */
+function runGit(args: string[], options: GitOptions = {}): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', [...(options.gitDir ? ['--git-dir', options.gitDir] : []), ...args], {
+      env: { ...process.env, ...options.env },
+      stdio: [options.input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe']
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout!.on('data', chunk => stdout.push(chunk));
+    child.stderr!.on('data', chunk => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        const message = Buffer.concat(stderr).toString('utf8').trim() || `exit code ${code}`;
+        reject(new Error(`git ${args[0]} failed: ${message}`));
+      }
+    });
+
+    if (child.stdin) {
+      // A command that exits early reports its own error on close
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(options.input);
+    }
+  });
+}
+
+// ============================================================================
+// Local Implementation
+// ============================================================================
+
+export class LocalGitClient implements ScmClient {
+  readonly provider = 'github' as const;
+  private readonly synced = new Set<string>();
+
+  constructor(private readonly options: LocalGitClientOptions) {}
+
+  /**
+   * Path of the bare repository for owner/repo. Names that could leave
+   * reposDir ("..", path separators) are rejected.
+   */
+  repoPath(owner: string, repo: string): string {
+    for (const name of [owner, repo]) {
+      if (!name || name === '.' || name === '..' || /[\\/]/.test(name) || name.includes('\0')) {
+        throw new Error(`Validation Failed: invalid repository ${owner}/${repo}`);
+      }
+    }
+    return join(this.options.reposDir, owner, `${repo}.git`);
+  }
+
+  /**
+   * Clone the repository from the remote if missing, otherwise fetch its
+   * branches. Without a remote the repository must already exist.
+   */
+  async sync(owner: string, repo: string): Promise<string> {
+    const dir = this.repoPath(owner, repo);
+    const remote = this.options.remoteUrl
+      ?.replace(/\{owner\}/g, owner)
+      .replace(/\{repo\}/g, repo);
+
+    if (!existsSync(dir)) {
+      if (!remote) {
+        throw new Error(`Not Found: repository ${owner}/${repo} does not exist in ${this.options.reposDir}`);
+      }
+      await mkdir(dirname(dir), { recursive: true });
+      await runGit(['clone', '--bare', '--quiet', remote, dir]);
+    } else if (remote) {
+      // Remote branches win; branches created locally are kept
+      await this.git(dir, ['fetch', '--quiet', '--update-head-ok', remote, '+refs/heads/*:refs/heads/*']);
+    }
+
+    this.synced.add(`${owner}/${repo}`);
+    return dir;
+  }
+
+  async getRepository(params: GetRepositoryParams): Promise<RepositoryInfo> {
+    const dir = await this.open(params.owner, params.repo);
+    const fullName = `${params.owner}/${params.repo}`;
+    return {
+      id: parseInt(createHash('sha1').update(fullName).digest('hex').slice(0, 8), 16),
+      name: params.repo,
+      fullName,
+      defaultBranch: await this.defaultBranch(dir),
+      private: true,
+      htmlUrl: `file://${dir}`,
+      description: null,
+      language: null,
+      topics: []
+    };
+  }
+
+  async getFileContents(params: GetFileContentsParams): Promise<FileContents> {
+    const dir = await this.open(params.owner, params.repo);
+    const sha = await this.resolve(dir, `${params.ref ?? 'HEAD'}:${params.path}`);
+    if (!sha) {
+      throw new Error(`Not Found: ${params.path} at ${params.ref ?? 'HEAD'}`);
+    }
+    const type = (await this.git(dir, ['cat-file', '-t', sha])).toString('utf8').trim();
+    if (type !== 'blob') {
+      throw new Error(`Not a file: ${params.path} is a ${type}`);
+    }
+
+    const content = await this.git(dir, ['cat-file', 'blob', sha]);
+    return {
+      path: params.path,
+      content: content.toString('utf8'),
+      sha,
+      size: content.length
+    };
+  }
+
+  async getBranch(params: GetBranchParams): Promise<BranchInfo> {
+    const dir = await this.open(params.owner, params.repo);
+    const sha = await this.resolve(dir, `refs/heads/${params.branch}`);
+    if (!sha) {
+      throw new Error(`Branch not found: ${params.branch}`);
+    }
+    return {
+      name: params.branch,
+      sha,
+      protected: params.branch === await this.defaultBranch(dir)
+    };
+  }
+
+  async getTree(params: GetTreeParams): Promise<TreeInfo> {
+    const dir = await this.open(params.owner, params.repo);
+    const treeSha = await this.resolve(dir, `${params.sha}^{tree}`);
+    if (!treeSha) {
+      throw new Error(`Not Found: tree ${params.sha}`);
+    }
+
+    const args = ['ls-tree', '-z', '-l', ...(params.recursive ? ['-r', '-t'] : []), treeSha];
+    const tree: TreeItem[] = [];
+    for (const line of (await this.git(dir, args)).toString('utf8').split('\0')) {
+      const match = line.match(/^(\d+) (blob|tree|commit) ([0-9a-f]+) +(\S+)\t(.+)$/);
+      // Submodules (commit entries) are not part of the tree's content
+      if (!match || match[2] === 'commit') continue;
+      const [, mode, type, sha, size, path] = match;
+      tree.push({
+        path,
+        mode,
+        type: type as TreeItem['type'],
+        sha,
+        ...(size !== '-' ? { size: Number(size) } : {})
+      });
+    }
+
+    return { sha: treeSha, tree, truncated: false };
+  }
+
+  async getCommit(params: GetCommitParams): Promise<CommitInfo> {
+    const dir = await this.open(params.owner, params.repo);
+    const sha = await this.resolve(dir, `${params.sha}^{commit}`);
+    if (!sha) {
+      throw new Error(`Not Found: commit ${params.sha}`);
+    }
+
+    const raw = (await this.git(dir, ['cat-file', 'commit', sha])).toString('utf8');
+    const separator = raw.indexOf('\n\n');
+    const headers = raw.slice(0, separator === -1 ? raw.length : separator).split('\n');
+    const message = separator === -1 ? '' : raw.slice(separator + 2);
+
+    return {
+      sha,
+      treeSha: headers.find(h => h.startsWith('tree '))!.slice(5),
+      parents: headers.filter(h => h.startsWith('parent ')).map(h => h.slice(7)),
+      message: message.endsWith('\n') ? message.slice(0, -1) : message
+    };
+  }
+
+  async dispatchWorkflow(params: DispatchWorkflowParams): Promise<void> {
+    if (!this.options.dispatchConclusion) {
+      throw new Error('Workflow dispatch is not available for local repositories');
+    }
+    const dir = await this.open(params.owner, params.repo);
+    const headSha = await this.resolve(dir, `${params.ref}^{commit}`);
+    if (!headSha) {
+      throw new Error(`No ref found for: ${params.ref}`);
+    }
+
+    await this.updateSidecar(dir, sidecar => {
+      const id = sidecar.workflowRuns.length + 1;
+      const now = new Date().toISOString();
+      sidecar.workflowRuns.push({
+        id,
+        workflowId: params.workflowId,
+        status: 'completed',
+        conclusion: this.options.dispatchConclusion,
+        htmlUrl: `file://${dir}/actions/runs/${id}`,
+        headSha,
+        headBranch: params.ref,
+        event: 'workflow_dispatch',
+        createdAt: now,
+        updatedAt: now
+      });
+    });
+  }
+
+  async listWorkflowRuns(params: ListWorkflowRunsParams): Promise<WorkflowRunList> {
+    const dir = await this.open(params.owner, params.repo);
+    const runs = (await this.readSidecar(dir)).workflowRuns
+      .filter(run => !params.workflowId || run.workflowId === params.workflowId)
+      .filter(run => !params.branch || run.headBranch === params.branch)
+      .filter(run => !params.event || run.event === params.event)
+      .reverse();
+
+    return {
+      totalCount: runs.length,
+      runs: runs.slice(0, params.perPage ?? 30).map(({ workflowId: _workflowId, ...run }) => run)
+    };
+  }
+
+  async getWorkflowRun(params: GetWorkflowRunParams): Promise<WorkflowRunInfo> {
+    const { workflowId: _workflowId, ...run } = await this.findRun(params.owner, params.repo, params.runId);
+    return run;
+  }
+
+  async getWorkflowRunJobs(params: GetWorkflowRunJobsParams): Promise<WorkflowRunJobsList> {
+    const run = await this.findRun(params.owner, params.repo, params.runId);
+    return {
+      totalCount: 1,
+      jobs: [{
+        id: run.id * 1000 + 1,
+        name: run.workflowId,
+        status: run.status,
+        conclusion: run.conclusion,
+        htmlUrl: run.htmlUrl,
+        startedAt: run.createdAt,
+        completedAt: run.updatedAt,
+        steps: []
+      }]
+    };
+  }
+
+  async listCheckRuns(params: ListCheckRunsParams): Promise<CheckRunList> {
+    const dir = await this.open(params.owner, params.repo);
+    const sha = await this.resolve(dir, `${params.ref}^{commit}`);
+    const checkRuns = (await this.readSidecar(dir)).workflowRuns
+      .filter(run => run.headSha === sha)
+      .slice(0, params.perPage ?? 100)
+      .map(run => ({
+        id: run.id,
+        name: run.workflowId,
+        status: run.status,
+        conclusion: run.conclusion,
+        htmlUrl: run.htmlUrl,
+        appSlug: 'local',
+        startedAt: run.createdAt,
+        completedAt: run.updatedAt
+      }));
+
+    return { totalCount: checkRuns.length, checkRuns };
+  }
+
+  async downloadWorkflowRunArtifacts(params: DownloadWorkflowRunArtifactsParams): Promise<WorkflowRunArtifactList> {
+    return readRunArtifactsDir(this.options.runArtifactsDir, params);
+  }
+
+  async listIssueComments(params: ListIssueCommentsParams): Promise<IssueCommentInfo[]> {
+    return (await this.listComments(params.owner, params.repo))
+      .filter(comment => comment.issueNumber === params.issueNumber)
+      .map(comment => ({ id: comment.id, body: comment.body, createdAt: comment.createdAt }));
+  }
+
+  async createIssueComment(params: CreateIssueCommentParams): Promise<CreateIssueCommentResult> {
+    const dir = await this.open(params.owner, params.repo);
+
+    let id = 0;
+    await this.updateSidecar(dir, sidecar => {
+      const comments = sidecar.comments ?? (sidecar.comments = []);
+      id = comments.length + 1;
+      comments.push({ id, issueNumber: params.issueNumber, body: params.body, createdAt: new Date().toISOString() });
+    });
+
+    return { id, url: `file://${dir}/issues/${params.issueNumber}#comment-${id}` };
+  }
+
+  async createBranch(params: CreateBranchParams): Promise<CreateBranchResult> {
+    const dir = await this.open(params.owner, params.repo);
+    const sha = await this.resolve(dir, `${params.sha}^{commit}`);
+    if (!sha) {
+      throw new Error(`Object does not exist: ${params.sha}`);
+    }
+    if (await this.resolve(dir, `refs/heads/${params.branch}`)) {
+      throw new Error(`Reference already exists: heads/${params.branch}`);
+    }
+
+    await this.git(dir, ['update-ref', `refs/heads/${params.branch}`, sha, NULL_SHA]);
+    return { ref: `refs/heads/${params.branch}`, sha };
+  }
+
+  async updateFile(params: UpdateFileParams): Promise<UpdateFileResult> {
+    const dir = await this.open(params.owner, params.repo);
+    const head = await this.branchHead(dir, params.branch);
+    const current = await this.resolve(dir, `${head}:${params.path}`);
+    if (current && params.sha !== current) {
+      throw new Error(`${params.path} does not match ${params.sha ?? '(no sha)'}`);
+    }
+
+    const { sha } = await this.writeBlob(dir, Buffer.from(params.content, 'base64'));
+    const mode = current ? await this.fileMode(dir, head, params.path) : '100644';
+    const tree = await this.writeTree(dir, `${head}^{tree}`, [{ path: params.path, mode, sha }]);
+    const commitSha = await this.writeCommit(dir, tree, [head], params.message);
+    await this.moveBranch(dir, params.branch, commitSha, head);
+
+    return { path: params.path, sha, commitSha };
+  }
+
+  async deleteFile(params: DeleteFileParams): Promise<DeleteFileResult> {
+    const dir = await this.open(params.owner, params.repo);
+    const head = await this.branchHead(dir, params.branch);
+    const current = await this.resolve(dir, `${head}:${params.path}`);
+    if (!current) {
+      throw new Error(`Not Found: ${params.path} on ${params.branch}`);
+    }
+    if (params.sha !== current) {
+      throw new Error(`${params.path} does not match ${params.sha}`);
+    }
+
+    const tree = await this.writeTree(dir, `${head}^{tree}`, [{ path: params.path, mode: '100644', sha: null }]);
+    const commitSha = await this.writeCommit(dir, tree, [head], params.message);
+    await this.moveBranch(dir, params.branch, commitSha, head);
+
+    return { commitSha };
+  }
+
+  async openPullRequest(params: OpenPullRequestParams): Promise<OpenPullRequestResult> {
+    const dir = await this.open(params.owner, params.repo);
+    const headSha = await this.branchHead(dir, params.head);
+    await this.branchHead(dir, params.base);
+
+    let number = 0;
+    await this.updateSidecar(dir, sidecar => {
+      number = sidecar.pullRequests.length + 1;
+      sidecar.pullRequests.push({
+        number,
+        title: params.title,
+        body: params.body,
+        head: params.head,
+        base: params.base,
+        headSha,
+        state: 'open',
+        createdAt: new Date().toISOString()
+      });
+    });
+
+    return { url: `file://${dir}/pull/${number}`, number };
+  }
+
+  async mergePullRequest(params: MergePullRequestParams): Promise<MergePullRequestResult> {
+    const dir = await this.open(params.owner, params.repo);
+    const pr = (await this.readSidecar(dir)).pullRequests.find(p => p.number === params.pullNumber);
+    if (!pr) {
+      throw new Error(`Not Found: pull request ${params.pullNumber}`);
+    }
+    if (pr.state === 'merged') {
+      return { status: 'merged', sha: pr.mergeCommitSha };
+    }
+
+    const head = await this.branchHead(dir, pr.head);
+    const base = await this.branchHead(dir, pr.base);
+    if (params.expectedHeadSha && params.expectedHeadSha !== head) {
+      throw new Error(`Head branch was modified: ${pr.head} is at ${head}`);
+    }
+    try {
+      await this.git(dir, ['merge-base', '--is-ancestor', base, head]);
+    } catch (err) {
+      throw new Error(`Pull request ${params.pullNumber} is not mergeable: ${pr.base} has moved`);
+    }
+
+    const message = `${pr.title} (#${pr.number})`;
+    let sha: string;
+    switch (params.mergeMethod) {
+      case 'rebase':
+        sha = head;
+        break;
+      case 'squash':
+        sha = await this.writeCommit(dir, `${head}^{tree}`, [base], message);
+        break;
+      default:
+        sha = await this.writeCommit(dir, `${head}^{tree}`, [base, head], `Merge pull request #${pr.number} from ${pr.head}\n\n${pr.title}`);
+    }
+    await this.moveBranch(dir, pr.base, sha, base);
+
+    await this.updateSidecar(dir, sidecar => {
+      const recorded = sidecar.pullRequests.find(p => p.number === pr.number)!;
+      recorded.state = 'merged';
+      recorded.mergedAt = new Date().toISOString();
+      recorded.mergeCommitSha = sha;
+    });
+
+    return { status: 'merged', sha };
+  }
+
+  async createBlob(params: CreateBlobParams): Promise<CreateBlobResult> {
+    const dir = await this.open(params.owner, params.repo);
+    return this.writeBlob(dir, Buffer.from(params.content, params.encoding === 'base64' ? 'base64' : 'utf8'));
+  }
+
+  async createTree(params: CreateTreeParams): Promise<CreateTreeResult> {
+    const dir = await this.open(params.owner, params.repo);
+    return { sha: await this.writeTree(dir, params.baseTree ?? null, params.entries) };
+  }
+
+  async createCommit(params: CreateCommitParams): Promise<CreateCommitResult> {
+    const dir = await this.open(params.owner, params.repo);
+    const sha = await this.writeCommit(dir, params.tree, params.parents, params.message);
+    return { sha, message: params.message, url: `file://${dir}/commit/${sha}` };
+  }
+
+  async updateRef(params: UpdateRefParams): Promise<UpdateRefResult> {
+    const dir = await this.open(params.owner, params.repo);
+    const current = await this.resolve(dir, `refs/heads/${params.branch}`);
+    if (!current) {
+      throw new Error(`Reference does not exist: heads/${params.branch}`);
+    }
+    if (!params.force && current !== params.sha) {
+      try {
+        await this.git(dir, ['merge-base', '--is-ancestor', current, params.sha]);
+      } catch (err) {
+        throw new Error('Update is not a fast forward');
+      }
+    }
+
+    await this.moveBranch(dir, params.branch, params.sha, current);
+    return { ref: `refs/heads/${params.branch}`, sha: params.sha };
+  }
+
+  /**
+   * Pull requests recorded for a repository.
+   */
+  async listPullRequests(owner: string, repo: string): Promise<LocalPullRequest[]> {
+    return (await this.readSidecar(await this.open(owner, repo))).pullRequests;
+  }
+
+  /**
+   * Comments recorded for a repository's issues and pull requests.
+   */
+  async listComments(owner: string, repo: string): Promise<LocalComment[]> {
+    return (await this.readSidecar(await this.open(owner, repo))).comments ?? [];
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private git(dir: string, args: string[], options: Omit<GitOptions, 'gitDir'> = {}): Promise<Buffer> {
+    return runGit(args, { ...options, gitDir: dir });
+  }
+
+  private async open(owner: string, repo: string): Promise<string> {
+    return this.synced.has(`${owner}/${repo}`) ? this.repoPath(owner, repo) : this.sync(owner, repo);
+  }
+
+  /**
+   * SHA a revision resolves to, or null when it does not exist.
+   */
+  private async resolve(dir: string, rev: string): Promise<string | null> {
+    try {
+      return (await this.git(dir, ['rev-parse', '--verify', '--quiet', rev])).toString('utf8').trim() || null;
+    } catch (err) {
+      return null;
+    }
+  }
+
+  private async branchHead(dir: string, branch: string): Promise<string> {
+    const sha = await this.resolve(dir, `refs/heads/${branch}`);
+    if (!sha) {
+      throw new Error(`Branch not found: ${branch}`);
+    }
+    return sha;
+  }
+
+  private async defaultBranch(dir: string): Promise<string> {
+    try {
+      return (await this.git(dir, ['symbolic-ref', '--short', 'HEAD'])).toString('utf8').trim();
+    } catch (err) {
+      return 'main';
+    }
+  }
+
+  private async fileMode(dir: string, rev: string, path: string): Promise<TreeEntryInput['mode']> {
+    const line = (await this.git(dir, ['ls-tree', rev, '--', path])).toString('utf8');
+    const mode = line.split(' ')[0];
+    return mode === '100755' || mode === '120000' ? mode : '100644';
+  }
+
+  private async writeBlob(dir: string, content: Buffer): Promise<CreateBlobResult> {
+    const sha = (await this.git(dir, ['hash-object', '-w', '--stdin'], { input: content })).toString('utf8').trim();
+    return { sha };
+  }
+
+  /**
+   * Write a tree: the base tree (or an empty one) with the entries applied,
+   * built in a throwaway index so concurrent writes do not interfere.
+   */
+  private async writeTree(dir: string, baseTree: string | null, entries: TreeEntryInput[]): Promise<string> {
+    const env = { GIT_INDEX_FILE: join(tmpdir(), `local-git-index-${randomBytes(8).toString('hex')}`) };
+    try {
+      await this.git(dir, baseTree ? ['read-tree', baseTree] : ['read-tree', '--empty'], { env });
+      // Mode 0 removes the path from the index
+      const info = entries
+        .map(entry => entry.sha === null ? `0 ${NULL_SHA}\t${entry.path}\n` : `${entry.mode} ${entry.sha}\t${entry.path}\n`)
+        .join('');
+      await this.git(dir, ['update-index', '--index-info'], { env, input: info });
+      return (await this.git(dir, ['write-tree'], { env })).toString('utf8').trim();
+    } finally {
+      await rm(env.GIT_INDEX_FILE, { force: true });
+    }
+  }
+
+  private async writeCommit(dir: string, tree: string, parents: string[], message: string): Promise<string> {
+    const author = this.options.author ?? DEFAULT_AUTHOR;
+    const env = {
+      GIT_AUTHOR_NAME: author.name,
+      GIT_AUTHOR_EMAIL: author.email,
+      GIT_COMMITTER_NAME: author.name,
+      GIT_COMMITTER_EMAIL: author.email
+    };
+    const args = ['commit-tree', tree, ...parents.flatMap(parent => ['-p', parent]), '-F', '-'];
+    return (await this.git(dir, args, { env, input: message })).toString('utf8').trim();
+  }
+
+  /**
+   * Move a branch, failing if it no longer points at expected.
+   */
+  private async moveBranch(dir: string, branch: string, sha: string, expected: string): Promise<void> {
+    await this.git(dir, ['update-ref', `refs/heads/${branch}`, sha, expected]);
+  }
+
+  private async findRun(owner: string, repo: string, runId: number): Promise<LocalWorkflowRun> {
+    const run = (await this.readSidecar(await this.open(owner, repo))).workflowRuns.find(r => r.id === runId);
+    if (!run) {
+      throw new Error(`Not Found: workflow run ${runId}`);
+    }
+    return run;
+  }
+
+  private async readSidecar(dir: string): Promise<Sidecar> {
+    try {
+      return JSON.parse(await readFile(join(dir, LOCAL_GIT_SIDECAR_FILE), 'utf8')) as Sidecar;
+    } catch (err) {
+      return { pullRequests: [], workflowRuns: [] };
+    }
+  }
+
+  private async updateSidecar(dir: string, update: (sidecar: Sidecar) => void): Promise<void> {
+    const sidecar = await this.readSidecar(dir);
+    update(sidecar);
+    await writeFile(join(dir, LOCAL_GIT_SIDECAR_FILE), JSON.stringify(sidecar, null, 2));
+  }
+}
@@ -27,15 +27,57 @@ import type {
   WorkflowRunJobsList,
   WorkflowRunJob,
   WorkflowRunJobStep,
+  ListCheckRunsParams,
+  CheckRunList,
+  CheckRunInfo,
+  DownloadWorkflowRunArtifactsParams,
+  WorkflowRunArtifact,
+  WorkflowRunArtifactList,
   CreateBranchParams,
   CreateBranchResult,
+  GetCommitParams,
+  CommitInfo,
+  CreateBlobParams,
+  CreateBlobResult,
+  CreateTreeParams,
+  CreateTreeResult,
+  CreateCommitParams,
+  CreateCommitResult,
+  UpdateRefParams,
+  UpdateRefResult,
   UpdateFileParams,
   UpdateFileResult,
   DeleteFileParams,
   DeleteFileResult,
   OpenPullRequestParams,
-  OpenPullRequestResult
+  OpenPullRequestResult,
+  MergePullRequestParams,
+  MergePullRequestResult,
+  CreateIssueCommentParams,
+  CreateIssueCommentResult,
+  ListIssueCommentsParams,
+  IssueCommentInfo
 } from './github-client';
+import { DEFAULT_ARTIFACT_MAX_FILE_BYTES } from './github-client';
+import { readZipEntries } from './zip';
+import type { ScmClient } from '../scm/scm-client';
+
+// Auto-merge and merge queues are only exposed through GraphQL
+const ENABLE_AUTO_MERGE_MUTATION = `
+  mutation($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!, $expectedHeadOid: GitObjectID) {
+    enablePullRequestAutoMerge(input: { pullRequestId: $pullRequestId, mergeMethod: $mergeMethod, expectedHeadOid: $expectedHeadOid }) {
+      pullRequest { number }
+    }
+  }
+`;
+
+const ENQUEUE_PULL_REQUEST_MUTATION = `
+  mutation($pullRequestId: ID!, $expectedHeadOid: GitObjectID) {
+    enqueuePullRequest(input: { pullRequestId: $pullRequestId, expectedHeadOid: $expectedHeadOid }) {
+      mergeQueueEntry { position }
+    }
+  }
+`;
 
 /**
  * Create an authenticated Octokit instance using GitHub App credentials.
@@ -56,7 +98,8 @@ export function createOctokitWithAppAuth(config: GitHubAppConfig): Octokit {
  * OctokitGitHubClient implements GitHubClient using the Octokit library.
  * This is the production implementation that makes real GitHub API calls.
  */
-export class OctokitGitHubClient implements GitHubClient {
+export class OctokitGitHubClient implements ScmClient {
+  readonly provider = 'github' as const;
   private readonly octokit: Octokit;
 
   constructor(octokit: Octokit) {
@@ -171,6 +214,21 @@ export class OctokitGitHubClient implements GitHubClient {
     };
   }
 
+  async getCommit(params: GetCommitParams): Promise<CommitInfo> {
+    const { data } = await this.octokit.git.getCommit({
+      owner: params.owner,
+      repo: params.repo,
+      commit_sha: params.sha
+    });
+
+    return {
+      sha: data.sha,
+      treeSha: data.tree.sha,
+      parents: data.parents.map(parent => parent.sha),
+      message: data.message
+    };
+  }
+
   async dispatchWorkflow(params: DispatchWorkflowParams): Promise<void> {
     await this.octokit.request('POST /repos/{owner}/{repo}/actions/workflows/{workflow_id}/dispatches', {
       owner: params.owner,
@@ -276,10 +334,162 @@ export class OctokitGitHubClient implements GitHubClient {
     };
   }
 
+  async listCheckRuns(params: ListCheckRunsParams): Promise<CheckRunList> {
+    const { data } = await this.octokit.request('GET /repos/{owner}/{repo}/commits/{ref}/check-runs', {
+      owner: params.owner,
+      repo: params.repo,
+      ref: params.ref,
+      per_page: params.perPage ?? 100
+    });
+
+    const checkRuns = (data as any).check_runs.map((run: any): CheckRunInfo => ({
+      id: run.id,
+      name: run.name,
+      status: run.status as CheckRunInfo['status'],
+      conclusion: run.conclusion as CheckRunInfo['conclusion'],
+      htmlUrl: run.html_url,
+      appSlug: run.app?.slug,
+      startedAt: run.started_at,
+      completedAt: run.completed_at
+    }));
+
+    return {
+      totalCount: (data as any).total_count ?? checkRuns.length,
+      checkRuns
+    };
+  }
+
+  async downloadWorkflowRunArtifacts(params: DownloadWorkflowRunArtifactsParams): Promise<WorkflowRunArtifactList> {
+    const { data } = await this.octokit.request('GET /repos/{owner}/{repo}/actions/runs/{run_id}/artifacts', {
+      owner: params.owner,
+      repo: params.repo,
+      run_id: params.runId,
+      per_page: 100
+    });
+
+    const maxFileBytes = params.maxFileBytes ?? DEFAULT_ARTIFACT_MAX_FILE_BYTES;
+    const listed = (data as any).artifacts.filter((artifact: any) =>
+      !artifact.expired && (!params.names || params.names.includes(artifact.name))
+    );
+
+    const artifacts: WorkflowRunArtifact[] = [];
+    for (const artifact of listed) {
+      // Served as a ZIP archive
+      const { data: archive } = await this.octokit.request(
+        'GET /repos/{owner}/{repo}/actions/artifacts/{artifact_id}/{archive_format}',
+        { owner: params.owner, repo: params.repo, artifact_id: artifact.id, archive_format: 'zip' }
+      );
+      artifacts.push({
+        id: artifact.id,
+        name: artifact.name,
+        sizeInBytes: artifact.size_in_bytes,
+        files: readZipEntries(Buffer.from(archive as ArrayBuffer), maxFileBytes).map(entry => ({
+          path: entry.path,
+          content: entry.data.toString('utf8')
+        }))
+      });
+    }
+
+    return { totalCount: artifacts.length, artifacts };
+  }
+
+  // ============================================================================
+  // Comment Operations
+  // ============================================================================
+
+  async listIssueComments(params: ListIssueCommentsParams): Promise<IssueCommentInfo[]> {
+    const { data } = await this.octokit.issues.listComments({
+      owner: params.owner,
+      repo: params.repo,
+      issue_number: params.issueNumber,
+      per_page: 100
+    });
+
+    return data.map(comment => ({
+      id: comment.id,
+      body: comment.body ?? '',
+      author: comment.user?.login,
+      bot: comment.user?.type === 'Bot',
+      createdAt: comment.created_at
+    }));
+  }
+
+  async createIssueComment(params: CreateIssueCommentParams): Promise<CreateIssueCommentResult> {
+    const { data } = await this.octokit.issues.createComment({
+      owner: params.owner,
+      repo: params.repo,
+      issue_number: params.issueNumber,
+      body: params.body
+    });
+
+    return {
+      id: data.id,
+      url: data.html_url
+    };
+  }
+
   // ============================================================================
   // Write Operations (should be gated via WriteGate)
   // ============================================================================
 
+  async createBlob(params: CreateBlobParams): Promise<CreateBlobResult> {
+    const { data } = await this.octokit.git.createBlob({
+      owner: params.owner,
+      repo: params.repo,
+      content: params.content,
+      encoding: params.encoding
+    });
+
+    return { sha: data.sha };
+  }
+
+  async createTree(params: CreateTreeParams): Promise<CreateTreeResult> {
+    const { data } = await this.octokit.git.createTree({
+      owner: params.owner,
+      repo: params.repo,
+      base_tree: params.baseTree,
+      tree: params.entries.map(entry => ({
+        path: entry.path,
+        mode: entry.mode,
+        type: 'blob' as const,
+        sha: entry.sha
+      }))
+    });
+
+    return { sha: data.sha };
+  }
+
+  async createCommit(params: CreateCommitParams): Promise<CreateCommitResult> {
+    const { data } = await this.octokit.git.createCommit({
+      owner: params.owner,
+      repo: params.repo,
+      message: params.message,
+      tree: params.tree,
+      parents: params.parents
+    });
+
+    return {
+      sha: data.sha,
+      message: data.message,
+      url: data.html_url
+    };
+  }
+
+  async updateRef(params: UpdateRefParams): Promise<UpdateRefResult> {
+    const { data } = await this.octokit.git.updateRef({
+      owner: params.owner,
+      repo: params.repo,
+      ref: `heads/${params.branch}`,
+      sha: params.sha,
+      force: params.force ?? false
+    });
+
+    return {
+      ref: data.ref,
+      sha: data.object.sha
+    };
+  }
+
   async createBranch(params: CreateBranchParams): Promise<CreateBranchResult> {
     const { data } = await this.octokit.git.createRef({
       owner: params.owner,
@@ -342,6 +552,53 @@ export class OctokitGitHubClient implements GitHubClient {
       number: data.number
     };
   }
+
+  /**
+   * Enable auto-merge or add the PR to the merge queue. A PR that can
+   * already merge (checks passed) rejects auto-merge and is merged directly.
+   */
+  async mergePullRequest(params: MergePullRequestParams): Promise<MergePullRequestResult> {
+    const { data: pr } = await this.octokit.pulls.get({
+      owner: params.owner,
+      repo: params.repo,
+      pull_number: params.pullNumber
+    });
+    if (pr.merged) {
+      return { status: 'merged', sha: pr.merge_commit_sha ?? undefined };
+    }
+
+    const expectedHeadOid = params.expectedHeadSha ?? pr.head.sha;
+
+    if (params.mode === 'merge_queue') {
+      await this.octokit.graphql(ENQUEUE_PULL_REQUEST_MUTATION, {
+        pullRequestId: pr.node_id,
+        expectedHeadOid
+      });
+      return { status: 'queued' };
+    }
+
+    try {
+      await this.octokit.graphql(ENABLE_AUTO_MERGE_MUTATION, {
+        pullRequestId: pr.node_id,
+        mergeMethod: params.mergeMethod.toUpperCase(),
+        expectedHeadOid
+      });
+      return { status: 'auto_merge_enabled' };
+    } catch (err) {
+      if (!/clean status/i.test(err instanceof Error ? err.message : String(err))) {
+        throw err;
+      }
+    }
+
+    const { data } = await this.octokit.pulls.merge({
+      owner: params.owner,
+      repo: params.repo,
+      pull_number: params.pullNumber,
+      merge_method: params.mergeMethod,
+      sha: expectedHeadOid
+    });
+    return { status: 'merged', sha: data.sha };
+  }
 }
 
 /**
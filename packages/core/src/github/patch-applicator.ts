@@ -3,19 +3,35 @@
  *
  * Applies patches from a PatchSet to a GitHub repository.
  * This service is responsible for:
- * 1. Creating a branch from base SHA
- * 2. Applying diffs by updating files via GitHub API
- * 3. Committing changes per patch
+ * 1. Applying diffs and writing the results as blobs and trees (Git Data API),
+ *    keeping the base tree's file modes for existing files
+ * 2. Committing one tree per patch, or one for the whole PatchSet
+ * 3. Creating the branch once, at the last commit
  * 4. Opening a PR
  * 5. Recording the PR in the database
  *
+ * Because the branch is only created at the end, a failure part-way through
+ * leaves no branch behind rather than a half-applied one.
+ *
+ * When the base branch has moved since the PatchSet was generated, its
+ * patches are first rebased onto the current head with a three-way merge.
+ * A clean rebase records the new base and diffs and re-runs Gate2 on them;
+ * overlapping changes fail with a ConflictReportV1 artifact.
+ *
  * All write operations go through WriteGate to enforce approval requirements.
  */
 
+import { createHash } from 'crypto';
 import type { PrismaClient } from '@prisma/client';
 import { WriteGate } from '../policy/write-gate';
 import { parseDiff, type DiffFile } from '../policy/diff-parser';
-import { validateDiffContext } from './diff-generator';
+import { Gate2Service, isGate2Blocking } from '../policy/gate2';
+import type { EffectivePolicy } from '../policy/policy-file';
+import type { PolicyRuleRegistry } from '../policy/policy-rules';
+import { generateUnifiedDiff, validateDiffContext } from './diff-generator';
+import { isNotFoundError, type TreeEntryInput } from './github-client';
+import { mergeThreeWay, type MergeConflict } from './three-way-merge';
+import { issueClosingReference } from './issue-intake';
 
 // ============================================================================
 // Types
@@ -36,12 +52,36 @@ export interface PatchSetData {
   patches: PatchData[];
 }
 
+/**
+ * The parts of a loaded PatchSet the applicator reads.
+ */
+type PatchSetRecord = {
+  id: string;
+  title: string;
+  baseSha: string;
+  patches: Array<Pick<PatchData, 'id' | 'title' | 'summary' | 'diff'>>;
+};
+
+/**
+ * How applied patches are grouped into commits.
+ */
+export type CommitStrategy = 'per_patch' | 'per_patchset';
+
+export interface PatchApplicatorOptions {
+  commitStrategy?: CommitStrategy; // default: per_patch
+  /** Policy Gate2 re-runs with after a rebase, loaded at the new base (default: built-in policy) */
+  loadPolicy?: (ref: string) => Promise<EffectivePolicy>;
+  /** Policy rules Gate2 runs after a rebase (default: globalPolicyRuleRegistry) */
+  policyRules?: PolicyRuleRegistry;
+}
+
 export interface ApplyPatchesInput {
   workflowId: string;
   patchSetId: string;
   owner: string;
   repo: string;
   baseBranch: string;
+  commitStrategy?: CommitStrategy; // overrides the applicator's option
 }
 
 export interface ApplyPatchesToBranchInput extends ApplyPatchesInput {
@@ -54,9 +94,33 @@ export interface ApplyPatchesResult {
   prNumber?: number;
   prUrl?: string;
   commitShas: string[];
+  rebase?: { fromSha: string; toSha: string }; // set when the PatchSet was rebased
   error?: string;
 }
 
+export const CONFLICT_REPORT_KIND = 'ConflictReportV1';
+
+export type RebaseConflictReason =
+  | 'overlapping_changes'  // both sides changed the same lines
+  | 'modified_on_head'     // the patch deletes a file the base branch changed
+  | 'deleted_on_head'      // the patch changes a file the base branch deleted
+  | 'added_on_both';       // both sides added the file with different content
+
+export interface ConflictReportV1 {
+  kind: 'ConflictReportV1';
+  patchSetId: string;
+  baseSha: string; // the PatchSet's recorded base
+  headSha: string; // the base branch head it could not be rebased onto
+  createdAt: string;
+  files: Array<{
+    path: string;
+    patchId: string;
+    patchTitle: string;
+    reason: RebaseConflictReason;
+    conflicts: MergeConflict[];
+  }>;
+}
+
 export interface ValidatePatchesInput {
   patchSetId: string;
   owner: string;
@@ -275,7 +339,8 @@ export function extractFileChangesFromDiff(diff: string): Array<{
 export class PatchApplicator {
   constructor(
     private readonly prisma: PrismaClient,
-    private readonly writeGate: WriteGate
+    private readonly writeGate: WriteGate,
+    private readonly options: PatchApplicatorOptions = {}
   ) {}
 
   /**
@@ -301,115 +366,39 @@ export class PatchApplicator {
 
     // Generate branch name
     const branchName = this.generateBranchName(workflowId, patchSetId);
-    const commitShas: string[] = [];
 
     try {
-      // T5.2.1: Create branch from base SHA
-      await this.writeGate.createBranch(workflowId, {
+      // Rebase onto the base branch if it moved since generation
+      const rebased = await this.rebaseOntoHead(workflowId, { owner, repo, baseBranch, patchSet });
+      if ('error' in rebased) {
+        return { success: false, branchName, commitShas: [], error: rebased.error };
+      }
+
+      // T5.2.1-T5.2.3: Apply diffs, commit and create the branch at the last commit
+      const committed = await this.commitPatches(workflowId, {
         owner,
         repo,
-        branch: branchName,
-        sha: patchSet.baseSha
+        branchName,
+        patchSet: rebased.patchSet,
+        strategy: input.commitStrategy
       });
 
-      // T5.2.2 & T5.2.3: Apply diffs and commit per patch
-      for (const patch of patchSet.patches) {
-        const fileChanges = extractFileChangesFromDiff(patch.diff);
-
-        for (const change of fileChanges) {
-          if (change.isDeleted) {
-            // Delete file - get current SHA first
-            try {
-              const currentFile = await this.writeGate.getFileContents(
-                owner,
-                repo,
-                change.path,
-                branchName
-              );
-              const result = await this.writeGate.deleteFile(workflowId, {
-                owner,
-                repo,
-                path: change.path,
-                message: `Delete ${change.path}\n\n${patch.title}`,
-                sha: currentFile.sha,
-                branch: branchName
-              });
-              if (result.commitSha && !commitShas.includes(result.commitSha)) {
-                commitShas.push(result.commitSha);
-              }
-            } catch (err) {
-              // File might not exist, skip
-            }
-            continue;
-          }
-
-          let newContent: string;
-          let fileSha: string | undefined;
-
-          if (change.isNew) {
-            // New file - extract content from diff
-            newContent = this.extractNewFileContent(change.diffContent);
-          } else {
-            // Modified file - get current content and apply diff with validation
-            try {
-              const currentFile = await this.writeGate.getFileContents(
-                owner,
-                repo,
-                change.path,
-                branchName
-              );
-
-              // Validate and apply diff
-              const applyResult = validateAndApplyDiff(currentFile.content, change.diffContent);
-              if (!applyResult.success) {
-                // Validation failed - return early with error
-                return {
-                  success: false,
-                  branchName,
-                  commitShas,
-                  error: `Failed to apply diff to ${change.path}: ${applyResult.error}${
-                    applyResult.validationErrors
-                      ? `\nValidation errors:\n${applyResult.validationErrors.join('\n')}`
-                      : ''
-                  }`
-                };
-              }
-
-              newContent = applyResult.content!;
-              fileSha = currentFile.sha;
-            } catch (err) {
-              // File might not exist yet on branch, treat as new
-              newContent = this.extractNewFileContent(change.diffContent);
-            }
-          }
-
-          // Update/create file
-          const result = await this.writeGate.updateFile(workflowId, {
-            owner,
-            repo,
-            path: change.path,
-            message: `${patch.title}\n\n${patch.summary}`,
-            content: Buffer.from(newContent).toString('base64'),
-            sha: fileSha,
-            branch: branchName
-          });
-
-          if (result.commitSha && !commitShas.includes(result.commitSha)) {
-            commitShas.push(result.commitSha);
-          }
-        }
+      if ('error' in committed) {
+        return { success: false, branchName, commitShas: [], error: committed.error };
       }
 
-      // T5.2.4: Branch is already pushed via GitHub API operations above
-
-      // T5.2.5: Open PR
+      // T5.2.5: Open PR (closing the workflow's linked issue on merge)
+      const workflow = await this.prisma.workflow.findUnique({ where: { id: workflowId } });
+      const issue = workflow?.issueOwner && workflow.issueRepo && workflow.issueNumber
+        ? { owner: workflow.issueOwner, repo: workflow.issueRepo, number: workflow.issueNumber }
+        : undefined;
       const pr = await this.writeGate.openPullRequest(workflowId, {
         owner,
         repo,
         head: branchName,
         base: baseBranch,
         title: patchSet.title,
-        body: this.generatePRBody(patchSet, workflowId)
+        body: this.generatePRBody(patchSet, workflowId, issue && issueClosingReference(issue, { owner, repo }))
       });
 
       // T5.2.6: Record PR in database
@@ -434,14 +423,15 @@ export class PatchApplicator {
         branchName,
         prNumber: pr.number,
         prUrl: pr.url,
-        commitShas
+        commitShas: committed.commitShas,
+        rebase: rebased.rebase
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return {
         success: false,
         branchName,
-        commitShas,
+        commitShas: [],
         error: errorMsg
       };
     }
@@ -452,7 +442,7 @@ export class PatchApplicator {
    * Used for sandbox validation runs.
    */
   async applyPatchesToBranch(input: ApplyPatchesToBranchInput): Promise<ApplyPatchesResult> {
-    const { workflowId, patchSetId, owner, repo } = input;
+    const { workflowId, patchSetId, owner, repo, baseBranch } = input;
 
     const patchSet = await this.prisma.patchSet.findUnique({
       where: { id: patchSetId },
@@ -469,112 +459,365 @@ export class PatchApplicator {
     }
 
     const branchName = input.branchName ?? this.generateBranchName(workflowId, patchSetId);
-    const commitShas: string[] = [];
 
     try {
-      await this.writeGate.createBranch(workflowId, {
+      const rebased = await this.rebaseOntoHead(workflowId, { owner, repo, baseBranch, patchSet });
+      if ('error' in rebased) {
+        return { success: false, branchName, commitShas: [], error: rebased.error };
+      }
+
+      const committed = await this.commitPatches(workflowId, {
         owner,
         repo,
-        branch: branchName,
-        sha: patchSet.baseSha
+        branchName,
+        patchSet: rebased.patchSet,
+        strategy: input.commitStrategy
+      });
+
+      if ('error' in committed) {
+        return { success: false, branchName, commitShas: [], error: committed.error };
+      }
+
+      return {
+        success: true,
+        branchName,
+        commitShas: committed.commitShas,
+        rebase: rebased.rebase
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        branchName,
+        commitShas: [],
+        error: errorMsg
+      };
+    }
+  }
+
+  /**
+   * Rebase the PatchSet onto the base branch's head when it moved since
+   * the PatchSet was generated. Each file is patched at the recorded base
+   * and three-way merged onto its head version; the merged result becomes
+   * the patch's new diff, saved once Gate2 passes on it. Conflicts are
+   * stored as a ConflictReportV1 artifact and returned as an error; neither
+   * they nor a Gate2 failure change the PatchSet.
+   */
+  private async rebaseOntoHead(
+    workflowId: string,
+    params: { owner: string; repo: string; baseBranch: string; patchSet: PatchSetRecord }
+  ): Promise<{ patchSet: PatchSetRecord; rebase?: { fromSha: string; toSha: string } } | { error: string }> {
+    const { owner, repo, baseBranch, patchSet } = params;
+    const head = await this.writeGate.getBranch(owner, repo, baseBranch);
+    if (head.sha === patchSet.baseSha) {
+      return { patchSet };
+    }
+
+    // Content after the patches so far on each side (null = deleted)
+    const onBase = new Map<string, string | null>();
+    const onHead = new Map<string, string | null>();
+    const read = async (files: Map<string, string | null>, ref: string, path: string) => {
+      if (files.has(path)) {
+        return files.get(path)!;
+      }
+      try {
+        return (await this.writeGate.getFileContents(owner, repo, path, ref)).content;
+      } catch (err) {
+        // Any other failure fails the rebase rather than reading as a deletion
+        if (!isNotFoundError(err)) {
+          throw err;
+        }
+        return null;
+      }
+    };
+
+    const conflicts: ConflictReportV1['files'] = [];
+    const patches: Array<PatchSetRecord['patches'][number] & { files: PatchData['files'] }> = [];
+
+    for (const patch of patchSet.patches) {
+      const diffs: string[] = [];
+      const files: PatchData['files'] = [];
+
+      for (const change of extractFileChangesFromDiff(patch.diff)) {
+        const { path } = change;
+        const before = await read(onBase, patchSet.baseSha, path);
+        const ours = await read(onHead, head.sha, path);
+        const conflict = (reason: RebaseConflictReason, found: MergeConflict[] = []) =>
+          conflicts.push({ path, patchId: patch.id, patchTitle: patch.title, reason, conflicts: found });
+
+        let after: string | null = null;
+        if (change.isDeleted) {
+          if (before !== null && ours !== null && ours !== before) {
+            conflict('modified_on_head');
+            continue;
+          }
+        } else if (change.isNew || before === null) {
+          after = this.extractNewFileContent(change.diffContent);
+        } else {
+          const applyResult = validateAndApplyDiff(before, change.diffContent);
+          if (!applyResult.success) {
+            return { error: `Failed to apply diff to ${path} at ${patchSet.baseSha}: ${applyResult.error}` };
+          }
+          after = applyResult.content!;
+        }
+        onBase.set(path, after);
+
+        let merged: string | null;
+        if (after === null || ours === null) {
+          if (after !== null && before !== null) {
+            conflict('deleted_on_head');
+            continue;
+          }
+          merged = after;
+        } else if (before === null) {
+          if (ours !== after) {
+            conflict('added_on_both');
+            continue;
+          }
+          merged = ours;
+        } else {
+          const result = mergeThreeWay(before, ours, after);
+          if (!result.clean) {
+            conflict('overlapping_changes', result.conflicts);
+            continue;
+          }
+          merged = result.content;
+        }
+        onHead.set(path, merged);
+
+        // Already the same on the head
+        if (merged === ours) {
+          continue;
+        }
+        const generated = merged === null
+          ? generateUnifiedDiff(path, ours!, '', 'delete')
+          : generateUnifiedDiff(path, ours ?? '', merged, ours === null ? 'create' : 'modify');
+        diffs.push(this.withOriginalHeader(change.diffContent, generated.patch));
+        files.push({ path, additions: generated.additions, deletions: generated.deletions });
+      }
+
+      patches.push({ ...patch, diff: diffs.join('\n'), files });
+    }
+
+    if (conflicts.length > 0) {
+      const path = await this.storeConflictReport(workflowId, {
+        kind: 'ConflictReportV1',
+        patchSetId: patchSet.id,
+        baseSha: patchSet.baseSha,
+        headSha: head.sha,
+        createdAt: new Date().toISOString(),
+        files: conflicts
       });
+      const paths = Array.from(new Set(conflicts.map(c => c.path)));
+      return {
+        error: `Cannot rebase PatchSet onto ${baseBranch} (${head.sha}): conflicts in ${paths.join(', ')}; see ${path}`
+      };
+    }
+
+    // The rebased diff may touch lines the policy was not evaluated on
+    const policy = this.options.loadPolicy ? await this.options.loadPolicy(head.sha) : null;
+    const { result } = await new Gate2Service(this.prisma, this.options.policyRules).evaluateAndPersist({
+      workflowId,
+      patchSetId: patchSet.id,
+      diff: patches.map(p => p.diff).filter(Boolean).join('\n'),
+      config: policy?.config,
+      policySource: policy?.source
+    });
+    if (isGate2Blocking(result)) {
+      return { error: `Gate2 failed on the rebased PatchSet: ${result.summary}` };
+    }
 
-      for (const patch of patchSet.patches) {
-        const fileChanges = extractFileChangesFromDiff(patch.diff);
+    // Only a rebase that passed Gate2 replaces the recorded diffs and base
+    for (const patch of patches) {
+      await this.prisma.patch.update({
+        where: { id: patch.id },
+        data: { diff: patch.diff, files: patch.files }
+      });
+    }
+    await this.prisma.patchSet.update({
+      where: { id: patchSet.id },
+      data: { baseSha: head.sha }
+    });
+
+    return {
+      patchSet: { ...patchSet, baseSha: head.sha, patches },
+      rebase: { fromSha: patchSet.baseSha, toSha: head.sha }
+    };
+  }
+
+  /**
+   * Store a conflict report as a new version of the workflow's
+   * ConflictReportV1 artifact. Returns the artifact path.
+   */
+  private async storeConflictReport(workflowId: string, report: ConflictReportV1): Promise<string> {
+    const path = `.ai/CONFLICTS-${report.patchSetId}.json`;
+    const content = JSON.stringify(report, null, 2);
+    const existing = await this.prisma.artifact.findFirst({
+      where: { workflowId, kind: CONFLICT_REPORT_KIND },
+      orderBy: { artifactVersion: 'desc' }
+    });
+
+    await this.prisma.artifact.create({
+      data: {
+        workflowId,
+        kind: CONFLICT_REPORT_KIND,
+        path,
+        content,
+        contentSha: createHash('sha256').update(content, 'utf8').digest('hex'),
+        artifactVersion: existing ? existing.artifactVersion + 1 : 1,
+        supersedesArtifactId: existing?.id ?? null
+      }
+    });
+
+    return path;
+  }
+
+  /**
+   * Write the PatchSet's changes as blobs and trees on top of its base
+   * commit, commit them per patch or per PatchSet, then create the branch
+   * at the last commit. The branch only exists once every commit succeeded,
+   * so an error (returned or thrown) leaves no branch behind.
+   */
+  private async commitPatches(
+    workflowId: string,
+    params: {
+      owner: string;
+      repo: string;
+      branchName: string;
+      patchSet: PatchSetRecord;
+      strategy?: CommitStrategy;
+    }
+  ): Promise<{ commitShas: string[] } | { error: string }> {
+    const { owner, repo, branchName, patchSet } = params;
+    const strategy = params.strategy ?? this.options.commitStrategy ?? 'per_patch';
+
+    const groups = strategy === 'per_patchset'
+      ? [{ message: this.generateCommitMessage(patchSet), patches: patchSet.patches }]
+      : patchSet.patches.map(patch => ({ message: `${patch.title}\n\n${patch.summary}`, patches: [patch] }));
+
+    const baseCommit = await this.writeGate.getCommit(owner, repo, patchSet.baseSha);
+    let parentSha = patchSet.baseSha;
+    let treeSha = baseCommit.treeSha;
+    const commitShas: string[] = [];
+
+    // Modes of files written so far in this run, read before the base tree
+    const modes = new Map<string, TreeEntryInput['mode']>();
+    let baseTreeRead = false;
+    const currentMode = async (path: string): Promise<TreeEntryInput['mode'] | undefined> => {
+      if (!baseTreeRead) {
+        baseTreeRead = true;
+        const baseTree = await this.writeGate.getTree(owner, repo, baseCommit.treeSha, true);
+        for (const item of baseTree.tree) {
+          if (item.type === 'blob' && !modes.has(item.path)) {
+            modes.set(item.path, item.mode as TreeEntryInput['mode']);
+          }
+        }
+      }
+      return modes.get(path);
+    };
+
+    // Content written so far in this run (null = deleted), read before the base
+    const written = new Map<string, string | null>();
+    const readCurrent = async (path: string): Promise<string | null> => {
+      if (written.has(path)) {
+        return written.get(path)!;
+      }
+      try {
+        return (await this.writeGate.getFileContents(owner, repo, path, patchSet.baseSha)).content;
+      } catch (err) {
+        // Only a missing file is new; other failures must not overwrite it
+        if (!isNotFoundError(err)) {
+          throw err;
+        }
+        return null;
+      }
+    };
+
+    for (const group of groups) {
+      const entries = new Map<string, TreeEntryInput>();
+
+      for (const patch of group.patches) {
+        for (const change of extractFileChangesFromDiff(patch.diff)) {
+          const current = await readCurrent(change.path);
 
-        for (const change of fileChanges) {
           if (change.isDeleted) {
-            try {
-              const currentFile = await this.writeGate.getFileContents(
-                owner,
-                repo,
-                change.path,
-                branchName
-              );
-              const result = await this.writeGate.deleteFile(workflowId, {
-                owner,
-                repo,
-                path: change.path,
-                message: `Delete ${change.path}\n\n${patch.title}`,
-                sha: currentFile.sha,
-                branch: branchName
-              });
-              if (result.commitSha && !commitShas.includes(result.commitSha)) {
-                commitShas.push(result.commitSha);
-              }
-            } catch (err) {
-              // File might not exist, skip
+            // File might not exist, skip
+            if (current !== null) {
+              written.set(change.path, null);
+              modes.delete(change.path);
+              entries.set(change.path, { path: change.path, mode: '100644', sha: null });
             }
             continue;
           }
 
           let newContent: string;
-          let fileSha: string | undefined;
-
-          if (change.isNew) {
+          let mode: TreeEntryInput['mode'];
+          if (change.isNew || current === null) {
+            // New file (or not on the base yet) - extract content from diff
             newContent = this.extractNewFileContent(change.diffContent);
+            mode = this.fileMode(change.diffContent);
           } else {
-            try {
-              const currentFile = await this.writeGate.getFileContents(
-                owner,
-                repo,
-                change.path,
-                branchName
-              );
-
-              // Validate and apply diff
-              const applyResult = validateAndApplyDiff(currentFile.content, change.diffContent);
-              if (!applyResult.success) {
-                // Validation failed - return early with error
-                return {
-                  success: false,
-                  branchName,
-                  commitShas,
-                  error: `Failed to apply diff to ${change.path}: ${applyResult.error}${
-                    applyResult.validationErrors
-                      ? `\nValidation errors:\n${applyResult.validationErrors.join('\n')}`
-                      : ''
-                  }`
-                };
-              }
-
-              newContent = applyResult.content!;
-              fileSha = currentFile.sha;
-            } catch (err) {
-              newContent = this.extractNewFileContent(change.diffContent);
+            // Modified file - apply diff with validation
+            const applyResult = validateAndApplyDiff(current, change.diffContent);
+            if (!applyResult.success) {
+              return {
+                error: `Failed to apply diff to ${change.path}: ${applyResult.error}${
+                  applyResult.validationErrors
+                    ? `\nValidation errors:\n${applyResult.validationErrors.join('\n')}`
+                    : ''
+                }`
+              };
             }
+            newContent = applyResult.content!;
+            // Existing files keep their mode unless the diff changes it
+            mode = this.modeChange(change.diffContent)
+              ?? await currentMode(change.path)
+              ?? this.fileMode(change.diffContent);
           }
 
-          const result = await this.writeGate.updateFile(workflowId, {
+          const blob = await this.writeGate.createBlob(workflowId, {
             owner,
             repo,
-            path: change.path,
-            message: `${patch.title}\n\n${patch.summary}`,
             content: Buffer.from(newContent).toString('base64'),
-            sha: fileSha,
-            branch: branchName
+            encoding: 'base64'
           });
-
-          if (result.commitSha && !commitShas.includes(result.commitSha)) {
-            commitShas.push(result.commitSha);
-          }
+          written.set(change.path, newContent);
+          modes.set(change.path, mode);
+          entries.set(change.path, { path: change.path, mode, sha: blob.sha });
         }
       }
 
-      return {
-        success: true,
-        branchName,
-        commitShas
-      };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      return {
-        success: false,
-        branchName,
-        commitShas,
-        error: errorMsg
-      };
+      if (entries.size === 0) {
+        continue;
+      }
+
+      const tree = await this.writeGate.createTree(workflowId, {
+        owner,
+        repo,
+        baseTree: treeSha,
+        entries: Array.from(entries.values())
+      });
+      const commit = await this.writeGate.createCommit(workflowId, {
+        owner,
+        repo,
+        message: group.message,
+        tree: tree.sha,
+        parents: [parentSha]
+      });
+
+      treeSha = tree.sha;
+      parentSha = commit.sha;
+      commitShas.push(commit.sha);
     }
+
+    await this.writeGate.createBranch(workflowId, {
+      owner,
+      repo,
+      branch: branchName,
+      sha: parentSha
+    });
+
+    return { commitShas };
   }
 
   /**
@@ -684,17 +927,24 @@ export class PatchApplicator {
    */
   private generatePRBody(
     patchSet: { title: string; patches: Array<{ title: string; summary: string }> },
-    workflowId: string
+    workflowId: string,
+    issueReference?: string
   ): string {
     const lines = [
       '## Summary',
       '',
       `This PR was created by arch-orchestrator workflow \`${workflowId}\`.`,
-      '',
-      '## Patches Applied',
       ''
     ];
 
+    if (issueReference) {
+      lines.push(issueReference);
+      lines.push('');
+    }
+
+    lines.push('## Patches Applied');
+    lines.push('');
+
     for (const patch of patchSet.patches) {
       lines.push(`### ${patch.title}`);
       lines.push('');
@@ -709,6 +959,46 @@ export class PatchApplicator {
     return lines.join('\n');
   }
 
+  /**
+   * Commit message for a PatchSet committed as a single tree.
+   */
+  private generateCommitMessage(
+    patchSet: { title: string; patches: Array<{ title: string }> }
+  ): string {
+    return [patchSet.title, '', ...patchSet.patches.map(patch => `- ${patch.title}`)].join('\n');
+  }
+
+  /**
+   * File mode from the diff header, for files new to the base tree.
+   */
+  private fileMode(diffContent: string): TreeEntryInput['mode'] {
+    const match = diffContent.match(/^(?:new file mode|new mode|index \S+) (100755|120000)\b/m);
+    return (match?.[1] as TreeEntryInput['mode']) ?? '100644';
+  }
+
+  /**
+   * Mode set by a mode change header (`new mode`), if the diff has one.
+   */
+  private modeChange(diffContent: string): TreeEntryInput['mode'] | undefined {
+    const match = diffContent.match(/^new mode (100644|100755|120000)\b/m);
+    return match?.[1] as TreeEntryInput['mode'] | undefined;
+  }
+
+  /**
+   * Keep the original diff's extended header (file modes) on a
+   * regenerated file diff.
+   */
+  private withOriginalHeader(originalDiff: string, generatedDiff: string): string {
+    const original = originalDiff.split('\n');
+    const generated = generatedDiff.split('\n');
+    const originalEnd = original.findIndex(line => line.startsWith('--- '));
+    const generatedEnd = generated.findIndex(line => line.startsWith('--- '));
+    if (originalEnd === -1 || generatedEnd === -1) {
+      return generatedDiff;
+    }
+    return [...original.slice(0, originalEnd), ...generated.slice(generatedEnd)].join('\n');
+  }
+
   /**
    * Extract the content of a new file from its diff.
    */
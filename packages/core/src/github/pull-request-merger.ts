@@ -0,0 +1,164 @@
+/**
+ * Pull Request Merger
+ *
+ * Post-Gate3 merge stage. Once CI has passed and a `merge` approval is
+ * recorded, each open PR of the workflow whose WorkflowRepo has a
+ * `mergeMode` is handed to the SCM through WriteGate:
+ * - auto_merge: auto-merge is enabled with the repo's `mergeMethod` (PRs
+ *   that can merge right away are merged directly)
+ * - merge_queue: the PR is added to the base branch's merge queue
+ *
+ * The merge itself is usually observed later, through `pull_request`
+ * closed webhooks; PRs reported as merged here are marked merged at once.
+ *
+ * A single green check run does not start the merge: every check run on
+ * the head commit of each PR to merge has to be completed and passing.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { WriteGate } from '../policy/write-gate';
+import type { CheckRunInfo, GitHubClient, MergeMethod, MergeMode, MergePullRequestResult } from './github-client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const MERGE_MODES: MergeMode[] = ['auto_merge', 'merge_queue'];
+export const MERGE_METHODS: MergeMethod[] = ['squash', 'merge', 'rebase'];
+
+// Check run conclusions that do not hold back a merge
+const PASSING_CONCLUSIONS: Array<CheckRunInfo['conclusion']> = ['success', 'neutral', 'skipped'];
+
+export interface PullRequestMergeResult {
+  prNumber: number;
+  owner: string;
+  repo: string;
+  mode: MergeMode;
+  mergeMethod: MergeMethod;
+  status: MergePullRequestResult['status'];
+  sha?: string;
+}
+
+export interface MergeWorkflowResult {
+  prs: PullRequestMergeResult[];
+  merged: boolean; // every PR of the workflow is merged
+}
+
+type ScmClients = { forProvider(provider?: string | null): GitHubClient };
+
+// ============================================================================
+// Merger
+// ============================================================================
+
+export class PullRequestMerger {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly clients: ScmClients
+  ) {}
+
+  /**
+   * Request the merge of every open PR of a workflow whose repo has a merge
+   * mode. Throws WRITE_BLOCKED_NO_APPROVAL without a `merge` approval.
+   */
+  async merge(workflowId: string): Promise<MergeWorkflowResult> {
+    const workflow = await this.prisma.workflow.findUnique({
+      where: { id: workflowId },
+      include: { repos: true, pullRequests: { orderBy: { createdAt: 'asc' } } }
+    });
+    if (!workflow) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    const prs: PullRequestMergeResult[] = [];
+    const mergedIds = new Set(workflow.pullRequests.filter(p => p.status === 'merged').map(p => p.id));
+    for (const pr of workflow.pullRequests.filter(p => p.status === 'open')) {
+      const owner = pr.repoOwner ?? workflow.repoOwner ?? '';
+      const repo = pr.repoName ?? workflow.repoName ?? '';
+      const workflowRepo = workflow.repos.find(r => r.owner === owner && r.repo === repo);
+      if (!workflowRepo?.mergeMode) {
+        continue;
+      }
+
+      const mode = workflowRepo.mergeMode as MergeMode;
+      const mergeMethod = workflowRepo.mergeMethod as MergeMethod;
+      const writeGate = new WriteGate(this.prisma, this.clients.forProvider(workflowRepo.provider));
+      const result = await writeGate.mergePullRequest(workflowId, {
+        owner,
+        repo,
+        pullNumber: pr.number,
+        mode,
+        mergeMethod
+      });
+
+      if (result.status === 'merged') {
+        mergedIds.add(pr.id);
+        await this.prisma.pullRequest.update({
+          where: { id: pr.id },
+          data: { status: 'merged' }
+        });
+      }
+
+      const requested: PullRequestMergeResult = {
+        prNumber: pr.number,
+        owner,
+        repo,
+        mode,
+        mergeMethod,
+        status: result.status,
+        sha: result.sha
+      };
+      await this.prisma.workflowEvent.create({
+        data: {
+          workflowId,
+          type: 'worker.merge.requested',
+          payload: { ...requested }
+        }
+      });
+      prs.push(requested);
+    }
+
+    if (prs.length === 0) {
+      throw new Error('No open pull requests to merge');
+    }
+
+    return { prs, merged: workflow.pullRequests.every(p => mergedIds.has(p.id)) };
+  }
+
+  /**
+   * Whether the combined CI status of every open PR to merge is green:
+   * its head commit has check runs and all of them completed successfully
+   * (neutral and skipped runs count as passing).
+   */
+  async checksPassed(workflowId: string): Promise<boolean> {
+    const workflow = await this.prisma.workflow.findUnique({
+      where: { id: workflowId },
+      include: { repos: true, pullRequests: true }
+    });
+    if (!workflow) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    let checked = 0;
+    for (const pr of workflow.pullRequests.filter(p => p.status === 'open')) {
+      const owner = pr.repoOwner ?? workflow.repoOwner ?? '';
+      const repo = pr.repoName ?? workflow.repoName ?? '';
+      const workflowRepo = workflow.repos.find(r => r.owner === owner && r.repo === repo);
+      if (!workflowRepo?.mergeMode) {
+        continue;
+      }
+
+      const client = this.clients.forProvider(workflowRepo.provider);
+      const head = await client.getBranch({ owner, repo, branch: pr.branch });
+      const { totalCount, checkRuns } = await client.listCheckRuns({ owner, repo, ref: head.sha, perPage: 100 });
+      const green = checkRuns.length > 0
+        && checkRuns.length >= totalCount
+        && checkRuns.every(run => run.status === 'completed' && PASSING_CONCLUSIONS.includes(run.conclusion));
+      if (!green) {
+        return false;
+      }
+      checked++;
+    }
+
+    return checked > 0;
+  }
+}
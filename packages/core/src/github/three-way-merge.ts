@@ -0,0 +1,153 @@
+/**
+ * Three-Way Merge
+ *
+ * Line-based diff3 merge used to rebase a patch onto a base branch that
+ * moved after the patch was generated. Both sides are diffed against the
+ * common base; changes to disjoint line ranges are combined, identical
+ * changes are taken once, and only genuinely overlapping changes (or two
+ * insertions at the same position) are reported as conflicts.
+ */
+
+import { diffArrays } from 'diff';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MergeConflict {
+  baseStartLine: number; // 1-indexed line in the base where the conflict starts
+  base: string[];        // base lines both sides changed
+  head: string[];        // the base branch's version of those lines
+  patch: string[];       // the patch's version of those lines
+}
+
+export interface ThreeWayMergeResult {
+  clean: boolean;
+  content: string; // merged content; conflicting regions keep the head version
+  conflicts: MergeConflict[];
+}
+
+/**
+ * A change to a base line range [start, end), replaced by lines.
+ * An insertion has start === end.
+ */
+interface Hunk {
+  side: 'head' | 'patch';
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+// ============================================================================
+// Merge
+// ============================================================================
+
+function computeHunks(base: string[], changed: string[], side: Hunk['side']): Hunk[] {
+  const hunks: Hunk[] = [];
+  let position = 0;
+  let current: Hunk | null = null;
+
+  for (const part of diffArrays(base, changed)) {
+    if (!part.added && !part.removed) {
+      current = null;
+      position += part.value.length;
+      continue;
+    }
+    if (!current) {
+      current = { side, start: position, end: position, lines: [] };
+      hunks.push(current);
+    }
+    if (part.removed) {
+      position += part.value.length;
+      current.end = position;
+    } else {
+      current.lines.push(...part.value);
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * The lines a cluster's hunks from one side produce for base[start, end).
+ */
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merge the patch's changes (base → patched) into head (base → head).
+ * Changes that touch adjacent but not overlapping lines merge cleanly.
+ */
+export function mergeThreeWay(base: string, head: string, patched: string): ThreeWayMergeResult {
+  const baseLines = base.split('\n');
+  const hunks = [
+    ...computeHunks(baseLines, head.split('\n'), 'head'),
+    ...computeHunks(baseLines, patched.split('\n'), 'patch'),
+  ].sort((a, b) => a.start - b.start || (a.end - a.start) - (b.end - b.start));
+
+  // Group hunks whose base ranges overlap; two insertions at the same
+  // position overlap too, since their order is ambiguous
+  const clusters: { start: number; end: number; hunks: Hunk[] }[] = [];
+  for (const hunk of hunks) {
+    const last = clusters[clusters.length - 1];
+    const overlaps = last && (
+      hunk.start < last.end ||
+      (hunk.start === last.end && hunk.start === hunk.end && last.start === last.end)
+    );
+    if (overlaps) {
+      last.end = Math.max(last.end, hunk.end);
+      last.hunks.push(hunk);
+    } else {
+      clusters.push({ start: hunk.start, end: hunk.end, hunks: [hunk] });
+    }
+  }
+
+  const merged: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let position = 0;
+
+  for (const cluster of clusters) {
+    merged.push(...baseLines.slice(position, cluster.start));
+    const fromHead = cluster.hunks.filter(h => h.side === 'head');
+    const fromPatch = cluster.hunks.filter(h => h.side === 'patch');
+    const headLines = applyHunks(baseLines, cluster.start, cluster.end, fromHead);
+
+    if (fromHead.length === 0) {
+      merged.push(...applyHunks(baseLines, cluster.start, cluster.end, fromPatch));
+    } else if (fromPatch.length === 0) {
+      merged.push(...headLines);
+    } else {
+      const patchLines = applyHunks(baseLines, cluster.start, cluster.end, fromPatch);
+      merged.push(...headLines);
+      // Both sides made the same change
+      if (!sameLines(headLines, patchLines)) {
+        conflicts.push({
+          baseStartLine: cluster.start + 1,
+          base: baseLines.slice(cluster.start, cluster.end),
+          head: headLines,
+          patch: patchLines,
+        });
+      }
+    }
+    position = cluster.end;
+  }
+  merged.push(...baseLines.slice(position));
+
+  return {
+    clean: conflicts.length === 0,
+    content: merged.join('\n'),
+    conflicts,
+  };
+}
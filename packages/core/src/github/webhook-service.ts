@@ -5,10 +5,13 @@
  * This service is responsible for:
  * 1. Persisting valid webhook events to the database
  * 2. Processing events to trigger workflow transitions
- * 3. Marking events as processed
+ * 3. Running ChatOps commands from issue comments (when configured)
+ * 4. Creating workflows from labeled issues (when configured)
+ * 5. Marking events as processed, or failed with the error; deliveries
+ *    that keep failing are dead-lettered and can be replayed
  */
 
-import type { PrismaClient } from '@prisma/client';
+import type { PrismaClient, GitHubWebhook } from '@prisma/client';
 import {
   verifyWebhookSignature,
   parseEventType,
@@ -17,10 +20,24 @@ import {
   extractCIConclusion,
   extractHeadSha,
   extractRepositoryInfo,
+  extractPullRequestReview,
+  extractReviewComment,
+  extractMergeFailure,
+  formatReviewFeedback,
+  reviewToTransitionEvent,
   type WebhookPayload,
   type WebhookEvent,
   type GitHubWebhookEventType
 } from './webhook';
+import type { ReviewComment } from '../workflow/states';
+import type { GitHubClient } from './github-client';
+import {
+  parseChatOpsCommand,
+  formatChatOpsReply,
+  formatWorkflowStatus,
+  type ChatOpsActions
+} from './chatops';
+import { createWorkflowFromIssue } from './issue-intake';
 
 // ============================================================================
 // Types
@@ -40,11 +57,53 @@ export interface WebhookIngestResult {
   error?: string;
 }
 
+export interface WebhookServiceOptions {
+  /** Run `/orchestrator` commands from issue comments and reply with the client */
+  chatOps?: {
+    actions: ChatOpsActions;
+    client: GitHubClient;
+  };
+  /** Create a workflow when an issue gets the label (see issue-intake) */
+  issueIntake?: {
+    label: string;
+    client: GitHubClient;
+  };
+  /** Failed attempts before a delivery is dead-lettered (default 5) */
+  maxAttempts?: number;
+}
+
 export interface WebhookProcessResult {
   processed: boolean;
   action?: string;
   workflowId?: string;
   error?: string;
+  deadLettered?: boolean;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'processed' | 'failed' | 'dead_letter';
+
+export const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 5;
+export const DEFAULT_WEBHOOK_RETRY_DELAY_MS = 5000;
+
+// ============================================================================
+// Delivery Retries
+// ============================================================================
+
+/**
+ * Status of a delivery after a failed attempt.
+ */
+export function webhookFailureStatus(
+  attempts: number,
+  maxAttempts = DEFAULT_WEBHOOK_MAX_ATTEMPTS
+): Extract<WebhookDeliveryStatus, 'failed' | 'dead_letter'> {
+  return attempts >= maxAttempts ? 'dead_letter' : 'failed';
+}
+
+/**
+ * Exponential backoff before retry number `attempt` (1-based).
+ */
+export function webhookRetryDelay(attempt: number, baseDelayMs = DEFAULT_WEBHOOK_RETRY_DELAY_MS): number {
+  return baseDelayMs * 2 ** Math.max(0, attempt - 1);
 }
 
 // ============================================================================
@@ -54,7 +113,8 @@ export interface WebhookProcessResult {
 export class WebhookService {
   constructor(
     private readonly prisma: PrismaClient,
-    private readonly webhookSecret: string
+    private readonly webhookSecret: string,
+    private readonly options: WebhookServiceOptions = {}
   ) {}
 
   /**
@@ -155,6 +215,56 @@ export class WebhookService {
       };
     }
 
+    const attempts = webhook.attempts + 1;
+    try {
+      const { action, workflowId } = await this.handle(webhook);
+
+      await this.prisma.gitHubWebhook.update({
+        where: { id: webhookId },
+        data: {
+          processed: true,
+          processedAt: new Date(),
+          status: 'processed',
+          attempts,
+          lastAttemptAt: new Date(),
+          lastError: null
+        }
+      });
+
+      return {
+        processed: true,
+        action,
+        workflowId
+      };
+    } catch (err) {
+      // Left unprocessed for a retry until the attempts run out
+      const status = webhookFailureStatus(attempts, this.options.maxAttempts);
+      const error = err instanceof Error ? err.message : String(err);
+      await this.prisma.gitHubWebhook.update({
+        where: { id: webhookId },
+        data: {
+          status,
+          attempts,
+          lastAttemptAt: new Date(),
+          lastError: error,
+          deadLetteredAt: status === 'dead_letter' ? new Date() : null
+        }
+      });
+
+      return {
+        processed: false,
+        error,
+        deadLettered: status === 'dead_letter'
+      };
+    }
+  }
+
+  /**
+   * Run the handlers for a delivery. Handlers must tolerate running twice
+   * for the same delivery (retries and replays).
+   */
+  private async handle(webhook: GitHubWebhook): Promise<{ action?: string; workflowId?: string }> {
+    const webhookId = webhook.id;
     const payload = webhook.payload as WebhookPayload;
     const event = createWebhookEvent(
       webhook.eventType as GitHubWebhookEventType,
@@ -225,7 +335,10 @@ export class WebhookService {
       if (pr) {
         workflowId = pr.workflowId;
 
-        if (event.action === 'closed' && payload.pull_request.state === 'merged') {
+        if (event.action === 'closed' && (pr.status === 'merged' || pr.status === 'closed')) {
+          // Already handled (redelivery or replay)
+          action = 'pr_closed_duplicate';
+        } else if (event.action === 'closed' && payload.pull_request.state === 'merged') {
           // PR was merged
           await this.prisma.pullRequest.update({
             where: { id: pr.id },
@@ -248,24 +361,250 @@ export class WebhookService {
             where: { id: pr.id },
             data: { status: 'closed' }
           });
+        } else if (pr.status === 'open') {
+          const failure = extractMergeFailure(event);
+          if (failure) {
+            action = 'pr_merge_failed';
+            await this.prisma.workflowEvent.create({
+              data: {
+                workflowId: pr.workflowId,
+                type: 'E_MERGE_FAILED',
+                payload: {
+                  prNumber: failure.prNumber,
+                  reason: failure.reason,
+                  webhookId
+                }
+              }
+            });
+          }
         }
       }
     }
 
-    // Mark as processed
-    await this.prisma.gitHubWebhook.update({
-      where: { id: webhookId },
+    // Handle inline review comments - kept until their review is submitted
+    const comment = extractReviewComment(event);
+    if (comment && payload.pull_request) {
+      const pr = await this.findOrchestratorPullRequest(payload.pull_request.number, payload.pull_request.head.ref);
+      if (pr) {
+        workflowId = pr.workflowId;
+        action = 'review_comment_created';
+
+        await this.prisma.workflowEvent.create({
+          data: {
+            workflowId: pr.workflowId,
+            type: 'webhook.pull_request_review_comment.created',
+            payload: { prNumber: pr.number, webhookId, ...comment }
+          }
+        });
+      }
+    }
+
+    // Handle submitted reviews (changes requested, approved)
+    const review = extractPullRequestReview(event);
+    if (review) {
+      const pr = await this.findOrchestratorPullRequest(review.prNumber, review.headBranch);
+      if (pr) {
+        workflowId = pr.workflowId;
+        action = `review_${review.state}`;
+
+        await this.prisma.pullRequest.update({
+          where: { id: pr.id },
+          data: { reviewState: review.state }
+        });
+
+        const comments = review.state === 'changes_requested'
+          ? await this.collectReviewComments(pr.workflowId, review.prNumber, review.reviewId)
+          : [];
+        const transitionEvent = reviewToTransitionEvent(review, comments);
+
+        if (transitionEvent) {
+          if (transitionEvent.type === 'E_PR_CHANGES_REQUESTED') {
+            await this.prisma.workflow.update({
+              where: { id: pr.workflowId },
+              data: { feedback: formatReviewFeedback(review, comments) }
+            });
+          }
+
+          await this.prisma.workflowEvent.create({
+            data: {
+              workflowId: pr.workflowId,
+              type: transitionEvent.type,
+              payload: JSON.parse(JSON.stringify({ ...transitionEvent, webhookId }))
+            }
+          });
+        }
+      }
+    }
+
+    // Handle ChatOps commands in issue and PR comments
+    if (event.type === 'issue_comment' && event.action === 'created' && this.options.chatOps) {
+      const chatOps = await this.processChatOpsCommand(payload, webhookId);
+      if (chatOps) {
+        ({ action, workflowId } = chatOps);
+      }
+    }
+
+    // Create workflows from labeled issues; the caller emits E_WORKFLOW_CREATED
+    if (event.type === 'issues' && event.action === 'labeled' && this.options.issueIntake) {
+      const { label, client } = this.options.issueIntake;
+      const { issue, repository } = payload;
+      if (issue && repository && !issue.pull_request && payload.label?.name === label) {
+        const result = await createWorkflowFromIssue(this.prisma, client, {
+          owner: repository.owner.login,
+          repo: repository.name,
+          number: issue.number,
+          title: issue.title,
+          body: issue.body,
+          url: issue.html_url
+        });
+        workflowId = result.workflowId;
+        action = result.created ? 'issue_workflow_created' : 'issue_workflow_exists';
+      }
+    }
+
+    return { action, workflowId };
+  }
+
+  /**
+   * Run a `/orchestrator` command from an issue_comment event and reply.
+   * Returns null for comments without a command, from bots, or on issues
+   * and PRs that belong to no workflow.
+   */
+  private async processChatOpsCommand(
+    payload: WebhookPayload,
+    webhookId: string
+  ): Promise<{ action: string; workflowId: string } | null> {
+    const { actions, client } = this.options.chatOps!;
+    const { issue, comment, sender, repository } = payload;
+    if (!issue || !comment || !sender || !repository || sender.type === 'Bot') {
+      return null;
+    }
+
+    const parsed = parseChatOpsCommand(comment.body);
+    if (!parsed) {
+      return null;
+    }
+
+    const owner = repository.owner.login;
+    const repo = repository.name;
+    const isPullRequest = !!issue.pull_request;
+    const workflowId = await this.findWorkflowForIssue(owner, repo, issue.number, isPullRequest);
+    if (!workflowId) {
+      return null;
+    }
+
+    // Only users who signed in to the dashboard may run commands
+    const auth = await this.prisma.gitHubAuth.findUnique({
+      where: { githubUserId: String(sender.id) }
+    });
+
+    let action: string;
+    let reply: string;
+    let ok = false;
+    if (!auth) {
+      action = 'chatops_unauthorized';
+      reply = `@${sender.login} is not authorized to run orchestrator commands. Sign in to the dashboard with GitHub first.`;
+    } else if (!parsed.ok) {
+      action = 'chatops_invalid';
+      reply = `@${sender.login} ${parsed.error}`;
+    } else {
+      const { command } = parsed;
+      action = `chatops_${command.name}`;
+
+      const workflow = await this.prisma.workflow.findUnique({
+        where: { id: workflowId },
+        include: { pullRequests: { orderBy: { createdAt: 'asc' } } }
+      });
+      if (!workflow) {
+        return null;
+      }
+
+      const via = `via comment ${comment.html_url ?? `#${comment.id}`}`;
+      if (command.name === 'status') {
+        ok = true;
+        reply = formatWorkflowStatus(workflow);
+      } else {
+        const stage = command.name === 'request-changes' ? workflow.stage : command.stage ?? workflow.stage;
+        const result = command.name === 'approve'
+          ? await actions.approveStage(workflowId, stage, `Approved ${via}`, auth.githubUserId, auth.username)
+          : command.name === 'retry'
+            ? await actions.retryStage(workflowId, stage, auth.githubUserId, auth.username)
+            : await actions.requestStageChanges(workflowId, stage, command.reason, auth.githubUserId, auth.username);
+        ok = result.ok;
+        reply = formatChatOpsReply(command, stage, result, sender.login);
+      }
+    }
+
+    await this.prisma.workflowEvent.create({
       data: {
-        processed: true,
-        processedAt: new Date()
+        workflowId,
+        type: `chatops.${action.slice('chatops_'.length)}`,
+        payload: { webhookId, commentId: comment.id, actor: sender.login, ok }
       }
     });
 
-    return {
-      processed: true,
-      action,
-      workflowId
-    };
+    await client.createIssueComment({ owner, repo, issueNumber: issue.number, body: reply, pullRequest: isPullRequest });
+
+    return { action, workflowId };
+  }
+
+  /**
+   * The workflow a comment's issue or PR belongs to: a PR the orchestrator
+   * opened in that repository, or the workflow's linked issue.
+   */
+  private async findWorkflowForIssue(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    isPullRequest: boolean
+  ): Promise<string | null> {
+    if (isPullRequest) {
+      const pr = await this.prisma.pullRequest.findFirst({
+        where: {
+          number: issueNumber,
+          workflow: {
+            OR: [
+              { repoOwner: owner, repoName: repo },
+              { repos: { some: { owner, repo } } }
+            ]
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+      return pr?.workflowId ?? null;
+    }
+
+    const workflow = await this.prisma.workflow.findFirst({
+      where: { issueOwner: owner, issueRepo: repo, issueNumber },
+      orderBy: { createdAt: 'desc' }
+    });
+    return workflow?.id ?? null;
+  }
+
+  /**
+   * Find a PR the orchestrator opened. Both the number and the head branch
+   * must match, so reviews on unrelated PRs with the same number are ignored.
+   */
+  private async findOrchestratorPullRequest(number: number, branch: string) {
+    return this.prisma.pullRequest.findFirst({
+      where: { number, branch }
+    });
+  }
+
+  /**
+   * Inline comments recorded for a review, in the order they arrived.
+   */
+  private async collectReviewComments(workflowId: string, prNumber: number, reviewId: number): Promise<ReviewComment[]> {
+    const events = await this.prisma.workflowEvent.findMany({
+      where: { workflowId, type: 'webhook.pull_request_review_comment.created' },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return events
+      .map(e => e.payload as (ReviewComment & { prNumber?: number; reviewId?: number }) | null)
+      .filter((p): p is ReviewComment & { prNumber?: number; reviewId?: number } =>
+        !!p && p.prNumber === prNumber && p.reviewId === reviewId)
+      .map(({ path, line, body, author }) => ({ path, line, body, author }));
   }
 
   /**
@@ -273,7 +612,7 @@ export class WebhookService {
    */
   async getUnprocessedWebhooks(limit = 100): Promise<Array<{ id: string; eventType: string }>> {
     const webhooks = await this.prisma.gitHubWebhook.findMany({
-      where: { processed: false },
+      where: { processed: false, status: { not: 'dead_letter' } },
       orderBy: { createdAt: 'asc' },
       take: limit,
       select: { id: true, eventType: true }
@@ -282,6 +621,48 @@ export class WebhookService {
     return webhooks;
   }
 
+  /**
+   * Unprocessed deliveries with no attempt since `staleBefore` (lost jobs,
+   * retries that never ran). Dead letters are left for a manual replay.
+   */
+  async getStaleWebhooks(staleBefore: Date, limit = 100): Promise<Array<{ id: string; deliveryId: string }>> {
+    return this.prisma.gitHubWebhook.findMany({
+      where: {
+        status: { in: ['pending', 'failed'] },
+        createdAt: { lt: staleBefore },
+        OR: [
+          { lastAttemptAt: null },
+          { lastAttemptAt: { lt: staleBefore } }
+        ]
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+      select: { id: true, deliveryId: true }
+    });
+  }
+
+  /**
+   * Process a delivery again, including processed and dead-lettered ones.
+   * Handlers skip effects they already applied, so a replay only redoes
+   * what is missing.
+   */
+  async replay(deliveryId: string): Promise<WebhookProcessResult> {
+    const webhook = await this.getByDeliveryId(deliveryId);
+    if (!webhook) {
+      return {
+        processed: false,
+        error: `Webhook delivery ${deliveryId} not found`
+      };
+    }
+
+    await this.prisma.gitHubWebhook.update({
+      where: { id: webhook.id },
+      data: { processed: false, status: 'pending', attempts: 0, deadLetteredAt: null }
+    });
+
+    return this.process(webhook.id);
+  }
+
   /**
    * Get webhook by delivery ID.
    */
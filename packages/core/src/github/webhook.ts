@@ -5,9 +5,12 @@
  * - Signature verification (HMAC-SHA256)
  * - Event parsing and validation
  * - Event type detection
+ * - Pull request review extraction
+ * - Merge failure detection (auto-merge disabled, merge queue dequeues)
  */
 
 import { createHmac, timingSafeEqual } from 'crypto';
+import type { ReviewComment, TransitionEvent } from '../workflow/states';
 
 // ============================================================================
 // Types
@@ -20,7 +23,10 @@ export type GitHubWebhookEventType =
   | 'check_suite'
   | 'workflow_run'
   | 'status'
+  | 'issues'
   | 'issue_comment'
+  | 'pull_request_review'
+  | 'pull_request_review_comment'
   | 'ping'
   | 'unknown';
 
@@ -37,11 +43,13 @@ export interface WebhookPayload {
   sender?: {
     id: number;
     login: string;
+    type?: string; // User | Bot
   };
   // Pull request events
   pull_request?: {
     number: number;
     state: string;
+    merged?: boolean;
     title: string;
     head: {
       sha: string;
@@ -76,6 +84,40 @@ export interface WebhookPayload {
     head_sha: string;
     workflow_id: number;
   };
+  // Issue and issue comment events (the issue is a pull request when pull_request is set)
+  issue?: {
+    number: number;
+    title: string;
+    body?: string | null;
+    html_url?: string;
+    user?: { login: string };
+    pull_request?: { url: string };
+  };
+  // Issue labeled / unlabeled events
+  label?: {
+    name: string;
+  };
+  // Pull request review events
+  review?: {
+    id: number;
+    state: string; // approved | changes_requested | commented | dismissed
+    body: string | null;
+    commit_id?: string;
+    user?: { login: string };
+  };
+  // Issue and pull request review comment events
+  comment?: {
+    id: number;
+    html_url?: string;
+    pull_request_review_id?: number | null;
+    path?: string;
+    line?: number | null;
+    original_line?: number | null;
+    body: string;
+    user?: { login: string };
+  };
+  // Pull request auto_merge_disabled / dequeued events
+  reason?: string;
   // Status events
   sha?: string;
   state?: string;
@@ -161,7 +203,10 @@ export function parseEventType(eventHeader: string | undefined): GitHubWebhookEv
     'check_suite',
     'workflow_run',
     'status',
+    'issues',
     'issue_comment',
+    'pull_request_review',
+    'pull_request_review_comment',
     'ping'
   ];
 
@@ -285,3 +330,148 @@ export function extractRepositoryInfo(event: WebhookEvent): {
   }
   return null;
 }
+
+// ============================================================================
+// Pull Request Reviews
+// ============================================================================
+
+export type PullRequestReviewState = 'approved' | 'changes_requested' | 'commented' | 'dismissed';
+
+export interface PullRequestReview {
+  prNumber: number;
+  headBranch: string;
+  reviewId: number;
+  state: PullRequestReviewState;
+  reviewer?: string;
+  body?: string;
+  commitSha?: string;
+}
+
+/**
+ * Extract a submitted review from a pull_request_review event.
+ * Returns null for other events and actions.
+ */
+export function extractPullRequestReview(event: WebhookEvent): PullRequestReview | null {
+  const { review, pull_request } = event.payload;
+  if (event.type !== 'pull_request_review' || event.action !== 'submitted' || !review || !pull_request) {
+    return null;
+  }
+
+  const state = review.state.toLowerCase();
+  if (state !== 'approved' && state !== 'changes_requested' && state !== 'commented' && state !== 'dismissed') {
+    return null;
+  }
+
+  return {
+    prNumber: pull_request.number,
+    headBranch: pull_request.head.ref,
+    reviewId: review.id,
+    state,
+    reviewer: review.user?.login,
+    body: review.body || undefined,
+    commitSha: review.commit_id
+  };
+}
+
+/**
+ * Extract an inline comment from a pull_request_review_comment event.
+ * Comments on outdated diffs fall back to their original line.
+ */
+export function extractReviewComment(event: WebhookEvent): (ReviewComment & { reviewId?: number }) | null {
+  const { comment } = event.payload;
+  if (event.type !== 'pull_request_review_comment' || event.action !== 'created' || !comment) {
+    return null;
+  }
+
+  return {
+    path: comment.path,
+    line: comment.line ?? comment.original_line ?? undefined,
+    body: comment.body,
+    author: comment.user?.login,
+    reviewId: comment.pull_request_review_id ?? undefined
+  };
+}
+
+/**
+ * Map a submitted review to a TransitionEvent.
+ * Plain comments and dismissals do not move the workflow.
+ */
+export function reviewToTransitionEvent(
+  review: PullRequestReview,
+  comments: ReviewComment[] = []
+): TransitionEvent | null {
+  if (review.state === 'changes_requested') {
+    return {
+      type: 'E_PR_CHANGES_REQUESTED',
+      prNumber: review.prNumber,
+      reviewer: review.reviewer,
+      body: review.body,
+      comments
+    };
+  }
+  if (review.state === 'approved') {
+    return { type: 'E_PR_APPROVED', prNumber: review.prNumber, reviewer: review.reviewer };
+  }
+  return null;
+}
+
+// Dequeue reasons that are not failures: the PR left the queue by merging
+const MERGED_DEQUEUE_REASONS = ['MERGE', 'ALREADY_MERGED'];
+
+export interface MergeFailure {
+  prNumber: number;
+  headBranch: string;
+  reason: string;
+}
+
+/**
+ * Extract a merge failure from a pull_request event: auto-merge was disabled
+ * or the PR was removed from the merge queue before merging.
+ * Returns null for other events, and for PRs that merged or were closed.
+ */
+export function extractMergeFailure(event: WebhookEvent): MergeFailure | null {
+  const { pull_request, reason } = event.payload;
+  if (event.type !== 'pull_request' || !pull_request) {
+    return null;
+  }
+  if (event.action !== 'auto_merge_disabled' && event.action !== 'dequeued') {
+    return null;
+  }
+  if (pull_request.merged || pull_request.state !== 'open') {
+    return null;
+  }
+  if (event.action === 'dequeued' && reason && MERGED_DEQUEUE_REASONS.includes(reason.toUpperCase())) {
+    return null;
+  }
+
+  const fallback = event.action === 'dequeued' ? 'Removed from the merge queue' : 'Auto-merge was disabled';
+  return {
+    prNumber: pull_request.number,
+    headBranch: pull_request.head.ref,
+    reason: reason ? `${fallback}: ${reason}` : fallback
+  };
+}
+
+/**
+ * Format review feedback for Workflow.feedback, which the patch generation
+ * prompts include verbatim.
+ */
+export function formatReviewFeedback(
+  review: Pick<PullRequestReview, 'prNumber' | 'reviewer' | 'body'>,
+  comments: ReviewComment[]
+): string {
+  const lines = [`Changes requested on PR #${review.prNumber}${review.reviewer ? ` by @${review.reviewer}` : ''}.`];
+  if (review.body?.trim()) {
+    lines.push('', review.body.trim());
+  }
+  if (comments.length > 0) {
+    lines.push('', 'Review comments:');
+    for (const comment of comments) {
+      const location = comment.path
+        ? `${comment.path}${comment.line ? `:${comment.line}` : ''}`
+        : 'general';
+      lines.push(`- ${location}: ${comment.body.trim().replace(/\s*\n\s*/g, ' ')}`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,79 @@
+/**
+ * Minimal ZIP reader
+ *
+ * GitHub serves workflow run artifacts as ZIP archives. This reads the
+ * central directory and inflates stored/deflated entries with zlib; it
+ * does not support encryption, ZIP64 or multi-disk archives, none of
+ * which GitHub produces for artifacts.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  path: string;
+  data: Buffer;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Read the file entries of a ZIP archive. Directory entries are skipped.
+ * Entries larger than maxEntryBytes (uncompressed) are skipped too.
+ */
+export function readZipEntries(archive: Buffer, maxEntryBytes = Infinity): ZipEntry[] {
+  // The end-of-central-directory record is in the last 64KB + 22 bytes
+  let eocd = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 65557); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Invalid ZIP archive: end of central directory not found');
+  }
+
+  const count = archive.readUInt16LE(eocd + 10);
+  let offset = archive.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP archive: bad central directory header');
+    }
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const path = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/') || size > maxEntryBytes) {
+      continue;
+    }
+
+    if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid ZIP archive: bad local header for ${path}`);
+    }
+    // Local header lengths may differ from the central directory's
+    const dataStart = localOffset + 30 +
+      archive.readUInt16LE(localOffset + 26) +
+      archive.readUInt16LE(localOffset + 28);
+    const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.push({ path, data: Buffer.from(compressed) });
+    } else if (method === 8) {
+      entries.push({ path, data: inflateRawSync(compressed) });
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${path}`);
+    }
+  }
+
+  return entries;
+}
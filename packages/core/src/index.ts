@@ -7,3 +7,6 @@ export * from './memory';
 export * from './prd';
 export * from './agents';
 export * from './diagnosis';
+export * from './ci';
+export * from './scm';
+export * from './indexer';
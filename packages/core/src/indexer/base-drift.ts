@@ -0,0 +1,239 @@
+/**
+ * Base Drift
+ *
+ * Applies a push to a tracked base branch: the files that changed between
+ * the old and new base SHA are found by comparing the two trees' blob SHAs,
+ * the code index is rebuilt (only changed blobs are fetched and parsed), the
+ * RepoContext moves to the new SHA, and in-flight workflows whose PatchSets
+ * touch changed files get a `base.drift` timeline event. A push applies only
+ * on top of the SHA the RepoContext is at; replayed and out-of-order pushes
+ * are skipped.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { GitHubClient, TreeItem } from '../github/github-client';
+import { SETTLED_STATES } from '../workflow/states';
+import { RepoIndexer } from './repo-indexer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const BASE_DRIFT_EVENT = 'base.drift';
+
+export interface BaseChanges {
+  added: string[];
+  modified: string[];
+  removed: string[];
+}
+
+export interface BasePush {
+  repoOwner: string;
+  repoName: string;
+  baseBranch: string;
+  beforeSha: string;
+  afterSha: string;
+}
+
+export interface BaseDrift {
+  workflowId: string;
+  files: string[];       // changed files the workflow's PatchSets touch
+  patchSetIds: string[];
+}
+
+export interface BasePushResult {
+  applied: boolean; // false when the RepoContext was not at the push's before SHA
+  changes: BaseChanges;
+  contextChanged: boolean; // the RepoContext's context file changed; its summary needs a refresh
+  indexedModules: number;
+  parsedFiles: number;
+  drift: BaseDrift[];
+}
+
+// ============================================================================
+// Tree Comparison
+// ============================================================================
+
+/**
+ * Files added, modified (different blob) and removed between two trees.
+ */
+export function diffTreeBlobs(before: TreeItem[], after: TreeItem[]): BaseChanges {
+  const blobs = (items: TreeItem[]) =>
+    new Map(items.filter(item => item.type === 'blob').map(item => [item.path, item.sha]));
+  const old = blobs(before);
+  const current = blobs(after);
+
+  const changes: BaseChanges = { added: [], modified: [], removed: [] };
+  for (const [path, sha] of current) {
+    const previous = old.get(path);
+    if (previous === undefined) {
+      changes.added.push(path);
+    } else if (previous !== sha) {
+      changes.modified.push(path);
+    }
+  }
+  for (const path of old.keys()) {
+    if (!current.has(path)) {
+      changes.removed.push(path);
+    }
+  }
+
+  changes.added.sort();
+  changes.modified.sort();
+  changes.removed.sort();
+  return changes;
+}
+
+export function changedPaths(changes: BaseChanges): string[] {
+  return [...changes.added, ...changes.modified, ...changes.removed].sort();
+}
+
+/**
+ * Paths in a Patch's `files` JSON ([{ path, additions, deletions }]).
+ */
+export function patchFilePaths(files: unknown): string[] {
+  if (!Array.isArray(files)) {
+    return [];
+  }
+  return files
+    .map(file => (typeof file === 'string' ? file : (file as { path?: unknown })?.path))
+    .filter((path): path is string => typeof path === 'string');
+}
+
+// ============================================================================
+// Push Handling
+// ============================================================================
+
+/**
+ * Apply a push to a tracked base branch. Safe to run again for the same
+ * push: once the RepoContext has moved to the new SHA the push is skipped,
+ * and drift events are recorded once per workflow and new base SHA. The
+ * context stays stale once a push changed its document, until
+ * refresh_context re-ingests it.
+ */
+export async function refreshRepoIndexOnPush(
+  prisma: PrismaClient,
+  github: Pick<GitHubClient, 'getTree' | 'getFileContents'>,
+  push: BasePush
+): Promise<BasePushResult> {
+  const { repoOwner, repoName, baseBranch, beforeSha, afterSha } = push;
+
+  const current = await prisma.repoContext.findUnique({
+    where: { repoOwner_repoName_baseBranch: { repoOwner, repoName, baseBranch } },
+    select: { baseSha: true, contextPath: true, isStale: true }
+  });
+  // Replayed or out of order: the index must not move back to an older tree
+  if (current?.baseSha && current.baseSha !== beforeSha) {
+    return {
+      applied: false,
+      changes: { added: [], modified: [], removed: [] },
+      contextChanged: false,
+      indexedModules: 0,
+      parsedFiles: 0,
+      drift: []
+    };
+  }
+
+  const [before, after] = await Promise.all([
+    github.getTree({ owner: repoOwner, repo: repoName, sha: beforeSha, recursive: true }),
+    github.getTree({ owner: repoOwner, repo: repoName, sha: afterSha, recursive: true })
+  ]);
+  const changes = diffTreeBlobs(before.tree, after.tree);
+  const changed = new Set(changedPaths(changes));
+
+  const indexer = new RepoIndexer(prisma, github);
+  const { index, parsedFiles } = await indexer.indexRepo({ repoOwner, repoName, baseBranch, baseSha: afterSha, tree: after });
+
+  // The context document's summary stays stale until refresh_context reruns
+  const contextChanged = !!current && changed.has(current.contextPath);
+  if (current) {
+    // Conditional on the SHA read above, so a concurrent push is not undone
+    await prisma.repoContext.updateMany({
+      where: { repoOwner, repoName, baseBranch, baseSha: current.baseSha },
+      data: { baseSha: afterSha, isStale: contextChanged || current.isStale }
+    });
+  }
+
+  const drift = changed.size > 0 ? await recordBaseDrift(prisma, push, changed) : [];
+
+  return {
+    applied: true,
+    changes,
+    contextChanged,
+    indexedModules: Object.keys(index.files).length,
+    parsedFiles,
+    drift
+  };
+}
+
+/**
+ * Record `base.drift` on in-flight workflows on this repo and branch whose
+ * PatchSets touch changed files.
+ */
+async function recordBaseDrift(prisma: PrismaClient, push: BasePush, changed: Set<string>): Promise<BaseDrift[]> {
+  const { repoOwner, repoName, baseBranch, beforeSha, afterSha } = push;
+
+  const workflows = await prisma.workflow.findMany({
+    where: {
+      state: { notIn: SETTLED_STATES },
+      OR: [
+        { repos: { some: { owner: repoOwner, repo: repoName, baseBranch } } },
+        { repoOwner, repoName, baseBranch }
+      ]
+    },
+    include: {
+      patchSets: {
+        where: {
+          status: { not: 'rejected' },
+          OR: [{ repoOwner, repoName }, { repoOwner: null }]
+        },
+        include: { patches: { select: { files: true } } }
+      },
+      events: { where: { type: BASE_DRIFT_EVENT } }
+    }
+  });
+
+  const drift: BaseDrift[] = [];
+  for (const workflow of workflows) {
+    const alreadyRecorded = workflow.events.some(event => {
+      const payload = event.payload as { repoOwner?: string; repoName?: string; baseSha?: string } | null;
+      return payload?.repoOwner === repoOwner && payload?.repoName === repoName && payload?.baseSha === afterSha;
+    });
+    if (alreadyRecorded) {
+      continue;
+    }
+
+    const files = new Set<string>();
+    const patchSetIds: string[] = [];
+    for (const patchSet of workflow.patchSets) {
+      const touched = patchSet.patches.flatMap(patch => patchFilePaths(patch.files)).filter(path => changed.has(path));
+      if (touched.length > 0) {
+        touched.forEach(path => files.add(path));
+        patchSetIds.push(patchSet.id);
+      }
+    }
+    if (files.size === 0) {
+      continue;
+    }
+
+    const entry = { workflowId: workflow.id, files: [...files].sort(), patchSetIds };
+    await prisma.workflowEvent.create({
+      data: {
+        workflowId: workflow.id,
+        type: BASE_DRIFT_EVENT,
+        payload: {
+          repoOwner,
+          repoName,
+          baseBranch,
+          previousSha: beforeSha,
+          baseSha: afterSha,
+          files: entry.files,
+          patchSetIds
+        }
+      }
+    });
+    drift.push(entry);
+  }
+
+  return drift;
+}
@@ -0,0 +1,204 @@
+/**
+ * Code Index
+ *
+ * Symbol table and module import graph of a repository at one commit, and
+ * the queries the patch generation pass and the architecture analysis use:
+ * who imports a module, what a module imports, where a symbol is defined.
+ */
+
+import type { ImportGraph } from '../policy/blast-radius';
+import { resolveImport, type CodeLanguage, type CodeSymbol } from './code-parser';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Parse result of one file, before its imports are resolved.
+ */
+export interface IndexedFile {
+  path: string;
+  blobSha: string;
+  language: CodeLanguage;
+  symbols: CodeSymbol[];
+  imports: string[]; // specifiers as written
+}
+
+export interface CodeIndexEntry {
+  blobSha: string;
+  language: CodeLanguage;
+  symbols: CodeSymbol[];
+  imports: string[]; // resolved repo paths
+}
+
+/**
+ * Stored in RepoContext.codeIndex; its import graph in RepoContext.importGraph.
+ */
+export interface CodeIndex {
+  baseSha: string;
+  files: Record<string, CodeIndexEntry>;
+}
+
+export interface SymbolLocation extends CodeSymbol {
+  path: string;
+}
+
+// ============================================================================
+// Building
+// ============================================================================
+
+/**
+ * Build the index of a commit from its parsed files. Imports of packages
+ * and of files outside the index are dropped.
+ */
+export function buildCodeIndex(baseSha: string, files: IndexedFile[]): CodeIndex {
+  const paths = new Set(files.map(f => f.path));
+  const index: CodeIndex = { baseSha, files: {} };
+
+  for (const file of [...files].sort((a, b) => a.path.localeCompare(b.path))) {
+    const imports = new Set<string>();
+    for (const specifier of file.imports) {
+      const resolved = resolveImport(file.path, specifier, file.language, paths);
+      if (resolved && resolved !== file.path) {
+        imports.add(resolved);
+      }
+    }
+    index.files[file.path] = {
+      blobSha: file.blobSha,
+      language: file.language,
+      symbols: file.symbols,
+      imports: [...imports].sort(),
+    };
+  }
+
+  return index;
+}
+
+/**
+ * Module import graph of an index, in the shape blast-radius scoring uses.
+ */
+export function importGraphOf(index: CodeIndex): ImportGraph {
+  const graph: ImportGraph = {};
+  for (const [path, entry] of Object.entries(index.files)) {
+    graph[path] = entry.imports;
+  }
+  return graph;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Modules that import `path`; with `transitive`, also their importers.
+ */
+export function findImporters(index: CodeIndex, path: string, options: { transitive?: boolean } = {}): string[] {
+  const found = new Set<string>();
+  const queue = [path];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const [importer, entry] of Object.entries(index.files)) {
+      if (entry.imports.includes(current) && importer !== path && !found.has(importer)) {
+        found.add(importer);
+        if (options.transitive) {
+          queue.push(importer);
+        }
+      }
+    }
+  }
+
+  return [...found].sort();
+}
+
+/**
+ * Repo modules that `path` imports.
+ */
+export function findImports(index: CodeIndex, path: string): string[] {
+  return index.files[path]?.imports ?? [];
+}
+
+/**
+ * Where a symbol is defined.
+ */
+export function findSymbol(index: CodeIndex, name: string): SymbolLocation[] {
+  const locations: SymbolLocation[] = [];
+  for (const [path, entry] of Object.entries(index.files)) {
+    for (const symbol of entry.symbols) {
+      if (symbol.name === name) {
+        locations.push({ ...symbol, path });
+      }
+    }
+  }
+  return locations;
+}
+
+/**
+ * Modules ranked by how many modules import them.
+ */
+export function mostImportedModules(index: CodeIndex, limit = 10): Array<{ path: string; importers: number }> {
+  const counts = new Map<string, number>();
+  for (const entry of Object.values(index.files)) {
+    for (const imported of entry.imports) {
+      counts.set(imported, (counts.get(imported) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([path, importers]) => ({ path, importers }))
+    .sort((a, b) => b.importers - a.importers || a.path.localeCompare(b.path))
+    .slice(0, limit);
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function symbolList(entry: CodeIndexEntry, limit = 8): string {
+  const names = entry.symbols.map(s => s.name);
+  const extra = names.length > limit ? `, +${names.length - limit} more` : '';
+  return names.slice(0, limit).join(', ') + extra;
+}
+
+/**
+ * Module overview for prompts: the most imported modules with their
+ * exported symbols, and how many modules and symbols were indexed.
+ */
+export function formatCodeIndexOverview(index: CodeIndex, options: { maxModules?: number } = {}): string {
+  const entries = Object.values(index.files);
+  const symbolCount = entries.reduce((sum, e) => sum + e.symbols.length, 0);
+  const lines = [`Indexed ${entries.length} modules with ${symbolCount} exported symbols at ${index.baseSha.slice(0, 7)}.`];
+
+  const hubs = mostImportedModules(index, options.maxModules ?? 15);
+  if (hubs.length > 0) {
+    lines.push('', 'Most imported modules:');
+    for (const hub of hubs) {
+      const symbols = symbolList(index.files[hub.path]);
+      lines.push(`- ${hub.path} (imported by ${hub.importers})${symbols ? `: ${symbols}` : ''}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Imports, importers and exported symbols of each given file, for prompts.
+ * Files missing from the index are skipped.
+ */
+export function formatFileRelations(index: CodeIndex, paths: string[]): string {
+  const lines: string[] = [];
+  for (const path of paths) {
+    const entry = index.files[path];
+    if (!entry) continue;
+
+    const importers = findImporters(index, path);
+    lines.push(`### ${path}`);
+    if (entry.symbols.length > 0) lines.push(`Exports: ${symbolList(entry, 20)}`);
+    if (entry.imports.length > 0) lines.push(`Imports: ${entry.imports.join(', ')}`);
+    if (importers.length > 0) {
+      const shown = importers.slice(0, 20).join(', ');
+      lines.push(`Imported by: ${shown}${importers.length > 20 ? `, +${importers.length - 20} more` : ''}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n').trim();
+}
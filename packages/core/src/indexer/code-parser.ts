@@ -0,0 +1,261 @@
+/**
+ * Code Parser
+ *
+ * Line-oriented extraction of exported symbols and import specifiers from
+ * TypeScript/JavaScript and Python sources, and resolution of specifiers to
+ * repo paths. No compiler is involved: the patterns cover declarations at
+ * the start of a line, which is how nearly all module-level code is written.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CodeLanguage = 'typescript' | 'javascript' | 'python';
+
+export type SymbolKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'const' | 'variable';
+
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  line: number; // 1-indexed
+}
+
+export interface ParsedSource {
+  language: CodeLanguage;
+  symbols: CodeSymbol[];
+  imports: string[]; // specifiers as written, e.g. './user' or 'app.models'
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, CodeLanguage> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  py: 'python',
+};
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Language of a file from its extension; null for unsupported files
+ * (including TypeScript declaration files).
+ */
+export function detectLanguage(path: string): CodeLanguage | null {
+  if (/\.d\.[mc]?ts$/.test(path)) {
+    return null;
+  }
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return LANGUAGE_BY_EXTENSION[extension] ?? null;
+}
+
+/**
+ * Extract exported symbols and imports. Returns null for unsupported files.
+ */
+export function parseSourceFile(path: string, content: string): ParsedSource | null {
+  const language = detectLanguage(path);
+  if (!language) {
+    return null;
+  }
+  return language === 'python'
+    ? { language, ...parsePython(content) }
+    : { language, ...parseScript(content) };
+}
+
+const SCRIPT_DECLARATION =
+  /^export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|const\s+enum|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+
+function parseScript(content: string): Omit<ParsedSource, 'language'> {
+  const symbols: CodeSymbol[] = [];
+  const lines = content.split('\n');
+
+  lines.forEach((text, i) => {
+    const line = i + 1;
+    const declaration = text.match(SCRIPT_DECLARATION);
+    if (declaration) {
+      symbols.push({ name: declaration[2], kind: scriptKind(declaration[1]), line });
+      return;
+    }
+
+    // export { a, b as c } (without `from`, re-exports are imports too)
+    const list = text.match(/^export\s+(?:type\s+)?\{([^}]*)\}\s*(?:;|$)/);
+    if (list) {
+      for (const entry of list[1].split(',')) {
+        const name = entry.trim().split(/\s+as\s+/).pop()?.trim();
+        if (name && name !== 'default') {
+          symbols.push({ name, kind: 'variable', line });
+        }
+      }
+      return;
+    }
+
+    // module.exports.name = / exports.name =
+    const commonJs = text.match(/^(?:module\.)?exports\.([A-Za-z_$][\w$]*)\s*=/);
+    if (commonJs) {
+      symbols.push({ name: commonJs[1], kind: 'variable', line });
+    }
+  });
+
+  const imports = new Set<string>();
+  const patterns = [
+    /^\s*(?:import|export)\s+(?:type\s+)?[^'"`;]*?\sfrom\s*['"]([^'"]+)['"]/gm, // import x from 'y', export * from 'y'
+    /^\s*import\s*['"]([^'"]+)['"]/gm,                                       // import 'y'
+    /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,                    // require('y'), import('y')
+  ];
+  for (const pattern of patterns) {
+    for (const match of content.matchAll(pattern)) {
+      imports.add(match[1]);
+    }
+  }
+
+  return { symbols, imports: [...imports] };
+}
+
+function scriptKind(keyword: string): SymbolKind {
+  if (keyword.startsWith('function')) return 'function';
+  if (keyword === 'const enum') return 'enum';
+  if (keyword === 'let' || keyword === 'var') return 'variable';
+  return keyword as SymbolKind;
+}
+
+function parsePython(content: string): Omit<ParsedSource, 'language'> {
+  const symbols: CodeSymbol[] = [];
+  const imports = new Set<string>();
+
+  content.split('\n').forEach((text, i) => {
+    const line = i + 1;
+
+    // Module-level definitions; names starting with _ are private
+    const definition = text.match(/^(?:async\s+)?(def|class)\s+([A-Za-z]\w*)/);
+    if (definition) {
+      symbols.push({ name: definition[2], kind: definition[1] === 'def' ? 'function' : 'class', line });
+      return;
+    }
+    const constant = text.match(/^([A-Z][A-Z0-9_]*)\s*(?::[^=]+)?=/);
+    if (constant) {
+      symbols.push({ name: constant[1], kind: 'const', line });
+      return;
+    }
+
+    // import a.b, c as d
+    const plain = text.match(/^\s*import\s+([\w., ]+)/);
+    if (plain) {
+      for (const entry of plain[1].split(',')) {
+        const module = entry.trim().split(/\s+as\s+/)[0];
+        if (module) imports.add(module);
+      }
+      return;
+    }
+
+    // from a.b import c, d -- c and d may be submodules, so both forms are kept
+    const from = text.match(/^\s*from\s+(\.*[\w.]*)\s+import\s+\(?([\w, ]*)/);
+    if (from) {
+      imports.add(from[1]);
+      for (const entry of from[2].split(',')) {
+        const name = entry.trim().split(/\s+as\s+/)[0];
+        if (name && name !== '*') {
+          imports.add(from[1].endsWith('.') ? `${from[1]}${name}` : `${from[1]}.${name}`);
+        }
+      }
+    }
+  });
+
+  return { symbols, imports: [...imports] };
+}
+
+// ============================================================================
+// Import Resolution
+// ============================================================================
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Normalize a relative path against a directory; null when it climbs
+ * above the repo root.
+ */
+function joinPath(dir: string, relative: string): string | null {
+  const parts = dir ? dir.split('/') : [];
+  for (const part of relative.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
+
+/**
+ * Resolve an import specifier to a repo file. Package imports and
+ * specifiers that match no file resolve to null.
+ */
+export function resolveImport(
+  fromPath: string,
+  specifier: string,
+  language: CodeLanguage,
+  files: Set<string>
+): string | null {
+  if (language === 'python') {
+    return resolvePythonImport(fromPath, specifier, files);
+  }
+
+  if (!specifier.startsWith('.')) {
+    return null;
+  }
+  const target = joinPath(dirname(fromPath), specifier);
+  if (target === null) {
+    return null;
+  }
+
+  // TypeScript ESM imports name the emitted .js file
+  const withoutJs = target.replace(/\.(m|c)?js$/, '');
+  const candidates = [
+    target,
+    ...SCRIPT_EXTENSIONS.map(ext => `${target}${ext}`),
+    ...SCRIPT_EXTENSIONS.map(ext => `${withoutJs}${ext}`),
+    ...SCRIPT_EXTENSIONS.map(ext => `${target}/index${ext}`),
+  ];
+  return candidates.find(candidate => files.has(candidate)) ?? null;
+}
+
+function resolvePythonImport(fromPath: string, specifier: string, files: Set<string>): string | null {
+  const dots = specifier.match(/^\.*/)![0].length;
+  const modulePath = specifier.slice(dots).replace(/\./g, '/');
+
+  let bases: string[];
+  if (dots > 0) {
+    // One dot is the importing module's package, each further dot a parent
+    let dir = dirname(fromPath);
+    for (let i = 1; i < dots; i++) {
+      dir = dirname(dir);
+    }
+    bases = [dir];
+  } else {
+    // Absolute imports from the repo root or a src/ layout
+    bases = ['', 'src'];
+  }
+
+  for (const base of bases) {
+    const target = [base, modulePath].filter(Boolean).join('/');
+    if (!target) continue;
+    for (const candidate of [`${target}.py`, `${target}/__init__.py`]) {
+      if (files.has(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,4 @@
+export * from './code-parser';
+export * from './code-index';
+export * from './repo-indexer';
+export * from './base-drift';
@@ -0,0 +1,164 @@
+/**
+ * Repo Indexer
+ *
+ * Builds the code index of a repo's base branch at a commit and stores it
+ * on its RepoContext (codeIndex, importGraph, indexedSha). Parse results are
+ * cached per path and blob SHA in RepoFileIndex, so re-indexing a newer
+ * commit only fetches and parses the files whose blobs changed.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { GitHubClient, TreeInfo } from '../github/github-client';
+import { detectLanguage, parseSourceFile, type CodeLanguage, type CodeSymbol } from './code-parser';
+import { buildCodeIndex, importGraphOf, type CodeIndex, type IndexedFile } from './code-index';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IndexRepoParams {
+  repoOwner: string;
+  repoName: string;
+  baseBranch: string;
+  baseSha: string;
+  tree?: TreeInfo; // the recursive tree at baseSha, when the caller already has it
+}
+
+export interface IndexRepoResult {
+  index: CodeIndex;
+  parsedFiles: number;   // fetched and parsed in this run
+  reusedFiles: number;   // taken from the blob SHA cache
+  truncated: boolean;    // the tree or the file limit cut the index short
+}
+
+/** Files larger than this are not indexed (generated or vendored code) */
+const MAX_FILE_BYTES = 200_000;
+/** Upper bound on indexed files per repo */
+const MAX_INDEXED_FILES = 5000;
+/** Batch size for blob SHA lookups */
+const LOOKUP_BATCH = 500;
+
+const IGNORED_DIRECTORIES = /(^|\/)(node_modules|dist|build|out|coverage|vendor|\.git|\.next|__pycache__|\.venv|venv)\//;
+
+// ============================================================================
+// Repo Indexer
+// ============================================================================
+
+export class RepoIndexer {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly github: Pick<GitHubClient, 'getTree' | 'getFileContents'>
+  ) {}
+
+  /**
+   * Index a repo at `baseSha`. Returns the stored index as-is when it was
+   * already built at that commit.
+   */
+  async indexRepo(params: IndexRepoParams): Promise<IndexRepoResult> {
+    const { repoOwner, repoName, baseBranch, baseSha } = params;
+
+    const existing = await this.loadCodeIndex(repoOwner, repoName, baseBranch);
+    if (existing?.baseSha === baseSha) {
+      return { index: existing, parsedFiles: 0, reusedFiles: Object.keys(existing.files).length, truncated: false };
+    }
+
+    const tree = params.tree ?? await this.github.getTree({ owner: repoOwner, repo: repoName, sha: baseSha, recursive: true });
+    const sources = tree.tree.filter(item =>
+      item.type === 'blob' &&
+      detectLanguage(item.path) !== null &&
+      (item.size ?? 0) <= MAX_FILE_BYTES &&
+      !IGNORED_DIRECTORIES.test(item.path)
+    );
+    const blobs = sources.slice(0, MAX_INDEXED_FILES);
+
+    const cached = await this.loadCachedFiles(repoOwner, repoName, blobs.map(b => b.sha));
+    const files: IndexedFile[] = [];
+    const parsed: IndexedFile[] = [];
+
+    for (const blob of blobs) {
+      const hit = cached.get(`${blob.path}@${blob.sha}`);
+      if (hit) {
+        files.push(hit);
+        continue;
+      }
+
+      const contents = await this.github.getFileContents({ owner: repoOwner, repo: repoName, path: blob.path, ref: baseSha });
+      const source = parseSourceFile(blob.path, contents.content);
+      if (source) {
+        const file = { path: blob.path, blobSha: blob.sha, ...source };
+        files.push(file);
+        parsed.push(file);
+      }
+    }
+
+    if (parsed.length > 0) {
+      await this.prisma.repoFileIndex.createMany({
+        data: parsed.map(file => ({
+          repoOwner,
+          repoName,
+          path: file.path,
+          blobSha: file.blobSha,
+          language: file.language,
+          symbols: JSON.parse(JSON.stringify(file.symbols)),
+          imports: file.imports
+        })),
+        skipDuplicates: true
+      });
+    }
+
+    const index = buildCodeIndex(baseSha, files);
+    const data = {
+      codeIndex: JSON.parse(JSON.stringify(index)),
+      importGraph: importGraphOf(index),
+      indexedSha: baseSha
+    };
+    await this.prisma.repoContext.upsert({
+      where: { repoOwner_repoName_baseBranch: { repoOwner, repoName, baseBranch } },
+      create: { repoOwner, repoName, baseBranch, baseSha, ...data },
+      update: data
+    });
+
+    return {
+      index,
+      parsedFiles: parsed.length,
+      reusedFiles: files.length - parsed.length,
+      truncated: tree.truncated || sources.length > blobs.length
+    };
+  }
+
+  /**
+   * The stored code index of a repo's base branch, or null.
+   */
+  async loadCodeIndex(repoOwner: string, repoName: string, baseBranch: string): Promise<CodeIndex | null> {
+    const context = await this.prisma.repoContext.findUnique({
+      where: { repoOwner_repoName_baseBranch: { repoOwner, repoName, baseBranch } },
+      select: { codeIndex: true }
+    });
+    return (context?.codeIndex ?? null) as CodeIndex | null;
+  }
+
+  /**
+   * Cached parse results keyed by `path@blobSha`.
+   */
+  private async loadCachedFiles(repoOwner: string, repoName: string, shas: string[]): Promise<Map<string, IndexedFile>> {
+    const cached = new Map<string, IndexedFile>();
+    const unique = [...new Set(shas)];
+
+    for (let i = 0; i < unique.length; i += LOOKUP_BATCH) {
+      const rows = await this.prisma.repoFileIndex.findMany({
+        where: { repoOwner, repoName, blobSha: { in: unique.slice(i, i + LOOKUP_BATCH) } }
+      });
+      for (const row of rows) {
+        cached.set(`${row.path}@${row.blobSha}`, {
+          path: row.path,
+          blobSha: row.blobSha,
+          language: row.language as CodeLanguage,
+          symbols: row.symbols as unknown as CodeSymbol[],
+          imports: row.imports as string[]
+        });
+      }
+    }
+
+    return cached;
+  }
+}
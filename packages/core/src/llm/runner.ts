@@ -32,7 +32,7 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   retryOn: ['rate_limit', 'timeout', 'server_error']
 };
 
-const DEFAULT_BUDGET: TokenBudget = {
+export const DEFAULT_TOKEN_BUDGET: TokenBudget = {
   maxInputTokens: 100000,
   maxOutputTokens: 8000,
   maxTotalCost: 100 // $1.00
@@ -67,7 +67,7 @@ export class LLMRunner {
   constructor(config: RunnerConfig, prisma?: PrismaClient) {
     this.provider = config.provider;
     this.retryConfig = config.retryConfig ?? DEFAULT_RETRY_CONFIG;
-    this.defaultBudget = config.defaultBudget ?? DEFAULT_BUDGET;
+    this.defaultBudget = config.defaultBudget ?? DEFAULT_TOKEN_BUDGET;
     this.prisma = prisma;
   }
 
@@ -3,6 +3,11 @@
  *
  * Implements tiered memory loading for LLM context optimization.
  * Reduces token usage by intelligently selecting what context to include.
+ *
+ * WARM and COLD items are scored by cosine similarity between their text and
+ * the current workflow's featureGoal; without a goal the WARM tier falls back
+ * to a recency/base SHA heuristic. With a VectorStore the COLD tier searches
+ * indexed artifacts, decisions, patches and repo file chunks.
  */
 
 import type { PrismaClient } from '@prisma/client';
@@ -21,6 +26,8 @@ import {
   MemoryStats,
   TokenSavings
 } from './types';
+import { EmbeddingProvider, HashingEmbeddingProvider, cosineSimilarity } from './embeddings';
+import type { VectorStore, VectorSourceType } from './vector-store';
 
 // ============================================================================
 // Token Estimation
@@ -45,8 +52,32 @@ export function hashContent(content: string): string {
 // Context Loader
 // ============================================================================
 
+export interface ContextLoaderOptions {
+  /** Scores WARM/COLD relevance; defaults to the vector store's provider or the hashing embedder */
+  embeddings?: EmbeddingProvider;
+  /** Searched for the COLD tier when set */
+  vectorStore?: VectorStore;
+}
+
+const VECTOR_ITEM_TYPES: Record<VectorSourceType, MemoryItemType> = {
+  artifact: 'artifact',
+  decision: 'decision',
+  patch: 'patch',
+  file_chunk: 'file_snapshot'
+};
+
+/** Historical workflows ranked for the COLD tier when there is no vector store */
+const COLD_CANDIDATES = 50;
+const COLD_MAX_ITEMS = 5;
+
 export class ContextLoader {
-  constructor(private readonly prisma: PrismaClient) {}
+  private readonly embeddings: EmbeddingProvider;
+  private readonly vectorStore?: VectorStore;
+
+  constructor(private readonly prisma: PrismaClient, options: ContextLoaderOptions = {}) {
+    this.vectorStore = options.vectorStore;
+    this.embeddings = options.embeddings ?? options.vectorStore?.embeddings ?? new HashingEmbeddingProvider();
+  }
 
   /**
    * Load context for a workflow with tier-based optimization.
@@ -215,7 +246,9 @@ export class ContextLoader {
 
     if (!currentWorkflow) return items;
 
-    const relatedWorkflows = await this.prisma.workflow.findMany({
+    const maxRelated = options.maxRelatedWorkflows ?? 3;
+    const goal = currentWorkflow.featureGoal?.trim();
+    const candidates = await this.prisma.workflow.findMany({
       where: {
         id: { not: workflowId },
         state: 'DONE',
@@ -230,12 +263,25 @@ export class ContextLoader {
         }
       },
       orderBy: { createdAt: 'desc' },
-      take: options.maxRelatedWorkflows ?? 3
+      // Rank a wider pool by similarity when there is a goal to compare to
+      take: goal ? maxRelated * 5 : maxRelated
     });
 
+    const summaries = candidates.map(related => this.summarizeWorkflow(related));
+    const scores = goal
+      ? await this.semanticScores(goal, summaries)
+      : candidates.map(related => this.calculateRelevance(currentWorkflow, related));
+
+    const ranked = candidates
+      .map((related, i) => ({ related, summary: summaries[i], relevanceScore: scores[i] }))
+      .filter(r => r.relevanceScore >= (options.minRelevanceScore ?? 0));
+    if (goal) {
+      ranked.sort((a, b) => b.relevanceScore - a.relevanceScore);
+    }
+    const relatedWorkflows = ranked.slice(0, maxRelated);
+
     // Add workflow summaries from related workflows
-    for (const related of relatedWorkflows) {
-      const summary = this.summarizeWorkflow(related);
+    for (const { related, summary, relevanceScore } of relatedWorkflows) {
       const summaryTokens = estimateTokens(summary);
 
       if (usedTokens + summaryTokens > tierMax) break;
@@ -252,7 +298,7 @@ export class ContextLoader {
         accessCount: 1,
         metadata: {
           workflowId: related.id,
-          relevanceScore: this.calculateRelevance(currentWorkflow, related)
+          relevanceScore
         }
       });
       usedTokens += summaryTokens;
@@ -275,7 +321,7 @@ export class ContextLoader {
           metadata: {
             workflowId: related.id,
             artifactKind: artifact.kind,
-            relevanceScore: this.calculateRelevance(currentWorkflow, related)
+            relevanceScore
           }
         });
         usedTokens += artTokens;
@@ -293,13 +339,70 @@ export class ContextLoader {
     maxTokens: number,
     options: ContextLoadOptions
   ): Promise<MemoryItem[]> {
+    const tierMax = Math.min(maxTokens, TIER_CONFIGS.COLD.maxTokens);
+    const minScore = options.minRelevanceScore ?? 0;
+
+    const currentWorkflow = await this.prisma.workflow.findUnique({
+      where: { id: workflowId },
+      select: { featureGoal: true }
+    });
+    const goal = currentWorkflow?.featureGoal?.trim();
+
+    const candidates = goal && this.vectorStore
+      ? await this.searchVectorStore(workflowId, goal, minScore)
+      : await this.rankHistoricalWorkflows(workflowId, goal, minScore);
+
     const items: MemoryItem[] = [];
     let usedTokens = 0;
-    const tierMax = Math.min(maxTokens, TIER_CONFIGS.COLD.maxTokens);
+    for (const item of candidates) {
+      if (usedTokens + item.tokenCount > tierMax) break;
+      items.push(item);
+      usedTokens += item.tokenCount;
+    }
+
+    return items;
+  }
+
+  /**
+   * COLD candidates from indexed artifacts, decisions, patches and file chunks.
+   */
+  private async searchVectorStore(workflowId: string, goal: string, minScore: number): Promise<MemoryItem[]> {
+    const results = await this.vectorStore!.search(goal, {
+      excludeWorkflowId: workflowId,
+      minScore,
+      limit: COLD_MAX_ITEMS * 2
+    });
+
+    return results.map(result => ({
+      id: `cold-${result.id}`,
+      tier: 'COLD' as const,
+      type: VECTOR_ITEM_TYPES[result.sourceType],
+      content: result.content,
+      contentHash: hashContent(result.content),
+      tokenCount: estimateTokens(result.content),
+      createdAt: result.createdAt,
+      lastAccessedAt: new Date(),
+      accessCount: 1,
+      metadata: {
+        workflowId: result.workflowId ?? workflowId,
+        ...(result.filePath ? { filePath: result.filePath } : {}),
+        relevanceScore: result.score
+      }
+    }));
+  }
 
-    // Load historical successful workflows for pattern matching
+  /**
+   * COLD candidates from historical successful workflows, most similar to the
+   * goal first (most recent first without a goal).
+   */
+  private async rankHistoricalWorkflows(
+    workflowId: string,
+    goal: string | undefined,
+    minScore: number
+  ): Promise<MemoryItem[]> {
     const historicalWorkflows = await this.prisma.workflow.findMany({
       where: {
+        id: { not: workflowId },
         state: 'DONE',
         createdAt: {
           lt: new Date(Date.now() - TIER_CONFIGS.WARM.ttlHours * 60 * 60 * 1000)
@@ -312,31 +415,37 @@ export class ContextLoader {
         }
       },
       orderBy: { createdAt: 'desc' },
-      take: 5
+      take: goal ? COLD_CANDIDATES : COLD_MAX_ITEMS
     });
 
-    for (const workflow of historicalWorkflows) {
-      const summary = `Historical: ${workflow.id} (${workflow.state}) - ${workflow.createdAt.toISOString().slice(0, 10)}`;
-      const summaryTokens = estimateTokens(summary);
-
-      if (usedTokens + summaryTokens > tierMax) break;
+    const summaries = historicalWorkflows.map(workflow => {
+      const title = workflow.featureGoal ? `: ${workflow.featureGoal}` : '';
+      return `Historical: ${workflow.id} (${workflow.state}) - ${workflow.createdAt.toISOString().slice(0, 10)}${title}`;
+    });
+    const scores = goal
+      ? await this.semanticScores(goal, historicalWorkflows.map((workflow, i) =>
+          [summaries[i], ...workflow.artifacts.map(a => a.content)].join('\n')))
+      : undefined;
 
-      items.push({
+    return historicalWorkflows
+      .map((workflow, i): MemoryItem => ({
         id: `cold-${workflow.id}`,
         tier: 'COLD',
         type: 'workflow_summary',
-        content: summary,
-        contentHash: hashContent(summary),
-        tokenCount: summaryTokens,
+        content: summaries[i],
+        contentHash: hashContent(summaries[i]),
+        tokenCount: estimateTokens(summaries[i]),
         createdAt: workflow.createdAt,
         lastAccessedAt: new Date(),
         accessCount: 1,
-        metadata: { workflowId: workflow.id }
-      });
-      usedTokens += summaryTokens;
-    }
-
-    return items;
+        metadata: {
+          workflowId: workflow.id,
+          ...(scores ? { relevanceScore: scores[i] } : {})
+        }
+      }))
+      .filter(item => (item.metadata.relevanceScore ?? 1) >= minScore)
+      .sort((a, b) => (b.metadata.relevanceScore ?? 0) - (a.metadata.relevanceScore ?? 0))
+      .slice(0, COLD_MAX_ITEMS);
   }
 
   // ============================================================================
@@ -374,6 +483,7 @@ export class ContextLoader {
     id: string;
     state: string;
     baseSha: string | null;
+    featureGoal?: string | null;
     createdAt: Date;
     artifacts: Array<{ kind: string; content: string }>;
   }): string {
@@ -382,6 +492,9 @@ export class ContextLoader {
       `State: ${workflow.state}`,
       `Created: ${workflow.createdAt.toISOString().slice(0, 10)}`
     ];
+    if (workflow.featureGoal) {
+      lines.push(`Goal: ${workflow.featureGoal}`);
+    }
 
     for (const artifact of workflow.artifacts) {
       const preview = artifact.content.slice(0, 200).replace(/\n/g, ' ');
@@ -391,6 +504,15 @@ export class ContextLoader {
     return lines.join('\n');
   }
 
+  /**
+   * Cosine similarity of each text to the goal, clamped to [0, 1].
+   */
+  private async semanticScores(goal: string, texts: string[]): Promise<number[]> {
+    if (texts.length === 0) return [];
+    const [goalVector, ...vectors] = await this.embeddings.embed([goal, ...texts]);
+    return vectors.map(vector => Math.max(0, cosineSimilarity(goalVector, vector)));
+  }
+
   private calculateRelevance(current: any, related: any): number {
     let score = 0;
 
@@ -0,0 +1,388 @@
+/**
+ * Context Packer
+ *
+ * Fits source files into a prompt's token budget. Candidates are ranked
+ * (files planned for change first, then by similarity to the goal), the
+ * top-ranked files are shown in full while the budget allows, the rest as
+ * signatures-only outlines while those fit, and whatever remains is
+ * dropped, lowest ranked first.
+ *
+ * Outlines come from a caller-supplied outliner (e.g. an LLM summary) when
+ * one is given and its result fits, otherwise from the line-oriented
+ * heuristic below. The manifest of what was full, outlined and dropped is
+ * kept with the run so reviewers can see what the model actually saw.
+ */
+
+import type { TokenBudget } from '../llm/types';
+import { detectLanguage } from '../indexer/code-parser';
+import { estimateTokens } from './context-loader';
+import { EmbeddingProvider, HashingEmbeddingProvider, cosineSimilarity } from './embeddings';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PackCandidate {
+  path: string;
+  content: string;
+  pinned?: boolean; // planned for change; ranked ahead of every unpinned file
+}
+
+export type PackMode = 'full' | 'outline' | 'dropped';
+
+export type OutlineSource = 'llm' | 'heuristic';
+
+export interface PackedFile {
+  path: string;
+  mode: PackMode;
+  content: string;        // full source, outline, or '' when dropped
+  tokens: number;         // tokens taken in the prompt
+  sourceTokens: number;   // tokens of the full source
+  relevance: number;      // similarity to the query, 0 without one
+  pinned: boolean;
+  outlinedBy?: OutlineSource;
+}
+
+export interface PackedContext {
+  budgetTokens: number;
+  usedTokens: number;
+  files: PackedFile[]; // in rank order
+}
+
+/**
+ * What the model saw, without file contents. Stored in WorkflowRun.inputs.
+ */
+export interface ContextPackManifest {
+  budgetTokens: number;
+  usedTokens: number;
+  full: string[];
+  outlined: string[];
+  dropped: string[];
+  files: Array<Omit<PackedFile, 'content'>>;
+}
+
+/**
+ * Produces an outline of a file, or null to use the heuristic outline.
+ */
+export type FileOutliner = (path: string, content: string) => Promise<string | null>;
+
+export interface PackContextOptions {
+  budgetTokens: number;
+  query?: string;                 // goal and plan; ranks unpinned files
+  embeddings?: EmbeddingProvider; // defaults to the hashing embedder
+  outliner?: FileOutliner;
+}
+
+/** Characters of a file embedded for ranking */
+const RANKING_CHARS = 8000;
+/** Lines shown for files without recognizable declarations */
+const PREVIEW_LINES = 20;
+/** Lines of an interface or type literal body kept in outlines */
+const MAX_TYPE_BODY_LINES = 30;
+/** Lines a multi-line signature may span */
+const MAX_SIGNATURE_LINES = 6;
+
+// ============================================================================
+// Budget
+// ============================================================================
+
+/**
+ * Tokens left for file contents once the rest of the prompt is accounted for.
+ */
+export function contextTokenBudget(budget: TokenBudget, reservedTokens: number): number {
+  return Math.max(0, budget.maxInputTokens - reservedTokens);
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+/**
+ * Candidates in rank order with their relevance: pinned files first, then by
+ * similarity of path and content to the query. Ties keep the input order.
+ */
+export async function rankCandidates(
+  candidates: PackCandidate[],
+  query?: string,
+  embeddings: EmbeddingProvider = new HashingEmbeddingProvider()
+): Promise<Array<PackCandidate & { relevance: number }>> {
+  let relevance = candidates.map(() => 0);
+
+  if (query?.trim() && candidates.length > 0) {
+    const [queryVector, ...fileVectors] = await embeddings.embed([
+      query,
+      ...candidates.map(c => `${c.path}\n${c.content.slice(0, RANKING_CHARS)}`)
+    ]);
+    relevance = fileVectors.map(vector => Math.round(cosineSimilarity(queryVector, vector) * 1000) / 1000);
+  }
+
+  return candidates
+    .map((candidate, i) => ({ ...candidate, relevance: relevance[i], order: i }))
+    .sort((a, b) =>
+      Number(!!b.pinned) - Number(!!a.pinned) ||
+      b.relevance - a.relevance ||
+      a.order - b.order
+    )
+    .map(({ order: _order, ...candidate }) => candidate);
+}
+
+// ============================================================================
+// Outlines
+// ============================================================================
+
+const SCRIPT_DECLARATION = /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|const|let|var|namespace)\s*[\w$]/;
+const SCRIPT_TYPE_BODY = /^(?:export\s+)?(?:declare\s+)?(?:interface\s|type\s[^=]*=\s*\{$)/;
+const SCRIPT_CLASS = /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?class\s/;
+const SCRIPT_MEMBER = /^(?:(?:public|private|protected|static|readonly|abstract|override|async|get|set|declare)\s+)*[\w$#]+[?!]?\s*(?:<[^>]*>)?\s*[(:]/;
+const SCRIPT_CONTROL = /^(?:if|for|while|switch|catch|return|else|do|try|await|new|throw|super|this|case|default)\b/;
+const PYTHON_DECLARATION = /^\s*(?:async\s+)?(?:def|class)\s+\w/;
+const PYTHON_CONSTANT = /^[A-Z_][A-Z0-9_]*\s*(?::[^=]+)?=/;
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Signature starting at `start`, joined until it opens a body or ends.
+ */
+function readSignature(lines: string[], start: number): { text: string; end: number } {
+  const baseIndent = indentOf(lines[start]);
+  let end = start;
+  while (
+    end < lines.length - 1 &&
+    end - start < MAX_SIGNATURE_LINES - 1 &&
+    !/[{;[]\s*$|=\s*$/.test(lines[end].trimEnd())
+  ) {
+    const next = lines[end + 1];
+    if (!next.trim() || (indentOf(next) <= baseIndent && !/^\s*[)>\]]/.test(next))) break;
+    end++;
+  }
+  const text = lines.slice(start, end + 1).map(l => l.trimEnd()).join('\n');
+  const elided = text
+    .replace(/\{\s*$/, '{ … }')
+    .replace(/\[\s*$/, '[ … ]')
+    .replace(/=\s*$/, '= …');
+  return { text: elided, end };
+}
+
+function outlineScript(lines: string[]): string[] {
+  const outline: string[] = [];
+  let classIndent: number | null = null;
+  let memberIndent: number | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('//') || trimmed.startsWith('*') || trimmed.startsWith('/*')) {
+      continue;
+    }
+    const indent = indentOf(line);
+
+    if (classIndent !== null && indent <= classIndent) {
+      classIndent = null;
+      memberIndent = null;
+      if (trimmed.startsWith('}')) {
+        outline.push(line.trimEnd());
+        continue;
+      }
+    }
+
+    if (classIndent !== null) {
+      memberIndent ??= indent;
+      if (indent === memberIndent && SCRIPT_MEMBER.test(trimmed) && !SCRIPT_CONTROL.test(trimmed)) {
+        const signature = readSignature(lines, i);
+        outline.push(signature.text);
+        i = signature.end;
+      }
+      continue;
+    }
+
+    if (indent > 0 || !SCRIPT_DECLARATION.test(trimmed)) {
+      continue;
+    }
+
+    if (SCRIPT_CLASS.test(trimmed) && /\{\s*$/.test(trimmed)) {
+      outline.push(line.trimEnd());
+      classIndent = indent;
+      continue;
+    }
+
+    if (SCRIPT_TYPE_BODY.test(trimmed) && /\{\s*$/.test(trimmed)) {
+      let end = i + 1;
+      while (end < lines.length && !(indentOf(lines[end]) <= indent && lines[end].trim().startsWith('}'))) {
+        end++;
+      }
+      const body = lines.slice(i, Math.min(end + 1, lines.length)).map(l => l.trimEnd());
+      outline.push(...(body.length > MAX_TYPE_BODY_LINES
+        ? [...body.slice(0, MAX_TYPE_BODY_LINES - 1), '  …', body[body.length - 1]]
+        : body));
+      i = end;
+      continue;
+    }
+
+    const signature = readSignature(lines, i);
+    outline.push(signature.text);
+    i = signature.end;
+  }
+
+  return outline;
+}
+
+function outlinePython(lines: string[]): string[] {
+  const outline: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (PYTHON_CONSTANT.test(line)) {
+      outline.push(line.trimEnd());
+      continue;
+    }
+    if (!PYTHON_DECLARATION.test(line)) {
+      continue;
+    }
+
+    // Decorators directly above the definition
+    const decorators: string[] = [];
+    for (let j = i - 1; j >= 0 && lines[j].trim().startsWith('@'); j--) {
+      decorators.unshift(lines[j].trimEnd());
+    }
+
+    let end = i;
+    while (end < lines.length - 1 && end - i < MAX_SIGNATURE_LINES - 1 && !lines[end].trimEnd().endsWith(':')) {
+      end++;
+    }
+    const signature = lines.slice(i, end + 1).map(l => l.trimEnd()).join('\n');
+    outline.push(...decorators, `${signature} ...`);
+    i = end;
+  }
+
+  return outline;
+}
+
+/**
+ * Signatures-only outline of a source file: declarations, class members and
+ * type shapes with bodies elided. Files in other languages, or without
+ * declarations, get their first lines.
+ */
+export function outlineSource(path: string, content: string): string {
+  const lines = content.split('\n');
+  const language = detectLanguage(path);
+  const outline = language === 'python'
+    ? outlinePython(lines)
+    : language
+      ? outlineScript(lines)
+      : [];
+
+  if (outline.length > 0) {
+    return outline.join('\n');
+  }
+
+  const preview = lines.slice(0, PREVIEW_LINES);
+  if (lines.length > PREVIEW_LINES) {
+    preview.push(`… (${lines.length - PREVIEW_LINES} more lines)`);
+  }
+  return preview.join('\n');
+}
+
+// ============================================================================
+// Packing
+// ============================================================================
+
+/**
+ * Pack candidates into `budgetTokens`. Files are shown in full in rank
+ * order until one does not fit, the rest are outlined (or dropped when even
+ * their outline does not fit), then the outliner's outlines replace
+ * heuristic ones where they fit.
+ */
+export async function packContext(candidates: PackCandidate[], options: PackContextOptions): Promise<PackedContext> {
+  const { budgetTokens, outliner } = options;
+  const ranked = await rankCandidates(candidates, options.query, options.embeddings);
+
+  const files: PackedFile[] = ranked.map(candidate => {
+    const outline = outlineSource(candidate.path, candidate.content);
+    return {
+      path: candidate.path,
+      mode: 'outline',
+      content: outline,
+      tokens: estimateTokens(outline),
+      sourceTokens: estimateTokens(candidate.content),
+      relevance: candidate.relevance,
+      pinned: !!candidate.pinned,
+      outlinedBy: 'heuristic'
+    };
+  });
+  const sources = new Map(ranked.map(candidate => [candidate.path, candidate.content]));
+
+  const drop = (file: PackedFile) => {
+    file.mode = 'dropped';
+    file.content = '';
+    file.tokens = 0;
+    delete file.outlinedBy;
+  };
+
+  const showFull = (file: PackedFile) => {
+    file.mode = 'full';
+    file.content = sources.get(file.path)!;
+    file.tokens = file.sourceTokens;
+    delete file.outlinedBy;
+  };
+
+  // Top-ranked files in full, until the first that does not fit
+  let used = 0;
+  let next = 0;
+  for (; next < files.length && used + files[next].sourceTokens <= budgetTokens; next++) {
+    showFull(files[next]);
+    used += files[next].tokens;
+  }
+
+  // Outlines for the rest while they fit
+  for (const file of files.slice(next)) {
+    // Small files are cheaper in full than outlined
+    if (file.sourceTokens <= file.tokens) {
+      showFull(file);
+    }
+    if (used + file.tokens > budgetTokens) {
+      drop(file);
+    } else {
+      used += file.tokens;
+    }
+  }
+
+  if (outliner) {
+    for (const file of files) {
+      if (file.mode !== 'outline') continue;
+      let outline: string | null = null;
+      try {
+        outline = await outliner(file.path, sources.get(file.path)!);
+      } catch {
+        outline = null;
+      }
+      if (!outline?.trim()) continue;
+
+      const tokens = estimateTokens(outline);
+      if (used - file.tokens + tokens <= budgetTokens) {
+        used += tokens - file.tokens;
+        file.content = outline;
+        file.tokens = tokens;
+        file.outlinedBy = 'llm';
+      }
+    }
+  }
+
+  return { budgetTokens, usedTokens: used, files };
+}
+
+/**
+ * Manifest of a packed context for the run record.
+ */
+export function packManifest(packed: PackedContext): ContextPackManifest {
+  const pathsIn = (mode: PackMode) => packed.files.filter(f => f.mode === mode).map(f => f.path);
+  return {
+    budgetTokens: packed.budgetTokens,
+    usedTokens: packed.usedTokens,
+    full: pathsIn('full'),
+    outlined: pathsIn('outline'),
+    dropped: pathsIn('dropped'),
+    files: packed.files.map(({ content: _content, ...file }) => file)
+  };
+}
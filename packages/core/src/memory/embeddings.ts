@@ -0,0 +1,199 @@
+/**
+ * Embeddings
+ *
+ * Pluggable text embedding providers for semantic retrieval in the WARM and
+ * COLD memory tiers.
+ *
+ * - hashing: deterministic feature-hashing embedder that needs no network,
+ *   used for tests, offline installs and as the fallback
+ * - openai: OpenAI embeddings API (OPENAI_API_KEY)
+ *
+ * Environment Variables:
+ *   EMBEDDING_PROVIDER   - hashing|openai, defaults to 'hashing'
+ *   EMBEDDING_MODEL      - OpenAI embedding model (default text-embedding-3-small)
+ *   EMBEDDING_DIMENSIONS - Vector size (hashing default 256, openai default 1536)
+ */
+
+import { createHash } from 'crypto';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EmbeddingProvider {
+  name: string;
+  modelId: string;
+  dimensions: number;
+  /** One vector per text, in input order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderType = 'hashing' | 'openai';
+
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+
+// ============================================================================
+// Vector Math
+// ============================================================================
+
+/**
+ * Cosine similarity of two vectors; 0 when either is all zeros.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare vectors of ${a.length} and ${b.length} dimensions`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Scale a vector to unit length.
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+// ============================================================================
+// Hashing Embedder
+// ============================================================================
+
+/**
+ * Split text into lowercase word tokens; identifiers are split on
+ * camelCase, snake_case and kebab-case boundaries.
+ */
+export function tokenizeForEmbedding(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1)
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+/**
+ * Deterministic embedder: word unigrams and bigrams are hashed into a fixed
+ * number of signed buckets, with sublinear term frequency, then normalized.
+ * Texts sharing vocabulary get similar vectors; no model or network needed.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  name = 'hashing';
+  modelId: string;
+  dimensions: number;
+
+  constructor(config: { dimensions?: number } = {}) {
+    this.dimensions = config.dimensions ?? 256;
+    this.modelId = `hashing-${this.dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const tokens = tokenizeForEmbedding(text);
+    const features = new Map<string, number>();
+    tokens.forEach((token, i) => {
+      features.set(token, (features.get(token) ?? 0) + 1);
+      if (i > 0) {
+        const bigram = `${tokens[i - 1]} ${token}`;
+        features.set(bigram, (features.get(bigram) ?? 0) + 0.5);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of features) {
+      const digest = createHash('sha1').update(feature).digest();
+      const bucket = digest.readUInt32BE(0) % this.dimensions;
+      const sign = digest[4] & 1 ? -1 : 1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    }
+    return normalizeVector(vector);
+  }
+}
+
+// ============================================================================
+// OpenAI Embedder
+// ============================================================================
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  name = 'openai';
+  modelId: string;
+  dimensions: number;
+
+  private readonly apiKey: string;
+  private readonly timeout: number;
+
+  constructor(config: { apiKey: string; modelId?: string; dimensions?: number; timeout?: number }) {
+    this.apiKey = config.apiKey;
+    this.modelId = config.modelId ?? 'text-embedding-3-small';
+    this.dimensions = config.dimensions ?? 1536;
+    this.timeout = config.timeout ?? 60000;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    try {
+      const response = await fetch(OPENAI_EMBEDDINGS_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({ model: this.modelId, input: texts, dimensions: this.dimensions }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`OpenAI embeddings API error: ${response.status} - ${errorText}`);
+      }
+
+      const data = (await response.json()) as { data: { index: number; embedding: number[] }[] };
+      return [...data.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create the configured embedding provider. Falls back to the hashing
+ * embedder when the selected provider has no API key.
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const type = process.env.EMBEDDING_PROVIDER as EmbeddingProviderType | undefined;
+  const dimensions = Number(process.env.EMBEDDING_DIMENSIONS) || undefined;
+
+  if (type === 'openai') {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (apiKey) {
+      return new OpenAIEmbeddingProvider({ apiKey, modelId: process.env.EMBEDDING_MODEL, dimensions });
+    }
+    console.warn('[Embeddings] OPENAI_API_KEY is not set; using the hashing embedder.');
+  }
+
+  return new HashingEmbeddingProvider({ dimensions });
+}
@@ -1,2 +1,5 @@
 export * from './types';
 export * from './context-loader';
+export * from './embeddings';
+export * from './vector-store';
+export * from './context-packer';
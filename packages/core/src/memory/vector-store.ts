@@ -0,0 +1,273 @@
+/**
+ * Vector Store
+ *
+ * Embeddings of artifacts, decisions, patches and repo file chunks, kept in
+ * the MemoryVector table. Rows are keyed by source and embedding model, so
+ * switching providers never compares vectors of different models; unchanged
+ * content is not re-embedded. Search ranks candidates by cosine similarity
+ * in memory.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { EmbeddingProvider, cosineSimilarity } from './embeddings';
+import { hashContent } from './context-loader';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type VectorSourceType = 'artifact' | 'decision' | 'patch' | 'file_chunk';
+
+export interface VectorDocument {
+  sourceType: VectorSourceType;
+  sourceId: string;
+  chunkIndex?: number;
+  workflowId?: string | null;
+  repoOwner?: string | null;
+  repoName?: string | null;
+  filePath?: string | null;
+  content: string;
+}
+
+export interface VectorSearchOptions {
+  sourceTypes?: VectorSourceType[];
+  excludeWorkflowId?: string;
+  repoOwner?: string;
+  repoName?: string;
+  limit?: number;
+  minScore?: number;
+}
+
+export interface VectorSearchResult {
+  id: string;
+  sourceType: VectorSourceType;
+  sourceId: string;
+  chunkIndex: number;
+  workflowId: string | null;
+  filePath: string | null;
+  content: string;
+  score: number;
+  createdAt: Date;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+}
+
+/** Rows compared per search; the most recently updated are kept */
+const MAX_SEARCH_CANDIDATES = 5000;
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+/**
+ * Split text into chunks of whole lines, each at most `maxChars` long
+ * (a single longer line is split on its own).
+ */
+export function chunkText(content: string, options: ChunkOptions = {}): string[] {
+  const maxChars = options.maxChars ?? 2000;
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const line of content.split('\n')) {
+    for (let i = 0; i < Math.max(line.length, 1); i += maxChars) {
+      const piece = line.slice(i, i + maxChars);
+      if (current && current.length + piece.length + 1 > maxChars) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n${piece}` : piece;
+    }
+  }
+  if (current.trim()) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+// ============================================================================
+// Vector Store
+// ============================================================================
+
+export class VectorStore {
+  constructor(
+    private readonly prisma: PrismaClient,
+    readonly embeddings: EmbeddingProvider
+  ) {}
+
+  /**
+   * Embed and store documents. Returns the number of documents embedded;
+   * documents whose content is unchanged for this model are skipped.
+   */
+  async upsert(documents: VectorDocument[]): Promise<number> {
+    const provider = this.embeddings.modelId;
+    const changed: Array<VectorDocument & { chunkIndex: number; contentHash: string }> = [];
+
+    for (const doc of documents) {
+      const chunkIndex = doc.chunkIndex ?? 0;
+      const contentHash = hashContent(doc.content);
+      const existing = await this.prisma.memoryVector.findUnique({
+        where: {
+          sourceType_sourceId_chunkIndex_provider: { sourceType: doc.sourceType, sourceId: doc.sourceId, chunkIndex, provider }
+        },
+        select: { contentHash: true }
+      });
+      if (existing?.contentHash !== contentHash) {
+        changed.push({ ...doc, chunkIndex, contentHash });
+      }
+    }
+
+    if (changed.length === 0) {
+      return 0;
+    }
+
+    const vectors = await this.embeddings.embed(changed.map(doc => doc.content));
+    for (const [i, doc] of changed.entries()) {
+      const data = {
+        workflowId: doc.workflowId ?? null,
+        repoOwner: doc.repoOwner ?? null,
+        repoName: doc.repoName ?? null,
+        filePath: doc.filePath ?? null,
+        content: doc.content,
+        contentHash: doc.contentHash,
+        vector: vectors[i]
+      };
+      await this.prisma.memoryVector.upsert({
+        where: {
+          sourceType_sourceId_chunkIndex_provider: {
+            sourceType: doc.sourceType,
+            sourceId: doc.sourceId,
+            chunkIndex: doc.chunkIndex,
+            provider
+          }
+        },
+        create: { sourceType: doc.sourceType, sourceId: doc.sourceId, chunkIndex: doc.chunkIndex, provider, ...data },
+        update: data
+      });
+    }
+
+    return changed.length;
+  }
+
+  /**
+   * Index a workflow's artifacts, decisions and patches.
+   */
+  async indexWorkflow(workflowId: string): Promise<number> {
+    const workflow = await this.prisma.workflow.findUnique({
+      where: { id: workflowId },
+      include: {
+        artifacts: true,
+        patchSets: { include: { patches: true } }
+      }
+    });
+    if (!workflow) {
+      return 0;
+    }
+
+    const documents: VectorDocument[] = [];
+    const goal = workflow.featureGoal ? `Goal: ${workflow.featureGoal}\n` : '';
+
+    for (const artifact of workflow.artifacts) {
+      chunkText(artifact.content).forEach((chunk, chunkIndex) => {
+        documents.push({
+          sourceType: artifact.kind === 'DecisionV1' ? 'decision' : 'artifact',
+          sourceId: artifact.id,
+          chunkIndex,
+          workflowId,
+          repoOwner: workflow.repoOwner,
+          repoName: workflow.repoName,
+          content: `${goal}${artifact.kind}:\n${chunk}`
+        });
+      });
+    }
+
+    for (const patchSet of workflow.patchSets) {
+      for (const patch of patchSet.patches) {
+        const files = Array.isArray(patch.files)
+          ? (patch.files as Array<{ path?: string }>).map(f => f.path).filter(Boolean)
+          : [];
+        documents.push({
+          sourceType: 'patch',
+          sourceId: patch.id,
+          workflowId,
+          repoOwner: patch.repoOwner ?? patchSet.repoOwner ?? workflow.repoOwner,
+          repoName: patch.repoName ?? patchSet.repoName ?? workflow.repoName,
+          content: `${goal}Patch: ${patch.title}\n${patch.summary}\nFiles: ${files.join(', ')}`
+        });
+      }
+    }
+
+    return this.upsert(documents);
+  }
+
+  /**
+   * Index repo files as line chunks. Chunks past a file's new end are removed.
+   */
+  async indexRepoFiles(repoOwner: string, repoName: string, files: Map<string, string>): Promise<number> {
+    const documents: VectorDocument[] = [];
+
+    for (const [filePath, content] of files) {
+      const sourceId = `${repoOwner}/${repoName}:${filePath}`;
+      const chunks = chunkText(content);
+      chunks.forEach((chunk, chunkIndex) => {
+        documents.push({
+          sourceType: 'file_chunk',
+          sourceId,
+          chunkIndex,
+          repoOwner,
+          repoName,
+          filePath,
+          content: `File: ${filePath}\n${chunk}`
+        });
+      });
+
+      await this.prisma.memoryVector.deleteMany({
+        where: { sourceType: 'file_chunk', sourceId, chunkIndex: { gte: chunks.length } }
+      });
+    }
+
+    return this.upsert(documents);
+  }
+
+  /**
+   * Stored documents most similar to the query, best first.
+   */
+  async search(query: string, options: VectorSearchOptions = {}): Promise<VectorSearchResult[]> {
+    const [queryVector] = await this.embeddings.embed([query]);
+
+    const rows = await this.prisma.memoryVector.findMany({
+      where: {
+        provider: this.embeddings.modelId,
+        ...(options.sourceTypes ? { sourceType: { in: options.sourceTypes } } : {}),
+        ...(options.repoOwner ? { repoOwner: options.repoOwner } : {}),
+        ...(options.repoName ? { repoName: options.repoName } : {}),
+        // Repo file chunks have no workflow
+        ...(options.excludeWorkflowId
+          ? { OR: [{ workflowId: null }, { workflowId: { not: options.excludeWorkflowId } }] }
+          : {})
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: MAX_SEARCH_CANDIDATES
+    });
+
+    const minScore = options.minScore ?? 0;
+    return rows
+      .filter(row => row.vector.length === queryVector.length)
+      .map(row => ({
+        id: row.id,
+        sourceType: row.sourceType as VectorSourceType,
+        sourceId: row.sourceId,
+        chunkIndex: row.chunkIndex,
+        workflowId: row.workflowId,
+        filePath: row.filePath,
+        content: row.content,
+        score: cosineSimilarity(queryVector, row.vector),
+        createdAt: row.createdAt
+      }))
+      .filter(result => result.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 10);
+  }
+}
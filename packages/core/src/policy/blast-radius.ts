@@ -0,0 +1,263 @@
+/**
+ * Blast-Radius Scoring
+ *
+ * Scores how much of a repository a diff can affect, independent of any
+ * individual violation. The score (0-100) sums capped points for:
+ * - files touched and directories spanned
+ * - lines changed
+ * - deleted and renamed files
+ * - entrypoints (main/index/server files) and configuration files
+ * - modules that import a changed module, directly or transitively, when
+ *   an import graph of the repo is available
+ *
+ * Gate2 compares the score with configurable thresholds (blast_radius
+ * WARN/BLOCK) and the derived risk level replaces a patch's LLM-guessed
+ * riskLevel when it is higher.
+ */
+
+import { parseDiff, type ParsedDiff } from './diff-parser';
+import { matchesAnyGlob } from './glob';
+import type { PolicyViolation } from './policy-engine';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const BLAST_RADIUS_RULE_ID = 'blast_radius';
+
+/**
+ * Import graph of a repository: module path -> paths of the modules it
+ * imports. Paths are repo-relative, like diff paths.
+ */
+export type ImportGraph = Record<string, string[]>;
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface BlastRadiusConfig {
+  warnAt: number;             // score at which a WARN is raised
+  blockAt: number;            // score at which Gate2 blocks
+  entrypointGlobs: string[];
+  configGlobs: string[];
+}
+
+export interface BlastRadiusFactors {
+  filesTouched: number;
+  directoriesSpanned: number;
+  linesChanged: number;
+  deletedFiles: number;
+  renamedFiles: number;
+  entrypoints: string[];
+  configFiles: string[];
+  dependents: number | null;  // null when no import graph was available
+}
+
+export interface BlastRadius {
+  score: number;
+  level: RiskLevel;
+  factors: BlastRadiusFactors;
+  points: Record<keyof BlastRadiusFactors, number>;
+}
+
+export const DEFAULT_BLAST_RADIUS_CONFIG: BlastRadiusConfig = {
+  warnAt: 50,
+  blockAt: 85,
+  entrypointGlobs: [
+    '**/main.{ts,js,mjs,py,go,rs}',
+    '**/index.{ts,tsx,js,mjs}',
+    '**/server.{ts,js}',
+    '**/app.{ts,js,py}',
+    '**/__main__.py',
+    '**/*.module.ts',
+  ],
+  configGlobs: [
+    '**/package.json',
+    '**/tsconfig*.json',
+    '**/*.config.{js,cjs,mjs,ts}',
+    '**/.env*',
+    '**/Dockerfile',
+    '**/docker-compose*.{yml,yaml}',
+    '.github/workflows/**',
+    '**/*.prisma',
+    '**/settings.py',
+    '**/pyproject.toml',
+    '**/Cargo.toml',
+    '**/go.mod',
+  ],
+};
+
+// Points per unit and the cap for each factor. No factor alone reaches the
+// default warn threshold.
+const WEIGHTS: Record<keyof BlastRadiusFactors, { per: number; max: number }> = {
+  filesTouched: { per: 2, max: 20 },
+  directoriesSpanned: { per: 3, max: 15 },
+  linesChanged: { per: 0.04, max: 20 },     // 1 point per 25 lines
+  deletedFiles: { per: 5, max: 15 },
+  renamedFiles: { per: 2, max: 10 },
+  entrypoints: { per: 8, max: 16 },
+  configFiles: { per: 5, max: 15 },
+  dependents: { per: 1, max: 20 },
+};
+
+const LEVEL_SCORES: { level: RiskLevel; minScore: number }[] = [
+  { level: 'high', minScore: 60 },
+  { level: 'medium', minScore: 30 },
+  { level: 'low', minScore: 0 },
+];
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Count modules that import any of the given modules, directly or
+ * transitively. The changed modules themselves are not counted.
+ */
+export function countDependents(graph: ImportGraph, modules: string[]): number {
+  const importers = new Map<string, string[]>();
+  for (const [from, imports] of Object.entries(graph)) {
+    for (const to of imports) {
+      const list = importers.get(to) ?? [];
+      list.push(from);
+      importers.set(to, list);
+    }
+  }
+
+  const changed = new Set(modules);
+  const seen = new Set<string>(modules);
+  const queue = [...modules];
+  let count = 0;
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const importer of importers.get(current) ?? []) {
+      if (seen.has(importer)) {
+        continue;
+      }
+      seen.add(importer);
+      if (!changed.has(importer)) {
+        count++;
+      }
+      queue.push(importer);
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Map a score to a risk level.
+ */
+export function riskLevelFromScore(score: number): RiskLevel {
+  return LEVEL_SCORES.find(entry => score >= entry.minScore)!.level;
+}
+
+/**
+ * Rank of a stored risk level. Accepts the "med" spelling used by
+ * older patches; unknown values rank lowest.
+ */
+export function riskLevelRank(level: string | null | undefined): number {
+  switch (level) {
+    case 'high':
+      return 2;
+    case 'medium':
+    case 'med':
+      return 1;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Compute the blast radius of a diff (raw or already parsed).
+ */
+export function computeBlastRadius(
+  diff: string | ParsedDiff,
+  options: { config?: Partial<BlastRadiusConfig>; importGraph?: ImportGraph | null } = {}
+): BlastRadius {
+  const parsed = typeof diff === 'string' ? parseDiff(diff) : diff;
+  const entrypointGlobs = options.config?.entrypointGlobs ?? DEFAULT_BLAST_RADIUS_CONFIG.entrypointGlobs;
+  const configGlobs = options.config?.configGlobs ?? DEFAULT_BLAST_RADIUS_CONFIG.configGlobs;
+
+  const paths = parsed.files.map(f => f.path);
+  // Modules that existed before the change can have importers
+  const existingModules = parsed.files.filter(f => !f.isNew).map(f => f.oldPath ?? f.path);
+
+  const factors: BlastRadiusFactors = {
+    filesTouched: parsed.files.length,
+    directoriesSpanned: new Set(paths.map(dirname)).size,
+    linesChanged: parsed.files.reduce((sum, f) => sum + f.additions + f.deletions, 0),
+    deletedFiles: parsed.files.filter(f => f.isDeleted).length,
+    renamedFiles: parsed.files.filter(f => f.isRename).length,
+    entrypoints: paths.filter(p => matchesAnyGlob(p, entrypointGlobs) !== null),
+    configFiles: paths.filter(p => matchesAnyGlob(p, configGlobs) !== null),
+    dependents: options.importGraph ? countDependents(options.importGraph, existingModules) : null,
+  };
+
+  const points = {} as Record<keyof BlastRadiusFactors, number>;
+  for (const key of Object.keys(WEIGHTS) as (keyof BlastRadiusFactors)[]) {
+    const value = factors[key];
+    const units = Array.isArray(value) ? value.length : value ?? 0;
+    points[key] = Math.min(WEIGHTS[key].max, Math.round(units * WEIGHTS[key].per));
+  }
+
+  const score = Math.min(100, Object.values(points).reduce((sum, p) => sum + p, 0));
+  return { score, level: riskLevelFromScore(score), factors, points };
+}
+
+/**
+ * Describe the largest contributors to a score, e.g.
+ * "12 files, 4 directories, 2 entrypoints".
+ */
+export function describeBlastRadius(radius: BlastRadius): string {
+  const labels: Record<keyof BlastRadiusFactors, string> = {
+    filesTouched: 'files',
+    directoriesSpanned: 'directories',
+    linesChanged: 'lines changed',
+    deletedFiles: 'deleted files',
+    renamedFiles: 'renamed files',
+    entrypoints: 'entrypoints',
+    configFiles: 'config files',
+    dependents: 'dependent modules',
+  };
+
+  return (Object.keys(radius.points) as (keyof BlastRadiusFactors)[])
+    .filter(key => radius.points[key] > 0)
+    .sort((a, b) => radius.points[b] - radius.points[a])
+    .slice(0, 3)
+    .map(key => {
+      const value = radius.factors[key];
+      return `${Array.isArray(value) ? value.length : value} ${labels[key]}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Compare a score with the configured thresholds. Returns a blast_radius
+ * violation when the score reaches warnAt, or null.
+ */
+export function blastRadiusViolation(
+  radius: BlastRadius,
+  config: Partial<BlastRadiusConfig> = {}
+): PolicyViolation | null {
+  const warnAt = config.warnAt ?? DEFAULT_BLAST_RADIUS_CONFIG.warnAt;
+  const blockAt = config.blockAt ?? DEFAULT_BLAST_RADIUS_CONFIG.blockAt;
+
+  if (radius.score < warnAt) {
+    return null;
+  }
+
+  const blocking = radius.score >= blockAt;
+  return {
+    rule: BLAST_RADIUS_RULE_ID,
+    severity: blocking ? 'BLOCK' : 'WARN',
+    file: '',
+    message: `Blast radius ${radius.score} is at or above the ${blocking ? 'block' : 'warn'} threshold ` +
+      `(${blocking ? blockAt : warnAt}): ${describeBlastRadius(radius)}`,
+    evidence: `score=${radius.score}`,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * CODEOWNERS Protected Paths
+ *
+ * Derives protected paths from a repo's CODEOWNERS file. When the policy
+ * names protected owners (e.g. "@acme/security"), every changed file whose
+ * CODEOWNERS entry includes one of them produces a codeowners_approval
+ * BLOCK violation. Gate2 only passes once one of those owners has an
+ * explicit approval recorded for the workflow (Approval kind
+ * "codeowners:<owner>"), recorded by that user or a member of that team.
+ *
+ * Pattern semantics follow GitHub: the last matching line wins, a pattern
+ * without a slash matches at any depth, a leading slash anchors to the repo
+ * root and a trailing slash matches everything under a directory.
+ */
+
+import { isNotFoundError, type GitHubClient } from '../github/github-client';
+import { globToRegExp } from './glob';
+import type { PolicyViolation } from './policy-engine';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Locations GitHub reads CODEOWNERS from, in priority order.
+ */
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export const CODEOWNERS_APPROVAL_KIND_PREFIX = 'codeowners:';
+
+export interface CodeownersRule {
+  pattern: string;   // pattern as written in CODEOWNERS
+  glob: string;      // equivalent glob (see codeownersPatternToGlob)
+  owners: string[];  // empty when the line un-assigns ownership
+  line: number;
+}
+
+/**
+ * Whether a user is an active member of an organization team.
+ */
+export type TeamMembershipLookup = (org: string, teamSlug: string, username: string) => Promise<boolean>;
+
+export interface CodeownersFile {
+  path: string;
+  rules: CodeownersRule[];
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Convert a CODEOWNERS pattern to a glob.
+ */
+export function codeownersPatternToGlob(pattern: string): string {
+  let glob = pattern;
+  const directory = glob.endsWith('/');
+  if (directory) {
+    glob = glob.slice(0, -1);
+  }
+
+  // Anchored if it starts with a slash or has one in the middle
+  if (glob.startsWith('/')) {
+    glob = glob.slice(1);
+  } else if (!glob.includes('/') && !glob.startsWith('**')) {
+    glob = `**/${glob}`;
+  }
+
+  // A path without wildcards at the end may be a file or a directory
+  if (directory || glob.endsWith('/**')) {
+    return glob.endsWith('/**') ? glob : `${glob}/**`;
+  }
+  return glob.endsWith('*') ? glob : `{${glob},${glob}/**}`;
+}
+
+/**
+ * Parse CODEOWNERS content. Comments and blank lines are skipped.
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+
+  content.split('\n').forEach((raw, index) => {
+    const text = raw.replace(/(^|\s)#.*$/, '').trim();
+    if (!text) {
+      return;
+    }
+
+    // Escaped spaces are part of the pattern
+    const [pattern, ...owners] = text.split(/(?<!\\)\s+/);
+    rules.push({
+      pattern,
+      glob: codeownersPatternToGlob(pattern.replace(/\\ /g, ' ')),
+      owners,
+      line: index + 1,
+    });
+  });
+
+  return rules;
+}
+
+/**
+ * Find the rule that owns a path (the last matching rule).
+ */
+export function findCodeownersRule(rules: CodeownersRule[], path: string): CodeownersRule | undefined {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (globToRegExp(rules[i].glob).test(path)) {
+      return rules[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Protected owners that own a path, compared case-insensitively like GitHub.
+ */
+export function findProtectedOwners(
+  rules: CodeownersRule[],
+  protectedOwners: string[],
+  path: string
+): string[] {
+  const owners = findCodeownersRule(rules, path)?.owners ?? [];
+  const wanted = new Set(protectedOwners.map(o => o.toLowerCase()));
+  return owners.filter(owner => wanted.has(owner.toLowerCase()));
+}
+
+// ============================================================================
+// Approvals
+// ============================================================================
+
+/**
+ * Approval kind recording an explicit approval on behalf of an owner.
+ */
+export function codeownersApprovalKind(owner: string): string {
+  return `${CODEOWNERS_APPROVAL_KIND_PREFIX}${owner.toLowerCase()}`;
+}
+
+/**
+ * Whether a user may approve on behalf of an owner: "@user" owners only
+ * themselves, "@org/team" owners any active team member. Email owners
+ * cannot be verified and never match.
+ */
+export async function canApproveForOwner(
+  owner: string,
+  username: string,
+  isTeamMember: TeamMembershipLookup
+): Promise<boolean> {
+  const match = /^@([^/\s]+)(?:\/([^/\s]+))?$/.exec(owner.trim());
+  if (!match || !username) {
+    return false;
+  }
+
+  const [, login, team] = match;
+  if (!team) {
+    return login.toLowerCase() === username.toLowerCase();
+  }
+  return isTeamMember(login, team.toLowerCase(), username);
+}
+
+/**
+ * Owners with a recorded approval, from a workflow's Approval kinds.
+ */
+export function approvedOwnersFromKinds(kinds: string[]): string[] {
+  return kinds
+    .filter(kind => kind.startsWith(CODEOWNERS_APPROVAL_KIND_PREFIX))
+    .map(kind => kind.slice(CODEOWNERS_APPROVAL_KIND_PREFIX.length));
+}
+
+/**
+ * Downgrade codeowners_approval violations to WARN once any owner they
+ * name has approved. Evidence holds the space-separated owners.
+ */
+export function applyCodeownersApprovals(
+  violations: PolicyViolation[],
+  approvedOwners: string[]
+): { violations: PolicyViolation[]; approved: number } {
+  const approved = new Set(approvedOwners.map(o => o.toLowerCase()));
+  let count = 0;
+
+  const result = violations.map(violation => {
+    if (violation.rule !== 'codeowners_approval' || violation.severity !== 'BLOCK') {
+      return violation;
+    }
+    const owner = (violation.evidence ?? '').split(' ').find(o => approved.has(o.toLowerCase()));
+    if (!owner) {
+      return violation;
+    }
+    count++;
+    return { ...violation, severity: 'WARN' as const, message: `${violation.message} (approved for ${owner})` };
+  });
+
+  return { violations: result, approved: count };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load a repo's CODEOWNERS at a given commit. Returns null when the repo
+ * has none; other read failures throw, so protected paths never go
+ * unprotected.
+ */
+export async function loadCodeowners(
+  github: Pick<GitHubClient, 'getFileContents'>,
+  params: { owner: string; repo: string; ref: string }
+): Promise<CodeownersFile | null> {
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      const file = await github.getFileContents({ ...params, path });
+      return { path, rules: parseCodeowners(file.content) };
+    } catch (err) {
+      if (!isNotFoundError(err)) {
+        throw err;
+      }
+      // Not at this location - try the next one
+    }
+  }
+  return null;
+}
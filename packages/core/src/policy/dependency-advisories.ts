@@ -0,0 +1,405 @@
+/**
+ * Dependency Advisories
+ *
+ * Offline license and vulnerability checks for dependencies a patch
+ * introduces. The data comes from a JSON snapshot on disk, so policy
+ * evaluation never calls out to a registry. Refresh it by replacing the file.
+ *
+ * Snapshot format:
+ *
+ *   {
+ *     "version": 1,
+ *     "generatedAt": "2026-01-15T00:00:00Z",
+ *     "packages": [
+ *       {
+ *         "ecosystem": "npm",
+ *         "name": "event-stream",
+ *         "license": "MIT",
+ *         "advisories": [
+ *           {
+ *             "id": "GHSA-mh6f-8j2x-4483",
+ *             "severity": "critical",
+ *             "vulnerable": ">=3.3.6 <4.0.0",
+ *             "summary": "Malicious code in flatmap-stream"
+ *           }
+ *         ]
+ *       }
+ *     ]
+ *   }
+ *
+ * `vulnerable` is a range of space-separated comparators (`<`, `<=`, `>`,
+ * `>=`, `=`); alternatives are joined with `||`. Comma-separated PEP 440
+ * style ranges (">=1.0,<2.0") are accepted too. A dependency is flagged
+ * when the versions its spec allows overlap an advisory's range.
+ */
+
+import { readFile } from 'fs/promises';
+import * as semver from 'semver';
+import { z } from 'zod';
+import { extractFileChangesFromDiff } from '../github/patch-applicator';
+import {
+  analyzeManifestChanges,
+  isAnalyzableManifest,
+  parseVersion,
+  type DependencyChange,
+  type DependencyEcosystem,
+} from './dependency-analysis';
+import { extractLineChanges } from './diff-parser';
+import type { ViolationSeverity } from './policy-engine';
+import type { PolicyRule, PolicyRuleFinding, PolicyRuleInput } from './policy-rules';
+
+// ============================================================================
+// Snapshot Schema
+// ============================================================================
+
+const AdvisorySchema = z.object({
+  id: z.string().min(1),
+  severity: z.enum(['low', 'moderate', 'high', 'critical']),
+  vulnerable: z.string().min(1),
+  summary: z.string().optional(),
+  url: z.string().optional(),
+});
+
+const AdvisoryPackageSchema = z.object({
+  ecosystem: z.enum(['npm', 'pypi', 'go', 'cargo']),
+  name: z.string().min(1),
+  license: z.string().optional(),
+  advisories: z.array(AdvisorySchema).default([]),
+});
+
+export const AdvisorySnapshotSchema = z.object({
+  version: z.literal(1),
+  generatedAt: z.string().optional(),
+  packages: z.array(AdvisoryPackageSchema),
+});
+
+export type Advisory = z.infer<typeof AdvisorySchema>;
+export type AdvisorySeverity = Advisory['severity'];
+export type AdvisoryPackage = z.infer<typeof AdvisoryPackageSchema>;
+export type AdvisorySnapshot = z.infer<typeof AdvisorySnapshotSchema>;
+
+/**
+ * Parse and validate snapshot content.
+ * Throws with a readable message if the JSON or schema is invalid.
+ */
+export function parseAdvisorySnapshot(content: string): AdvisorySnapshot {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid advisory snapshot: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const result = AdvisorySnapshotSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid advisory snapshot: ${issues}`);
+  }
+
+  return result.data;
+}
+
+// ============================================================================
+// Versions & Licenses
+// ============================================================================
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Check whether a version falls inside an advisory range.
+ */
+export function satisfiesVersionRange(version: number[], range: string): boolean {
+  return range.split('||').some(alternative => {
+    // Attach operators to their versions (">= 1.0" -> ">=1.0") before splitting
+    const comparators = alternative
+      .replace(/(<=|>=|==|<|>|=)\s+/g, '$1')
+      .split(/[\s,]+/)
+      .filter(Boolean);
+    if (comparators.length === 0) {
+      return false;
+    }
+
+    return comparators.every(comparator => {
+      if (comparator === '*') {
+        return true;
+      }
+      const match = comparator.match(/^(<=|>=|==|<|>|=)?(.+)$/);
+      const bound = match ? parseVersion(match[2]) : null;
+      if (!match || !bound) {
+        return false;
+      }
+
+      const cmp = compareVersions(version, bound);
+      switch (match[1]) {
+        case '<': return cmp < 0;
+        case '<=': return cmp <= 0;
+        case '>': return cmp > 0;
+        case '>=': return cmp >= 0;
+        default: return cmp === 0;
+      }
+    });
+  });
+}
+
+/**
+ * The lowest version a dependency spec allows ("^1.2.3" -> 1.2.3).
+ * Returns null for specs without a lower bound ("<2.0", git URLs).
+ */
+export function minimumVersion(spec: string): number[] | null {
+  if (/^\s*</.test(spec)) {
+    return null;
+  }
+  return parseVersion(spec);
+}
+
+/**
+ * Translate a dependency spec into an npm-style semver range. PEP 440
+ * operators map onto their semver equivalents and Cargo's bare versions
+ * are caret requirements. Returns null for specs semver can't read (git
+ * URLs, four-part versions).
+ */
+export function toSemverRange(spec: string, ecosystem: DependencyEcosystem = 'npm'): string | null {
+  let range = spec.trim();
+
+  if (ecosystem === 'pypi') {
+    range = range
+      .split(',')
+      .map(part => part.trim())
+      // Exclusions only narrow the range; keeping the rest over-approximates
+      .filter(part => !part.startsWith('!='))
+      .map(part => part
+        .replace(/^~=\s*(\d+)\.(\d+)$/, (_, major, minor) => `>=${major}.${minor}.0 <${Number(major) + 1}.0.0`)
+        .replace(/^~=/, '~')
+        .replace(/^={2,3}/, '='))
+      .join(' ');
+  } else if (ecosystem === 'cargo') {
+    range = range
+      .split(',')
+      .map(part => part.trim())
+      .map(part => (/^\d/.test(part) ? `^${part}` : part))
+      .join(' ');
+  }
+
+  return semver.validRange(range, { loose: true });
+}
+
+/**
+ * Check whether any version a dependency spec allows falls inside an
+ * advisory range ("^4.17.15" overlaps "<4.17.21"). Specs or ranges semver
+ * can't read fall back to checking the spec's lowest version.
+ */
+export function specIntersectsRange(
+  spec: string,
+  vulnerable: string,
+  ecosystem: DependencyEcosystem = 'npm'
+): boolean {
+  const allowed = toSemverRange(spec, ecosystem);
+  const affected = semver.validRange(vulnerable.replace(/,/g, ' ').replace(/={2,3}/g, '='), { loose: true });
+  if (allowed && affected) {
+    return semver.intersects(allowed, affected, { loose: true });
+  }
+
+  const version = minimumVersion(spec);
+  return version !== null && satisfiesVersionRange(version, vulnerable);
+}
+
+export const DEFAULT_DENIED_LICENSES = ['GPL-*', 'AGPL-*', 'LGPL-*'];
+
+function matchesLicensePattern(license: string, pattern: string): boolean {
+  const regex = new RegExp(
+    `^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`,
+    'i'
+  );
+  return regex.test(license);
+}
+
+/**
+ * Check an SPDX license expression against denied license patterns.
+ * "MIT OR GPL-3.0" is allowed (MIT can be chosen); "MIT AND GPL-3.0" is not.
+ */
+export function isDeniedLicense(expression: string, denied: string[] = DEFAULT_DENIED_LICENSES): boolean {
+  const alternatives = expression.replace(/[()]/g, ' ').split(/\s+OR\s+/i);
+  return alternatives.every(alternative =>
+    alternative
+      .split(/\s+AND\s+/i)
+      .map(part => part.trim().split(/\s+WITH\s+/i)[0])
+      .some(id => denied.some(pattern => matchesLicensePattern(id, pattern)))
+  );
+}
+
+// ============================================================================
+// Advisory Database
+// ============================================================================
+
+function packageKey(ecosystem: DependencyEcosystem, name: string): string {
+  const normalized = ecosystem === 'pypi' ? name.toLowerCase().replace(/[._-]+/g, '-') : name;
+  return `${ecosystem}:${normalized}`;
+}
+
+export class AdvisoryDatabase {
+  private readonly packages: Map<string, AdvisoryPackage> = new Map();
+
+  constructor(readonly snapshot: AdvisorySnapshot) {
+    for (const pkg of snapshot.packages) {
+      this.packages.set(packageKey(pkg.ecosystem, pkg.name), pkg);
+    }
+  }
+
+  /**
+   * Get the snapshot entry for a package.
+   */
+  lookup(ecosystem: DependencyEcosystem, name: string): AdvisoryPackage | undefined {
+    return this.packages.get(packageKey(ecosystem, name));
+  }
+
+  /**
+   * Get the advisories affecting a version of a package.
+   */
+  findAdvisories(ecosystem: DependencyEcosystem, name: string, version: number[]): Advisory[] {
+    return (this.lookup(ecosystem, name)?.advisories ?? [])
+      .filter(advisory => satisfiesVersionRange(version, advisory.vulnerable));
+  }
+
+  /**
+   * Get the advisories affecting any version a dependency spec allows.
+   */
+  findAdvisoriesForSpec(ecosystem: DependencyEcosystem, name: string, spec: string): Advisory[] {
+    return (this.lookup(ecosystem, name)?.advisories ?? [])
+      .filter(advisory => specIntersectsRange(spec, advisory.vulnerable, ecosystem));
+  }
+
+  /**
+   * Number of packages in the snapshot.
+   */
+  get size(): number {
+    return this.packages.size;
+  }
+}
+
+/**
+ * Load a snapshot file from disk.
+ */
+export async function loadAdvisoryDatabase(path: string): Promise<AdvisoryDatabase> {
+  const content = await readFile(path, 'utf8');
+  return new AdvisoryDatabase(parseAdvisorySnapshot(content));
+}
+
+// ============================================================================
+// Policy Rule
+// ============================================================================
+
+export const DEPENDENCY_ADVISORY_RULE_ID = 'dependency_advisory';
+
+export const DEFAULT_ADVISORY_SEVERITIES: Record<AdvisorySeverity, ViolationSeverity> = {
+  critical: 'BLOCK',
+  high: 'BLOCK',
+  moderate: 'WARN',
+  low: 'WARN',
+};
+
+export interface DependencyAdvisoryRuleOptions {
+  /** License patterns to flag (defaults to the GPL family) */
+  deniedLicenses?: string[];
+  /** Severity of a denied license finding */
+  licenseSeverity?: ViolationSeverity;
+  /** Violation severity per advisory severity */
+  advisorySeverities?: Partial<Record<AdvisorySeverity, ViolationSeverity>>;
+}
+
+// Changes that bring a new version into the tree
+const INTRODUCING_KINDS = new Set(['added', 'upgraded', 'downgraded', 'changed']);
+
+/**
+ * Find dependencies a diff introduces: new ones, and existing ones whose
+ * version changed.
+ */
+export function findIntroducedDependencies(diff: string): DependencyChange[] {
+  const introduced: DependencyChange[] = [];
+
+  for (const file of extractFileChangesFromDiff(diff)) {
+    if (file.isDeleted || !isAnalyzableManifest(file.path)) {
+      continue;
+    }
+
+    const changes = extractLineChanges(file.diffContent).get(file.path);
+    if (!changes) {
+      continue;
+    }
+
+    for (const change of analyzeManifestChanges(changes) ?? []) {
+      if (INTRODUCING_KINDS.has(change.kind) && change.to !== undefined && change.section !== 'replace') {
+        introduced.push(change);
+      }
+    }
+  }
+
+  return introduced;
+}
+
+/**
+ * Flags introduced dependencies that have a denied license or a known
+ * advisory for a version the new spec allows. Advisory findings carry the
+ * advisory id as evidence, license findings the license expression.
+ */
+export class DependencyAdvisoryRule implements PolicyRule {
+  readonly id = DEPENDENCY_ADVISORY_RULE_ID;
+  readonly description = 'Flags new dependencies with GPL-family licenses or known advisories';
+  readonly defaultSeverity: ViolationSeverity = 'BLOCK';
+
+  private readonly deniedLicenses: string[];
+  private readonly licenseSeverity: ViolationSeverity;
+  private readonly advisorySeverities: Record<AdvisorySeverity, ViolationSeverity>;
+
+  constructor(
+    private readonly db: AdvisoryDatabase,
+    options: DependencyAdvisoryRuleOptions = {}
+  ) {
+    this.deniedLicenses = options.deniedLicenses ?? DEFAULT_DENIED_LICENSES;
+    this.licenseSeverity = options.licenseSeverity ?? 'BLOCK';
+    this.advisorySeverities = { ...DEFAULT_ADVISORY_SEVERITIES, ...options.advisorySeverities };
+  }
+
+  evaluate(input: PolicyRuleInput): PolicyRuleFinding[] {
+    const findings: PolicyRuleFinding[] = [];
+
+    for (const change of findIntroducedDependencies(input.raw)) {
+      const pkg = this.db.lookup(change.ecosystem, change.name);
+      if (!pkg) {
+        continue;
+      }
+
+      // A license doesn't depend on the version, so only new packages are checked
+      if (change.kind === 'added' && pkg.license && isDeniedLicense(pkg.license, this.deniedLicenses)) {
+        findings.push({
+          file: change.file,
+          line: change.line,
+          severity: this.licenseSeverity,
+          message: `Dependency "${change.name}" is licensed under ${pkg.license}`,
+          evidence: pkg.license,
+        });
+      }
+
+      for (const advisory of this.db.findAdvisoriesForSpec(change.ecosystem, change.name, change.to!)) {
+        findings.push({
+          file: change.file,
+          line: change.line,
+          severity: this.advisorySeverities[advisory.severity],
+          message: `Dependency "${change.name}@${change.to}" has a known ${advisory.severity} advisory` +
+            (advisory.summary ? `: ${advisory.summary}` : ''),
+          evidence: advisory.id,
+        });
+      }
+    }
+
+    return findings;
+  }
+}
@@ -0,0 +1,726 @@
+/**
+ * Dependency Change Analysis
+ *
+ * Parses manifest diffs and classifies each change, so the policy engine can
+ * apply a severity per kind of change instead of blocking every edit to a
+ * dependency file.
+ *
+ * Supported manifests: package.json, requirements.txt, go.mod, Cargo.toml,
+ * pyproject.toml. A diff only shows a few lines of context, so each parser
+ * tracks the enclosing section (e.g. "dependencies" vs "scripts") from the
+ * header lines that are visible. Entries whose section can't be seen are
+ * classified from their value: version-like values count as dependencies,
+ * anything else as a script change so it is never silently allowed. Changed
+ * lines no parser rule recognizes (single-line objects, requirements.txt
+ * options, ...) are reported as unclassified and block like any other
+ * unreviewed dependency file change.
+ */
+
+import type { DiffHunk, FileLineChanges } from './diff-parser';
+import type { ViolationSeverity } from './policy-engine';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DependencyEcosystem = 'npm' | 'pypi' | 'go' | 'cargo';
+
+export type DependencyChangeKind =
+  | 'added'
+  | 'removed'
+  | 'upgraded'
+  | 'downgraded'
+  | 'changed'   // version spec changed but not comparable (e.g. ^1.2.0 -> ~1.2.0, git URL)
+  | 'script'
+  | 'metadata'
+  | 'unclassified'; // changed line the parser could not interpret
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export interface DependencyChange {
+  file: string;
+  ecosystem: DependencyEcosystem;
+  kind: DependencyChangeKind;
+  name: string;        // package name, script name or metadata key
+  section?: string;    // enclosing manifest section, when visible
+  from?: string;       // previous version spec / value
+  to?: string;         // new version spec / value
+  bump?: VersionBump;  // for upgrades and downgrades
+  installScript?: boolean; // script runs on install (added or changed npm lifecycle script)
+  line?: number;       // line in the new file (old file for removals)
+}
+
+/**
+ * Severity for a kind of change. ALLOW records the change without a violation.
+ */
+export type DependencyRuleSeverity = ViolationSeverity | 'ALLOW';
+
+export interface DependencySeverities {
+  added: DependencyRuleSeverity;             // new dependency not on the allowlist
+  addedAllowlisted: DependencyRuleSeverity;  // new dependency on the allowlist
+  removed: DependencyRuleSeverity;
+  upgradeMajor: DependencyRuleSeverity;
+  upgradeMinor: DependencyRuleSeverity;
+  upgradePatch: DependencyRuleSeverity;
+  downgraded: DependencyRuleSeverity;
+  changed: DependencyRuleSeverity;
+  script: DependencyRuleSeverity;
+  installScript: DependencyRuleSeverity;     // npm lifecycle scripts run on install (postinstall, ...)
+  metadata: DependencyRuleSeverity;
+}
+
+export const DEFAULT_DEPENDENCY_SEVERITIES: DependencySeverities = {
+  added: 'BLOCK',
+  addedAllowlisted: 'WARN',
+  removed: 'WARN',
+  upgradeMajor: 'BLOCK',
+  upgradeMinor: 'WARN',
+  upgradePatch: 'WARN',
+  downgraded: 'BLOCK',
+  changed: 'WARN',
+  script: 'WARN',
+  installScript: 'BLOCK',
+  metadata: 'ALLOW',
+};
+
+/**
+ * npm lifecycle scripts that run when the package is installed.
+ */
+export const INSTALL_SCRIPT_NAMES = new Set([
+  'preinstall', 'install', 'postinstall', 'prepublish', 'preprepare', 'prepare', 'postprepare',
+]);
+
+/**
+ * Policy rule id reported for each kind of change.
+ */
+export const DEPENDENCY_RULE_IDS = {
+  added: 'dependency_added',
+  removed: 'dependency_removed',
+  upgraded: 'dependency_upgraded',
+  downgraded: 'dependency_downgraded',
+  changed: 'dependency_changed',
+  script: 'dependency_script_change',
+  metadata: 'dependency_metadata_change',
+  unclassified: 'dependency_change',
+} as const satisfies Record<DependencyChangeKind, string>;
+
+type EntryCategory = 'dependency' | 'script' | 'metadata';
+
+interface ManifestEntry {
+  category: EntryCategory;
+  name: string;
+  value: string;
+  section?: string;
+  line: number;
+}
+
+interface ManifestParser {
+  ecosystem: DependencyEcosystem;
+  /** Parse the entries on one side (old or new) of a hunk */
+  parseHunk(hunk: DiffHunk, side: 'added' | 'removed'): ManifestEntry[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Lines that only open or close a section, or are comments: they change no
+ * entry by themselves.
+ */
+const STRUCTURAL_LINE = [
+  /^[\s{}[\](),]*$/,                                   // braces, brackets, parentheses
+  /^\s*"[^"]+"\s*:\s*[{[]\s*$/,                         // "dependencies": {
+  /^\s*\[\[?[^\]]+\]\]?\s*(?:#.*)?$/,                    // [dependencies]
+  /^\s*[A-Za-z0-9_.\-"']+\s*=\s*\[\s*(?:#.*)?$/,          // dependencies = [
+  /^\s*(?:require|replace|exclude|retract)\s*\(\s*$/,    // require (
+  /^\s*(?:#|\/\/)/,                                     // comments
+];
+
+const VERSION_LIKE = /^\s*(?:[~^<>=!]*\s*v?\d|\*|latest$|workspace:|npm:|file:|link:|git\+|github:|https?:)/;
+
+function isVersionLike(value: string): boolean {
+  return VERSION_LIKE.test(value);
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Lines visible on one side of a hunk: context lines plus the lines of that side.
+ */
+function sideLines(hunk: DiffHunk, side: 'added' | 'removed') {
+  return hunk.lines.filter(l => l.type === 'context' || l.type === side);
+}
+
+/**
+ * Parse the first numeric version in a spec ("^1.2.3" -> [1, 2, 3]).
+ */
+export function parseVersion(spec: string): number[] | null {
+  const match = spec.match(/(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+  if (!match) {
+    return null;
+  }
+  return [match[1], match[2], match[3]].map(part => (part === undefined ? 0 : parseInt(part, 10)));
+}
+
+/**
+ * Compare two version specs. Returns null when either side has no version.
+ */
+export function compareVersionSpecs(
+  from: string,
+  to: string
+): { direction: 'up' | 'down' | 'same'; bump?: VersionBump } | null {
+  const a = parseVersion(from);
+  const b = parseVersion(to);
+  if (!a || !b) {
+    return null;
+  }
+
+  const levels: VersionBump[] = ['major', 'minor', 'patch'];
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) {
+      return { direction: b[i] > a[i] ? 'up' : 'down', bump: levels[i] };
+    }
+  }
+  return { direction: 'same' };
+}
+
+/**
+ * Parse a PEP 508 requirement ("requests[socks]>=2.0; python_version>'3'").
+ */
+function parseRequirement(text: string): { name: string; spec: string } | null {
+  const match = text.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)(\[[^\]]*\])?\s*(.*)$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    name: match[1].toLowerCase().replace(/[._]+/g, '-'),
+    spec: match[3].trim(),
+  };
+}
+
+// ============================================================================
+// package.json
+// ============================================================================
+
+const NPM_DEPENDENCY_SECTIONS = new Set([
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+  'bundledDependencies',
+  'overrides',
+  'resolutions',
+]);
+
+const NPM_METADATA_KEYS = new Set([
+  'name', 'version', 'description', 'license', 'author', 'homepage', 'main',
+  'module', 'types', 'typings', 'private', 'type', 'packageManager',
+]);
+
+const packageJsonParser: ManifestParser = {
+  ecosystem: 'npm',
+  parseHunk(hunk, side) {
+    const entries: ManifestEntry[] = [];
+    const stack: string[] = [];
+    // null = section not visible in this hunk, '' = top level
+    let section: string | null = null;
+
+    for (const line of sideLines(hunk, side)) {
+      const open = line.content.match(/^\s*"([^"]+)"\s*:\s*\{\s*$/);
+      if (open) {
+        stack.push(open[1]);
+        section = open[1];
+        continue;
+      }
+      if (/^\s*\}\s*,?\s*$/.test(line.content)) {
+        stack.pop();
+        section = stack.length > 0 ? stack[stack.length - 1] : '';
+        continue;
+      }
+
+      const entry = line.content.match(/^\s*"([^"]+)"\s*:\s*(?:"([^"]*)"|(true|false|null|-?\d[\d.eE+-]*))\s*,?\s*$/);
+      if (!entry || line.type === 'context') {
+        continue;
+      }
+
+      const key = entry[1];
+      const value = entry[2] ?? entry[3];
+      let category: EntryCategory;
+      if (section === null) {
+        // Scripts and version specs are always strings
+        category = NPM_METADATA_KEYS.has(key) || entry[3] !== undefined
+          ? 'metadata'
+          : isVersionLike(value) ? 'dependency' : 'script';
+      } else if (NPM_DEPENDENCY_SECTIONS.has(section)) {
+        category = 'dependency';
+      } else if (section === 'scripts') {
+        category = 'script';
+      } else {
+        category = 'metadata';
+      }
+
+      entries.push({ category, name: key, value, section: section || undefined, line: line.line });
+    }
+
+    return entries;
+  },
+};
+
+// ============================================================================
+// requirements.txt
+// ============================================================================
+
+const requirementsParser: ManifestParser = {
+  ecosystem: 'pypi',
+  parseHunk(hunk, side) {
+    const entries: ManifestEntry[] = [];
+
+    for (const line of hunk.lines) {
+      if (line.type !== side) {
+        continue;
+      }
+
+      const text = line.content.replace(/\s+#.*$/, '').trim();
+      if (!text || text.startsWith('#')) {
+        continue;
+      }
+
+      // Options (-r other.txt, --extra-index-url ..., -e git+...) change where
+      // packages come from: left unclassified so they block
+      if (text.startsWith('-')) {
+        continue;
+      }
+
+      const requirement = parseRequirement(text);
+      if (requirement) {
+        entries.push({ category: 'dependency', name: requirement.name, value: requirement.spec, line: line.line });
+      }
+    }
+
+    return entries;
+  },
+};
+
+// ============================================================================
+// go.mod
+// ============================================================================
+
+const goModParser: ManifestParser = {
+  ecosystem: 'go',
+  parseHunk(hunk, side) {
+    const entries: ManifestEntry[] = [];
+    // Block directive we're inside ("require", "replace", "exclude"), null if none visible
+    let block: string | null = null;
+
+    for (const line of sideLines(hunk, side)) {
+      const text = line.content.trim();
+
+      const blockOpen = text.match(/^(require|replace|exclude|retract)\s*\($/);
+      if (blockOpen) {
+        block = blockOpen[1];
+        continue;
+      }
+      if (text === ')') {
+        block = '';
+        continue;
+      }
+      if (line.type === 'context' || !text || text.startsWith('//')) {
+        continue;
+      }
+
+      const directive = text.match(/^(module|go|toolchain)\s+(\S+)/);
+      if (directive) {
+        entries.push({ category: 'metadata', name: directive[1], value: directive[2], line: line.line });
+        continue;
+      }
+
+      const single = text.match(/^(require|replace|exclude|retract)\s+(.+)$/);
+      const directiveName = single ? single[1] : block;
+      const body = (single ? single[2] : text).replace(/\s*\/\/.*$/, '');
+
+      if (directiveName === 'replace') {
+        // "old [v] => new [v]" swaps a module's source: treat as a dependency change
+        const replace = body.match(/^(\S+)(?:\s+\S+)?\s*=>\s*(.+)$/);
+        if (replace) {
+          entries.push({ category: 'dependency', name: replace[1], value: `=> ${replace[2].trim()}`, section: 'replace', line: line.line });
+        }
+        continue;
+      }
+
+      const requirement = body.match(/^(\S+)\s+(v\S+)/);
+      if (requirement && (directiveName === 'require' || directiveName === null)) {
+        entries.push({ category: 'dependency', name: requirement[1], value: requirement[2], section: 'require', line: line.line });
+      } else if (requirement) {
+        entries.push({ category: 'metadata', name: `${directiveName} ${requirement[1]}`, value: requirement[2], line: line.line });
+      }
+    }
+
+    return entries;
+  },
+};
+
+// ============================================================================
+// TOML manifests (Cargo.toml, pyproject.toml)
+// ============================================================================
+
+type TomlSectionKind = 'dependency' | 'dependency-array' | 'script' | 'metadata';
+
+/**
+ * Shared TOML walker: tracks [section] headers and multi-line arrays and
+ * hands each key/value or array item to the manifest-specific classifier.
+ */
+function parseTomlHunk(
+  hunk: DiffHunk,
+  side: 'added' | 'removed',
+  classifySection: (section: string, key?: string) => TomlSectionKind,
+  normalizeName: (name: string) => string
+): ManifestEntry[] {
+  const entries: ManifestEntry[] = [];
+  let section: string | null = null;
+  let arrayKey: string | null = null; // key of the multi-line array we're inside
+
+  const pushRequirement = (text: string, lineNo: number, sectionName?: string) => {
+    const requirement = parseRequirement(text);
+    if (requirement) {
+      entries.push({ category: 'dependency', name: requirement.name, value: requirement.spec, section: sectionName, line: lineNo });
+    }
+  };
+
+  for (const line of sideLines(hunk, side)) {
+    const text = line.content.replace(/\s+#.*$/, '').trim();
+
+    const header = text.match(/^\[\[?([^\]]+)\]\]?$/);
+    if (header) {
+      section = header[1].trim();
+      arrayKey = null;
+      continue;
+    }
+
+    if (arrayKey !== null) {
+      if (text.startsWith(']')) {
+        arrayKey = null;
+        continue;
+      }
+      if (line.type !== 'context') {
+        for (const item of text.matchAll(/"([^"]+)"|'([^']+)'/g)) {
+          pushRequirement(item[1] ?? item[2], line.line, section ?? undefined);
+        }
+      }
+      continue;
+    }
+
+    const keyValue = text.match(/^([A-Za-z0-9_.\-"']+)\s*=\s*(.+)$/);
+    if (!keyValue) {
+      // Bare quoted item: we're inside an array whose opening line isn't visible
+      const item = text.match(/^"([^"]+)"\s*,?$|^'([^']+)'\s*,?$/);
+      if (item && line.type !== 'context') {
+        pushRequirement(item[1] ?? item[2], line.line, section ?? undefined);
+      }
+      continue;
+    }
+
+    const key = keyValue[1].replace(/["']/g, '');
+    const value = keyValue[2].trim();
+    const kind = section === null ? null : classifySection(section, key);
+
+    // Arrays of requirement strings (pyproject dependencies / optional-dependencies)
+    if (value.startsWith('[') && (kind === 'dependency-array' || kind === null)) {
+      if (!value.includes(']')) {
+        arrayKey = key;
+      }
+      if (line.type !== 'context') {
+        for (const item of value.matchAll(/"([^"]+)"|'([^']+)'/g)) {
+          pushRequirement(item[1] ?? item[2], line.line, section ?? undefined);
+        }
+      }
+      continue;
+    }
+
+    if (line.type === 'context') {
+      continue;
+    }
+
+    // Inline tables: serde = { version = "1.0", features = [...] }
+    const inlineVersion = value.match(/version\s*=\s*"([^"]+)"/);
+    const spec = inlineVersion ? inlineVersion[1] : value.replace(/^["']|["'],?$/g, '');
+
+    let category: EntryCategory;
+    if (kind === null) {
+      category = isVersionLike(spec) || value.startsWith('{') ? 'dependency' : 'metadata';
+    } else if (kind === 'dependency') {
+      category = 'dependency';
+    } else if (kind === 'script') {
+      category = 'script';
+    } else {
+      category = 'metadata';
+    }
+
+    // [dependencies.serde] tables: the package is in the header, key is the field
+    let name = key;
+    if (category === 'dependency' && section && /(^|\.)((dev|build)-)?dependencies\.[^.]+$/.test(section)) {
+      if (key !== 'version') {
+        continue;
+      }
+      name = section.slice(section.lastIndexOf('.') + 1);
+    }
+
+    entries.push({
+      category,
+      name: category === 'dependency' ? normalizeName(name) : key,
+      value: spec,
+      section: section ?? undefined,
+      line: line.line,
+    });
+  }
+
+  return entries;
+}
+
+const cargoTomlParser: ManifestParser = {
+  ecosystem: 'cargo',
+  parseHunk(hunk, side) {
+    return parseTomlHunk(
+      hunk,
+      side,
+      section => (/(^|\.)(dev-|build-)?dependencies(\.[^.]+)?$/.test(section) ? 'dependency' : 'metadata'),
+      name => name
+    );
+  },
+};
+
+const pyprojectParser: ManifestParser = {
+  ecosystem: 'pypi',
+  parseHunk(hunk, side) {
+    return parseTomlHunk(
+      hunk,
+      side,
+      (section, key) => {
+        if (section === 'project') {
+          return key === 'dependencies' ? 'dependency-array' : 'metadata';
+        }
+        if (section === 'project.optional-dependencies' || section === 'dependency-groups') {
+          return 'dependency-array';
+        }
+        if (/^tool\.poetry\.(dev-dependencies|dependencies|group\.[^.]+\.dependencies)$/.test(section)) {
+          // python = "^3.11" is the interpreter constraint, not a package
+          return key === 'python' ? 'metadata' : 'dependency';
+        }
+        if (section === 'project.scripts' || section === 'tool.poetry.scripts' || section === 'project.entry-points') {
+          return 'script';
+        }
+        return 'metadata';
+      },
+      name => name.toLowerCase().replace(/[._]+/g, '-')
+    );
+  },
+};
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+const MANIFEST_PARSERS: Record<string, ManifestParser> = {
+  'package.json': packageJsonParser,
+  'requirements.txt': requirementsParser,
+  'go.mod': goModParser,
+  'Cargo.toml': cargoTomlParser,
+  'pyproject.toml': pyprojectParser,
+};
+
+/**
+ * Check whether a path is a manifest this module can analyze.
+ */
+export function isAnalyzableManifest(path: string): boolean {
+  return basename(path) in MANIFEST_PARSERS;
+}
+
+function entryKey(entry: ManifestEntry): string {
+  return `${entry.category}:${entry.section === 'replace' ? 'replace:' : ''}${entry.name}`;
+}
+
+/**
+ * Classify the changes in one manifest file.
+ * Returns null if the file is not a supported manifest.
+ */
+export function analyzeManifestChanges(changes: FileLineChanges): DependencyChange[] | null {
+  const parser = MANIFEST_PARSERS[basename(changes.path)];
+  if (!parser) {
+    return null;
+  }
+
+  const removed = new Map<string, ManifestEntry>();
+  const added = new Map<string, ManifestEntry>();
+  const unclassified: Array<{ type: 'added' | 'removed'; line: number; content: string }> = [];
+  for (const hunk of changes.hunks) {
+    const covered = new Set<string>();
+    for (const entry of parser.parseHunk(hunk, 'removed')) {
+      removed.set(entryKey(entry), entry);
+      covered.add(`removed:${entry.line}`);
+    }
+    for (const entry of parser.parseHunk(hunk, 'added')) {
+      added.set(entryKey(entry), entry);
+      covered.add(`added:${entry.line}`);
+    }
+    for (const line of hunk.lines) {
+      if (line.type !== 'context' && !covered.has(`${line.type}:${line.line}`) &&
+          !STRUCTURAL_LINE.some(pattern => pattern.test(line.content))) {
+        unclassified.push({ type: line.type, line: line.line, content: line.content.trim() });
+      }
+    }
+  }
+
+  const result: DependencyChange[] = [];
+  const base = (entry: ManifestEntry) => ({
+    file: changes.path,
+    ecosystem: parser.ecosystem,
+    name: entry.name,
+    section: entry.section,
+  });
+
+  for (const [key, after] of added) {
+    const before = removed.get(key);
+    removed.delete(key);
+
+    if (before && before.value === after.value) {
+      continue; // only formatting changed (e.g. a trailing comma)
+    }
+
+    if (after.category !== 'dependency') {
+      if (after.category === 'script' && parser.ecosystem === 'npm' && INSTALL_SCRIPT_NAMES.has(after.name)) {
+        result.push({ ...base(after), kind: 'script', installScript: true, from: before?.value, to: after.value, line: after.line });
+        continue;
+      }
+      result.push({ ...base(after), kind: after.category, from: before?.value, to: after.value, line: after.line });
+      continue;
+    }
+
+    if (!before) {
+      result.push({ ...base(after), kind: 'added', to: after.value, line: after.line });
+      continue;
+    }
+
+    const comparison = compareVersionSpecs(before.value, after.value);
+    const kind: DependencyChangeKind = !comparison || comparison.direction === 'same'
+      ? 'changed'
+      : comparison.direction === 'up' ? 'upgraded' : 'downgraded';
+
+    result.push({
+      ...base(after),
+      kind,
+      from: before.value,
+      to: after.value,
+      bump: kind === 'changed' ? undefined : comparison?.bump,
+      line: after.line,
+    });
+  }
+
+  for (const before of removed.values()) {
+    result.push({
+      ...base(before),
+      kind: before.category === 'dependency' ? 'removed' : before.category,
+      from: before.value,
+      line: before.line,
+    });
+  }
+
+  for (const { type, line, content } of unclassified) {
+    result.push({
+      file: changes.path,
+      ecosystem: parser.ecosystem,
+      kind: 'unclassified',
+      name: content.length > 80 ? `${content.slice(0, 77)}...` : content,
+      ...(type === 'added' ? { to: content } : { from: content }),
+      line,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Describe a change for violation messages and evidence.
+ */
+export function describeDependencyChange(change: DependencyChange): string {
+  switch (change.kind) {
+    case 'added':
+      return `${change.name}@${change.to}`;
+    case 'removed':
+      return `${change.name}@${change.from}`;
+    case 'upgraded':
+    case 'downgraded':
+    case 'changed':
+      return `${change.name}: ${change.from} -> ${change.to}`;
+    case 'unclassified':
+      return `${change.to !== undefined ? '+' : '-'} ${change.name}`;
+    default:
+      return change.from !== undefined && change.to !== undefined
+        ? `${change.name}: ${change.from} -> ${change.to}`
+        : `${change.name}: ${change.to ?? change.from}`;
+  }
+}
+
+/**
+ * Resolve the severity for a change.
+ * With allowDependencyChanges, BLOCK is capped at WARN.
+ */
+export function dependencyChangeSeverity(
+  change: DependencyChange,
+  options: {
+    severities?: Partial<DependencySeverities>;
+    allowlisted?: boolean;
+    allowDependencyChanges?: boolean;
+  } = {}
+): DependencyRuleSeverity {
+  const severities = { ...DEFAULT_DEPENDENCY_SEVERITIES, ...options.severities };
+
+  let severity: DependencyRuleSeverity;
+  switch (change.kind) {
+    case 'added':
+      severity = options.allowlisted ? severities.addedAllowlisted : severities.added;
+      break;
+    case 'script':
+      severity = change.installScript ? severities.installScript : severities.script;
+      break;
+    case 'unclassified':
+      severity = 'BLOCK';
+      break;
+    case 'upgraded':
+      severity = change.bump === 'major'
+        ? severities.upgradeMajor
+        : change.bump === 'minor' ? severities.upgradeMinor : severities.upgradePatch;
+      break;
+    default:
+      severity = severities[change.kind];
+  }
+
+  return options.allowDependencyChanges && severity === 'BLOCK' ? 'WARN' : severity;
+}
+
+/**
+ * Human-readable violation message for a change.
+ */
+export function dependencyChangeMessage(change: DependencyChange, allowlisted = false): string {
+  switch (change.kind) {
+    case 'added':
+      return `New dependency "${change.name}" added in "${change.file}"${allowlisted ? ' (allowlisted)' : ''}`;
+    case 'removed':
+      return `Dependency "${change.name}" removed from "${change.file}"`;
+    case 'upgraded':
+      return `Dependency "${change.name}" upgraded (${change.bump}) in "${change.file}"`;
+    case 'downgraded':
+      return `Dependency "${change.name}" downgraded (${change.bump}) in "${change.file}"`;
+    case 'changed':
+      return `Dependency "${change.name}" version spec changed in "${change.file}"`;
+    case 'script':
+      return change.installScript
+        ? `Install script "${change.name}" ${change.from === undefined ? 'added' : 'changed'} in "${change.file}"`
+        : `Script "${change.name}" changed in "${change.file}"`;
+    case 'metadata':
+      return `Manifest field "${change.name}" changed in "${change.file}"`;
+    case 'unclassified':
+      return `Unrecognized change in dependency file "${change.file}" - requires review`;
+  }
+}
@@ -17,6 +17,30 @@ export interface ParsedDiff {
   files: DiffFile[];
 }
 
+export interface DiffLine {
+  line: number; // line number in the new file (added) or old file (removed)
+  content: string;
+}
+
+export interface DiffHunkLine {
+  type: 'context' | 'added' | 'removed';
+  content: string;
+  line: number; // new-file line for context/added, old-file line for removed
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: DiffHunkLine[]; // in diff order, including context lines
+}
+
+export interface FileLineChanges {
+  path: string;
+  added: DiffLine[];
+  removed: DiffLine[];
+  hunks: DiffHunk[];
+}
+
 /**
  * Parse a unified diff string and extract file information.
  */
@@ -149,3 +173,89 @@ export function extractTouchedFiles(diff: string): string[] {
 
   return Array.from(paths);
 }
+
+/**
+ * Extract added and removed lines per file from a diff.
+ * Added lines carry new-file line numbers, removed lines old-file line numbers.
+ */
+export function extractLineChanges(diff: string): Map<string, FileLineChanges> {
+  const changes = new Map<string, FileLineChanges>();
+  const lines = diff.split('\n');
+
+  let current: FileLineChanges | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let inHunk = false;
+  let fromGitHeader = false;
+
+  const startFile = (path: string) => {
+    current = changes.get(path) ?? { path, added: [], removed: [], hunks: [] };
+    changes.set(path, current);
+    hunk = null;
+    inHunk = false;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const gitDiffMatch = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+    if (gitDiffMatch) {
+      startFile(gitDiffMatch[2]);
+      fromGitHeader = true;
+      continue;
+    }
+
+    // File header pair (--- / +++) ends any open hunk
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const plusMatch = lines[i + 1].match(/^\+\+\+ (?:b\/)?(.+)$/);
+      const minusMatch = line.match(/^--- (?:a\/)?(.+)$/);
+      // Non-git diffs: take the path from the headers
+      if (!fromGitHeader) {
+        const path = plusMatch && plusMatch[1] !== '/dev/null' ? plusMatch[1] : minusMatch?.[1];
+        if (path) {
+          startFile(path);
+        }
+      }
+      fromGitHeader = false;
+      inHunk = false;
+      i++;
+      continue;
+    }
+
+    const hunkMatch = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)/);
+    if (hunkMatch) {
+      oldLine = parseInt(hunkMatch[1], 10);
+      newLine = parseInt(hunkMatch[2], 10);
+      inHunk = true;
+      hunk = null;
+      if (current) {
+        hunk = { oldStart: oldLine, newStart: newLine, lines: [] };
+        (current as FileLineChanges).hunks.push(hunk);
+      }
+      continue;
+    }
+
+    if (!current || !inHunk) {
+      continue;
+    }
+
+    const file: FileLineChanges = current;
+    const hunkLines = hunk?.lines;
+    if (line.startsWith('+')) {
+      file.added.push({ line: newLine, content: line.slice(1) });
+      hunkLines?.push({ type: 'added', content: line.slice(1), line: newLine });
+      newLine++;
+    } else if (line.startsWith('-')) {
+      file.removed.push({ line: oldLine, content: line.slice(1) });
+      hunkLines?.push({ type: 'removed', content: line.slice(1), line: oldLine });
+      oldLine++;
+    } else if (!line.startsWith('\\')) {
+      hunkLines?.push({ type: 'context', content: line.slice(1), line: newLine });
+      oldLine++;
+      newLine++;
+    }
+  }
+
+  return changes;
+}
@@ -7,20 +7,49 @@
  *
  * Gate2 responsibilities:
  * 1. Evaluate policy results from the policy engine
- * 2. Fail the gate on any BLOCK violations
- * 3. Attach evidence for audit
- * 4. Produce gate result that integrates with transition logic
+ * 2. Fail the gate on any BLOCK violations not covered by a waiver or
+ *    CODEOWNERS approval
+ * 3. Score the diff's blast radius and apply the configured thresholds
+ * 4. Attach evidence for audit
+ * 5. Produce gate result that integrates with transition logic
  */
 
 import type { PrismaClient } from '@prisma/client';
-import { evaluatePolicy, type PolicyConfig, type PolicyResult, type PolicyViolation } from './policy-engine';
+import {
+  evaluatePolicy,
+  createPolicyConfig,
+  DEFAULT_POLICY_CONFIG,
+  type PolicyConfig,
+  type PolicyResult,
+  type PolicyViolation
+} from './policy-engine';
+import { snapshotPolicyConfig, type PolicyConfigSnapshot, type PolicySource } from './policy-file';
+import { globalPolicyRuleRegistry, type PolicyRuleRegistry } from './policy-rules';
+import { applyWaivers, type AppliedWaiver, type PolicyWaiverRecord } from './waivers';
+import {
+  applyCodeownersApprovals,
+  approvedOwnersFromKinds,
+  CODEOWNERS_APPROVAL_KIND_PREFIX
+} from './codeowners';
+import type { DependencyChange } from './dependency-analysis';
+import {
+  blastRadiusViolation,
+  computeBlastRadius,
+  type BlastRadius,
+  type ImportGraph
+} from './blast-radius';
 
 export type GateVerdict = 'PASS' | 'FAIL' | 'WARN';
 
 export interface GateEvidence {
   policyResult: PolicyResult;
   evaluatedAt: string; // ISO timestamp
-  configSnapshot: Partial<PolicyConfig>;
+  configSnapshot: PolicyConfigSnapshot;
+  customRules?: string[]; // ids of custom rules that were evaluated
+  waivers?: AppliedWaiver[]; // waivers that downgraded BLOCK violations to WARN
+  dependencyChanges?: DependencyChange[]; // classified manifest changes
+  approvedOwners?: string[]; // CODEOWNERS owners with a recorded approval
+  blastRadius?: BlastRadius; // score, risk level and contributing factors
 }
 
 export interface Gate2Result {
@@ -37,6 +66,23 @@ export interface Gate2Input {
   patchSetId?: string;
   diff: string;
   config?: Partial<PolicyConfig>;
+  policySource?: PolicySource | null;
+  importGraph?: ImportGraph | null;
+}
+
+export interface Gate2Options {
+  /** Where the config came from (repo policy file), recorded in evidence */
+  policySource?: PolicySource | null;
+  /** Custom rule registry (defaults to the global registry) */
+  rules?: PolicyRuleRegistry;
+  /** Waivers to apply; expired or revoked waivers are ignored */
+  waivers?: PolicyWaiverRecord[];
+  /** Clock used for waiver expiry (defaults to now) */
+  now?: Date;
+  /** CODEOWNERS owners who approved; their codeowners_approval violations become WARN */
+  approvedOwners?: string[];
+  /** Import graph of the repo, used to count dependents of changed modules */
+  importGraph?: ImportGraph | null;
 }
 
 /**
@@ -45,12 +91,45 @@ export interface Gate2Input {
  */
 export function evaluateGate2(
   diff: string,
-  config?: PolicyConfig
+  config?: PolicyConfig,
+  options: Gate2Options = {}
 ): Gate2Result {
-  const policyResult = evaluatePolicy(diff, config);
+  const rules = options.rules ?? globalPolicyRuleRegistry;
+  const policy = evaluatePolicy(diff, config, rules);
+
+  const blastRadius = computeBlastRadius(diff, {
+    config: config?.blastRadius,
+    importGraph: options.importGraph
+  });
+  const radiusViolation = blastRadiusViolation(blastRadius, config?.blastRadius);
+  const evaluated: PolicyResult = !radiusViolation
+    ? policy
+    : {
+        ...policy,
+        violations: [...policy.violations, radiusViolation],
+        hasBlockingViolations: policy.hasBlockingViolations || radiusViolation.severity === 'BLOCK'
+      };
+
+  const approved = applyCodeownersApprovals(evaluated.violations, options.approvedOwners ?? []);
+  const waived = applyWaivers(approved.violations, options.waivers ?? [], options.now);
+  const blockingCount = waived.violations.filter(v => v.severity === 'BLOCK').length;
+  const warningCount = waived.violations.filter(v => v.severity === 'WARN').length;
+
+  const notes = [
+    approved.approved > 0 ? `${approved.approved} approved by code owners` : null,
+    waived.applied.length > 0 ? `${waived.applied.length} waived` : null,
+  ].filter(Boolean).join(', ');
 
-  const blockingCount = policyResult.violations.filter(v => v.severity === 'BLOCK').length;
-  const warningCount = policyResult.violations.filter(v => v.severity === 'WARN').length;
+  const policyResult: PolicyResult = !notes && !radiusViolation
+    ? evaluated
+    : {
+        ...evaluated,
+        violations: waived.violations,
+        hasBlockingViolations: blockingCount > 0,
+        summary: blockingCount > 0
+          ? `Policy check FAILED: ${blockingCount} blocking violation(s)${notes ? `, ${notes}` : ''}`
+          : `Policy check PASSED with ${warningCount} warning(s)${notes ? `, ${notes}` : ''}`
+      };
 
   let verdict: GateVerdict;
   if (blockingCount > 0) {
@@ -76,13 +155,12 @@ export function evaluateGate2(
     evidence: {
       policyResult,
       evaluatedAt: new Date().toISOString(),
-      configSnapshot: config ? {
-        frozenFiles: config.frozenFiles,
-        denyGlobs: config.denyGlobs,
-        dependencyFiles: config.dependencyFiles,
-        allowDependencyChanges: config.allowDependencyChanges,
-        // Note: secretPatterns excluded from snapshot (RegExp not serializable)
-      } : {}
+      configSnapshot: snapshotPolicyConfig(config ?? DEFAULT_POLICY_CONFIG, options.policySource),
+      customRules: rules.getAll().map(r => r.id),
+      waivers: waived.applied,
+      dependencyChanges: evaluated.dependencyChanges ?? [],
+      approvedOwners: options.approvedOwners ?? [],
+      blastRadius
     }
   };
 }
@@ -91,43 +169,90 @@ export function evaluateGate2(
  * Gate2 service for persisting violations and gate results.
  */
 export class Gate2Service {
-  constructor(private readonly prisma: PrismaClient) {}
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly rules: PolicyRuleRegistry = globalPolicyRuleRegistry
+  ) {}
 
   /**
-   * Evaluate Gate2 and persist violations to the database.
+   * Evaluate Gate2 and persist violations to the database, replacing the
+   * violations of an earlier evaluation of the same workflow and PatchSet
+   * in one transaction.
+   * Active waivers for the workflow downgrade matching BLOCK violations to WARN.
    * Returns the gate result and persisted violation IDs.
    */
   async evaluateAndPersist(input: Gate2Input): Promise<{
     result: Gate2Result;
     violationIds: string[];
   }> {
-    const result = evaluateGate2(input.diff, input.config as PolicyConfig | undefined);
+    const now = new Date();
+    const waivers = await this.getActiveWaivers(input.workflowId, now);
+    const approvedOwners = await this.getApprovedOwners(input.workflowId);
+
+    const result = evaluateGate2(
+      input.diff,
+      input.config ? createPolicyConfig(input.config) : undefined,
+      {
+        policySource: input.policySource,
+        rules: this.rules,
+        waivers,
+        now,
+        approvedOwners,
+        importGraph: input.importGraph
+      }
+    );
 
     // Persist violations to database
-    const violationIds: string[] = [];
-
-    if (result.violations.length > 0) {
-      const createMany = result.violations.map(v => ({
-        workflowId: input.workflowId,
-        patchSetId: input.patchSetId,
-        rule: v.rule,
-        severity: v.severity,
-        file: v.file,
-        message: v.message,
-        line: v.line,
-        evidence: v.evidence,
-      }));
+    const violationIds = await this.prisma.$transaction(async tx => {
+      await tx.policyViolation.deleteMany({
+        where: { workflowId: input.workflowId, patchSetId: input.patchSetId ?? null }
+      });
 
       // Create violations one by one to get IDs
-      for (const data of createMany) {
-        const created = await this.prisma.policyViolation.create({ data });
-        violationIds.push(created.id);
+      const ids: string[] = [];
+      for (const v of result.violations) {
+        const created = await tx.policyViolation.create({
+          data: {
+            workflowId: input.workflowId,
+            patchSetId: input.patchSetId,
+            rule: v.rule,
+            severity: v.severity,
+            file: v.file,
+            message: v.message,
+            line: v.line,
+            evidence: v.evidence,
+            evidenceHash: v.evidenceHash,
+            waiverId: v.waiverId,
+          }
+        });
+        ids.push(created.id);
       }
-    }
+      return ids;
+    });
 
     return { result, violationIds };
   }
 
+  /**
+   * Get waivers for a workflow that are neither expired nor revoked.
+   */
+  async getActiveWaivers(workflowId: string, now: Date = new Date()): Promise<PolicyWaiverRecord[]> {
+    return this.prisma.policyWaiver.findMany({
+      where: { workflowId, revokedAt: null, expiresAt: { gt: now } },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Get CODEOWNERS owners with a recorded approval for a workflow.
+   */
+  async getApprovedOwners(workflowId: string): Promise<string[]> {
+    const approvals = await this.prisma.approval.findMany({
+      where: { workflowId, kind: { startsWith: CODEOWNERS_APPROVAL_KIND_PREFIX } }
+    });
+    return approvedOwnersFromKinds(approvals.map(a => a.kind));
+  }
+
   /**
    * Get violations for a workflow.
    */
@@ -143,7 +268,8 @@ export class Gate2Service {
       file: v.file,
       message: v.message,
       line: v.line ?? undefined,
-      evidence: v.evidence ?? undefined
+      evidence: v.evidence ?? undefined,
+      waiverId: v.waiverId ?? undefined
     }));
   }
 
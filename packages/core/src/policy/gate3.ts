@@ -3,13 +3,18 @@
  *
  * This module handles:
  * 1. Mapping CI events to workflow state changes
- * 2. Evaluating quality gates (CI, coverage, etc.)
+ * 2. Evaluating quality gates (CI, plus the workflow's QUALITY_GATES
+ *    artifact: tests, coverage, lint, security scan, review - see quality-gates)
  * 3. Recording CI evidence (logs, artifacts)
  * 4. Triggering transitions to terminal states (DONE / NEEDS_HUMAN)
  */
 
 import type { PrismaClient } from '@prisma/client';
 import type { TransitionEvent } from '../workflow/states';
+import type { GitHubClient } from '../github/github-client';
+import type { QualityGatesArtifact } from '../prd/prd-pipeline';
+import { qualityGatesFromArtifact } from './quality-gates';
+import { CIReportService, summarizeCIReport } from '../ci/ci-report';
 
 // ============================================================================
 // Types
@@ -17,7 +22,8 @@ import type { TransitionEvent } from '../workflow/states';
 
 export type CIConclusion = 'success' | 'failure' | 'cancelled' | 'skipped' | 'neutral' | 'timed_out' | 'action_required';
 
-export type CIEventSource = 'check_suite' | 'workflow_run' | 'check_run' | 'status';
+// 'pipeline' is a GitLab pipeline; its ID is the workflow run ID
+export type CIEventSource = 'check_suite' | 'workflow_run' | 'check_run' | 'status' | 'pipeline';
 
 export interface CIEventInput {
   source: CIEventSource;
@@ -27,6 +33,10 @@ export interface CIEventInput {
   repo: string;
   webhookId?: string;
 
+  // Set when the caller already knows the workflow (CI poller); skips the
+  // lookup by head SHA
+  workflowId?: string;
+
   // Source-specific IDs
   checkSuiteId?: number;
   workflowRunId?: number;
@@ -49,9 +59,45 @@ export interface QualityGateResult {
   name: string;
   passed: boolean;
   reason: string;
+  required?: boolean; // set by Gate3Service when recording evidence
   evidence?: any;
 }
 
+/**
+ * Conclusion of a check run on the head commit.
+ */
+export interface CICheckEvidence {
+  name: string;
+  conclusion: string | null;
+  url?: string;
+}
+
+/**
+ * Conclusion of a single step of a workflow run job.
+ */
+export interface CIStepEvidence {
+  job: string;
+  step: string;
+  conclusion: string | null;
+}
+
+/**
+ * Summary of report artifacts uploaded by CI (JUnit, lcov, SARIF).
+ */
+export interface CIReportSummary {
+  tests?: { total: number; failed: number; skipped: number; failedTests?: string[] };
+  coverage?: { lines: number; deltaPct?: number };  // line coverage, percent
+  staticAnalysis?: { errors: number; warnings: number; notes: number; newFindings?: number };
+}
+
+/**
+ * Evidence Gate3 cannot read from the CI event itself.
+ */
+export interface Gate3Context {
+  reports?: CIReportSummary;
+  reviewApproved?: boolean;
+}
+
 export interface CIEvidence {
   workflowId: string;
   prNumber?: number;
@@ -67,6 +113,12 @@ export interface CIEvidence {
   workflowRunUrl?: string;
   commitUrl?: string;
 
+  // Evidence read by quality gates
+  checkRuns?: CICheckEvidence[];
+  jobSteps?: CIStepEvidence[];
+  reports?: CIReportSummary;
+  reviewApproved?: boolean;
+
   // Quality gate results
   gateResults: QualityGateResult[];
 }
@@ -107,7 +159,8 @@ export const defaultQualityGates: QualityGate[] = [
 export class Gate3Service {
   constructor(
     private readonly prisma: PrismaClient,
-    private readonly qualityGates: QualityGate[] = defaultQualityGates
+    private readonly qualityGates: QualityGate[] = defaultQualityGates,
+    private readonly github?: Pick<GitHubClient, 'listCheckRuns' | 'getWorkflowRunJobs' | 'downloadWorkflowRunArtifacts'>
   ) {}
 
   /**
@@ -153,15 +206,32 @@ export class Gate3Service {
 
   /**
    * Process a CI event and evaluate quality gates.
+   * Gates from the workflow's QUALITY_GATES artifact run after the
+   * service's own gates.
+   * Returns null when no workflow matches, or when the event's webhook
+   * delivery was already recorded (redeliveries and replays).
    */
-  async processCIEvent(input: CIEventInput): Promise<Gate3Result | null> {
+  async processCIEvent(input: CIEventInput, context: Gate3Context = {}): Promise<Gate3Result | null> {
     // Find associated workflow
-    const workflowId = await this.findWorkflowForCIEvent(input);
+    const workflowId = input.workflowId ?? await this.findWorkflowForCIEvent(input);
 
     if (!workflowId) {
       return null;
     }
 
+    if (input.webhookId) {
+      const recorded = await this.prisma.workflowEvent.findFirst({
+        where: {
+          workflowId,
+          type: 'E_CI_COMPLETED',
+          payload: { path: ['webhookId'], equals: input.webhookId }
+        }
+      });
+      if (recorded) {
+        return null;
+      }
+    }
+
     // Get workflow with PR
     const workflow = await this.prisma.workflow.findUnique({
       where: { id: workflowId },
@@ -180,15 +250,16 @@ export class Gate3Service {
 
     // Build CI evidence
     const evidence = this.buildEvidence(workflowId, input, workflow.pullRequests[0]?.number);
+    await this.collectEvidence(evidence, input);
+    evidence.reports = context.reports ?? await this.collectReports(workflowId, input);
+    evidence.reviewApproved = context.reviewApproved ?? reviewApprovedFromState(workflow.pullRequests[0]?.reviewState);
 
     // Evaluate quality gates
-    const gateResults = this.evaluateGates(evidence);
+    const gates = [...this.qualityGates, ...await this.loadWorkflowGates(workflowId)];
+    const gateResults = this.evaluateGates(gates, evidence);
 
     // Determine if passed
-    const requiredGates = gateResults.filter((r) =>
-      this.qualityGates.find((g) => g.name === r.name)?.required
-    );
-    const passed = requiredGates.every((r) => r.passed);
+    const passed = gateResults.every((r) => !r.required || r.passed);
 
     // Update evidence with gate results
     evidence.gateResults = gateResults;
@@ -196,8 +267,10 @@ export class Gate3Service {
     // Record CI evidence
     await this.recordEvidence(workflowId, evidence, input);
 
-    // Create transition event
-    const transitionEvent = this.createTransitionEvent(input.conclusion);
+    // Create transition event; failed required gates fail a green CI run
+    const transitionEvent = this.createTransitionEvent(
+      input.conclusion === 'success' && !passed ? 'failure' : input.conclusion
+    );
 
     return {
       workflowId,
@@ -227,6 +300,13 @@ export class Gate3Service {
       gateResults: []
     };
 
+    // GitLab pipelines link to themselves; the commit lives in the same project
+    if (input.source === 'pipeline' && input.url) {
+      evidence.workflowRunUrl = input.url;
+      evidence.commitUrl = input.url.replace(/\/-\/pipelines\/\d+$/, `/-/commit/${input.headSha}`);
+      return evidence;
+    }
+
     // Add evidence URLs based on source
     if (input.checkSuiteId) {
       evidence.checkSuiteUrl = `https://github.com/${input.owner}/${input.repo}/runs/${input.checkSuiteId}`;
@@ -241,11 +321,95 @@ export class Gate3Service {
     return evidence;
   }
 
+  /**
+   * Read check run and job step conclusions for the head commit.
+   * Missing evidence is left unset; gates that need it fail with a reason.
+   */
+  private async collectEvidence(evidence: CIEvidence, input: CIEventInput): Promise<void> {
+    if (!this.github) {
+      return;
+    }
+
+    try {
+      const { checkRuns } = await this.github.listCheckRuns({
+        owner: input.owner,
+        repo: input.repo,
+        ref: input.headSha
+      });
+      evidence.checkRuns = checkRuns.map((run) => ({
+        name: run.name,
+        conclusion: run.conclusion ?? null,
+        url: run.htmlUrl
+      }));
+    } catch {
+      // Check runs unavailable - gates fall back to other evidence
+    }
+
+    if (input.workflowRunId) {
+      try {
+        const { jobs } = await this.github.getWorkflowRunJobs({
+          owner: input.owner,
+          repo: input.repo,
+          runId: input.workflowRunId
+        });
+        evidence.jobSteps = jobs.flatMap((job) =>
+          (job.steps ?? []).map((step) => ({
+            job: job.name,
+            step: step.name,
+            conclusion: step.conclusion ?? null
+          }))
+        );
+      } catch {
+        // Jobs unavailable - gates fall back to other evidence
+      }
+    }
+  }
+
+  /**
+   * Ingest the run's report artifacts (JUnit, coverage, SARIF) into a
+   * CIReportV1 artifact and summarize them.
+   */
+  private async collectReports(workflowId: string, input: CIEventInput): Promise<CIReportSummary | undefined> {
+    if (!this.github || !input.workflowRunId) {
+      return undefined;
+    }
+
+    try {
+      const report = await new CIReportService(this.prisma, this.github).ingest({
+        workflowId,
+        owner: input.owner,
+        repo: input.repo,
+        runId: input.workflowRunId,
+        headSha: input.headSha
+      });
+      return report ? summarizeCIReport(report) : undefined;
+    } catch {
+      // Reports unavailable - gates fall back to check runs
+      return undefined;
+    }
+  }
+
+  /**
+   * Load gates from the workflow's latest QUALITY_GATES artifact.
+   */
+  private async loadWorkflowGates(workflowId: string): Promise<QualityGate[]> {
+    const artifact = await this.prisma.artifact.findFirst({
+      where: { workflowId, kind: 'QUALITY_GATES' },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!artifact) {
+      return [];
+    }
+
+    return qualityGatesFromArtifact(JSON.parse(artifact.content) as QualityGatesArtifact);
+  }
+
   /**
    * Evaluate all quality gates.
    */
-  private evaluateGates(evidence: CIEvidence): QualityGateResult[] {
-    return this.qualityGates.map((gate) => gate.evaluator(evidence));
+  private evaluateGates(gates: QualityGate[], evidence: CIEvidence): QualityGateResult[] {
+    return gates.map((gate) => ({ ...gate.evaluator(evidence), required: gate.required }));
   }
 
   /**
@@ -446,3 +610,13 @@ export function isCIConclusionTerminal(conclusion: CIConclusion): boolean {
 export function isCISuccess(conclusion: CIConclusion): boolean {
   return conclusion === 'success';
 }
+
+/**
+ * Review approval from PullRequest.reviewState (the latest submitted review).
+ * Undefined when no review has been submitted, which leaves the
+ * review_approved gate without evidence.
+ */
+export function reviewApprovedFromState(reviewState: string | null | undefined): boolean | undefined {
+  if (!reviewState) return undefined;
+  return reviewState === 'approved';
+}
@@ -0,0 +1,233 @@
+/**
+ * Glob Matching
+ *
+ * Shared by policy path rules (denyGlobs, frozenFiles, secretAllowGlobs,
+ * CODEOWNERS) and agent file patterns.
+ *
+ * Supported syntax:
+ * - `*`       any characters except `/`
+ * - `**`      any number of path segments, including none
+ * - `?`       one character except `/`
+ * - `[abc]`, `[a-z]`, `[!abc]` / `[^abc]`  character classes
+ * - `{a,b}`   alternatives (may nest)
+ * - `!pat`    negation
+ * - `\x`      escapes a special character
+ *
+ * Dotfiles are matched like any other file.
+ */
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+const REGEX_SPECIAL = /[.*+?^${}()|[\]\\/]/;
+
+function escapeRegexChar(ch: string): string {
+  return REGEX_SPECIAL.test(ch) ? `\\${ch}` : ch;
+}
+
+/**
+ * Find the `}` closing the brace at `start`, or -1 when unbalanced.
+ */
+function findClosingBrace(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split brace contents on top-level commas.
+ */
+function splitAlternatives(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '\\') {
+      current += ch + (body[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Convert a character class starting at `start` (the `[`).
+ * Returns null when the class is not closed, so `[` is taken literally.
+ */
+function convertClass(pattern: string, start: number): { source: string; end: number } | null {
+  let i = start + 1;
+  let negated = false;
+  if (pattern[i] === '!' || pattern[i] === '^') {
+    negated = true;
+    i++;
+  }
+
+  let body = '';
+  // A leading ] is part of the class
+  if (pattern[i] === ']') {
+    body += '\\]';
+    i++;
+  }
+
+  for (; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === ']') {
+      // Classes never match a path separator
+      return { source: negated ? `[^/${body}]` : `[${body}]`, end: i };
+    }
+    if (ch === '\\') {
+      body += `\\${pattern[i + 1] ?? '\\'}`;
+      i++;
+    } else if (ch === '-') {
+      body += '-';
+    } else {
+      body += /[\]\\^]/.test(ch) ? `\\${ch}` : ch;
+    }
+  }
+  return null;
+}
+
+function convert(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+
+    switch (ch) {
+      case '\\':
+        source += escapeRegexChar(pattern[i + 1] ?? '\\');
+        i++;
+        break;
+
+      case '*': {
+        if (pattern[i + 1] !== '*') {
+          source += '[^/]*';
+          break;
+        }
+        const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+        i++;
+        if (atSegmentStart && pattern[i + 1] === '/') {
+          source += '(?:.*/)?'; // "**/" matches zero or more directories
+          i++;
+        } else {
+          source += '.*';
+        }
+        break;
+      }
+
+      case '?':
+        source += '[^/]';
+        break;
+
+      case '[': {
+        const cls = convertClass(pattern, i);
+        if (cls) {
+          source += cls.source;
+          i = cls.end;
+        } else {
+          source += '\\[';
+        }
+        break;
+      }
+
+      case '{': {
+        const end = findClosingBrace(pattern, i);
+        const alternatives = end === -1 ? [] : splitAlternatives(pattern.slice(i + 1, end));
+        if (alternatives.length < 2) {
+          source += '\\{';
+          break;
+        }
+        source += `(?:${alternatives.map(convert).join('|')})`;
+        i = end;
+        break;
+      }
+
+      default:
+        source += escapeRegexChar(ch);
+    }
+  }
+
+  return source;
+}
+
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Compile a glob (without a leading `!`) to an anchored RegExp.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = compiled.get(pattern);
+  if (!regex) {
+    regex = new RegExp(`^${convert(pattern)}$`);
+    compiled.set(pattern, regex);
+  }
+  return regex;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+export function isNegatedGlob(pattern: string): boolean {
+  return pattern.startsWith('!');
+}
+
+/**
+ * Match a path against a single glob. A negated glob matches every path
+ * the rest of the pattern does not.
+ */
+export function matchGlob(pattern: string, path: string): boolean {
+  if (isNegatedGlob(pattern)) {
+    return !globToRegExp(pattern.slice(1)).test(path);
+  }
+  return globToRegExp(pattern).test(path);
+}
+
+/**
+ * Match a path against a list of globs, evaluated in order like
+ * .gitignore: a negated glob excludes paths matched by earlier globs.
+ * A list of only negated globs matches everything they don't exclude.
+ *
+ * Returns the glob that decided the match, or null when nothing matches.
+ */
+export function matchesAnyGlob(path: string, patterns: string[]): string | null {
+  if (patterns.length === 0) {
+    return null;
+  }
+
+  let matched: string | null = patterns.every(isNegatedGlob) ? patterns[0] : null;
+  for (const pattern of patterns) {
+    if (isNegatedGlob(pattern)) {
+      if (matched && globToRegExp(pattern.slice(1)).test(path)) {
+        matched = null;
+      }
+    } else if (!matched && globToRegExp(pattern).test(path)) {
+      matched = pattern;
+    }
+  }
+  return matched;
+}
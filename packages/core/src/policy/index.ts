@@ -1,5 +1,15 @@
 export * from './diff-parser';
+export * from './glob';
 export * from './policy-engine';
+export * from './policy-file';
+export * from './policy-rules';
+export * from './secret-scanner';
+export * from './dependency-analysis';
+export * from './dependency-advisories';
+export * from './codeowners';
+export * from './blast-radius';
+export * from './waivers';
 export * from './gate2';
 export * from './gate3';
+export * from './quality-gates';
 export * from './write-gate';
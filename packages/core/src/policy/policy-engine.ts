@@ -4,23 +4,53 @@
  * Evaluates diffs against security policies to block unsafe changes.
  *
  * Rules:
- * - Frozen files: explicit list of files that cannot be modified
+ * - Frozen files: files (or globs) that cannot be modified
  * - Deny globs: patterns that match forbidden paths
- * - Secrets detection: patterns that match secrets/credentials
- * - Dependency changes: detects package.json/lock file modifications
+ * - CODEOWNERS: paths owned by protected owners need an explicit approval
+ * - Secrets detection: provider detectors, patterns and entropy (see secret-scanner)
+ * - Dependency changes: classifies manifest changes (see dependency-analysis);
+ *   lockfiles and unsupported manifests fall back to dependency_change
+ *
+ * Blast-radius thresholds (blastRadius) are applied by Gate2, which may
+ * have the repo's import graph (see blast-radius).
+ *
+ * Custom rules registered in a PolicyRuleRegistry run after the built-ins.
  */
 
-import { parseDiff, type DiffFile, type ParsedDiff } from './diff-parser';
+import { parseDiff, extractLineChanges, type FileLineChanges, type ParsedDiff } from './diff-parser';
+import { matchesAnyGlob } from './glob';
+import { findProtectedOwners, type CodeownersRule } from './codeowners';
+import {
+  globalPolicyRuleRegistry,
+  type PolicyRuleFile,
+  type PolicyRuleId,
+  type PolicyRuleRegistry
+} from './policy-rules';
+import { DEFAULT_ENTROPY_THRESHOLD, redactLine, scanLineForSecrets } from './secret-scanner';
+import { hashViolationEvidence } from './waivers';
+import {
+  analyzeManifestChanges,
+  dependencyChangeMessage,
+  dependencyChangeSeverity,
+  describeDependencyChange,
+  isAnalyzableManifest,
+  DEPENDENCY_RULE_IDS,
+  type DependencyChange,
+  type DependencySeverities
+} from './dependency-analysis';
+import type { BlastRadiusConfig } from './blast-radius';
 
 export type ViolationSeverity = 'WARN' | 'BLOCK';
 
 export interface PolicyViolation {
-  rule: string;
+  rule: PolicyRuleId;
   severity: ViolationSeverity;
   file: string;
   message: string;
   line?: number;
   evidence?: string;
+  evidenceHash?: string; // fingerprint of unredacted evidence (secrets), matched by waivers
+  waiverId?: string; // set when a waiver downgraded this violation from BLOCK
 }
 
 export interface PolicyConfig {
@@ -29,12 +59,20 @@ export interface PolicyConfig {
   secretPatterns: RegExp[];
   dependencyFiles: string[];
   allowDependencyChanges: boolean;
+  secretAllowGlobs?: string[];      // paths exempt from entropy detection (fixtures, lockfiles)
+  secretEntropyThreshold?: number;  // bits/char for entropy detection
+  dependencyAllowlist?: string[];   // package name globs that may be added with a WARN
+  dependencySeverities?: Partial<DependencySeverities>;
+  protectedOwners?: string[];       // CODEOWNERS owners whose paths need an explicit approval
+  codeowners?: CodeownersRule[];    // parsed CODEOWNERS of the target repo
+  blastRadius?: Partial<BlastRadiusConfig>; // score thresholds and entrypoint/config globs
 }
 
 export interface PolicyResult {
   violations: PolicyViolation[];
   hasBlockingViolations: boolean;
   summary: string;
+  dependencyChanges?: DependencyChange[];
 }
 
 /**
@@ -94,81 +132,87 @@ export const DEFAULT_POLICY_CONFIG: PolicyConfig = {
     'go.sum',
     'Cargo.toml',
     'Cargo.lock',
+    'pyproject.toml',
   ],
   allowDependencyChanges: false,
+  secretAllowGlobs: [
+    '**/__fixtures__/**',
+    '**/fixtures/**',
+    '**/testdata/**',
+    '**/__snapshots__/**',
+    'package-lock.json',
+    '**/package-lock.json',
+    'yarn.lock',
+    '**/yarn.lock',
+    'pnpm-lock.yaml',
+    '**/pnpm-lock.yaml',
+    'go.sum',
+    '**/go.sum',
+  ],
+  secretEntropyThreshold: DEFAULT_ENTROPY_THRESHOLD,
+  dependencyAllowlist: [],
+  protectedOwners: [],
+  codeowners: [],
 };
 
-/**
- * Simple glob matcher supporting * and ** patterns.
- */
-function matchGlob(pattern: string, path: string): boolean {
-  // Escape regex special chars except * and **
-  let regexStr = pattern
-    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-    .replace(/\*\*/g, '{{GLOBSTAR}}')
-    .replace(/\*/g, '[^/]*')
-    .replace(/\{\{GLOBSTAR\}\}/g, '.*');
-
-  // Anchor the pattern
-  regexStr = `^${regexStr}$`;
-
-  return new RegExp(regexStr).test(path);
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
 }
 
 /**
- * Check if a file matches any of the patterns.
+ * Check if a file matches any of the patterns (see glob.ts for syntax).
  */
 function matchesAnyPattern(file: string, patterns: string[]): string | null {
-  for (const pattern of patterns) {
-    if (matchGlob(pattern, file)) {
-      return pattern;
-    }
-  }
-  return null;
+  return matchesAnyGlob(file, patterns);
 }
 
 /**
- * Extract added lines from a diff for a specific file.
+ * Run registered custom rules and convert their findings to violations.
+ * A rule that throws produces a BLOCK violation so failures never pass silently.
  */
-function extractAddedLines(diff: string, filePath: string): { line: number; content: string }[] {
-  const lines = diff.split('\n');
-  const addedLines: { line: number; content: string }[] = [];
-
-  let inTargetFile = false;
-  let currentLineNum = 0;
-
-  for (const line of lines) {
-    // Check for diff header
-    if (line.startsWith('diff --git')) {
-      inTargetFile = line.includes(`b/${filePath}`);
-      continue;
-    }
+function evaluateCustomRules(
+  raw: string,
+  parsed: ParsedDiff,
+  lineChanges: Map<string, FileLineChanges>,
+  config: PolicyConfig,
+  rules: PolicyRuleRegistry
+): PolicyViolation[] {
+  const registered = rules.getAll();
+  if (registered.length === 0) {
+    return [];
+  }
 
-    // Check for hunk header
-    const hunkMatch = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)/);
-    if (hunkMatch) {
-      currentLineNum = parseInt(hunkMatch[1], 10);
-      continue;
-    }
+  const files: PolicyRuleFile[] = parsed.files.map(file => ({
+    file,
+    addedLines: lineChanges.get(file.path)?.added ?? [],
+    removedLines: lineChanges.get(file.path)?.removed ?? [],
+  }));
 
-    // Track line numbers in the new file
-    if (inTargetFile) {
-      if (line.startsWith('+') && !line.startsWith('+++')) {
-        addedLines.push({
-          line: currentLineNum,
-          content: line.slice(1)
+  const violations: PolicyViolation[] = [];
+  for (const rule of registered) {
+    try {
+      for (const finding of rule.evaluate({ raw, diff: parsed, files, config })) {
+        violations.push({
+          rule: rule.id,
+          severity: finding.severity ?? rule.defaultSeverity,
+          file: finding.file,
+          message: finding.message,
+          line: finding.line,
+          evidence: finding.evidence,
         });
-        currentLineNum++;
-      } else if (line.startsWith('-') && !line.startsWith('---')) {
-        // Deleted lines don't increment new file line number
-      } else if (!line.startsWith('\\')) {
-        // Context lines increment line number
-        currentLineNum++;
       }
+    } catch (err) {
+      violations.push({
+        rule: rule.id,
+        severity: 'BLOCK',
+        file: '',
+        message: `Policy rule "${rule.id}" failed: ${err instanceof Error ? err.message : String(err)}`,
+      });
     }
   }
 
-  return addedLines;
+  return violations;
 }
 
 /**
@@ -176,14 +220,27 @@ function extractAddedLines(diff: string, filePath: string): { line: number; cont
  */
 export function evaluatePolicy(
   diff: string,
-  config: PolicyConfig = DEFAULT_POLICY_CONFIG
+  config: PolicyConfig = DEFAULT_POLICY_CONFIG,
+  rules: PolicyRuleRegistry = globalPolicyRuleRegistry
 ): PolicyResult {
   const violations: PolicyViolation[] = [];
+  const dependencyChanges: DependencyChange[] = [];
   const parsed = parseDiff(diff);
+  const lineChanges = extractLineChanges(diff);
+
+  const isDependencyFile = (path: string) => config.dependencyFiles.some(
+    (depFile) => path === depFile || path.endsWith(`/${depFile}`)
+  );
+  // Directories whose manifest changed - lockfile updates there are expected
+  const manifestDirs = new Set(
+    parsed.files
+      .filter(f => isDependencyFile(f.path) && isAnalyzableManifest(f.path))
+      .map(f => dirname(f.path))
+  );
 
   for (const file of parsed.files) {
     // Check frozen files (BLOCK)
-    if (config.frozenFiles.includes(file.path)) {
+    if (matchesAnyPattern(file.path, config.frozenFiles)) {
       violations.push({
         rule: 'frozen_file',
         severity: 'BLOCK',
@@ -193,7 +250,7 @@ export function evaluatePolicy(
     }
 
     // Also check oldPath for renames
-    if (file.oldPath && config.frozenFiles.includes(file.oldPath)) {
+    if (file.oldPath && matchesAnyPattern(file.oldPath, config.frozenFiles)) {
       violations.push({
         rule: 'frozen_file',
         severity: 'BLOCK',
@@ -214,38 +271,93 @@ export function evaluatePolicy(
       });
     }
 
-    // Check dependency files (WARN unless allowDependencyChanges is false, then BLOCK)
-    const isDependencyFile = config.dependencyFiles.some(
-      (depFile) => file.path === depFile || file.path.endsWith(`/${depFile}`)
-    );
-    if (isDependencyFile) {
-      violations.push({
-        rule: 'dependency_change',
-        severity: config.allowDependencyChanges ? 'WARN' : 'BLOCK',
-        file: file.path,
-        message: `Dependency file "${file.path}" was modified - requires review`,
-      });
+    // Check CODEOWNERS-protected paths (BLOCK until an owner approves)
+    if (config.protectedOwners?.length && config.codeowners?.length) {
+      for (const path of new Set([file.path, file.oldPath ?? file.path])) {
+        const owners = findProtectedOwners(config.codeowners, config.protectedOwners, path);
+        if (owners.length > 0) {
+          violations.push({
+            rule: 'codeowners_approval',
+            severity: 'BLOCK',
+            file: path,
+            message: `File "${path}" is owned by ${owners.join(', ')} and needs their approval`,
+            evidence: owners.join(' '),
+          });
+        }
+      }
     }
 
-    // Check for secrets in added lines (BLOCK)
-    const addedLines = extractAddedLines(diff, file.path);
-    for (const { line, content } of addedLines) {
-      for (const pattern of config.secretPatterns) {
-        if (pattern.test(content)) {
+    // Check dependency files: manifests are classified per change,
+    // lockfiles and other dependency files are flagged as a whole
+    if (isDependencyFile(file.path)) {
+      const changes = analyzeManifestChanges(
+        lineChanges.get(file.path) ?? { path: file.path, added: [], removed: [], hunks: [] }
+      );
+
+      if (changes) {
+        dependencyChanges.push(...changes);
+        for (const change of changes) {
+          const allowlisted = change.kind === 'added' &&
+            matchesAnyPattern(change.name, config.dependencyAllowlist ?? []) !== null;
+          const severity = dependencyChangeSeverity(change, {
+            severities: config.dependencySeverities,
+            allowlisted,
+            allowDependencyChanges: config.allowDependencyChanges,
+          });
+          if (severity === 'ALLOW') {
+            continue;
+          }
           violations.push({
-            rule: 'secret_detected',
-            severity: 'BLOCK',
+            rule: DEPENDENCY_RULE_IDS[change.kind],
+            severity,
             file: file.path,
-            line,
-            message: `Potential secret or credential detected in "${file.path}"`,
-            evidence: content.slice(0, 50) + (content.length > 50 ? '...' : ''),
+            line: change.line,
+            message: dependencyChangeMessage(change, allowlisted),
+            evidence: describeDependencyChange(change),
           });
-          break; // Only report one secret per line
         }
+      } else {
+        // Lockfile updated alongside its manifest: WARN; on its own: BLOCK
+        const withManifest = manifestDirs.has(dirname(file.path));
+        violations.push({
+          rule: 'dependency_change',
+          severity: config.allowDependencyChanges || withManifest ? 'WARN' : 'BLOCK',
+          file: file.path,
+          message: withManifest
+            ? `Dependency file "${file.path}" was updated alongside its manifest`
+            : `Dependency file "${file.path}" was modified - requires review`,
+        });
+      }
+    }
+
+    // Check for secrets in added lines (BLOCK). Allowlisted paths still get
+    // detectors and patterns; only the entropy heuristic is skipped there.
+    const entropy = !matchesAnyPattern(file.path, config.secretAllowGlobs ?? []);
+    for (const { line, content } of lineChanges.get(file.path)?.added ?? []) {
+      const secrets = scanLineForSecrets(content, {
+        patterns: config.secretPatterns,
+        entropy,
+        entropyThreshold: config.secretEntropyThreshold,
+      });
+      if (secrets.length > 0) {
+        // Only report one secret per line, but redact all of them
+        const redacted = redactLine(content.trim(), secrets);
+        violations.push({
+          rule: 'secret_detected',
+          severity: 'BLOCK',
+          file: file.path,
+          line,
+          message: `Potential ${secrets[0].description} detected in "${file.path}"`,
+          evidence: redacted.slice(0, 80) + (redacted.length > 80 ? '...' : ''),
+          // Redacted, truncated evidence can repeat across different secrets
+          evidenceHash: hashViolationEvidence(secrets.map(s => s.value).join('\n')),
+        });
       }
     }
   }
 
+  violations.push(...evaluateCustomRules(diff, parsed, lineChanges, config, rules));
+
   const hasBlockingViolations = violations.some((v) => v.severity === 'BLOCK');
 
   const summary = hasBlockingViolations
@@ -258,6 +370,7 @@ export function evaluatePolicy(
     violations,
     hasBlockingViolations,
     summary,
+    dependencyChanges,
   };
 }
 
@@ -273,5 +386,12 @@ export function createPolicyConfig(
     secretPatterns: overrides.secretPatterns ?? DEFAULT_POLICY_CONFIG.secretPatterns,
     dependencyFiles: overrides.dependencyFiles ?? DEFAULT_POLICY_CONFIG.dependencyFiles,
     allowDependencyChanges: overrides.allowDependencyChanges ?? DEFAULT_POLICY_CONFIG.allowDependencyChanges,
+    secretAllowGlobs: overrides.secretAllowGlobs ?? DEFAULT_POLICY_CONFIG.secretAllowGlobs,
+    secretEntropyThreshold: overrides.secretEntropyThreshold ?? DEFAULT_POLICY_CONFIG.secretEntropyThreshold,
+    dependencyAllowlist: overrides.dependencyAllowlist ?? DEFAULT_POLICY_CONFIG.dependencyAllowlist,
+    dependencySeverities: overrides.dependencySeverities ?? DEFAULT_POLICY_CONFIG.dependencySeverities,
+    protectedOwners: overrides.protectedOwners ?? DEFAULT_POLICY_CONFIG.protectedOwners,
+    codeowners: overrides.codeowners ?? DEFAULT_POLICY_CONFIG.codeowners,
+    blastRadius: overrides.blastRadius ?? DEFAULT_POLICY_CONFIG.blastRadius,
   };
 }
@@ -0,0 +1,334 @@
+/**
+ * Policy-as-code file support.
+ *
+ * Each target repository may commit a versioned policy file
+ * (`.orchestrator/policy.yml`) that tightens or tunes the org defaults.
+ * The file is read at the repo's baseSha, validated against a schema,
+ * and merged with the org defaults to produce the effective PolicyConfig.
+ *
+ * Merge rules - a repo can tighten the org defaults, never loosen them:
+ * - List fields (frozenFiles, denyGlobs, dependencyFiles, secretPatterns)
+ *   are unioned with the defaults: a repo can add rules, never remove them.
+ * - secretAllowGlobs and dependencyAllowlist are unioned too, so a repo can
+ *   exempt its own fixtures from entropy detection and pre-approve the
+ *   packages it uses (WARN instead of BLOCK when added). Provider detectors
+ *   and secretPatterns still run on allowlisted paths; a pattern's
+ *   `(?<secret>...)` group marks the value.
+ * - Scalar fields only apply when stricter: allowDependencyChanges can be
+ *   turned off but not on, secretEntropyThreshold only lowered, and each
+ *   dependencySeverities kind only raised (ALLOW < WARN < BLOCK).
+ * - Negated globs (`!pattern`) in frozenFiles/denyGlobs only carve
+ *   exceptions out of the repo's own patterns; org defaults still apply.
+ * - protectedOwners are unioned. When any are set, the repo's CODEOWNERS
+ *   is read at the same ref and files those owners own need an explicit
+ *   approval (see codeowners.ts).
+ * - blastRadius thresholds only apply when lower than the default; its
+ *   entrypoint and config globs are unioned.
+ *
+ * The file also carries repo settings that are not policy: `ciPolling`
+ * tunes the CI poller for the repo (see ci/ci-poller.ts) and is not part
+ * of the PolicyConfig.
+ */
+
+import { load as loadYaml } from 'js-yaml';
+import { z } from 'zod';
+import { isNotFoundError, type GitHubClient } from '../github/github-client';
+import { DEFAULT_POLICY_CONFIG, type PolicyConfig } from './policy-engine';
+import {
+  DEFAULT_DEPENDENCY_SEVERITIES,
+  type DependencyRuleSeverity,
+  type DependencySeverities
+} from './dependency-analysis';
+import { isNegatedGlob } from './glob';
+import { loadCodeowners } from './codeowners';
+import { DEFAULT_BLAST_RADIUS_CONFIG, type BlastRadiusConfig } from './blast-radius';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const POLICY_FILE_PATH = '.orchestrator/policy.yml';
+
+const DependencyRuleSeveritySchema = z.enum(['BLOCK', 'WARN', 'ALLOW']);
+
+const DependencySeveritiesSchema = z.object({
+  added: DependencyRuleSeveritySchema,
+  addedAllowlisted: DependencyRuleSeveritySchema,
+  removed: DependencyRuleSeveritySchema,
+  upgradeMajor: DependencyRuleSeveritySchema,
+  upgradeMinor: DependencyRuleSeveritySchema,
+  upgradePatch: DependencyRuleSeveritySchema,
+  downgraded: DependencyRuleSeveritySchema,
+  changed: DependencyRuleSeveritySchema,
+  script: DependencyRuleSeveritySchema,
+  installScript: DependencyRuleSeveritySchema,
+  metadata: DependencyRuleSeveritySchema,
+}).partial().strict();
+
+export const PolicyFileSchema = z.object({
+  version: z.literal(1),
+  frozenFiles: z.array(z.string().min(1)).default([]),
+  denyGlobs: z.array(z.string().min(1)).default([]),
+  dependencyFiles: z.array(z.string().min(1)).default([]),
+  secretPatterns: z.array(
+    z.string().min(1).refine(isValidRegex, { message: 'Invalid regular expression' })
+  ).default([]),
+  secretAllowGlobs: z.array(z.string().min(1)).default([]),
+  secretEntropyThreshold: z.number().positive().max(8).optional(),
+  dependencyAllowlist: z.array(z.string().min(1)).default([]),
+  dependencySeverities: DependencySeveritiesSchema.optional(),
+  allowDependencyChanges: z.boolean().optional(),
+  protectedOwners: z.array(z.string().min(1)).default([]),
+  blastRadius: z.object({
+    warnAt: z.number().min(0).max(100).optional(),
+    blockAt: z.number().min(0).max(100).optional(),
+    entrypoints: z.array(z.string().min(1)).default([]),
+    configFiles: z.array(z.string().min(1)).default([]),
+  }).strict().refine(
+    b => b.warnAt === undefined || b.blockAt === undefined || b.warnAt <= b.blockAt,
+    { message: 'warnAt must not exceed blockAt' }
+  ).optional(),
+  ciPolling: z.object({
+    enabled: z.boolean().optional(),
+    intervalSeconds: z.number().int().min(10).optional(),
+    maxIntervalSeconds: z.number().int().min(10).optional(),
+    backoffFactor: z.number().min(1).max(10).optional(),
+  }).strict().refine(
+    c => c.intervalSeconds === undefined || c.maxIntervalSeconds === undefined || c.intervalSeconds <= c.maxIntervalSeconds,
+    { message: 'intervalSeconds must not exceed maxIntervalSeconds' }
+  ).optional()
+}).strict();
+
+export type PolicyFile = z.infer<typeof PolicyFileSchema>;
+
+/**
+ * Where an effective policy came from (for audit).
+ */
+export interface PolicySource {
+  owner: string;
+  repo: string;
+  path: string;
+  ref: string;     // commit SHA the file was read at
+  blobSha: string; // blob SHA of the policy file
+}
+
+export interface EffectivePolicy {
+  config: PolicyConfig;
+  source: PolicySource | null; // null when the repo has no policy file
+}
+
+/**
+ * Serializable view of a PolicyConfig, stored with gate evidence.
+ */
+export interface PolicyConfigSnapshot {
+  frozenFiles?: string[];
+  denyGlobs?: string[];
+  secretPatterns?: string[];
+  dependencyFiles?: string[];
+  allowDependencyChanges?: boolean;
+  secretAllowGlobs?: string[];
+  secretEntropyThreshold?: number;
+  dependencyAllowlist?: string[];
+  dependencySeverities?: Partial<DependencySeverities>;
+  protectedOwners?: string[];
+  codeowners?: { pattern: string; owners: string[] }[];
+  blastRadius?: Partial<BlastRadiusConfig>;
+  source?: PolicySource | null;
+}
+
+// ============================================================================
+// Parsing & Merging
+// ============================================================================
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse and validate policy file content.
+ * Throws with a readable message if the YAML or schema is invalid.
+ */
+export function parsePolicyFile(content: string): PolicyFile {
+  let raw: unknown;
+  try {
+    raw = loadYaml(content);
+  } catch (err) {
+    throw new Error(`Invalid policy file: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const result = PolicyFileSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid policy file: ${issues}`);
+  }
+
+  return result.data;
+}
+
+function union(base: string[], extra: string[]): string[] {
+  return Array.from(new Set([...base, ...extra]));
+}
+
+/**
+ * Union glob lists. Globs are matched in order and a negation only excludes
+ * paths matched before it, so when the repo adds negations its globs go
+ * first and the org defaults re-match anything they excluded.
+ */
+function unionGlobs(defaults: string[], extra: string[]): string[] {
+  return extra.some(isNegatedGlob)
+    ? Array.from(new Set([...extra.filter(g => !defaults.includes(g)), ...defaults]))
+    : union(defaults, extra);
+}
+
+const SEVERITY_RANK: Record<DependencyRuleSeverity, number> = { ALLOW: 0, WARN: 1, BLOCK: 2 };
+
+/**
+ * The stricter of two optional thresholds, where lower is stricter.
+ */
+function lowest(base: number | undefined, override: number | undefined): number | undefined {
+  return base === undefined || override === undefined ? base ?? override : Math.min(base, override);
+}
+
+/**
+ * Per-kind dependency severities, keeping the default where the repo's is
+ * looser.
+ */
+function stricterSeverities(
+  defaults: Partial<DependencySeverities> | undefined,
+  overrides: Partial<DependencySeverities>
+): Partial<DependencySeverities> {
+  const merged: Partial<DependencySeverities> = { ...defaults };
+  for (const [kind, severity] of Object.entries(overrides) as [keyof DependencySeverities, DependencyRuleSeverity][]) {
+    const base = defaults?.[kind] ?? DEFAULT_DEPENDENCY_SEVERITIES[kind];
+    merged[kind] = SEVERITY_RANK[severity] > SEVERITY_RANK[base] ? severity : base;
+  }
+  return merged;
+}
+
+/**
+ * Merge a repo policy file over the org defaults (see the merge rules above).
+ */
+export function mergePolicyConfig(
+  defaults: PolicyConfig,
+  file: PolicyFile | null
+): PolicyConfig {
+  if (!file) {
+    return { ...defaults };
+  }
+
+  const defaultPatternSources = new Set(defaults.secretPatterns.map(p => p.source));
+  const extraPatterns = file.secretPatterns
+    .filter(source => !defaultPatternSources.has(source))
+    .map(source => new RegExp(source));
+
+  return {
+    frozenFiles: unionGlobs(defaults.frozenFiles, file.frozenFiles),
+    denyGlobs: unionGlobs(defaults.denyGlobs, file.denyGlobs),
+    secretPatterns: [...defaults.secretPatterns, ...extraPatterns],
+    dependencyFiles: union(defaults.dependencyFiles, file.dependencyFiles),
+    allowDependencyChanges: defaults.allowDependencyChanges && file.allowDependencyChanges !== false,
+    secretAllowGlobs: union(defaults.secretAllowGlobs ?? [], file.secretAllowGlobs),
+    secretEntropyThreshold: lowest(defaults.secretEntropyThreshold, file.secretEntropyThreshold),
+    dependencyAllowlist: union(defaults.dependencyAllowlist ?? [], file.dependencyAllowlist),
+    dependencySeverities: file.dependencySeverities
+      ? stricterSeverities(defaults.dependencySeverities, file.dependencySeverities)
+      : defaults.dependencySeverities,
+    protectedOwners: union(defaults.protectedOwners ?? [], file.protectedOwners),
+    codeowners: defaults.codeowners,
+    blastRadius: file.blastRadius
+      ? {
+          ...defaults.blastRadius,
+          ...(file.blastRadius.warnAt !== undefined && {
+            warnAt: lowest(defaults.blastRadius?.warnAt ?? DEFAULT_BLAST_RADIUS_CONFIG.warnAt, file.blastRadius.warnAt),
+          }),
+          ...(file.blastRadius.blockAt !== undefined && {
+            blockAt: lowest(defaults.blastRadius?.blockAt ?? DEFAULT_BLAST_RADIUS_CONFIG.blockAt, file.blastRadius.blockAt),
+          }),
+          entrypointGlobs: unionGlobs(
+            defaults.blastRadius?.entrypointGlobs ?? DEFAULT_BLAST_RADIUS_CONFIG.entrypointGlobs,
+            file.blastRadius.entrypoints
+          ),
+          configGlobs: unionGlobs(
+            defaults.blastRadius?.configGlobs ?? DEFAULT_BLAST_RADIUS_CONFIG.configGlobs,
+            file.blastRadius.configFiles
+          ),
+        }
+      : defaults.blastRadius,
+  };
+}
+
+/**
+ * Produce a serializable snapshot of a policy config.
+ */
+export function snapshotPolicyConfig(
+  config: PolicyConfig,
+  source?: PolicySource | null
+): PolicyConfigSnapshot {
+  return {
+    frozenFiles: config.frozenFiles,
+    denyGlobs: config.denyGlobs,
+    secretPatterns: config.secretPatterns.map(p => p.source),
+    dependencyFiles: config.dependencyFiles,
+    allowDependencyChanges: config.allowDependencyChanges,
+    secretAllowGlobs: config.secretAllowGlobs,
+    secretEntropyThreshold: config.secretEntropyThreshold,
+    dependencyAllowlist: config.dependencyAllowlist,
+    dependencySeverities: config.dependencySeverities,
+    protectedOwners: config.protectedOwners,
+    codeowners: config.codeowners?.map(rule => ({ pattern: rule.pattern, owners: rule.owners })),
+    blastRadius: config.blastRadius,
+    source: source ?? null,
+  };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load the effective policy for a repository at a given commit.
+ *
+ * A missing policy file yields the defaults. A present but invalid file,
+ * or a failed read, throws, so a broken policy never silently falls back to
+ * looser rules.
+ * When the policy names protected owners, CODEOWNERS is read at the same ref.
+ */
+export async function loadRepoPolicy(
+  github: Pick<GitHubClient, 'getFileContents'>,
+  params: { owner: string; repo: string; ref: string; path?: string },
+  defaults: PolicyConfig = DEFAULT_POLICY_CONFIG
+): Promise<EffectivePolicy> {
+  const path = params.path ?? POLICY_FILE_PATH;
+  const repo = { owner: params.owner, repo: params.repo, ref: params.ref };
+
+  let file: { content: string; sha: string } | null = null;
+  try {
+    file = await github.getFileContents({ ...repo, path });
+  } catch (err) {
+    if (!isNotFoundError(err)) {
+      throw err;
+    }
+    // No policy file in this repo - org defaults apply
+  }
+
+  const config = mergePolicyConfig(defaults, file ? parsePolicyFile(file.content) : null);
+
+  if (config.protectedOwners?.length) {
+    const codeowners = await loadCodeowners(github, repo);
+    config.codeowners = codeowners?.rules ?? [];
+  }
+
+  return {
+    config,
+    source: file
+      ? { ...repo, path, blobSha: file.sha }
+      : null
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Policy Rule Plugins
+ *
+ * Custom policy rules extend the built-in checks (frozen files, deny globs,
+ * secrets, dependency changes) without forking the policy engine.
+ *
+ * A rule receives the parsed diff plus per-file added/removed lines and
+ * returns findings. The engine turns findings into PolicyViolations with
+ * the rule's id, so Gate2 and the Policy tab treat them like built-ins.
+ */
+
+import type { DiffFile, DiffLine, ParsedDiff } from './diff-parser';
+import type { PolicyConfig, ViolationSeverity } from './policy-engine';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Rule ids reserved by the built-in checks in evaluatePolicy().
+ */
+export const BUILT_IN_POLICY_RULE_IDS = [
+  'frozen_file',
+  'deny_glob',
+  'codeowners_approval',
+  'secret_detected',
+  'dependency_change',
+  'dependency_added',
+  'dependency_removed',
+  'dependency_upgraded',
+  'dependency_downgraded',
+  'dependency_changed',
+  'dependency_script_change',
+  'dependency_metadata_change',
+  'blast_radius',
+] as const;
+
+export type BuiltInPolicyRuleId = typeof BUILT_IN_POLICY_RULE_IDS[number];
+
+/**
+ * Any rule id: a built-in or one registered with a PolicyRuleRegistry.
+ */
+export type PolicyRuleId = BuiltInPolicyRuleId | (string & {});
+
+/**
+ * A single file in the diff, with its added and removed lines.
+ */
+export interface PolicyRuleFile {
+  file: DiffFile;
+  addedLines: DiffLine[];
+  removedLines: DiffLine[];
+}
+
+/**
+ * Input passed to every rule evaluator.
+ */
+export interface PolicyRuleInput {
+  raw: string;  // unified diff text, as passed to evaluatePolicy()
+  diff: ParsedDiff;
+  files: PolicyRuleFile[];
+  config: PolicyConfig;
+}
+
+/**
+ * A finding reported by a rule. Severity defaults to the rule's defaultSeverity.
+ */
+export interface PolicyRuleFinding {
+  file: string;
+  message: string;
+  line?: number;
+  evidence?: string;
+  severity?: ViolationSeverity;
+}
+
+/**
+ * Custom policy rule - implement this to add a check.
+ */
+export interface PolicyRule {
+  /** Unique rule id, stored as PolicyViolation.rule (e.g. "no_console_log") */
+  readonly id: string;
+
+  /** Human-readable description */
+  readonly description: string;
+
+  /** Severity used when a finding does not set its own */
+  readonly defaultSeverity: ViolationSeverity;
+
+  /**
+   * Evaluate the diff and return findings (empty when the diff is clean).
+   */
+  evaluate(input: PolicyRuleInput): PolicyRuleFinding[];
+}
+
+interface PolicyRuleEntry {
+  rule: PolicyRule;
+  enabled: boolean;
+}
+
+// ============================================================================
+// Policy Rule Registry
+// ============================================================================
+
+export class PolicyRuleRegistry {
+  private readonly rules: Map<string, PolicyRuleEntry> = new Map();
+
+  /**
+   * Register a rule.
+   */
+  register(rule: PolicyRule, enabled = true): void {
+    if (!/^[a-z][a-z0-9_]*$/.test(rule.id)) {
+      throw new Error(`Invalid policy rule id: ${rule.id} (use snake_case)`);
+    }
+    if ((BUILT_IN_POLICY_RULE_IDS as readonly string[]).includes(rule.id)) {
+      throw new Error(`Policy rule id is reserved for a built-in rule: ${rule.id}`);
+    }
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Policy rule already registered: ${rule.id}`);
+    }
+
+    this.rules.set(rule.id, { rule, enabled });
+  }
+
+  /**
+   * Unregister a rule.
+   */
+  unregister(ruleId: string): boolean {
+    return this.rules.delete(ruleId);
+  }
+
+  /**
+   * Get a rule by id.
+   */
+  get(ruleId: string): PolicyRule | undefined {
+    return this.rules.get(ruleId)?.rule;
+  }
+
+  /**
+   * Get all enabled rules, in registration order.
+   */
+  getAll(): PolicyRule[] {
+    return Array.from(this.rules.values())
+      .filter(e => e.enabled)
+      .map(e => e.rule);
+  }
+
+  /**
+   * Enable/disable a rule.
+   */
+  setEnabled(ruleId: string, enabled: boolean): void {
+    const entry = this.rules.get(ruleId);
+    if (entry) {
+      entry.enabled = enabled;
+    }
+  }
+
+  /**
+   * List all registered rule ids.
+   */
+  listIds(): string[] {
+    return Array.from(this.rules.keys());
+  }
+
+  /**
+   * Get registry size.
+   */
+  get size(): number {
+    return this.rules.size;
+  }
+
+  /**
+   * Clear all rules.
+   */
+  clear(): void {
+    this.rules.clear();
+  }
+}
+
+/**
+ * Registry used by evaluatePolicy() when none is passed explicitly.
+ */
+export const globalPolicyRuleRegistry = new PolicyRuleRegistry();
+
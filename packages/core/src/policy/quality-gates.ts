@@ -0,0 +1,231 @@
+/**
+ * Quality Gates from the PRD pipeline
+ *
+ * Turns a workflow's QualityGatesArtifact into executable Gate3 quality
+ * gates. Each condition reads one kind of evidence from CIEvidence:
+ * - test_pass:       test report, else test check runs / job steps
+ * - coverage:        line coverage from the coverage report
+ * - lint:            lint check runs / job steps
+ * - security_scan:   static-analysis report errors, else security check runs
+ * - review_approved: an approving review on the PR
+ * - custom:          a check run or job step named by the condition value
+ *
+ * A condition without evidence fails, so a gate is never met by default.
+ * Gates with a manual trigger are satisfied through approvals, not CI, and
+ * are skipped. Only required gates with a block action fail Gate3.
+ */
+
+import type { GateCondition, PRDQualityGate, QualityGatesArtifact } from '../prd/prd-pipeline';
+import type { CIEvidence, QualityGate, QualityGateResult } from './gate3';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ConditionResult {
+  type: GateCondition['type'];
+  passed: boolean;
+  reason: string;
+  actual?: boolean | number;
+}
+
+/**
+ * Check run / job step names that count as evidence for a condition.
+ */
+export const QUALITY_CHECK_PATTERNS = {
+  test_pass: /\b(tests?|jest|vitest|mocha|pytest|unit|integration|e2e|go test|cargo test)\b/i,
+  lint: /\b(lint|eslint|tslint|stylelint|prettier|ruff|flake8|pylint|golangci(-lint)?|clippy|format)\b/i,
+  security_scan: /\b(security|codeql|snyk|trivy|semgrep|gitleaks|bandit|npm audit|dependency-review)\b/i,
+};
+
+// Conclusions that do not count as a failure
+const PASSING_CONCLUSIONS = ['success', 'neutral', 'skipped'];
+
+// ============================================================================
+// Conditions
+// ============================================================================
+
+interface CheckOutcome {
+  name: string;
+  conclusion: string | null;
+}
+
+/**
+ * Check runs and job steps whose name matches.
+ */
+function findChecks(evidence: CIEvidence, matches: (name: string) => boolean): CheckOutcome[] {
+  const checks: CheckOutcome[] = (evidence.checkRuns ?? [])
+    .filter(run => matches(run.name))
+    .map(run => ({ name: run.name, conclusion: run.conclusion }));
+
+  for (const step of evidence.jobSteps ?? []) {
+    if (matches(step.step) || matches(step.job)) {
+      checks.push({ name: `${step.job} / ${step.step}`, conclusion: step.conclusion });
+    }
+  }
+
+  return checks;
+}
+
+function checksOutcome(checks: CheckOutcome[]): { actual: boolean; detail: string } {
+  const failed = checks.filter(c => !PASSING_CONCLUSIONS.includes(c.conclusion ?? ''));
+  return failed.length === 0
+    ? { actual: true, detail: `${checks.length} check(s) passed` }
+    : { actual: false, detail: `failed: ${failed.map(c => `${c.name} (${c.conclusion ?? 'pending'})`).join(', ')}` };
+}
+
+/**
+ * Compare evidence with a condition's expected value.
+ */
+export function compareCondition(
+  actual: boolean | number,
+  operator: GateCondition['operator'],
+  expected: GateCondition['value']
+): boolean {
+  switch (operator) {
+    case 'greater_than':
+      return Number(actual) > Number(expected);
+    case 'less_than':
+      return Number(actual) < Number(expected);
+    case 'contains':
+      return String(actual).includes(String(expected));
+    case 'equals':
+    default:
+      return typeof actual === 'boolean'
+        ? actual === (expected === true || expected === 'true')
+        : actual === Number(expected);
+  }
+}
+
+/**
+ * Read the evidence for a condition. Returns null when there is none.
+ */
+function readEvidence(
+  condition: GateCondition,
+  evidence: CIEvidence
+): { actual: boolean | number; detail: string } | null {
+  switch (condition.type) {
+    case 'test_pass': {
+      const tests = evidence.reports?.tests;
+      if (tests) {
+        const names = tests.failedTests?.length
+          ? `: ${tests.failedTests.slice(0, 3).join(', ')}${tests.failedTests.length > 3 ? ', ...' : ''}`
+          : '';
+        return {
+          actual: tests.failed === 0,
+          detail: `${tests.failed} of ${tests.total} test(s) failed${names}`,
+        };
+      }
+      // A green CI run that ran no recognizable tests is not evidence
+      const checks = findChecks(evidence, name => QUALITY_CHECK_PATTERNS.test_pass.test(name));
+      return checks.length > 0 ? checksOutcome(checks) : null;
+    }
+
+    case 'coverage': {
+      const coverage = evidence.reports?.coverage;
+      if (!coverage) {
+        return null;
+      }
+      const delta = coverage.deltaPct === undefined
+        ? ''
+        : `, ${coverage.deltaPct >= 0 ? '+' : ''}${coverage.deltaPct} since the previous run`;
+      return { actual: coverage.lines, detail: `line coverage ${coverage.lines}%${delta}` };
+    }
+
+    case 'lint': {
+      const checks = findChecks(evidence, name => QUALITY_CHECK_PATTERNS.lint.test(name));
+      return checks.length > 0 ? checksOutcome(checks) : null;
+    }
+
+    case 'security_scan': {
+      const findings = evidence.reports?.staticAnalysis;
+      if (findings) {
+        return {
+          actual: findings.errors === 0,
+          detail: `${findings.errors} error-level finding(s), ${findings.warnings} warning(s)` +
+            (findings.newFindings === undefined ? '' : `, ${findings.newFindings} new`),
+        };
+      }
+      const checks = findChecks(evidence, name => QUALITY_CHECK_PATTERNS.security_scan.test(name));
+      return checks.length > 0 ? checksOutcome(checks) : null;
+    }
+
+    case 'review_approved':
+      return evidence.reviewApproved === undefined
+        ? null
+        : { actual: evidence.reviewApproved, detail: evidence.reviewApproved ? 'approved' : 'not approved' };
+
+    case 'custom': {
+      const wanted = String(condition.value).toLowerCase();
+      const checks = findChecks(evidence, name => name.toLowerCase().includes(wanted));
+      return checks.length > 0 ? checksOutcome(checks) : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate a single gate condition against CI evidence.
+ */
+export function evaluateGateCondition(condition: GateCondition, evidence: CIEvidence): ConditionResult {
+  const read = readEvidence(condition, evidence);
+  if (!read) {
+    return {
+      type: condition.type,
+      passed: false,
+      reason: `No ${condition.type.replace(/_/g, ' ')} evidence found`,
+    };
+  }
+
+  // Custom conditions name the check; its outcome is the result
+  const passed = condition.type === 'custom'
+    ? read.actual === true
+    : compareCondition(read.actual, condition.operator, condition.value);
+
+  return {
+    type: condition.type,
+    passed,
+    reason: passed || condition.type === 'custom'
+      ? read.detail
+      : `${read.detail} (expected ${condition.operator.replace(/_/g, ' ')} ${condition.value})`,
+    actual: read.actual,
+  };
+}
+
+// ============================================================================
+// Gates
+// ============================================================================
+
+/**
+ * Build a Gate3 quality gate from a PRD gate.
+ */
+export function qualityGateFromPRD(gate: PRDQualityGate): QualityGate {
+  return {
+    name: gate.id,
+    required: gate.required && gate.action === 'block',
+    evaluator: (evidence: CIEvidence): QualityGateResult => {
+      const conditions = gate.conditions.map(c => evaluateGateCondition(c, evidence));
+      const failed = conditions.filter(c => !c.passed);
+      return {
+        name: gate.id,
+        passed: failed.length === 0,
+        reason: failed.length === 0
+          ? `${gate.name}: all conditions met`
+          : `${gate.name}: ${failed.map(c => c.reason).join('; ')}`,
+        evidence: { conditions },
+      };
+    },
+  };
+}
+
+/**
+ * Build Gate3 quality gates from a QualityGatesArtifact, skipping gates
+ * with a manual trigger.
+ */
+export function qualityGatesFromArtifact(artifact: QualityGatesArtifact): QualityGate[] {
+  return artifact.gates
+    .filter(gate => gate.trigger !== 'manual')
+    .map(qualityGateFromPRD);
+}
@@ -0,0 +1,123 @@
+/**
+ * Policy Waivers
+ *
+ * A waiver lets an authenticated user accept a specific BLOCK violation
+ * instead of rejecting or regenerating the PatchSet. Waivers are scoped to
+ * one workflow and match violations by rule + file + evidence hash, so a
+ * waiver for one leaked key does not cover a different key in the same file.
+ * Secret violations carry a hash of the unredacted match (their evidence
+ * is redacted and truncated); other violations hash their evidence.
+ *
+ * Waived violations are downgraded to WARN (never removed) and keep the
+ * waiver id, so the audit trail shows what was accepted and by whom.
+ */
+
+import { createHash } from 'crypto';
+import type { PolicyViolation } from './policy-engine';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The fields of a stored PolicyWaiver needed to match violations.
+ */
+export interface PolicyWaiverRecord {
+  id: string;
+  rule: string;
+  file: string;
+  evidenceHash: string;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+}
+
+/**
+ * A waiver that downgraded a violation, recorded in gate evidence.
+ */
+export interface AppliedWaiver {
+  waiverId: string;
+  rule: string;
+  file: string;
+  evidenceHash: string;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Hash a violation's evidence. Violations without evidence hash the empty string.
+ */
+export function hashViolationEvidence(evidence?: string | null): string {
+  return createHash('sha256').update(evidence ?? '', 'utf8').digest('hex');
+}
+
+/**
+ * The evidence hash waivers match a violation by: its stored fingerprint,
+ * else the hash of its evidence.
+ */
+export function violationEvidenceHash(violation: { evidence?: string | null; evidenceHash?: string | null }): string {
+  return violation.evidenceHash ?? hashViolationEvidence(violation.evidence);
+}
+
+/**
+ * Check whether a waiver is in effect (not revoked, not expired).
+ */
+export function isWaiverActive(waiver: PolicyWaiverRecord, now: Date = new Date()): boolean {
+  return !waiver.revokedAt && waiver.expiresAt.getTime() > now.getTime();
+}
+
+/**
+ * Find the active waiver covering a violation, if any.
+ */
+export function findWaiverForViolation(
+  violation: PolicyViolation,
+  waivers: PolicyWaiverRecord[],
+  now: Date = new Date()
+): PolicyWaiverRecord | undefined {
+  const evidenceHash = violationEvidenceHash(violation);
+  return waivers.find(w =>
+    w.rule === violation.rule &&
+    w.file === violation.file &&
+    w.evidenceHash === evidenceHash &&
+    isWaiverActive(w, now)
+  );
+}
+
+/**
+ * Downgrade waived BLOCK violations to WARN.
+ * WARN violations are left untouched; waivers only ever lower severity.
+ */
+export function applyWaivers(
+  violations: PolicyViolation[],
+  waivers: PolicyWaiverRecord[],
+  now: Date = new Date()
+): { violations: PolicyViolation[]; applied: AppliedWaiver[] } {
+  if (waivers.length === 0) {
+    return { violations, applied: [] };
+  }
+
+  const applied: AppliedWaiver[] = [];
+
+  const result = violations.map(v => {
+    if (v.severity !== 'BLOCK') {
+      return v;
+    }
+
+    const waiver = findWaiverForViolation(v, waivers, now);
+    if (!waiver) {
+      return v;
+    }
+
+    applied.push({
+      waiverId: waiver.id,
+      rule: waiver.rule,
+      file: waiver.file,
+      evidenceHash: waiver.evidenceHash
+    });
+
+    return { ...v, severity: 'WARN' as const, waiverId: waiver.id };
+  });
+
+  return { violations: result, applied };
+}
@@ -8,9 +8,23 @@ import type {
   UpdateFileParams,
   UpdateFileResult,
   DeleteFileParams,
-  DeleteFileResult
+  DeleteFileResult,
+  CreateBlobParams,
+  CreateBlobResult,
+  CreateTreeParams,
+  CreateTreeResult,
+  CreateCommitParams,
+  CreateCommitResult,
+  UpdateRefParams,
+  UpdateRefResult,
+  MergePullRequestParams,
+  MergePullRequestResult
 } from '../github/github-client';
 
+// Approval kind for merging a workflow's pull requests, recorded separately
+// from the 'apply_patches' approval that lets it open them
+export const MERGE_APPROVAL_KIND = 'merge';
+
 /**
  * WriteGate ensures all GitHub write operations are gated by approval.
  *
@@ -66,6 +80,20 @@ export class WriteGate {
     return this.github.getBranch({ owner, repo, branch });
   }
 
+  /**
+   * Get commit info (read-only, no approval needed).
+   */
+  async getCommit(owner: string, repo: string, sha: string) {
+    return this.github.getCommit({ owner, repo, sha });
+  }
+
+  /**
+   * Get a tree listing (read-only, no approval needed).
+   */
+  async getTree(owner: string, repo: string, sha: string, recursive?: boolean) {
+    return this.github.getTree({ owner, repo, sha, recursive });
+  }
+
   // ============================================================================
   // Write Operations (require approval)
   // ============================================================================
@@ -101,4 +129,44 @@ export class WriteGate {
     await this.assertApproved(workflowId, 'apply_patches');
     return this.github.openPullRequest(params);
   }
+
+  /**
+   * Enable auto-merge or enqueue a pull request (requires merge approval).
+   */
+  async mergePullRequest(workflowId: string, params: MergePullRequestParams): Promise<MergePullRequestResult> {
+    await this.assertApproved(workflowId, MERGE_APPROVAL_KIND);
+    return this.github.mergePullRequest(params);
+  }
+
+  /**
+   * Create a blob (requires approval).
+   */
+  async createBlob(workflowId: string, params: CreateBlobParams): Promise<CreateBlobResult> {
+    await this.assertApproved(workflowId, 'apply_patches');
+    return this.github.createBlob(params);
+  }
+
+  /**
+   * Create a tree (requires approval).
+   */
+  async createTree(workflowId: string, params: CreateTreeParams): Promise<CreateTreeResult> {
+    await this.assertApproved(workflowId, 'apply_patches');
+    return this.github.createTree(params);
+  }
+
+  /**
+   * Create a commit (requires approval).
+   */
+  async createCommit(workflowId: string, params: CreateCommitParams): Promise<CreateCommitResult> {
+    await this.assertApproved(workflowId, 'apply_patches');
+    return this.github.createCommit(params);
+  }
+
+  /**
+   * Move a branch to a commit (requires approval).
+   */
+  async updateRef(workflowId: string, params: UpdateRefParams): Promise<UpdateRefResult> {
+    await this.assertApproved(workflowId, 'apply_patches');
+    return this.github.updateRef(params);
+  }
 }
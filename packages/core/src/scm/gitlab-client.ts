@@ -0,0 +1,743 @@
+/**
+ * GitLab SCM Client
+ *
+ * Implements the GitHubClient operations against the GitLab REST API (v4):
+ * - Repositories are projects addressed by "owner/repo" (owner may be a
+ *   nested group path)
+ * - Pull requests are merge requests; the number is the merge request IID
+ * - Workflow runs are pipelines and run jobs are pipeline jobs; a run's
+ *   artifacts are the artifact archives of its jobs, named after the job
+ * - Check runs are commit statuses
+ * - Auto-merge is "merge when pipeline succeeds" and the merge queue is the
+ *   merge train; GitLab merge methods are set per project, so only squash
+ *   can be chosen per merge request
+ *
+ * GitLab has no Git Data API, so blobs and trees are held in memory and
+ * createCommit replays the pending tree entries as commit actions on a
+ * temporary branch started from the parent. updateRef moves a branch by
+ * recreating it (after a merge-base fast-forward check) and then deletes
+ * the temporary branches. Symlinks cannot be written through the API.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type {
+  GetRepositoryParams,
+  RepositoryInfo,
+  GetFileContentsParams,
+  FileContents,
+  GetBranchParams,
+  BranchInfo,
+  GetTreeParams,
+  TreeInfo,
+  TreeItem,
+  TreeEntryInput,
+  DispatchWorkflowParams,
+  ListWorkflowRunsParams,
+  WorkflowRunList,
+  GetWorkflowRunParams,
+  WorkflowRunInfo,
+  GetWorkflowRunJobsParams,
+  WorkflowRunJobsList,
+  WorkflowRunJob,
+  ListCheckRunsParams,
+  CheckRunList,
+  CheckRunInfo,
+  DownloadWorkflowRunArtifactsParams,
+  WorkflowRunArtifact,
+  WorkflowRunArtifactList,
+  CreateBranchParams,
+  CreateBranchResult,
+  GetCommitParams,
+  CommitInfo,
+  CreateBlobParams,
+  CreateBlobResult,
+  CreateTreeParams,
+  CreateTreeResult,
+  CreateCommitParams,
+  CreateCommitResult,
+  UpdateRefParams,
+  UpdateRefResult,
+  UpdateFileParams,
+  UpdateFileResult,
+  DeleteFileParams,
+  DeleteFileResult,
+  OpenPullRequestParams,
+  MergePullRequestParams,
+  MergePullRequestResult,
+  OpenPullRequestResult,
+  CreateIssueCommentParams,
+  CreateIssueCommentResult,
+  ListIssueCommentsParams,
+  IssueCommentInfo
+} from '../github/github-client';
+import { DEFAULT_ARTIFACT_MAX_FILE_BYTES } from '../github/github-client';
+import { readZipEntries } from '../github/zip';
+import type { ScmClient } from './scm-client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DEFAULT_GITLAB_API_URL = 'https://gitlab.com/api/v4';
+
+export interface GitLabScmClientOptions {
+  token: string;
+  baseUrl?: string; // API root, e.g. https://gitlab.example.com/api/v4
+  fetch?: typeof fetch; // defaults to the global fetch
+  tempBranchPrefix?: string; // branches used to build commits (default: orchestrator/tmp-)
+}
+
+type QueryValue = string | number | boolean | string[] | undefined;
+
+interface GitLabResponse<T> {
+  data: T;
+  headers: Headers;
+}
+
+interface PendingTree {
+  baseTree: string;
+  entries: TreeEntryInput[];
+}
+
+type CommitAction =
+  | { action: 'create' | 'update'; file_path: string; content: string; encoding: 'base64' }
+  | { action: 'delete'; file_path: string }
+  | { action: 'chmod'; file_path: string; execute_filemode: boolean };
+
+// ============================================================================
+// Status Mapping
+// ============================================================================
+
+/**
+ * Map a GitLab pipeline, job or commit status to a run status and conclusion.
+ */
+export function mapGitLabPipelineStatus(status: string): Pick<WorkflowRunInfo, 'status' | 'conclusion'> {
+  switch (status) {
+    case 'running':
+    case 'canceling':
+      return { status: 'in_progress', conclusion: null };
+    case 'success':
+      return { status: 'completed', conclusion: 'success' };
+    case 'failed':
+      return { status: 'completed', conclusion: 'failure' };
+    case 'canceled':
+      return { status: 'completed', conclusion: 'cancelled' };
+    case 'skipped':
+      return { status: 'completed', conclusion: 'skipped' };
+    case 'manual':
+      return { status: 'completed', conclusion: 'action_required' };
+    default:
+      // created, waiting_for_resource, preparing, pending, scheduled
+      return { status: 'queued', conclusion: null };
+  }
+}
+
+/**
+ * Commits have no tree SHA in the GitLab API; "<commit>^{tree}" names the
+ * tree of a commit and getTree accepts it.
+ */
+function commitTreeRef(commitSha: string): string {
+  return `${commitSha}^{tree}`;
+}
+
+function refFromTreeRef(sha: string): string {
+  return sha.endsWith('^{tree}') ? sha.slice(0, -'^{tree}'.length) : sha;
+}
+
+// Same SHA as git hash-object
+function blobSha(content: Buffer): string {
+  return createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export class GitLabScmClient implements ScmClient {
+  readonly provider = 'gitlab' as const;
+
+  private readonly baseUrl: string;
+  private readonly fetchFn: typeof fetch;
+  private readonly tempBranchPrefix: string;
+
+  // Git Data objects that only exist until they are committed
+  private readonly blobs: Map<string, string> = new Map(); // sha → base64 content
+  private readonly trees: Map<string, PendingTree> = new Map();
+  private readonly commitTrees: Map<string, string> = new Map(); // commit → tree it was built from
+  private readonly tempBranches: Map<string, { branch: string; parent: string }> = new Map(); // by commit
+
+  constructor(private readonly options: GitLabScmClientOptions) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_GITLAB_API_URL).replace(/\/+$/, '');
+    this.fetchFn = options.fetch ?? fetch;
+    this.tempBranchPrefix = options.tempBranchPrefix ?? 'orchestrator/tmp-';
+  }
+
+  // ============================================================================
+  // HTTP
+  // ============================================================================
+
+  private project(owner: string, repo: string): string {
+    return `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+
+  private async request<T = any>(
+    method: string,
+    path: string,
+    options: { query?: Record<string, QueryValue>; body?: unknown; binary?: boolean } = {}
+  ): Promise<GitLabResponse<T>> {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (Array.isArray(value)) {
+        value.forEach(item => search.append(`${key}[]`, item));
+      } else if (value !== undefined) {
+        search.append(key, String(value));
+      }
+    }
+    const query = search.toString();
+
+    const response = await this.fetchFn(`${this.baseUrl}${path}${query ? `?${query}` : ''}`, {
+      method,
+      headers: {
+        'PRIVATE-TOKEN': this.options.token,
+        ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      try {
+        const parsed = JSON.parse(text);
+        message = typeof parsed.message === 'string' ? parsed.message : JSON.stringify(parsed.message ?? parsed.error ?? parsed);
+      } catch {
+        // Not JSON
+      }
+      throw Object.assign(
+        new Error(`GitLab API ${method} ${path} failed with ${response.status}: ${message || response.statusText}`),
+        { status: response.status }
+      );
+    }
+
+    let data: any;
+    if (options.binary) {
+      data = Buffer.from(await response.arrayBuffer());
+    } else if (response.status !== 204 && method !== 'HEAD') {
+      const text = await response.text();
+      data = text ? JSON.parse(text) : undefined;
+    }
+    return { data, headers: response.headers };
+  }
+
+  private async paginate<T = any>(path: string, query: Record<string, QueryValue> = {}): Promise<T[]> {
+    const items: T[] = [];
+    let page: string | null = '1';
+    while (page) {
+      const { data, headers }: GitLabResponse<T[]> = await this.request<T[]>('GET', path, {
+        query: { ...query, per_page: 100, page }
+      });
+      items.push(...data);
+      page = headers.get('x-next-page') || null;
+    }
+    return items;
+  }
+
+  private isNotFound(err: unknown): boolean {
+    return (err as { status?: number })?.status === 404;
+  }
+
+  private totalCount(headers: Headers, fallback: number): number {
+    const total = Number(headers.get('x-total'));
+    return headers.get('x-total') && Number.isFinite(total) ? total : fallback;
+  }
+
+  // ============================================================================
+  // Read Operations
+  // ============================================================================
+
+  async getRepository(params: GetRepositoryParams): Promise<RepositoryInfo> {
+    const { data } = await this.request('GET', this.project(params.owner, params.repo));
+
+    return {
+      id: data.id,
+      name: data.path,
+      fullName: data.path_with_namespace,
+      defaultBranch: data.default_branch,
+      private: data.visibility !== 'public',
+      htmlUrl: data.web_url,
+      description: data.description,
+      topics: data.topics ?? data.tag_list
+    };
+  }
+
+  async getFileContents(params: GetFileContentsParams): Promise<FileContents> {
+    const ref = params.ref ?? (await this.getRepository(params)).defaultBranch;
+    const { data } = await this.request(
+      'GET',
+      `${this.project(params.owner, params.repo)}/repository/files/${encodeURIComponent(params.path)}`,
+      { query: { ref } }
+    );
+
+    return {
+      path: data.file_path,
+      content: Buffer.from(data.content ?? '', 'base64').toString('utf-8'),
+      sha: data.blob_id,
+      size: data.size
+    };
+  }
+
+  async getBranch(params: GetBranchParams): Promise<BranchInfo> {
+    const { data } = await this.request(
+      'GET',
+      `${this.project(params.owner, params.repo)}/repository/branches/${encodeURIComponent(params.branch)}`
+    );
+
+    return {
+      name: data.name,
+      sha: data.commit.id,
+      protected: data.protected
+    };
+  }
+
+  async getTree(params: GetTreeParams): Promise<TreeInfo> {
+    const ref = refFromTreeRef(params.sha);
+    const items = await this.paginate(`${this.project(params.owner, params.repo)}/repository/tree`, {
+      ref,
+      recursive: params.recursive ? true : undefined
+    });
+
+    return {
+      sha: commitTreeRef(ref),
+      // Submodules ("commit" entries) have no GitHubClient counterpart
+      tree: items
+        .filter(item => item.type === 'blob' || item.type === 'tree')
+        .map((item): TreeItem => ({
+          path: item.path,
+          mode: item.mode,
+          type: item.type,
+          sha: item.id
+        })),
+      truncated: false
+    };
+  }
+
+  async getCommit(params: GetCommitParams): Promise<CommitInfo> {
+    const { data } = await this.request(
+      'GET',
+      `${this.project(params.owner, params.repo)}/repository/commits/${encodeURIComponent(params.sha)}`
+    );
+
+    return {
+      sha: data.id,
+      treeSha: commitTreeRef(data.id),
+      parents: data.parent_ids ?? [],
+      message: data.message
+    };
+  }
+
+  // ============================================================================
+  // Pipeline Operations
+  // ============================================================================
+
+  /**
+   * Start a pipeline for the ref. A project has one pipeline definition
+   * (.gitlab-ci.yml), so workflowId is not used; inputs become variables.
+   */
+  async dispatchWorkflow(params: DispatchWorkflowParams): Promise<void> {
+    await this.request('POST', `${this.project(params.owner, params.repo)}/pipeline`, {
+      body: {
+        ref: params.ref,
+        variables: Object.entries(params.inputs ?? {}).map(([key, value]) => ({ key, value }))
+      }
+    });
+  }
+
+  private toRun(pipeline: any): WorkflowRunInfo {
+    return {
+      id: pipeline.id,
+      ...mapGitLabPipelineStatus(pipeline.status),
+      htmlUrl: pipeline.web_url,
+      headSha: pipeline.sha,
+      headBranch: pipeline.ref,
+      event: pipeline.source,
+      createdAt: pipeline.created_at,
+      updatedAt: pipeline.updated_at
+    };
+  }
+
+  async listWorkflowRuns(params: ListWorkflowRunsParams): Promise<WorkflowRunList> {
+    const { data, headers } = await this.request<any[]>('GET', `${this.project(params.owner, params.repo)}/pipelines`, {
+      query: {
+        ref: params.branch,
+        // Dispatched runs are pipelines created through the API
+        source: params.event === 'workflow_dispatch' ? 'api' : params.event,
+        per_page: params.perPage ?? 20
+      }
+    });
+
+    return {
+      totalCount: this.totalCount(headers, data.length),
+      runs: data.map(pipeline => this.toRun(pipeline))
+    };
+  }
+
+  async getWorkflowRun(params: GetWorkflowRunParams): Promise<WorkflowRunInfo> {
+    const { data } = await this.request('GET', `${this.project(params.owner, params.repo)}/pipelines/${params.runId}`);
+    return this.toRun(data);
+  }
+
+  async getWorkflowRunJobs(params: GetWorkflowRunJobsParams): Promise<WorkflowRunJobsList> {
+    const { data, headers } = await this.request<any[]>(
+      'GET',
+      `${this.project(params.owner, params.repo)}/pipelines/${params.runId}/jobs`,
+      { query: { per_page: params.perPage ?? 50, page: params.page ?? 1 } }
+    );
+
+    const jobs = data.map((job): WorkflowRunJob => ({
+      id: job.id,
+      name: job.name,
+      ...mapGitLabPipelineStatus(job.status),
+      htmlUrl: job.web_url,
+      startedAt: job.started_at ?? undefined,
+      completedAt: job.finished_at ?? undefined
+    }));
+
+    return {
+      totalCount: this.totalCount(headers, jobs.length),
+      jobs
+    };
+  }
+
+  async listCheckRuns(params: ListCheckRunsParams): Promise<CheckRunList> {
+    // Statuses are listed by commit SHA; resolve branches and tags first
+    const commit = await this.getCommit({ owner: params.owner, repo: params.repo, sha: params.ref });
+    const { data, headers } = await this.request<any[]>(
+      'GET',
+      `${this.project(params.owner, params.repo)}/repository/commits/${commit.sha}/statuses`,
+      { query: { per_page: params.perPage ?? 100 } }
+    );
+
+    const checkRuns = data.map((status): CheckRunInfo => ({
+      id: status.id,
+      name: status.name,
+      ...mapGitLabPipelineStatus(status.status),
+      htmlUrl: status.target_url ?? undefined,
+      startedAt: status.started_at ?? undefined,
+      completedAt: status.finished_at ?? undefined
+    }));
+
+    return {
+      totalCount: this.totalCount(headers, checkRuns.length),
+      checkRuns
+    };
+  }
+
+  async downloadWorkflowRunArtifacts(params: DownloadWorkflowRunArtifactsParams): Promise<WorkflowRunArtifactList> {
+    const project = this.project(params.owner, params.repo);
+    const jobs = await this.paginate(`${project}/pipelines/${params.runId}/jobs`);
+
+    const maxFileBytes = params.maxFileBytes ?? DEFAULT_ARTIFACT_MAX_FILE_BYTES;
+    const listed = jobs.filter(job =>
+      job.artifacts_file && (!params.names || params.names.includes(job.name))
+    );
+
+    const artifacts: WorkflowRunArtifact[] = [];
+    for (const job of listed) {
+      // Served as a ZIP archive
+      const { data: archive } = await this.request<Buffer>('GET', `${project}/jobs/${job.id}/artifacts`, { binary: true });
+      artifacts.push({
+        id: job.id,
+        name: job.name,
+        sizeInBytes: job.artifacts_file.size,
+        files: readZipEntries(archive, maxFileBytes).map(entry => ({
+          path: entry.path,
+          content: entry.data.toString('utf8')
+        }))
+      });
+    }
+
+    return { totalCount: artifacts.length, artifacts };
+  }
+
+  // ============================================================================
+  // Comment Operations
+  // ============================================================================
+
+  async listIssueComments(params: ListIssueCommentsParams): Promise<IssueCommentInfo[]> {
+    const noteable = params.pullRequest ? 'merge_requests' : 'issues';
+    const notes = await this.paginate(`${this.project(params.owner, params.repo)}/${noteable}/${params.issueNumber}/notes`, {
+      sort: 'asc'
+    });
+
+    // System notes record events (label changes, mentions), not discussion
+    return notes
+      .filter(note => !note.system)
+      .map(note => ({
+        id: note.id,
+        body: note.body ?? '',
+        author: note.author?.username,
+        bot: note.author?.bot === true,
+        createdAt: note.created_at
+      }));
+  }
+
+  async createIssueComment(params: CreateIssueCommentParams): Promise<CreateIssueCommentResult> {
+    // Issue and merge request IIDs are numbered separately
+    const noteable = params.pullRequest ? 'merge_requests' : 'issues';
+    const { data } = await this.request('POST', `${this.project(params.owner, params.repo)}/${noteable}/${params.issueNumber}/notes`, {
+      body: { body: params.body }
+    });
+
+    return { id: data.id };
+  }
+
+  // ============================================================================
+  // Write Operations (should be gated via WriteGate)
+  // ============================================================================
+
+  async createBranch(params: CreateBranchParams): Promise<CreateBranchResult> {
+    const { data } = await this.request('POST', `${this.project(params.owner, params.repo)}/repository/branches`, {
+      query: { branch: params.branch, ref: params.sha }
+    });
+
+    return {
+      ref: `refs/heads/${data.name}`,
+      sha: data.commit.id
+    };
+  }
+
+  private async commitActions(
+    owner: string,
+    repo: string,
+    body: { branch: string; commit_message: string; start_sha?: string; actions: CommitAction[] }
+  ): Promise<any> {
+    const { data } = await this.request('POST', `${this.project(owner, repo)}/repository/commits`, { body });
+    return data;
+  }
+
+  /**
+   * Fail like the GitHub contents API when the caller's blob SHA is stale.
+   */
+  private async checkFileSha(owner: string, repo: string, path: string, branch: string, sha: string): Promise<void> {
+    const current = await this.getFileContents({ owner, repo, path, ref: branch });
+    if (current.sha !== sha) {
+      throw new Error(`${path} does not match ${sha}`);
+    }
+  }
+
+  async updateFile(params: UpdateFileParams): Promise<UpdateFileResult> {
+    if (params.sha) {
+      await this.checkFileSha(params.owner, params.repo, params.path, params.branch, params.sha);
+    }
+
+    const commit = await this.commitActions(params.owner, params.repo, {
+      branch: params.branch,
+      commit_message: params.message,
+      actions: [{
+        action: params.sha ? 'update' : 'create',
+        file_path: params.path,
+        content: params.content,
+        encoding: 'base64'
+      }]
+    });
+
+    return {
+      path: params.path,
+      sha: blobSha(Buffer.from(params.content, 'base64')),
+      commitSha: commit.id
+    };
+  }
+
+  async deleteFile(params: DeleteFileParams): Promise<DeleteFileResult> {
+    await this.checkFileSha(params.owner, params.repo, params.path, params.branch, params.sha);
+
+    const commit = await this.commitActions(params.owner, params.repo, {
+      branch: params.branch,
+      commit_message: params.message,
+      actions: [{ action: 'delete', file_path: params.path }]
+    });
+
+    return { commitSha: commit.id };
+  }
+
+  async openPullRequest(params: OpenPullRequestParams): Promise<OpenPullRequestResult> {
+    const { data } = await this.request('POST', `${this.project(params.owner, params.repo)}/merge_requests`, {
+      body: {
+        source_branch: params.head,
+        target_branch: params.base,
+        title: params.title,
+        description: params.body
+      }
+    });
+
+    return {
+      url: data.web_url,
+      number: data.iid
+    };
+  }
+
+  async mergePullRequest(params: MergePullRequestParams): Promise<MergePullRequestResult> {
+    const project = this.project(params.owner, params.repo);
+    const squash = params.mergeMethod === 'squash';
+
+    if (params.mode === 'merge_queue') {
+      await this.request('POST', `${project}/merge_trains/merge_requests/${params.pullNumber}`, {
+        body: { when_pipeline_succeeds: true, squash, sha: params.expectedHeadSha }
+      });
+      return { status: 'queued' };
+    }
+
+    const { data } = await this.request('PUT', `${project}/merge_requests/${params.pullNumber}/merge`, {
+      body: { merge_when_pipeline_succeeds: true, squash, sha: params.expectedHeadSha }
+    });
+    return data.state === 'merged'
+      ? { status: 'merged', sha: data.squash_commit_sha ?? data.merge_commit_sha ?? undefined }
+      : { status: 'auto_merge_enabled' };
+  }
+
+  // ============================================================================
+  // Git Data Emulation
+  // ============================================================================
+
+  async createBlob(params: CreateBlobParams): Promise<CreateBlobResult> {
+    const content = Buffer.from(params.content, params.encoding === 'base64' ? 'base64' : 'utf8');
+    const sha = blobSha(content);
+    this.blobs.set(sha, content.toString('base64'));
+    return { sha };
+  }
+
+  async createTree(params: CreateTreeParams): Promise<CreateTreeResult> {
+    if (!params.baseTree) {
+      throw new Error('GitLab trees must be created on a base tree');
+    }
+
+    const sha = createHash('sha1')
+      .update(`${params.baseTree}\0${JSON.stringify(params.entries)}`)
+      .digest('hex');
+    this.trees.set(sha, { baseTree: params.baseTree, entries: params.entries });
+    return { sha };
+  }
+
+  private async fileExists(owner: string, repo: string, path: string, ref: string): Promise<boolean> {
+    try {
+      await this.request('HEAD', `${this.project(owner, repo)}/repository/files/${encodeURIComponent(path)}`, {
+        query: { ref }
+      });
+      return true;
+    } catch (err) {
+      if (this.isNotFound(err)) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  async createCommit(params: CreateCommitParams): Promise<CreateCommitResult> {
+    if (params.parents.length !== 1) {
+      throw new Error('GitLab commits must have exactly one parent');
+    }
+    const [parent] = params.parents;
+
+    // Collect the entries of the trees stacked on the parent's tree
+    const parentTree = this.commitTrees.get(parent) ?? commitTreeRef(parent);
+    const chain: PendingTree[] = [];
+    for (let cursor = params.tree; cursor !== parentTree;) {
+      const pending = this.trees.get(cursor);
+      if (!pending) {
+        throw new Error(`Tree ${params.tree} is not based on the tree of parent commit ${parent}`);
+      }
+      chain.unshift(pending);
+      cursor = pending.baseTree;
+    }
+    const entries = new Map<string, TreeEntryInput>();
+    for (const pending of chain) {
+      pending.entries.forEach(entry => entries.set(entry.path, entry));
+    }
+
+    const actions: CommitAction[] = [];
+    for (const entry of entries.values()) {
+      const exists = await this.fileExists(params.owner, params.repo, entry.path, parent);
+      if (entry.sha === null) {
+        if (exists) {
+          actions.push({ action: 'delete', file_path: entry.path });
+        }
+        continue;
+      }
+      if (entry.mode === '120000') {
+        throw new Error(`Cannot commit symlink ${entry.path} through the GitLab API`);
+      }
+      const content = this.blobs.get(entry.sha);
+      if (content === undefined) {
+        throw new Error(`Unknown blob ${entry.sha} for ${entry.path}`);
+      }
+      actions.push({ action: exists ? 'update' : 'create', file_path: entry.path, content, encoding: 'base64' });
+      if (entry.mode === '100755') {
+        actions.push({ action: 'chmod', file_path: entry.path, execute_filemode: true });
+      }
+    }
+    if (actions.length === 0) {
+      throw new Error(`Tree ${params.tree} has no changes from parent commit ${parent}`);
+    }
+
+    // The commit is created on its own branch until updateRef moves the target
+    const branch = `${this.tempBranchPrefix}${randomBytes(6).toString('hex')}`;
+    const commit = await this.commitActions(params.owner, params.repo, {
+      branch,
+      start_sha: parent,
+      commit_message: params.message,
+      actions
+    });
+    this.tempBranches.set(commit.id, { branch, parent });
+    this.commitTrees.set(commit.id, params.tree);
+
+    return {
+      sha: commit.id,
+      message: commit.message ?? params.message,
+      url: commit.web_url
+    };
+  }
+
+  async updateRef(params: UpdateRefParams): Promise<UpdateRefResult> {
+    const project = this.project(params.owner, params.repo);
+    const branchPath = `${project}/repository/branches/${encodeURIComponent(params.branch)}`;
+
+    let current: BranchInfo;
+    try {
+      current = await this.getBranch(params);
+    } catch (err) {
+      if (this.isNotFound(err)) {
+        throw new Error(`Reference does not exist: heads/${params.branch}`);
+      }
+      throw err;
+    }
+
+    if (current.sha !== params.sha) {
+      if (!params.force) {
+        const { data: base } = await this.request('GET', `${project}/repository/merge_base`, {
+          query: { refs: [current.sha, params.sha] }
+        });
+        if (base.id !== current.sha) {
+          throw new Error('Update is not a fast forward');
+        }
+      }
+
+      // No ref update endpoint: recreate the branch at the new commit
+      await this.request('DELETE', branchPath);
+      await this.request('POST', `${project}/repository/branches`, {
+        query: { branch: params.branch, ref: params.sha }
+      });
+    }
+
+    // The target branch now holds the commits built on their temporary branches
+    for (let sha = params.sha, temp = this.tempBranches.get(sha); temp; sha = temp.parent, temp = this.tempBranches.get(sha)) {
+      this.tempBranches.delete(sha);
+      try {
+        await this.request('DELETE', `${project}/repository/branches/${encodeURIComponent(temp.branch)}`);
+      } catch {
+        // Best effort: a leftover temporary branch is harmless
+      }
+    }
+
+    return { ref: `refs/heads/${params.branch}`, sha: params.sha };
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * GitLab Webhook Handling
+ *
+ * GitLab authenticates webhooks with a shared secret sent verbatim in the
+ * X-Gitlab-Token header (no payload signature). Completed pipeline events
+ * map to the same CIEventInput Gate3Service consumes for GitHub events,
+ * with source 'pipeline' and the pipeline ID as the workflow run ID.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { VerifySignatureResult } from '../github/webhook';
+import type { CIConclusion, CIEventInput } from '../policy/gate3';
+import { mapGitLabPipelineStatus } from './gitlab-client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GitLabWebhookEventType =
+  | 'Pipeline Hook'
+  | 'Merge Request Hook'
+  | 'Push Hook'
+  | 'Note Hook';
+
+export interface GitLabPipelinePayload {
+  object_kind: 'pipeline';
+  object_attributes: {
+    id: number;
+    iid?: number;
+    name?: string | null;
+    ref: string;
+    sha: string;
+    status: string;
+    source?: string;
+    created_at?: string;
+    finished_at?: string | null;
+    url?: string;
+  };
+  project: {
+    id: number;
+    path_with_namespace: string;
+    web_url: string;
+  };
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Verify the X-Gitlab-Token header against the configured secret.
+ * Uses a timing-safe comparison.
+ */
+export function verifyGitLabWebhookToken(token: string | undefined, secret: string): VerifySignatureResult {
+  if (!token) {
+    return { valid: false, error: 'Missing token header' };
+  }
+
+  const tokenBuffer = Buffer.from(token);
+  const secretBuffer = Buffer.from(secret);
+  if (tokenBuffer.length !== secretBuffer.length) {
+    return { valid: false, error: 'Token mismatch' };
+  }
+
+  const isValid = timingSafeEqual(tokenBuffer, secretBuffer);
+  return { valid: isValid, error: isValid ? undefined : 'Token mismatch' };
+}
+
+// ============================================================================
+// Event Mapping
+// ============================================================================
+
+/**
+ * Split a project path into owner (group path, possibly nested) and repo.
+ */
+export function splitGitLabProjectPath(pathWithNamespace: string): { owner: string; repo: string } | null {
+  const index = pathWithNamespace.lastIndexOf('/');
+  if (index <= 0 || index === pathWithNamespace.length - 1) {
+    return null;
+  }
+  return { owner: pathWithNamespace.slice(0, index), repo: pathWithNamespace.slice(index + 1) };
+}
+
+/**
+ * Map a GitLab pipeline webhook to the CIEventInput format.
+ * Returns null for other events and for pipelines that have not finished.
+ */
+export function mapGitLabPipelineToCIEvent(webhookId: string, payload: any): CIEventInput | null {
+  if (payload?.object_kind !== 'pipeline' || !payload.object_attributes || !payload.project) {
+    return null;
+  }
+
+  const pipeline = (payload as GitLabPipelinePayload).object_attributes;
+  const project = splitGitLabProjectPath(payload.project.path_with_namespace ?? '');
+  const { status, conclusion } = mapGitLabPipelineStatus(pipeline.status);
+  if (!project || status !== 'completed' || !conclusion) {
+    return null;
+  }
+
+  return {
+    source: 'pipeline',
+    conclusion: conclusion as CIConclusion,
+    headSha: pipeline.sha,
+    owner: project.owner,
+    repo: project.repo,
+    webhookId,
+    workflowRunId: pipeline.id,
+    name: pipeline.name || 'pipeline',
+    url: pipeline.url ?? `${payload.project.web_url}/-/pipelines/${pipeline.id}`,
+    startedAt: pipeline.created_at ? new Date(pipeline.created_at) : undefined,
+    completedAt: pipeline.finished_at ? new Date(pipeline.finished_at) : undefined
+  };
+}
@@ -0,0 +1,3 @@
+export * from './scm-client';
+export * from './gitlab-client';
+export * from './gitlab-webhook';
@@ -0,0 +1,68 @@
+/**
+ * Source Control Provider Abstraction
+ *
+ * ScmClient is the provider-neutral name for the operations defined by
+ * GitHubClient; every provider implements the same interface and keeps
+ * GitHub's terms (a pull request is a GitLab merge request, a workflow run
+ * is a GitLab pipeline). Implementations:
+ * - OctokitGitHubClient / StubGitHubClient / LocalGitClient: provider 'github'
+ * - GitLabScmClient: provider 'gitlab'
+ *
+ * WorkflowRepo.provider selects the client for a repository.
+ */
+
+import type { GitHubClient } from '../github/github-client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const SCM_PROVIDERS = ['github', 'gitlab'] as const;
+
+export type ScmProvider = typeof SCM_PROVIDERS[number];
+
+export const DEFAULT_SCM_PROVIDER: ScmProvider = 'github';
+
+/**
+ * A GitHubClient that names its provider. Write operations must still go
+ * through WriteGate.
+ */
+export interface ScmClient extends GitHubClient {
+  readonly provider: ScmProvider;
+}
+
+export function isScmProvider(value: unknown): value is ScmProvider {
+  return typeof value === 'string' && (SCM_PROVIDERS as readonly string[]).includes(value);
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Clients by provider. Repositories without a provider use GitHub.
+ */
+export class ScmClientRegistry {
+  constructor(private readonly clients: Partial<Record<ScmProvider, GitHubClient>>) {}
+
+  /**
+   * The client for a repository's provider.
+   * Throws for unknown providers and providers without a configured client.
+   */
+  forProvider(provider?: string | null): GitHubClient {
+    const name = provider || DEFAULT_SCM_PROVIDER;
+    if (!isScmProvider(name)) {
+      throw new Error(`Unknown SCM provider "${name}" (expected one of: ${SCM_PROVIDERS.join(', ')})`);
+    }
+
+    const client = this.clients[name];
+    if (!client) {
+      throw new Error(`No client configured for SCM provider "${name}"`);
+    }
+    return client;
+  }
+
+  has(provider: ScmProvider): boolean {
+    return this.clients[provider] !== undefined;
+  }
+}
@@ -46,4 +46,13 @@ declare module 'diff' {
   ): string | false;
 
   export function parsePatch(diffStr: string): ParsedDiff[];
+
+  export interface ArrayChange<T> {
+    value: T[];
+    count?: number;
+    added?: boolean;
+    removed?: boolean;
+  }
+
+  export function diffArrays<T>(oldArr: T[], newArr: T[]): ArrayChange<T>[];
 }
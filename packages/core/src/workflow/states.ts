@@ -5,14 +5,18 @@ export type WorkflowState =
   | 'APPLYING_PATCHES'
   | 'PR_OPEN'
   | 'VERIFYING_CI'
+  | 'MERGING' // Auto-merge enabled or PR queued, awaiting the merge
   | 'DONE'
   | 'NEEDS_HUMAN'
   | 'BLOCKED_POLICY'
   | 'FAILED'
   | 'REJECTED'; // User explicitly rejected via stage rejection
 
+// Workflows in these states no longer act on their PRs or base
+export const SETTLED_STATES: WorkflowState[] = ['DONE', 'FAILED', 'REJECTED'];
+
 // Legacy stage names for job processors
-export type StageName = 'ingest_context' | 'apply_patches' | 'evaluate_policy' | 'feasibility' | 'architecture' | 'timeline' | 'summary' | 'sandbox';
+export type StageName = 'ingest_context' | 'apply_patches' | 'evaluate_policy' | 'feasibility' | 'architecture' | 'timeline' | 'summary' | 'sandbox' | 'merge';
 
 // Gated pipeline stage names
 export type GatedStage = 'feasibility' | 'architecture' | 'timeline' | 'summary' | 'patches' | 'policy' | 'sandbox' | 'pr' | 'done';
@@ -29,14 +33,25 @@ export type WorkflowEventType =
   | 'E_CI_COMPLETED'
   | 'E_PR_MERGED'
   | 'E_PR_CLOSED'
+  | 'E_MERGE_FAILED'
   | 'E_CHANGES_REQUESTED'
   | 'E_PATCH_SET_REJECTED'
+  | 'E_PR_CHANGES_REQUESTED'
+  | 'E_PR_APPROVED'
   // Gated pipeline events
   | 'E_STAGE_APPROVED'
   | 'E_STAGE_REJECTED'
   | 'E_STAGE_CHANGES_REQUESTED'
   | 'E_STAGE_RETRY';
 
+// Inline (path + line) or general comment from a pull request review
+export type ReviewComment = {
+  path?: string;
+  line?: number;
+  body: string;
+  author?: string;
+};
+
 export type TransitionEvent =
   | { type: 'E_WORKFLOW_CREATED' }
   | { type: 'E_APPROVAL_RECORDED' }
@@ -46,8 +61,13 @@ export type TransitionEvent =
   | { type: 'E_CI_COMPLETED'; result: { conclusion: 'success' | 'failure' | 'cancelled' } }
   | { type: 'E_PR_MERGED'; prNumber: number }
   | { type: 'E_PR_CLOSED'; prNumber: number }
+  // Auto-merge was disabled or the PR was removed from the merge queue
+  | { type: 'E_MERGE_FAILED'; prNumber?: number; reason: string }
   | { type: 'E_CHANGES_REQUESTED'; comment?: string }
   | { type: 'E_PATCH_SET_REJECTED'; reason?: string }
+  // Pull request reviews on the orchestrator's PR
+  | { type: 'E_PR_CHANGES_REQUESTED'; prNumber: number; reviewer?: string; body?: string; comments: ReviewComment[] }
+  | { type: 'E_PR_APPROVED'; prNumber: number; reviewer?: string }
   // Gated pipeline events
   | { type: 'E_STAGE_APPROVED'; stage: GatedStage; nextStage: GatedStage }
   | { type: 'E_STAGE_REJECTED'; stage: GatedStage; reason?: string }
@@ -58,6 +78,7 @@ export type EnqueueJob =
   | { queue: 'workflow'; name: 'ingest_context'; payload: { workflowId: string } }
   | { queue: 'workflow'; name: 'apply_patches'; payload: { workflowId: string; patchSetId: string } }
   | { queue: 'workflow'; name: 'evaluate_policy'; payload: { workflowId: string; patchSetId: string } }
+  | { queue: 'workflow'; name: 'merge_pull_request'; payload: { workflowId: string } }
   // Gated pipeline jobs
   | { queue: 'workflow'; name: 'feasibility_analysis'; payload: { workflowId: string } }
   | { queue: 'workflow'; name: 'architecture_analysis'; payload: { workflowId: string } }
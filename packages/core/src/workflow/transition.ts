@@ -25,6 +25,12 @@ export type TransitionContext = {
   approvedPatchSetIds?: string[];
   allPatchSetsApplied?: boolean;
 
+  // Post-Gate3 merge stage: enabled when a WorkflowRepo has a mergeMode
+  mergeEnabled?: boolean;
+  hasMergeApproval?: boolean;
+  ciPassed?: boolean; // combined CI status of the PRs' head commits is green
+  allPullRequestsMerged?: boolean;
+
   // Gated pipeline context
   currentStage?: GatedStage;
   stageStatus?: string;
@@ -227,6 +233,43 @@ export function transition(
     }
   }
 
+  const mergeJob: EnqueueJob = { queue: 'workflow', name: 'merge_pull_request', payload: { workflowId: ctx.workflowId } };
+
+  // Merge stage entry: CI passed (or the merge was approved after it did)
+  if ((current === 'PR_OPEN' || current === 'VERIFYING_CI') && ctx.mergeEnabled) {
+    if (event.type === 'E_CI_COMPLETED' && event.result.conclusion === 'success') {
+      if (!ctx.ciPassed) {
+        return result(current, [], 'CI check passed, awaiting the remaining checks on the head commit');
+      }
+      if (ctx.hasMergeApproval) {
+        return result('MERGING', [mergeJob], 'CI passed, enqueueing merge_pull_request');
+      }
+      return result(current, [], 'CI passed, awaiting merge approval');
+    }
+
+    if (event.type === 'E_APPROVAL_RECORDED' && ctx.hasMergeApproval) {
+      if (ctx.ciPassed) {
+        return result('MERGING', [mergeJob], 'Merge approved, enqueueing merge_pull_request');
+      }
+      return result(current, [], 'Merge approved, awaiting CI');
+    }
+  }
+
+  // Auto-merge disabled or a merge queue removal reported after the
+  // workflow left (or before it reached) MERGING
+  if ((current === 'PR_OPEN' || current === 'VERIFYING_CI') && event.type === 'E_MERGE_FAILED') {
+    const pr = event.prNumber ? ` for PR #${event.prNumber}` : '';
+    return result('NEEDS_HUMAN', [], `Merge failed${pr}: ${event.reason}`);
+  }
+
+  // Reviewer requested changes on the open PR (still awaiting or verifying
+  // CI) - regenerate patches with the review as feedback
+  if ((current === 'PR_OPEN' || current === 'VERIFYING_CI') && event.type === 'E_PR_CHANGES_REQUESTED') {
+    return result('INGESTED', [
+      { queue: 'workflow', name: 'ingest_context', payload: { workflowId: ctx.workflowId } }
+    ], `Changes requested on PR #${event.prNumber} (${event.comments.length} review comment(s)), re-generating patches`);
+  }
+
   // PR_OPEN state transitions (Phase 6)
   if (current === 'PR_OPEN') {
     if (event.type === 'E_PR_MERGED') {
@@ -244,6 +287,10 @@ export function transition(
       }
       return result('NEEDS_HUMAN', [], `CI ${event.result.conclusion}, needs human review`);
     }
+
+    if (event.type === 'E_PR_APPROVED') {
+      return result('PR_OPEN', [], `PR #${event.prNumber} approved, awaiting PR merge`);
+    }
   }
 
   // VERIFYING_CI state transitions (Phase 6)
@@ -256,6 +303,41 @@ export function transition(
     }
   }
 
+  // MERGING state transitions - the merge result arrives by webhook
+  if (current === 'MERGING') {
+    if (event.type === 'E_JOB_COMPLETED' && event.stage === 'merge') {
+      if (event.result?.merged) {
+        return result('DONE', [], 'PRs merged, workflow complete');
+      }
+      return result('MERGING', [], 'Merge requested, awaiting PR merge');
+    }
+
+    if (event.type === 'E_JOB_FAILED' && event.stage === 'merge') {
+      return result('NEEDS_HUMAN', [], `Merge failed: ${event.error}`);
+    }
+
+    if (event.type === 'E_MERGE_FAILED') {
+      const pr = event.prNumber ? ` for PR #${event.prNumber}` : '';
+      return result('NEEDS_HUMAN', [], `Merge failed${pr}: ${event.reason}`);
+    }
+
+    if (event.type === 'E_PR_MERGED') {
+      if (ctx.allPullRequestsMerged === false) {
+        return result('MERGING', [], `PR #${event.prNumber} merged, awaiting other PRs`);
+      }
+      return result('DONE', [], `PR #${event.prNumber} merged, workflow complete`);
+    }
+
+    if (event.type === 'E_PR_CLOSED') {
+      return result('NEEDS_HUMAN', [], `PR #${event.prNumber} closed without merging`);
+    }
+
+    // A new head commit (e.g. a merge queue rebase) that fails CI
+    if (event.type === 'E_CI_COMPLETED' && event.result.conclusion !== 'success') {
+      return result('NEEDS_HUMAN', [], `CI ${event.result.conclusion} while merging, needs human review`);
+    }
+  }
+
   // Policy evaluation can block from any state (Phase 4)
   if (event.type === 'E_POLICY_EVALUATED' && event.result.hasBlockingViolations) {
     return result('BLOCKED_POLICY', [], 'Policy violations detected');
@@ -492,6 +574,18 @@ export function transition(
     return result(current, retryJobs, `Retrying ${event.stage} stage`);
   }
 
+  // PR reviews in the gated pipeline - the webhook moves the stage back to
+  // patches (with the review as feedback) before emitting changes requested
+  if (event.type === 'E_PR_CHANGES_REQUESTED' && ctx.currentStage) {
+    return result(current, [
+      { queue: 'workflow', name: 'ingest_context', payload: { workflowId: ctx.workflowId } }
+    ], `Changes requested on PR #${event.prNumber} (${event.comments.length} review comment(s)), re-generating patches`);
+  }
+
+  if (event.type === 'E_PR_APPROVED' && ctx.currentStage) {
+    return result(current, [], `PR #${event.prNumber} approved`);
+  }
+
   // Default: stay in current state (unknown event)
   return result(current, [], `No transition for event ${event.type} in state ${current}`);
 }
@@ -1,3 +1,8 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { GitLabScmClient } from '@core/scm/gitlab-client';
+import type { ScmClient, ScmProvider } from '@core/scm/scm-client';
+
 jest.setTimeout(20000);
 
 const describeIfCi = process.env.CI === 'true' ? describe : describe.skip;
@@ -5,6 +10,23 @@ const describeIfCi = process.env.CI === 'true' ? describe : describe.skip;
 const requestMock = jest.fn();
 const gitGetTreeMock = jest.fn();
 const pullsCreateMock = jest.fn();
+const pullsGetMock = jest.fn();
+const pullsMergeMock = jest.fn();
+const graphqlMock = jest.fn();
+const issuesCreateCommentMock = jest.fn();
+const issuesListCommentsMock = jest.fn();
+const reposMocks = {
+  get: jest.fn(),
+  getContent: jest.fn(),
+  getBranch: jest.fn()
+};
+const gitDataMocks = {
+  getCommit: jest.fn(),
+  createBlob: jest.fn(),
+  createTree: jest.fn(),
+  createCommit: jest.fn(),
+  updateRef: jest.fn()
+};
 
 jest.mock('@octokit/auth-app', () => ({
   createAppAuth: jest.fn()
@@ -13,19 +35,25 @@ jest.mock('@octokit/auth-app', () => ({
 jest.mock('@octokit/rest', () => {
   class Octokit {
     request = requestMock;
+    graphql = graphqlMock;
     git = {
       getTree: gitGetTreeMock,
-      createRef: jest.fn()
+      createRef: jest.fn(),
+      ...gitDataMocks
     };
     repos = {
-      get: jest.fn(),
-      getContent: jest.fn(),
-      getBranch: jest.fn(),
+      ...reposMocks,
       createOrUpdateFileContents: jest.fn(),
       deleteFile: jest.fn()
     };
     pulls = {
-      create: pullsCreateMock
+      create: pullsCreateMock,
+      get: pullsGetMock,
+      merge: pullsMergeMock
+    };
+    issues = {
+      createComment: issuesCreateCommentMock,
+      listComments: issuesListCommentsMock
     };
     constructor() {}
   }
@@ -41,6 +69,10 @@ describeIfCi('OctokitGitHubClient contract', () => {
     requestMock.mockReset();
     gitGetTreeMock.mockReset();
     pullsCreateMock.mockReset();
+    pullsGetMock.mockReset();
+    pullsMergeMock.mockReset();
+    graphqlMock.mockReset();
+    Object.values(gitDataMocks).forEach((mock) => mock.mockReset());
   });
 
   test('OctokitGitHubClient.getTree hits git trees endpoint', async () => {
@@ -159,6 +191,141 @@ describeIfCi('OctokitGitHubClient contract', () => {
     );
   });
 
+  test('OctokitGitHubClient.listCheckRuns hits check-runs endpoint', async () => {
+    requestMock.mockResolvedValue({
+      data: {
+        total_count: 1,
+        check_runs: [
+          {
+            id: 201,
+            name: 'CodeQL',
+            status: 'completed',
+            conclusion: 'success',
+            html_url: 'https://example.com/runs/201',
+            app: { slug: 'github-code-scanning' }
+          }
+        ]
+      }
+    });
+    const client = OctokitGitHubClient.fromToken('test-token', 'http://example.com');
+    const result = await client.listCheckRuns({ owner: 'acme', repo: 'app', ref: 'abc123' });
+
+    expect(result.checkRuns[0]).toMatchObject({ name: 'CodeQL', appSlug: 'github-code-scanning' });
+
+    expect(requestMock).toHaveBeenCalledWith(
+      'GET /repos/{owner}/{repo}/commits/{ref}/check-runs',
+      {
+        owner: 'acme',
+        repo: 'app',
+        ref: 'abc123',
+        per_page: 100
+      }
+    );
+  });
+
+  test('OctokitGitHubClient.downloadWorkflowRunArtifacts lists and downloads artifact archives', async () => {
+    // Single stored entry: reports/junit.xml
+    const name = Buffer.from('reports/junit.xml');
+    const body = Buffer.from('<testsuites/>');
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(body.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(body.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    const centralOffset = local.length + name.length + body.length;
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(1, 10);
+    end.writeUInt32LE(centralOffset, 16);
+    const archive = Buffer.concat([local, name, body, central, name, end]);
+
+    requestMock
+      .mockResolvedValueOnce({
+        data: {
+          total_count: 2,
+          artifacts: [
+            { id: 301, name: 'test-reports', size_in_bytes: 512, expired: false },
+            { id: 302, name: 'old-reports', size_in_bytes: 512, expired: true }
+          ]
+        }
+      })
+      .mockResolvedValueOnce({ data: archive.buffer.slice(archive.byteOffset, archive.byteOffset + archive.length) });
+    const client = OctokitGitHubClient.fromToken('test-token', 'http://example.com');
+    const result = await client.downloadWorkflowRunArtifacts({ owner: 'acme', repo: 'app', runId: 42 });
+
+    expect(result.artifacts).toEqual([
+      {
+        id: 301,
+        name: 'test-reports',
+        sizeInBytes: 512,
+        files: [{ path: 'reports/junit.xml', content: '<testsuites/>' }]
+      }
+    ]);
+    expect(requestMock).toHaveBeenNthCalledWith(
+      1,
+      'GET /repos/{owner}/{repo}/actions/runs/{run_id}/artifacts',
+      { owner: 'acme', repo: 'app', run_id: 42, per_page: 100 }
+    );
+    expect(requestMock).toHaveBeenNthCalledWith(
+      2,
+      'GET /repos/{owner}/{repo}/actions/artifacts/{artifact_id}/{archive_format}',
+      { owner: 'acme', repo: 'app', artifact_id: 301, archive_format: 'zip' }
+    );
+  });
+
+  test('OctokitGitHubClient Git Data operations hit the git endpoints', async () => {
+    gitDataMocks.getCommit.mockResolvedValue({
+      data: { sha: 'base', tree: { sha: 'tree-0' }, parents: [{ sha: 'root' }], message: 'Base' }
+    });
+    gitDataMocks.createBlob.mockResolvedValue({ data: { sha: 'blob-1' } });
+    gitDataMocks.createTree.mockResolvedValue({ data: { sha: 'tree-1' } });
+    gitDataMocks.createCommit.mockResolvedValue({
+      data: { sha: 'commit-1', message: 'Patch', html_url: 'https://example.com/commit/commit-1' }
+    });
+    gitDataMocks.updateRef.mockResolvedValue({
+      data: { ref: 'refs/heads/feature', object: { sha: 'commit-1' } }
+    });
+    const client = OctokitGitHubClient.fromToken('test-token', 'http://example.com');
+
+    const base = await client.getCommit({ owner: 'acme', repo: 'app', sha: 'base' });
+    await client.createBlob({ owner: 'acme', repo: 'app', content: 'YQ==', encoding: 'base64' });
+    await client.createTree({
+      owner: 'acme',
+      repo: 'app',
+      baseTree: base.treeSha,
+      entries: [
+        { path: 'a.txt', mode: '100644', sha: 'blob-1' },
+        { path: 'old.txt', mode: '100644', sha: null }
+      ]
+    });
+    const commit = await client.createCommit({ owner: 'acme', repo: 'app', message: 'Patch', tree: 'tree-1', parents: ['base'] });
+    const ref = await client.updateRef({ owner: 'acme', repo: 'app', branch: 'feature', sha: commit.sha });
+
+    expect(base).toEqual({ sha: 'base', treeSha: 'tree-0', parents: ['root'], message: 'Base' });
+    expect(gitDataMocks.createBlob).toHaveBeenCalledWith({ owner: 'acme', repo: 'app', content: 'YQ==', encoding: 'base64' });
+    expect(gitDataMocks.createTree).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'app',
+      base_tree: 'tree-0',
+      tree: [
+        { path: 'a.txt', mode: '100644', type: 'blob', sha: 'blob-1' },
+        { path: 'old.txt', mode: '100644', type: 'blob', sha: null }
+      ]
+    });
+    expect(gitDataMocks.createCommit).toHaveBeenCalledWith({
+      owner: 'acme', repo: 'app', message: 'Patch', tree: 'tree-1', parents: ['base']
+    });
+    expect(gitDataMocks.updateRef).toHaveBeenCalledWith({
+      owner: 'acme', repo: 'app', ref: 'heads/feature', sha: 'commit-1', force: false
+    });
+    expect(ref).toEqual({ ref: 'refs/heads/feature', sha: 'commit-1' });
+  });
+
   test('OctokitGitHubClient.openPullRequest hits PR endpoint', async () => {
     pullsCreateMock.mockResolvedValue({
       data: { html_url: 'https://example.com/pull/1', number: 1 }
@@ -185,4 +352,189 @@ describeIfCi('OctokitGitHubClient contract', () => {
       body: 'Body'
     });
   });
+
+  test('OctokitGitHubClient.mergePullRequest enables auto-merge or enqueues the PR', async () => {
+    pullsGetMock.mockResolvedValue({
+      data: { number: 7, node_id: 'PR_node7', merged: false, head: { sha: 'head-sha' } }
+    });
+    graphqlMock.mockResolvedValue({});
+    const client = OctokitGitHubClient.fromToken('test-token', 'http://example.com');
+    const params = { owner: 'acme', repo: 'app', pullNumber: 7, mergeMethod: 'squash' as const };
+
+    expect(await client.mergePullRequest({ ...params, mode: 'auto_merge' })).toEqual({ status: 'auto_merge_enabled' });
+    expect(pullsGetMock).toHaveBeenCalledWith({ owner: 'acme', repo: 'app', pull_number: 7 });
+    expect(graphqlMock).toHaveBeenLastCalledWith(
+      expect.stringContaining('enablePullRequestAutoMerge'),
+      { pullRequestId: 'PR_node7', mergeMethod: 'SQUASH', expectedHeadOid: 'head-sha' }
+    );
+
+    expect(await client.mergePullRequest({ ...params, mode: 'merge_queue' })).toEqual({ status: 'queued' });
+    expect(graphqlMock).toHaveBeenLastCalledWith(
+      expect.stringContaining('enqueuePullRequest'),
+      { pullRequestId: 'PR_node7', expectedHeadOid: 'head-sha' }
+    );
+
+    // PRs that can merge right away are merged directly
+    graphqlMock.mockRejectedValue(new Error('Pull request is in clean status'));
+    pullsMergeMock.mockResolvedValue({ data: { sha: 'merge-sha', merged: true } });
+    expect(await client.mergePullRequest({ ...params, mode: 'auto_merge' })).toEqual({ status: 'merged', sha: 'merge-sha' });
+    expect(pullsMergeMock).toHaveBeenCalledWith({
+      owner: 'acme', repo: 'app', pull_number: 7, merge_method: 'squash', sha: 'head-sha'
+    });
+  });
+});
+
+// ============================================================================
+// Provider contract: every ScmClient against its recorded API fixtures
+// ============================================================================
+
+const SCM_FIXTURES = join(__dirname, '..', 'fixtures', 'scm');
+
+const loadFixture = (provider: ScmProvider) =>
+  JSON.parse(readFileSync(join(SCM_FIXTURES, `${provider}.json`), 'utf8'));
+
+/**
+ * Replay recorded Octokit responses through the mocked Octokit methods.
+ */
+function githubClientFromFixture(): ScmClient {
+  const { responses } = loadFixture('github');
+  const respond = (key: string) => async () => ({ data: responses[key] });
+  reposMocks.get.mockImplementation(respond('repos.get'));
+  reposMocks.getBranch.mockImplementation(respond('repos.getBranch'));
+  reposMocks.getContent.mockImplementation(respond('repos.getContent'));
+  gitDataMocks.getCommit.mockImplementation(respond('git.getCommit'));
+  pullsCreateMock.mockImplementation(respond('pulls.create'));
+  issuesCreateCommentMock.mockImplementation(respond('issues.createComment'));
+  issuesListCommentsMock.mockImplementation(respond('issues.listComments'));
+  requestMock.mockImplementation(async (route: string | { url: string }) => {
+    const key = typeof route === 'string' ? route : route.url;
+    if (!(key in responses)) {
+      throw new Error(`No recorded response for ${key}`);
+    }
+    return { data: responses[key] };
+  });
+  return OctokitGitHubClient.fromToken('test-token', 'http://example.com');
+}
+
+/**
+ * Replay recorded GitLab HTTP interactions; unrecorded requests fail.
+ */
+function gitlabClientFromFixture(): ScmClient {
+  const { interactions } = loadFixture('gitlab');
+  const fakeFetch = jest.fn(async (url: string, init: { method: string; headers: Record<string, string>; body?: string }) => {
+    const { pathname, searchParams } = new URL(url);
+    const path = pathname.replace(/^\/api\/v4/, '');
+    const query = Object.fromEntries(searchParams);
+    const recorded = interactions.find((interaction: any) =>
+      interaction.method === init.method &&
+      interaction.path === path &&
+      JSON.stringify(interaction.query ?? {}) === JSON.stringify(query)
+    );
+    if (!recorded) {
+      throw new Error(`No recorded interaction for ${init.method} ${path}?${searchParams}`);
+    }
+    expect(init.headers['PRIVATE-TOKEN']).toBe('test-token');
+    if (recorded.request) {
+      expect(JSON.parse(init.body ?? '{}')).toEqual(recorded.request);
+    }
+    return new Response(JSON.stringify(recorded.body), { status: recorded.status, headers: recorded.headers });
+  });
+  return new GitLabScmClient({ token: 'test-token', baseUrl: 'https://gitlab.example.com/api/v4', fetch: fakeFetch as any });
+}
+
+const SCM_CLIENT_FACTORIES: Record<ScmProvider, () => ScmClient> = {
+  github: githubClientFromFixture,
+  gitlab: gitlabClientFromFixture
+};
+
+describeIfCi.each(Object.keys(SCM_CLIENT_FACTORIES) as ScmProvider[])('ScmClient contract (%s)', (provider) => {
+  const repo = { owner: 'acme', repo: 'app' };
+  let client: ScmClient;
+
+  beforeEach(() => {
+    requestMock.mockReset();
+    pullsCreateMock.mockReset();
+    issuesCreateCommentMock.mockReset();
+    issuesListCommentsMock.mockReset();
+    Object.values(reposMocks).forEach((mock) => mock.mockReset());
+    Object.values(gitDataMocks).forEach((mock) => mock.mockReset());
+    client = SCM_CLIENT_FACTORIES[provider]();
+  });
+
+  test('names its provider', () => {
+    expect(client.provider).toBe(provider);
+  });
+
+  test('reads repositories, branches, files and commits', async () => {
+    expect(await client.getRepository(repo)).toMatchObject({
+      id: 42,
+      name: 'app',
+      fullName: 'acme/app',
+      defaultBranch: 'main',
+      private: true,
+      description: 'Demo application',
+      topics: ['demo']
+    });
+    expect(await client.getBranch({ ...repo, branch: 'main' })).toEqual({ name: 'main', sha: 'abc123', protected: true });
+    expect(await client.getFileContents({ ...repo, path: 'README.md', ref: 'main' })).toEqual({
+      path: 'README.md',
+      content: '# App\n',
+      sha: 'blob1',
+      size: 6
+    });
+
+    const commit = await client.getCommit({ ...repo, sha: 'abc123' });
+    expect(commit).toMatchObject({ sha: 'abc123', parents: ['root1'], message: 'Initial commit' });
+    expect(commit.treeSha).toEqual(expect.any(String));
+  });
+
+  test('lists runs and their jobs with normalized statuses', async () => {
+    const runs = await client.listWorkflowRuns({ ...repo, branch: 'main' });
+    expect(runs.totalCount).toBe(1);
+    expect(runs.runs[0]).toMatchObject({
+      id: 7,
+      status: 'completed',
+      conclusion: 'success',
+      headSha: 'abc123',
+      headBranch: 'main',
+      event: 'push'
+    });
+
+    const jobs = await client.getWorkflowRunJobs({ ...repo, runId: 7 });
+    expect(jobs.totalCount).toBe(1);
+    expect(jobs.jobs[0]).toMatchObject({
+      id: 101,
+      name: 'build',
+      status: 'completed',
+      conclusion: 'failure',
+      startedAt: '2026-10-01T10:01:00Z',
+      completedAt: '2026-10-01T10:04:00Z'
+    });
+  });
+
+  test('opens pull requests (merge requests on GitLab)', async () => {
+    const pr = await client.openPullRequest({ ...repo, head: 'feature', base: 'main', title: 'Add feature', body: 'Body' });
+
+    expect(pr.number).toBe(3);
+    expect(pr.url).toMatch(/\/(pull|merge_requests)\/3$/);
+  });
+
+  test('posts comments on pull requests', async () => {
+    const comment = await client.createIssueComment({ ...repo, issueNumber: 3, body: 'Status', pullRequest: true });
+
+    expect(comment.id).toBe(9001);
+    if (provider === 'github') {
+      expect(issuesCreateCommentMock).toHaveBeenCalledWith({ owner: 'acme', repo: 'app', issue_number: 3, body: 'Status' });
+    }
+  });
+
+  test('lists issue discussion comments', async () => {
+    expect(await client.listIssueComments({ ...repo, issueNumber: 5 })).toEqual([{
+      id: 9102,
+      body: 'Please keep the old endpoint',
+      author: 'alice',
+      bot: false,
+      createdAt: '2026-10-01T09:00:00Z'
+    }]);
+  });
 });
@@ -15,15 +15,25 @@ function createMockGitHubClient() {
     getFileContents: jest.fn(stub.getFileContents.bind(stub)),
     getBranch: jest.fn(stub.getBranch.bind(stub)),
     getTree: jest.fn(stub.getTree.bind(stub)),
+    getCommit: jest.fn(stub.getCommit.bind(stub)),
     dispatchWorkflow: jest.fn(stub.dispatchWorkflow.bind(stub)),
     listWorkflowRuns: jest.fn(stub.listWorkflowRuns.bind(stub)),
     getWorkflowRun: jest.fn(stub.getWorkflowRun.bind(stub)),
     getWorkflowRunJobs: jest.fn(stub.getWorkflowRunJobs.bind(stub)),
+    listCheckRuns: jest.fn(stub.listCheckRuns.bind(stub)),
+    downloadWorkflowRunArtifacts: jest.fn(stub.downloadWorkflowRunArtifacts.bind(stub)),
+    listIssueComments: jest.fn(stub.listIssueComments.bind(stub)),
+    createIssueComment: jest.fn(stub.createIssueComment.bind(stub)),
     createBranch: jest.fn(stub.createBranch.bind(stub)),
     updateFile: jest.fn(stub.updateFile.bind(stub)),
     deleteFile: jest.fn(stub.deleteFile.bind(stub)),
-    openPullRequest: jest.fn(stub.openPullRequest.bind(stub))
-  } as GitHubClient & { openPullRequest: jest.Mock };
+    openPullRequest: jest.fn(stub.openPullRequest.bind(stub)),
+    mergePullRequest: jest.fn(stub.mergePullRequest.bind(stub)),
+    createBlob: jest.fn(stub.createBlob.bind(stub)),
+    createTree: jest.fn(stub.createTree.bind(stub)),
+    createCommit: jest.fn(stub.createCommit.bind(stub)),
+    updateRef: jest.fn(stub.updateRef.bind(stub))
+  } as GitHubClient & { openPullRequest: jest.Mock; mergePullRequest: jest.Mock; createBlob: jest.Mock; updateRef: jest.Mock };
 }
 
 describeWithDb('Invariant: no GitHub contents writes without approval', () => {
@@ -77,4 +87,44 @@ describeWithDb('Invariant: no GitHub contents writes without approval', () => {
     expect(res.number).toBe(1);
     expect(githubMock.openPullRequest).toHaveBeenCalledTimes(1);
   });
+
+  it('blocks Git Data writes before approval exists', async () => {
+    const workflow = await prisma.workflow.create({ data: { state: 'WAITING_USER_APPROVAL' } });
+
+    const githubMock = createMockGitHubClient();
+    const gate = new WriteGate(prisma, githubMock);
+
+    await expect(
+      gate.createBlob(workflow.id, { owner: 'o', repo: 'r', content: 'x', encoding: 'utf-8' })
+    ).rejects.toThrow('WRITE_BLOCKED_NO_APPROVAL');
+    await expect(
+      gate.updateRef(workflow.id, { owner: 'o', repo: 'r', branch: 'bot/branch', sha: 'abc' })
+    ).rejects.toThrow('WRITE_BLOCKED_NO_APPROVAL');
+
+    expect(githubMock.createBlob).not.toHaveBeenCalled();
+    expect(githubMock.updateRef).not.toHaveBeenCalled();
+  });
+
+  it('blocks mergePullRequest without a merge approval', async () => {
+    const workflow = await prisma.workflow.create({ data: { state: 'PR_OPEN' } });
+
+    // Approving the patches does not approve merging them
+    await prisma.approval.create({
+      data: { workflowId: workflow.id, kind: 'apply_patches' }
+    });
+
+    const githubMock = createMockGitHubClient();
+    const gate = new WriteGate(prisma, githubMock);
+    const params = { owner: 'o', repo: 'r', pullNumber: 1, mode: 'auto_merge' as const, mergeMethod: 'squash' as const };
+
+    await expect(gate.mergePullRequest(workflow.id, params)).rejects.toThrow('WRITE_BLOCKED_NO_APPROVAL');
+    expect(githubMock.mergePullRequest).not.toHaveBeenCalled();
+
+    await prisma.approval.create({
+      data: { workflowId: workflow.id, kind: 'merge' }
+    });
+
+    expect(await gate.mergePullRequest(workflow.id, params)).toEqual({ status: 'auto_merge_enabled' });
+    expect(githubMock.mergePullRequest).toHaveBeenCalledTimes(1);
+  });
 });
@@ -1044,6 +1044,89 @@ describe('Agent Coordination', () => {
     });
   });
 
+  describe('hunk-level merging', () => {
+    class DiffAgent extends TestAgent {
+      constructor(type: AgentType, id: string, private readonly diff: string) {
+        super(type, id);
+      }
+
+      async propose(context: AgentContext): Promise<ProposalResult> {
+        return this.createSuccess({
+          title: `${this.id} proposal`,
+          description: 'Generated by diff agent',
+          baseSha: context.repo.baseSha,
+          patches: [{
+            taskId: context.task.id,
+            title: `${this.id} patch`,
+            summary: 'Change',
+            diff: this.diff,
+            files: [{ path: 'src/users.ts', action: 'modify', additions: 1, deletions: 1 }],
+            addsTests: this.type === 'test',
+            riskLevel: 'low',
+          }],
+        }, new Date());
+      }
+    }
+
+    const header = '--- a/src/users.ts\n+++ b/src/users.ts';
+    const backendDiff = `${header}\n@@ -2,3 +2,3 @@\n export function find() {\n-  return null;\n+  return db.find();\n }`;
+    const testDiff = `${header}\n@@ -10,3 +10,3 @@\n export function count() {\n-  return 0;\n+  return db.count();\n }`;
+
+    it('should combine non-overlapping hunks of a shared file without conflicts', async () => {
+      registry.register(new DiffAgent('backend', 'backend-agent', backendDiff));
+      registry.register(new DiffAgent('test', 'test-agent', testDiff));
+      service = createProposalService(mockPrisma, registry);
+
+      const result = await service.generateParallel(createTestContext(), 2);
+
+      expect(result.conflicts).toBeUndefined();
+      const [patch] = result.mergedPatchSet!.patches;
+      expect(result.mergedPatchSet!.patches).toHaveLength(1);
+      expect(patch.diff).toContain('+  return db.find();');
+      expect(patch.diff).toContain('+  return db.count();');
+      expect(patch.files).toEqual([{ path: 'src/users.ts', action: 'modify', additions: 2, deletions: 2 }]);
+      expect(patch.addsTests).toBe(true);
+    });
+
+    it('should report overlapping hunks as overlap conflicts and store them for per-hunk picks', async () => {
+      const overlapping = `${header}\n@@ -2,3 +2,3 @@\n export function find() {\n-  return null;\n+  return cache.find();\n }`;
+      registry.register(new DiffAgent('backend', 'backend-agent', backendDiff));
+      registry.register(new DiffAgent('test', 'test-agent', `${overlapping}\n${testDiff.split('\n').slice(2).join('\n')}`));
+      const prisma = {
+        ...mockPrisma,
+        artifact: { findFirst: jest.fn().mockResolvedValue(null), create: jest.fn() },
+      };
+      service = createProposalService(prisma, registry);
+
+      const result = await service.generateParallel(createTestContext(), 2);
+
+      expect(result.conflicts).toEqual([{
+        file: 'src/users.ts',
+        agents: ['backend-agent', 'test-agent'],
+        type: 'overlap',
+        resolution: 'merged',
+        hunks: [{
+          index: 0,
+          oldStart: 3,
+          base: ['  return null;'],
+          variants: [
+            { agentId: 'backend-agent', lines: ['  return db.find();'] },
+            { agentId: 'test-agent', lines: ['  return cache.find();'] },
+          ],
+          selected: 'backend-agent',
+        }],
+      }]);
+      // The test agent's non-overlapping hunk is kept
+      expect(result.mergedPatchSet!.patches[0].diff).toContain('+  return db.count();');
+
+      await service.submitMergedProposal('wf-test-123', result);
+
+      const stored = prisma.artifact.create.mock.calls[0][0].data;
+      expect(stored).toMatchObject({ kind: 'PatchConflictsV1', path: '.ai/PATCH-CONFLICTS-ps-coord.json', artifactVersion: 1 });
+      expect(JSON.parse(stored.content).files[0]).toMatchObject({ path: 'src/users.ts', taskId: 'task-1', resolution: 'merged' });
+    });
+  });
+
   describe('patch merging', () => {
     it('should merge patches from multiple agents', async () => {
       registry.register(new TestAgent('backend', 'agent-1'));
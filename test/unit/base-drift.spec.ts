@@ -0,0 +1,153 @@
+/**
+ * Tests for applying base branch pushes: tree comparison, incremental
+ * re-indexing and base drift events
+ */
+
+import { diffTreeBlobs, patchFilePaths, refreshRepoIndexOnPush } from '@core/indexer';
+
+const blob = (path: string, sha: string) => ({ path, mode: '100644', type: 'blob' as const, sha, size: 20 });
+
+describe('diffTreeBlobs', () => {
+  it('should list added, modified and removed files', () => {
+    const changes = diffTreeBlobs(
+      [blob('a.ts', '1'), blob('b.ts', '2'), blob('c.ts', '3'), { path: 'src', mode: '040000', type: 'tree', sha: 't1' }],
+      [blob('a.ts', '1'), blob('b.ts', '2b'), blob('d.ts', '4'), { path: 'src', mode: '040000', type: 'tree', sha: 't2' }]
+    );
+
+    expect(changes).toEqual({ added: ['d.ts'], modified: ['b.ts'], removed: ['c.ts'] });
+  });
+});
+
+describe('patchFilePaths', () => {
+  it('should read paths from patch file entries', () => {
+    expect(patchFilePaths([{ path: 'a.ts', additions: 1, deletions: 0 }, 'b.ts', { additions: 2 }])).toEqual(['a.ts', 'b.ts']);
+    expect(patchFilePaths(null)).toEqual([]);
+  });
+});
+
+describe('refreshRepoIndexOnPush', () => {
+  const push = { repoOwner: 'acme', repoName: 'app', baseBranch: 'main', beforeSha: 'old', afterSha: 'new' };
+
+  const createMocks = () => {
+    const trees: Record<string, ReturnType<typeof blob>[]> = {
+      old: [blob('src/a.ts', 'a1'), blob('src/b.ts', 'b1'), blob('PROJECT_CONTEXT.md', 'c1')],
+      new: [blob('src/a.ts', 'a1'), blob('src/b.ts', 'b2'), blob('PROJECT_CONTEXT.md', 'c1')]
+    };
+    const events: any[] = [];
+    const context = { baseSha: 'old', contextPath: 'PROJECT_CONTEXT.md', isStale: false, codeIndex: null };
+    const prisma = {
+      repoFileIndex: {
+        findMany: jest.fn().mockResolvedValue([
+          { path: 'src/a.ts', blobSha: 'a1', language: 'typescript', symbols: [], imports: ['./b'] }
+        ]),
+        createMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      repoContext: {
+        findUnique: jest.fn(async () => ({ ...context })),
+        upsert: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn(async ({ where, data }: any) => {
+          if (where.baseSha !== context.baseSha) return { count: 0 };
+          Object.assign(context, data);
+          return { count: 1 };
+        })
+      },
+      workflow: {
+        findMany: jest.fn(async () => [
+          {
+            id: 'wf-touching',
+            patchSets: [
+              { id: 'ps-1', patches: [{ files: [{ path: 'src/b.ts' }, { path: 'src/new.ts' }] }] },
+              { id: 'ps-2', patches: [{ files: [{ path: 'README.md' }] }] }
+            ],
+            events: events.filter(e => e.workflowId === 'wf-touching')
+          },
+          { id: 'wf-unrelated', patchSets: [{ id: 'ps-3', patches: [{ files: [{ path: 'src/a.ts' }] }] }], events: [] }
+        ])
+      },
+      workflowEvent: {
+        create: jest.fn(async ({ data }: any) => { events.push(data); return data; })
+      }
+    };
+    const github = {
+      getTree: jest.fn(async ({ sha }: any) => ({ sha, truncated: false, tree: trees[sha] })),
+      getFileContents: jest.fn(async ({ path }: any) => ({ path, content: 'export const b = 2;', sha: 'b2', size: 20 }))
+    };
+    return { prisma, github, events, trees, context };
+  };
+
+  it('should re-index changed files and record drift on workflows touching them', async () => {
+    const { prisma, github, events } = createMocks();
+
+    const result = await refreshRepoIndexOnPush(prisma as any, github as any, push);
+
+    expect(result.changes).toEqual({ added: [], modified: ['src/b.ts'], removed: [] });
+    expect(result.parsedFiles).toBe(1);
+    expect(github.getFileContents).toHaveBeenCalledTimes(1);
+    expect(prisma.repoContext.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: expect.objectContaining({ indexedSha: 'new', importGraph: { 'src/a.ts': ['src/b.ts'], 'src/b.ts': [] } })
+    }));
+    expect(prisma.repoContext.updateMany).toHaveBeenCalledWith({
+      where: { repoOwner: 'acme', repoName: 'app', baseBranch: 'main', baseSha: 'old' },
+      data: { baseSha: 'new', isStale: false }
+    });
+
+    expect(result.drift).toEqual([{ workflowId: 'wf-touching', files: ['src/b.ts'], patchSetIds: ['ps-1'] }]);
+    expect(events).toEqual([{
+      workflowId: 'wf-touching',
+      type: 'base.drift',
+      payload: {
+        repoOwner: 'acme',
+        repoName: 'app',
+        baseBranch: 'main',
+        previousSha: 'old',
+        baseSha: 'new',
+        files: ['src/b.ts'],
+        patchSetIds: ['ps-1']
+      }
+    }]);
+
+    // A redelivered push records nothing new
+    const again = await refreshRepoIndexOnPush(prisma as any, github as any, push);
+    expect(again.drift).toEqual([]);
+    expect(events).toHaveLength(1);
+  });
+
+  it('should skip a replayed push without moving the context back', async () => {
+    const { prisma, github, trees, context } = createMocks();
+    trees.newer = trees.new;
+
+    await refreshRepoIndexOnPush(prisma as any, github as any, push);
+    await refreshRepoIndexOnPush(prisma as any, github as any, { ...push, beforeSha: 'new', afterSha: 'newer' });
+    prisma.repoContext.upsert.mockClear();
+
+    const replayed = await refreshRepoIndexOnPush(prisma as any, github as any, push);
+
+    expect(replayed).toMatchObject({ applied: false, drift: [] });
+    expect(prisma.repoContext.upsert).not.toHaveBeenCalled();
+    expect(context.baseSha).toBe('newer');
+  });
+
+  it('should keep the context stale across a later push that does not touch it', async () => {
+    const { prisma, github, trees, context } = createMocks();
+    trees.new[2] = blob('PROJECT_CONTEXT.md', 'c2');
+    trees.newer = [...trees.new.slice(0, 2), blob('src/c.ts', 'c3'), trees.new[2]];
+
+    expect((await refreshRepoIndexOnPush(prisma as any, github as any, push)).contextChanged).toBe(true);
+    const second = await refreshRepoIndexOnPush(prisma as any, github as any, { ...push, beforeSha: 'new', afterSha: 'newer' });
+
+    expect(second).toMatchObject({ applied: true, contextChanged: false });
+    expect(context).toMatchObject({ baseSha: 'newer', isStale: true });
+  });
+
+  it('should keep the context stale when the context document changed', async () => {
+    const { prisma, github, trees } = createMocks();
+    trees.new[2] = blob('PROJECT_CONTEXT.md', 'c2');
+
+    const result = await refreshRepoIndexOnPush(prisma as any, github as any, push);
+
+    expect(result.contextChanged).toBe(true);
+    expect(prisma.repoContext.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: { baseSha: 'new', isStale: true }
+    }));
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  blastRadiusViolation,
+  computeBlastRadius,
+  countDependents,
+  riskLevelFromScore,
+  riskLevelRank,
+  type ImportGraph,
+} from '@core/policy/blast-radius';
+import { createPolicyConfig } from '@core/policy/policy-engine';
+import { mergePolicyConfig, parsePolicyFile } from '@core/policy/policy-file';
+import { evaluateGate2 } from '@core/policy/gate2';
+import { PolicyRuleRegistry } from '@core/policy/policy-rules';
+
+function modified(path: string, added = 1, removed = 0): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    'index abc123..def456 100644',
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -1,${removed + 1} +1,${added + 1} @@`,
+    ' context',
+    ...Array.from({ length: removed }, (_, i) => `-old ${i}`),
+    ...Array.from({ length: added }, (_, i) => `+new ${i}`),
+    '',
+  ].join('\n');
+}
+
+function deleted(path: string): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    'deleted file mode 100644',
+    `--- a/${path}`,
+    '+++ /dev/null',
+    '@@ -1,2 +0,0 @@',
+    '-one',
+    '-two',
+    '',
+  ].join('\n');
+}
+
+function renamed(from: string, to: string): string {
+  return [
+    `diff --git a/${from} b/${to}`,
+    'similarity index 100%',
+    `rename from ${from}`,
+    `rename to ${to}`,
+    '',
+  ].join('\n');
+}
+
+const GRAPH: ImportGraph = {
+  'src/app.ts': ['src/routes.ts'],
+  'src/routes.ts': ['src/users/service.ts', 'src/orders/service.ts'],
+  'src/orders/service.ts': ['src/users/service.ts'],
+  'src/users/controller.ts': ['src/users/service.ts'],
+  'src/util.ts': [],
+};
+
+describe('computeBlastRadius', () => {
+  test('a small change scores low', () => {
+    const radius = computeBlastRadius(modified('src/util.ts', 3));
+    expect(radius.factors).toMatchObject({
+      filesTouched: 1,
+      directoriesSpanned: 1,
+      linesChanged: 3,
+      dependents: null,
+    });
+    expect(radius.score).toBe(5);
+    expect(radius.level).toBe('low');
+  });
+
+  test('counts deletions, renames, entrypoints and config files', () => {
+    const diff = [
+      deleted('src/legacy.ts'),
+      renamed('lib/a.ts', 'lib/b.ts'),
+      modified('apps/api/src/main.ts'),
+      modified('package.json'),
+    ].join('');
+    const { factors, points } = computeBlastRadius(diff);
+
+    expect(factors).toMatchObject({
+      filesTouched: 4,
+      directoriesSpanned: 4,
+      deletedFiles: 1,
+      renamedFiles: 1,
+      entrypoints: ['apps/api/src/main.ts'],
+      configFiles: ['package.json'],
+    });
+    expect(points).toMatchObject({ deletedFiles: 5, renamedFiles: 2, entrypoints: 8, configFiles: 5 });
+  });
+
+  test('caps each factor', () => {
+    const diff = Array.from({ length: 30 }, (_, i) => modified(`dir${i}/file.ts`, 100)).join('');
+    const { points, score, level } = computeBlastRadius(diff);
+
+    expect(points).toMatchObject({ filesTouched: 20, directoriesSpanned: 15, linesChanged: 20 });
+    expect(score).toBe(55);
+    expect(level).toBe('medium');
+  });
+
+  test('counts transitive dependents from the import graph', () => {
+    expect(countDependents(GRAPH, ['src/users/service.ts'])).toBe(4);
+    expect(countDependents(GRAPH, ['src/util.ts'])).toBe(0);
+    // Changed modules are not their own dependents
+    expect(countDependents(GRAPH, ['src/users/service.ts', 'src/routes.ts'])).toBe(3);
+
+    const radius = computeBlastRadius(modified('src/users/service.ts'), { importGraph: GRAPH });
+    expect(radius.factors.dependents).toBe(4);
+    expect(radius.points.dependents).toBe(4);
+  });
+
+  test('uses configured entrypoint globs', () => {
+    const radius = computeBlastRadius(modified('cmd/worker.go'), {
+      config: { entrypointGlobs: ['cmd/*.go'] },
+    });
+    expect(radius.factors.entrypoints).toEqual(['cmd/worker.go']);
+  });
+});
+
+describe('risk levels', () => {
+  test('map scores to levels', () => {
+    expect(riskLevelFromScore(0)).toBe('low');
+    expect(riskLevelFromScore(30)).toBe('medium');
+    expect(riskLevelFromScore(60)).toBe('high');
+  });
+
+  test('rank the stored spellings', () => {
+    expect(riskLevelRank('med')).toBe(riskLevelRank('medium'));
+    expect(riskLevelRank('high')).toBeGreaterThan(riskLevelRank('medium'));
+    expect(riskLevelRank(undefined)).toBe(riskLevelRank('low'));
+  });
+});
+
+describe('blast-radius thresholds', () => {
+  const radius = computeBlastRadius(
+    Array.from({ length: 30 }, (_, i) => modified(`dir${i}/file.ts`, 100)).join('')
+  );
+
+  test('warn and block at the configured scores', () => {
+    expect(blastRadiusViolation(radius, { warnAt: 60 })).toBeNull();
+    expect(blastRadiusViolation(radius)).toMatchObject({
+      rule: 'blast_radius',
+      severity: 'WARN',
+      evidence: 'score=55',
+    });
+    const blocking = blastRadiusViolation(radius, { blockAt: 50 });
+    expect(blocking?.severity).toBe('BLOCK');
+    expect(blocking?.message).toContain('30 files');
+  });
+
+  test('Gate2 records the score and fails above blockAt', () => {
+    const diff = modified('src/users/service.ts');
+    const rules = new PolicyRuleRegistry();
+    const config = createPolicyConfig({ blastRadius: { warnAt: 2, blockAt: 5 } });
+
+    const result = evaluateGate2(diff, config, { rules, importGraph: GRAPH });
+    expect(result.verdict).toBe('FAIL');
+    expect(result.violations).toEqual([expect.objectContaining({ rule: 'blast_radius', severity: 'BLOCK' })]);
+    expect(result.evidence.blastRadius?.factors.dependents).toBe(4);
+    expect(result.evidence.policyResult.hasBlockingViolations).toBe(true);
+
+    const lenient = evaluateGate2(diff, createPolicyConfig(), { rules, importGraph: GRAPH });
+    expect(lenient.verdict).toBe('PASS');
+    expect(lenient.evidence.blastRadius?.score).toBe(result.evidence.blastRadius?.score);
+  });
+});
+
+describe('policy file', () => {
+  test('overrides thresholds and unions globs', () => {
+    const file = parsePolicyFile([
+      'version: 1',
+      'blastRadius:',
+      '  warnAt: 40',
+      '  entrypoints:',
+      '    - "cmd/*.go"',
+    ].join('\n'));
+    const config = mergePolicyConfig(createPolicyConfig(), file);
+
+    expect(config.blastRadius?.warnAt).toBe(40);
+    expect(config.blastRadius?.blockAt).toBeUndefined();
+    expect(config.blastRadius?.entrypointGlobs).toContain('cmd/*.go');
+    expect(config.blastRadius?.entrypointGlobs).toContain('**/main.{ts,js,mjs,py,go,rs}');
+  });
+
+  test('rejects inverted thresholds', () => {
+    expect(() => parsePolicyFile('version: 1\nblastRadius:\n  warnAt: 90\n  blockAt: 50\n'))
+      .toThrow(/blastRadius: warnAt must not exceed blockAt/);
+  });
+});
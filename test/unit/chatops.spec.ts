@@ -0,0 +1,163 @@
+/**
+ * Tests for ChatOps command parsing and WebhookService issue_comment handling
+ */
+
+import {
+  parseChatOpsCommand,
+  formatChatOpsReply,
+  formatWorkflowStatus,
+  type ChatOpsActions
+} from '@core/github/chatops';
+import { WebhookService } from '@core/github/webhook-service';
+import { StubGitHubClient } from '@core/github/github-client';
+
+describe('parseChatOpsCommand', () => {
+  it('should ignore comments without a command', () => {
+    expect(parseChatOpsCommand('Looks good to me')).toBeNull();
+    expect(parseChatOpsCommand('> /orchestrator approve')).toBeNull();
+    expect(parseChatOpsCommand('/orchestrators approve')).toBeNull();
+    expect(parseChatOpsCommand(undefined)).toBeNull();
+  });
+
+  it('should parse stage commands with an optional stage', () => {
+    expect(parseChatOpsCommand('/orchestrator approve')).toEqual({ ok: true, command: { name: 'approve', stage: undefined } });
+    expect(parseChatOpsCommand('Thanks!\n  /orchestrator retry Sandbox')).toEqual({ ok: true, command: { name: 'retry', stage: 'sandbox' } });
+    expect(parseChatOpsCommand('/orchestrator status')).toEqual({ ok: true, command: { name: 'status' } });
+  });
+
+  it('should keep multi-line feedback for request-changes', () => {
+    expect(parseChatOpsCommand('/orchestrator request-changes Split the parser\ninto two modules')).toEqual({
+      ok: true,
+      command: { name: 'request-changes', reason: 'Split the parser\ninto two modules' }
+    });
+  });
+
+  it('should report usage errors', () => {
+    const missing = parseChatOpsCommand('/orchestrator request-changes');
+    expect(missing).toMatchObject({ ok: false, error: expect.stringContaining('needs feedback text') });
+    expect(parseChatOpsCommand('/orchestrator merge')).toMatchObject({ ok: false, error: expect.stringContaining('Unknown command `merge`') });
+    expect(parseChatOpsCommand('/orchestrator approve sandbox now')).toMatchObject({ ok: false });
+    expect(parseChatOpsCommand('/orchestrator')).toMatchObject({ ok: false, error: expect.stringContaining('Usage:') });
+  });
+});
+
+describe('ChatOps replies', () => {
+  it('should describe stage results', () => {
+    expect(formatChatOpsReply({ name: 'approve' }, 'patches', { ok: true, newStatus: 'approved' }, 'alice'))
+      .toBe('@alice approved the `patches` stage (now `approved`).');
+    expect(formatChatOpsReply({ name: 'retry', stage: 'sandbox' }, 'sandbox', { ok: false, error: 'WRONG_STAGE', currentStage: 'policy' }, 'alice'))
+      .toBe('@alice could not retry the `sandbox` stage: `WRONG_STAGE` (the workflow is at `policy`).');
+  });
+
+  it('should summarize the workflow status', () => {
+    expect(formatWorkflowStatus({
+      id: 'wf-1',
+      title: 'Add caching',
+      state: 'INTAKE',
+      stage: 'pr',
+      stageStatus: 'ready',
+      pullRequests: [{ number: 12, url: 'https://github.com/acme/app/pull/12', status: 'open' }]
+    })).toBe([
+      '**Add caching** (`wf-1`)',
+      '',
+      '- Stage: `pr` (`ready`)',
+      '- State: `INTAKE`',
+      '- PR #12 (open): https://github.com/acme/app/pull/12'
+    ].join('\n'));
+  });
+});
+
+describe('WebhookService ChatOps', () => {
+  const workflow = {
+    id: 'wf-1',
+    title: 'Add caching',
+    state: 'INTAKE',
+    stage: 'sandbox',
+    stageStatus: 'ready',
+    pullRequests: []
+  };
+
+  const commentWebhook = (body: string, senderId = 7) => ({
+    id: 'hook-1',
+    deliveryId: 'delivery-1',
+    eventType: 'issue_comment',
+    signature: 'sig',
+    processed: false,
+    payload: {
+      action: 'created',
+      repository: { id: 1, name: 'app', full_name: 'acme/app', owner: { login: 'acme' } },
+      sender: { id: senderId, login: 'alice', type: 'User' },
+      issue: { number: 12, title: 'Add caching', pull_request: { url: 'https://api.github.com/repos/acme/app/pulls/12' } },
+      comment: { id: 99, body, html_url: 'https://github.com/acme/app/pull/12#issuecomment-99' }
+    }
+  });
+
+  const createMockPrisma = (webhook: ReturnType<typeof commentWebhook>) => ({
+    gitHubWebhook: {
+      findUnique: jest.fn().mockResolvedValue(webhook),
+      update: jest.fn()
+    },
+    pullRequest: { findFirst: jest.fn().mockResolvedValue({ workflowId: 'wf-1', number: 12 }) },
+    workflow: { findUnique: jest.fn().mockResolvedValue(workflow), findFirst: jest.fn() },
+    workflowEvent: { create: jest.fn() },
+    gitHubAuth: {
+      findUnique: jest.fn(async ({ where }: { where: { githubUserId: string } }) =>
+        where.githubUserId === '7' ? { githubUserId: '7', username: 'alice' } : null)
+    }
+  });
+
+  const createActions = (): jest.Mocked<ChatOpsActions> => ({
+    approveStage: jest.fn().mockResolvedValue({ ok: true, newStatus: 'approved' }),
+    requestStageChanges: jest.fn().mockResolvedValue({ ok: true, newStatus: 'needs_changes' }),
+    retryStage: jest.fn().mockResolvedValue({ ok: true, newStatus: 'pending' })
+  });
+
+  it('should run commands through the stage actions and reply on the PR', async () => {
+    const prisma = createMockPrisma(commentWebhook('/orchestrator retry'));
+    const actions = createActions();
+    const client = new StubGitHubClient();
+    const service = new WebhookService(prisma as any, 'secret', { chatOps: { actions, client } });
+
+    const result = await service.process('hook-1');
+
+    expect(result).toEqual({ processed: true, action: 'chatops_retry', workflowId: 'wf-1' });
+    expect(actions.retryStage).toHaveBeenCalledWith('wf-1', 'sandbox', '7', 'alice');
+    expect(client.getComments()).toEqual([expect.objectContaining({
+      owner: 'acme',
+      repo: 'app',
+      issueNumber: 12,
+      pullRequest: true,
+      body: '@alice restarted the `sandbox` stage (now `pending`).'
+    })]);
+    expect(prisma.workflowEvent.create).toHaveBeenCalledWith({
+      data: {
+        workflowId: 'wf-1',
+        type: 'chatops.retry',
+        payload: { webhookId: 'hook-1', commentId: 99, actor: 'alice', ok: true }
+      }
+    });
+  });
+
+  it('should refuse commenters without a GitHubAuth mapping', async () => {
+    const prisma = createMockPrisma(commentWebhook('/orchestrator approve', 8));
+    const actions = createActions();
+    const client = new StubGitHubClient();
+    const service = new WebhookService(prisma as any, 'secret', { chatOps: { actions, client } });
+
+    const result = await service.process('hook-1');
+
+    expect(result.action).toBe('chatops_unauthorized');
+    expect(actions.approveStage).not.toHaveBeenCalled();
+    expect(client.getComments()[0].body).toContain('is not authorized');
+  });
+
+  it('should leave comments alone without ChatOps configured', async () => {
+    const prisma = createMockPrisma(commentWebhook('/orchestrator approve'));
+    const service = new WebhookService(prisma as any, 'secret');
+
+    const result = await service.process('hook-1');
+
+    expect(result).toEqual({ processed: true, action: undefined, workflowId: undefined });
+    expect(prisma.pullRequest.findFirst).not.toHaveBeenCalled();
+  });
+});
@@ -73,9 +73,10 @@ const createMockWorkflow = (state = 'INGESTED') => ({
 describe('Checkpoint Types', () => {
   describe('WORKFLOW_STAGES', () => {
     it('should have all standard stages', () => {
-      expect(WORKFLOW_STAGES.length).toBe(7);
+      expect(WORKFLOW_STAGES.length).toBe(8);
       expect(WORKFLOW_STAGES[0].name).toBe('ingested');
-      expect(WORKFLOW_STAGES[6].name).toBe('done');
+      expect(WORKFLOW_STAGES[6].name).toBe('merging');
+      expect(WORKFLOW_STAGES[7].name).toBe('done');
     });
 
     it('should have sequential indices', () => {
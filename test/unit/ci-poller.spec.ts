@@ -0,0 +1,214 @@
+/**
+ * Tests for the CI poller: run summaries, per-repo polling config and backoff,
+ * and de-duplication against webhook-delivered CI results
+ */
+
+import {
+  CIPoller,
+  DEFAULT_CI_POLLING_CONFIG,
+  ciPollDelaySeconds,
+  loadCIPollingConfig,
+  summarizeWorkflowRuns
+} from '@core/ci/ci-poller';
+import type { WorkflowRunInfo } from '@core/github/github-client';
+
+const run = (overrides: Partial<WorkflowRunInfo> = {}): WorkflowRunInfo => ({
+  id: 1,
+  status: 'completed',
+  conclusion: 'success',
+  headSha: 'head-sha',
+  headBranch: 'arch-orchestrator/wf-1',
+  htmlUrl: 'https://github.com/acme/app/actions/runs/1',
+  updatedAt: '2026-10-01T10:00:00Z',
+  ...overrides
+});
+
+describe('summarizeWorkflowRuns', () => {
+  it('should wait until every run of the commit has completed', () => {
+    expect(summarizeWorkflowRuns([])).toEqual({ status: 'none' });
+    expect(summarizeWorkflowRuns([run(), run({ id: 2, status: 'in_progress', conclusion: null })]).status).toBe('pending');
+  });
+
+  it('should conclude with the most severe run and the last completion', () => {
+    const summary = summarizeWorkflowRuns([
+      run({ id: 1, conclusion: 'skipped' }),
+      run({ id: 2, conclusion: 'failure', updatedAt: '2026-10-01T10:05:00Z' }),
+      run({ id: 3, conclusion: 'success' })
+    ]);
+
+    expect(summary).toMatchObject({ status: 'completed', conclusion: 'failure', run: { id: 2 } });
+    expect(summary.completedAt).toEqual(new Date('2026-10-01T10:05:00Z'));
+    expect(summarizeWorkflowRuns([run({ conclusion: 'skipped' }), run({ id: 2 })]).conclusion).toBe('success');
+  });
+});
+
+describe('CI polling config', () => {
+  it('should back off per poll up to the maximum interval', () => {
+    const config = { ...DEFAULT_CI_POLLING_CONFIG, intervalSeconds: 30, maxIntervalSeconds: 100 };
+    expect([1, 2, 3, 4].map(polls => ciPollDelaySeconds(config, polls))).toEqual([30, 60, 100, 100]);
+  });
+
+  it('should read the ciPolling section of the repo policy file', async () => {
+    const github = {
+      getFileContents: jest.fn().mockResolvedValue({
+        content: 'version: 1\nciPolling:\n  enabled: true\n  intervalSeconds: 20\n  backoffFactor: 1.5\n',
+        sha: 'blob-sha'
+      })
+    };
+
+    const config = await loadCIPollingConfig(github as any, { owner: 'acme', repo: 'app', ref: 'base-sha' });
+
+    expect(github.getFileContents).toHaveBeenCalledWith({ owner: 'acme', repo: 'app', ref: 'base-sha', path: '.orchestrator/policy.yml' });
+    expect(config).toEqual({ enabled: true, intervalSeconds: 20, maxIntervalSeconds: 900, backoffFactor: 1.5 });
+
+    github.getFileContents.mockRejectedValue(new Error('Not Found'));
+    expect(await loadCIPollingConfig(github as any, { owner: 'acme', repo: 'app', ref: 'base-sha' })).toEqual(DEFAULT_CI_POLLING_CONFIG);
+  });
+
+  it('should rethrow read failures other than a missing policy file', async () => {
+    const github = {
+      getFileContents: jest.fn().mockRejectedValue(Object.assign(new Error('Bad credentials'), { status: 401 }))
+    };
+
+    await expect(loadCIPollingConfig(github as any, { owner: 'acme', repo: 'app', ref: 'base-sha' }))
+      .rejects.toThrow('Bad credentials');
+  });
+});
+
+describe('CIPoller', () => {
+  const pullRequest = {
+    id: 'pr-1',
+    workflowId: 'wf-1',
+    number: 12,
+    branch: 'arch-orchestrator/wf-1',
+    status: 'open',
+    repoOwner: 'acme',
+    repoName: 'app',
+    workflow: {
+      id: 'wf-1',
+      state: 'VERIFYING_CI',
+      repoOwner: 'acme',
+      repoName: 'app',
+      baseBranch: 'main',
+      baseSha: 'base-sha',
+      repos: [{ owner: 'acme', repo: 'app', baseBranch: 'main', baseSha: 'base-sha', provider: 'github' }]
+    }
+  };
+
+  const createMockPrisma = () => ({
+    pullRequest: { findMany: jest.fn().mockResolvedValue([pullRequest]) },
+    workflow: {
+      findUnique: jest.fn().mockResolvedValue({ id: 'wf-1', pullRequests: [{ number: 12, reviewState: null }] })
+    },
+    workflowEvent: { findFirst: jest.fn().mockResolvedValue(null), create: jest.fn() },
+    artifact: { findFirst: jest.fn().mockResolvedValue(null), create: jest.fn() }
+  });
+
+  const createMockClient = (runs: WorkflowRunInfo[]) => ({
+    getFileContents: jest.fn().mockRejectedValue(new Error('Not Found')),
+    getBranch: jest.fn().mockResolvedValue({ name: pullRequest.branch, sha: 'head-sha', protected: false }),
+    listWorkflowRuns: jest.fn().mockResolvedValue({ totalCount: runs.length, runs }),
+    getWorkflowRunJobs: jest.fn().mockResolvedValue({
+      totalCount: 1,
+      jobs: [{ id: 1001, name: 'test', status: 'completed', conclusion: 'failure' }]
+    }),
+    listCheckRuns: jest.fn().mockResolvedValue({ totalCount: 0, checkRuns: [] })
+  });
+
+  const createPoller = (prisma: ReturnType<typeof createMockPrisma>, client: ReturnType<typeof createMockClient>) =>
+    new CIPoller(prisma as any, { forProvider: () => client as any }, {
+      defaults: { ...DEFAULT_CI_POLLING_CONFIG, enabled: true }
+    });
+
+  const now = new Date('2026-10-01T10:10:00Z');
+
+  it('should feed completed runs of the PR head commit through Gate3', async () => {
+    const prisma = createMockPrisma();
+    const client = createMockClient([run({ id: 7 }), run({ id: 6, headSha: 'older-sha', conclusion: 'failure' })]);
+
+    const [result] = await createPoller(prisma, client).poll(now);
+
+    expect(client.listWorkflowRuns).toHaveBeenCalledWith({ owner: 'acme', repo: 'app', branch: pullRequest.branch, perPage: 50 });
+    expect(result).toMatchObject({ workflowId: 'wf-1', prNumber: 12, status: 'completed', headSha: 'head-sha' });
+    expect(result.result?.transitionEvent).toEqual({ type: 'E_CI_COMPLETED', result: { conclusion: 'success' } });
+    expect(prisma.workflowEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        workflowId: 'wf-1',
+        type: 'E_CI_COMPLETED',
+        payload: expect.objectContaining({ source: 'workflow_run', headSha: 'head-sha', workflowRunId: 7 })
+      })
+    });
+  });
+
+  it('should take the conclusion of jobs for runs completed without one', async () => {
+    const prisma = createMockPrisma();
+    const client = createMockClient([run({ conclusion: null })]);
+
+    const [result] = await createPoller(prisma, client).poll(now);
+
+    expect(client.getWorkflowRunJobs).toHaveBeenCalledWith({ owner: 'acme', repo: 'app', runId: 1 });
+    expect(result.result?.ciConclusion).toBe('failure');
+  });
+
+  it('should skip results a webhook already recorded for the head commit', async () => {
+    const prisma = createMockPrisma();
+    prisma.workflowEvent.findFirst.mockResolvedValue({ id: 'event-1', type: 'webhook.check_suite.completed' });
+    const client = createMockClient([run()]);
+
+    const [result] = await createPoller(prisma, client).poll(now);
+
+    expect(result.status).toBe('duplicate');
+    expect(prisma.workflowEvent.findFirst).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        workflowId: 'wf-1',
+        createdAt: { gte: new Date('2026-10-01T10:00:00Z') },
+        payload: { path: ['headSha'], equals: 'head-sha' }
+      })
+    });
+    expect(prisma.workflowEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should back off while runs are pending and reset on a new head commit', async () => {
+    const prisma = createMockPrisma();
+    const client = createMockClient([run({ status: 'in_progress', conclusion: null })]);
+    const poller = createPoller(prisma, client);
+
+    expect(await poller.poll(now)).toEqual([
+      expect.objectContaining({ status: 'pending', nextPollAt: new Date('2026-10-01T10:11:00Z') })
+    ]);
+    expect((await poller.poll(new Date('2026-10-01T10:10:30Z')))[0].status).toBe('waiting');
+    expect((await poller.poll(new Date('2026-10-01T10:11:00Z')))[0].nextPollAt).toEqual(new Date('2026-10-01T10:13:00Z'));
+
+    client.getBranch.mockResolvedValue({ name: pullRequest.branch, sha: 'new-sha', protected: false });
+    expect((await poller.poll(new Date('2026-10-01T10:13:00Z')))[0].nextPollAt).toEqual(new Date('2026-10-01T10:14:00Z'));
+    expect(client.getBranch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should cache policy settings only while a polled PR uses them', async () => {
+    const prisma = createMockPrisma();
+    const client = createMockClient([run({ status: 'in_progress', conclusion: null })]);
+    const poller = createPoller(prisma, client);
+
+    await poller.poll(now);
+    await poller.poll(new Date('2026-10-01T10:10:30Z'));
+    expect(client.getFileContents).toHaveBeenCalledTimes(1);
+
+    // The workflow settled: its settings are forgotten
+    prisma.pullRequest.findMany.mockResolvedValue([]);
+    await poller.poll(new Date('2026-10-01T10:11:00Z'));
+    prisma.pullRequest.findMany.mockResolvedValue([pullRequest]);
+    await poller.poll(new Date('2026-10-01T10:12:00Z'));
+    expect(client.getFileContents).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not poll repos with polling disabled', async () => {
+    const prisma = createMockPrisma();
+    const client = createMockClient([run()]);
+    const poller = new CIPoller(prisma as any, { forProvider: () => client as any });
+
+    const [result] = await poller.poll(now);
+
+    expect(result.status).toBe('disabled');
+    expect(client.listWorkflowRuns).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Tests for CI report parsing and CIReportV1 ingestion
+ */
+
+import { join } from 'path';
+import { deflateRawSync } from 'zlib';
+import {
+  coveragePercent,
+  detectReportFormat,
+  parseCobertura,
+  parseJUnit,
+  parseLcov,
+  parseSarif
+} from '../../packages/core/src/ci/report-parsers';
+import {
+  buildCIReport,
+  CIReportService,
+  summarizeCIReport,
+  type CIReportV1
+} from '../../packages/core/src/ci/ci-report';
+import { readZipEntries } from '../../packages/core/src/github/zip';
+import { StubGitHubClient } from '../../packages/core/src/github/github-client';
+import { Gate3Service } from '../../packages/core/src/policy/gate3';
+
+const FIXTURES = join(__dirname, '..', 'fixtures', 'ci-reports');
+
+async function fixtureArtifacts() {
+  const github = new StubGitHubClient({ runArtifactsDir: FIXTURES });
+  return (await github.downloadWorkflowRunArtifacts({ owner: 'acme', repo: 'app', runId: 7 })).artifacts;
+}
+
+async function fixtureFile(artifact: string, path: string): Promise<string> {
+  const artifacts = await fixtureArtifacts();
+  return artifacts.find((a) => a.name === artifact)!.files.find((f) => f.path === path)!.content;
+}
+
+/**
+ * Build a ZIP archive: one deflated entry per file, plus a directory entry.
+ */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  const entries: [string, Buffer | null][] = [['reports/', null], ...Object.entries(files).map(
+    ([path, content]) => [path, Buffer.from(content)] as [string, Buffer]
+  )];
+
+  for (const [path, data] of entries) {
+    const name = Buffer.from(path);
+    const compressed = data ? deflateRawSync(data) : Buffer.alloc(0);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(data ? 8 : 0, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data?.length ?? 0, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(data ? 8 : 0, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data?.length ?? 0, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('report parsers', () => {
+  it('should parse JUnit failures, errors and skips', async () => {
+    const results = parseJUnit(await fixtureFile('test-reports', 'junit.xml'));
+
+    expect(results).toMatchObject({ total: 5, failed: 2, skipped: 1 });
+    expect(results.failures).toEqual([
+      {
+        suite: 'UserService',
+        name: 'rejects duplicate emails',
+        classname: 'UserService',
+        file: 'src/users/service.spec.ts',
+        kind: 'failure',
+        message: 'expected 409 "Conflict", received 500'
+      },
+      {
+        suite: 'OrderService',
+        name: 'applies discounts',
+        classname: 'OrderService',
+        file: 'src/orders/service.spec.ts',
+        kind: 'error',
+        message: "TypeError: Cannot read properties of undefined (reading 'rate')"
+      }
+    ]);
+  });
+
+  it('should parse lcov line and branch coverage', async () => {
+    const coverage = parseLcov(await fixtureFile('test-reports', 'lcov.info'));
+
+    expect(coverage.lines).toEqual({ covered: 7, total: 10 });
+    expect(coverage.branches).toEqual({ covered: 3, total: 4 });
+    expect(coverage.files.map((f) => f.path)).toEqual(['src/users/service.ts', 'src/orders/service.ts']);
+    expect(coveragePercent(coverage.lines)).toBe(70);
+  });
+
+  it('should parse Cobertura totals and count method lines once', async () => {
+    const coverage = parseCobertura(await fixtureFile('coverage', 'cobertura.xml'));
+
+    expect(coverage.lines).toEqual({ covered: 6, total: 8 });
+    expect(coverage.branches).toEqual({ covered: 1, total: 2 });
+    expect(coverage.files).toEqual([
+      { path: 'app/models.py', lines: { covered: 4, total: 5 } },
+      { path: 'app/views.py', lines: { covered: 2, total: 3 } }
+    ]);
+  });
+
+  it('should parse SARIF results with stable fingerprints', async () => {
+    const findings = parseSarif(await fixtureFile('code-scanning', 'results.sarif'));
+
+    expect(findings).toHaveLength(2);
+    expect(findings[0]).toMatchObject({
+      tool: 'ESLint',
+      ruleId: 'no-unused-vars',
+      level: 'warning',
+      file: 'src/users/service.ts',
+      line: 7
+    });
+    // Level falls back to the rule's default configuration
+    expect(findings[1]).toMatchObject({
+      ruleId: 'no-eval',
+      level: 'error',
+      fingerprint: 'ESLint:no-eval:9f2c61a0b3d4e5f6:1'
+    });
+  });
+
+  it('should reject content in the wrong format', () => {
+    expect(() => parseJUnit('<coverage/>')).toThrow('Not a JUnit report');
+    expect(() => parseSarif('{"version":"2.1.0"}')).toThrow('Invalid SARIF: missing runs');
+    expect(() => parseJUnit('<testsuites><testsuite></testsuites>')).toThrow('Invalid XML');
+  });
+
+  it('should detect report formats', () => {
+    expect(detectReportFormat('out/junit.xml', '<?xml version="1.0"?><testsuites>')).toBe('junit');
+    expect(detectReportFormat('coverage.xml', '<coverage line-rate="1">')).toBe('cobertura');
+    expect(detectReportFormat('coverage/lcov.info', 'TN:\nSF:a.ts\n')).toBe('lcov');
+    expect(detectReportFormat('eslint.json', '{"$schema": "https://json.schemastore.org/sarif-2.1.0.json"}')).toBe('sarif');
+    expect(detectReportFormat('package.json', '{"name": "app"}')).toBeNull();
+  });
+});
+
+describe('readZipEntries', () => {
+  it('should inflate entries and skip directories and oversized files', () => {
+    const archive = zip({ 'reports/junit.xml': '<testsuites/>', 'reports/big.txt': 'x'.repeat(100) });
+
+    expect(readZipEntries(archive).map((e) => [e.path, e.data.toString()])).toEqual([
+      ['reports/junit.xml', '<testsuites/>'],
+      ['reports/big.txt', 'x'.repeat(100)]
+    ]);
+    expect(readZipEntries(archive, 50).map((e) => e.path)).toEqual(['reports/junit.xml']);
+    expect(() => readZipEntries(Buffer.from('not a zip'))).toThrow('Invalid ZIP archive');
+  });
+});
+
+describe('StubGitHubClient.downloadWorkflowRunArtifacts', () => {
+  it('should serve fixture directories as artifacts', async () => {
+    const artifacts = await fixtureArtifacts();
+
+    expect(artifacts.map((a) => [a.name, a.files.map((f) => f.path)])).toEqual([
+      ['code-scanning', ['results.sarif']],
+      ['coverage', ['cobertura.xml']],
+      ['test-reports', ['junit.xml', 'lcov.info']]
+    ]);
+
+    const github = new StubGitHubClient({ runArtifactsDir: FIXTURES });
+    const filtered = await github.downloadWorkflowRunArtifacts({
+      owner: 'acme', repo: 'app', runId: 7, names: ['coverage']
+    });
+    expect(filtered.artifacts.map((a) => a.name)).toEqual(['coverage']);
+  });
+
+  it('should serve no artifacts without a fixture directory', async () => {
+    const result = await new StubGitHubClient().downloadWorkflowRunArtifacts({ owner: 'acme', repo: 'app', runId: 7 });
+    expect(result).toEqual({ totalCount: 0, artifacts: [] });
+  });
+});
+
+describe('buildCIReport', () => {
+  it('should combine reports of a run', async () => {
+    const report = buildCIReport({ runId: 7, headSha: 'abc123', artifacts: await fixtureArtifacts() });
+
+    expect(report.sources.map((s) => s.format).sort()).toEqual(['cobertura', 'junit', 'lcov', 'sarif']);
+    expect(report.errors).toEqual([]);
+    expect(report.tests).toMatchObject({ total: 5, failed: 2, skipped: 1 });
+    expect(report.coverage).toEqual({
+      lines: { covered: 13, total: 18, pct: 72.22 },
+      branches: { covered: 4, total: 6, pct: 66.67 },
+      deltaPct: null
+    });
+    // Without a baseline every finding is new
+    expect(report.findings).toMatchObject({ total: 2, errors: 1, warnings: 1, notes: 0, newCount: 2 });
+    expect(report.baselineRunId).toBeNull();
+  });
+
+  it('should compute the coverage delta and new findings against a baseline', async () => {
+    const artifacts = await fixtureArtifacts();
+    const baseline: CIReportV1 = {
+      ...buildCIReport({ runId: 6, artifacts }),
+      coverage: {
+        lines: { covered: 15, total: 18, pct: 83.33 },
+        branches: null,
+        deltaPct: null
+      }
+    };
+    baseline.findings!.fingerprints = ['ESLint:no-eval:9f2c61a0b3d4e5f6:1'];
+
+    const report = buildCIReport({ runId: 7, artifacts, baseline });
+
+    expect(report.baselineRunId).toBe(6);
+    expect(report.coverage?.deltaPct).toBe(-11.11);
+    expect(report.findings?.newCount).toBe(1);
+    expect(report.findings?.newFindings[0].ruleId).toBe('no-unused-vars');
+  });
+
+  it('should record reports that fail to parse', () => {
+    const report = buildCIReport({
+      runId: 7,
+      artifacts: [{
+        id: 1,
+        name: 'reports',
+        sizeInBytes: 0,
+        files: [
+          { path: 'broken.sarif', content: '{' },
+          { path: 'README.md', content: '# not a report' }
+        ]
+      }]
+    });
+
+    expect(report.sources).toEqual([]);
+    expect(report.errors).toEqual([
+      { artifact: 'reports', path: 'broken.sarif', message: expect.stringContaining('Invalid SARIF') }
+    ]);
+  });
+
+  it('should summarize failed test names for Gate3', async () => {
+    const summary = summarizeCIReport(buildCIReport({ runId: 7, artifacts: await fixtureArtifacts() }));
+
+    expect(summary.tests?.failedTests).toEqual([
+      'UserService › rejects duplicate emails',
+      'OrderService › applies discounts'
+    ]);
+    expect(summary.coverage).toEqual({ lines: 72.22, deltaPct: undefined });
+    expect(summary.staticAnalysis).toEqual({ errors: 1, warnings: 1, notes: 0, newFindings: 2 });
+  });
+});
+
+describe('CIReportService', () => {
+  const createMockPrisma = () => ({
+    artifact: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn()
+    }
+  });
+
+  it('should store a CIReportV1 artifact', async () => {
+    const prisma = createMockPrisma();
+    const service = new CIReportService(prisma as any, new StubGitHubClient({ runArtifactsDir: FIXTURES }));
+
+    const report = await service.ingest({ workflowId: 'w1', owner: 'acme', repo: 'app', runId: 7 });
+
+    expect(report?.tests?.failed).toBe(2);
+    expect(prisma.artifact.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        workflowId: 'w1',
+        kind: 'CIReportV1',
+        path: '.ai/CI-REPORT-7.json',
+        artifactVersion: 1,
+        supersedesArtifactId: null
+      })
+    });
+  });
+
+  it('should compare with the previous report', async () => {
+    const prisma = createMockPrisma();
+    const previous = buildCIReport({ runId: 6, artifacts: [] });
+    previous.coverage = { lines: { covered: 9, total: 18, pct: 50 }, branches: null, deltaPct: null };
+    prisma.artifact.findFirst.mockResolvedValue({ id: 'a1', artifactVersion: 3, content: JSON.stringify(previous) });
+    const service = new CIReportService(prisma as any, new StubGitHubClient({ runArtifactsDir: FIXTURES }));
+
+    const report = await service.ingest({ workflowId: 'w1', owner: 'acme', repo: 'app', runId: 7 });
+
+    expect(report?.baselineRunId).toBe(6);
+    expect(report?.coverage?.deltaPct).toBe(22.22);
+    expect(prisma.artifact.create.mock.calls[0][0].data).toMatchObject({
+      artifactVersion: 4,
+      supersedesArtifactId: 'a1'
+    });
+  });
+
+  it('should store nothing when the run has no reports', async () => {
+    const prisma = createMockPrisma();
+    const service = new CIReportService(prisma as any, new StubGitHubClient());
+
+    expect(await service.ingest({ workflowId: 'w1', owner: 'acme', repo: 'app', runId: 7 })).toBeNull();
+    expect(prisma.artifact.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('Gate3Service with CI reports', () => {
+  it('should evaluate quality gates against ingested reports', async () => {
+    const prisma = {
+      pullRequest: { findFirst: jest.fn().mockResolvedValue({ id: 'pr-1', workflowId: 'workflow-1' }) },
+      workflow: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'workflow-1', pullRequests: [{ number: 7 }] }),
+        findFirst: jest.fn()
+      },
+      workflowEvent: { create: jest.fn() },
+      artifact: {
+        create: jest.fn(),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([])
+      }
+    };
+    const gate3 = new Gate3Service(prisma as any, undefined, new StubGitHubClient({ runArtifactsDir: FIXTURES }));
+
+    const result = await gate3.processCIEvent({
+      source: 'workflow_run',
+      conclusion: 'success',
+      headSha: 'abc123',
+      owner: 'acme',
+      repo: 'app',
+      workflowRunId: 7
+    });
+
+    expect(result!.evidence.reports?.tests).toMatchObject({ total: 5, failed: 2 });
+    expect(prisma.artifact.create.mock.calls.map((c) => c[0].data.kind)).toEqual(['CIReportV1', 'ci_evidence']);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Tests for the repository code index: parsing, import resolution,
+ * queries and incremental indexing by blob SHA
+ */
+
+import {
+  RepoIndexer,
+  buildCodeIndex,
+  detectLanguage,
+  findImporters,
+  findSymbol,
+  formatFileRelations,
+  importGraphOf,
+  parseSourceFile,
+  resolveImport,
+  type IndexedFile
+} from '@core/indexer';
+
+describe('parseSourceFile', () => {
+  it('should extract exported TypeScript symbols and imports', () => {
+    const source = [
+      "import { Injectable } from '@nestjs/common';",
+      'import {',
+      '  hashPassword,',
+      "} from './crypto';",
+      "import type { User } from '../models/user';",
+      "import './polyfills';",
+      "export * from './errors';",
+      '',
+      'export interface LoginInput { email: string }',
+      'export type Token = string;',
+      'export const enum Role { Admin }',
+      'export default class AuthService {}',
+      'export async function login(input: LoginInput) {',
+      "  const jwt = await import('./jwt');",
+      '}',
+      'function internal() {}',
+      'export { internal as helper };'
+    ].join('\n');
+
+    const parsed = parseSourceFile('src/auth/service.ts', source)!;
+
+    expect(parsed.language).toBe('typescript');
+    expect(parsed.symbols).toEqual([
+      { name: 'LoginInput', kind: 'interface', line: 9 },
+      { name: 'Token', kind: 'type', line: 10 },
+      { name: 'Role', kind: 'enum', line: 11 },
+      { name: 'AuthService', kind: 'class', line: 12 },
+      { name: 'login', kind: 'function', line: 13 },
+      { name: 'helper', kind: 'variable', line: 17 }
+    ]);
+    expect(parsed.imports.sort()).toEqual(
+      ['../models/user', './crypto', './errors', './jwt', './polyfills', '@nestjs/common'].sort()
+    );
+  });
+
+  it('should extract public Python definitions and imports', () => {
+    const source = [
+      'import os, json as j',
+      'from . import utils',
+      'from .models import User, _Hidden',
+      'from app.core.config import settings',
+      '',
+      'MAX_RETRIES = 3',
+      'class Service:',
+      '    def method(self):',
+      '        pass',
+      'async def fetch():',
+      '    pass',
+      'def _private():',
+      '    pass'
+    ].join('\n');
+
+    const parsed = parseSourceFile('app/service.py', source)!;
+
+    expect(parsed.symbols.map(s => `${s.kind}:${s.name}`)).toEqual(['const:MAX_RETRIES', 'class:Service', 'function:fetch']);
+    expect(parsed.imports).toEqual(expect.arrayContaining(['os', 'json', '.', '.utils', '.models', '.models.User', 'app.core.config']));
+  });
+
+  it('should skip unsupported and declaration files', () => {
+    expect(detectLanguage('README.md')).toBeNull();
+    expect(detectLanguage('src/index.d.ts')).toBeNull();
+    expect(parseSourceFile('styles.css', 'body {}')).toBeNull();
+  });
+});
+
+describe('resolveImport', () => {
+  const files = new Set([
+    'src/auth/service.ts',
+    'src/auth/crypto.ts',
+    'src/models/user.ts',
+    'src/errors/index.ts',
+    'app/__init__.py',
+    'app/models.py',
+    'app/core/config.py',
+    'src/pkg/api.py'
+  ]);
+
+  it('should resolve relative script imports with extensions, index files and .js suffixes', () => {
+    expect(resolveImport('src/auth/service.ts', './crypto', 'typescript', files)).toBe('src/auth/crypto.ts');
+    expect(resolveImport('src/auth/service.ts', './crypto.js', 'typescript', files)).toBe('src/auth/crypto.ts');
+    expect(resolveImport('src/auth/service.ts', '../errors', 'typescript', files)).toBe('src/errors/index.ts');
+    expect(resolveImport('src/auth/service.ts', '@nestjs/common', 'typescript', files)).toBeNull();
+    expect(resolveImport('src/auth/service.ts', '../../../outside', 'typescript', files)).toBeNull();
+  });
+
+  it('should resolve relative, absolute and src-layout Python imports', () => {
+    expect(resolveImport('app/service.py', '.models', 'python', files)).toBe('app/models.py');
+    expect(resolveImport('app/core/config.py', '..', 'python', files)).toBe('app/__init__.py');
+    expect(resolveImport('app/service.py', 'app.core.config', 'python', files)).toBe('app/core/config.py');
+    expect(resolveImport('tests/test_api.py', 'pkg.api', 'python', files)).toBe('src/pkg/api.py');
+    expect(resolveImport('app/service.py', 'os', 'python', files)).toBeNull();
+  });
+});
+
+describe('code index queries', () => {
+  const file = (path: string, imports: string[], symbols: string[] = []): IndexedFile => ({
+    path,
+    blobSha: `sha-${path}`,
+    language: 'typescript',
+    symbols: symbols.map((name, i) => ({ name, kind: 'function', line: i + 1 })),
+    imports
+  });
+
+  const index = buildCodeIndex('abc1234', [
+    file('src/users/service.ts', ['./repository', 'lodash'], ['createUser']),
+    file('src/users/repository.ts', ['../db'], ['UserRepository']),
+    file('src/db.ts', [], ['connect']),
+    file('src/users/controller.ts', ['./service']),
+    file('src/app.ts', ['./users/controller', './db'], ['createUser'])
+  ]);
+
+  it('should resolve imports into an import graph', () => {
+    expect(importGraphOf(index)).toEqual({
+      'src/app.ts': ['src/db.ts', 'src/users/controller.ts'],
+      'src/db.ts': [],
+      'src/users/controller.ts': ['src/users/service.ts'],
+      'src/users/repository.ts': ['src/db.ts'],
+      'src/users/service.ts': ['src/users/repository.ts']
+    });
+  });
+
+  it('should find direct and transitive importers', () => {
+    expect(findImporters(index, 'src/db.ts')).toEqual(['src/app.ts', 'src/users/repository.ts']);
+    expect(findImporters(index, 'src/users/repository.ts', { transitive: true })).toEqual([
+      'src/app.ts',
+      'src/users/controller.ts',
+      'src/users/service.ts'
+    ]);
+  });
+
+  it('should find where a symbol is defined', () => {
+    expect(findSymbol(index, 'createUser').map(s => s.path)).toEqual(['src/app.ts', 'src/users/service.ts']);
+    expect(findSymbol(index, 'missing')).toEqual([]);
+  });
+
+  it('should describe a file\'s relations for prompts', () => {
+    expect(formatFileRelations(index, ['src/users/service.ts', 'src/unknown.ts'])).toBe([
+      '### src/users/service.ts',
+      'Exports: createUser',
+      'Imports: src/users/repository.ts',
+      'Imported by: src/users/controller.ts'
+    ].join('\n'));
+  });
+});
+
+describe('RepoIndexer', () => {
+  const createMocks = () => {
+    const cache: any[] = [];
+    const contexts = new Map<string, any>();
+    const prisma = {
+      repoFileIndex: {
+        findMany: jest.fn(async ({ where }: any) => cache.filter(r => where.blobSha.in.includes(r.blobSha))),
+        createMany: jest.fn(async ({ data }: any) => { cache.push(...data); return { count: data.length }; })
+      },
+      repoContext: {
+        findUnique: jest.fn(async () => contexts.get('ctx') ?? null),
+        upsert: jest.fn(async ({ create, update }: any) => {
+          const next = { ...(contexts.get('ctx') ?? create), ...update };
+          contexts.set('ctx', next);
+          return next;
+        })
+      }
+    };
+    const sources: Record<string, string> = {
+      'src/a.ts': "import { b } from './b';\nexport const a = b;",
+      'src/b.ts': 'export const b = 1;'
+    };
+    const shas: Record<string, string> = { 'src/a.ts': 'blob-a1', 'src/b.ts': 'blob-b1' };
+    const github = {
+      getTree: jest.fn(async () => ({
+        sha: 'tree',
+        truncated: false,
+        tree: [
+          ...Object.keys(sources).map(path => ({ path, mode: '100644', type: 'blob' as const, sha: shas[path], size: 40 })),
+          { path: 'README.md', mode: '100644', type: 'blob' as const, sha: 'blob-readme', size: 10 },
+          { path: 'node_modules/x/index.js', mode: '100644', type: 'blob' as const, sha: 'blob-x', size: 10 }
+        ]
+      })),
+      getFileContents: jest.fn(async ({ path }: any) => ({ path, content: sources[path], sha: shas[path], size: 40 }))
+    };
+    return { prisma, github, sources, shas, contexts };
+  };
+
+  it('should only fetch files whose blobs changed and store the import graph', async () => {
+    const { prisma, github, sources, shas, contexts } = createMocks();
+    const indexer = new RepoIndexer(prisma as any, github as any);
+    const params = { repoOwner: 'acme', repoName: 'app', baseBranch: 'main' };
+
+    const first = await indexer.indexRepo({ ...params, baseSha: 'sha-1' });
+    expect(first).toMatchObject({ parsedFiles: 2, reusedFiles: 0, truncated: false });
+    expect(contexts.get('ctx')).toMatchObject({
+      indexedSha: 'sha-1',
+      importGraph: { 'src/a.ts': ['src/b.ts'], 'src/b.ts': [] }
+    });
+
+    // Same commit: the stored index is returned without reading the tree
+    await indexer.indexRepo({ ...params, baseSha: 'sha-1' });
+    expect(github.getTree).toHaveBeenCalledTimes(1);
+
+    // New commit changing one file
+    sources['src/b.ts'] = 'export const b = 2;\nexport function c() {}';
+    shas['src/b.ts'] = 'blob-b2';
+    github.getFileContents.mockClear();
+
+    const second = await indexer.indexRepo({ ...params, baseSha: 'sha-2' });
+    expect(second).toMatchObject({ parsedFiles: 1, reusedFiles: 1 });
+    expect(github.getFileContents).toHaveBeenCalledTimes(1);
+    expect(github.getFileContents).toHaveBeenCalledWith(expect.objectContaining({ path: 'src/b.ts', ref: 'sha-2' }));
+    expect(findSymbol(second.index, 'c')).toEqual([{ name: 'c', kind: 'function', line: 2, path: 'src/b.ts' }]);
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  applyCodeownersApprovals,
+  approvedOwnersFromKinds,
+  canApproveForOwner,
+  codeownersApprovalKind,
+  codeownersPatternToGlob,
+  findCodeownersRule,
+  findProtectedOwners,
+  loadCodeowners,
+  parseCodeowners,
+} from '@core/policy/codeowners';
+import { globToRegExp } from '@core/policy/glob';
+import { createPolicyConfig, evaluatePolicy, type PolicyViolation } from '@core/policy/policy-engine';
+import { loadRepoPolicy, POLICY_FILE_PATH } from '@core/policy/policy-file';
+import { evaluateGate2 } from '@core/policy/gate2';
+import { PolicyRuleRegistry } from '@core/policy/policy-rules';
+
+const CODEOWNERS = `# Default owners
+*                     @acme/everyone
+
+# Security owns auth and anything named secrets
+/apps/api/src/auth/   @acme/security
+secrets.ts            @acme/security @alice
+
+/docs/                @acme/docs
+/docs/security.md     @acme/security
+`;
+
+function diffFor(path: string): string {
+  return `diff --git a/${path} b/${path}
+index abc123..def456 100644
+--- a/${path}
++++ b/${path}
+@@ -1,1 +1,2 @@
+ line
++added
+`;
+}
+
+function githubWith(files: Record<string, string>) {
+  return {
+    getFileContents: jest.fn(async (params: { path: string; ref?: string }) => {
+      const content = files[params.path];
+      if (content === undefined) {
+        throw new Error('Not Found');
+      }
+      return { path: params.path, content, sha: `blob-${params.path}`, size: content.length };
+    })
+  };
+}
+
+describe('codeownersPatternToGlob', () => {
+  const matches = (pattern: string, path: string) =>
+    globToRegExp(codeownersPatternToGlob(pattern)).test(path);
+
+  test('unanchored patterns match at any depth', () => {
+    expect(matches('*.js', 'src/a.js')).toBe(true);
+    expect(matches('secrets.ts', 'packages/x/secrets.ts')).toBe(true);
+  });
+
+  test('leading slash anchors to the root', () => {
+    expect(matches('/build.sh', 'build.sh')).toBe(true);
+    expect(matches('/build.sh', 'scripts/build.sh')).toBe(false);
+  });
+
+  test('trailing slash matches everything in a directory', () => {
+    expect(matches('/docs/', 'docs/a/b.md')).toBe(true);
+    expect(matches('apps/', 'packages/apps/x.ts')).toBe(true);
+  });
+
+  test('single-star directories do not recurse', () => {
+    expect(matches('docs/*', 'docs/a.md')).toBe(true);
+    expect(matches('docs/*', 'docs/a/b.md')).toBe(false);
+  });
+});
+
+describe('parseCodeowners', () => {
+  const rules = parseCodeowners(CODEOWNERS);
+
+  test('skips comments and keeps line numbers', () => {
+    expect(rules.map(r => r.pattern)).toEqual([
+      '*', '/apps/api/src/auth/', 'secrets.ts', '/docs/', '/docs/security.md',
+    ]);
+    expect(rules[1]).toMatchObject({ owners: ['@acme/security'], line: 5 });
+  });
+
+  test('the last matching rule wins', () => {
+    expect(findCodeownersRule(rules, 'docs/security.md')?.owners).toEqual(['@acme/security']);
+    expect(findCodeownersRule(rules, 'docs/guide.md')?.owners).toEqual(['@acme/docs']);
+    expect(findCodeownersRule(rules, 'README.md')?.owners).toEqual(['@acme/everyone']);
+  });
+
+  test('finds protected owners case-insensitively', () => {
+    expect(findProtectedOwners(rules, ['@ACME/Security'], 'apps/api/src/auth/jwt.ts')).toEqual(['@acme/security']);
+    expect(findProtectedOwners(rules, ['@acme/security'], 'apps/api/src/main.ts')).toEqual([]);
+    expect(findProtectedOwners(rules, ['@acme/security', '@alice'], 'lib/secrets.ts'))
+      .toEqual(['@acme/security', '@alice']);
+  });
+});
+
+describe('evaluatePolicy with protected owners', () => {
+  const config = createPolicyConfig({
+    protectedOwners: ['@acme/security'],
+    codeowners: parseCodeowners(CODEOWNERS),
+  });
+
+  test('blocks changes to protected paths', () => {
+    const result = evaluatePolicy(diffFor('apps/api/src/auth/jwt.ts'), config);
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        rule: 'codeowners_approval',
+        severity: 'BLOCK',
+        file: 'apps/api/src/auth/jwt.ts',
+        evidence: '@acme/security',
+      }),
+    ]);
+  });
+
+  test('ignores paths owned by other teams', () => {
+    expect(evaluatePolicy(diffFor('docs/guide.md'), config).violations).toEqual([]);
+  });
+
+  test('does nothing without protected owners', () => {
+    const noOwners = createPolicyConfig({ codeowners: parseCodeowners(CODEOWNERS) });
+    expect(evaluatePolicy(diffFor('apps/api/src/auth/jwt.ts'), noOwners).violations).toEqual([]);
+  });
+
+  test('Gate2 passes once an owner has approved', () => {
+    const diff = diffFor('apps/api/src/auth/jwt.ts');
+    const rules = new PolicyRuleRegistry();
+
+    expect(evaluateGate2(diff, config, { rules }).verdict).toBe('FAIL');
+
+    const approved = evaluateGate2(diff, config, { rules, approvedOwners: ['@acme/security'] });
+    expect(approved.verdict).toBe('WARN');
+    expect(approved.violations[0].message).toContain('approved for @acme/security');
+    expect(approved.evidence.policyResult.summary).toContain('1 approved by code owners');
+    expect(approved.evidence.configSnapshot.protectedOwners).toEqual(['@acme/security']);
+  });
+});
+
+describe('approvals', () => {
+  test('round-trips owners through approval kinds', () => {
+    expect(codeownersApprovalKind('@Acme/Security')).toBe('codeowners:@acme/security');
+    expect(approvedOwnersFromKinds(['apply_patches', 'codeowners:@acme/security'])).toEqual(['@acme/security']);
+  });
+
+  test('any named owner can approve', () => {
+    const violation: PolicyViolation = {
+      rule: 'codeowners_approval',
+      severity: 'BLOCK',
+      file: 'lib/secrets.ts',
+      message: 'needs approval',
+      evidence: '@acme/security @alice',
+    };
+    const { violations, approved } = applyCodeownersApprovals([violation], ['@ALICE']);
+    expect(approved).toBe(1);
+    expect(violations[0].severity).toBe('WARN');
+  });
+
+  test('only the owner or a member of the owning team can approve', async () => {
+    const isTeamMember = jest.fn(async (org: string, team: string, username: string) =>
+      org === 'acme' && team === 'security' && username === 'bob'
+    );
+
+    expect(await canApproveForOwner('@Alice', 'alice', isTeamMember)).toBe(true);
+    expect(await canApproveForOwner('@alice', 'mallory', isTeamMember)).toBe(false);
+    expect(await canApproveForOwner('@acme/Security', 'bob', isTeamMember)).toBe(true);
+    expect(await canApproveForOwner('@acme/security', 'mallory', isTeamMember)).toBe(false);
+    expect(await canApproveForOwner('security@acme.com', 'bob', isTeamMember)).toBe(false);
+    expect(isTeamMember).toHaveBeenCalledWith('acme', 'security', 'bob');
+  });
+});
+
+describe('loading CODEOWNERS with the repo policy', () => {
+  test('reads CODEOWNERS at the same ref when protected owners are set', async () => {
+    const github = githubWith({
+      [POLICY_FILE_PATH]: 'version: 1\nprotectedOwners:\n  - "@acme/security"\n',
+      '.github/CODEOWNERS': CODEOWNERS,
+    });
+    const policy = await loadRepoPolicy(github, { owner: 'acme', repo: 'app', ref: 'sha1' });
+
+    expect(policy.config.protectedOwners).toEqual(['@acme/security']);
+    expect(policy.config.codeowners).toHaveLength(5);
+    expect(github.getFileContents).toHaveBeenCalledWith({
+      owner: 'acme', repo: 'app', ref: 'sha1', path: '.github/CODEOWNERS',
+    });
+  });
+
+  test('skips CODEOWNERS when no owners are protected', async () => {
+    const github = githubWith({ '.github/CODEOWNERS': CODEOWNERS });
+    const policy = await loadRepoPolicy(github, { owner: 'acme', repo: 'app', ref: 'sha1' });
+
+    expect(policy.config.codeowners).toEqual([]);
+    expect(github.getFileContents).toHaveBeenCalledTimes(1);
+  });
+
+  test('falls back through the CODEOWNERS locations', async () => {
+    const github = githubWith({ 'docs/CODEOWNERS': '* @acme/security\n' });
+    const codeowners = await loadCodeowners(github, { owner: 'acme', repo: 'app', ref: 'sha1' });
+
+    expect(codeowners?.path).toBe('docs/CODEOWNERS');
+    expect(await loadCodeowners(githubWith({}), { owner: 'acme', repo: 'app', ref: 'sha1' })).toBeNull();
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for token-budgeted context packing: ranking, signature outlines
+ * and the full / outline / dropped split
+ */
+
+import { RunRecorder } from '@core/audit/run-recorder';
+import {
+  contextTokenBudget,
+  estimateTokens,
+  outlineSource,
+  packContext,
+  packManifest,
+  rankCandidates
+} from '@core/memory';
+
+const serviceSource = [
+  "import { Injectable } from '@nestjs/common';",
+  '',
+  '// Password hashing',
+  'export interface HashOptions {',
+  '  rounds: number;',
+  '}',
+  '',
+  'export class AuthService {',
+  '  private readonly cache = new Map<string, string>();',
+  '',
+  '  constructor(',
+  '    private readonly users: UserRepository,',
+  '  ) {}',
+  '',
+  '  async login(email: string, password: string): Promise<string> {',
+  '    if (!email) {',
+  "      throw new Error('missing email');",
+  '    }',
+  '    return this.sign(email);',
+  '  }',
+  '',
+  '  private sign(email: string): string {',
+  '    return email;',
+  '  }',
+  '}',
+  '',
+  'export async function hashPassword(',
+  '  password: string,',
+  '  options: HashOptions',
+  '): Promise<string> {',
+  '  return password.repeat(options.rounds);',
+  '}',
+  '',
+  'export const DEFAULT_ROUNDS = 10;'
+].join('\n');
+
+describe('outlineSource', () => {
+  it('should keep TypeScript signatures and elide bodies', () => {
+    expect(outlineSource('src/auth/service.ts', serviceSource)).toBe([
+      'export interface HashOptions {',
+      '  rounds: number;',
+      '}',
+      'export class AuthService {',
+      '  constructor(',
+      '    private readonly users: UserRepository,',
+      '  ) {}',
+      '  async login(email: string, password: string): Promise<string> { … }',
+      '  private sign(email: string): string { … }',
+      '}',
+      'export async function hashPassword(',
+      '  password: string,',
+      '  options: HashOptions',
+      '): Promise<string> { … }',
+      'export const DEFAULT_ROUNDS = 10;'
+    ].join('\n'));
+  });
+
+  it('should keep Python definitions with their decorators', () => {
+    const source = [
+      'import os',
+      'MAX_RETRIES = 3',
+      '',
+      '@dataclass',
+      'class Job:',
+      '    name: str',
+      '',
+      '    def run(self, retries: int = MAX_RETRIES) -> bool:',
+      '        return True'
+    ].join('\n');
+
+    expect(outlineSource('app/jobs.py', source)).toBe([
+      'MAX_RETRIES = 3',
+      '@dataclass',
+      'class Job: ...',
+      '    def run(self, retries: int = MAX_RETRIES) -> bool: ...'
+    ].join('\n'));
+  });
+
+  it('should preview the first lines of other files', () => {
+    const content = Array.from({ length: 25 }, (_, i) => `line ${i + 1}`).join('\n');
+    const outline = outlineSource('docs/guide.md', content);
+
+    expect(outline.split('\n')).toHaveLength(21);
+    expect(outline).toContain('line 20');
+    expect(outline).toContain('… (5 more lines)');
+  });
+});
+
+describe('rankCandidates', () => {
+  it('should rank pinned files first, then by similarity to the query', async () => {
+    const ranked = await rankCandidates([
+      { path: 'src/billing/invoice.ts', content: 'export function createInvoice(total: number) {}' },
+      { path: 'src/auth/password.ts', content: 'export function hashPassword(password: string) {}' },
+      { path: 'src/app.ts', content: 'bootstrap();', pinned: true }
+    ], 'hash the user password before storing it');
+
+    expect(ranked.map(c => c.path)).toEqual(['src/app.ts', 'src/auth/password.ts', 'src/billing/invoice.ts']);
+    expect(ranked[1].relevance).toBeGreaterThan(ranked[2].relevance);
+  });
+
+  it('should keep the input order without a query', async () => {
+    const ranked = await rankCandidates([{ path: 'b.ts', content: 'b' }, { path: 'a.ts', content: 'a' }]);
+
+    expect(ranked).toEqual([
+      { path: 'b.ts', content: 'b', relevance: 0 },
+      { path: 'a.ts', content: 'a', relevance: 0 }
+    ]);
+  });
+});
+
+describe('packContext', () => {
+  const large = (name: string) => serviceSource.replace(/AuthService/g, name) + '\n' + '// padding\n'.repeat(100);
+
+  const candidates = [
+    { path: 'src/a.ts', content: large('A'), pinned: true },
+    { path: 'src/b.ts', content: large('B'), pinned: true },
+    { path: 'src/c.ts', content: large('C') },
+    { path: 'src/tiny.ts', content: 'export const x = 1;' }
+  ];
+
+  it('should show top files in full and outline the rest within the budget', async () => {
+    const fullTokens = estimateTokens(candidates[0].content);
+    const outlineTokens = estimateTokens(outlineSource('src/b.ts', candidates[1].content));
+
+    const packed = await packContext(candidates, { budgetTokens: fullTokens + 2 * outlineTokens + 10 });
+
+    expect(packed.files.map(f => [f.path, f.mode])).toEqual([
+      ['src/a.ts', 'full'],
+      ['src/b.ts', 'outline'],
+      ['src/c.ts', 'outline'],
+      ['src/tiny.ts', 'full']
+    ]);
+    expect(packed.files[1]).toMatchObject({ outlinedBy: 'heuristic', content: expect.stringContaining('class B {') });
+    expect(packed.usedTokens).toBeLessThanOrEqual(packed.budgetTokens);
+    expect(packed.usedTokens).toBe(packed.files.reduce((sum, f) => sum + f.tokens, 0));
+  });
+
+  it('should drop the lowest ranked files when even outlines do not fit', async () => {
+    const outlineTokens = estimateTokens(outlineSource('src/a.ts', candidates[0].content));
+
+    const packed = await packContext(candidates, { budgetTokens: outlineTokens + 5 });
+    const manifest = packManifest(packed);
+
+    expect(manifest.full).toEqual(['src/tiny.ts']);
+    expect(manifest.outlined).toEqual(['src/a.ts']);
+    expect(manifest.dropped).toEqual(['src/b.ts', 'src/c.ts']);
+    expect(manifest.files.find(f => f.path === 'src/b.ts')).toEqual({
+      path: 'src/b.ts',
+      mode: 'dropped',
+      tokens: 0,
+      sourceTokens: estimateTokens(candidates[1].content),
+      relevance: 0,
+      pinned: true
+    });
+  });
+
+  it('should show the top file in full before reserving outlines for the rest', async () => {
+    const packed = await packContext(candidates.slice(0, 3), { budgetTokens: estimateTokens(candidates[0].content) + 10 });
+
+    expect(packed.files.map(f => [f.path, f.mode])).toEqual([
+      ['src/a.ts', 'full'],
+      ['src/b.ts', 'dropped'],
+      ['src/c.ts', 'dropped']
+    ]);
+  });
+
+  it('should use outliner results that fit and fall back to heuristic outlines', async () => {
+    const outliner = jest.fn(async (path: string) => {
+      if (path === 'src/b.ts') return 'B: login(email, password) signs a user in';
+      throw new Error('provider down');
+    });
+
+    const packed = await packContext(candidates, { budgetTokens: 400, outliner });
+    const byPath = Object.fromEntries(packed.files.map(f => [f.path, f]));
+
+    expect(byPath['src/b.ts']).toMatchObject({ mode: 'outline', outlinedBy: 'llm', content: 'B: login(email, password) signs a user in' });
+    expect(byPath['src/c.ts']).toMatchObject({ mode: 'outline', outlinedBy: 'heuristic' });
+    expect(outliner).not.toHaveBeenCalledWith('src/tiny.ts', expect.anything());
+  });
+
+  it('should derive the file budget from a token budget', () => {
+    expect(contextTokenBudget({ maxInputTokens: 10000, maxOutputTokens: 1000, maxTotalCost: 10 }, 2500)).toBe(7500);
+    expect(contextTokenBudget({ maxInputTokens: 1000, maxOutputTokens: 1000, maxTotalCost: 10 }, 2500)).toBe(0);
+  });
+});
+
+describe('RunRecorder.recordInputs', () => {
+  it('should merge into the recorded inputs', async () => {
+    const prisma = {
+      workflowRun: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'run-1', inputs: { workflowId: 'wf-1', goal: 'x' } }),
+        update: jest.fn().mockResolvedValue({})
+      }
+    };
+
+    await new RunRecorder(prisma as any).recordInputs({ runId: 'run-1', inputs: { contextPacks: { 'acme/app': { full: ['a.ts'] } } } });
+
+    expect(prisma.workflowRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: { inputs: { workflowId: 'wf-1', goal: 'x', contextPacks: { 'acme/app': { full: ['a.ts'] } } } }
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AdvisoryDatabase,
+  DependencyAdvisoryRule,
+  findIntroducedDependencies,
+  isDeniedLicense,
+  loadAdvisoryDatabase,
+  parseAdvisorySnapshot,
+  satisfiesVersionRange,
+  specIntersectsRange,
+  type AdvisorySnapshot,
+} from '@core/policy/dependency-advisories';
+import { evaluatePolicy, DEFAULT_POLICY_CONFIG } from '@core/policy/policy-engine';
+import { PolicyRuleRegistry } from '@core/policy/policy-rules';
+
+const SNAPSHOT: AdvisorySnapshot = {
+  version: 1,
+  generatedAt: '2026-01-15T00:00:00Z',
+  packages: [
+    {
+      ecosystem: 'npm',
+      name: 'lodash',
+      license: 'MIT',
+      advisories: [
+        { id: 'GHSA-35jh-r3h4-6jhm', severity: 'high', vulnerable: '<4.17.21', summary: 'Command injection' },
+        { id: 'GHSA-low-1', severity: 'low', vulnerable: '>=4.0.0 <4.17.0' },
+      ],
+    },
+    { ecosystem: 'npm', name: 'copyleft-lib', license: 'GPL-3.0-only', advisories: [] },
+    { ecosystem: 'npm', name: 'dual-lib', license: '(MIT OR GPL-2.0)', advisories: [] },
+    {
+      ecosystem: 'pypi',
+      name: 'pyyaml',
+      license: 'MIT',
+      advisories: [{ id: 'GHSA-8q59-q68h-6hv4', severity: 'critical', vulnerable: '<5.4' }],
+    },
+  ],
+};
+
+function fileDiff(path: string, hunk: string): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    'index abc123..def456 100644',
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    hunk,
+  ].join('\n');
+}
+
+const PACKAGE_JSON_DIFF = fileDiff('package.json', `@@ -5,4 +5,7 @@
+   "dependencies": {
++    "lodash": "^4.17.15",
++    "copyleft-lib": "^1.0.0",
++    "dual-lib": "^2.0.0",
+     "express": "^4.18.0"
+   }
+`);
+
+describe('satisfiesVersionRange', () => {
+  test.each([
+    [[4, 17, 20], '<4.17.21', true],
+    [[4, 17, 21], '<4.17.21', false],
+    [[1, 5, 0], '>=1.0.0 <2.0.0', true],
+    [[1, 5, 0], '>= 1.0, < 1.5', false],
+    [[3, 3, 6], '=3.3.6', true],
+    [[0, 9, 0], '<0.5.0 || >=0.9.0 <1.0.0', true],
+    [[2, 0, 0], '*', true],
+  ])('%j in "%s" is %s', (version, range, expected) => {
+    expect(satisfiesVersionRange(version as number[], range as string)).toBe(expected);
+  });
+});
+
+describe('specIntersectsRange', () => {
+  test.each([
+    ['^4.17.15', '<4.17.21', 'npm', true],
+    ['^4.17.21', '<4.17.21', 'npm', false],
+    ['~4.16.0', '>=4.0.0 <4.17.0', 'npm', true],
+    ['<2.0.0', '>=1.5.0 <1.6.0', 'npm', true],
+    ['==5.3.1', '<5.4', 'pypi', true],
+    ['>=5.4,!=5.4.1', '<5.4', 'pypi', false],
+    ['~=5.1', '>=5.3, <5.4', 'pypi', true],
+    ['1.2', '>=1.3.0 <1.4.0', 'cargo', true],
+    ['v0.3.0', '<0.3.0', 'go', false],
+    ['1.2.3.4', '<1.2.4', 'pypi', true],
+  ])('"%s" overlaps "%s" (%s) is %s', (spec, vulnerable, ecosystem, expected) => {
+    expect(specIntersectsRange(spec as string, vulnerable as string, ecosystem as any)).toBe(expected);
+  });
+});
+
+describe('isDeniedLicense', () => {
+  test('flags the GPL family', () => {
+    expect(isDeniedLicense('GPL-3.0-only')).toBe(true);
+    expect(isDeniedLicense('AGPL-3.0-or-later')).toBe(true);
+    expect(isDeniedLicense('LGPL-2.1')).toBe(true);
+    expect(isDeniedLicense('MIT')).toBe(false);
+  });
+
+  test('allows a choice of a permissive license', () => {
+    expect(isDeniedLicense('(MIT OR GPL-2.0)')).toBe(false);
+    expect(isDeniedLicense('MIT AND GPL-2.0')).toBe(true);
+  });
+
+  test('uses custom patterns', () => {
+    expect(isDeniedLicense('SSPL-1.0', ['SSPL-*'])).toBe(true);
+    expect(isDeniedLicense('GPL-3.0', ['SSPL-*'])).toBe(false);
+  });
+});
+
+describe('parseAdvisorySnapshot', () => {
+  test('parses a valid snapshot and defaults advisories', () => {
+    const snapshot = parseAdvisorySnapshot(JSON.stringify({
+      version: 1,
+      packages: [{ ecosystem: 'npm', name: 'x', license: 'MIT' }],
+    }));
+    expect(snapshot.packages[0].advisories).toEqual([]);
+  });
+
+  test('rejects invalid JSON and schema errors', () => {
+    expect(() => parseAdvisorySnapshot('{')).toThrow(/Invalid advisory snapshot/);
+    expect(() => parseAdvisorySnapshot(JSON.stringify({ version: 1, packages: [{ ecosystem: 'maven', name: 'x' }] })))
+      .toThrow(/packages\.0\.ecosystem/);
+  });
+
+  test('loads a snapshot from disk', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'advisories-'));
+    try {
+      const path = join(dir, 'advisories.json');
+      writeFileSync(path, JSON.stringify(SNAPSHOT));
+      const db = await loadAdvisoryDatabase(path);
+      expect(db.size).toBe(4);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('AdvisoryDatabase', () => {
+  const db = new AdvisoryDatabase(SNAPSHOT);
+
+  test('normalizes PyPI names', () => {
+    expect(db.lookup('pypi', 'PyYAML')?.name).toBe('pyyaml');
+    expect(db.lookup('npm', 'PyYAML')).toBeUndefined();
+  });
+
+  test('finds advisories affecting a version', () => {
+    expect(db.findAdvisories('npm', 'lodash', [4, 16, 0]).map(a => a.id))
+      .toEqual(['GHSA-35jh-r3h4-6jhm', 'GHSA-low-1']);
+    expect(db.findAdvisories('npm', 'lodash', [4, 17, 21])).toEqual([]);
+  });
+
+  test('finds advisories affecting any version a spec allows', () => {
+    expect(db.findAdvisoriesForSpec('npm', 'lodash', '^4.17.0').map(a => a.id)).toEqual(['GHSA-35jh-r3h4-6jhm']);
+    expect(db.findAdvisoriesForSpec('npm', 'lodash', '>=4.17.21')).toEqual([]);
+  });
+});
+
+describe('findIntroducedDependencies', () => {
+  test('returns added and re-versioned dependencies, not removals', () => {
+    const diff = fileDiff('requirements.txt', `@@ -1,3 +1,3 @@
+-pyyaml==6.0
++pyyaml==5.3
+-flask>=2.0
++requests>=2.31
+`);
+    expect(findIntroducedDependencies(diff)).toEqual([
+      expect.objectContaining({ name: 'pyyaml', kind: 'downgraded', to: '==5.3' }),
+      expect.objectContaining({ name: 'requests', kind: 'added' }),
+    ]);
+  });
+
+  test('ignores deleted manifests and other files', () => {
+    const deleted = [
+      'diff --git a/package.json b/package.json',
+      'deleted file mode 100644',
+      '--- a/package.json',
+      '+++ /dev/null',
+      '@@ -1,3 +0,0 @@',
+      '-{',
+      '-  "dependencies": { "lodash": "4.0.0" }',
+      '-}',
+      '',
+    ].join('\n');
+    const source = fileDiff('src/index.ts', '@@ -1 +1,2 @@\n export {};\n+const lodash = "^4.0.0";\n');
+    expect(findIntroducedDependencies(`${deleted}${source}`)).toEqual([]);
+  });
+});
+
+describe('DependencyAdvisoryRule', () => {
+  const rules = new PolicyRuleRegistry();
+  rules.register(new DependencyAdvisoryRule(new AdvisoryDatabase(SNAPSHOT)));
+
+  const advisoryViolations = (diff: string) =>
+    evaluatePolicy(diff, DEFAULT_POLICY_CONFIG, rules).violations.filter(v => v.rule === 'dependency_advisory');
+
+  test('reports advisories with the advisory id as evidence', () => {
+    const violations = advisoryViolations(PACKAGE_JSON_DIFF);
+    const advisory = violations.find(v => v.evidence === 'GHSA-35jh-r3h4-6jhm');
+
+    expect(advisory).toMatchObject({
+      severity: 'BLOCK',
+      file: 'package.json',
+      line: 6,
+    });
+    expect(advisory?.message).toContain('lodash@^4.17.15');
+    expect(violations.find(v => v.evidence === 'GHSA-low-1')).toBeUndefined();
+  });
+
+  test('flags GPL-family licenses but not dual-licensed packages', () => {
+    const violations = advisoryViolations(PACKAGE_JSON_DIFF);
+
+    expect(violations.filter(v => v.message.includes('licensed under'))).toEqual([
+      expect.objectContaining({ severity: 'BLOCK', evidence: 'GPL-3.0-only', line: 7 }),
+    ]);
+  });
+
+  test('checks version changes against advisories', () => {
+    const diff = fileDiff('requirements.txt', '@@ -1 +1 @@\n-pyyaml==6.0\n+PyYAML==5.3.1\n');
+    expect(advisoryViolations(diff)).toEqual([
+      expect.objectContaining({ evidence: 'GHSA-8q59-q68h-6hv4', severity: 'BLOCK' }),
+    ]);
+  });
+
+  test('applies severity overrides', () => {
+    const lenient = new PolicyRuleRegistry();
+    lenient.register(new DependencyAdvisoryRule(new AdvisoryDatabase(SNAPSHOT), {
+      licenseSeverity: 'WARN',
+      advisorySeverities: { high: 'WARN' },
+    }));
+
+    const violations = evaluatePolicy(PACKAGE_JSON_DIFF, DEFAULT_POLICY_CONFIG, lenient)
+      .violations.filter(v => v.rule === 'dependency_advisory');
+    expect(violations.map(v => v.severity)).toEqual(['WARN', 'WARN']);
+  });
+
+  test('flags ranges that still allow a vulnerable version', () => {
+    const diff = fileDiff('package.json', '@@ -2,2 +2,3 @@\n   "dependencies": {\n+    "lodash": ">=4.0.0",\n     "express": "^4.18.0"\n');
+    expect(advisoryViolations(diff).map(v => v.evidence)).toEqual(['GHSA-35jh-r3h4-6jhm', 'GHSA-low-1']);
+  });
+
+  test('ignores packages missing from the snapshot', () => {
+    const diff = fileDiff('package.json', '@@ -2,2 +2,3 @@\n   "dependencies": {\n+    "unknown-pkg": "1.0.0",\n     "express": "^4.18.0"\n');
+    expect(advisoryViolations(diff)).toEqual([]);
+  });
+});
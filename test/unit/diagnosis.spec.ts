@@ -46,6 +46,7 @@ const createMockPrisma = () => ({
   },
   artifact: {
     create: jest.fn(),
+    findFirst: jest.fn(),
   },
   patchSet: {
     create: jest.fn(),
@@ -317,6 +318,62 @@ describe('ContextCollector', () => {
       expect(context.policyViolations!.length).toBe(1);
       expect(context.policyViolations![0].rule).toBe('frozen_file');
     });
+
+    it('should include failed tests and new findings from the latest CI report', async () => {
+      mockPrisma.workflowRun.findUnique.mockResolvedValue({
+        id: 'run-1',
+        status: 'failed',
+        jobName: 'sandbox_validation',
+        errorMsg: 'Sandbox CI failed',
+        inputs: {},
+        startedAt: new Date(),
+        workflow: { state: 'FAILED' },
+      });
+
+      mockPrisma.workflowEvent.findMany.mockResolvedValue([]);
+      mockPrisma.policyViolation.findMany.mockResolvedValue([]);
+      mockPrisma.artifact.findFirst.mockResolvedValue({
+        content: JSON.stringify({
+          kind: 'CIReportV1',
+          runId: 42,
+          tests: {
+            total: 3,
+            failed: 1,
+            skipped: 0,
+            failures: [{ suite: 'UserService', name: 'rejects duplicates', kind: 'failure' }],
+          },
+          coverage: { lines: { covered: 7, total: 10, pct: 70 }, branches: null, deltaPct: -5 },
+          findings: {
+            total: 1,
+            errors: 1,
+            warnings: 0,
+            notes: 0,
+            items: [],
+            newFindings: [{ tool: 'ESLint', ruleId: 'no-eval', level: 'error', message: 'eval', fingerprint: 'x' }],
+            newCount: 1,
+            fingerprints: ['x'],
+          },
+        }),
+      });
+
+      const context = await collector.collectFailureContext('wf-1', 'run-1');
+
+      expect(mockPrisma.artifact.findFirst).toHaveBeenCalledWith({
+        where: { workflowId: 'wf-1', kind: 'CIReportV1' },
+        orderBy: { createdAt: 'desc' },
+      });
+      expect(context.ciReport).toEqual({
+        runId: 42,
+        failedTests: ['UserService › rejects duplicates'],
+        coverageDeltaPct: -5,
+        newFindings: ['[error] no-eval: eval'],
+      });
+
+      const diagnosis = await createDiagnoser().diagnose(context);
+      expect(diagnosis.rootCause).toBe('test_failure');
+      expect(diagnosis.summary).toContain('UserService › rejects duplicates');
+      expect(diagnosis.analysis).toContain('## Failed Tests');
+    });
   });
 
   describe('collectFromWorkflowState', () => {
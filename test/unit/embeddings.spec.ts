@@ -0,0 +1,163 @@
+/**
+ * Tests for embedding providers and the memory vector store
+ */
+
+import {
+  HashingEmbeddingProvider,
+  VectorStore,
+  chunkText,
+  cosineSimilarity,
+  createEmbeddingProvider,
+  tokenizeForEmbedding
+} from '../../packages/core/src/memory';
+
+// In-memory MemoryVector table
+const createMockPrisma = () => {
+  const rows: any[] = [];
+  const key = (w: any) => w.sourceType_sourceId_chunkIndex_provider;
+  const find = (k: any) => rows.find(r =>
+    r.sourceType === k.sourceType && r.sourceId === k.sourceId && r.chunkIndex === k.chunkIndex && r.provider === k.provider);
+
+  return {
+    rows,
+    workflow: { findUnique: jest.fn() },
+    memoryVector: {
+      findUnique: jest.fn(async ({ where }: any) => find(key(where)) ?? null),
+      upsert: jest.fn(async ({ where, create, update }: any) => {
+        const existing = find(key(where));
+        if (existing) return Object.assign(existing, update, { updatedAt: new Date() });
+        const row = { id: `vec-${rows.length + 1}`, createdAt: new Date(), updatedAt: new Date(), ...create };
+        rows.push(row);
+        return row;
+      }),
+      deleteMany: jest.fn(async ({ where }: any) => {
+        const removed = rows.filter(r => r.sourceId === where.sourceId && r.chunkIndex >= where.chunkIndex.gte);
+        removed.forEach(r => rows.splice(rows.indexOf(r), 1));
+        return { count: removed.length };
+      }),
+      findMany: jest.fn(async ({ where }: any) => rows.filter(r =>
+        r.provider === where.provider &&
+        (!where.sourceType || where.sourceType.in.includes(r.sourceType)) &&
+        (!where.OR || r.workflowId === null || r.workflowId !== where.OR[1].workflowId.not)))
+    }
+  };
+};
+
+describe('HashingEmbeddingProvider', () => {
+  const provider = new HashingEmbeddingProvider({ dimensions: 128 });
+
+  it('should be deterministic and unit length', async () => {
+    const [a] = await provider.embed(['Add rate limiting to the login endpoint']);
+    const [b] = await provider.embed(['Add rate limiting to the login endpoint']);
+
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(128);
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1);
+    expect(provider.modelId).toBe('hashing-128');
+  });
+
+  it('should score texts sharing vocabulary above unrelated ones', async () => {
+    const [goal, related, unrelated] = await provider.embed([
+      'Rate limit failed login attempts',
+      'Decision: add a login rate limiter that blocks repeated failed attempts',
+      'Render the billing invoice PDF with company logo'
+    ]);
+
+    expect(cosineSimilarity(goal, related)).toBeGreaterThan(cosineSimilarity(goal, unrelated));
+  });
+
+  it('should split identifiers into words', () => {
+    expect(tokenizeForEmbedding('loginRateLimiter rate_limits')).toEqual(['login', 'rate', 'limiter', 'rate', 'limit']);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should handle zero vectors and reject mismatched dimensions', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBe(1);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    expect(() => cosineSimilarity([1], [1, 0])).toThrow('Cannot compare vectors of 1 and 2 dimensions');
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  const env = process.env;
+  afterEach(() => { process.env = env; });
+
+  it('should fall back to the hashing embedder without an API key', () => {
+    process.env = { ...env, EMBEDDING_PROVIDER: 'openai', OPENAI_API_KEY: '', EMBEDDING_DIMENSIONS: '64' };
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const provider = createEmbeddingProvider();
+    expect(provider.name).toBe('hashing');
+    expect(provider.dimensions).toBe(64);
+  });
+});
+
+describe('chunkText', () => {
+  it('should keep whole lines within the chunk size', () => {
+    const chunks = chunkText(['a'.repeat(8), 'b'.repeat(8), 'c'.repeat(25)].join('\n'), { maxChars: 20 });
+    expect(chunks).toEqual(['a'.repeat(8) + '\n' + 'b'.repeat(8), 'c'.repeat(20), 'c'.repeat(5)]);
+  });
+});
+
+describe('VectorStore', () => {
+  let prisma: ReturnType<typeof createMockPrisma>;
+  let store: VectorStore;
+
+  beforeEach(() => {
+    prisma = createMockPrisma();
+    store = new VectorStore(prisma as any, new HashingEmbeddingProvider());
+  });
+
+  it('should index workflow artifacts, decisions and patches', async () => {
+    prisma.workflow.findUnique.mockResolvedValue({
+      id: 'wf-1',
+      featureGoal: 'Rate limit login',
+      repoOwner: 'acme',
+      repoName: 'app',
+      artifacts: [
+        { id: 'art-1', kind: 'DecisionV1', content: 'Use a token bucket' },
+        { id: 'art-2', kind: 'ArchitectureV1', content: 'Middleware in auth module' }
+      ],
+      patchSets: [{
+        repoOwner: null,
+        repoName: null,
+        patches: [{ id: 'p-1', title: 'Add limiter', summary: 'Token bucket', files: [{ path: 'src/auth.ts' }], repoOwner: null, repoName: null }]
+      }]
+    });
+
+    expect(await store.indexWorkflow('wf-1')).toBe(3);
+    expect(prisma.rows.map(r => [r.sourceType, r.sourceId])).toEqual([
+      ['decision', 'art-1'],
+      ['artifact', 'art-2'],
+      ['patch', 'p-1']
+    ]);
+    expect(prisma.rows[2].content).toContain('Files: src/auth.ts');
+
+    // Unchanged content is not embedded again
+    expect(await store.indexWorkflow('wf-1')).toBe(0);
+  });
+
+  it('should drop chunks past a re-indexed file\'s end', async () => {
+    const long = Array.from({ length: 200 }, (_, i) => `export const value${i} = ${i};`).join('\n');
+    await store.indexRepoFiles('acme', 'app', new Map([['src/values.ts', long]]));
+    expect(prisma.rows.length).toBeGreaterThan(1);
+
+    await store.indexRepoFiles('acme', 'app', new Map([['src/values.ts', 'export const value = 1;']]));
+    expect(prisma.rows).toHaveLength(1);
+    expect(prisma.rows[0]).toMatchObject({ sourceType: 'file_chunk', sourceId: 'acme/app:src/values.ts', filePath: 'src/values.ts' });
+  });
+
+  it('should rank search results by similarity and apply the minimum score', async () => {
+    await store.upsert([
+      { sourceType: 'decision', sourceId: 'd-1', workflowId: 'wf-old', content: 'Login rate limiting with a token bucket' },
+      { sourceType: 'artifact', sourceId: 'a-1', workflowId: 'wf-old', content: 'Invoice PDF rendering' },
+      { sourceType: 'decision', sourceId: 'd-2', workflowId: 'wf-1', content: 'Login rate limiting for the current workflow' }
+    ]);
+
+    const results = await store.search('rate limiting for login', { excludeWorkflowId: 'wf-1', minScore: 0.1 });
+
+    expect(results.map(r => r.sourceId)).toEqual(['d-1']);
+    expect(results[0].score).toBeGreaterThan(0.1);
+  });
+});
@@ -23,7 +23,8 @@ const createMockPrisma = () => ({
     findFirst: jest.fn()
   },
   workflowEvent: {
-    create: jest.fn()
+    create: jest.fn(),
+    findFirst: jest.fn()
   },
   artifact: {
     create: jest.fn(),
@@ -216,6 +217,33 @@ describe('Gate3 Service', () => {
         })
       );
     });
+
+    it('should skip a webhook delivery it already recorded', async () => {
+      const input: CIEventInput = {
+        source: 'check_suite',
+        conclusion: 'success',
+        headSha: 'abc123',
+        owner: 'test-owner',
+        repo: 'test-repo',
+        webhookId: 'delivery-1'
+      };
+
+      prisma.pullRequest.findFirst.mockResolvedValue({ id: 'pr-1', workflowId: 'workflow-1' });
+      prisma.workflowEvent.findFirst.mockResolvedValue({ id: 'event-1', type: 'E_CI_COMPLETED' });
+
+      const result = await gate3.processCIEvent(input);
+
+      expect(result).toBeNull();
+      expect(prisma.workflowEvent.findFirst).toHaveBeenCalledWith({
+        where: {
+          workflowId: 'workflow-1',
+          type: 'E_CI_COMPLETED',
+          payload: { path: ['webhookId'], equals: 'delivery-1' }
+        }
+      });
+      expect(prisma.workflowEvent.create).not.toHaveBeenCalled();
+      expect(prisma.artifact.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('custom quality gates', () => {
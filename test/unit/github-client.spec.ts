@@ -1,5 +1,6 @@
 import {
   StubGitHubClient,
+  isNotFoundError,
   type GitHubClient,
   type OpenPullRequestParams,
   type CreateBranchParams,
@@ -31,15 +32,22 @@ describe('StubGitHubClient', () => {
       const result = await client.getFileContents({
         owner: 'test-owner',
         repo: 'test-repo',
-        path: 'src/app.ts'
+        path: 'src/index.ts'
       });
 
-      expect(result.path).toBe('src/app.ts');
+      expect(result.path).toBe('src/index.ts');
       expect(result.content).toBe('// stub file content');
       expect(result.sha).toBeDefined();
       expect(result.size).toBeGreaterThan(0);
     });
 
+    test('getFileContents is Not Found for files the stub does not have', async () => {
+      const read = client.getFileContents({ owner: 'test-owner', repo: 'test-repo', path: 'src/app.ts' });
+
+      await expect(read).rejects.toThrow('Not Found');
+      expect(isNotFoundError(await read.catch(err => err))).toBe(true);
+    });
+
     test('getBranch returns mock branch info', async () => {
       const result = await client.getBranch({
         owner: 'test-owner',
@@ -176,6 +184,51 @@ describe('StubGitHubClient', () => {
     });
   });
 
+  describe('Git Data operations', () => {
+    test('createBlob returns the git object SHA', async () => {
+      const blob = await client.createBlob({ owner: 'o', repo: 'r', content: 'hello\n', encoding: 'utf-8' });
+      // git hash-object of "hello\n"
+      expect(blob.sha).toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+    });
+
+    test('builds trees on a base tree and commits them', async () => {
+      const a = await client.createBlob({ owner: 'o', repo: 'r', content: 'a', encoding: 'utf-8' });
+      const b = await client.createBlob({ owner: 'o', repo: 'r', content: Buffer.from('b').toString('base64'), encoding: 'base64' });
+
+      const first = await client.createTree({
+        owner: 'o',
+        repo: 'r',
+        entries: [{ path: 'a.txt', mode: '100644', sha: a.sha }, { path: 'b.txt', mode: '100644', sha: b.sha }]
+      });
+      const second = await client.createTree({
+        owner: 'o',
+        repo: 'r',
+        baseTree: first.sha,
+        entries: [{ path: 'a.txt', mode: '100644', sha: null }]
+      });
+      const commit = await client.createCommit({ owner: 'o', repo: 'r', message: 'm', tree: second.sha, parents: ['base'] });
+
+      expect(Array.from(client.getCommitFiles(commit.sha))).toEqual([['b.txt', 'b']]);
+      expect(await client.getCommit({ owner: 'o', repo: 'r', sha: commit.sha })).toEqual({
+        sha: commit.sha,
+        treeSha: second.sha,
+        parents: ['base'],
+        message: 'm'
+      });
+    });
+
+    test('updateRef moves an existing branch only', async () => {
+      await client.createBranch({ owner: 'o', repo: 'r', branch: 'feature', sha: 'base' });
+
+      await expect(client.updateRef({ owner: 'o', repo: 'r', branch: 'missing', sha: 'x' }))
+        .rejects.toThrow('Reference does not exist');
+
+      const ref = await client.updateRef({ owner: 'o', repo: 'r', branch: 'feature', sha: 'next' });
+      expect(ref).toEqual({ ref: 'refs/heads/feature', sha: 'next' });
+      expect(client.getRef('feature')).toBe('next');
+    });
+  });
+
   describe('reset', () => {
     test('reset clears all tracked data', async () => {
       await client.createBranch({
@@ -233,6 +286,13 @@ describe('GitHubClient interface', () => {
     expect(typeof client.listWorkflowRuns).toBe('function');
     expect(typeof client.getWorkflowRun).toBe('function');
     expect(typeof client.getWorkflowRunJobs).toBe('function');
+    expect(typeof client.listCheckRuns).toBe('function');
+    expect(typeof client.downloadWorkflowRunArtifacts).toBe('function');
+    expect(typeof client.getCommit).toBe('function');
+    expect(typeof client.createBlob).toBe('function');
+    expect(typeof client.createTree).toBe('function');
+    expect(typeof client.createCommit).toBe('function');
+    expect(typeof client.updateRef).toBe('function');
     expect(typeof client.createBranch).toBe('function');
     expect(typeof client.updateFile).toBe('function');
     expect(typeof client.deleteFile).toBe('function');
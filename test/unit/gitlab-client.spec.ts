@@ -0,0 +1,225 @@
+/**
+ * Tests for GitLabScmClient Git Data emulation, GitLab webhooks and the SCM client registry
+ */
+
+import { GitLabScmClient, mapGitLabPipelineStatus } from '@core/scm/gitlab-client';
+import { mapGitLabPipelineToCIEvent, verifyGitLabWebhookToken } from '@core/scm/gitlab-webhook';
+import { ScmClientRegistry } from '@core/scm/scm-client';
+import { StubGitHubClient } from '@core/github/github-client';
+
+type Call = { method: string; path: string; query: Record<string, string | string[]>; body?: any };
+type Route = (call: Call) => { status?: number; body?: unknown } | undefined;
+
+/**
+ * A fetch that records calls and answers them from the first matching route.
+ */
+function fakeGitLab(routes: Route[]) {
+  const calls: Call[] = [];
+  const fetch = jest.fn(async (url: string, init: { method: string; body?: string }) => {
+    const { pathname, searchParams } = new URL(url);
+    const query: Call['query'] = {};
+    for (const [key, value] of searchParams) {
+      query[key] = key.endsWith('[]') ? [...((query[key] as string[]) ?? []), value] : value;
+    }
+    const call: Call = {
+      method: init.method,
+      path: decodeURIComponent(pathname.replace(/^\/api\/v4/, '')),
+      query,
+      body: init.body ? JSON.parse(init.body) : undefined
+    };
+    calls.push(call);
+
+    for (const route of routes) {
+      const response = route(call);
+      if (response) {
+        return new Response(response.body === undefined ? null : JSON.stringify(response.body), {
+          status: response.status ?? 200
+        });
+      }
+    }
+    return new Response(JSON.stringify({ message: '404 Not Found' }), { status: 404 });
+  });
+  return { fetch, calls };
+}
+
+const PROJECT = '/projects/acme/app';
+
+describe('GitLabScmClient Git Data emulation', () => {
+  const repo = { owner: 'acme', repo: 'app' };
+  let branches: Map<string, string>;
+  let files: Set<string>;
+  let nextCommit: number;
+
+  const routes: Route[] = [
+    ({ method, path, query }) => method === 'HEAD' && path.startsWith(`${PROJECT}/repository/files/`)
+      ? (files.has(`${query.ref}:${path.slice(`${PROJECT}/repository/files/`.length)}`) ? {} : { status: 404 })
+      : undefined,
+    ({ method, path, body }) => {
+      if (method !== 'POST' || path !== `${PROJECT}/repository/commits`) return undefined;
+      const id = `commit-${nextCommit++}`;
+      branches.set(body.branch, id);
+      return { status: 201, body: { id, message: body.commit_message, web_url: `https://gitlab.example.com/acme/app/-/commit/${id}` } };
+    },
+    ({ method, path }) => {
+      const name = path.slice(`${PROJECT}/repository/branches/`.length);
+      if (!path.startsWith(`${PROJECT}/repository/branches/`)) return undefined;
+      if (!branches.has(name)) return { status: 404, body: { message: '404 Branch Not Found' } };
+      if (method === 'DELETE') {
+        branches.delete(name);
+        return { status: 204 };
+      }
+      return { body: { name, commit: { id: branches.get(name) }, protected: false } };
+    },
+    ({ method, path, query }) => {
+      if (method !== 'POST' || path !== `${PROJECT}/repository/branches`) return undefined;
+      branches.set(query.branch as string, query.ref as string);
+      return { status: 201, body: { name: query.branch, commit: { id: query.ref } } };
+    },
+    ({ path, query }) => path === `${PROJECT}/repository/merge_base`
+      // Every commit in these tests descends from "base"
+      ? { body: { id: (query['refs[]'] as string[]).includes('base') ? 'base' : 'other' } }
+      : undefined
+  ];
+
+  beforeEach(() => {
+    branches = new Map([['feature', 'base']]);
+    files = new Set(['base:README.md', 'base:old.txt']);
+    nextCommit = 1;
+  });
+
+  it('should replay stacked trees as commit actions and move the branch once', async () => {
+    const { fetch, calls } = fakeGitLab(routes);
+    const client = new GitLabScmClient({ token: 't', baseUrl: 'https://gitlab.example.com/api/v4', fetch: fetch as any });
+
+    const readme = await client.createBlob({ ...repo, content: Buffer.from('# App\n').toString('base64'), encoding: 'base64' });
+    const script = await client.createBlob({ ...repo, content: 'echo hi\n', encoding: 'utf-8' });
+    const tree1 = await client.createTree({
+      ...repo,
+      baseTree: 'base^{tree}',
+      entries: [
+        { path: 'README.md', mode: '100644', sha: readme.sha },
+        { path: 'old.txt', mode: '100644', sha: null },
+        { path: 'missing.txt', mode: '100644', sha: null }
+      ]
+    });
+    const first = await client.createCommit({ ...repo, message: 'First', tree: tree1.sha, parents: ['base'] });
+    const tree2 = await client.createTree({
+      ...repo,
+      baseTree: tree1.sha,
+      entries: [{ path: 'bin/run.sh', mode: '100755', sha: script.sha }]
+    });
+    const second = await client.createCommit({ ...repo, message: 'Second', tree: tree2.sha, parents: [first.sha] });
+
+    const commits = calls.filter(c => c.method === 'POST' && c.path.endsWith('/repository/commits')).map(c => c.body);
+    expect(commits[0]).toMatchObject({
+      start_sha: 'base',
+      commit_message: 'First',
+      actions: [
+        { action: 'update', file_path: 'README.md', content: Buffer.from('# App\n').toString('base64'), encoding: 'base64' },
+        { action: 'delete', file_path: 'old.txt' }
+      ]
+    });
+    // Only the entries added on top of the parent's tree
+    expect(commits[1]).toMatchObject({
+      start_sha: first.sha,
+      actions: [
+        { action: 'create', file_path: 'bin/run.sh', content: Buffer.from('echo hi\n').toString('base64') },
+        { action: 'chmod', file_path: 'bin/run.sh', execute_filemode: true }
+      ]
+    });
+    expect(commits[0].branch).toMatch(/^orchestrator\/tmp-/);
+
+    const ref = await client.updateRef({ ...repo, branch: 'feature', sha: second.sha });
+
+    expect(ref).toEqual({ ref: 'refs/heads/feature', sha: 'commit-2' });
+    expect(Array.from(branches)).toEqual([['feature', 'commit-2']]);
+  });
+
+  it('should reject trees not based on the parent and non fast-forward ref updates', async () => {
+    const { fetch } = fakeGitLab(routes);
+    const client = new GitLabScmClient({ token: 't', baseUrl: 'https://gitlab.example.com/api/v4', fetch: fetch as any });
+
+    const blob = await client.createBlob({ ...repo, content: 'a', encoding: 'utf-8' });
+    const tree = await client.createTree({ ...repo, baseTree: 'base^{tree}', entries: [{ path: 'a.txt', mode: '100644', sha: blob.sha }] });
+    await expect(client.createCommit({ ...repo, message: 'x', tree: tree.sha, parents: ['elsewhere'] }))
+      .rejects.toThrow('is not based on the tree of parent commit elsewhere');
+    await expect(client.createTree({ ...repo, entries: [] })).rejects.toThrow('base tree');
+
+    branches.set('feature', 'unrelated');
+    await expect(client.updateRef({ ...repo, branch: 'feature', sha: 'base' })).rejects.toThrow('Update is not a fast forward');
+    await client.updateRef({ ...repo, branch: 'feature', sha: 'base', force: true });
+    expect(branches.get('feature')).toBe('base');
+    await expect(client.updateRef({ ...repo, branch: 'nope', sha: 'base' })).rejects.toThrow('Reference does not exist: heads/nope');
+  });
+
+  it('should surface API errors with the status', async () => {
+    const { fetch } = fakeGitLab([]);
+    const client = new GitLabScmClient({ token: 't', fetch: fetch as any });
+
+    await expect(client.getBranch({ ...repo, branch: 'main' })).rejects.toMatchObject({
+      status: 404,
+      message: expect.stringContaining('failed with 404: 404 Not Found')
+    });
+    expect(fetch.mock.calls[0][0]).toBe('https://gitlab.com/api/v4/projects/acme%2Fapp/repository/branches/main');
+  });
+});
+
+describe('GitLab pipelines and webhooks', () => {
+  const pipelineHook = (status: string) => ({
+    object_kind: 'pipeline',
+    object_attributes: {
+      id: 99,
+      ref: 'orchestrator/wf-1',
+      sha: 'head-sha',
+      status,
+      created_at: '2026-10-01 10:00:00 UTC',
+      finished_at: '2026-10-01 10:05:00 UTC'
+    },
+    project: { id: 42, path_with_namespace: 'acme/platform/app', web_url: 'https://gitlab.example.com/acme/platform/app' }
+  });
+
+  it('should map pipeline statuses to run statuses and conclusions', () => {
+    expect(mapGitLabPipelineStatus('pending')).toEqual({ status: 'queued', conclusion: null });
+    expect(mapGitLabPipelineStatus('running')).toEqual({ status: 'in_progress', conclusion: null });
+    expect(mapGitLabPipelineStatus('failed')).toEqual({ status: 'completed', conclusion: 'failure' });
+    expect(mapGitLabPipelineStatus('canceled')).toEqual({ status: 'completed', conclusion: 'cancelled' });
+    expect(mapGitLabPipelineStatus('manual')).toEqual({ status: 'completed', conclusion: 'action_required' });
+  });
+
+  it('should map finished pipeline hooks to CI events', () => {
+    expect(mapGitLabPipelineToCIEvent('delivery-1', pipelineHook('success'))).toEqual({
+      source: 'pipeline',
+      conclusion: 'success',
+      headSha: 'head-sha',
+      owner: 'acme/platform',
+      repo: 'app',
+      webhookId: 'delivery-1',
+      workflowRunId: 99,
+      name: 'pipeline',
+      url: 'https://gitlab.example.com/acme/platform/app/-/pipelines/99',
+      startedAt: new Date('2026-10-01T10:00:00Z'),
+      completedAt: new Date('2026-10-01T10:05:00Z')
+    });
+    expect(mapGitLabPipelineToCIEvent('delivery-2', pipelineHook('running'))).toBeNull();
+    expect(mapGitLabPipelineToCIEvent('delivery-3', { object_kind: 'push' })).toBeNull();
+  });
+
+  it('should verify the webhook token', () => {
+    expect(verifyGitLabWebhookToken('s3cret', 's3cret')).toEqual({ valid: true, error: undefined });
+    expect(verifyGitLabWebhookToken('wrong!', 's3cret').valid).toBe(false);
+    expect(verifyGitLabWebhookToken(undefined, 's3cret')).toEqual({ valid: false, error: 'Missing token header' });
+  });
+});
+
+describe('ScmClientRegistry', () => {
+  it('should resolve clients by provider and default to GitHub', () => {
+    const github = new StubGitHubClient();
+    const registry = new ScmClientRegistry({ github });
+
+    expect(registry.forProvider(undefined)).toBe(github);
+    expect(registry.forProvider('github')).toBe(github);
+    expect(registry.has('gitlab')).toBe(false);
+    expect(() => registry.forProvider('gitlab')).toThrow('No client configured for SCM provider "gitlab"');
+    expect(() => registry.forProvider('bitbucket')).toThrow('Unknown SCM provider "bitbucket"');
+  });
+});
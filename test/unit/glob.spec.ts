@@ -0,0 +1,152 @@
+import { globToRegExp, matchGlob, matchesAnyGlob } from '@core/policy/glob';
+import { createPolicyConfig, evaluatePolicy } from '@core/policy/policy-engine';
+import { mergePolicyConfig, parsePolicyFile } from '@core/policy/policy-file';
+import { BaseAgent } from '@core/agents/base-agent';
+
+describe('matchGlob', () => {
+  test.each([
+    ['*.ts', 'index.ts', true],
+    ['*.ts', 'src/index.ts', false],
+    ['**/*.ts', 'index.ts', true],
+    ['**/*.ts', 'src/deep/index.ts', true],
+    ['src/**', 'src/a/b.ts', true],
+    ['src/**/test/*.ts', 'src/test/a.ts', true],
+    ['src/**/test/*.ts', 'src/x/y/test/a.ts', true],
+    ['file?.txt', 'file1.txt', true],
+    ['file?.txt', 'file10.txt', false],
+    ['file?.txt', 'file/.txt', false],
+    ['*.{js,ts}', 'a.ts', true],
+    ['*.{js,ts}', 'a.tsx', false],
+    ['{src,lib}/**/*.{js,{c,m}ts}', 'lib/a/b.mts', true],
+    ['log[0-9].txt', 'log5.txt', true],
+    ['log[0-9].txt', 'logx.txt', false],
+    ['log[!0-9].txt', 'logx.txt', true],
+    ['log[^0-9].txt', 'log5.txt', false],
+    ['[!a]*', 'a/b', false],
+    ['.env*', '.env.local', true],
+    ['**/.env*', '.env', true],
+    ['a.b', 'axb', false],
+    ['\\*.md', '*.md', true],
+    ['\\*.md', 'README.md', false],
+    ['{a}', '{a}', true],
+    ['[abc', '[abc', true],
+  ])('%s vs %s -> %s', (pattern, path, expected) => {
+    expect(matchGlob(pattern, path)).toBe(expected);
+  });
+
+  test('negated globs match everything else', () => {
+    expect(matchGlob('!docs/**', 'docs/a.md')).toBe(false);
+    expect(matchGlob('!docs/**', 'src/a.ts')).toBe(true);
+  });
+
+  test('caches compiled patterns', () => {
+    expect(globToRegExp('src/**')).toBe(globToRegExp('src/**'));
+  });
+});
+
+describe('matchesAnyGlob', () => {
+  test('returns the matching pattern', () => {
+    expect(matchesAnyGlob('infra/main.tf', ['docs/**', 'infra/**'])).toBe('infra/**');
+    expect(matchesAnyGlob('src/a.ts', ['docs/**'])).toBeNull();
+    expect(matchesAnyGlob('src/a.ts', [])).toBeNull();
+  });
+
+  test('negations exclude earlier matches in order', () => {
+    const patterns = ['docs/**', '!docs/public/**'];
+    expect(matchesAnyGlob('docs/internal.md', patterns)).toBe('docs/**');
+    expect(matchesAnyGlob('docs/public/index.md', patterns)).toBeNull();
+    // A later pattern can match again
+    expect(matchesAnyGlob('docs/public/secret.md', [...patterns, '**/secret.md'])).toBe('**/secret.md');
+  });
+
+  test('a list of only negations matches everything not excluded', () => {
+    expect(matchesAnyGlob('src/a.ts', ['!docs/**'])).toBe('!docs/**');
+    expect(matchesAnyGlob('docs/a.md', ['!docs/**'])).toBeNull();
+  });
+});
+
+describe('policy rules use full glob semantics', () => {
+  const diffFor = (path: string) => `diff --git a/${path} b/${path}
+index abc123..def456 100644
+--- a/${path}
++++ b/${path}
+@@ -1,1 +1,2 @@
+ line
++added
+`;
+
+  test('deny globs support braces and classes', () => {
+    const config = createPolicyConfig({ denyGlobs: ['infra/{prod,staging}/**', 'migrations/[0-9]*.sql'] });
+    expect(evaluatePolicy(diffFor('infra/prod/main.tf'), config).violations[0]?.rule).toBe('deny_glob');
+    expect(evaluatePolicy(diffFor('migrations/001_init.sql'), config).violations[0]?.rule).toBe('deny_glob');
+    expect(evaluatePolicy(diffFor('infra/dev/main.tf'), config).violations).toEqual([]);
+  });
+
+  test('frozen files accept globs', () => {
+    const config = createPolicyConfig({ frozenFiles: ['src/generated/**'] });
+    expect(evaluatePolicy(diffFor('src/generated/schema.ts'), config).violations[0]).toMatchObject({
+      rule: 'frozen_file',
+      severity: 'BLOCK',
+    });
+  });
+
+  test('repo negations carve exceptions from repo globs but not org defaults', () => {
+    const defaults = createPolicyConfig({ denyGlobs: ['**/*.pem'] });
+    const config = mergePolicyConfig(defaults, parsePolicyFile([
+      'version: 1',
+      'denyGlobs:',
+      '  - "docs/**"',
+      '  - "!docs/public/**"',
+      '  - "!**/*.pem"',
+    ].join('\n')));
+
+    expect(evaluatePolicy(diffFor('docs/internal.md'), config).violations).toHaveLength(1);
+    expect(evaluatePolicy(diffFor('docs/public/index.md'), config).violations).toEqual([]);
+    expect(evaluatePolicy(diffFor('docs/public/cert.pem'), config).violations[0]?.evidence).toBe('**/*.pem');
+  });
+});
+
+describe('agent file patterns', () => {
+  class PatternAgent extends BaseAgent {
+    constructor() {
+      super({
+        id: 'pattern',
+        name: 'Pattern Agent',
+        type: 'backend',
+        capabilities: {
+          canGenerateCode: true,
+          canGenerateTests: false,
+          canReviewCode: false,
+          canGenerateDocs: false,
+          canRefactor: false,
+          filePatterns: ['src/**/*.{ts,js}', '!**/*.spec.ts'],
+          languages: ['typescript'],
+        },
+      });
+    }
+
+    describe(): never {
+      throw new Error('not implemented');
+    }
+
+    validate(): never {
+      throw new Error('not implemented');
+    }
+
+    propose(): never {
+      throw new Error('not implemented');
+    }
+
+    handles(path: string): boolean {
+      return this.canHandleFile(path);
+    }
+  }
+
+  test('use the shared glob matcher', () => {
+    const agent = new PatternAgent();
+    expect(agent.handles('src/api/users.ts')).toBe(true);
+    expect(agent.handles('src/api/users.js')).toBe(true);
+    expect(agent.handles('src/api/users.spec.ts')).toBe(false);
+    expect(agent.handles('docs/readme.md')).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for hunk-level merging of several agents' diffs to one file
+ */
+
+import {
+  mergeFileHunks,
+  overlapSegments,
+  renderMergedFileDiff,
+  selectHunkVariant,
+  splitDiffByFile
+} from '@core/agents/hunk-merge';
+import { applyDiffToContent } from '@core/github/patch-applicator';
+
+const base = ['import a', 'import b', '', 'function one() {', '  return 1;', '}', '', 'function two() {', '  return 2;', '}'].join('\n');
+
+const header = '--- a/src/math.ts\n+++ b/src/math.ts';
+
+describe('splitDiffByFile', () => {
+  it('should split git and plain unified diffs per file', () => {
+    const diff = [
+      'diff --git a/a.ts b/a.ts',
+      '--- a/a.ts',
+      '+++ b/a.ts',
+      '@@ -1 +1 @@',
+      '-x',
+      '+y',
+      '--- a/b.ts',
+      '+++ b/b.ts',
+      '@@ -1 +1 @@',
+      '-p',
+      '+q'
+    ].join('\n');
+
+    expect(splitDiffByFile(diff)).toEqual([
+      { path: 'a.ts', text: 'diff --git a/a.ts b/a.ts\n--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-x\n+y' },
+      { path: 'b.ts', text: '--- a/b.ts\n+++ b/b.ts\n@@ -1 +1 @@\n-p\n+q' }
+    ]);
+  });
+});
+
+describe('mergeFileHunks', () => {
+  const backend = `${header}\n@@ -4,3 +4,3 @@\n function one() {\n-  return 1;\n+  return 10;\n }`;
+  const tests = `${header}\n@@ -8,3 +8,4 @@\n function two() {\n   return 2;\n+  // covered by math.spec.ts\n }`;
+
+  it('should combine non-overlapping hunks into one diff', () => {
+    const merged = mergeFileHunks('src/math.ts', [
+      { agentId: 'backend-agent', diff: backend },
+      { agentId: 'test-agent', diff: tests }
+    ]);
+
+    expect(overlapSegments(merged)).toEqual([]);
+    const rendered = renderMergedFileDiff(merged);
+    expect(rendered).toMatchObject({ additions: 2, deletions: 1 });
+    expect(applyDiffToContent(base, rendered.diff)).toBe(
+      base.replace('return 1;', 'return 10;').replace('  return 2;', '  return 2;\n  // covered by math.spec.ts')
+    );
+  });
+
+  it('should take identical changes once', () => {
+    const merged = mergeFileHunks('src/math.ts', [
+      { agentId: 'backend-agent', diff: backend },
+      { agentId: 'test-agent', diff: backend }
+    ]);
+
+    expect(merged.segments).toHaveLength(1);
+    expect(merged.segments[0].overlap).toBeUndefined();
+  });
+
+  it('should flag overlapping hunks with each variant and render the selected one', () => {
+    const other = `${header}\n@@ -4,3 +4,3 @@\n function one() {\n-  return 1;\n+  return one + 1;\n }`;
+    const merged = mergeFileHunks('src/math.ts', [
+      { agentId: 'backend-agent', diff: `${backend}\n@@ -9 +9 @@\n-  return 2;\n+  return 20;` },
+      { agentId: 'test-agent', diff: other }
+    ]);
+
+    const [hunk] = overlapSegments(merged);
+    expect(hunk).toMatchObject({
+      index: 0,
+      oldStart: 5,
+      removed: ['  return 1;'],
+      overlap: {
+        selected: 'backend-agent',
+        variants: [
+          { agentId: 'backend-agent', lines: ['  return 10;'] },
+          { agentId: 'test-agent', lines: ['  return one + 1;'] }
+        ]
+      }
+    });
+    // The non-overlapping hunk is kept next to the overlap
+    expect(merged.segments).toHaveLength(2);
+
+    const picked = renderMergedFileDiff(selectHunkVariant(merged, 0, 'test-agent'));
+    expect(applyDiffToContent(base, picked.diff)).toBe(
+      base.replace('return 1;', 'return one + 1;').replace('return 2;', 'return 20;')
+    );
+    expect(() => selectHunkVariant(merged, 1, 'test-agent')).toThrow('No variant from test-agent for hunk 1');
+  });
+
+  it('should treat insertions at the same position as overlapping', () => {
+    const insert = (line: string) => `${header}\n@@ -6,2 +6,3 @@\n }\n+${line}\n `;
+    const merged = mergeFileHunks('src/math.ts', [
+      { agentId: 'backend-agent', diff: insert('export { one };') },
+      { agentId: 'test-agent', diff: insert('export default one;') }
+    ], { prefer: 'last' });
+
+    const [hunk] = overlapSegments(merged);
+    expect(hunk.removed).toEqual([]);
+    expect(hunk.overlap!.selected).toBe('test-agent');
+    expect(hunk.added).toEqual(['export default one;']);
+  });
+});
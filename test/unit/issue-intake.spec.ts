@@ -0,0 +1,175 @@
+/**
+ * Tests for issue intake: workflows from labeled issues, progress comments and issue linking
+ */
+
+import {
+  buildIssueContext,
+  createWorkflowFromIssue,
+  formatIssueProgress,
+  issueClosingReference,
+  issueProgressKey
+} from '@core/github/issue-intake';
+import { WebhookService } from '@core/github/webhook-service';
+import { StubGitHubClient } from '@core/github/github-client';
+
+const issue = {
+  owner: 'acme',
+  repo: 'app',
+  number: 5,
+  title: 'Cache repository metadata',
+  body: 'Metadata lookups hit the API on every request.',
+  url: 'https://github.com/acme/app/issues/5'
+};
+
+describe('buildIssueContext', () => {
+  it('should include the body and human discussion only', () => {
+    const context = buildIssueContext(issue, [
+      { id: 1, body: 'Please keep the old endpoint', author: 'alice' },
+      { id: 2, body: '/orchestrator status', author: 'alice' },
+      { id: 3, body: 'Started orchestrator workflow', author: 'arch-orchestrator[bot]', bot: true }
+    ]);
+
+    expect(context).toBe([
+      'Issue: acme/app#5 (https://github.com/acme/app/issues/5)',
+      '',
+      'Metadata lookups hit the API on every request.',
+      '',
+      '## Issue comments',
+      '',
+      '**@alice:**',
+      'Please keep the old endpoint'
+    ].join('\n'));
+  });
+});
+
+describe('createWorkflowFromIssue', () => {
+  const createMockPrisma = (existing: { id: string } | null = null) => ({
+    workflow: {
+      findFirst: jest.fn().mockResolvedValue(existing),
+      create: jest.fn().mockResolvedValue({ id: 'wf-new' })
+    },
+    workflowEvent: { create: jest.fn() }
+  });
+
+  it('should create a workflow on the issue repository with the issue link', async () => {
+    const prisma = createMockPrisma();
+    const client = new StubGitHubClient();
+
+    const result = await createWorkflowFromIssue(prisma as any, client, issue);
+
+    expect(result).toEqual({ workflowId: 'wf-new', created: true });
+    expect(prisma.workflow.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        state: 'INTAKE',
+        featureGoal: 'Cache repository metadata',
+        stage: 'feasibility',
+        context: expect.stringContaining('Metadata lookups hit the API'),
+        repoOwner: 'acme',
+        repoName: 'app',
+        baseBranch: 'main',
+        issueOwner: 'acme',
+        issueRepo: 'app',
+        issueNumber: 5,
+        repos: { create: [{ owner: 'acme', repo: 'app', baseBranch: 'main', role: 'primary', provider: 'github' }] }
+      })
+    });
+    expect(prisma.workflowEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ workflowId: 'wf-new', type: 'issue.create' })
+    });
+  });
+
+  it('should keep the existing workflow when an issue is labeled again', async () => {
+    const prisma = createMockPrisma({ id: 'wf-1' });
+
+    const result = await createWorkflowFromIssue(prisma as any, new StubGitHubClient(), issue);
+
+    expect(result).toEqual({ workflowId: 'wf-1', created: false });
+    expect(prisma.workflow.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('Issue progress and linking', () => {
+  const workflow = { id: 'wf-1', state: 'INTAKE', stage: 'feasibility', stageStatus: 'running', pullRequests: [] };
+
+  it('should report ready, blocked and terminal stages only', () => {
+    expect(formatIssueProgress(workflow)).toBeNull();
+    expect(formatIssueProgress({ ...workflow, stageStatus: 'ready' })).toContain('`feasibility` stage is ready for review');
+    expect(formatIssueProgress({ ...workflow, stageStatus: 'blocked' })).toContain('is blocked');
+    expect(formatIssueProgress({
+      ...workflow,
+      state: 'DONE',
+      pullRequests: [{ number: 12, url: 'https://github.com/acme/app/pull/12', status: 'merged' }]
+    })).toBe('Workflow complete.\n- PR #12 (merged): https://github.com/acme/app/pull/12');
+    expect(formatIssueProgress({ ...workflow, state: 'NEEDS_HUMAN' })).toContain('Workflow stopped (`NEEDS_HUMAN`)');
+  });
+
+  it('should key progress by stage status until the workflow ends', () => {
+    expect(issueProgressKey({ ...workflow, stageStatus: 'ready' })).toBe('feasibility:ready');
+    expect(issueProgressKey({ ...workflow, state: 'DONE' })).toBe('state:DONE');
+  });
+
+  it('should reference issues in other repositories by full name', () => {
+    expect(issueClosingReference(issue, { owner: 'acme', repo: 'app' })).toBe('Closes #5');
+    expect(issueClosingReference(issue, { owner: 'acme', repo: 'api' })).toBe('Closes acme/app#5');
+  });
+});
+
+describe('WebhookService issue intake', () => {
+  const issuesWebhook = (label: string, pullRequest = false) => ({
+    id: 'hook-1',
+    deliveryId: 'delivery-1',
+    eventType: 'issues',
+    signature: 'sig',
+    processed: false,
+    payload: {
+      action: 'labeled',
+      repository: { id: 1, name: 'app', full_name: 'acme/app', owner: { login: 'acme' } },
+      sender: { id: 7, login: 'alice', type: 'User' },
+      label: { name: label },
+      issue: {
+        number: 5,
+        title: issue.title,
+        body: issue.body,
+        html_url: issue.url,
+        ...(pullRequest ? { pull_request: { url: 'https://api.github.com/repos/acme/app/pulls/5' } } : {})
+      }
+    }
+  });
+
+  const createMockPrisma = (webhook: ReturnType<typeof issuesWebhook>) => ({
+    gitHubWebhook: {
+      findUnique: jest.fn().mockResolvedValue(webhook),
+      update: jest.fn()
+    },
+    workflow: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      create: jest.fn().mockResolvedValue({ id: 'wf-new' })
+    },
+    workflowEvent: { create: jest.fn() }
+  });
+
+  it('should create a workflow when the issue gets the label', async () => {
+    const prisma = createMockPrisma(issuesWebhook('orchestrator'));
+    const service = new WebhookService(prisma as any, 'secret', {
+      issueIntake: { label: 'orchestrator', client: new StubGitHubClient() }
+    });
+
+    const result = await service.process('hook-1');
+
+    expect(result).toEqual({ processed: true, action: 'issue_workflow_created', workflowId: 'wf-new' });
+  });
+
+  it('should ignore other labels and pull requests', async () => {
+    for (const webhook of [issuesWebhook('bug'), issuesWebhook('orchestrator', true)]) {
+      const prisma = createMockPrisma(webhook);
+      const service = new WebhookService(prisma as any, 'secret', {
+        issueIntake: { label: 'orchestrator', client: new StubGitHubClient() }
+      });
+
+      const result = await service.process('hook-1');
+
+      expect(result.action).toBeUndefined();
+      expect(prisma.workflow.create).not.toHaveBeenCalled();
+    }
+  });
+});
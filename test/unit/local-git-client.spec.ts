@@ -0,0 +1,250 @@
+/**
+ * Tests for LocalGitClient against real repositories in a temp directory
+ */
+
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync, mkdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalGitClient, LOCAL_GIT_SIDECAR_FILE } from '@core/github/local-git-client';
+import { PatchApplicator } from '@core/github/patch-applicator';
+import { WriteGate } from '@core/policy/write-gate';
+
+const GIT_ENV = {
+  ...process.env,
+  GIT_AUTHOR_NAME: 'Fixture',
+  GIT_AUTHOR_EMAIL: 'fixture@example.com',
+  GIT_COMMITTER_NAME: 'Fixture',
+  GIT_COMMITTER_EMAIL: 'fixture@example.com'
+};
+
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync('git', args, { cwd, env: GIT_ENV }).toString('utf8').trim();
+
+describe('LocalGitClient', () => {
+  let root: string;
+  let source: string;
+  let client: LocalGitClient;
+  let baseSha: string;
+  const repo = { owner: 'acme', repo: 'app' };
+
+  const commitFile = (path: string, content: string, message: string) => {
+    mkdirSync(join(source, path, '..'), { recursive: true });
+    writeFileSync(join(source, path), content);
+    git(source, 'add', path);
+    git(source, 'commit', '-q', '-m', message);
+    return git(source, 'rev-parse', 'HEAD');
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'local-git-client-'));
+    source = join(root, 'source');
+    mkdirSync(source);
+    git(source, 'init', '-q', '-b', 'main');
+    commitFile('README.md', '# App\n', 'Initial commit');
+    baseSha = commitFile('src/index.ts', 'export const a = 1;\n', 'Add index');
+
+    client = new LocalGitClient({ reposDir: join(root, 'repos'), remoteUrl: source });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should clone on first use and read branches, trees, files and commits', async () => {
+    const info = await client.getRepository(repo);
+    expect(info).toMatchObject({ name: 'app', fullName: 'acme/app', defaultBranch: 'main' });
+
+    const branch = await client.getBranch({ ...repo, branch: 'main' });
+    expect(branch).toEqual({ name: 'main', sha: baseSha, protected: true });
+
+    const tree = await client.getTree({ ...repo, sha: baseSha, recursive: true });
+    expect(tree.tree.map(item => [item.path, item.type])).toEqual([
+      ['README.md', 'blob'],
+      ['src', 'tree'],
+      ['src/index.ts', 'blob']
+    ]);
+    expect(tree.tree[0].size).toBe(6);
+
+    const file = await client.getFileContents({ ...repo, path: 'src/index.ts', ref: 'main' });
+    expect(file).toMatchObject({ content: 'export const a = 1;\n', size: 20 });
+    await expect(client.getFileContents({ ...repo, path: 'missing.ts' })).rejects.toThrow('Not Found');
+
+    const commit = await client.getCommit({ ...repo, sha: baseSha });
+    expect(commit.message).toBe('Add index');
+    expect(commit.parents).toHaveLength(1);
+    expect(commit.treeSha).toBe(tree.sha);
+  });
+
+  it('should fail for a missing repository without a remote', async () => {
+    const offline = new LocalGitClient({ reposDir: join(root, 'repos') });
+    await expect(offline.getRepository(repo)).rejects.toThrow('Not Found: repository acme/app');
+  });
+
+  it('should reject repository names that leave the repositories directory', async () => {
+    expect(() => client.repoPath('..', 'app')).toThrow('Validation Failed');
+    expect(() => client.repoPath('acme', '../../etc')).toThrow('Validation Failed');
+    expect(() => client.repoPath('acme/team', 'app')).toThrow('Validation Failed');
+    await expect(client.getRepository({ owner: 'acme', repo: '..' })).rejects.toThrow('Validation Failed');
+  });
+
+  it('should fetch new commits into the cache on the next client', async () => {
+    await client.getBranch({ ...repo, branch: 'main' });
+    const next = commitFile('src/index.ts', 'export const a = 2;\n', 'Bump');
+
+    // Fetched once per client instance
+    expect((await client.getBranch({ ...repo, branch: 'main' })).sha).toBe(baseSha);
+    const fresh = new LocalGitClient({ reposDir: join(root, 'repos'), remoteUrl: source });
+    expect((await fresh.getBranch({ ...repo, branch: 'main' })).sha).toBe(next);
+  });
+
+  it('should build commits from blobs and trees and move refs fast-forward only', async () => {
+    const blob = await client.createBlob({ ...repo, content: Buffer.from('echo hi\n').toString('base64'), encoding: 'base64' });
+    // Same SHA as git hash-object
+    expect(blob.sha).toBe(execFileSync('git', ['hash-object', '--stdin'], { input: 'echo hi\n' }).toString().trim());
+
+    const base = await client.getCommit({ ...repo, sha: baseSha });
+    const tree = await client.createTree({
+      ...repo,
+      baseTree: base.treeSha,
+      entries: [
+        { path: 'bin/run.sh', mode: '100755', sha: blob.sha },
+        { path: 'README.md', mode: '100644', sha: null }
+      ]
+    });
+    const commit = await client.createCommit({ ...repo, message: 'Add script\n\nDetails', tree: tree.sha, parents: [baseSha] });
+
+    await client.createBranch({ ...repo, branch: 'feature', sha: baseSha });
+    await expect(client.createBranch({ ...repo, branch: 'feature', sha: baseSha }))
+      .rejects.toThrow('Reference already exists');
+    await client.updateRef({ ...repo, branch: 'feature', sha: commit.sha });
+
+    const listing = await client.getTree({ ...repo, sha: 'feature', recursive: true });
+    expect(listing.tree.filter(i => i.type === 'blob').map(i => [i.path, i.mode])).toEqual([
+      ['bin/run.sh', '100755'],
+      ['src/index.ts', '100644']
+    ]);
+    expect((await client.getCommit({ ...repo, sha: commit.sha })).message).toBe('Add script\n\nDetails');
+
+    await expect(client.updateRef({ ...repo, branch: 'feature', sha: baseSha }))
+      .rejects.toThrow('Update is not a fast forward');
+    await client.updateRef({ ...repo, branch: 'feature', sha: baseSha, force: true });
+    expect((await client.getBranch({ ...repo, branch: 'feature' })).sha).toBe(baseSha);
+    await expect(client.updateRef({ ...repo, branch: 'nope', sha: baseSha }))
+      .rejects.toThrow('Reference does not exist: heads/nope');
+  });
+
+  it('should update and delete files with a commit each', async () => {
+    await client.createBranch({ ...repo, branch: 'edit', sha: baseSha });
+    const current = await client.getFileContents({ ...repo, path: 'src/index.ts', ref: 'edit' });
+
+    await expect(client.updateFile({
+      ...repo, branch: 'edit', path: 'src/index.ts', message: 'Stale', content: '', sha: 'stale'
+    })).rejects.toThrow('does not match');
+
+    const updated = await client.updateFile({
+      ...repo,
+      branch: 'edit',
+      path: 'src/index.ts',
+      message: 'Update index',
+      content: Buffer.from('export const a = 3;\n').toString('base64'),
+      sha: current.sha
+    });
+    expect((await client.getBranch({ ...repo, branch: 'edit' })).sha).toBe(updated.commitSha);
+
+    const deleted = await client.deleteFile({ ...repo, branch: 'edit', path: 'src/index.ts', message: 'Remove', sha: updated.sha });
+    expect((await client.getCommit({ ...repo, sha: deleted.commitSha })).parents).toEqual([updated.commitSha]);
+    await expect(client.getFileContents({ ...repo, path: 'src/index.ts', ref: 'edit' })).rejects.toThrow('Not Found');
+  });
+
+  it('should record pull requests and dispatched runs in the sidecar', async () => {
+    await expect(client.dispatchWorkflow({ ...repo, workflowId: 'ci.yml', ref: 'main' }))
+      .rejects.toThrow('not available for local repositories');
+
+    const ci = new LocalGitClient({ reposDir: join(root, 'repos'), remoteUrl: source, dispatchConclusion: 'success' });
+    await ci.createBranch({ ...repo, branch: 'feature', sha: baseSha });
+    const pr = await ci.openPullRequest({ ...repo, head: 'feature', base: 'main', title: 'Feature' });
+    expect(pr.number).toBe(1);
+
+    await ci.dispatchWorkflow({ ...repo, workflowId: 'ci.yml', ref: 'feature' });
+    const runs = await ci.listWorkflowRuns({ ...repo, workflowId: 'ci.yml', branch: 'feature' });
+    expect(runs.runs).toEqual([expect.objectContaining({ id: 1, conclusion: 'success', headSha: baseSha })]);
+    expect((await ci.listCheckRuns({ ...repo, ref: 'feature' })).checkRuns[0]).toMatchObject({ name: 'ci.yml' });
+    expect((await ci.getWorkflowRunJobs({ ...repo, runId: 1 })).jobs[0].name).toBe('ci.yml');
+
+    const sidecar = JSON.parse(readFileSync(join(ci.repoPath('acme', 'app'), LOCAL_GIT_SIDECAR_FILE), 'utf8'));
+    expect(sidecar.pullRequests[0]).toMatchObject({ number: 1, head: 'feature', base: 'main', headSha: baseSha });
+  });
+
+  it('should merge pull requests with the requested method', async () => {
+    const edit = async (branch: string, content: string) => {
+      await client.createBranch({ ...repo, branch, sha: baseSha });
+      const current = await client.getFileContents({ ...repo, path: 'src/index.ts', ref: branch });
+      return client.updateFile({
+        ...repo, branch, path: 'src/index.ts', message: `Edit on ${branch}`,
+        content: Buffer.from(content).toString('base64'), sha: current.sha
+      });
+    };
+    const merge = (pullNumber: number, mergeMethod: 'squash' | 'merge' | 'rebase') =>
+      client.mergePullRequest({ ...repo, pullNumber, mode: 'auto_merge', mergeMethod });
+
+    const squashed = await edit('squashed', 'export const a = 2;\n');
+    await client.openPullRequest({ ...repo, head: 'squashed', base: 'main', title: 'Squash me' });
+    const result = await merge(1, 'squash');
+    expect(result.status).toBe('merged');
+    const commit = await client.getCommit({ ...repo, sha: result.sha! });
+    expect(commit).toMatchObject({ parents: [baseSha], message: 'Squash me (#1)' });
+    expect(commit.treeSha).toBe((await client.getCommit({ ...repo, sha: squashed.commitSha })).treeSha);
+    expect((await client.getBranch({ ...repo, branch: 'main' })).sha).toBe(result.sha);
+    expect(await merge(1, 'squash')).toEqual(result);
+
+    // main has moved past the base of the second PR
+    await edit('stale', 'export const a = 3;\n');
+    await client.openPullRequest({ ...repo, head: 'stale', base: 'main', title: 'Stale' });
+    await expect(merge(2, 'merge')).rejects.toThrow('not mergeable');
+
+    expect((await client.listPullRequests('acme', 'app')).map(pr => pr.state)).toEqual(['merged', 'open']);
+  });
+
+  it('should run the patch applicator end to end', async () => {
+    const prisma: any = {
+      patchSet: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'ps-1',
+          title: 'Bump a',
+          baseSha,
+          patches: [{
+            id: 'p1',
+            title: 'Bump a',
+            summary: 'Set a to 2',
+            diff: [
+              'diff --git a/src/index.ts b/src/index.ts',
+              '--- a/src/index.ts',
+              '+++ b/src/index.ts',
+              '@@ -1 +1 @@',
+              '-export const a = 1;',
+              '+export const a = 2;'
+            ].join('\n')
+          }]
+        }),
+        update: jest.fn()
+      },
+      approval: { count: jest.fn().mockResolvedValue(1) },
+      pullRequest: { create: jest.fn() },
+      workflow: { findUnique: jest.fn().mockResolvedValue({ id: 'wf-1', issueOwner: 'acme', issueRepo: 'app', issueNumber: 5 }) }
+    };
+    const applicator = new PatchApplicator(prisma, new WriteGate(prisma, client));
+    const openPullRequest = jest.spyOn(client, 'openPullRequest');
+
+    const result = await applicator.applyPatches({ workflowId: 'wf-1', patchSetId: 'ps-1', ...repo, baseBranch: 'main' });
+
+    expect(result.success).toBe(true);
+    const file = await client.getFileContents({ ...repo, path: 'src/index.ts', ref: result.branchName });
+    expect(file.content).toBe('export const a = 2;\n');
+    expect(await client.listPullRequests('acme', 'app')).toEqual([
+      expect.objectContaining({ number: result.prNumber, head: result.branchName, headSha: result.commitShas[0] })
+    ]);
+    // The workflow's linked issue closes when the PR merges
+    expect(openPullRequest.mock.calls[0][0].body).toContain('Closes #5');
+  });
+});
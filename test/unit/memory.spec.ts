@@ -4,6 +4,7 @@
 
 import {
   ContextLoader,
+  HashingEmbeddingProvider,
   estimateTokens,
   hashContent,
   formatContextAsText,
@@ -296,6 +297,103 @@ describe('ContextLoader', () => {
     });
   });
 
+  describe('semantic relevance', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const related = (id: string, featureGoal: string, ageDays = 1) => ({
+      id,
+      state: 'DONE',
+      baseSha: 'other',
+      featureGoal,
+      createdAt: new Date(Date.now() - ageDays * day),
+      artifacts: []
+    });
+
+    beforeEach(() => {
+      prisma.workflow.findUnique.mockResolvedValue({
+        id: 'wf-1',
+        state: 'INGESTED',
+        baseSha: 'abc123',
+        featureGoal: 'Rate limit failed login attempts',
+        artifacts: [],
+        events: [],
+        patchSets: []
+      });
+    });
+
+    it('should rank WARM workflows by similarity to the feature goal', async () => {
+      prisma.workflow.findMany.mockResolvedValue([
+        related('wf-billing', 'Render invoice PDFs for billing'),
+        related('wf-login', 'Lock accounts after failed login attempts')
+      ]);
+
+      const context = await loader.loadContext({
+        workflowId: 'wf-1',
+        maxTokens: 10000,
+        includeTiers: ['WARM'],
+        includeRelatedWorkflows: true,
+        maxRelatedWorkflows: 1
+      });
+
+      expect(context.items.map(i => i.metadata.workflowId)).toEqual(['wf-login']);
+      expect(context.items[0].metadata.relevanceScore).toBeGreaterThan(0);
+    });
+
+    it('should drop WARM and COLD items below minRelevanceScore', async () => {
+      prisma.workflow.findMany.mockResolvedValue([
+        related('wf-billing', 'Render invoice PDFs for billing', 200),
+        related('wf-login', 'Lock accounts after failed login attempts', 200)
+      ]);
+
+      const context = await loader.loadContext({
+        workflowId: 'wf-1',
+        maxTokens: 10000,
+        includeTiers: ['WARM', 'COLD'],
+        includeRelatedWorkflows: true,
+        minRelevanceScore: 0.2
+      });
+
+      const ids = context.items.map(i => i.metadata.workflowId);
+      expect(ids).toContain('wf-login');
+      expect(ids).not.toContain('wf-billing');
+      expect(context.items.every(i => i.metadata.relevanceScore! >= 0.2)).toBe(true);
+    });
+
+    it('should search the vector store for the COLD tier', async () => {
+      const search = jest.fn().mockResolvedValue([{
+        id: 'vec-1',
+        sourceType: 'file_chunk',
+        sourceId: 'acme/app:src/auth.ts',
+        chunkIndex: 0,
+        workflowId: null,
+        filePath: 'src/auth.ts',
+        content: 'File: src/auth.ts\nexport function login() {}',
+        score: 0.6,
+        createdAt: new Date()
+      }]);
+      const vectorLoader = new ContextLoader(prisma as any, {
+        vectorStore: { search, embeddings: new HashingEmbeddingProvider() } as any
+      });
+
+      const context = await vectorLoader.loadContext({
+        workflowId: 'wf-1',
+        maxTokens: 10000,
+        includeTiers: ['COLD'],
+        minRelevanceScore: 0.3
+      });
+
+      expect(search).toHaveBeenCalledWith('Rate limit failed login attempts', expect.objectContaining({
+        excludeWorkflowId: 'wf-1',
+        minScore: 0.3
+      }));
+      expect(context.items).toHaveLength(1);
+      expect(context.items[0]).toMatchObject({
+        tier: 'COLD',
+        type: 'file_snapshot',
+        metadata: { workflowId: 'wf-1', filePath: 'src/auth.ts', relevanceScore: 0.6 }
+      });
+    });
+  });
+
   describe('getMemoryStats', () => {
     it('should return memory statistics', async () => {
       prisma.workflow.findUnique.mockResolvedValue({
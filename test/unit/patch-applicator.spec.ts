@@ -1,4 +1,7 @@
 import { PatchApplicator, validateAndApplyDiff, extractFileChangesFromDiff } from '@core/github/patch-applicator';
+import { StubGitHubClient } from '@core/github/github-client';
+import { WriteGate } from '@core/policy/write-gate';
+import { createPolicyConfig } from '@core/policy/policy-engine';
 
 describe('validateAndApplyDiff', () => {
   test('returns success for matching diff', () => {
@@ -322,3 +325,320 @@ describe('PatchApplicator.validatePatches', () => {
     expect(result.errors[0].error).toContain('File to be deleted not found');
   });
 });
+
+describe('PatchApplicator.applyPatchesToBranch', () => {
+  const BASE_FILES: Record<string, string> = {
+    'src/a.ts': 'line1\nline2\nline3',
+    'src/old.ts': 'legacy'
+  };
+
+  const modifyA = [
+    'diff --git a/src/a.ts b/src/a.ts',
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -1,3 +1,3 @@',
+    ' line1',
+    '-line2',
+    '+line2 changed',
+    ' line3'
+  ].join('\n');
+
+  const addScript = [
+    'diff --git a/bin/run.sh b/bin/run.sh',
+    'new file mode 100755',
+    '--- /dev/null',
+    '+++ b/bin/run.sh',
+    '@@ -0,0 +1,1 @@',
+    '+echo run'
+  ].join('\n');
+
+  const deleteOld = [
+    'diff --git a/src/old.ts b/src/old.ts',
+    'deleted file mode 100644',
+    '--- a/src/old.ts',
+    '+++ /dev/null',
+    '@@ -1 +0,0 @@',
+    '-legacy'
+  ].join('\n');
+
+  const patchSet = (...diffs: string[]) => ({
+    id: 'ps-1',
+    title: 'Refactor',
+    baseSha: 'base-sha',
+    patches: diffs.map((diff, i) => ({ id: `p${i}`, title: `Patch ${i + 1}`, summary: 'Summary', diff }))
+  });
+
+  let github: StubGitHubClient;
+  let prisma: any;
+  let writeGate: WriteGate;
+
+  beforeEach(() => {
+    github = new StubGitHubClient();
+    jest.spyOn(github, 'getFileContents').mockImplementation(async ({ path }) => {
+      if (!(path in BASE_FILES)) throw new Error('Not Found');
+      return { path, content: BASE_FILES[path], sha: `sha-${path}`, size: BASE_FILES[path].length };
+    });
+    jest.spyOn(github, 'getBranch').mockResolvedValue({ name: 'main', sha: 'base-sha', protected: true });
+    prisma = {
+      patchSet: { findUnique: jest.fn() },
+      approval: { count: jest.fn().mockResolvedValue(1) }
+    };
+    writeGate = new WriteGate(prisma, github);
+  });
+
+  const input = { workflowId: 'wf-1', patchSetId: 'ps-1', owner: 'o', repo: 'r', baseBranch: 'main', branchName: 'bot/ps-1' };
+
+  test('commits one tree per patch and creates the branch at the last commit', async () => {
+    prisma.patchSet.findUnique.mockResolvedValue(patchSet(modifyA, addScript, deleteOld));
+    const createBranch = jest.spyOn(github, 'createBranch');
+    const updateFile = jest.spyOn(github, 'updateFile');
+
+    const result = await new PatchApplicator(prisma, writeGate).applyPatchesToBranch(input);
+
+    expect(result.success).toBe(true);
+    expect(result.commitShas).toHaveLength(3);
+    expect(updateFile).not.toHaveBeenCalled();
+    expect(createBranch).toHaveBeenCalledTimes(1);
+    expect(github.getRef('bot/ps-1')).toBe(result.commitShas[2]);
+
+    // Commits are chained on the base commit
+    const first = await github.getCommit({ owner: 'o', repo: 'r', sha: result.commitShas[0] });
+    const last = await github.getCommit({ owner: 'o', repo: 'r', sha: result.commitShas[2] });
+    expect(first.parents).toEqual(['base-sha']);
+    expect(first.message).toBe('Patch 1\n\nSummary');
+    expect(last.parents).toEqual([result.commitShas[1]]);
+  });
+
+  test('commits the whole PatchSet as a single tree when configured', async () => {
+    prisma.patchSet.findUnique.mockResolvedValue(patchSet(modifyA, addScript, deleteOld));
+    const createTree = jest.spyOn(github, 'createTree');
+
+    const applicator = new PatchApplicator(prisma, writeGate, { commitStrategy: 'per_patchset' });
+    const result = await applicator.applyPatchesToBranch(input);
+
+    expect(result.commitShas).toHaveLength(1);
+    expect(createTree).toHaveBeenCalledWith({
+      owner: 'o',
+      repo: 'r',
+      baseTree: 'stub-tree-base-sha',
+      entries: [
+        { path: 'src/a.ts', mode: '100644', sha: expect.any(String) },
+        { path: 'bin/run.sh', mode: '100755', sha: expect.any(String) },
+        { path: 'src/old.ts', mode: '100644', sha: null }
+      ]
+    });
+    const files = github.getCommitFiles(result.commitShas[0]);
+    expect(files.get('src/a.ts')).toBe('line1\nline2 changed\nline3');
+    expect(files.get('bin/run.sh')).toBe('echo run');
+    expect((await github.getCommit({ owner: 'o', repo: 'r', sha: result.commitShas[0] })).message)
+      .toBe('Refactor\n\n- Patch 1\n- Patch 2\n- Patch 3');
+  });
+
+  test('applies later patches on top of earlier ones', async () => {
+    const modifyAgain = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -2,2 +2,2 @@',
+      ' line2 changed',
+      '-line3',
+      '+line3 changed'
+    ].join('\n');
+    prisma.patchSet.findUnique.mockResolvedValue(patchSet(modifyA, modifyAgain));
+
+    const result = await new PatchApplicator(prisma, writeGate).applyPatchesToBranch(input);
+
+    expect(result.success).toBe(true);
+    expect(github.getCommitFiles(result.commitShas[1]).get('src/a.ts')).toBe('line1\nline2 changed\nline3 changed');
+  });
+
+  test('keeps the mode of existing files from the base tree', async () => {
+    jest.spyOn(github, 'getTree').mockResolvedValue({
+      sha: 'stub-tree-base-sha',
+      tree: [{ path: 'src/a.ts', mode: '100755', type: 'blob', sha: 'sha-src/a.ts' }],
+      truncated: false
+    });
+    const chmodA = modifyA.replace('--- a/src/a.ts', 'old mode 100755\nnew mode 100644\n--- a/src/a.ts');
+    prisma.patchSet.findUnique.mockResolvedValue(patchSet(modifyA, addScript));
+    const createTree = jest.spyOn(github, 'createTree');
+
+    await new PatchApplicator(prisma, writeGate).applyPatchesToBranch(input);
+    prisma.patchSet.findUnique.mockResolvedValue(patchSet(chmodA));
+    await new PatchApplicator(prisma, writeGate).applyPatchesToBranch({ ...input, branchName: 'bot/ps-2' });
+
+    const modes = createTree.mock.calls.map(([params]) => params.entries.map(entry => [entry.path, entry.mode]));
+    expect(modes).toEqual([
+      [['src/a.ts', '100755']],
+      [['bin/run.sh', '100755']],
+      [['src/a.ts', '100644']]
+    ]);
+  });
+
+  test('creates no branch when a patch fails', async () => {
+    const mismatched = modifyA.replace(' line1', ' not line1');
+    prisma.patchSet.findUnique.mockResolvedValue(patchSet(addScript, mismatched));
+    const createBranch = jest.spyOn(github, 'createBranch');
+
+    const result = await new PatchApplicator(prisma, writeGate).applyPatchesToBranch(input);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Failed to apply diff to src/a.ts');
+    expect(result.commitShas).toEqual([]);
+    expect(createBranch).not.toHaveBeenCalled();
+    expect(github.getRef('bot/ps-1')).toBeUndefined();
+  });
+
+  test('fails instead of treating a file it could not read as new', async () => {
+    prisma.patchSet.findUnique.mockResolvedValue(patchSet(modifyA));
+    jest.spyOn(github, 'getFileContents').mockRejectedValue(Object.assign(new Error('Server Error'), { status: 502 }));
+    const createBlob = jest.spyOn(github, 'createBlob');
+
+    const result = await new PatchApplicator(prisma, writeGate).applyPatchesToBranch(input);
+
+    expect(result).toMatchObject({ success: false, error: 'Server Error', commitShas: [] });
+    expect(createBlob).not.toHaveBeenCalled();
+    expect(github.getRef('bot/ps-1')).toBeUndefined();
+  });
+
+  test('writes nothing without approval', async () => {
+    prisma.patchSet.findUnique.mockResolvedValue(patchSet(modifyA));
+    prisma.approval.count.mockResolvedValue(0);
+    const createBlob = jest.spyOn(github, 'createBlob');
+
+    const result = await new PatchApplicator(prisma, writeGate).applyPatchesToBranch(input);
+
+    expect(result).toMatchObject({ success: false, error: 'WRITE_BLOCKED_NO_APPROVAL' });
+    expect(createBlob).not.toHaveBeenCalled();
+  });
+});
+
+describe('PatchApplicator rebase onto a moved base branch', () => {
+  const FILES: Record<string, Record<string, string>> = {
+    'base-sha': { 'src/a.ts': 'line1\nline2\nline3' },
+    'head-sha': { 'src/a.ts': 'line0\nline1\nline2\nline3' }
+  };
+
+  const modifyA = [
+    'diff --git a/src/a.ts b/src/a.ts',
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -1,3 +1,3 @@',
+    ' line1',
+    '-line2',
+    '+line2 changed',
+    ' line3'
+  ].join('\n');
+
+  let github: StubGitHubClient;
+  let prisma: any;
+  let writeGate: WriteGate;
+
+  beforeEach(() => {
+    github = new StubGitHubClient();
+    jest.spyOn(github, 'getFileContents').mockImplementation(async ({ path, ref }) => {
+      const content = FILES[ref!]?.[path];
+      if (content === undefined) throw new Error('Not Found');
+      return { path, content, sha: `sha-${path}`, size: content.length };
+    });
+    jest.spyOn(github, 'getBranch').mockResolvedValue({ name: 'main', sha: 'head-sha', protected: true });
+    prisma = {
+      patchSet: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'ps-1',
+          title: 'Refactor',
+          baseSha: 'base-sha',
+          patches: [{ id: 'p1', title: 'Patch 1', summary: 'Summary', diff: modifyA }]
+        }),
+        update: jest.fn()
+      },
+      patch: { update: jest.fn() },
+      approval: { count: jest.fn().mockResolvedValue(1), findMany: jest.fn().mockResolvedValue([]) },
+      policyWaiver: { findMany: jest.fn().mockResolvedValue([]) },
+      policyViolation: { deleteMany: jest.fn(), create: jest.fn().mockResolvedValue({ id: 'v1' }) },
+      artifact: { findFirst: jest.fn().mockResolvedValue(null), create: jest.fn() },
+      $transaction: jest.fn(fn => fn(prisma))
+    };
+    writeGate = new WriteGate(prisma, github);
+  });
+
+  const input = { workflowId: 'wf-1', patchSetId: 'ps-1', owner: 'o', repo: 'r', baseBranch: 'main', branchName: 'bot/ps-1' };
+
+  test('merges the patch onto the current head and records the new base', async () => {
+    const result = await new PatchApplicator(prisma, writeGate).applyPatchesToBranch(input);
+
+    expect(result.success).toBe(true);
+    expect(result.rebase).toEqual({ fromSha: 'base-sha', toSha: 'head-sha' });
+    const commit = await github.getCommit({ owner: 'o', repo: 'r', sha: result.commitShas[0] });
+    expect(commit.parents).toEqual(['head-sha']);
+    expect(github.getCommitFiles(result.commitShas[0]).get('src/a.ts')).toBe('line0\nline1\nline2 changed\nline3');
+
+    // The stored diff applies to the new base
+    const { diff, files } = prisma.patch.update.mock.calls[0][0].data;
+    expect(diff).toContain('@@ -1,4 +1,4 @@');
+    expect(files).toEqual([{ path: 'src/a.ts', additions: 1, deletions: 1 }]);
+    expect(prisma.patchSet.update).toHaveBeenCalledWith({ where: { id: 'ps-1' }, data: { baseSha: 'head-sha' } });
+  });
+
+  test('stores a conflict report when the head changed the same lines', async () => {
+    FILES['head-sha']['src/a.ts'] = 'line1\nline2 upstream\nline3';
+    const createBlob = jest.spyOn(github, 'createBlob');
+
+    const result = await new PatchApplicator(prisma, writeGate).applyPatchesToBranch(input);
+    FILES['head-sha']['src/a.ts'] = 'line0\nline1\nline2\nline3';
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('conflicts in src/a.ts; see .ai/CONFLICTS-ps-1.json');
+    expect(createBlob).not.toHaveBeenCalled();
+    expect(prisma.patch.update).not.toHaveBeenCalled();
+
+    const { data } = prisma.artifact.create.mock.calls[0][0];
+    expect(data).toMatchObject({ kind: 'ConflictReportV1', path: '.ai/CONFLICTS-ps-1.json', artifactVersion: 1 });
+    expect(JSON.parse(data.content)).toMatchObject({
+      baseSha: 'base-sha',
+      headSha: 'head-sha',
+      files: [{
+        path: 'src/a.ts',
+        patchId: 'p1',
+        reason: 'overlapping_changes',
+        conflicts: [{ baseStartLine: 2, base: ['line2'], head: ['line2 upstream'], patch: ['line2 changed'] }]
+      }]
+    });
+  });
+
+  test('fails the rebase when a file cannot be read', async () => {
+    jest.spyOn(github, 'getFileContents').mockImplementation(async ({ path, ref }) => {
+      if (ref === 'head-sha') throw Object.assign(new Error('API rate limit exceeded'), { status: 403 });
+      const content = FILES[ref!]?.[path];
+      if (content === undefined) throw new Error('Not Found');
+      return { path, content, sha: `sha-${path}`, size: content.length };
+    });
+
+    const result = await new PatchApplicator(prisma, writeGate).applyPatchesToBranch(input);
+
+    expect(result).toMatchObject({ success: false, error: 'API rate limit exceeded' });
+    expect(prisma.artifact.create).not.toHaveBeenCalled();
+    expect(prisma.patch.update).not.toHaveBeenCalled();
+    expect(prisma.patchSet.update).not.toHaveBeenCalled();
+  });
+
+  test('re-runs Gate2 on the rebased diff with the policy at the new base', async () => {
+    const loadPolicy = jest.fn().mockResolvedValue({
+      config: createPolicyConfig({ frozenFiles: ['src/a.ts'] }),
+      source: null
+    });
+    const createBranch = jest.spyOn(github, 'createBranch');
+
+    const result = await new PatchApplicator(prisma, writeGate, { loadPolicy }).applyPatchesToBranch(input);
+
+    expect(loadPolicy).toHaveBeenCalledWith('head-sha');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Gate2 failed on the rebased PatchSet');
+    expect(prisma.policyViolation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ patchSetId: 'ps-1', rule: 'frozen_file', severity: 'BLOCK' })
+    });
+    expect(createBranch).not.toHaveBeenCalled();
+    // The PatchSet keeps its diffs and base
+    expect(prisma.patch.update).not.toHaveBeenCalled();
+    expect(prisma.patchSet.update).not.toHaveBeenCalled();
+  });
+});
@@ -293,7 +293,7 @@ describe('evaluatePolicy', () => {
     test('blocks dependency file changes by default', () => {
       const result = evaluatePolicy(PACKAGE_JSON_DIFF);
       expect(result.hasBlockingViolations).toBe(true);
-      const depViolation = result.violations.find(v => v.rule === 'dependency_change');
+      const depViolation = result.violations.find(v => v.rule === 'dependency_added');
       expect(depViolation).toBeDefined();
       expect(depViolation!.file).toBe('package.json');
     });
@@ -304,7 +304,7 @@ describe('evaluatePolicy', () => {
       });
       const result = evaluatePolicy(PACKAGE_JSON_DIFF, config);
       expect(result.hasBlockingViolations).toBe(false);
-      const depViolation = result.violations.find(v => v.rule === 'dependency_change');
+      const depViolation = result.violations.find(v => v.rule === 'dependency_added');
       expect(depViolation).toBeDefined();
       expect(depViolation!.severity).toBe('WARN');
     });
@@ -0,0 +1,216 @@
+import {
+  parsePolicyFile,
+  mergePolicyConfig,
+  loadRepoPolicy,
+  snapshotPolicyConfig,
+  POLICY_FILE_PATH,
+} from '@core/policy/policy-file';
+import { DEFAULT_POLICY_CONFIG, createPolicyConfig, evaluatePolicy } from '@core/policy/policy-engine';
+import { evaluateGate2 } from '@core/policy/gate2';
+import { StubGitHubClient } from '@core/github/github-client';
+
+const POLICY_YAML = `
+version: 1
+frozenFiles:
+  - src/generated/schema.ts
+denyGlobs:
+  - infra/**
+secretPatterns:
+  - "acme_[a-z0-9]{16}"
+allowDependencyChanges: true
+`;
+
+const INFRA_DIFF = `diff --git a/infra/main.tf b/infra/main.tf
+index abc123..def456 100644
+--- a/infra/main.tf
++++ b/infra/main.tf
+@@ -1,2 +1,3 @@
+ resource "a" "b" {}
++resource "c" "d" {}
+`;
+
+const PACKAGE_JSON_DIFF = `diff --git a/package.json b/package.json
+index abc123..def456 100644
+--- a/package.json
++++ b/package.json
+@@ -1,4 +1,5 @@
+   "dependencies": {
++    "lodash": "^4.17.21",
+     "express": "^4.18.0"
+   }
+`;
+
+function githubWith(files: Record<string, string>) {
+  return {
+    getFileContents: jest.fn(async (params: { path: string; ref?: string }) => {
+      const content = files[params.path];
+      if (content === undefined) {
+        throw new Error('Not Found');
+      }
+      return { path: params.path, content, sha: `blob-${params.path}`, size: content.length };
+    })
+  };
+}
+
+describe('parsePolicyFile', () => {
+  test('parses a valid policy file', () => {
+    const file = parsePolicyFile(POLICY_YAML);
+    expect(file.version).toBe(1);
+    expect(file.frozenFiles).toEqual(['src/generated/schema.ts']);
+    expect(file.denyGlobs).toEqual(['infra/**']);
+    expect(file.dependencyFiles).toEqual([]);
+    expect(file.allowDependencyChanges).toBe(true);
+  });
+
+  test('rejects unknown versions', () => {
+    expect(() => parsePolicyFile('version: 2')).toThrow(/version/);
+  });
+
+  test('rejects unknown keys', () => {
+    expect(() => parsePolicyFile('version: 1\nfrozen: [a]')).toThrow(/Invalid policy file/);
+  });
+
+  test('rejects invalid secret patterns', () => {
+    expect(() => parsePolicyFile('version: 1\nsecretPatterns: ["(unclosed"]')).toThrow(/regular expression/);
+  });
+
+  test('rejects malformed YAML', () => {
+    expect(() => parsePolicyFile('version: [1')).toThrow(/Invalid policy file/);
+  });
+});
+
+describe('mergePolicyConfig', () => {
+  test('returns defaults when there is no policy file', () => {
+    const config = mergePolicyConfig(DEFAULT_POLICY_CONFIG, null);
+    expect(config).toEqual(DEFAULT_POLICY_CONFIG);
+  });
+
+  test('unions list fields with the defaults', () => {
+    const config = mergePolicyConfig(DEFAULT_POLICY_CONFIG, parsePolicyFile(POLICY_YAML));
+    expect(config.frozenFiles).toEqual([...DEFAULT_POLICY_CONFIG.frozenFiles, 'src/generated/schema.ts']);
+    expect(config.denyGlobs).toContain('.env*');
+    expect(config.denyGlobs).toContain('infra/**');
+    expect(config.secretPatterns).toHaveLength(DEFAULT_POLICY_CONFIG.secretPatterns.length + 1);
+  });
+
+  test('scalar fields can only tighten the defaults', () => {
+    const loosened = mergePolicyConfig(DEFAULT_POLICY_CONFIG, parsePolicyFile([
+      'version: 1',
+      'allowDependencyChanges: true',
+      'secretEntropyThreshold: 6',
+      'dependencySeverities:',
+      '  added: ALLOW',
+      '  installScript: WARN',
+      'blastRadius:',
+      '  blockAt: 99',
+    ].join('\n')));
+
+    expect(loosened.allowDependencyChanges).toBe(false);
+    expect(loosened.secretEntropyThreshold).toBe(DEFAULT_POLICY_CONFIG.secretEntropyThreshold);
+    expect(loosened.dependencySeverities).toEqual({ added: 'BLOCK', installScript: 'BLOCK' });
+    expect(loosened.blastRadius?.blockAt).toBe(85);
+
+    const tightened = mergePolicyConfig(
+      createPolicyConfig({ allowDependencyChanges: true }),
+      parsePolicyFile([
+        'version: 1',
+        'allowDependencyChanges: false',
+        'secretEntropyThreshold: 3.5',
+        'dependencySeverities:',
+        '  upgradePatch: BLOCK',
+        'blastRadius:',
+        '  blockAt: 60',
+      ].join('\n'))
+    );
+
+    expect(tightened.allowDependencyChanges).toBe(false);
+    expect(tightened.secretEntropyThreshold).toBe(3.5);
+    expect(tightened.dependencySeverities).toEqual({ upgradePatch: 'BLOCK' });
+    expect(tightened.blastRadius?.blockAt).toBe(60);
+  });
+
+  test('merged rules are enforced by the policy engine', () => {
+    const config = mergePolicyConfig(DEFAULT_POLICY_CONFIG, parsePolicyFile(POLICY_YAML));
+    const infra = evaluatePolicy(INFRA_DIFF, config);
+    expect(infra.violations.some(v => v.rule === 'deny_glob')).toBe(true);
+
+    const deps = evaluatePolicy(PACKAGE_JSON_DIFF, config);
+    expect(deps.violations.find(v => v.rule === 'dependency_added')?.severity).toBe('BLOCK');
+  });
+});
+
+describe('loadRepoPolicy', () => {
+  test('falls back to defaults when the repo has no policy file', async () => {
+    const github = githubWith({});
+    const policy = await loadRepoPolicy(github, { owner: 'acme', repo: 'app', ref: 'sha1' });
+
+    expect(policy.source).toBeNull();
+    expect(policy.config).toEqual(DEFAULT_POLICY_CONFIG);
+  });
+
+  test('reads the policy file at the given ref', async () => {
+    const github = githubWith({ [POLICY_FILE_PATH]: POLICY_YAML });
+    const policy = await loadRepoPolicy(github, { owner: 'acme', repo: 'app', ref: 'sha1' });
+
+    expect(github.getFileContents).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'app',
+      path: POLICY_FILE_PATH,
+      ref: 'sha1'
+    });
+    expect(policy.source).toEqual({
+      owner: 'acme',
+      repo: 'app',
+      path: POLICY_FILE_PATH,
+      ref: 'sha1',
+      blobSha: `blob-${POLICY_FILE_PATH}`
+    });
+    expect(policy.config.frozenFiles).toContain('src/generated/schema.ts');
+  });
+
+  test('rethrows read failures other than a missing file', async () => {
+    const github = {
+      getFileContents: jest.fn().mockRejectedValue(Object.assign(new Error('Server Error'), { status: 502 }))
+    };
+    await expect(
+      loadRepoPolicy(github, { owner: 'acme', repo: 'app', ref: 'sha1' })
+    ).rejects.toThrow('Server Error');
+
+    github.getFileContents.mockRejectedValue(Object.assign(new Error('Not Found - https://docs.github.com'), { status: 404 }));
+    expect((await loadRepoPolicy(github, { owner: 'acme', repo: 'app', ref: 'sha1' })).source).toBeNull();
+  });
+
+  test('uses the defaults through the stub client, which has no policy file', async () => {
+    const policy = await loadRepoPolicy(new StubGitHubClient(), { owner: 'acme', repo: 'app', ref: 'main' });
+
+    expect(policy).toEqual({ config: DEFAULT_POLICY_CONFIG, source: null });
+    expect(evaluateGate2(INFRA_DIFF, policy.config, { policySource: policy.source }).verdict).toBe('PASS');
+  });
+
+  test('throws on an invalid policy file instead of using defaults', async () => {
+    const github = githubWith({ [POLICY_FILE_PATH]: 'version: 1\nallowDependencyChanges: maybe' });
+    await expect(
+      loadRepoPolicy(github, { owner: 'acme', repo: 'app', ref: 'sha1' })
+    ).rejects.toThrow(/allowDependencyChanges/);
+  });
+});
+
+describe('policy config snapshot', () => {
+  test('serializes secret patterns as strings', () => {
+    const snapshot = snapshotPolicyConfig(DEFAULT_POLICY_CONFIG);
+    expect(snapshot.secretPatterns?.every(p => typeof p === 'string')).toBe(true);
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+
+  test('Gate2 evidence records the effective config and its source', async () => {
+    const github = githubWith({ [POLICY_FILE_PATH]: POLICY_YAML });
+    const policy = await loadRepoPolicy(github, { owner: 'acme', repo: 'app', ref: 'sha1' });
+
+    const result = evaluateGate2(INFRA_DIFF, policy.config, { policySource: policy.source });
+
+    expect(result.verdict).toBe('FAIL');
+    expect(result.evidence.configSnapshot.denyGlobs).toContain('infra/**');
+    expect(result.evidence.configSnapshot.source?.ref).toBe('sha1');
+    expect(result.evidence.configSnapshot.source?.blobSha).toBe(`blob-${POLICY_FILE_PATH}`);
+  });
+});
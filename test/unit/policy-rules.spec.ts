@@ -0,0 +1,193 @@
+import {
+  PolicyRuleRegistry,
+  extractLineChanges,
+  evaluatePolicy,
+  evaluateGate2,
+  createPolicyConfig,
+  type PolicyRule,
+} from '@core/policy';
+
+const CONSOLE_LOG_DIFF = `diff --git a/src/app.ts b/src/app.ts
+index abc123..def456 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,4 +1,5 @@
+ import { foo } from './foo';
+-const old = 1;
++const value = foo();
++console.log(value);
+ export function main() {
+diff --git a/test/app.spec.ts b/test/app.spec.ts
+index abc123..def456 100644
+--- a/test/app.spec.ts
++++ b/test/app.spec.ts
+@@ -10,2 +10,3 @@
+ it('works', () => {
++  console.log('debug');
+ });
+`;
+
+const noConsoleLogRule: PolicyRule = {
+  id: 'no_console_log',
+  description: 'No new console.log in src/',
+  defaultSeverity: 'WARN',
+  evaluate({ files }) {
+    return files
+      .filter(f => f.file.path.startsWith('src/'))
+      .flatMap(f => f.addedLines
+        .filter(l => l.content.includes('console.log'))
+        .map(l => ({
+          file: f.file.path,
+          line: l.line,
+          message: 'New console.log in src/',
+          evidence: l.content.trim(),
+        })));
+  },
+};
+
+const emptyConfig = createPolicyConfig({
+  frozenFiles: [],
+  denyGlobs: [],
+  secretPatterns: [],
+  dependencyFiles: [],
+});
+
+describe('extractLineChanges', () => {
+  test('tracks added and removed lines per file with line numbers', () => {
+    const changes = extractLineChanges(CONSOLE_LOG_DIFF);
+
+    const app = changes.get('src/app.ts')!;
+    expect(app.removed).toEqual([{ line: 2, content: 'const old = 1;' }]);
+    expect(app.added).toEqual([
+      { line: 2, content: 'const value = foo();' },
+      { line: 3, content: 'console.log(value);' },
+    ]);
+
+    const spec = changes.get('test/app.spec.ts')!;
+    expect(spec.added).toEqual([{ line: 11, content: "  console.log('debug');" }]);
+    expect(spec.removed).toEqual([]);
+  });
+
+  test('handles non-git unified diffs', () => {
+    const diff = `--- a/a.txt
++++ b/a.txt
+@@ -1,1 +1,1 @@
+-one
++uno
+--- a/b.txt
++++ b/b.txt
+@@ -3,1 +3,2 @@
+ three
++four
+`;
+    const changes = extractLineChanges(diff);
+    expect(changes.get('a.txt')?.added).toEqual([{ line: 1, content: 'uno' }]);
+    expect(changes.get('a.txt')?.removed).toEqual([{ line: 1, content: 'one' }]);
+    expect(changes.get('b.txt')?.added).toEqual([{ line: 4, content: 'four' }]);
+  });
+});
+
+describe('PolicyRuleRegistry', () => {
+  test('registers and lists rules', () => {
+    const registry = new PolicyRuleRegistry();
+    registry.register(noConsoleLogRule);
+
+    expect(registry.get('no_console_log')).toBe(noConsoleLogRule);
+    expect(registry.listIds()).toEqual(['no_console_log']);
+    expect(registry.size).toBe(1);
+  });
+
+  test('rejects duplicate ids', () => {
+    const registry = new PolicyRuleRegistry();
+    registry.register(noConsoleLogRule);
+    expect(() => registry.register(noConsoleLogRule)).toThrow('already registered');
+  });
+
+  test('rejects built-in rule ids', () => {
+    const registry = new PolicyRuleRegistry();
+    expect(() => registry.register({ ...noConsoleLogRule, id: 'frozen_file' })).toThrow('reserved');
+  });
+
+  test('rejects ids that are not snake_case', () => {
+    const registry = new PolicyRuleRegistry();
+    expect(() => registry.register({ ...noConsoleLogRule, id: 'No Console' })).toThrow('Invalid policy rule id');
+  });
+
+  test('disabled rules are not returned', () => {
+    const registry = new PolicyRuleRegistry();
+    registry.register(noConsoleLogRule, false);
+    expect(registry.getAll()).toEqual([]);
+
+    registry.setEnabled('no_console_log', true);
+    expect(registry.getAll()).toEqual([noConsoleLogRule]);
+  });
+});
+
+describe('custom rules in evaluatePolicy', () => {
+  test('produces violations with the rule id and default severity', () => {
+    const registry = new PolicyRuleRegistry();
+    registry.register(noConsoleLogRule);
+
+    const result = evaluatePolicy(CONSOLE_LOG_DIFF, emptyConfig, registry);
+
+    expect(result.violations).toEqual([
+      {
+        rule: 'no_console_log',
+        severity: 'WARN',
+        file: 'src/app.ts',
+        line: 3,
+        message: 'New console.log in src/',
+        evidence: 'console.log(value);',
+      },
+    ]);
+    expect(result.hasBlockingViolations).toBe(false);
+  });
+
+  test('finding severity overrides the default', () => {
+    const registry = new PolicyRuleRegistry();
+    registry.register({
+      id: 'no_generated_edits',
+      description: 'Generated files must not be edited',
+      defaultSeverity: 'WARN',
+      evaluate: ({ files }) => files.map(f => ({
+        file: f.file.path,
+        message: 'Edited a file',
+        severity: 'BLOCK' as const,
+      })),
+    });
+
+    const result = evaluatePolicy(CONSOLE_LOG_DIFF, emptyConfig, registry);
+    expect(result.violations.every(v => v.severity === 'BLOCK')).toBe(true);
+    expect(result.hasBlockingViolations).toBe(true);
+  });
+
+  test('a throwing rule produces a blocking violation', () => {
+    const registry = new PolicyRuleRegistry();
+    registry.register({
+      id: 'broken_rule',
+      description: 'Always throws',
+      defaultSeverity: 'WARN',
+      evaluate: () => {
+        throw new Error('boom');
+      },
+    });
+
+    const result = evaluatePolicy(CONSOLE_LOG_DIFF, emptyConfig, registry);
+    expect(result.violations).toHaveLength(1);
+    expect(result.violations[0].rule).toBe('broken_rule');
+    expect(result.violations[0].severity).toBe('BLOCK');
+    expect(result.violations[0].message).toContain('boom');
+  });
+
+  test('Gate2 counts custom rule violations and records the rules in evidence', () => {
+    const registry = new PolicyRuleRegistry();
+    registry.register(noConsoleLogRule);
+
+    const result = evaluateGate2(CONSOLE_LOG_DIFF, emptyConfig, { rules: registry });
+
+    expect(result.verdict).toBe('WARN');
+    expect(result.warningCount).toBe(1);
+    expect(result.violations[0].rule).toBe('no_console_log');
+    expect(result.evidence.customRules).toEqual(['no_console_log']);
+  });
+});
@@ -0,0 +1,245 @@
+import {
+  applyWaivers,
+  findWaiverForViolation,
+  hashViolationEvidence,
+  isWaiverActive,
+  violationEvidenceHash,
+  type PolicyWaiverRecord,
+} from '@core/policy/waivers';
+import { evaluateGate2, Gate2Service } from '@core/policy/gate2';
+import type { PolicyViolation } from '@core/policy/policy-engine';
+import { PolicyRuleRegistry } from '@core/policy/policy-rules';
+
+const NOW = new Date('2026-02-07T10:00:00.000Z');
+const TOMORROW = new Date('2026-02-08T10:00:00.000Z');
+const YESTERDAY = new Date('2026-02-06T10:00:00.000Z');
+
+const SECRET_DIFF = `diff --git a/src/config.ts b/src/config.ts
+index abc123..def456 100644
+--- a/src/config.ts
++++ b/src/config.ts
+@@ -1,3 +1,5 @@
+ export const config = {
++  apiKey: 'sk-1234567890abcdefghijklmnop',
+   port: 3000,
+ };
+`;
+
+const FROZEN_FILE_DIFF = `diff --git a/.github/workflows/ci.yml b/.github/workflows/ci.yml
+index abc123..def456 100644
+--- a/.github/workflows/ci.yml
++++ b/.github/workflows/ci.yml
+@@ -1,5 +1,6 @@
+ name: CI
++# Added a comment
+ on: [push]
+`;
+
+function blockViolation(overrides: Partial<PolicyViolation> = {}): PolicyViolation {
+  return {
+    rule: 'secret_detected',
+    severity: 'BLOCK',
+    file: 'src/config.ts',
+    message: 'Potential secret detected',
+    line: 2,
+    evidence: 'sk-1234...',
+    ...overrides,
+  };
+}
+
+function waiverFor(violation: PolicyViolation, overrides: Partial<PolicyWaiverRecord> = {}): PolicyWaiverRecord {
+  return {
+    id: 'waiver-1',
+    rule: violation.rule,
+    file: violation.file,
+    evidenceHash: violationEvidenceHash(violation),
+    expiresAt: TOMORROW,
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+describe('hashViolationEvidence', () => {
+  it('is stable and distinguishes evidence', () => {
+    expect(hashViolationEvidence('abc')).toBe(hashViolationEvidence('abc'));
+    expect(hashViolationEvidence('abc')).not.toBe(hashViolationEvidence('abd'));
+    expect(hashViolationEvidence('abc')).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('treats missing evidence as the empty string', () => {
+    expect(hashViolationEvidence(undefined)).toBe(hashViolationEvidence(''));
+    expect(hashViolationEvidence(null)).toBe(hashViolationEvidence(''));
+  });
+});
+
+describe('isWaiverActive', () => {
+  const violation = blockViolation();
+
+  it('is active before expiry', () => {
+    expect(isWaiverActive(waiverFor(violation), NOW)).toBe(true);
+  });
+
+  it('is inactive after expiry', () => {
+    expect(isWaiverActive(waiverFor(violation, { expiresAt: YESTERDAY }), NOW)).toBe(false);
+  });
+
+  it('is inactive once revoked', () => {
+    expect(isWaiverActive(waiverFor(violation, { revokedAt: YESTERDAY }), NOW)).toBe(false);
+  });
+});
+
+describe('findWaiverForViolation', () => {
+  const violation = blockViolation();
+
+  it('matches on rule, file and evidence hash', () => {
+    expect(findWaiverForViolation(violation, [waiverFor(violation)], NOW)?.id).toBe('waiver-1');
+  });
+
+  it('does not match a different file', () => {
+    const waiver = waiverFor(violation, { file: 'src/other.ts' });
+    expect(findWaiverForViolation(violation, [waiver], NOW)).toBeUndefined();
+  });
+
+  it('does not match different evidence in the same file', () => {
+    const waiver = waiverFor(blockViolation({ evidence: 'sk-9999...' }));
+    expect(findWaiverForViolation(violation, [waiver], NOW)).toBeUndefined();
+  });
+
+  it('tells secrets apart whose redacted evidence is the same', () => {
+    const registry = new PolicyRuleRegistry();
+    const [waived] = evaluateGate2(SECRET_DIFF, undefined, { rules: registry }).violations
+      .filter(v => v.rule === 'secret_detected');
+    const [other] = evaluateGate2(SECRET_DIFF.replace('mnop', 'mnoq'), undefined, { rules: registry }).violations
+      .filter(v => v.rule === 'secret_detected');
+
+    expect(other.evidence).toBe(waived.evidence);
+    expect(other.evidenceHash).not.toBe(waived.evidenceHash);
+    expect(findWaiverForViolation(waived, [waiverFor(waived)], NOW)?.id).toBe('waiver-1');
+    expect(findWaiverForViolation(other, [waiverFor(waived)], NOW)).toBeUndefined();
+  });
+
+  it('does not match a different rule', () => {
+    const waiver = waiverFor(violation, { rule: 'deny_glob' });
+    expect(findWaiverForViolation(violation, [waiver], NOW)).toBeUndefined();
+  });
+});
+
+describe('applyWaivers', () => {
+  it('downgrades waived BLOCK violations to WARN and records the waiver id', () => {
+    const violation = blockViolation();
+    const { violations, applied } = applyWaivers([violation], [waiverFor(violation)], NOW);
+
+    expect(violations[0].severity).toBe('WARN');
+    expect(violations[0].waiverId).toBe('waiver-1');
+    expect(applied).toEqual([
+      {
+        waiverId: 'waiver-1',
+        rule: 'secret_detected',
+        file: 'src/config.ts',
+        evidenceHash: hashViolationEvidence('sk-1234...'),
+      },
+    ]);
+  });
+
+  it('leaves unmatched violations blocking', () => {
+    const waived = blockViolation();
+    const other = blockViolation({ file: 'src/other.ts' });
+    const { violations } = applyWaivers([waived, other], [waiverFor(waived)], NOW);
+
+    expect(violations.map(v => v.severity)).toEqual(['WARN', 'BLOCK']);
+  });
+
+  it('ignores expired waivers', () => {
+    const violation = blockViolation();
+    const { violations, applied } = applyWaivers(
+      [violation],
+      [waiverFor(violation, { expiresAt: YESTERDAY })],
+      NOW
+    );
+
+    expect(violations[0].severity).toBe('BLOCK');
+    expect(applied).toHaveLength(0);
+  });
+
+  it('does not touch WARN violations', () => {
+    const warning = blockViolation({ severity: 'WARN' });
+    const { violations, applied } = applyWaivers([warning], [waiverFor(warning)], NOW);
+
+    expect(violations[0]).toBe(warning);
+    expect(applied).toHaveLength(0);
+  });
+});
+
+describe('evaluateGate2 with waivers', () => {
+  it('passes with a warning when the only blocking violation is waived', () => {
+    const unwaived = evaluateGate2(SECRET_DIFF, undefined, { rules: new PolicyRuleRegistry() });
+    const secret = unwaived.violations.find(v => v.rule === 'secret_detected')!;
+    expect(unwaived.verdict).toBe('FAIL');
+
+    const result = evaluateGate2(SECRET_DIFF, undefined, {
+      rules: new PolicyRuleRegistry(),
+      waivers: [waiverFor(secret)],
+      now: NOW,
+    });
+
+    expect(result.verdict).toBe('WARN');
+    expect(result.blockingCount).toBe(0);
+    expect(result.evidence.policyResult.hasBlockingViolations).toBe(false);
+    expect(result.evidence.policyResult.summary).toContain('1 waived');
+    expect(result.evidence.waivers).toEqual([
+      expect.objectContaining({ waiverId: 'waiver-1', rule: 'secret_detected', file: 'src/config.ts' }),
+    ]);
+  });
+
+  it('records no waivers when none apply', () => {
+    const result = evaluateGate2(FROZEN_FILE_DIFF, undefined, { rules: new PolicyRuleRegistry() });
+
+    expect(result.verdict).toBe('FAIL');
+    expect(result.evidence.waivers).toEqual([]);
+  });
+});
+
+describe('Gate2Service waivers', () => {
+  it('loads active waivers and persists the waiver id on downgraded violations', async () => {
+    const secret = evaluateGate2(SECRET_DIFF, undefined, { rules: new PolicyRuleRegistry() })
+      .violations.find(v => v.rule === 'secret_detected')!;
+
+    const prisma: any = {
+      policyWaiver: {
+        findMany: jest.fn().mockResolvedValue([
+          waiverFor(secret, { expiresAt: new Date(Date.now() + 60 * 60 * 1000) }),
+        ]),
+      },
+      approval: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      policyViolation: {
+        deleteMany: jest.fn(),
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: `pv-${data.rule}`, ...data })),
+      },
+      $transaction: jest.fn(fn => fn(prisma)),
+    };
+
+    const service = new Gate2Service(prisma as any, new PolicyRuleRegistry());
+    const { result, violationIds } = await service.evaluateAndPersist({
+      workflowId: 'wf-1',
+      patchSetId: 'ps-1',
+      diff: SECRET_DIFF,
+    });
+
+    expect(prisma.policyWaiver.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ workflowId: 'wf-1', revokedAt: null }),
+      })
+    );
+    expect(result.verdict).toBe('WARN');
+    expect(violationIds).toEqual(['pv-secret_detected']);
+    expect(prisma.policyViolation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ severity: 'WARN', waiverId: 'waiver-1' }),
+    });
+    // The previous evaluation's violations are replaced in the same transaction
+    expect(prisma.policyViolation.deleteMany).toHaveBeenCalledWith({ where: { workflowId: 'wf-1', patchSetId: 'ps-1' } });
+    expect(prisma.policyViolation.deleteMany.mock.invocationCallOrder[0])
+      .toBeLessThan(prisma.policyViolation.create.mock.invocationCallOrder[0]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for the post-Gate3 merge stage: per-repo merge mode and method,
+ * the separate merge approval, and PRs merged right away
+ */
+
+import { PullRequestMerger } from '@core/github/pull-request-merger';
+
+describe('PullRequestMerger', () => {
+  const workflow = {
+    id: 'wf-1',
+    repoOwner: 'acme',
+    repoName: 'app',
+    repos: [
+      { owner: 'acme', repo: 'app', provider: 'github', mergeMode: 'merge_queue', mergeMethod: 'squash' },
+      { owner: 'acme', repo: 'docs', provider: 'gitlab', mergeMode: 'auto_merge', mergeMethod: 'rebase' },
+      { owner: 'acme', repo: 'infra', provider: 'github', mergeMode: null, mergeMethod: 'squash' }
+    ],
+    pullRequests: [
+      { id: 'pr-1', number: 12, status: 'open', branch: 'bot/app', repoOwner: 'acme', repoName: 'app' },
+      { id: 'pr-2', number: 3, status: 'open', branch: 'bot/docs', repoOwner: 'acme', repoName: 'docs' },
+      { id: 'pr-3', number: 40, status: 'open', branch: 'bot/infra', repoOwner: 'acme', repoName: 'infra' }
+    ]
+  };
+
+  const createMockPrisma = (approvals = 1) => ({
+    workflow: { findUnique: jest.fn().mockResolvedValue(workflow) },
+    approval: { count: jest.fn().mockResolvedValue(approvals) },
+    pullRequest: { update: jest.fn() },
+    workflowEvent: { create: jest.fn() }
+  });
+
+  const createClients = () => {
+    const github = { mergePullRequest: jest.fn().mockResolvedValue({ status: 'queued' }) };
+    const gitlab = { mergePullRequest: jest.fn().mockResolvedValue({ status: 'merged', sha: 'merge-sha' }) };
+    return { github, gitlab, forProvider: (provider?: string | null) => (provider === 'gitlab' ? gitlab : github) as any };
+  };
+
+  it('should merge PRs of repos with a merge mode using their settings', async () => {
+    const prisma = createMockPrisma();
+    const clients = createClients();
+
+    const result = await new PullRequestMerger(prisma as any, clients).merge('wf-1');
+
+    expect(prisma.approval.count).toHaveBeenCalledWith({ where: { workflowId: 'wf-1', kind: 'merge' } });
+    expect(clients.github.mergePullRequest).toHaveBeenCalledTimes(1);
+    expect(clients.github.mergePullRequest).toHaveBeenCalledWith({
+      owner: 'acme', repo: 'app', pullNumber: 12, mode: 'merge_queue', mergeMethod: 'squash'
+    });
+    expect(clients.gitlab.mergePullRequest).toHaveBeenCalledWith({
+      owner: 'acme', repo: 'docs', pullNumber: 3, mode: 'auto_merge', mergeMethod: 'rebase'
+    });
+    expect(result.prs.map(pr => [pr.prNumber, pr.status])).toEqual([[12, 'queued'], [3, 'merged']]);
+    expect(result.merged).toBe(false);
+
+    expect(prisma.pullRequest.update).toHaveBeenCalledWith({ where: { id: 'pr-2' }, data: { status: 'merged' } });
+    expect(prisma.workflowEvent.create).toHaveBeenCalledWith({
+      data: {
+        workflowId: 'wf-1',
+        type: 'worker.merge.requested',
+        payload: expect.objectContaining({ prNumber: 12, mode: 'merge_queue', status: 'queued' })
+      }
+    });
+  });
+
+  it('should not merge without a merge approval', async () => {
+    const prisma = createMockPrisma(0);
+    const clients = createClients();
+
+    await expect(new PullRequestMerger(prisma as any, clients).merge('wf-1')).rejects.toThrow('WRITE_BLOCKED_NO_APPROVAL');
+    expect(clients.github.mergePullRequest).not.toHaveBeenCalled();
+  });
+
+  it('should only report CI as passed when every check run on each head commit passed', async () => {
+    const prisma = createMockPrisma();
+    const runs: Record<string, Array<{ status: string; conclusion?: string | null }>> = {
+      'app-head': [{ status: 'completed', conclusion: 'success' }, { status: 'completed', conclusion: 'skipped' }],
+      'docs-head': [{ status: 'completed', conclusion: 'success' }, { status: 'in_progress', conclusion: null }]
+    };
+    const client = {
+      getBranch: jest.fn(async ({ branch }: any) => ({ name: branch, sha: branch === 'bot/app' ? 'app-head' : 'docs-head' })),
+      listCheckRuns: jest.fn(async ({ ref }: any) => ({ totalCount: runs[ref].length, checkRuns: runs[ref] }))
+    };
+    const merger = new PullRequestMerger(prisma as any, { forProvider: () => client as any });
+
+    expect(await merger.checksPassed('wf-1')).toBe(false);
+    expect(client.listCheckRuns).toHaveBeenCalledWith({ owner: 'acme', repo: 'app', ref: 'app-head', perPage: 100 });
+
+    runs['docs-head'][1] = { status: 'completed', conclusion: 'neutral' };
+    expect(await merger.checksPassed('wf-1')).toBe(true);
+    expect(client.getBranch).not.toHaveBeenCalledWith(expect.objectContaining({ branch: 'bot/infra' }));
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Tests for Gate3 quality gates built from the PRD QUALITY_GATES artifact
+ */
+
+import {
+  compareCondition,
+  evaluateGateCondition,
+  qualityGatesFromArtifact
+} from '../../packages/core/src/policy/quality-gates';
+import { Gate3Service, type CIEvidence, type CIEventInput } from '../../packages/core/src/policy/gate3';
+import type { QualityGatesArtifact } from '../../packages/core/src/prd/prd-pipeline';
+import { StubGitHubClient } from '../../packages/core/src/github/github-client';
+import { transition } from '../../packages/core/src/workflow/transition';
+
+const baseEvidence = (overrides: Partial<CIEvidence> = {}): CIEvidence => ({
+  workflowId: 'w1',
+  headSha: 'abc123',
+  ciConclusion: 'success',
+  ciSource: 'workflow_run',
+  ciCompletedAt: new Date(),
+  gateResults: [],
+  ...overrides
+});
+
+const ARTIFACT: QualityGatesArtifact = {
+  version: '1.0.0',
+  defaultAction: 'warn',
+  gates: [
+    {
+      id: 'gate-ci-pass',
+      name: 'CI Must Pass',
+      description: 'All CI checks must pass before merge',
+      trigger: 'post_ci',
+      conditions: [{ type: 'test_pass', operator: 'equals', value: true }],
+      action: 'block',
+      required: true
+    },
+    {
+      id: 'gate-coverage',
+      name: 'Test Coverage',
+      description: 'Minimum 80% test coverage',
+      trigger: 'post_ci',
+      conditions: [{ type: 'coverage', operator: 'greater_than', value: 80 }],
+      action: 'warn',
+      required: false
+    },
+    {
+      id: 'gate-lint',
+      name: 'Linting',
+      description: 'No linting errors',
+      trigger: 'pre_commit',
+      conditions: [{ type: 'lint', operator: 'equals', value: true }],
+      action: 'block',
+      required: true
+    },
+    {
+      id: 'gate-prd-review',
+      name: 'PRD Artifacts Review',
+      description: 'Human must review generated artifacts',
+      trigger: 'manual',
+      conditions: [{ type: 'review_approved', operator: 'equals', value: true }],
+      action: 'block',
+      required: true
+    }
+  ]
+};
+
+describe('compareCondition', () => {
+  it('should compare numbers and booleans', () => {
+    expect(compareCondition(85, 'greater_than', 80)).toBe(true);
+    expect(compareCondition(80, 'greater_than', 80)).toBe(false);
+    expect(compareCondition(2, 'less_than', '5')).toBe(true);
+    expect(compareCondition(true, 'equals', true)).toBe(true);
+    expect(compareCondition(false, 'equals', 'true')).toBe(false);
+  });
+});
+
+describe('evaluateGateCondition', () => {
+  it('should prefer the test report over check conclusions', () => {
+    const result = evaluateGateCondition(
+      { type: 'test_pass', operator: 'equals', value: true },
+      baseEvidence({ reports: { tests: { total: 10, failed: 2, skipped: 0 } } })
+    );
+    expect(result.passed).toBe(false);
+    expect(result.reason).toContain('2 of 10 test(s) failed');
+  });
+
+  it('should read test steps and fail a green CI run without test evidence', () => {
+    const condition = { type: 'test_pass' as const, operator: 'equals' as const, value: true };
+    const steps = baseEvidence({
+      jobSteps: [
+        { job: 'build', step: 'checkout', conclusion: 'success' },
+        { job: 'build', step: 'Run unit tests', conclusion: 'failure' }
+      ]
+    });
+    expect(evaluateGateCondition(condition, steps).reason).toContain('build / Run unit tests (failure)');
+    expect(evaluateGateCondition(condition, baseEvidence())).toEqual({
+      type: 'test_pass',
+      passed: false,
+      reason: 'No test pass evidence found'
+    });
+  });
+
+  it('should compare coverage with the threshold', () => {
+    const condition = { type: 'coverage' as const, operator: 'greater_than' as const, value: 80 };
+    expect(evaluateGateCondition(condition, baseEvidence({ reports: { coverage: { lines: 86.5 } } })).passed).toBe(true);
+
+    const low = evaluateGateCondition(condition, baseEvidence({ reports: { coverage: { lines: 71 } } }));
+    expect(low.passed).toBe(false);
+    expect(low.reason).toBe('line coverage 71% (expected greater than 80)');
+  });
+
+  it('should fail when there is no evidence', () => {
+    const result = evaluateGateCondition({ type: 'lint', operator: 'equals', value: true }, baseEvidence());
+    expect(result).toEqual({ type: 'lint', passed: false, reason: 'No lint evidence found' });
+  });
+
+  it('should read security scans from SARIF findings or check runs', () => {
+    const condition = { type: 'security_scan' as const, operator: 'equals' as const, value: true };
+    expect(evaluateGateCondition(condition, baseEvidence({
+      reports: { staticAnalysis: { errors: 1, warnings: 3, notes: 0 } }
+    })).passed).toBe(false);
+    expect(evaluateGateCondition(condition, baseEvidence({
+      checkRuns: [{ name: 'CodeQL', conclusion: 'success' }]
+    })).passed).toBe(true);
+  });
+
+  it('should match custom conditions by check name', () => {
+    const condition = { type: 'custom' as const, operator: 'contains' as const, value: 'e2e-smoke' };
+    expect(evaluateGateCondition(condition, baseEvidence({
+      checkRuns: [{ name: 'E2E-Smoke (chrome)', conclusion: 'success' }]
+    })).passed).toBe(true);
+  });
+
+  it('should require an approving review', () => {
+    const condition = { type: 'review_approved' as const, operator: 'equals' as const, value: true };
+    expect(evaluateGateCondition(condition, baseEvidence()).passed).toBe(false);
+    expect(evaluateGateCondition(condition, baseEvidence({ reviewApproved: true })).passed).toBe(true);
+  });
+});
+
+describe('qualityGatesFromArtifact', () => {
+  it('should skip manual gates and only require blocking gates', () => {
+    const gates = qualityGatesFromArtifact(ARTIFACT);
+    expect(gates.map((g) => [g.name, g.required])).toEqual([
+      ['gate-ci-pass', true],
+      ['gate-coverage', false],
+      ['gate-lint', true]
+    ]);
+  });
+});
+
+describe('Gate3Service with workflow quality gates', () => {
+  const input: CIEventInput = {
+    source: 'workflow_run',
+    conclusion: 'success',
+    headSha: 'abc123',
+    owner: 'test-owner',
+    repo: 'test-repo',
+    workflowRunId: 1
+  };
+
+  const createMockPrisma = () => ({
+    pullRequest: { findFirst: jest.fn().mockResolvedValue({ id: 'pr-1', workflowId: 'workflow-1' }) },
+    workflow: {
+      findUnique: jest.fn().mockResolvedValue({ id: 'workflow-1', pullRequests: [{ number: 7 }] }),
+      findFirst: jest.fn()
+    },
+    workflowEvent: { create: jest.fn() },
+    artifact: {
+      create: jest.fn(),
+      findFirst: jest.fn().mockResolvedValue({ content: JSON.stringify(ARTIFACT) })
+    }
+  });
+
+  it('should fail a green CI run when a required gate is not met', async () => {
+    const prisma = createMockPrisma();
+    const gate3 = new Gate3Service(prisma as any, undefined, new StubGitHubClient());
+
+    const result = await gate3.processCIEvent(input);
+
+    expect(prisma.artifact.findFirst).toHaveBeenCalledWith({
+      where: { workflowId: 'workflow-1', kind: 'QUALITY_GATES' },
+      orderBy: { createdAt: 'desc' }
+    });
+    expect(result!.passed).toBe(false);
+    expect(result!.transitionEvent).toEqual({ type: 'E_CI_COMPLETED', result: { conclusion: 'failure' } });
+    expect(result!.gateResults.map((r) => [r.name, r.passed, r.required])).toEqual([
+      ['ci_pass', true, true],
+      ['gate-ci-pass', true, true],
+      ['gate-coverage', false, false],
+      ['gate-lint', false, true]
+    ]);
+    // Evidence read from the stub's check runs and job steps
+    expect(result!.evidence.checkRuns).toEqual([
+      { name: 'test', conclusion: 'success', url: 'https://github.com/example/repo/runs/2001' }
+    ]);
+    expect(result!.evidence.jobSteps).toHaveLength(2);
+  });
+
+  it('should pass once every required gate has evidence', async () => {
+    const prisma = createMockPrisma();
+    const github = new StubGitHubClient();
+    jest.spyOn(github, 'listCheckRuns').mockResolvedValue({
+      totalCount: 2,
+      checkRuns: [
+        { id: 1, name: 'test', status: 'completed', conclusion: 'success' },
+        { id: 2, name: 'eslint', status: 'completed', conclusion: 'success' }
+      ]
+    });
+    const gate3 = new Gate3Service(prisma as any, undefined, github);
+
+    const result = await gate3.processCIEvent(input, { reports: { coverage: { lines: 64 } } });
+
+    expect(result!.passed).toBe(true);
+    expect(result!.transitionEvent).toEqual({ type: 'E_CI_COMPLETED', result: { conclusion: 'success' } });
+    // Optional gates are still recorded
+    expect(result!.gateResults.find((r) => r.name === 'gate-coverage')?.passed).toBe(false);
+
+    const recorded = JSON.parse(prisma.artifact.create.mock.calls[0][0].data.content);
+    expect(recorded.gateResults).toHaveLength(4);
+    expect(recorded.reports).toEqual({ coverage: { lines: 64 } });
+  });
+
+  it('should keep a workflow with a failing blocking coverage gate from reaching DONE', async () => {
+    const prisma = createMockPrisma();
+    prisma.artifact.findFirst.mockResolvedValue({
+      content: JSON.stringify({
+        ...ARTIFACT,
+        gates: [{ ...ARTIFACT.gates[1], action: 'block', required: true }]
+      })
+    });
+    const gate3 = new Gate3Service(prisma as any, undefined, new StubGitHubClient());
+
+    const result = await gate3.processCIEvent({ ...input, workflowId: 'workflow-1' }, { reports: { coverage: { lines: 64 } } });
+    const next = transition('VERIFYING_CI', result!.transitionEvent, { workflowId: 'workflow-1', hasPatchSets: true, hasApprovalToApply: true });
+
+    expect(result!.gateResults.find((r) => r.name === 'gate-coverage')?.reason).toContain('line coverage 64%');
+    expect(next.nextState).toBe('NEEDS_HUMAN');
+  });
+
+  it('should read review approval from the latest review on the PR', async () => {
+    const prisma = createMockPrisma();
+    const gate3 = new Gate3Service(prisma as any, undefined, new StubGitHubClient());
+
+    prisma.workflow.findUnique.mockResolvedValueOnce({ id: 'workflow-1', pullRequests: [{ number: 7, reviewState: 'approved' }] });
+    expect((await gate3.processCIEvent(input))!.evidence.reviewApproved).toBe(true);
+
+    prisma.workflow.findUnique.mockResolvedValueOnce({ id: 'workflow-1', pullRequests: [{ number: 7, reviewState: 'changes_requested' }] });
+    expect((await gate3.processCIEvent(input))!.evidence.reviewApproved).toBe(false);
+
+    // No review yet: no evidence, and an explicit context value wins
+    expect((await gate3.processCIEvent(input))!.evidence.reviewApproved).toBeUndefined();
+    expect((await gate3.processCIEvent(input, { reviewApproved: true }))!.evidence.reviewApproved).toBe(true);
+  });
+});
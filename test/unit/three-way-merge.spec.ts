@@ -0,0 +1,70 @@
+import { mergeThreeWay } from '@core/github/three-way-merge';
+
+const lines = (...values: string[]) => values.join('\n');
+
+describe('mergeThreeWay', () => {
+  const base = lines('a', 'b', 'c', 'd', 'e', 'f');
+
+  test('combines changes to separate regions', () => {
+    const head = lines('a', 'B', 'c', 'd', 'e', 'f');
+    const patched = lines('a', 'b', 'c', 'd', 'E', 'f');
+
+    const result = mergeThreeWay(base, head, patched);
+
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe(lines('a', 'B', 'c', 'd', 'E', 'f'));
+  });
+
+  test('merges changes to adjacent lines', () => {
+    const head = lines('a', 'B', 'c', 'd', 'e', 'f');
+    const patched = lines('a', 'b', 'C', 'd', 'e', 'f');
+
+    const result = mergeThreeWay(base, head, patched);
+
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe(lines('a', 'B', 'C', 'd', 'e', 'f'));
+  });
+
+  test('keeps lines inserted by the head when the patch edits later lines', () => {
+    const head = lines('header', 'a', 'b', 'c', 'd', 'e', 'f');
+    const patched = lines('a', 'b', 'c', 'd', 'e', 'F', 'g');
+
+    const result = mergeThreeWay(base, head, patched);
+
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe(lines('header', 'a', 'b', 'c', 'd', 'e', 'F', 'g'));
+  });
+
+  test('takes identical changes once', () => {
+    const changed = lines('a', 'b', 'X', 'd', 'e', 'f');
+
+    const result = mergeThreeWay(base, changed, changed);
+
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe(changed);
+  });
+
+  test('reports overlapping changes as conflicts', () => {
+    const head = lines('a', 'b', 'head c', 'd', 'e', 'f');
+    const patched = lines('a', 'b', 'patch c', 'patch d', 'e', 'f');
+
+    const result = mergeThreeWay(base, head, patched);
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toEqual([
+      { baseStartLine: 3, base: ['c', 'd'], head: ['head c', 'd'], patch: ['patch c', 'patch d'] }
+    ]);
+    // Conflicting regions keep the head version
+    expect(result.content).toBe(head);
+  });
+
+  test('reports two different insertions at the same position', () => {
+    const head = lines('a', 'b', 'c', 'from head', 'd', 'e', 'f');
+    const patched = lines('a', 'b', 'c', 'from patch', 'd', 'e', 'f');
+
+    const result = mergeThreeWay(base, head, patched);
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts[0]).toMatchObject({ baseStartLine: 4, base: [], head: ['from head'], patch: ['from patch'] });
+  });
+});
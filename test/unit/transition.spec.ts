@@ -136,6 +136,107 @@ describe('transition() contract', () => {
       const res = transition('PR_OPEN', { type: 'E_PR_CLOSED', prNumber: 123 }, baseCtx());
       expect(res.nextState).toBe('NEEDS_HUMAN');
     });
+
+    test('PR review changes requested -> INGESTED and regenerates patches', () => {
+      const res = transition('PR_OPEN', {
+        type: 'E_PR_CHANGES_REQUESTED',
+        prNumber: 123,
+        reviewer: 'alice',
+        comments: [{ path: 'src/a.ts', line: 3, body: 'Rename this' }]
+      }, baseCtx());
+      expect(res.nextState).toBe('INGESTED');
+      expect(res.enqueue).toEqual([
+        { queue: 'workflow', name: 'ingest_context', payload: { workflowId: 'w1' } }
+      ]);
+      expect(res.reason).toContain('1 review comment(s)');
+
+      const verifying = transition('VERIFYING_CI', { type: 'E_PR_CHANGES_REQUESTED', prNumber: 123, comments: [] }, baseCtx());
+      expect(verifying.nextState).toBe('INGESTED');
+      expect(verifying.enqueue).toEqual(res.enqueue);
+    });
+
+    test('PR approved -> stays PR_OPEN', () => {
+      const res = transition('PR_OPEN', { type: 'E_PR_APPROVED', prNumber: 123 }, baseCtx());
+      expect(res.nextState).toBe('PR_OPEN');
+      expect(res.enqueue).toEqual([]);
+    });
+
+    test('PR review changes requested in the gated pipeline re-enqueues ingest_context', () => {
+      const ctx = { ...baseCtx(), currentStage: 'patches' as const };
+      const res = transition('INGESTED', { type: 'E_PR_CHANGES_REQUESTED', prNumber: 123, comments: [] }, ctx);
+      expect(res.nextState).toBe('INGESTED');
+      expect(res.enqueue).toEqual([
+        { queue: 'workflow', name: 'ingest_context', payload: { workflowId: 'w1' } }
+      ]);
+    });
+  });
+
+  describe('Merge stage (post-Gate3)', () => {
+    const mergeJob = { queue: 'workflow', name: 'merge_pull_request', payload: { workflowId: 'w1' } };
+    const mergeCtx = (overrides: Partial<TransitionContext> = {}): TransitionContext => ({
+      ...baseCtx(),
+      mergeEnabled: true,
+      ...overrides
+    });
+
+    test('CI success without merge approval -> waits for it', () => {
+      const res = transition('VERIFYING_CI', { type: 'E_CI_COMPLETED', result: { conclusion: 'success' } }, mergeCtx({ ciPassed: true }));
+      expect(res.nextState).toBe('VERIFYING_CI');
+      expect(res.enqueue).toEqual([]);
+      expect(res.reason).toContain('awaiting merge approval');
+    });
+
+    test('CI success with merge approval -> MERGING and enqueues merge_pull_request', () => {
+      const res = transition('PR_OPEN', { type: 'E_CI_COMPLETED', result: { conclusion: 'success' } }, mergeCtx({ hasMergeApproval: true, ciPassed: true }));
+      expect(res.nextState).toBe('MERGING');
+      expect(res.enqueue).toEqual([mergeJob]);
+    });
+
+    test('one green check run while others are pending or failing -> waits for the combined status', () => {
+      const res = transition('PR_OPEN', { type: 'E_CI_COMPLETED', result: { conclusion: 'success' } }, mergeCtx({ hasMergeApproval: true, ciPassed: false }));
+      expect(res.nextState).toBe('PR_OPEN');
+      expect(res.enqueue).toEqual([]);
+      expect(res.reason).toContain('awaiting the remaining checks');
+    });
+
+    test('merge approval after CI passed -> MERGING, before CI -> waits', () => {
+      const approved = transition('PR_OPEN', { type: 'E_APPROVAL_RECORDED' }, mergeCtx({ hasMergeApproval: true, ciPassed: true }));
+      expect(approved.nextState).toBe('MERGING');
+      expect(approved.enqueue).toEqual([mergeJob]);
+
+      const early = transition('PR_OPEN', { type: 'E_APPROVAL_RECORDED' }, mergeCtx({ hasMergeApproval: true }));
+      expect(early.nextState).toBe('PR_OPEN');
+      expect(early.enqueue).toEqual([]);
+    });
+
+    test('without a merge mode, CI success ends the workflow as before', () => {
+      const res = transition('VERIFYING_CI', { type: 'E_CI_COMPLETED', result: { conclusion: 'success' } }, { ...baseCtx(), hasMergeApproval: true });
+      expect(res.nextState).toBe('DONE');
+    });
+
+    test('merge job result and PR merged webhooks -> DONE once every PR merged', () => {
+      expect(transition('MERGING', { type: 'E_JOB_COMPLETED', stage: 'merge', result: { merged: false } }, mergeCtx()).nextState).toBe('MERGING');
+      expect(transition('MERGING', { type: 'E_JOB_COMPLETED', stage: 'merge', result: { merged: true } }, mergeCtx()).nextState).toBe('DONE');
+      expect(transition('MERGING', { type: 'E_PR_MERGED', prNumber: 7 }, mergeCtx({ allPullRequestsMerged: false })).nextState).toBe('MERGING');
+      expect(transition('MERGING', { type: 'E_PR_MERGED', prNumber: 7 }, mergeCtx({ allPullRequestsMerged: true })).nextState).toBe('DONE');
+    });
+
+    test('merge failures -> NEEDS_HUMAN with the reason', () => {
+      const dequeued = transition('MERGING', { type: 'E_MERGE_FAILED', prNumber: 7, reason: 'Removed from the merge queue: MERGE_CONFLICT' }, mergeCtx());
+      expect(dequeued.nextState).toBe('NEEDS_HUMAN');
+      expect(dequeued.reason).toBe('Merge failed for PR #7: Removed from the merge queue: MERGE_CONFLICT');
+
+      const failed = transition('MERGING', { type: 'E_JOB_FAILED', stage: 'merge', error: 'WRITE_BLOCKED_NO_APPROVAL' }, mergeCtx());
+      expect(failed.nextState).toBe('NEEDS_HUMAN');
+      expect(failed.reason).toContain('WRITE_BLOCKED_NO_APPROVAL');
+
+      const late = transition('PR_OPEN', { type: 'E_MERGE_FAILED', prNumber: 7, reason: 'Auto-merge disabled' }, mergeCtx());
+      expect(late.nextState).toBe('NEEDS_HUMAN');
+      expect(late.reason).toBe('Merge failed for PR #7: Auto-merge disabled');
+
+      expect(transition('MERGING', { type: 'E_PR_CLOSED', prNumber: 7 }, mergeCtx()).nextState).toBe('NEEDS_HUMAN');
+      expect(transition('MERGING', { type: 'E_CI_COMPLETED', result: { conclusion: 'failure' } }, mergeCtx()).nextState).toBe('NEEDS_HUMAN');
+    });
   });
 
   describe('Policy evaluation (Phase 4)', () => {
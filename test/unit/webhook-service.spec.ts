@@ -0,0 +1,146 @@
+/**
+ * Tests for WebhookService delivery retries, dead letters and replays
+ */
+
+import {
+  WebhookService,
+  webhookFailureStatus,
+  webhookRetryDelay
+} from '@core/github/webhook-service';
+
+describe('Webhook delivery retries', () => {
+  it('should back off exponentially and dead-letter at the attempt limit', () => {
+    expect([1, 2, 3, 4].map(attempt => webhookRetryDelay(attempt))).toEqual([5000, 10000, 20000, 40000]);
+    expect(webhookRetryDelay(3, 1000)).toBe(4000);
+    expect(webhookFailureStatus(4)).toBe('failed');
+    expect(webhookFailureStatus(5)).toBe('dead_letter');
+    expect(webhookFailureStatus(2, 2)).toBe('dead_letter');
+  });
+});
+
+describe('WebhookService.process', () => {
+  const mergedWebhook = (overrides: Record<string, unknown> = {}) => ({
+    id: 'hook-1',
+    deliveryId: 'delivery-1',
+    eventType: 'pull_request',
+    signature: 'sig',
+    processed: false,
+    status: 'pending',
+    attempts: 0,
+    payload: {
+      action: 'closed',
+      repository: { id: 1, name: 'app', full_name: 'acme/app', owner: { login: 'acme' } },
+      pull_request: {
+        number: 12,
+        state: 'merged',
+        title: 'Add caching',
+        head: { sha: 'head-sha', ref: 'arch-orchestrator/wf-1' },
+        base: { sha: 'base-sha', ref: 'main' }
+      }
+    },
+    ...overrides
+  });
+
+  const createMockPrisma = (webhook: ReturnType<typeof mergedWebhook>, prStatus = 'open') => ({
+    gitHubWebhook: {
+      findUnique: jest.fn().mockResolvedValue(webhook),
+      update: jest.fn()
+    },
+    pullRequest: {
+      findFirst: jest.fn().mockResolvedValue({ id: 'pr-1', workflowId: 'wf-1', number: 12, status: prStatus }),
+      update: jest.fn()
+    },
+    workflowEvent: { create: jest.fn() }
+  });
+
+  it('should mark processed deliveries with the attempt count', async () => {
+    const prisma = createMockPrisma(mergedWebhook());
+    const service = new WebhookService(prisma as any, 'secret');
+
+    const result = await service.process('hook-1');
+
+    expect(result).toEqual({ processed: true, action: 'pr_closed', workflowId: 'wf-1' });
+    expect(prisma.workflowEvent.create).toHaveBeenCalledWith({
+      data: { workflowId: 'wf-1', type: 'E_PR_MERGED', payload: { prNumber: 12, webhookId: 'hook-1' } }
+    });
+    expect(prisma.gitHubWebhook.update).toHaveBeenCalledWith({
+      where: { id: 'hook-1' },
+      data: expect.objectContaining({ processed: true, status: 'processed', attempts: 1, lastError: null })
+    });
+  });
+
+  it('should not merge a PR twice when a delivery is handled again', async () => {
+    const prisma = createMockPrisma(mergedWebhook(), 'merged');
+    const service = new WebhookService(prisma as any, 'secret');
+
+    const result = await service.process('hook-1');
+
+    expect(result.action).toBe('pr_closed_duplicate');
+    expect(prisma.pullRequest.update).not.toHaveBeenCalled();
+    expect(prisma.workflowEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should record merge failures when auto-merge is disabled or the PR is dequeued', async () => {
+    const dequeued = (reason: string) => mergedWebhook({
+      payload: {
+        ...mergedWebhook().payload,
+        action: 'dequeued',
+        reason,
+        pull_request: { ...mergedWebhook().payload.pull_request, state: 'open' }
+      }
+    });
+    const prisma = createMockPrisma(dequeued('MERGE_CONFLICT'));
+    const service = new WebhookService(prisma as any, 'secret');
+
+    expect(await service.process('hook-1')).toMatchObject({ processed: true, action: 'pr_merge_failed' });
+    expect(prisma.workflowEvent.create).toHaveBeenCalledWith({
+      data: {
+        workflowId: 'wf-1',
+        type: 'E_MERGE_FAILED',
+        payload: { prNumber: 12, reason: 'Removed from the merge queue: MERGE_CONFLICT', webhookId: 'hook-1' }
+      }
+    });
+
+    // Leaving the queue by merging is not a failure
+    prisma.workflowEvent.create.mockClear();
+    prisma.gitHubWebhook.findUnique.mockResolvedValue(dequeued('MERGE'));
+    expect((await service.process('hook-1')).action).toBe('pr_dequeued');
+    expect(prisma.workflowEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should record failures and dead-letter after the last attempt', async () => {
+    const prisma = createMockPrisma(mergedWebhook({ status: 'failed', attempts: 1 }));
+    prisma.pullRequest.findFirst.mockRejectedValue(new Error('connection reset'));
+    const service = new WebhookService(prisma as any, 'secret', { maxAttempts: 3 });
+
+    expect(await service.process('hook-1')).toEqual({ processed: false, error: 'connection reset', deadLettered: false });
+    expect(prisma.gitHubWebhook.update).toHaveBeenLastCalledWith({
+      where: { id: 'hook-1' },
+      data: expect.objectContaining({ status: 'failed', attempts: 2, lastError: 'connection reset', deadLetteredAt: null })
+    });
+
+    prisma.gitHubWebhook.findUnique.mockResolvedValue(mergedWebhook({ status: 'failed', attempts: 2 }));
+    expect(await service.process('hook-1')).toMatchObject({ processed: false, deadLettered: true });
+    expect(prisma.gitHubWebhook.update).toHaveBeenLastCalledWith({
+      where: { id: 'hook-1' },
+      data: expect.objectContaining({ status: 'dead_letter', attempts: 3, deadLetteredAt: expect.any(Date) })
+    });
+  });
+
+  it('should replay dead-lettered deliveries by delivery ID', async () => {
+    const prisma = createMockPrisma(mergedWebhook({ status: 'dead_letter', attempts: 5 }));
+    const service = new WebhookService(prisma as any, 'secret');
+
+    const result = await service.replay('delivery-1');
+
+    expect(prisma.gitHubWebhook.findUnique).toHaveBeenCalledWith({ where: { deliveryId: 'delivery-1' } });
+    expect(prisma.gitHubWebhook.update).toHaveBeenNthCalledWith(1, {
+      where: { id: 'hook-1' },
+      data: { processed: false, status: 'pending', attempts: 0, deadLetteredAt: null }
+    });
+    expect(result.processed).toBe(true);
+
+    prisma.gitHubWebhook.findUnique.mockResolvedValueOnce(null);
+    expect(await service.replay('missing')).toMatchObject({ processed: false });
+  });
+});
@@ -11,6 +11,10 @@ import {
   extractCIConclusion,
   extractHeadSha,
   extractRepositoryInfo,
+  extractPullRequestReview,
+  extractReviewComment,
+  reviewToTransitionEvent,
+  formatReviewFeedback,
   type WebhookPayload,
   type GitHubWebhookEventType
 } from '../../packages/core/src/github/webhook';
@@ -68,6 +72,8 @@ describe('Event Type Parsing', () => {
     expect(parseEventType('workflow_run')).toBe('workflow_run');
     expect(parseEventType('status')).toBe('status');
     expect(parseEventType('issue_comment')).toBe('issue_comment');
+    expect(parseEventType('pull_request_review')).toBe('pull_request_review');
+    expect(parseEventType('pull_request_review_comment')).toBe('pull_request_review_comment');
     expect(parseEventType('ping')).toBe('ping');
   });
 
@@ -292,3 +298,98 @@ describe('Repository Info Extraction', () => {
     expect(extractRepositoryInfo(event)).toBeNull();
   });
 });
+
+describe('Pull Request Reviews', () => {
+  const pullRequest = {
+    number: 12,
+    state: 'open',
+    title: 'Orchestrator changes',
+    head: { sha: 'head', ref: 'orchestrator/wf-1' },
+    base: { sha: 'base', ref: 'main' }
+  };
+
+  const reviewEvent = (state: string, action = 'submitted') => createWebhookEvent(
+    'pull_request_review',
+    {
+      action,
+      pull_request: pullRequest,
+      review: { id: 7, state, body: 'Please rework the parser', commit_id: 'head', user: { login: 'alice' } }
+    },
+    'delivery',
+    'sig'
+  );
+
+  it('should extract submitted reviews', () => {
+    expect(extractPullRequestReview(reviewEvent('CHANGES_REQUESTED'))).toEqual({
+      prNumber: 12,
+      headBranch: 'orchestrator/wf-1',
+      reviewId: 7,
+      state: 'changes_requested',
+      reviewer: 'alice',
+      body: 'Please rework the parser',
+      commitSha: 'head'
+    });
+    expect(extractPullRequestReview(reviewEvent('approved', 'edited'))).toBeNull();
+    expect(extractPullRequestReview(reviewEvent('pending'))).toBeNull();
+  });
+
+  it('should extract inline comments, falling back to the original line', () => {
+    const event = createWebhookEvent(
+      'pull_request_review_comment',
+      {
+        action: 'created',
+        pull_request: pullRequest,
+        comment: { id: 1, pull_request_review_id: 7, path: 'src/parser.ts', line: null, original_line: 40, body: 'Handle empty input', user: { login: 'alice' } }
+      },
+      'delivery',
+      'sig'
+    );
+
+    expect(extractReviewComment(event)).toEqual({
+      path: 'src/parser.ts',
+      line: 40,
+      body: 'Handle empty input',
+      author: 'alice',
+      reviewId: 7
+    });
+  });
+
+  it('should map reviews to transition events', () => {
+    const comments = [{ path: 'src/parser.ts', line: 40, body: 'Handle empty input' }];
+    const changes = extractPullRequestReview(reviewEvent('changes_requested'))!;
+    const approved = extractPullRequestReview(reviewEvent('approved'))!;
+    const commented = extractPullRequestReview(reviewEvent('commented'))!;
+
+    expect(reviewToTransitionEvent(changes, comments)).toEqual({
+      type: 'E_PR_CHANGES_REQUESTED',
+      prNumber: 12,
+      reviewer: 'alice',
+      body: 'Please rework the parser',
+      comments
+    });
+    expect(reviewToTransitionEvent(approved)).toEqual({ type: 'E_PR_APPROVED', prNumber: 12, reviewer: 'alice' });
+    expect(reviewToTransitionEvent(commented)).toBeNull();
+  });
+
+  it('should format review feedback with file and line', () => {
+    const feedback = formatReviewFeedback(
+      { prNumber: 12, reviewer: 'alice', body: 'Please rework the parser' },
+      [
+        { path: 'src/parser.ts', line: 40, body: 'Handle empty input\nand whitespace' },
+        { path: 'README.md', body: 'Document the flag' },
+        { body: 'Add a changelog entry' }
+      ]
+    );
+
+    expect(feedback).toBe([
+      'Changes requested on PR #12 by @alice.',
+      '',
+      'Please rework the parser',
+      '',
+      'Review comments:',
+      '- src/parser.ts:40: Handle empty input and whitespace',
+      '- README.md: Document the flag',
+      '- general: Add a changelog entry'
+    ].join('\n'));
+  });
+});